@@ -0,0 +1,114 @@
+import type { GatewayClient } from "../gateway/client";
+
+export type ApprovalDecision = "approve" | "deny" | "edit";
+
+export interface PendingApproval {
+  id: string;
+  agentId: string;
+  conversationId: string;
+  runId: string;
+  toolName: string;
+  toolArgs: Record<string, unknown>;
+  reason: string;
+  requestedAt: number;
+  expiresAt: number;
+}
+
+/**
+ * Approval service - tracks tool calls waiting for the user's decision
+ *
+ * Features:
+ * - Keeps the pending list in sync from tool.approval.requested / tool.approval.resolved events
+ * - Loads requests opened before the app connected via tool.approvals.list
+ * - Approves, denies or edits a request via tool.approval.resolve
+ */
+export class ApprovalService {
+  private approvals = new Map<string, PendingApproval>();
+  private listeners = new Set<(approvals: PendingApproval[]) => void>();
+
+  constructor(private client: GatewayClient) {
+    this.setupEventListeners();
+  }
+
+  private setupEventListeners(): void {
+    this.client.addEventListener((event) => {
+      if (event.event === "tool.approval.requested") {
+        const approval = event.payload as PendingApproval;
+        this.approvals.set(approval.id, approval);
+        this.notifyListeners();
+      } else if (event.event === "tool.approval.resolved") {
+        const { id } = event.payload as { id: string };
+        if (this.approvals.delete(id)) {
+          this.notifyListeners();
+        }
+      }
+    });
+  }
+
+  /**
+   * Reload pending approvals from the gateway
+   */
+  async refresh(): Promise<PendingApproval[]> {
+    const response = await this.client.request("tool.approvals.list", {});
+    if (!response.ok) {
+      throw new Error(response.error?.message || "Failed to load approvals");
+    }
+
+    const { approvals } = response.result as { approvals: PendingApproval[] };
+    this.approvals = new Map(approvals.map((approval) => [approval.id, approval]));
+    this.notifyListeners();
+    return approvals;
+  }
+
+  /**
+   * Decide on a pending tool call; "edit" approves it with new arguments
+   */
+  async resolve(
+    id: string,
+    decision: ApprovalDecision,
+    options: { toolArgs?: Record<string, unknown>; note?: string } = {}
+  ): Promise<void> {
+    const response = await this.client.request("tool.approval.resolve", {
+      id,
+      decision,
+      toolArgs: options.toolArgs,
+      note: options.note,
+      resolvedBy: "app",
+    });
+
+    if (!response.ok) {
+      throw new Error(response.error?.message || "Failed to resolve approval");
+    }
+
+    this.approvals.delete(id);
+    this.notifyListeners();
+  }
+
+  getApprovals(conversationId?: string): PendingApproval[] {
+    const approvals = Array.from(this.approvals.values());
+    return conversationId ? approvals.filter((approval) => approval.conversationId === conversationId) : approvals;
+  }
+
+  /**
+   * Subscribe to pending approval changes
+   * Returns unsubscribe function
+   */
+  subscribe(listener: (approvals: PendingApproval[]) => void): () => void {
+    this.listeners.add(listener);
+    listener(this.getApprovals());
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notifyListeners(): void {
+    const approvals = this.getApprovals();
+    this.listeners.forEach((listener) => {
+      try {
+        listener(approvals);
+      } catch (err) {
+        console.error("Error in approval listener:", err);
+      }
+    });
+  }
+}
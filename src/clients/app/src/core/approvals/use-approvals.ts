@@ -0,0 +1,40 @@
+import { useState, useEffect, useMemo } from "react";
+import { useGatewayContext } from "../gateway/use-gateway-context";
+import { serviceRegistry } from "../gateway/service-registry";
+import type { ApprovalService, PendingApproval } from "./approval-service";
+
+/**
+ * Hook to get the approval service instance
+ */
+export function useApprovalService(): ApprovalService | null {
+  const { gatewayClient } = useGatewayContext();
+  return useMemo(
+    () => serviceRegistry.getService(gatewayClient, "approvalService"),
+    [gatewayClient]
+  );
+}
+
+/**
+ * Hook to get the tool calls waiting for approval in a conversation
+ * Updates reactively as requests arrive and get decided
+ */
+export function useConversationApprovals(conversationId: string | null): PendingApproval[] {
+  const approvalService = useApprovalService();
+  const [approvals, setApprovals] = useState<PendingApproval[]>([]);
+
+  useEffect(() => {
+    if (!approvalService || !conversationId) {
+      setApprovals([]);
+      return;
+    }
+
+    approvalService.refresh().catch((error) => console.error("[Approvals] Failed to load approvals:", error));
+    const unsubscribe = approvalService.subscribe((all) => {
+      setApprovals(all.filter((approval) => approval.conversationId === conversationId));
+    });
+
+    return unsubscribe;
+  }, [approvalService, conversationId]);
+
+  return approvals;
+}
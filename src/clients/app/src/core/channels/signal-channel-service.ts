@@ -4,11 +4,12 @@ import type { SignalConfig, ChannelConnectionState, ChannelStatus } from "./type
 /**
  * Signal Channel Service - handles Signal channel connection and configuration
  * 
- * Note: Signal integration requires signal-cli or similar tools for full functionality.
+ * Note: Signal integration requires a signal-cli daemon (`signal-cli daemon --socket` or `--tcp`).
  */
 export class SignalChannelService {
   private eventListeners: {
     status?: (status: { status: "connected" | "connecting" | "disconnected" }) => void;
+    qr?: (qr: string | null) => void;
     error?: (error: string) => void;
   } = {};
 
@@ -21,10 +22,17 @@ export class SignalChannelService {
    */
   private setupEventListeners(): void {
     const handleStatusEvent = (e: CustomEvent<{
-      status: "connected" | "connecting" | "disconnected";
+      status: "connected" | "connecting" | "disconnected" | "waiting_for_scan";
+      qr?: string | null;
       channelId: string;
     }>) => {
-      if (e.detail.channelId === "signal") {
+      if (e.detail.channelId !== "signal") {
+        return;
+      }
+      if (e.detail.qr !== undefined) {
+        this.eventListeners.qr?.(e.detail.qr);
+      }
+      if (e.detail.status !== "waiting_for_scan") {
         this.eventListeners.status?.({
           status: e.detail.status,
         });
@@ -44,9 +52,9 @@ export class SignalChannelService {
   /**
    * Register event listeners
    */
-  on<K extends keyof { status: (status: { status: "connected" | "connecting" | "disconnected" }) => void; error: (error: string) => void }>(
+  on<K extends keyof { status: (status: { status: "connected" | "connecting" | "disconnected" }) => void; qr: (qr: string | null) => void; error: (error: string) => void }>(
     event: K,
-    handler: { status: (status: { status: "connected" | "connecting" | "disconnected" }) => void; error: (error: string) => void }[K]
+    handler: { status: (status: { status: "connected" | "connecting" | "disconnected" }) => void; qr: (qr: string | null) => void; error: (error: string) => void }[K]
   ): void {
     this.eventListeners[event] = handler;
   }
@@ -218,6 +226,29 @@ export class SignalChannelService {
     setTimeout(pollConnection, 500);
   }
 
+  /**
+   * Link signal-cli to an existing Signal account as a secondary device.
+   * The device link QR code is emitted via the "qr" listener; the channel is
+   * enabled and started by the gateway once the code is scanned.
+   */
+  async link(deviceName?: string): Promise<void> {
+    if (!this.client.isConnected()) {
+      await this.client.connect();
+    }
+
+    const loginResponse = await this.client.request("channels.login", {
+      channelId: "signal",
+      mode: "link",
+      ...(deviceName && { deviceName }),
+    }) as { ok: boolean; error?: { message: string } };
+
+    if (!loginResponse.ok) {
+      const error = loginResponse.error?.message || "Failed to link Signal";
+      this.eventListeners.error?.(error);
+      throw new Error(error);
+    }
+  }
+
   /**
    * Disconnect Signal channel
    */
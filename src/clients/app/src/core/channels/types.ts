@@ -34,6 +34,10 @@ export interface DiscordConfig {
 }
 
 export interface SignalConfig {
+  account?: string;
+  socketPath?: string;
+  host?: string;
+  port?: number;
   dmPolicy?: "open" | "pairing" | "allowlist";
   allowFrom?: string[];
 }
@@ -70,8 +70,9 @@ export class GatewayClient {
         console.log(`[GatewayClient] Attempting to connect to ${url}`);
         this.ws = new WebSocket(url);
 
+        let authenticated = false;
         const timeout = setTimeout(() => {
-          if (this.ws && this.ws.readyState !== WebSocket.OPEN) {
+          if (this.ws && !authenticated) {
             console.error(`[GatewayClient] Connection timeout to ${url}`);
             this.ws.close();
             this.ws = null;
@@ -81,12 +82,9 @@ export class GatewayClient {
           }
         }, 10000); // 10 second timeout
 
+        // The connection is only usable after the connect.challenge handshake
         this.ws.onopen = () => {
-          clearTimeout(timeout);
-          console.log(`[GatewayClient] Connected to ${url}`);
-          this.reconnectAttempts = 0;
-          this.options.onConnect?.();
-          resolve();
+          console.log(`[GatewayClient] Socket open to ${url}, waiting for challenge`);
         };
 
         this.ws.onmessage = (event) => {
@@ -95,12 +93,26 @@ export class GatewayClient {
 
             if ("type" in data && data.type === "event") {
               const eventData = data as GatewayEvent;
-              // Handle connect.challenge event - we can ignore it for now
-              // or send a connect request if needed
               if (eventData.event === "connect.challenge") {
-                // For now, we'll just acknowledge the challenge
-                // In a full implementation, we'd send a connect request here
-                console.debug("Received connect.challenge");
+                const { nonce } = (eventData.payload ?? {}) as { nonce?: string };
+                this.authenticate(nonce)
+                  .then(() => {
+                    authenticated = true;
+                    clearTimeout(timeout);
+                    console.log(`[GatewayClient] Connected to ${url}`);
+                    this.reconnectAttempts = 0;
+                    this.options.onConnect?.();
+                    resolve();
+                  })
+                  .catch((err) => {
+                    clearTimeout(timeout);
+                    const error = err instanceof Error ? err : new Error("Gateway authentication failed");
+                    // Retrying with the same token won't help
+                    this.reconnectAttempts = this.maxReconnectAttempts;
+                    this.options.onError?.(error);
+                    this.ws?.close();
+                    reject(error);
+                  });
               }
               this.options.onEvent?.(eventData);
               // Notify all event listeners
@@ -160,6 +172,33 @@ export class GatewayClient {
     });
   }
 
+  /**
+   * Answer connect.challenge with an HMAC-SHA256 signature of the nonce, so the token never leaves the app
+   */
+  private async authenticate(nonce?: string): Promise<void> {
+    const token = this.options.token;
+    const params: Record<string, unknown> = {};
+    if (token && nonce) {
+      const encoder = new TextEncoder();
+      const key = await crypto.subtle.importKey(
+        "raw",
+        encoder.encode(token),
+        { name: "HMAC", hash: "SHA-256" },
+        false,
+        ["sign"],
+      );
+      const signature = await crypto.subtle.sign("HMAC", key, encoder.encode(nonce));
+      params.signature = toBase64Url(new Uint8Array(signature));
+    }
+
+    try {
+      await this.request("connect", params);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "unknown error";
+      throw new Error(`Gateway authentication failed: ${message}${token ? "" : " (set a gateway token in Settings)"}`);
+    }
+  }
+
   private attemptReconnect(): void {
     if (this.reconnectAttempts >= this.maxReconnectAttempts) {
       console.error("Max reconnect attempts reached");
@@ -253,3 +292,11 @@ export class GatewayClient {
     return this.ws?.readyState === WebSocket.OPEN;
   }
 }
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = "";
+  bytes.forEach((b) => {
+    binary += String.fromCharCode(b);
+  });
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
@@ -20,6 +20,7 @@ export class GatewayClientFactory {
     return new GatewayClient({
       host: settings.host ?? "127.0.0.1",
       port: settings.port ?? 18789,
+      token: settings.token,
       onConnect: handlers.onConnect,
       onDisconnect: handlers.onDisconnect,
       onError: handlers.onError,
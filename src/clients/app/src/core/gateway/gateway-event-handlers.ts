@@ -40,7 +40,8 @@ export class GatewayEventHandlers {
           window.dispatchEvent(new CustomEvent("discord-status", { detail: payload }));
         } else if (event.event === "channel.signal.status" && event.payload) {
           const payload = event.payload as {
-            status: "connected" | "connecting" | "disconnected";
+            status: "connected" | "connecting" | "disconnected" | "waiting_for_scan";
+            qr?: string | null;
             channelId: string;
           };
           console.log("[GatewayEventHandlers] Dispatching signal-status event:", payload.status);
@@ -8,6 +8,7 @@ import { MessageService } from "../messages/message-service";
 import { AgentService } from "../agents/agent-service";
 import { HealthService } from "../health/health-service";
 import { StreamingService } from "../streaming/streaming-service";
+import { ApprovalService } from "../approvals/approval-service";
 
 /**
  * Service container - holds all services for a single gateway client
@@ -25,6 +26,7 @@ export interface ServiceContainer {
   agentService: AgentService;
   healthService: HealthService;
   streamingService: StreamingService;
+  approvalService: ApprovalService;
 }
 
 /**
@@ -80,6 +82,7 @@ export class ServiceRegistry {
     const agentService = new AgentService(client);
     const healthService = new HealthService(client);
     const streamingService = new StreamingService(client);
+    const approvalService = new ApprovalService(client);
 
     // Create MessageService with ConversationService dependency injection
     const messageService = new MessageService(client, conversationService);
@@ -100,6 +103,7 @@ export class ServiceRegistry {
       agentService,
       healthService,
       streamingService,
+      approvalService,
     };
   }
 
@@ -26,6 +26,7 @@ export interface GatewayEvent {
 export interface GatewayClientOptions {
   host?: string;
   port?: number;
+  token?: string; // Gateway token, needed when the gateway has auth enabled
   onConnect?: () => void;
   onDisconnect?: () => void;
   onError?: (error: Error) => void;
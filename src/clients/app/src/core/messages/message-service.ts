@@ -106,4 +106,20 @@ export class MessageService {
 
     return response.result;
   }
+
+  /**
+   * Cancel the agent's in-flight work on a conversation via agent.cancel
+   */
+  async cancelRun(conversationId: string, agentId?: string): Promise<string[]> {
+    const response = await this.client.request("agent.cancel", {
+      conversationId,
+      agentId,
+    });
+
+    if (!response.ok) {
+      throw new Error(response.error?.message || "Failed to cancel agent run");
+    }
+
+    return (response.result as { cancelled?: string[] } | undefined)?.cancelled ?? [];
+  }
 }
@@ -4,6 +4,7 @@ export interface GatewaySettings {
   host: string;
   port: number;
   autoStart?: boolean;
+  token?: string;
 }
 
 export interface AppSettings {
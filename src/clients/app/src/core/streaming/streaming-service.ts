@@ -34,7 +34,7 @@ export class StreamingService {
       const payload = event.payload as {
         conversationId?: string;
         runId?: string;
-        phase?: "start" | "end" | "error";
+        phase?: "start" | "end" | "error" | "cancelled";
       };
 
       if (!payload.conversationId) return;
@@ -46,7 +46,7 @@ export class StreamingService {
         this.setStreaming(conversationId, payload.runId || null);
       } else if (
         eventType === "lifecycle" &&
-        (payload.phase === "end" || payload.phase === "error")
+        (payload.phase === "end" || payload.phase === "error" || payload.phase === "cancelled")
       ) {
         this.clearStreaming(conversationId);
       } else if (eventType === "done") {
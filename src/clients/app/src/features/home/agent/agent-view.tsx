@@ -24,6 +24,8 @@ import {
   Filter,
   CheckCircle2,
   XCircle,
+  CircleStop,
+  ShieldAlert,
   Circle,
   Send,
   Inbox,
@@ -61,6 +63,20 @@ const TOOL_DESCRIPTIONS: Record<string, string> = {
   tts: "Text-to-speech synthesis",
 };
 
+interface AgentTool {
+  name: string;
+  source: "builtin" | "plugin";
+  description?: string;
+  kind?: "module" | "script";
+  enabled: boolean;
+  file?: string;
+}
+
+interface AgentTools {
+  tools: AgentTool[];
+  errors: Array<{ file: string; error: string }>;
+}
+
 interface AgentViewProps {
   agentId: string;
   state: UseAppReturn;
@@ -86,6 +102,10 @@ export function AgentView({ agentId, state, gatewayClient, onClose }: AgentViewP
   const [editingFile, setEditingFile] = useState<string | null>(null);
   const [editedContent, setEditedContent] = useState<Record<string, string>>({});
   const [saving, setSaving] = useState(false);
+  const [agentTools, setAgentTools] = useState<AgentTools | null>(null);
+  const [loadingTools, setLoadingTools] = useState(false);
+  const [toolsError, setToolsError] = useState<string | null>(null);
+  const [togglingTool, setTogglingTool] = useState<string | null>(null);
   const [archivedExpanded, setArchivedExpanded] = useState(false);
   const [activities, setActivities] = useState<ActivityItem[]>([]);
   const [loadingActivities, setLoadingActivities] = useState(false);
@@ -117,6 +137,7 @@ export function AgentView({ agentId, state, gatewayClient, onClose }: AgentViewP
     if (activeTab === "settings" && gatewayClient?.isConnected() && !loadingPrompts) {
       // Always reload when switching to settings tab to get fresh data
       loadPrompts();
+      loadTools();
     }
   }, [activeTab, gatewayClient, agentId]);
 
@@ -218,6 +239,57 @@ export function AgentView({ agentId, state, gatewayClient, onClose }: AgentViewP
     }
   };
 
+  const loadTools = async () => {
+    if (!gatewayClient?.isConnected()) {
+      setToolsError("Not connected to gateway");
+      return;
+    }
+
+    setLoadingTools(true);
+    setToolsError(null);
+
+    try {
+      const response = await gatewayClient.request("tools.list", { agentId });
+      if (response.ok && response.result) {
+        setAgentTools(response.result as AgentTools);
+      } else {
+        setToolsError(response.error?.message || "Failed to load tools");
+        console.error("[AgentView] Failed to load tools:", response.error);
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Failed to load tools";
+      setToolsError(errorMessage);
+      console.error("[AgentView] Error loading tools:", error);
+    } finally {
+      setLoadingTools(false);
+    }
+  };
+
+  const toggleTool = async (name: string, enabled: boolean) => {
+    if (!gatewayClient?.isConnected()) {
+      setToolsError("Not connected to gateway");
+      return;
+    }
+
+    setTogglingTool(name);
+    try {
+      const response = await gatewayClient.request("tools.toggle", { agentId, name, enabled });
+      if (response.ok && response.result) {
+        const { tool } = response.result as { tool: AgentTool };
+        setAgentTools((prev) => prev && {
+          ...prev,
+          tools: prev.tools.map((t) => (t.name === tool.name ? tool : t)),
+        });
+      } else {
+        setToolsError(response.error?.message || "Failed to toggle tool");
+      }
+    } catch (error) {
+      setToolsError(error instanceof Error ? error.message : "Failed to toggle tool");
+    } finally {
+      setTogglingTool(null);
+    }
+  };
+
   const savePromptFile = async (fileName: string) => {
     if (!gatewayClient?.isConnected()) {
       setPromptsError("Not connected to gateway");
@@ -350,8 +422,11 @@ export function AgentView({ agentId, state, gatewayClient, onClose }: AgentViewP
       "agent.run": "Started agent run",
       "agent.run.complete": "Completed agent run",
       "agent.run.error": "Agent run failed",
+      "agent.run.cancelled": "Cancelled agent run",
       "tool.call": "Called tool",
       "tool.result": "Tool completed",
+      "tool.approval.requested": "Requested tool approval",
+      "tool.approval.resolved": "Resolved tool approval",
       "conversation.create": "Created conversation",
       "conversation.update": "Updated conversation",
       "channel.message.incoming": "Received message",
@@ -368,6 +443,8 @@ export function AgentView({ agentId, state, gatewayClient, onClose }: AgentViewP
     if (type === "agent.run") return <Play className="h-4 w-4" />;
     if (type === "agent.run.complete") return <CheckCircle2 className="h-4 w-4" />;
     if (type === "agent.run.error") return <XCircle className="h-4 w-4" />;
+    if (type === "agent.run.cancelled") return <CircleStop className="h-4 w-4" />;
+    if (type.startsWith("tool.approval.")) return <ShieldAlert className="h-4 w-4" />;
     if (type.startsWith("tool.call")) return <Terminal className="h-4 w-4" />;
     if (type.startsWith("tool.result")) return <CheckCircle2 className="h-4 w-4" />;
     if (type === "conversation.create") return <Circle className="h-4 w-4" />;
@@ -381,7 +458,9 @@ export function AgentView({ agentId, state, gatewayClient, onClose }: AgentViewP
   const getActivityColor = (type: string): string => {
     if (type === "agent.run.complete") return "text-green-600 dark:text-green-400";
     if (type === "agent.run.error") return "text-red-600 dark:text-red-400";
+    if (type === "agent.run.cancelled") return "text-amber-600 dark:text-amber-400";
     if (type === "agent.run") return "text-blue-600 dark:text-blue-400";
+    if (type.startsWith("tool.approval.")) return "text-amber-600 dark:text-amber-400";
     if (type.startsWith("tool.")) return "text-purple-600 dark:text-purple-400";
     if (type.startsWith("conversation.")) return "text-orange-600 dark:text-orange-400";
     if (type.startsWith("channel.")) return "text-cyan-600 dark:text-cyan-400";
@@ -392,7 +471,9 @@ export function AgentView({ agentId, state, gatewayClient, onClose }: AgentViewP
   const getActivityBgColor = (type: string): string => {
     if (type === "agent.run.complete") return "bg-green-100 dark:bg-green-900";
     if (type === "agent.run.error") return "bg-red-100 dark:bg-red-900";
+    if (type === "agent.run.cancelled") return "bg-amber-100 dark:bg-amber-900";
     if (type === "agent.run") return "bg-blue-100 dark:bg-blue-900";
+    if (type.startsWith("tool.approval.")) return "bg-amber-100 dark:bg-amber-900";
     if (type.startsWith("tool.")) return "bg-purple-100 dark:bg-purple-900";
     if (type.startsWith("conversation.")) return "bg-orange-100 dark:bg-orange-900";
     if (type.startsWith("channel.")) return "bg-cyan-100 dark:bg-cyan-900";
@@ -599,12 +680,23 @@ export function AgentView({ agentId, state, gatewayClient, onClose }: AgentViewP
     if (type === "agent.run.error" && metadata.error) {
       return String(metadata.error);
     }
+    if (type === "agent.run.cancelled" && metadata.message) {
+      return String(metadata.message);
+    }
     if (type === "tool.call" && metadata.toolName) {
       return `Tool: ${String(metadata.toolName)}`;
     }
     if (type === "tool.result" && metadata.toolName) {
       return `Tool: ${String(metadata.toolName)} completed`;
     }
+    if (type === "tool.approval.requested" && metadata.toolName) {
+      return `Tool: ${String(metadata.toolName)} waiting for approval${metadata.approvalId ? ` [${String(metadata.approvalId)}]` : ""}`;
+    }
+    if (type === "tool.approval.resolved" && metadata.toolName) {
+      const by = metadata.resolvedBy ? ` by ${String(metadata.resolvedBy)}` : "";
+      const edited = metadata.approvalEdited ? " (edited)" : "";
+      return `Tool: ${String(metadata.toolName)} ${String(metadata.approvalOutcome ?? "resolved")}${edited}${by}`;
+    }
     if (type === "conversation.create" && metadata.conversationLabel) {
       return `Conversation: ${String(metadata.conversationLabel)}`;
     }
@@ -630,9 +722,6 @@ export function AgentView({ agentId, state, gatewayClient, onClose }: AgentViewP
     .filter((s) => !state.activeConversationIds.has(s.id))
     .sort((a, b) => (b.lastActivity || 0) - (a.lastActivity || 0));
 
-  // Common tools list (based on project structure)
-  const commonTools = ["terminal", "browser", "canvas", "cron", "tts"];
-
   const handleRunAgent = () => {
     if (state.currentAgentId !== agentId) {
       state.setCurrentAgentId(agentId);
@@ -848,31 +937,69 @@ export function AgentView({ agentId, state, gatewayClient, onClose }: AgentViewP
                     <div className="px-6 py-4 border-b border-border">
                       <h3 className="text-base font-semibold text-foreground">Available Tools</h3>
                       <p className="text-sm text-muted-foreground mt-1">
-                        Tools available to this agent
+                        Built-in tools, plus plugin tools from the agent's plugins directory
                       </p>
                     </div>
                     <div className="px-6 py-4">
-                      <div className="grid grid-cols-1 gap-3">
-                        {commonTools.map((tool) => (
-                          <div
-                            key={tool}
-                            className="flex items-center gap-3 p-3 rounded-md border border-border bg-background hover:bg-accent/50 transition-colors"
-                          >
-                            <div className="text-muted-foreground">
-                              {TOOL_ICONS[tool] || <Wrench className="h-4 w-4" />}
+                      {loadingTools && !agentTools ? (
+                        <div className="flex items-center justify-center py-6">
+                          <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+                        </div>
+                      ) : (
+                        <div className="grid grid-cols-1 gap-3">
+                          {toolsError && (
+                            <div className="border border-destructive/50 rounded-md bg-destructive/10 px-4 py-3">
+                              <p className="text-sm text-destructive">{toolsError}</p>
                             </div>
-                            <div className="flex-1">
-                              <div className="font-medium text-foreground capitalize">{tool}</div>
-                              <div className="text-sm text-muted-foreground">
-                                {TOOL_DESCRIPTIONS[tool] || "Tool description"}
+                          )}
+                          {agentTools?.tools.map((tool) => (
+                            <div
+                              key={tool.name}
+                              className="flex items-center gap-3 p-3 rounded-md border border-border bg-background hover:bg-accent/50 transition-colors"
+                            >
+                              <div className="text-muted-foreground">
+                                {TOOL_ICONS[tool.name] || <Wrench className="h-4 w-4" />}
+                              </div>
+                              <div className="flex-1 min-w-0">
+                                <div className="font-medium text-foreground">
+                                  {tool.name}
+                                  {tool.source === "plugin" && (
+                                    <span className="ml-2 text-xs text-muted-foreground">plugin · {tool.kind}</span>
+                                  )}
+                                </div>
+                                <div className="text-sm text-muted-foreground truncate">
+                                  {tool.description || TOOL_DESCRIPTIONS[tool.name] || "Built-in tool"}
+                                </div>
                               </div>
+                              {tool.source === "plugin" ? (
+                                <Button
+                                  size="sm"
+                                  variant={tool.enabled ? "secondary" : "outline"}
+                                  className="shrink-0"
+                                  disabled={togglingTool === tool.name}
+                                  onClick={() => toggleTool(tool.name, !tool.enabled)}
+                                >
+                                  {togglingTool === tool.name && <Loader2 className="h-3.5 w-3.5 mr-1 animate-spin" />}
+                                  {tool.enabled ? "Enabled" : "Disabled"}
+                                </Button>
+                              ) : (
+                                <Badge variant="secondary" className="shrink-0">
+                                  Built-in
+                                </Badge>
+                              )}
                             </div>
-                            <Badge variant="secondary" className="shrink-0">
-                              Enabled
-                            </Badge>
-                          </div>
-                        ))}
-                      </div>
+                          ))}
+                          {agentTools?.errors.map((error) => (
+                            <div
+                              key={error.file}
+                              className="p-3 rounded-md border border-destructive/50 bg-destructive/10 text-sm"
+                            >
+                              <div className="font-mono text-xs text-muted-foreground truncate">{error.file}</div>
+                              <div className="text-destructive">{error.error}</div>
+                            </div>
+                          ))}
+                        </div>
+                      )}
                     </div>
                   </div>
                 </div>
@@ -1320,6 +1447,9 @@ export function AgentView({ agentId, state, gatewayClient, onClose }: AgentViewP
                                     )}
                                     <div className="text-xs text-muted-foreground">
                                       Created: {new Date(memory.createdAt).toLocaleString()} • Updated: {new Date(memory.updatedAt).toLocaleString()}
+                                      {memory.metadata?.calendarEventId && (
+                                        <> • Calendar: {String(memory.metadata.calendarEventId)} ({memory.metadata.status === "done" ? "fired" : "pending"})</>
+                                      )}
                                     </div>
                                   </div>
                                 )}
@@ -0,0 +1,112 @@
+import React, { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { ShieldAlert, Check, X, Pencil } from "lucide-react";
+import { useApprovalService, useConversationApprovals } from "../../../../core/approvals/use-approvals";
+import type { ApprovalDecision, PendingApproval } from "../../../../core/approvals/approval-service";
+
+interface ApprovalPromptProps {
+  conversationId: string | null;
+}
+
+/**
+ * Tool calls in this conversation that wait for the user's approval
+ */
+export function ApprovalPrompt({ conversationId }: ApprovalPromptProps) {
+  const approvals = useConversationApprovals(conversationId);
+
+  if (approvals.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="flex-none border-t border-border bg-background px-4 pt-3 space-y-2">
+      {approvals.map((approval) => (
+        <ApprovalCard key={approval.id} approval={approval} />
+      ))}
+    </div>
+  );
+}
+
+function ApprovalCard({ approval }: { approval: PendingApproval }) {
+  const approvalService = useApprovalService();
+  const [editing, setEditing] = useState(false);
+  const [argsText, setArgsText] = useState(() => JSON.stringify(approval.toolArgs, null, 2));
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const decide = async (decision: ApprovalDecision) => {
+    if (!approvalService) return;
+
+    let toolArgs: Record<string, unknown> | undefined;
+    if (decision === "edit") {
+      try {
+        toolArgs = JSON.parse(argsText);
+      } catch {
+        setError("Arguments must be valid JSON");
+        return;
+      }
+    }
+
+    setBusy(true);
+    setError(null);
+    try {
+      await approvalService.resolve(approval.id, decision, { toolArgs });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to resolve approval");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="rounded-md border border-amber-500/40 bg-amber-500/5 p-3 text-sm">
+      <div className="flex items-center gap-2 font-medium text-foreground">
+        <ShieldAlert className="h-4 w-4 text-amber-500" />
+        <span>Approve {approval.toolName}?</span>
+        <span className="ml-auto text-xs text-muted-foreground font-mono">{approval.id}</span>
+      </div>
+      <div className="mt-1 text-xs text-muted-foreground">{approval.reason}</div>
+      {editing ? (
+        <Textarea
+          value={argsText}
+          onChange={(e) => setArgsText(e.target.value)}
+          className="mt-2 min-h-[96px] font-mono text-xs"
+        />
+      ) : (
+        <pre className="mt-2 max-h-40 overflow-auto rounded bg-muted px-2 py-1 text-xs font-mono whitespace-pre-wrap break-all">
+          {JSON.stringify(approval.toolArgs, null, 2)}
+        </pre>
+      )}
+      {error && <div className="mt-2 text-xs text-destructive">{error}</div>}
+      <div className="mt-2 flex justify-end gap-2">
+        {editing ? (
+          <>
+            <Button variant="ghost" size="sm" disabled={busy} onClick={() => setEditing(false)}>
+              Cancel
+            </Button>
+            <Button size="sm" disabled={busy} onClick={() => decide("edit")}>
+              <Check className="h-3.5 w-3.5 mr-1" />
+              Run edited
+            </Button>
+          </>
+        ) : (
+          <>
+            <Button variant="ghost" size="sm" disabled={busy} onClick={() => setEditing(true)}>
+              <Pencil className="h-3.5 w-3.5 mr-1" />
+              Edit
+            </Button>
+            <Button variant="outline" size="sm" disabled={busy} onClick={() => decide("deny")}>
+              <X className="h-3.5 w-3.5 mr-1" />
+              Deny
+            </Button>
+            <Button size="sm" disabled={busy} onClick={() => decide("approve")}>
+              <Check className="h-3.5 w-3.5 mr-1" />
+              Approve
+            </Button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
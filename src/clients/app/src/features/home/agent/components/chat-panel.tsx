@@ -8,10 +8,11 @@ import {
   DropdownMenuTrigger,
   DropdownMenuSeparator,
 } from "@/components/ui/dropdown-menu";
-import { MessageSquare, Send, Loader2, Plus, History, ChevronDown, CheckCircle2 } from "lucide-react";
+import { MessageSquare, Send, Loader2, Plus, History, ChevronDown, CheckCircle2, Square } from "lucide-react";
 import ReactMarkdown from "react-markdown";
 import remarkGfm from "remark-gfm";
 import type { UseAppReturn } from "../../../../hooks/use-app";
+import { ApprovalPrompt } from "./approval-prompt";
 
 interface ChatPanelProps {
   agentId: string;
@@ -25,7 +26,7 @@ export function ChatPanel({ agentId, state }: ChatPanelProps) {
   const lastMessageCountRef = useRef<number>(0);
   const shouldAutoScrollRef = useRef<boolean>(true);
 
-  const { messages, isSending, sendMessage, createConversation } = state;
+  const { messages, isSending, isRunning, sendMessage, cancelRun, createConversation } = state;
   const currentConversation = state.conversations.find((s) => s.id === state.currentConversationId && s.agentId === agentId);
   
   // Get conversations for this agent, sorted by lastActivity
@@ -411,6 +412,9 @@ export function ChatPanel({ agentId, state }: ChatPanelProps) {
         </div>
       </div>
 
+      {/* Tool calls waiting for approval */}
+      <ApprovalPrompt conversationId={state.currentConversationId} />
+
       {/* Input Area */}
       <div className="flex-none border-t border-border bg-background p-4">
         <div className="flex items-end gap-2 rounded-md border border-border bg-background focus-within:border-primary focus-within:ring-1 focus-within:ring-primary">
@@ -427,6 +431,19 @@ export function ChatPanel({ agentId, state }: ChatPanelProps) {
               WebkitUserSelect: "text",
             }}
           />
+          {isRunning && (
+            <Button
+              onClick={() => {
+                cancelRun().catch((error) => console.error("[ChatPanel] Failed to cancel run:", error));
+              }}
+              variant="ghost"
+              size="sm"
+              className="h-8 w-8 p-0 text-foreground/70 hover:text-foreground hover:bg-transparent shrink-0 rounded-md"
+              title="Stop"
+            >
+              <Square className="h-4 w-4 fill-current" />
+            </Button>
+          )}
           <Button
             onClick={handleSend}
             disabled={!input.trim() || isSending}
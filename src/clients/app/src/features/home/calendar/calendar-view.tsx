@@ -19,6 +19,7 @@ interface CalendarEvent {
   enabled: boolean;
   lastTriggeredAt?: number;
   nextOccurrenceAt?: number;
+  memoryId?: string;
 }
 
 interface CalendarViewProps {
@@ -222,6 +223,11 @@ export function CalendarView({ onClose }: CalendarViewProps) {
                                     {recurrence}
                                   </p>
                                 )}
+                                {event.memoryId && (
+                                  <p className="text-xs text-muted-foreground mt-1">
+                                    Reminder for prospective memory {event.memoryId}
+                                  </p>
+                                )}
                               </div>
                             </div>
                           );
@@ -250,6 +250,25 @@ export function SettingsView({
                         The port number the gateway is listening on. Default is 18789.
                       </p>
                     </div>
+
+                    <div className="border-t border-border pt-6 space-y-2">
+                      <Label htmlFor="gateway-token" className="text-sm font-medium text-foreground">
+                        Gateway Token
+                      </Label>
+                      <Input
+                        id="gateway-token"
+                        type="password"
+                        value={settings.gateway.token ?? ""}
+                        onChange={(e) =>
+                          updateSettings("gateway", { token: e.target.value.trim() || undefined })
+                        }
+                        placeholder="zk_..."
+                        className="max-w-md"
+                      />
+                      <p className="text-sm text-muted-foreground">
+                        Required when the gateway has authentication enabled. Create one with <code>zuckerman gateway token create</code>.
+                      </p>
+                    </div>
                   </div>
                 </div>
 
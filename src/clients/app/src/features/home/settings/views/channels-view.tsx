@@ -68,6 +68,14 @@ interface WhatsAppConfig {
   allowFrom?: string[];
 }
 
+interface PairingRequest {
+  code: string;
+  channelId: string;
+  senderId: string;
+  senderName?: string;
+  expiresAt: number;
+}
+
 export function ChannelsView({ gatewayClient }: ChannelsViewProps) {
   const [channels, setChannels] = useState<ChannelStatus[]>([]);
   const [loading, setLoading] = useState(true);
@@ -76,6 +84,7 @@ export function ChannelsView({ gatewayClient }: ChannelsViewProps) {
   const [newPhoneNumber, setNewPhoneNumber] = useState("");
   const [telegramBotToken, setTelegramBotToken] = useState("");
   const [discordBotToken, setDiscordBotToken] = useState("");
+  const [pairingRequests, setPairingRequests] = useState<PairingRequest[]>([]);
 
   // Use hooks for WhatsApp, Telegram, Discord, and Signal
   const whatsapp = useWhatsAppChannel(gatewayClient, { enabled: true });
@@ -111,6 +120,44 @@ export function ChannelsView({ gatewayClient }: ChannelsViewProps) {
     loadChannelStatus();
   }, [loadChannelStatus]);
 
+  // Pending pairing codes from unknown senders (dmPolicy: "pairing")
+  const loadPairingRequests = React.useCallback(async () => {
+    if (!gatewayClient || !gatewayClient.isConnected()) return;
+
+    try {
+      const response = await gatewayClient.request("channels.pairing.list", {}) as {
+        ok: boolean;
+        result?: { pending?: PairingRequest[] };
+      };
+      if (response.ok) {
+        setPairingRequests(response.result?.pending || []);
+      }
+    } catch (err) {
+      console.error("Failed to load pairing requests:", err);
+    }
+  }, [gatewayClient]);
+
+  useEffect(() => {
+    loadPairingRequests();
+    const interval = setInterval(loadPairingRequests, 10000);
+    return () => clearInterval(interval);
+  }, [loadPairingRequests]);
+
+  const handlePairingDecision = async (request: PairingRequest, approve: boolean) => {
+    if (!gatewayClient) return;
+
+    try {
+      await gatewayClient.request(approve ? "channels.pairing.approve" : "channels.pairing.reject", {
+        code: request.code,
+        channelId: request.channelId,
+      });
+    } catch (err) {
+      console.error("Failed to update pairing request:", err);
+    } finally {
+      loadPairingRequests();
+    }
+  };
+
   // WhatsApp config handlers using hook
   const handleDmPolicyChange = (policy: "open" | "pairing" | "allowlist") => {
     whatsapp.saveConfig({ dmPolicy: policy });
@@ -547,13 +594,13 @@ export function ChannelsView({ gatewayClient }: ChannelsViewProps) {
                   </SelectTrigger>
                   <SelectContent className="bg-[#161b22] border-[#30363d]">
                     <SelectItem value="open" className="text-[#c9d1d9]">Open - Accept messages from anyone</SelectItem>
-                    <SelectItem value="pairing" className="text-[#c9d1d9]">Pairing - Only accept from contacts you've interacted with</SelectItem>
+                    <SelectItem value="pairing" className="text-[#c9d1d9]">Pairing - Unknown senders need your approval</SelectItem>
                     <SelectItem value="allowlist" className="text-[#c9d1d9]">Allowlist - Only accept from specific phone numbers</SelectItem>
                   </SelectContent>
                 </Select>
                 <p className="text-xs text-[#8b949e]">
                   {whatsapp.config.dmPolicy === "open" && "All incoming messages will be accepted."}
-                  {whatsapp.config.dmPolicy === "pairing" && "Only messages from contacts you've previously interacted with will be accepted."}
+                  {whatsapp.config.dmPolicy === "pairing" && "Unknown senders receive a one-time code. Approve it below or with `zuckerman channels pair approve <code>`."}
                   {whatsapp.config.dmPolicy === "allowlist" && "Only messages from phone numbers in the allowlist will be accepted."}
                 </p>
               </div>
@@ -618,6 +665,46 @@ export function ChannelsView({ gatewayClient }: ChannelsViewProps) {
             </div>
           )}
 
+          {/* Pairing Requests */}
+          {isConnected && pairingRequests.some((request) => request.channelId === channelId) && (
+            <div className="pt-4 border-t border-[#30363d] space-y-2">
+              <Label className="text-[#c9d1d9]">Pairing Requests</Label>
+              {pairingRequests
+                .filter((request) => request.channelId === channelId)
+                .map((request) => (
+                  <div
+                    key={request.code}
+                    className="flex items-center justify-between p-2 bg-[#161b22] rounded-md text-sm border border-[#30363d]"
+                  >
+                    <span className="text-[#c9d1d9]">
+                      <span className="font-mono mr-2">{request.code}</span>
+                      {request.senderName || request.senderId}
+                    </span>
+                    <div className="flex gap-1">
+                      <Button
+                        type="button"
+                        size="sm"
+                        onClick={() => handlePairingDecision(request, true)}
+                        className="h-6 bg-[#238636] hover:bg-[#2ea043] text-white border-[#238636]"
+                      >
+                        <CheckCircle2 className="h-3 w-3 mr-1" />
+                        Approve
+                      </Button>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handlePairingDecision(request, false)}
+                        className="h-6 w-6 p-0 text-[#8b949e] hover:text-[#c9d1d9]"
+                      >
+                        <X className="h-3 w-3" />
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+            </div>
+          )}
+
         {/* Connect/Disconnect Button */}
         <div className="flex items-center justify-end gap-3 pt-4 border-t border-[#30363d]">
           {isConnected ? (
@@ -21,7 +21,9 @@ export interface UseAppReturn extends AppState {
   removeFromActiveConversations: (conversationId: string) => void;
   messages: import("../types/message").Message[];
   isSending: boolean;
+  isRunning: boolean;
   sendMessage: (message: string) => Promise<void>;
+  cancelRun: () => Promise<void>;
   loadMessages: () => Promise<void>;
 
   // UI Actions
@@ -70,7 +72,9 @@ export function useApp(): UseAppReturn {
     removeFromActiveConversations,
     messages,
     isSending,
+    isRunning,
     sendMessage,
+    cancelRun,
     loadMessages,
   } = useChat(currentAgentId, currentAgentId);
 
@@ -270,7 +274,9 @@ export function useApp(): UseAppReturn {
     removeFromActiveConversations,
     messages,
     isSending,
+    isRunning,
     sendMessage,
+    cancelRun,
     loadMessages,
     handleSidebarAction,
     handleMainContentAction,
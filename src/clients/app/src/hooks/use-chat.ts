@@ -23,7 +23,9 @@ export interface UseChatReturn {
   // Messages
   messages: Message[];
   isSending: boolean;
+  isRunning: boolean;
   sendMessage: (message: string) => Promise<void>;
+  cancelRun: () => Promise<void>;
   loadMessages: () => Promise<void>;
 }
 
@@ -59,6 +61,8 @@ export function useChat(
   // Messages state
   const [messages, setMessages] = useState<Message[]>([]);
   const [isSending, setIsSending] = useState(false);
+  // Agent is still working on the last message in the current conversation
+  const [isRunning, setIsRunning] = useState(false);
 
   // Refs for messages
   const pollingRef = useRef<NodeJS.Timeout | null>(null);
@@ -68,6 +72,8 @@ export function useChat(
   // Track pending tool calls: maps toolCallId -> tool name
   // Used to match tool results with their corresponding tool calls
   const pendingToolCallsRef = useRef<Map<string, string>>(new Map());
+  // Stops waiting for the response of the message being processed
+  const stopWaitingRef = useRef<(() => void) | null>(null);
 
   // Update refs when conversationId changes - do this synchronously
   useEffect(() => {
@@ -334,7 +340,7 @@ export function useChat(
         tool?: string;
         toolArgs?: Record<string, unknown>;
         toolResult?: unknown;
-        phase?: "start" | "end" | "error";
+        phase?: "start" | "end" | "error" | "cancelled";
         error?: string;
       };
 
@@ -365,9 +371,18 @@ export function useChat(
           // Run completed - finalize streaming message
           streamingMessageRef.current = null;
           pendingToolCallsRef.current.clear();
+          setIsRunning(false);
+        } else if (payload.phase === "cancelled") {
+          // Run cancelled - keep what was streamed, drop the thinking indicator
+          streamingMessageRef.current = null;
+          pendingToolCallsRef.current.clear();
+          stopWaitingRef.current?.();
+          setIsRunning(false);
+          setMessages((prev) => prev.filter((msg) => msg.role !== "thinking"));
         } else if (payload.phase === "error") {
           // Run error - show error message
           streamingMessageRef.current = null;
+          setIsRunning(false);
           setMessages((prev) => {
             const newMessages = [...prev];
             const streamingIndex = newMessages.findIndex(
@@ -618,6 +633,7 @@ export function useChat(
         // Allow sending new messages immediately after message is sent
         // Streaming will be handled by the event listener
         setIsSending(false);
+        setIsRunning(true);
 
         let attempts = 0;
         const pollInterval = 300;
@@ -672,10 +688,17 @@ export function useChat(
                 }
               }
             }, pollInterval);
+
+            stopWaitingRef.current = () => {
+              clearInterval(interval);
+              resolve();
+            };
           });
         };
 
         await checkForResponse();
+        stopWaitingRef.current = null;
+        setIsRunning(false);
       } catch (error) {
         console.error(`[useChat] Error sending message:`, error);
         setIsSending(false);
@@ -701,6 +724,16 @@ export function useChat(
     [gatewayClient, connectionStatus, messageService, agentService, conversationService, agentId, loadMessages]
   );
 
+  const cancelRun = useCallback(async () => {
+    const conversationId = currentConversationIdRef.current;
+    if (!messageService || !conversationId) return;
+
+    stopWaitingRef.current?.();
+    setIsRunning(false);
+    setMessages((prev) => prev.filter((msg) => msg.role !== "thinking"));
+    await messageService.cancelRun(conversationId, agentId ?? undefined);
+  }, [messageService, agentId]);
+
   useEffect(() => {
     return () => {
       stopPolling();
@@ -719,7 +752,9 @@ export function useChat(
     removeFromActiveConversations,
     messages,
     isSending,
+    isRunning,
     sendMessage,
+    cancelRun,
     loadMessages,
   };
 }
@@ -8,6 +8,7 @@ export interface SettingsState {
     host: string;
     port: number;
     autoStart: boolean;
+    token?: string;
   };
   llmProvider: {
     provider: "anthropic" | "openai" | "openrouter" | "mock" | null;
@@ -438,6 +439,7 @@ export function useSettings(
       const testClient = new GatewayClient({
         host: settings.gateway.host,
         port: settings.gateway.port,
+        token: settings.gateway.token,
       });
 
       await Promise.race([
@@ -4,6 +4,7 @@ import { readFile, writeFile, mkdir } from "node:fs/promises";
 import { existsSync } from "node:fs";
 import { getCliConversationFile, getBaseDir } from "@server/world/homedir/paths.js";
 import { ensureGatewayRunning, getGatewayServer } from "./gateway-utils.js";
+import { parseApprovalReply } from "@server/world/execution/security/approval/index.js";
 
 const CONVERSATION_FILE = getCliConversationFile();
 
@@ -142,6 +143,34 @@ export async function runAgentInteraction(options: {
       prompt: "> ",
     });
 
+    // Track whether the agent is still working on this conversation so Ctrl+C
+    // can cancel the run instead of quitting
+    let runInFlight = false;
+    client.on("agent.stream.lifecycle", (payload: unknown) => {
+      const data = payload as { conversationId?: string; phase?: string };
+      if (data.conversationId !== conversationId) return;
+      runInFlight = data.phase === "start";
+    });
+
+    // Tool calls waiting for approval in this conversation; answered by typing approve/deny/edit
+    const pendingApprovals = new Map<string, string>();
+    client.on("tool.approval.requested", (payload: unknown) => {
+      const data = payload as { id: string; conversationId?: string; toolName: string; toolArgs?: Record<string, unknown>; reason?: string };
+      if (data.conversationId !== conversationId) return;
+      pendingApprovals.set(data.id, data.toolName);
+      process.stdout.write(" ".repeat(20) + "\r");
+      console.log(`\n⚠️  Approval needed [${data.id}]: ${data.toolName} ${JSON.stringify(data.toolArgs ?? {})}`);
+      if (data.reason) console.log(`   ${data.reason}`);
+      console.log(`   Type "approve ${data.id}", "deny ${data.id} <reason>" or "edit ${data.id} {json}"\n`);
+      rl.prompt();
+    });
+    client.on("tool.approval.resolved", (payload: unknown) => {
+      const data = payload as { id: string; conversationId?: string; toolName: string; outcome?: string; resolvedBy?: string };
+      if (!pendingApprovals.delete(data.id)) return;
+      console.log(`\n🔐 ${data.toolName} [${data.id}] ${data.outcome}${data.resolvedBy ? ` by ${data.resolvedBy}` : ""}\n`);
+      rl.prompt();
+    });
+
     // Handle reload events
     client.on("reload", () => {
       console.log("\n[Reload] Agent configuration reloaded\n");
@@ -157,6 +186,25 @@ export async function runAgentInteraction(options: {
         return;
       }
 
+      const approvalReply = pendingApprovals.size > 0 ? parseApprovalReply(message) : null;
+      if (approvalReply) {
+        const ids = Array.from(pendingApprovals.keys());
+        const id = approvalReply.id ?? (ids.length === 1 ? ids[0] : undefined);
+        if (!id) {
+          console.log(`Several approvals are pending (${ids.join(", ")}), include the id.\n`);
+        } else {
+          const response = await client.call({
+            method: "tool.approval.resolve",
+            params: { id, decision: approvalReply.decision, toolArgs: approvalReply.toolArgs, note: approvalReply.note, resolvedBy: "cli" },
+          });
+          if (!response.ok) {
+            console.error(`\n❌ Error: ${response.error?.message || "Failed to resolve approval"}\n`);
+          }
+        }
+        rl.prompt();
+        return;
+      }
+
       if (message === "exit" || message === "quit") {
         rl.close();
         client.disconnect();
@@ -170,6 +218,7 @@ export async function runAgentInteraction(options: {
       }
 
       // Show thinking indicator
+      runInFlight = true;
       process.stdout.write("🤔 Thinking...\r");
 
       // Set up streaming event listeners
@@ -214,7 +263,7 @@ export async function runAgentInteraction(options: {
       const lifecycleUnsub = client.on("agent.stream.lifecycle", (payload: unknown) => {
         const data = payload as { 
           conversationId?: string; 
-          phase?: "start" | "end" | "error";
+          phase?: "start" | "end" | "error" | "cancelled";
           error?: string;
           tokensUsed?: number;
         };
@@ -232,6 +281,9 @@ export async function runAgentInteraction(options: {
             // Run error
             process.stderr.write(`\n❌ Error: ${data.error || "Unknown error"}\n`);
             isStreaming = false;
+          } else if (data.phase === "cancelled") {
+            // Reported by the Ctrl+C handler
+            isStreaming = false;
           }
         }
       });
@@ -300,8 +352,21 @@ export async function runAgentInteraction(options: {
       rl.prompt();
     });
 
-    // Handle Ctrl+C gracefully
+    // Handle Ctrl+C gracefully: first cancel the running agent work, then quit
     rl.on("SIGINT", async () => {
+      if (runInFlight) {
+        runInFlight = false;
+        process.stdout.write(" ".repeat(20) + "\r");
+        const response = await client.call({
+          method: "agent.cancel",
+          params: { agentId, conversationId },
+        }).catch(() => undefined);
+        const cancelled = (response?.result as { cancelled?: string[] } | undefined)?.cancelled ?? [];
+        process.stderr.write(cancelled.length > 0 ? "⏹ Cancelled\n" : "Nothing to cancel\n");
+        rl.prompt();
+        return;
+      }
+
       console.log("\n\nGoodbye!");
       rl.close();
       client.disconnect();
@@ -21,6 +21,9 @@ import { createConfigCommand } from "./commands/config.js";
 import { createCalendarCommand } from "./commands/calendar.js";
 import { createResetCommand } from "./commands/reset.js";
 import { createActivitiesCommand } from "./commands/activities.js";
+import { createUsageCommand } from "./commands/usage.js";
+import { createApprovalsCommand } from "./commands/approvals.js";
+import { createMemoryCommand } from "./commands/memory.js";
 
 const program = new Command();
 
@@ -39,6 +42,9 @@ program.addCommand(createConfigCommand());
 program.addCommand(createCalendarCommand());
 program.addCommand(createResetCommand());
 program.addCommand(createActivitiesCommand());
+program.addCommand(createUsageCommand());
+program.addCommand(createApprovalsCommand());
+program.addCommand(createMemoryCommand());
 
 // Utility command
 program
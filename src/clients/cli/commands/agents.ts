@@ -168,6 +168,18 @@ export function createAgentsCommand(): Command {
             }
           }
 
+          // Ctrl+C cancels the agent's work on this conversation before exiting
+          const onInterrupt = async () => {
+            await client.call({
+              method: "agent.cancel",
+              params: { agentId, conversationId: finalConversationId },
+            }).catch(() => undefined);
+            process.stderr.write("\n⏹ Cancelled\n");
+            client.disconnect();
+            process.exit(130);
+          };
+          process.once("SIGINT", onInterrupt);
+
           const response = await client.call({
             method: "agent.run",
             params: {
@@ -177,6 +189,7 @@ export function createAgentsCommand(): Command {
             },
             // No timeout - let requests complete naturally
           });
+          process.off("SIGINT", onInterrupt);
 
           if (!response.ok) {
             console.error("Failed to run agent:", response.error?.message);
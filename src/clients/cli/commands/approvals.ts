@@ -0,0 +1,141 @@
+import { Command } from "commander";
+import { GatewayClient } from "../gateway-client.js";
+import { ensureGatewayRunning } from "../gateway-utils.js";
+import { outputJson, shouldOutputJson } from "../utils/json-output.js";
+
+interface PendingApproval {
+  id: string;
+  agentId: string;
+  conversationId: string;
+  toolName: string;
+  toolArgs: Record<string, unknown>;
+  reason: string;
+  requestedAt: number;
+  expiresAt: number;
+}
+
+async function withClient<T>(options: { host?: string; port?: string }, fn: (client: GatewayClient) => Promise<T>): Promise<T> {
+  const host = options.host ?? "127.0.0.1";
+  const port = options.port ? parseInt(options.port, 10) : 18789;
+
+  await ensureGatewayRunning(host, port);
+
+  const client = new GatewayClient({ host, port });
+  await client.connect();
+  try {
+    return await fn(client);
+  } finally {
+    client.disconnect();
+  }
+}
+
+async function resolveApproval(
+  id: string,
+  decision: "approve" | "deny" | "edit",
+  options: { host?: string; port?: string; note?: string; args?: string },
+): Promise<void> {
+  let toolArgs: Record<string, unknown> | undefined;
+  if (decision === "edit") {
+    try {
+      toolArgs = JSON.parse(options.args ?? "");
+    } catch {
+      console.error("Error: --args must be a JSON object with the new tool arguments");
+      process.exit(1);
+    }
+  }
+
+  try {
+    await withClient(options, async (client) => {
+      const response = await client.call({
+        method: "tool.approval.resolve",
+        params: { id, decision, toolArgs, note: options.note, resolvedBy: "cli" },
+      });
+      if (!response.ok) {
+        throw new Error(response.error?.message || "Failed to resolve approval");
+      }
+      const result = response.result as { toolName: string };
+      const verbs = { approve: "Approved", deny: "Denied", edit: "Approved with edited arguments" };
+      console.log(`${verbs[decision]}: ${result.toolName} [${id}]`);
+    });
+  } catch (err) {
+    console.error("Error:", err instanceof Error ? err.message : "Unknown error");
+    process.exit(1);
+  }
+}
+
+export function createApprovalsCommand(): Command {
+  const cmd = new Command("approvals")
+    .description("Review tool calls waiting for approval");
+
+  cmd
+    .command("list")
+    .description("List pending tool approvals")
+    .option("--agent <agentId>", "Filter by agent ID")
+    .option("--conversation <conversationId>", "Filter by conversation ID")
+    .option("--json", "Output as JSON")
+    .option("--host <host>", "Gateway host", "127.0.0.1")
+    .option("--port <port>", "Gateway port", "18789")
+    .action(async (options) => {
+      try {
+        await withClient(options, async (client) => {
+          const response = await client.call({
+            method: "tool.approvals.list",
+            params: { agentId: options.agent, conversationId: options.conversation },
+          });
+          if (!response.ok || !response.result) {
+            throw new Error(response.error?.message || "Failed to list approvals");
+          }
+
+          const { approvals } = response.result as { approvals: PendingApproval[] };
+          if (shouldOutputJson(options)) {
+            outputJson({ approvals }, options);
+            return;
+          }
+
+          if (approvals.length === 0) {
+            console.log("No tool calls are waiting for approval.");
+            return;
+          }
+          for (const approval of approvals) {
+            const expiresIn = Math.max(0, Math.round((approval.expiresAt - Date.now()) / 1000));
+            console.log(`[${approval.id}] ${approval.agentId} · ${approval.toolName} (conversation ${approval.conversationId.slice(0, 8)}..., expires in ${expiresIn}s)`);
+            console.log(`  ${JSON.stringify(approval.toolArgs)}`);
+            console.log(`  ${approval.reason}`);
+          }
+        });
+      } catch (err) {
+        console.error("Error:", err instanceof Error ? err.message : "Unknown error");
+        process.exit(1);
+      }
+    });
+
+  cmd
+    .command("approve")
+    .description("Approve a pending tool call")
+    .argument("<id>", "Approval ID")
+    .option("--note <note>", "Note recorded with the decision")
+    .option("--host <host>", "Gateway host", "127.0.0.1")
+    .option("--port <port>", "Gateway port", "18789")
+    .action((id: string, options) => resolveApproval(id, "approve", options));
+
+  cmd
+    .command("deny")
+    .description("Deny a pending tool call")
+    .argument("<id>", "Approval ID")
+    .option("--note <note>", "Reason passed back to the agent")
+    .option("--host <host>", "Gateway host", "127.0.0.1")
+    .option("--port <port>", "Gateway port", "18789")
+    .action((id: string, options) => resolveApproval(id, "deny", options));
+
+  cmd
+    .command("edit")
+    .description("Approve a pending tool call with different arguments")
+    .argument("<id>", "Approval ID")
+    .requiredOption("--args <json>", "New tool arguments as a JSON object")
+    .option("--note <note>", "Note recorded with the decision")
+    .option("--host <host>", "Gateway host", "127.0.0.1")
+    .option("--port <port>", "Gateway port", "18789")
+    .action((id: string, options) => resolveApproval(id, "edit", options));
+
+  return cmd;
+}
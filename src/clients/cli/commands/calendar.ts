@@ -21,6 +21,7 @@ interface CalendarEvent {
   enabled: boolean;
   lastTriggeredAt?: number;
   nextOccurrenceAt?: number;
+  memoryId?: string;
 }
 
 function formatDate(timestamp: number): string {
@@ -162,6 +163,9 @@ export function createCalendarCommand(): Command {
           const recurrence = formatRecurrence(event.recurrence);
           const recurrenceText = recurrence ? ` ${recurrence}` : "";
           console.log(`  ${time.padEnd(10)} - ${event.title}${recurrenceText}`);
+          if (event.memoryId) {
+            console.log(`  ${"".padEnd(10)}   (prospective memory ${event.memoryId})`);
+          }
         }
         
         console.log();
@@ -216,6 +220,9 @@ export function createCalendarCommand(): Command {
         if (event.lastTriggeredAt) {
           console.log(`  Last triggered: ${formatDate(event.lastTriggeredAt)} at ${formatTime(event.lastTriggeredAt)}`);
         }
+        if (event.memoryId) {
+          console.log(`  Prospective memory: ${event.memoryId}`);
+        }
         console.log();
       }
     });
@@ -253,6 +260,9 @@ export function createCalendarCommand(): Command {
       if (event.lastTriggeredAt) {
         console.log(`Last triggered: ${formatDate(event.lastTriggeredAt)} at ${formatTime(event.lastTriggeredAt)}`);
       }
+      if (event.memoryId) {
+        console.log(`Prospective memory: ${event.memoryId}`);
+      }
       console.log(`Enabled: ${event.enabled ? "Yes" : "No"}`);
     });
 
@@ -1,6 +1,7 @@
 import { Command } from "commander";
 import { WhatsAppChannel } from "@server/world/communication/messengers/channels/whatsapp.js";
 import { loadConfig, saveConfig } from "@server/world/config/index.js";
+import { getPairingStore } from "@server/world/communication/messengers/pairing/index.js";
 import { outputJson, shouldOutputJson } from "../utils/json-output.js";
 // qrcode-terminal is CommonJS, needs special handling in ESM
 import qrcodeTerminal from "qrcode-terminal";
@@ -147,6 +148,100 @@ export function createChannelsCommand(): Command {
   whatsappCmd.addCommand(allowlistCmd);
   cmd.addCommand(whatsappCmd);
 
+  // Pairing subcommands (dmPolicy: "pairing")
+  const pairCmd = new Command("pair")
+    .description("Approve unknown senders that requested pairing");
+
+  pairCmd
+    .command("list")
+    .description("List pending pairing codes and approved peers")
+    .option("-c, --channel <channel>", "Only show this channel")
+    .option("--json", "Output as JSON")
+    .action(async (options: { channel?: string; json?: boolean }) => {
+      const store = getPairingStore();
+      const pending = store.listPending(options.channel);
+      const approved = store.listApproved(options.channel);
+
+      if (shouldOutputJson(options)) {
+        outputJson({ pending, approved }, options);
+        return;
+      }
+
+      console.log("\n🔑 Pending pairing requests:\n");
+      if (pending.length === 0) {
+        console.log("  (none)");
+      }
+      for (const request of pending) {
+        const name = request.senderName ? ` (${request.senderName})` : "";
+        const minutesLeft = Math.max(0, Math.round((request.expiresAt - Date.now()) / 60000));
+        console.log(`  ${request.code}  ${request.channelId}  ${request.senderId}${name}  expires in ${minutesLeft}m`);
+      }
+
+      console.log("\n✅ Approved peers:\n");
+      if (approved.length === 0) {
+        console.log("  (none)");
+      }
+      for (const peer of approved) {
+        const name = peer.senderName ? ` (${peer.senderName})` : "";
+        console.log(`  ${peer.channelId}  ${peer.senderId}${name}`);
+      }
+      console.log();
+    });
+
+  pairCmd
+    .command("approve")
+    .description("Approve a pairing code")
+    .argument("<code>", "Pairing code sent to the unknown sender")
+    .option("-c, --channel <channel>", "Channel the code was issued on")
+    .option("--json", "Output as JSON")
+    .action(async (code: string, options: { channel?: string; json?: boolean }) => {
+      const peer = getPairingStore().approve(code, options.channel);
+      if (!peer) {
+        const error = `Pairing code "${code}" not found or expired`;
+        if (shouldOutputJson(options)) {
+          outputJson({ error }, options);
+        } else {
+          console.error(`\n❌ ${error}\n`);
+        }
+        process.exit(1);
+      }
+
+      if (shouldOutputJson(options)) {
+        outputJson({ approved: peer }, options);
+        return;
+      }
+      console.log(`\n✅ Approved ${peer.senderName || peer.senderId} on ${peer.channelId}\n`);
+    });
+
+  pairCmd
+    .command("reject")
+    .description("Reject a pairing code")
+    .argument("<code>", "Pairing code to reject")
+    .option("-c, --channel <channel>", "Channel the code was issued on")
+    .action(async (code: string, options: { channel?: string }) => {
+      const request = getPairingStore().reject(code, options.channel);
+      if (!request) {
+        console.error(`\n❌ Pairing code "${code}" not found or expired\n`);
+        process.exit(1);
+      }
+      console.log(`\n🚫 Rejected pairing request from ${request.senderId} on ${request.channelId}\n`);
+    });
+
+  pairCmd
+    .command("revoke")
+    .description("Remove an approved peer")
+    .argument("<channel>", "Channel (whatsapp, telegram, discord, slack, signal)")
+    .argument("<senderId>", "Sender ID shown by 'channels pair list'")
+    .action(async (channel: string, senderId: string) => {
+      if (!getPairingStore().revoke(channel.toLowerCase(), senderId)) {
+        console.log(`\n⚠️  ${senderId} is not an approved peer on ${channel}\n`);
+        return;
+      }
+      console.log(`\n✅ Revoked ${senderId} on ${channel}\n`);
+    });
+
+  cmd.addCommand(pairCmd);
+
   cmd
     .command("status")
     .description("Show status of all configured channels")
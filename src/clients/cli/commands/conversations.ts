@@ -222,6 +222,79 @@ export function createConversationsCommand(): Command {
       }
     });
 
+  cmd
+    .command("model")
+    .description("Set per-conversation model overrides (model, provider, temperature, thinking level)")
+    .argument("<conversation-id>", "Conversation ID")
+    .option("--model <model>", "Model ID (e.g. claude-sonnet-4-5)")
+    .option("--provider <provider>", "Provider: anthropic, openai, openrouter")
+    .option("--temperature <number>", "Sampling temperature (0-2)")
+    .option("--thinking <level>", "Thinking level: off, minimal, low, medium, high, xhigh")
+    .option("--clear", "Clear all overrides (other flags are applied afterwards)")
+    .option("--host <host>", "Gateway host", "127.0.0.1")
+    .option("--port <port>", "Gateway port", "18789")
+    .option("--json", "Output as JSON")
+    .action(async (
+      conversationId: string,
+      options: {
+        model?: string;
+        provider?: string;
+        temperature?: string;
+        thinking?: string;
+        clear?: boolean;
+        host?: string;
+        port?: string;
+        json?: boolean;
+      },
+    ) => {
+      const host = options.host ?? "127.0.0.1";
+      const port = options.port ? parseInt(options.port, 10) : 18789;
+
+      const params: Record<string, unknown> = { id: conversationId };
+      if (options.clear) {
+        Object.assign(params, { model: null, provider: null, temperature: null, thinkingLevel: null });
+      }
+      if (options.model) params.model = options.model;
+      if (options.provider) params.provider = options.provider;
+      if (options.temperature !== undefined) params.temperature = parseFloat(options.temperature);
+      if (options.thinking) params.thinkingLevel = options.thinking;
+
+      await ensureGatewayRunning(host, port);
+
+      const client = new GatewayClient({ host, port });
+      try {
+        await client.connect();
+        const response = await client.call({
+          method: "conversations.setOverrides",
+          params,
+        });
+
+        if (!response.ok || !response.result) {
+          console.error("Failed to set overrides:", response.error?.message);
+          process.exit(1);
+        }
+
+        const { overrides } = response.result as {
+          overrides: { model?: string; provider?: string; temperature?: number; thinkingLevel?: string };
+        };
+
+        if (shouldOutputJson(options)) {
+          outputJson({ conversationId, overrides }, options);
+        } else {
+          console.log(`Model overrides for ${conversationId}:`);
+          console.log(`  Model: ${overrides.model ?? "(agent default)"}`);
+          console.log(`  Provider: ${overrides.provider ?? "(agent default)"}`);
+          console.log(`  Temperature: ${overrides.temperature ?? "(agent default)"}`);
+          console.log(`  Thinking: ${overrides.thinkingLevel ?? "off"}`);
+        }
+        client.disconnect();
+      } catch (err) {
+        client.disconnect();
+        console.error("Error:", err instanceof Error ? err.message : "Unknown error");
+        process.exit(1);
+      }
+    });
+
   cmd
     .command("delete")
     .description("Delete a conversation")
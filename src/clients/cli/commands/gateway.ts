@@ -4,6 +4,15 @@ import { killPort } from "@shared/utils/kill-port.js";
 import { GatewayClient } from "../gateway-client.js";
 import { isGatewayRunning } from "../gateway-utils.js";
 import { outputJson, shouldOutputJson } from "../utils/json-output.js";
+import { loadConfig, saveConfig } from "@server/world/config/index.js";
+import {
+  createAuthManager,
+  isGatewayScope,
+  loadGatewayToken,
+  saveGatewayToken,
+  clearGatewayToken,
+} from "@server/world/execution/security/auth/index.js";
+import { getGatewayTokenPath } from "@server/world/homedir/paths.js";
 import { spawn } from "node:child_process";
 import { fileURLToPath } from "node:url";
 import { dirname, join } from "node:path";
@@ -225,5 +234,126 @@ export function createGatewayCommand(): Command {
       }
     });
 
+  cmd.addCommand(createGatewayTokenCommand());
+
   return cmd;
 }
+
+function createGatewayTokenCommand(): Command {
+  const tokenCmd = new Command("token")
+    .description("Manage gateway access tokens");
+
+  tokenCmd
+    .command("create")
+    .description("Create a gateway token (restart the gateway to apply)")
+    .option("-s, --scope <scope>", "Token scope: read, write, or admin", "admin")
+    .option("-n, --name <name>", "Token name, shown in gateway logs")
+    .option("--save", "Also store it as this CLI's token")
+    .option("--json", "Output as JSON")
+    .action(async (options: { scope: string; name?: string; save?: boolean; json?: boolean }) => {
+      if (!isGatewayScope(options.scope)) {
+        console.error("Invalid scope. Must be one of: read, write, admin");
+        process.exit(1);
+      }
+
+      const config = await loadConfig();
+      const token = createAuthManager().generateToken(options.scope, options.name);
+      const gateway = config.security?.gateway;
+      config.security = {
+        ...config.security,
+        gateway: {
+          ...gateway,
+          auth: {
+            ...gateway?.auth,
+            enabled: gateway?.auth?.enabled ?? true,
+            tokens: [...(gateway?.auth?.tokens ?? []), { token, scope: options.scope, name: options.name }],
+          },
+        },
+      };
+      await saveConfig(config);
+      if (options.save) {
+        saveGatewayToken(token);
+      }
+
+      if (shouldOutputJson(options)) {
+        outputJson({ token, scope: options.scope, name: options.name }, options);
+      } else {
+        console.log(`✓ Created ${options.scope} token${options.name ? ` "${options.name}"` : ""}:`);
+        console.log(`  ${token}`);
+        console.log("Restart the gateway to apply it.");
+      }
+    });
+
+  tokenCmd
+    .command("list")
+    .description("List configured gateway tokens")
+    .option("--json", "Output as JSON")
+    .action(async (options: { json?: boolean }) => {
+      const config = await loadConfig();
+      const tokens = (config.security?.gateway?.auth?.tokens ?? []).map((entry) => {
+        const { token, scope, name } = typeof entry === "string" ? { token: entry, scope: undefined, name: undefined } : entry;
+        return { name: name ?? null, scope: scope ?? "admin", prefix: `${token.slice(0, 7)}…` };
+      });
+
+      if (shouldOutputJson(options)) {
+        outputJson({ tokens }, options);
+      } else if (tokens.length === 0) {
+        console.log("No gateway tokens configured");
+      } else {
+        for (const t of tokens) {
+          console.log(`  ${t.prefix}  ${t.scope.padEnd(5)}  ${t.name ?? ""}`);
+        }
+      }
+    });
+
+  tokenCmd
+    .command("revoke")
+    .description("Remove a gateway token by name or value")
+    .argument("<nameOrToken>", "Token name or full token")
+    .action(async (nameOrToken: string) => {
+      const config = await loadConfig();
+      const tokens = config.security?.gateway?.auth?.tokens ?? [];
+      const remaining = tokens.filter((entry) =>
+        typeof entry === "string" ? entry !== nameOrToken : entry.token !== nameOrToken && entry.name !== nameOrToken,
+      );
+      if (remaining.length === tokens.length) {
+        console.error(`No token matches "${nameOrToken}"`);
+        process.exit(1);
+      }
+
+      config.security!.gateway!.auth!.tokens = remaining;
+      await saveConfig(config);
+      console.log(`✓ Revoked ${tokens.length - remaining.length} token(s). Restart the gateway to apply.`);
+    });
+
+  tokenCmd
+    .command("set")
+    .description("Store the token this CLI presents to the gateway")
+    .argument("<token>", "Gateway token")
+    .action((token: string) => {
+      saveGatewayToken(token.trim());
+      console.log(`✓ Token stored at ${getGatewayTokenPath()}`);
+    });
+
+  tokenCmd
+    .command("show")
+    .description("Print the token this CLI presents to the gateway")
+    .action(() => {
+      const token = loadGatewayToken();
+      if (!token) {
+        console.log("No token stored");
+        return;
+      }
+      console.log(token);
+    });
+
+  tokenCmd
+    .command("clear")
+    .description("Forget the stored CLI token")
+    .action(() => {
+      clearGatewayToken();
+      console.log("✓ Token removed");
+    });
+
+  return tokenCmd;
+}
@@ -0,0 +1,217 @@
+import { Command } from "commander";
+import { GatewayClient } from "../gateway-client.js";
+import { ensureGatewayRunning } from "../gateway-utils.js";
+import { outputJson, shouldOutputJson } from "../utils/json-output.js";
+
+interface MemorySyncStats {
+  files: number;
+  embedded: number;
+  reused: number;
+  removed: number;
+}
+
+interface MemoryStatusResult {
+  agentId: string;
+  index: {
+    files: number;
+    chunks: number;
+    dbPath: string;
+    provider: string;
+    model: string;
+    sources: string[];
+    dbInitialized: boolean;
+    dbError?: string;
+    vectorIndex: string;
+    vectorError?: string;
+  };
+  sync: {
+    state: "idle" | "syncing" | "stopped";
+    watching: string[];
+    intervalMinutes: number;
+    progress?: { phase: string; completed: number; total: number; path?: string };
+    lastSyncAt?: number;
+    lastReason?: string;
+    lastDurationMs?: number;
+    lastStats?: MemorySyncStats;
+    lastError?: string;
+  } | null;
+}
+
+async function withClient<T>(options: { host?: string; port?: string }, fn: (client: GatewayClient) => Promise<T>): Promise<T> {
+  const host = options.host ?? "127.0.0.1";
+  const port = options.port ? parseInt(options.port, 10) : 18789;
+
+  await ensureGatewayRunning(host, port);
+
+  const client = new GatewayClient({ host, port });
+  await client.connect();
+  try {
+    return await fn(client);
+  } finally {
+    client.disconnect();
+  }
+}
+
+function formatStats(stats: MemorySyncStats): string {
+  return `${stats.files} files, ${stats.embedded} chunks embedded, ${stats.reused} reused, ${stats.removed} removed`;
+}
+
+function printStatus(status: MemoryStatusResult): void {
+  const { index, sync } = status;
+  console.log(`Memory index for ${status.agentId}`);
+  console.log(`  Database: ${index.dbPath}${index.dbInitialized ? "" : ` (${index.dbError ?? "not initialized"})`}`);
+  console.log(`  Embeddings: ${index.provider} / ${index.model}`);
+  console.log(`  Sources: ${index.sources.join(", ")}`);
+  console.log(`  Indexed: ${index.files} files, ${index.chunks} chunks`);
+  console.log(`  Vector index: ${index.vectorIndex}${index.vectorError ? ` (${index.vectorError})` : ""}`);
+
+  if (!sync) {
+    console.log("\nBackground sync: not running");
+    return;
+  }
+  console.log(`\nBackground sync: ${sync.state}`);
+  if (sync.progress) {
+    const path = sync.progress.path ? ` ${sync.progress.path}` : "";
+    console.log(`  Progress: ${sync.progress.phase} ${sync.progress.completed}/${sync.progress.total}${path}`);
+  }
+  console.log(`  Watching: ${sync.watching.length > 0 ? sync.watching.join(", ") : "nothing"}`);
+  console.log(`  Interval: ${sync.intervalMinutes > 0 ? `every ${sync.intervalMinutes} min` : "off"}`);
+  if (sync.lastSyncAt) {
+    console.log(`  Last sync: ${new Date(sync.lastSyncAt).toLocaleString()} (${sync.lastReason}, ${sync.lastDurationMs}ms)`);
+    if (sync.lastStats) console.log(`    ${formatStats(sync.lastStats)}`);
+  }
+  if (sync.lastError) {
+    console.log(`  Last error: ${sync.lastError}`);
+  }
+}
+
+export function createMemoryCommand(): Command {
+  const cmd = new Command("memory")
+    .description("Inspect and sync the memory index, pin or forget memories");
+
+  cmd
+    .command("status")
+    .description("Show index counts and background sync state")
+    .option("--agent <agentId>", "Agent ID", "zuckerman")
+    .option("--json", "Output as JSON")
+    .option("--host <host>", "Gateway host", "127.0.0.1")
+    .option("--port <port>", "Gateway port", "18789")
+    .action(async (options) => {
+      try {
+        await withClient(options, async (client) => {
+          const response = await client.call({ method: "memory.status", params: { agentId: options.agent } });
+          if (!response.ok || !response.result) {
+            throw new Error(response.error?.message || "Failed to get memory status");
+          }
+
+          const status = response.result as MemoryStatusResult;
+          if (shouldOutputJson(options)) {
+            outputJson(status, options);
+            return;
+          }
+          printStatus(status);
+        });
+      } catch (err) {
+        console.error("Error:", err instanceof Error ? err.message : "Unknown error");
+        process.exit(1);
+      }
+    });
+
+  cmd
+    .command("sync")
+    .description("Sync memory files, extra paths and transcripts into the index now")
+    .option("--agent <agentId>", "Agent ID", "zuckerman")
+    .option("--force", "Reindex everything, ignoring change checks and conversation deltas")
+    .option("--json", "Output as JSON")
+    .option("--host <host>", "Gateway host", "127.0.0.1")
+    .option("--port <port>", "Gateway port", "18789")
+    .action(async (options) => {
+      try {
+        await withClient(options, async (client) => {
+          const response = await client.call({
+            method: "memory.sync",
+            params: { agentId: options.agent, force: options.force === true },
+          });
+          if (!response.ok || !response.result) {
+            throw new Error(response.error?.message || "Memory sync failed");
+          }
+
+          const result = response.result as MemoryStatusResult & { stats: MemorySyncStats };
+          if (shouldOutputJson(options)) {
+            outputJson(result, options);
+            return;
+          }
+          console.log(`Synced: ${formatStats(result.stats)}`);
+          console.log(`Indexed: ${result.index.files} files, ${result.index.chunks} chunks`);
+        });
+      } catch (err) {
+        console.error("Error:", err instanceof Error ? err.message : "Unknown error");
+        process.exit(1);
+      }
+    });
+
+  cmd
+    .command("pin <id>")
+    .description("Protect a memory from decay, consolidation and archiving")
+    .option("--agent <agentId>", "Agent ID", "zuckerman")
+    .option("--type <type>", "Memory type (looked up by ID when omitted)")
+    .option("--unpin", "Remove the pin instead")
+    .option("--json", "Output as JSON")
+    .option("--host <host>", "Gateway host", "127.0.0.1")
+    .option("--port <port>", "Gateway port", "18789")
+    .action(async (id: string, options) => {
+      try {
+        await withClient(options, async (client) => {
+          const response = await client.call({
+            method: "memory.pin",
+            params: { agentId: options.agent, id, type: options.type, pinned: options.unpin !== true },
+          });
+          if (!response.ok || !response.result) {
+            throw new Error(response.error?.message || "Failed to pin memory");
+          }
+
+          if (shouldOutputJson(options)) {
+            outputJson(response.result, options);
+            return;
+          }
+          console.log(`${options.unpin ? "Unpinned" : "Pinned"} memory ${id}`);
+        });
+      } catch (err) {
+        console.error("Error:", err instanceof Error ? err.message : "Unknown error");
+        process.exit(1);
+      }
+    });
+
+  cmd
+    .command("forget <id>")
+    .description("Erase a memory from the store and the search index")
+    .option("--agent <agentId>", "Agent ID", "zuckerman")
+    .option("--type <type>", "Memory type (looked up by ID when omitted)")
+    .option("--json", "Output as JSON")
+    .option("--host <host>", "Gateway host", "127.0.0.1")
+    .option("--port <port>", "Gateway port", "18789")
+    .action(async (id: string, options) => {
+      try {
+        await withClient(options, async (client) => {
+          const response = await client.call({
+            method: "memory.forget",
+            params: { agentId: options.agent, id, type: options.type },
+          });
+          if (!response.ok || !response.result) {
+            throw new Error(response.error?.message || "Failed to forget memory");
+          }
+
+          if (shouldOutputJson(options)) {
+            outputJson(response.result, options);
+            return;
+          }
+          console.log(`Forgot memory ${id}`);
+        });
+      } catch (err) {
+        console.error("Error:", err instanceof Error ? err.message : "Unknown error");
+        process.exit(1);
+      }
+    });
+
+  return cmd;
+}
@@ -0,0 +1,135 @@
+import { Command } from "commander";
+import { GatewayClient } from "../gateway-client.js";
+import { ensureGatewayRunning } from "../gateway-utils.js";
+import { outputJson, shouldOutputJson } from "../utils/json-output.js";
+
+interface UsageTotals {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  cost: number;
+}
+
+interface UsageSummaryResult {
+  summary: {
+    from: number;
+    to: number;
+    totals: UsageTotals;
+    byAgent: Record<string, UsageTotals>;
+    byConversation: Record<string, UsageTotals>;
+    byModel: Record<string, UsageTotals>;
+    byStage: Record<string, UsageTotals>;
+  };
+  budgets: { daily?: number; monthly?: number; onExceeded?: string } | null;
+  budget: { exceeded: boolean; scope?: string; period?: string; limit?: number; spent?: number; action?: string };
+}
+
+const GROUPS = {
+  agent: "byAgent",
+  conversation: "byConversation",
+  model: "byModel",
+  stage: "byStage",
+} as const;
+
+function formatTotals(totals: UsageTotals): string {
+  return `$${totals.cost.toFixed(4)}  ${totals.totalTokens.toLocaleString()} tokens ` +
+    `(${totals.inputTokens.toLocaleString()} in / ${totals.outputTokens.toLocaleString()} out, ${totals.calls} calls)`;
+}
+
+export function createUsageCommand(): Command {
+  return new Command("usage")
+    .description("Show LLM token usage, cost and budget status")
+    .option("--period <period>", "Current UTC period: daily or monthly", "monthly")
+    .option("--date <date>", "Single day (YYYY-MM-DD) instead of a period")
+    .option("--agent <agentId>", "Filter by agent ID")
+    .option("--conversation <conversationId>", "Filter by conversation ID")
+    .option("--by <group>", `Break down by ${Object.keys(GROUPS).join(", ")}`, "model")
+    .option("--json", "Output as JSON")
+    .option("--host <host>", "Gateway host", "127.0.0.1")
+    .option("--port <port>", "Gateway port", "18789")
+    .action(async (options) => {
+      const group = GROUPS[options.by as keyof typeof GROUPS];
+      if (!group) {
+        console.error(`Error: --by must be one of: ${Object.keys(GROUPS).join(", ")}`);
+        process.exit(1);
+      }
+
+      await ensureGatewayRunning(options.host, options.port);
+
+      const client = new GatewayClient({
+        host: options.host || "127.0.0.1",
+        port: options.port ? parseInt(options.port, 10) : 18789,
+      });
+      await client.connect();
+
+      try {
+        let from: number | undefined;
+        let to: number | undefined;
+        if (options.date) {
+          from = new Date(`${options.date}T00:00:00Z`).getTime();
+          to = from + 24 * 60 * 60 * 1000 - 1;
+        }
+
+        const response = await client.call({
+          method: "usage.summary",
+          params: {
+            period: options.date ? undefined : options.period,
+            from,
+            to,
+            agentId: options.agent,
+            conversationId: options.conversation,
+          },
+        });
+
+        if (!response.ok || !response.result) {
+          throw new Error(response.error?.message || "Failed to get usage summary");
+        }
+
+        if (shouldOutputJson(options)) {
+          outputJson(response.result, options);
+          return;
+        }
+
+        const { summary, budgets, budget } = response.result as UsageSummaryResult;
+        const range = `${new Date(summary.from).toISOString()} - ${new Date(summary.to).toISOString()}`;
+        console.log(`Usage ${range}\n`);
+        console.log(`Total: ${formatTotals(summary.totals)}\n`);
+
+        const rows = Object.entries(summary[group]).sort(([, a], [, b]) => b.cost - a.cost);
+        if (rows.length > 0) {
+          console.log(`By ${options.by}:`);
+          for (const [key, totals] of rows) {
+            console.log(`  ${key}: ${formatTotals(totals)}`);
+          }
+          console.log();
+        }
+
+        if (budgets) {
+          const limits = [
+            budgets.daily !== undefined && `daily $${budgets.daily}`,
+            budgets.monthly !== undefined && `monthly $${budgets.monthly}`,
+          ].filter(Boolean).join(", ");
+          console.log(`Budgets: ${limits || "per agent/conversation only"} (on exceeded: ${budgets.onExceeded ?? "pause"})`);
+          if (budget.exceeded) {
+            console.log(
+              `  Exceeded: ${budget.scope} ${budget.period} budget ` +
+              `($${budget.spent?.toFixed(4)} of $${budget.limit}), agents ${budget.action === "downgrade" ? "use cheaper models" : "are paused"}`
+            );
+          } else {
+            console.log("  Within budget");
+          }
+        }
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : "Unknown error";
+        if (shouldOutputJson(options)) {
+          outputJson({ error: errorMessage }, options);
+        } else {
+          console.error(`Error: ${errorMessage}`);
+        }
+        process.exit(1);
+      } finally {
+        await client.disconnect();
+      }
+    });
+}
@@ -1,11 +1,23 @@
 import WebSocket from "ws";
 import { randomUUID } from "node:crypto";
 import type { GatewayRequest, GatewayResponse, GatewayEvent } from "@server/world/communication/gateway/protocol/schema.js";
+import { loadGatewayToken, signGatewayChallenge } from "@server/world/execution/security/auth/index.js";
 
 export interface GatewayClientOptions {
   host?: string;
   port?: number;
   url?: string;
+  token?: string; // Defaults to ZUCKERMAN_GATEWAY_TOKEN, then the stored CLI token
+}
+
+/**
+ * The gateway is reachable but rejected our credentials
+ */
+export class GatewayAuthError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "GatewayAuthError";
+  }
 }
 
 export interface GatewayCallOptions {
@@ -17,6 +29,7 @@ export interface GatewayCallOptions {
 export class GatewayClient {
   private ws: WebSocket | null = null;
   private url: string;
+  private token?: string;
   private pendingRequests = new Map<string, {
     resolve: (response: GatewayResponse) => void;
     reject: (error: Error) => void;
@@ -28,6 +41,7 @@ export class GatewayClient {
     const port = options.port ?? 18789;
     const host = options.host ?? "127.0.0.1";
     this.url = options.url ?? `ws://${host}:${port}`;
+    this.token = options.token ?? process.env.ZUCKERMAN_GATEWAY_TOKEN ?? loadGatewayToken();
   }
 
   async connect(): Promise<void> {
@@ -38,9 +52,9 @@ export class GatewayClient {
     return new Promise((resolve, reject) => {
       const ws = new WebSocket(this.url);
 
+      // Resolve once the connect.challenge handshake succeeds
       ws.on("open", () => {
         this.ws = ws;
-        resolve();
       });
 
       ws.on("error", (err) => {
@@ -53,9 +67,12 @@ export class GatewayClient {
 
           if ("type" in message && message.type === "event") {
             const eventData = message as GatewayEvent;
-            // Handle connect.challenge event
             if (eventData.event === "connect.challenge") {
-              console.debug("Received connect.challenge");
+              const { nonce } = (eventData.payload ?? {}) as { nonce?: string };
+              this.authenticate(nonce).then(resolve, (err) => {
+                ws.close();
+                reject(err);
+              });
             }
             this.handleEvent(eventData);
           } else if ("type" in message && message.type === "res") {
@@ -69,8 +86,11 @@ export class GatewayClient {
         }
       });
 
-      ws.on("close", () => {
+      ws.on("close", (code, reason) => {
         this.ws = null;
+        if (code === 1008) {
+          reject(new GatewayAuthError(`Gateway closed the connection: ${reason.toString() || "policy violation"}`));
+        }
         // Reject all pending requests
         for (const [id, { reject }] of this.pendingRequests) {
           reject(new Error("Connection closed"));
@@ -80,6 +100,20 @@ export class GatewayClient {
     });
   }
 
+  /**
+   * Answer connect.challenge; the token itself never goes over the wire, only its signature
+   */
+  private async authenticate(nonce?: string): Promise<void> {
+    const params = this.token && nonce
+      ? { signature: signGatewayChallenge(this.token, nonce) }
+      : {};
+    const response = await this.call({ method: "connect", params, timeout: 10000 });
+    if (!response.ok) {
+      const hint = this.token ? "" : " (no token configured, run: zuckerman gateway token set <token>)";
+      throw new GatewayAuthError(`Gateway authentication failed: ${response.error?.message ?? "unknown error"}${hint}`);
+    }
+  }
+
   async call(options: GatewayCallOptions): Promise<GatewayResponse> {
     if (!this.ws || this.ws.readyState !== WebSocket.OPEN) {
       await this.connect();
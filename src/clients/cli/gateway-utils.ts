@@ -1,4 +1,4 @@
-import { GatewayClient } from "./gateway-client.js";
+import { GatewayClient, GatewayAuthError } from "./gateway-client.js";
 import { startGatewayServer } from "@server/world/communication/gateway/server/index.js";
 
 let gatewayServer: { close: (reason?: string) => Promise<void> } | null = null;
@@ -16,8 +16,10 @@ export async function isGatewayRunning(host: string, port: number): Promise<bool
     ]);
     testClient.disconnect();
     return true;
-  } catch {
-    return false;
+  } catch (err) {
+    testClient.disconnect();
+    // Rejected credentials still mean something is listening
+    return err instanceof GatewayAuthError;
   }
 }
 
@@ -92,6 +92,24 @@ class ActivityRecorder {
     });
   }
   
+  /**
+   * Record agent run cancellation
+   */
+  async recordAgentRunCancelled(
+    agentId: string,
+    conversationId: string,
+    runId: string,
+    reason?: string,
+  ): Promise<void> {
+    await this.record("agent.run.cancelled", {
+      message: reason,
+    }, {
+      agentId,
+      conversationId,
+      runId,
+    });
+  }
+  
   /**
    * Record tool call
    */
@@ -152,6 +170,86 @@ class ActivityRecorder {
     });
   }
   
+  /**
+   * Record tool call denied by security policy
+   */
+  async recordToolDenied(
+    agentId: string,
+    conversationId: string,
+    runId: string,
+    toolName: string,
+    toolArgs: Record<string, unknown>,
+    policyKind: string,
+    reason: string,
+  ): Promise<void> {
+    await this.record("tool.denied", {
+      toolName,
+      toolArgs,
+      policyKind,
+      policyReason: reason,
+    }, {
+      agentId,
+      conversationId,
+      runId,
+    });
+  }
+  
+  /**
+   * Record a tool call paused for human approval
+   */
+  async recordToolApprovalRequested(
+    agentId: string,
+    conversationId: string,
+    runId: string,
+    approvalId: string,
+    toolName: string,
+    toolArgs: Record<string, unknown>,
+    reason?: string,
+  ): Promise<void> {
+    await this.record("tool.approval.requested", {
+      approvalId,
+      toolName,
+      toolArgs,
+      approvalReason: reason,
+    }, {
+      agentId,
+      conversationId,
+      runId,
+    });
+  }
+  
+  /**
+   * Record the decision on a tool approval request
+   */
+  async recordToolApprovalResolved(
+    agentId: string,
+    conversationId: string,
+    runId: string,
+    approvalId: string,
+    toolName: string,
+    decision: {
+      outcome: string;
+      toolArgs: Record<string, unknown>;
+      edited?: boolean;
+      resolvedBy?: string;
+      note?: string;
+    },
+  ): Promise<void> {
+    await this.record("tool.approval.resolved", {
+      approvalId,
+      toolName,
+      toolArgs: decision.toolArgs,
+      approvalOutcome: decision.outcome,
+      approvalEdited: decision.edited,
+      resolvedBy: decision.resolvedBy,
+      note: decision.note,
+    }, {
+      agentId,
+      conversationId,
+      runId,
+    });
+  }
+  
   /**
    * Record agent message
    */
@@ -244,6 +342,54 @@ class ActivityRecorder {
     });
   }
 
+  /**
+   * Record a sleep mode run
+   */
+  async recordSleepRun(
+    agentId: string,
+    conversationId: string,
+    result: {
+      strategy?: string;
+      messagesConsolidated: number;
+      memoriesCreated: number;
+      contextTokensBefore?: number;
+      contextTokensAfter?: number;
+      error?: string;
+    },
+  ): Promise<void> {
+    await this.record("sleep.run", {
+      strategy: result.strategy,
+      messagesConsolidated: result.messagesConsolidated,
+      memoriesCreated: result.memoriesCreated,
+      contextTokensBefore: result.contextTokensBefore,
+      contextTokensAfter: result.contextTokensAfter,
+      ...(result.error && { error: result.error }),
+    }, {
+      agentId,
+      conversationId,
+    });
+  }
+
+  /**
+   * Record which long-term memories were recalled into a prompt
+   */
+  async recordMemoryRecall(
+    agentId: string,
+    conversationId: string,
+    runId: string,
+    stage: string,
+    memories: Array<{ id: string; type: string; source: string; score: number; provenance: string }>,
+  ): Promise<void> {
+    await this.record("memory.recall", {
+      stage,
+      memories: memories.map(({ id, type, source, score, provenance }) => ({ id, type, source, score, provenance })),
+    }, {
+      agentId,
+      conversationId,
+      runId,
+    });
+  }
+
   /**
    * Record incoming channel message
    */
@@ -2,14 +2,20 @@ export type ActivityType =
   | "agent.run"
   | "agent.run.complete"
   | "agent.run.error"
+  | "agent.run.cancelled"
   | "agent.message"
   | "agent.response"
   | "tool.call"
   | "tool.result"
   | "tool.error"
+  | "tool.denied"
+  | "tool.approval.requested"
+  | "tool.approval.resolved"
   | "self.error"
   | "conversation.create"
   | "conversation.update"
+  | "sleep.run"
+  | "memory.recall"
   | "channel.message.incoming"
   | "channel.message.outgoing"
   | "calendar.event.triggered"
@@ -38,6 +44,16 @@ export interface Activity {
     toolArgs?: Record<string, unknown>;
     toolResult?: unknown;
     toolError?: string;
+    policyKind?: string;
+    policyReason?: string;
+    
+    // Tool approval activities
+    approvalId?: string;
+    approvalReason?: string;
+    approvalOutcome?: string;
+    approvalEdited?: boolean;
+    resolvedBy?: string;
+    note?: string;
     
     // Self error activities
     errorContext?: string;
@@ -48,6 +64,17 @@ export interface Activity {
     conversationType?: string;
     conversationLabel?: string;
     
+    // Sleep activities
+    strategy?: string;
+    messagesConsolidated?: number;
+    memoriesCreated?: number;
+    contextTokensBefore?: number;
+    contextTokensAfter?: number;
+    
+    // Memory recall activities
+    stage?: string;
+    memories?: Array<{ id: string; type: string; source: string; score: number; provenance: string }>;
+    
     // Channel activities
     channel?: string;
     from?: string;
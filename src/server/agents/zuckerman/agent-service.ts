@@ -1,22 +1,65 @@
 import { randomUUID } from "node:crypto";
-import type { AgentRuntime, AgentRunParams, AgentRunResult } from "@server/world/runtime/agents/types.js";
+import type { Tool } from "ai";
+import type {
+  AgentRuntime,
+  AgentRunParams,
+  AgentRunResult,
+  BrainPartList,
+  CancelResult,
+  CancelTarget,
+  DeliveryContext,
+  MemoryStatus,
+  ModelOverrides,
+  ToolInfo,
+  ToolList,
+} from "@server/world/runtime/agents/types.js";
 import type { ConversationId, ConversationState, Conversation, ConversationKey, ConversationType, ConversationLabel } from "./conversations/types.js";
 import { ConversationManager } from "./conversations/index.js";
 import { ConversationRouter } from "./conversations/router.js";
-import { Self } from "./core/self/self.js";
+import { Self, DEFAULT_BRAIN_PART_MAX_ITERATIONS } from "./core/self/self.js";
+import type { SchedulerMetrics } from "./core/self/scheduler.js";
 import { IdentityLoader } from "./core/identity/identity-loader.js";
 import { agentDiscovery } from "@server/agents/discovery.js";
+import { loadConfig } from "@server/world/config/index.js";
+import { resolveAgentHomedir } from "@server/world/homedir/resolver.js";
+import { resolveSecurityContext } from "@server/world/execution/security/context/index.js";
+import type { SecurityContext } from "@server/world/execution/security/types.js";
 import type {
   AgentEvent,
   WriteEvent,
   StreamLifecycleEvent,
   StreamToolCallEvent,
   StreamToolResultEvent,
+  StreamToolDeniedEvent,
+  StreamToolApprovalEvent,
   StreamResponseEvent,
   SelfErrorEvent,
   MessageEvent,
+  MemoryRecallEvent,
+  ThinkEvent,
+  UsageEvent,
 } from "./core/self/events.js";
 import { activityRecorder } from "./activity/index.js";
+import { runSleepModeIfNeeded, getSleepStatus } from "./sleep/index.js";
+import { MemorySystem } from "./core/memory/memory-service.js";
+import { MemoryIngestionPipeline, type IngestionEventKind } from "./core/memory/ingestion.js";
+import { resolveMemorySearchConfig } from "./core/memory/config.js";
+import { getMemorySearchManager, type MemorySearchManager } from "./core/memory/retrieval/search.js";
+import { MemorySyncService } from "./core/memory/retrieval/sync-service.js";
+import type { MemorySyncStats } from "./core/memory/retrieval/indexing.js";
+import { consolidateMemories, resolveMemoryLifecycleOptions, type MemoryLifecycleOptions } from "./core/memory/lifecycle.js";
+import type { Memory, MemoryType } from "./core/memory/types.js";
+import { formatReminderEntry, takeConversationReminders } from "./core/memory/prospective.js";
+import {
+  linkPendingProspectiveMemories,
+  linkProspectiveMemory,
+  unlinkProspectiveMemory,
+  type ReminderDelivery,
+} from "./calendar/reminders.js";
+import { getAgentConversationsDir, getAgentMemoryStoreDbPath } from "@server/world/homedir/paths.js";
+import type { CompressionStrategy, SleepRunResult, SleepStatus } from "./sleep/index.js";
+
+const MAX_TRACKED_RUNS = 200;
 
 /**
  * Public API for Zuckerman agent
@@ -30,6 +73,14 @@ export class AgentService implements AgentRuntime {
   private readonly conversationRouter: ConversationRouter;
   private readonly identityLoader: IdentityLoader;
   private readonly agentDir: string;
+  private readonly sleepRuns = new Map<ConversationId, Promise<SleepRunResult>>();
+  // runId returned by run() -> conversation, so callers can cancel by the id they were given
+  private readonly messageRuns = new Map<string, ConversationId>();
+  private memoryIngestion: MemoryIngestionPipeline | null = null;
+  private searchManager: MemorySearchManager | null = null;
+  private memorySync: MemorySyncService | null = null;
+  private memorySystem: MemorySystem | null = null;
+  private consolidationTimer: NodeJS.Timeout | null = null;
   readonly agentId: string;
 
   constructor(agentId: string) {
@@ -37,7 +88,11 @@ export class AgentService implements AgentRuntime {
     // AgentService always creates its own ConversationManager internally
     this.conversationManager = new ConversationManager(this.agentId);
     this.conversationRouter = new ConversationRouter(this.agentId, this.conversationManager);
-    this.runtime = new Self(this.agentId);
+    this.runtime = new Self(this.agentId, {
+      getModelOverrides: (conversationId) =>
+        conversationId ? this.conversationManager.getConversationEntry(conversationId) : undefined,
+      resolveSecurityContext: (conversationId) => this.resolveSecurityContext(conversationId),
+    });
     this.identityLoader = new IdentityLoader();
     
     // Get agent directory from discovery service
@@ -69,9 +124,14 @@ export class AgentService implements AgentRuntime {
       }
       
       await this.conversationManager.addMessage(conversationId, event.role, event.content, { runId: event.runId });
+      this.scheduleSleep(conversationId);
+      if (event.role === "assistant") {
+        this.ingestMemory("response", conversationId, event.content);
+      }
     });
 
     this.runtime.on("message", async (event: MessageEvent) => {
+      this.ingestMemory("message", event.conversationId, event.message);
       await activityRecorder.recordAgentMessage(
         this.agentId,
         event.conversationId,
@@ -112,6 +172,13 @@ export class AgentService implements AgentRuntime {
           event.tokensUsed,
           event.toolsUsed
         ).catch(err => console.warn(`[AgentService] Failed to record run complete:`, err));
+      } else if (event.phase === "cancelled") {
+        await activityRecorder.recordAgentRunCancelled(
+          this.agentId,
+          event.conversationId,
+          event.runId,
+          event.message
+        ).catch(err => console.warn(`[AgentService] Failed to record run cancellation:`, err));
       } else if (event.phase === "error" && event.error) {
         await activityRecorder.recordAgentRunError(
           this.agentId,
@@ -136,6 +203,7 @@ export class AgentService implements AgentRuntime {
       const toolResult = typeof event.toolResult === "string" 
         ? event.toolResult 
         : JSON.stringify(event.toolResult);
+      this.ingestMemory("tool", event.conversationId, `Used tool "${event.tool}", result: ${toolResult.slice(0, 2000)}`);
       
       // Check if result is an error
       if (typeof event.toolResult === "string" && event.toolResult.startsWith("Error:")) {
@@ -157,6 +225,47 @@ export class AgentService implements AgentRuntime {
       }
     });
 
+    this.runtime.on("stream.tool.denied", async (event: StreamToolDeniedEvent) => {
+      await activityRecorder.recordToolDenied(
+        this.agentId,
+        event.conversationId,
+        event.runId,
+        event.tool,
+        event.toolArgs,
+        event.policyKind,
+        event.reason
+      ).catch(err => console.warn(`[AgentService] Failed to record tool denial:`, err));
+    });
+
+    this.runtime.on("stream.tool.approval", async (event: StreamToolApprovalEvent) => {
+      if (event.phase === "requested") {
+        await activityRecorder.recordToolApprovalRequested(
+          this.agentId,
+          event.conversationId,
+          event.runId,
+          event.approvalId,
+          event.tool,
+          event.toolArgs,
+          event.reason
+        ).catch(err => console.warn(`[AgentService] Failed to record approval request:`, err));
+      } else {
+        await activityRecorder.recordToolApprovalResolved(
+          this.agentId,
+          event.conversationId,
+          event.runId,
+          event.approvalId,
+          event.tool,
+          {
+            outcome: event.outcome ?? "denied",
+            toolArgs: event.toolArgs,
+            edited: event.edited,
+            resolvedBy: event.resolvedBy,
+            note: event.note,
+          }
+        ).catch(err => console.warn(`[AgentService] Failed to record approval decision:`, err));
+      }
+    });
+
     this.runtime.on("stream.response", async (event: StreamResponseEvent) => {
       await activityRecorder.recordAgentResponse(
         this.agentId,
@@ -166,6 +275,29 @@ export class AgentService implements AgentRuntime {
       ).catch(err => console.warn(`[AgentService] Failed to record response:`, err));
     });
 
+    this.runtime.on("think", async (event: ThinkEvent) => {
+      this.ingestMemory("thought", event.conversationId, event.thought);
+    });
+
+    this.runtime.on("memory.recall", async (event: MemoryRecallEvent) => {
+      await activityRecorder.recordMemoryRecall(
+        this.agentId,
+        event.conversationId,
+        event.runId,
+        event.stage,
+        event.memories
+      ).catch(err => console.warn(`[AgentService] Failed to record memory recall:`, err));
+    });
+
+    this.runtime.on("usage", async (event: UsageEvent) => {
+      if (!event.conversationId || !this.conversationManager.getConversation(event.conversationId)) return;
+      await this.conversationManager.updateTokenCounts(event.conversationId, {
+        inputTokens: event.inputTokens,
+        outputTokens: event.outputTokens,
+        totalTokens: event.totalTokens,
+      }).catch(err => console.warn(`[AgentService] Failed to update token counts:`, err));
+    });
+
     this.runtime.on("self.error", async (event: SelfErrorEvent) => {
       await activityRecorder.recordSelfError(
         this.agentId,
@@ -189,30 +321,327 @@ export class AgentService implements AgentRuntime {
    */
   async initialize(): Promise<void> {
     await this.runtime.initialize();
+    await this.initializeMemory();
     // Start autonomous background processing loop
     await this.runtime.start();
   }
 
+  /**
+   * Set up the background index sync (agent.memorySearch.sync), scheduled consolidation
+   * (agent.memoryLifecycle) and automatic memory writing from conversation events (agent.memoryIngestion)
+   */
+  private async initializeMemory(): Promise<void> {
+    const config = await loadConfig();
+    const homedir = resolveAgentHomedir(config, this.agentId);
+    const memorySearchConfig = config.agent?.memorySearch;
+    if (memorySearchConfig) {
+      const resolvedConfig = resolveMemorySearchConfig(memorySearchConfig, this.agentId);
+      if (resolvedConfig) {
+        ({ manager: this.searchManager } = await getMemorySearchManager({
+          config: resolvedConfig,
+          workspaceDir: homedir,
+          agentId: this.agentId,
+        }));
+        if (this.searchManager) {
+          this.memorySync = new MemorySyncService(this.searchManager, resolvedConfig, {
+            workspaceDir: homedir,
+            conversationsDir: getAgentConversationsDir(this.agentId),
+            memoryStorePath: getAgentMemoryStoreDbPath(this.agentId),
+          });
+          this.memorySync.start();
+        }
+      }
+    }
+
+    this.memorySystem = new MemorySystem(homedir, this.agentId);
+    void linkPendingProspectiveMemories(this.memorySystem, this.agentId, memory => this.resolveReminderDelivery(memory))
+      .catch(err => console.warn(`[AgentService] Failed to link prospective memories to the calendar:`, err));
+    const lifecycleOptions = resolveMemoryLifecycleOptions(config.agent?.memoryLifecycle);
+    if (lifecycleOptions && lifecycleOptions.consolidateIntervalHours > 0) {
+      this.scheduleConsolidation(lifecycleOptions);
+    }
+
+    const ingestionConfig = config.agent?.memoryIngestion;
+    if (ingestionConfig?.enabled === false) return;
+    this.memoryIngestion = new MemoryIngestionPipeline(this.memorySystem, {
+      minImportance: ingestionConfig?.minImportance,
+      searchManager: this.searchManager,
+      onSaved: memories => this.linkReminders(memories),
+      usageConfig: config.usage ?? {},
+    });
+  }
+
+  /**
+   * Turn newly written time-due prospective memories into calendar events
+   */
+  private async linkReminders(memories: Memory[]): Promise<void> {
+    if (!this.memorySystem) return;
+    for (const memory of memories) {
+      if (memory.type !== "prospective" || memory.metadata?.due?.kind !== "time") continue;
+      await linkProspectiveMemory(this.memorySystem, memory, this.agentId, this.resolveReminderDelivery(memory));
+    }
+  }
+
+  /**
+   * Reminders go back to the channel of the conversation the memory was formed in
+   */
+  private resolveReminderDelivery(memory: Memory): ReminderDelivery | undefined {
+    const conversationId = memory.metadata?.conversationId;
+    if (!conversationId) return undefined;
+    const delivery = this.conversationManager.getConversationEntry(conversationId)?.deliveryContext;
+    return delivery?.channel ? { channel: delivery.channel, to: delivery.to, accountId: delivery.accountId } : undefined;
+  }
+
+  /**
+   * Surface prospective memories due "next time I talk to ..." into the working memory of a
+   * conversation with that person
+   */
+  private surfaceConversationReminders(conversationId: ConversationId): void {
+    if (!this.memorySystem) return;
+    const entry = this.conversationManager.getConversationEntry(conversationId);
+    const names = [
+      this.conversationManager.getConversation(conversationId)?.conversation.label,
+      entry?.displayName,
+      entry?.subject,
+      entry?.origin?.label,
+      entry?.lastTo,
+    ].filter((name): name is string => Boolean(name));
+
+    for (const memory of takeConversationReminders(this.memorySystem, names)) {
+      this.runtime.addToWorkingMemory(conversationId, formatReminderEntry(memory));
+    }
+  }
+
+  /**
+   * Periodically merge near-duplicate semantic memories and archive stale episodic ones,
+   * dropping them from the search index too
+   */
+  private scheduleConsolidation(options: MemoryLifecycleOptions): void {
+    if (this.consolidationTimer) clearInterval(this.consolidationTimer);
+    this.consolidationTimer = setInterval(() => {
+      if (!this.memorySystem) return;
+      try {
+        const { merged, archived } = consolidateMemories(this.memorySystem, options);
+        this.searchManager?.removeMemories([...merged, ...archived]);
+        if (merged.length > 0 || archived.length > 0) {
+          console.log(`[AgentService] Consolidated memories for ${this.agentId}: ${merged.length} merged, ${archived.length} archived`);
+        }
+      } catch (error) {
+        console.warn(`[AgentService] Memory consolidation failed for ${this.agentId}:`, error);
+      }
+    }, options.consolidateIntervalHours * 60 * 60 * 1000);
+    this.consolidationTimer.unref();
+  }
+
+  /**
+   * Erase a memory from the store and the search index
+   */
+  async forgetMemory(type: MemoryType, id: string): Promise<boolean> {
+    const memorySystem = this.memorySystem ?? new MemorySystem(undefined, this.agentId);
+    const memory = memorySystem.find(type, id);
+    if (memory?.type === "prospective") {
+      await unlinkProspectiveMemory(memory, this.agentId);
+    }
+    const removed = memorySystem.remove(type, id);
+    this.searchManager?.removeMemories([{ id, type }]);
+    return removed;
+  }
+
+  /**
+   * Memory index counts and background sync state, or undefined when memory search is off
+   */
+  getMemoryStatus(): MemoryStatus | undefined {
+    if (!this.searchManager) return undefined;
+    return {
+      index: this.searchManager.status(),
+      sync: this.memorySync?.status() ?? null,
+    };
+  }
+
+  /**
+   * Sync the memory index now (queued behind a running background sync)
+   */
+  async syncMemory(options?: { force?: boolean }): Promise<MemorySyncStats> {
+    if (!this.memorySync) {
+      throw new Error(`Memory search is not enabled for agent "${this.agentId}"`);
+    }
+    return this.memorySync.syncNow({ reason: "manual", force: options?.force });
+  }
+
+  /**
+   * Queue an event for memory classification unless the conversation opted out
+   */
+  private ingestMemory(kind: IngestionEventKind, conversationId: ConversationId, content: string): void {
+    if (!this.memoryIngestion) return;
+    if (conversationId && this.conversationManager.getConversationEntry(conversationId)?.memoryOptOut) return;
+    this.memoryIngestion.enqueue(kind, content, conversationId ? { conversationId } : undefined);
+  }
+
+  /**
+   * Opt a conversation out of (or back into) automatic memory writing
+   */
+  async setMemoryOptOut(conversationId: ConversationId, optOut: boolean): Promise<void> {
+    await this.conversationManager.setConversationOverrides(conversationId, { memoryOptOut: optOut });
+  }
+
+  /**
+   * Set (or clear, with null) model overrides for a conversation
+   */
+  async setModelOverrides(conversationId: ConversationId, overrides: ModelOverrides): Promise<ModelOverrides> {
+    const clear = <T>(value: T | null | undefined, current: T | undefined) =>
+      value === null ? undefined : value ?? current;
+    const entry = this.conversationManager.getConversationEntry(conversationId);
+
+    await this.conversationManager.setConversationOverrides(conversationId, {
+      modelOverride: clear(overrides.model, entry?.modelOverride),
+      providerOverride: clear(overrides.provider, entry?.providerOverride),
+      temperatureOverride: clear(overrides.temperature, entry?.temperatureOverride),
+      thinkingLevel: clear(overrides.thinkingLevel, entry?.thinkingLevel),
+    });
+    return this.getModelOverrides(conversationId);
+  }
+
+  /**
+   * Get the model overrides stored for a conversation
+   */
+  getModelOverrides(conversationId: ConversationId): ModelOverrides {
+    const entry = this.conversationManager.getConversationEntry(conversationId);
+    return {
+      model: entry?.modelOverride,
+      provider: entry?.providerOverride,
+      temperature: entry?.temperatureOverride,
+      thinkingLevel: entry?.thinkingLevel as ModelOverrides["thinkingLevel"],
+    };
+  }
+
   /**
    * Run the agent with given parameters
    */
   async run(params: AgentRunParams): Promise<AgentRunResult> {
     const { conversationId, message } = params;
     const runId = params.runId || randomUUID();
+    this.messageRuns.set(runId, conversationId);
+    if (this.messageRuns.size > MAX_TRACKED_RUNS) {
+      this.messageRuns.delete(this.messageRuns.keys().next().value!);
+    }
     
     if (params.channelMetadata) {
       await this.conversationManager.updateChannelMetadata(conversationId, params.channelMetadata);
     }
     await this.conversationManager.addMessage(conversationId, "user", message, { runId });
+    this.scheduleSleep(conversationId);
+    try {
+      this.surfaceConversationReminders(conversationId);
+    } catch (error) {
+      console.warn(`[AgentService] Failed to surface reminders for ${conversationId}:`, error);
+    }
+
+    const securityContext = params.securityContext ?? await this.resolveSecurityContext(conversationId);
     
     await this.runtime.emit({
       type: "message",
       conversationId,
       message,
       runId,
+      securityContext,
+      source: params.source,
     });
     
-    return { runId, response: "", tokensUsed: 0 };
+    // The response is produced asynchronously by the Self loop; its token count
+    // arrives with the stream.lifecycle "end" event
+    return { runId, response: "" };
+  }
+
+  /**
+   * Cancel in-flight work. A runId returned by run() identifies the user message, so it is
+   * mapped to that message's conversation; council run ids are cancelled directly.
+   */
+  async cancel(target: CancelTarget, reason?: string): Promise<CancelResult> {
+    const conversationId = target.conversationId ?? (target.runId ? this.messageRuns.get(target.runId) : undefined);
+
+    const cancelled = this.runtime.cancel({ runId: target.runId, conversationId }, reason);
+    return { cancelled, conversationId };
+  }
+
+  /**
+   * Resolve the security context for a conversation when the caller did not provide one
+   */
+  private async resolveSecurityContext(conversationId: ConversationId): Promise<SecurityContext> {
+    const config = await loadConfig();
+    const homedir = resolveAgentHomedir(config, this.agentId);
+    const conversationType = this.conversationManager.getConversation(conversationId)?.conversation.type ?? "main";
+    return resolveSecurityContext(config.security, conversationId, conversationType, this.agentId, homedir);
+  }
+
+  /**
+   * Run sleep mode in the background once a conversation crosses the context threshold
+   */
+  private scheduleSleep(conversationId: ConversationId): void {
+    if (this.sleepRuns.has(conversationId)) return;
+    void this.runSleep(conversationId).catch(err =>
+      console.warn(`[AgentService] Sleep mode failed for ${conversationId}:`, err)
+    );
+  }
+
+  /**
+   * Run sleep mode for a conversation. Without `force` it only runs when the
+   * conversation crossed the configured threshold and is outside the cooldown.
+   */
+  async runSleep(
+    conversationId: ConversationId,
+    options?: { force?: boolean; strategy?: CompressionStrategy },
+  ): Promise<SleepRunResult> {
+    const inFlight = this.sleepRuns.get(conversationId);
+    if (inFlight) return inFlight;
+
+    const run = (async () => {
+      const config = await loadConfig();
+      const homedir = resolveAgentHomedir(config, this.agentId);
+      try {
+        const result = await runSleepModeIfNeeded({
+          config,
+          conversationManager: this.conversationManager,
+          conversationId,
+          agentId: this.agentId,
+          homedir,
+          force: options?.force,
+          strategy: options?.strategy,
+        });
+        if (result.ran) {
+          await activityRecorder.recordSleepRun(this.agentId, conversationId, result)
+            .catch(err => console.warn(`[AgentService] Failed to record sleep run:`, err));
+        }
+        return result;
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        await activityRecorder.recordSleepRun(this.agentId, conversationId, {
+          messagesConsolidated: 0,
+          memoriesCreated: 0,
+          error: message,
+        }).catch(recordErr => console.warn(`[AgentService] Failed to record sleep run:`, recordErr));
+        throw err;
+      }
+    })();
+
+    this.sleepRuns.set(conversationId, run);
+    try {
+      return await run;
+    } finally {
+      this.sleepRuns.delete(conversationId);
+    }
+  }
+
+  /**
+   * Get sleep mode status for a conversation
+   */
+  async getSleepStatus(conversationId: ConversationId): Promise<SleepStatus | undefined> {
+    const config = await loadConfig();
+    return getSleepStatus({
+      config,
+      conversationManager: this.conversationManager,
+      conversationId,
+      running: this.sleepRuns.has(conversationId),
+    });
   }
 
   /**
@@ -223,6 +652,78 @@ export class AgentService implements AgentRuntime {
     return { files: prompts.files };
   }
 
+  /**
+   * Council scheduler metrics (wakeups, decisions, queued inputs)
+   */
+  getSchedulerMetrics(): SchedulerMetrics {
+    return this.runtime.getSchedulerMetrics();
+  }
+
+  /**
+   * List brain parts (validated on load, reloaded after clearCache)
+   */
+  async listBrainParts(): Promise<BrainPartList> {
+    const { parts, errors } = await this.runtime.getBrainParts();
+    return {
+      brainParts: parts.map(part => ({
+        id: part.id,
+        name: part.name,
+        description: part.description,
+        trait: part.trait,
+        temperature: part.temperature,
+        tools: part.tools,
+        maxIterations: part.maxIterations ?? DEFAULT_BRAIN_PART_MAX_ITERATIONS,
+        maxTokens: part.maxTokens,
+        file: part.file,
+      })),
+      errors,
+    };
+  }
+
+  /**
+   * List built-in tools and plugin tools from the agent's plugins directory
+   */
+  async listTools(): Promise<ToolList> {
+    const { builtIn, plugins, mcp } = await this.runtime.getTools();
+    return {
+      tools: [
+        ...builtIn.map((name): ToolInfo => ({ name, source: "builtin", enabled: true })),
+        ...plugins.tools.map((pluginTool): ToolInfo => ({
+          name: pluginTool.name,
+          source: "plugin",
+          description: pluginTool.description,
+          kind: pluginTool.kind,
+          enabled: pluginTool.enabled,
+          file: pluginTool.manifestFile,
+        })),
+        ...mcp.map((name): ToolInfo => ({ name, source: "mcp", enabled: true })),
+      ],
+      errors: plugins.errors,
+    };
+  }
+
+  /**
+   * The tools the agent's runs get, keyed by name
+   */
+  async getToolSet(): Promise<Record<string, Tool>> {
+    return this.runtime.getToolSet();
+  }
+
+  /**
+   * Enable or disable a plugin tool (saved in its manifest)
+   */
+  async setToolEnabled(name: string, enabled: boolean): Promise<ToolInfo> {
+    const pluginTool = await this.runtime.setPluginToolEnabled(name, enabled);
+    return {
+      name: pluginTool.name,
+      source: "plugin",
+      description: pluginTool.description,
+      kind: pluginTool.kind,
+      enabled: pluginTool.enabled,
+      file: pluginTool.manifestFile,
+    };
+  }
+
   /**
    * Clear caches (for hot reload)
    */
@@ -231,6 +732,14 @@ export class AgentService implements AgentRuntime {
     if (this.identityLoader.clearCache) {
       this.identityLoader.clearCache(this.agentDir);
     }
+    this.runtime.clearCache();
+  }
+
+  /**
+   * Get the delivery context remembered for a conversation
+   */
+  getDeliveryContext(conversationId: ConversationId): DeliveryContext | undefined {
+    return this.conversationManager.getConversationEntry(conversationId)?.deliveryContext;
   }
 
   /**
@@ -262,7 +771,11 @@ export class AgentService implements AgentRuntime {
    * Delete a conversation (for API operations)
    */
   deleteConversation(conversationId: ConversationId): boolean {
-    return this.conversationManager.deleteConversation(conversationId);
+    const deleted = this.conversationManager.deleteConversation(conversationId);
+    if (deleted) {
+      this.runtime.forgetConversation(conversationId);
+    }
+    return deleted;
   }
 
   /**
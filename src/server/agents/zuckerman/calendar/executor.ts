@@ -6,11 +6,19 @@ import { resolveSecurityContext } from "@server/world/execution/security/context
 import { deriveConversationKey } from "@server/agents/zuckerman/conversations/index.js";
 import { loadConversationStore, resolveConversationStorePath } from "@server/agents/zuckerman/conversations/store.js";
 import { activityRecorder } from "@server/agents/zuckerman/activity/index.js";
+import { MemorySystem } from "@server/agents/zuckerman/core/memory/memory-service.js";
+import { markProspectiveMemoryFired } from "@server/agents/zuckerman/core/memory/prospective.js";
 import { saveEvents } from "./storage.js";
 import { scheduleEvent, calculateNextOccurrence } from "./scheduler.js";
 
 // Execute an event
 export async function executeEvent(event: CalendarEvent, eventsMap: Map<string, CalendarEvent>): Promise<void> {
+  // One-time events run on a plain timer, which deleting the event does not cancel
+  if (eventsMap.get(event.id) !== event) {
+    console.log(`[Calendar] Event ${event.id} was deleted, not executing`);
+    return;
+  }
+
   console.log(`[Calendar] Executing event: ${event.id} - ${event.title} at ${new Date().toISOString()}`);
   event.lastTriggeredAt = Date.now();
 
@@ -40,6 +48,14 @@ export async function executeEvent(event: CalendarEvent, eventsMap: Map<string,
     // Don't rethrow - allow scheduler to continue
   }
 
+  if (event.memoryId) {
+    try {
+      markProspectiveMemoryFired(new MemorySystem(undefined, agentId), event.memoryId);
+    } catch (error) {
+      console.warn(`[Calendar] Failed to mark prospective memory ${event.memoryId} as fired:`, error);
+    }
+  }
+
   // Update next occurrence for recurring events
   if (event.recurrence && event.recurrence.type !== "none") {
     event.nextOccurrenceAt = calculateNextOccurrence(event);
@@ -179,6 +195,7 @@ async function executeAgentTurn(event: CalendarEvent, eventsMap: Map<string, Cal
     message,
     securityContext,
     channelMetadata,
+    source: "calendar" as const,
   };
   
   let result;
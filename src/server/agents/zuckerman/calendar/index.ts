@@ -4,5 +4,6 @@ export * from "./executor.js";
 export * from "./types.js";
 export * from "./execution-context.js";
 export * from "./utils.js";
+export * from "./reminders.js";
 // Initialize calendar on import
 import "./init.js";
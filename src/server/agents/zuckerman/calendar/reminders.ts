@@ -0,0 +1,126 @@
+import type { CalendarEvent, EventAction } from "./types.js";
+import { getEvents, saveEvents } from "./storage.js";
+import { scheduleEvent, stopCronInstance } from "./scheduler.js";
+import { activityRecorder } from "@server/agents/zuckerman/activity/index.js";
+import "./init.js";
+import type { MemorySystem } from "@server/agents/zuckerman/core/memory/memory-service.js";
+import { getPendingProspectiveMemories } from "@server/agents/zuckerman/core/memory/prospective.js";
+import type { Memory } from "@server/agents/zuckerman/core/memory/types.js";
+
+/**
+ * Where a reminder is delivered: the channel of the conversation the memory came from
+ */
+export type ReminderDelivery = Pick<NonNullable<EventAction["context"]>, "channel" | "to" | "accountId">;
+
+const MAX_TITLE_LENGTH = 60;
+
+export function reminderEventId(memoryId: string): string {
+  return `reminder-${memoryId}`;
+}
+
+/**
+ * Calendar event for a time-due prospective memory. Reminders whose time already passed
+ * (e.g. while the gateway was down) fire right away instead of never.
+ */
+export function buildReminderEvent(
+  memory: Memory,
+  agentId: string,
+  delivery?: ReminderDelivery,
+  now: number = Date.now(),
+): CalendarEvent | null {
+  const due = memory.metadata?.due;
+  if (due?.kind !== "time") return null;
+
+  const title = memory.content.length > MAX_TITLE_LENGTH
+    ? `${memory.content.slice(0, MAX_TITLE_LENGTH - 1)}…`
+    : memory.content;
+  return {
+    id: reminderEventId(memory.id),
+    title: `Reminder: ${title}`,
+    startTime: due.recurrence ? due.at : Math.max(due.at, now + 1000),
+    recurrence: { type: due.recurrence ?? "none" },
+    action: {
+      type: "agentTurn",
+      agentId,
+      conversationTarget: "main",
+      conversationIdSource: memory.metadata?.conversationId,
+      contextMessage: `Prospective memory ${memory.id} is due.`,
+      actionMessage: delivery?.channel
+        ? `Send the user a reminder on ${delivery.channel}: ${memory.content}`
+        : `Remind the user: ${memory.content}`,
+      ...(delivery?.channel && { context: delivery }),
+    },
+    enabled: true,
+    createdAt: now,
+    memoryId: memory.id,
+  };
+}
+
+/**
+ * Create (or find) the calendar event for a pending time-due prospective memory and record
+ * the link on the memory. Returns null for memories that are not time-due.
+ */
+export async function linkProspectiveMemory(
+  memorySystem: MemorySystem,
+  memory: Memory,
+  agentId: string,
+  delivery?: ReminderDelivery,
+): Promise<CalendarEvent | null> {
+  if (memory.metadata?.status === "done") return null;
+
+  const events = getEvents();
+  let event = events.get(reminderEventId(memory.id)) ?? null;
+  if (!event) {
+    event = buildReminderEvent(memory, agentId, delivery);
+    if (!event) return null;
+
+    events.set(event.id, event);
+    scheduleEvent(event, events);
+    saveEvents(events);
+    await activityRecorder.recordCalendarEventCreated(agentId, event.id, event.title).catch((err) => {
+      console.warn("Failed to record calendar event created:", err);
+    });
+  }
+
+  if (memory.metadata?.calendarEventId !== event.id) {
+    memorySystem.update("prospective", memory.id, {
+      metadata: { ...memory.metadata, status: "pending", calendarEventId: event.id },
+    });
+  }
+  return event;
+}
+
+/**
+ * Link every pending time-due prospective memory that has no calendar event yet
+ */
+export async function linkPendingProspectiveMemories(
+  memorySystem: MemorySystem,
+  agentId: string,
+  resolveDelivery: (memory: Memory) => ReminderDelivery | undefined,
+): Promise<number> {
+  let linked = 0;
+  for (const memory of getPendingProspectiveMemories(memorySystem)) {
+    if (memory.metadata?.due?.kind !== "time" || getEvents().has(reminderEventId(memory.id))) continue;
+    if (await linkProspectiveMemory(memorySystem, memory, agentId, resolveDelivery(memory))) linked++;
+  }
+  return linked;
+}
+
+/**
+ * Remove the calendar event of a prospective memory that is being forgotten
+ */
+export async function unlinkProspectiveMemory(memory: Memory, agentId: string): Promise<boolean> {
+  const eventId = memory.metadata?.calendarEventId ?? reminderEventId(memory.id);
+  const events = getEvents();
+  const event = events.get(eventId);
+  if (!event) return false;
+
+  stopCronInstance(eventId);
+  event.enabled = false;
+  events.delete(eventId);
+  saveEvents(events);
+  await activityRecorder.recordCalendarEventDeleted(agentId, eventId, event.title).catch((err) => {
+    console.warn("Failed to record calendar event deleted:", err);
+  });
+  return true;
+}
@@ -33,4 +33,5 @@ export interface CalendarEvent {
   createdAt: number;
   lastTriggeredAt?: number;
   nextOccurrenceAt?: number;
+  memoryId?: string; // Prospective memory this event reminds of (see reminders.ts)
 }
@@ -52,6 +52,32 @@ function messageToTranscriptFormat(msg: ConversationMessage) {
   };
 }
 
+/**
+ * Rough token estimate for the active (non-ignored) part of a conversation
+ */
+export function estimateContextTokens(messages: ConversationMessage[]): number {
+  let chars = 0;
+  for (const message of messages) {
+    if (message.ignore) continue;
+    chars += contentToString(message.content).length;
+  }
+  return Math.ceil(chars / 4);
+}
+
+// Hide messages that a sleep mode run consolidated out of the active context
+function applySleepCompaction(
+  messages: ConversationMessage[],
+  compaction: Pick<ConversationEntry, "sleepCompactedBefore" | "sleepRetained">,
+): void {
+  if (!compaction.sleepCompactedBefore) return;
+  const retained = new Set(compaction.sleepRetained ?? []);
+  for (const message of messages) {
+    if (message.timestamp < compaction.sleepCompactedBefore && !retained.has(message.timestamp)) {
+      message.ignore = true;
+    }
+  }
+}
+
 export function deriveConversationKey(
   agentId: string,
   type: ConversationType,
@@ -128,6 +154,8 @@ export class ConversationManager {
           };
         });
 
+        applySleepCompaction(messages, entry);
+
         const conversation: Conversation = {
           id: entry.conversationId,
           label: entry.displayName || conversationKey,
@@ -413,6 +441,7 @@ export class ConversationManager {
         const transcriptEntry = transcriptEntries[0];
         appendTranscriptEntry(transcriptPath, transcriptEntry);
         result.entry.lastTranscriptId = transcriptEntry.id;
+        result.entry.contextTokens = estimateContextTokens(state.messages);
         result.entry.updatedAt = Date.now();
 
         const store = loadConversationStore(this.storePath);
@@ -424,6 +453,45 @@ export class ConversationManager {
     }
   }
 
+  /**
+   * Move consolidated messages out of the active context after a sleep mode run.
+   * Transcripts stay append-only; the compaction is recorded on the conversation entry.
+   */
+  async compactConversation(
+    conversationId: ConversationId,
+    compaction: {
+      compactedBefore: number;
+      retained: number[];
+      strategy: string;
+      summary?: string;
+    },
+  ): Promise<ConversationEntry | undefined> {
+    const state = this.conversations.get(conversationId);
+    if (!state) return undefined;
+
+    const releaseLock = await this.acquireWriteLock(conversationId);
+    try {
+      const result = await this.getOrCreateEntry(conversationId);
+      if (!result) return undefined;
+
+      const { entry } = result;
+      entry.sleepCompactedBefore = compaction.compactedBefore;
+      entry.sleepRetained = compaction.retained;
+      entry.sleepStrategy = compaction.strategy;
+      if (compaction.summary) entry.sleepSummary = compaction.summary;
+      applySleepCompaction(state.messages, entry);
+      entry.contextTokens = estimateContextTokens(state.messages);
+      entry.updatedAt = Date.now();
+
+      const store = loadConversationStore(this.storePath);
+      store[result.key] = entry;
+      await saveConversationStore(this.storePath, store);
+      return entry;
+    } finally {
+      releaseLock();
+    }
+  }
+
   listConversations(): Conversation[] {
     return Array.from(this.conversations.values()).map((state) => state.conversation);
   }
@@ -457,7 +525,7 @@ export class ConversationManager {
    */
   async updateChannelMetadata(
     conversationId: ConversationId,
-    metadata: { channel?: string; to?: string; accountId?: string },
+    metadata: { channel?: string; to?: string; accountId?: string; threadId?: string | number },
   ): Promise<void> {
     const result = await this.getOrCreateEntry(conversationId);
     if (!result) return;
@@ -465,6 +533,8 @@ export class ConversationManager {
     const { entry } = result;
     if (metadata.channel) entry.lastChannel = metadata.channel;
     if (metadata.to) entry.lastTo = metadata.to;
+    if (metadata.accountId) entry.lastAccountId = metadata.accountId;
+    if (metadata.threadId !== undefined) entry.lastThreadId = metadata.threadId;
     entry.deliveryContext = { ...entry.deliveryContext, ...metadata };
     entry.origin = { ...entry.origin, channel: metadata.channel, accountId: metadata.accountId };
     entry.updatedAt = Date.now();
@@ -512,6 +582,7 @@ export class ConversationManager {
       verboseLevel?: string;
       reasoningLevel?: string;
       timeoutSecondsOverride?: number;
+      memoryOptOut?: boolean;
     },
   ): Promise<void> {
     const releaseLock = await this.acquireWriteLock(conversationId);
@@ -122,8 +122,13 @@ export interface ConversationEntry {
   lastTranscriptId?: string; // Track last written transcript entry to prevent duplicates
   memoryFlushCount?: number; // Track number of memory flushes for this conversation (deprecated, use sleepCount)
   memoryFlushAt?: number; // Timestamp of last memory flush (deprecated, use sleepAt)
+  memoryOptOut?: boolean; // Do not write long-term memories from this conversation
   sleepCount?: number; // Track number of sleep mode runs for this conversation
   sleepAt?: number; // Timestamp of last sleep mode run
+  sleepStrategy?: string; // Compression strategy used by the last sleep mode run
+  sleepCompactedBefore?: number; // Messages older than this were consolidated out of the active context
+  sleepRetained?: number[]; // Timestamps of older messages that sleep kept in the active context
+  sleepSummary?: string; // Running summary left in context by the last sleep mode run
 }
 
 /**
@@ -13,12 +13,21 @@ export * from "./memory-service.js"; // Memory Service
 // Memory Remembering (Real-time)
 export * from "./memory-classifier.js";
 export * from "./memory-events.js";
+export * from "./ingestion.js";
+
+// Memory Recall (prompt injection)
+export * from "./recall.js";
+export * from "./prompt-formatter.js";
+
+// Memory Lifecycle (decay, consolidation)
+export * from "./lifecycle.js";
 
 // Services: Encoding, Storage, Retrieval
 export * from "./retrieval/encoding/schema.js"; // Database schema
 export * from "./retrieval/encoding/chunking.js"; // Text chunking
 export * from "./retrieval/encoding/embeddings.js"; // Embedding utilities
 export * from "./retrieval/search.js"; // Search interface
+export * from "./retrieval/sync-service.js"; // Background index sync
 
 // Note: Processing/consolidation logic moved to sleep module
 // Note: Memory flush logic moved to sleep module
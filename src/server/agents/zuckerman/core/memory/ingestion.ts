@@ -0,0 +1,100 @@
+/**
+ * Memory Ingestion
+ * Classifies agent events into long-term memories in the background
+ */
+
+import type { MemorySystem } from "./memory-service.js";
+import type { MemorySearchManager } from "./retrieval/search.js";
+import type { MemoryClassifier } from "./memory-classifier.js";
+import type { Memory, MemoryMetadata } from "./types.js";
+import type { UsageConfig } from "@server/world/config/types.js";
+import { onNewMessage, onAction, onThought, onExperience } from "./memory-events.js";
+
+export interface MemoryIngestionConfig {
+  enabled?: boolean;
+  minImportance?: number;
+}
+
+const DEFAULT_MIN_IMPORTANCE = 0.5;
+const MAX_QUEUE_LENGTH = 100;
+
+export type IngestionEventKind = "message" | "response" | "tool" | "thought";
+
+/**
+ * Serial ingestion queue: each event is classified, deduplicated against the
+ * stores, saved, and indexed for search. Events are processed one at a time so
+ * deduplication sees everything written before it.
+ */
+export class MemoryIngestionPipeline {
+  private classifier: MemoryClassifier;
+  private queue: Promise<void> = Promise.resolve();
+  private pending = 0;
+
+  constructor(
+    memorySystem: MemorySystem,
+    options: {
+      minImportance?: number;
+      searchManager?: MemorySearchManager | null;
+      /**
+       * Called after saved memories are indexed, e.g. to link prospective memories to the calendar
+       */
+      onSaved?: (memories: Memory[]) => Promise<void>;
+      usageConfig?: UsageConfig;
+    } = {},
+  ) {
+    const { searchManager, onSaved } = options;
+    this.classifier = memorySystem.createClassifier({
+      minImportance: options.minImportance ?? DEFAULT_MIN_IMPORTANCE,
+      usageConfig: options.usageConfig,
+      onSaved: searchManager || onSaved
+        ? async (memories) => {
+          await searchManager?.indexMemories(memories);
+          await onSaved?.(memories);
+        }
+        : undefined,
+    });
+  }
+
+  /**
+   * Queue an event for classification. Returns immediately.
+   */
+  enqueue(kind: IngestionEventKind, content: string, metadata?: MemoryMetadata): void {
+    if (!content.trim()) return;
+    if (this.pending >= MAX_QUEUE_LENGTH) {
+      console.warn(`[MemoryIngestion] Queue full, dropping ${kind} event`);
+      return;
+    }
+
+    this.pending++;
+    this.queue = this.queue
+      .then(() => this.ingest(kind, content, metadata))
+      .catch(err => console.warn(`[MemoryIngestion] Failed to ingest ${kind} event:`, err))
+      .finally(() => {
+        this.pending--;
+      });
+  }
+
+  /**
+   * Wait until every queued event has been processed
+   */
+  async idle(): Promise<void> {
+    await this.queue;
+  }
+
+  private async ingest(kind: IngestionEventKind, content: string, metadata?: MemoryMetadata): Promise<void> {
+    switch (kind) {
+      case "message":
+        await onNewMessage(this.classifier, content, metadata);
+        break;
+      case "response":
+        await onExperience(this.classifier, content, metadata);
+        break;
+      case "tool":
+        await onAction(this.classifier, content, metadata);
+        break;
+      case "thought":
+        await onThought(this.classifier, content, metadata);
+        break;
+    }
+  }
+}
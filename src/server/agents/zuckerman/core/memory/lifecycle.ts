@@ -0,0 +1,153 @@
+/**
+ * Memory Lifecycle
+ * Importance-weighted decay of retrieval scores, reinforced by recall, and periodic consolidation:
+ * near-duplicate semantic memories are merged and stale episodic memories archived.
+ * Pinned memories never decay and are never merged away or archived.
+ */
+
+import { isDuplicateMemory } from "./memory-classifier.js";
+import type { MemorySystem } from "./memory-service.js";
+import type { Memory } from "./types.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_HALF_LIFE_DAYS = 30;
+const DEFAULT_MIN_WEIGHT = 0.3;
+const DEFAULT_CONSOLIDATE_INTERVAL_HOURS = 24;
+const DEFAULT_ARCHIVE_BELOW = 0.35;
+const DEFAULT_ARCHIVE_MIN_AGE_DAYS = 30;
+
+export interface MemoryLifecycleConfig {
+  enabled?: boolean;
+  halfLifeDays?: number;
+  minWeight?: number;
+  consolidateIntervalHours?: number;
+  archiveBelow?: number;
+  archiveMinAgeDays?: number;
+}
+
+export interface MemoryLifecycleOptions {
+  /**
+   * Days until an unreinforced memory of default importance loses half its retention
+   */
+  halfLifeDays: number;
+  /**
+   * Floor for the retrieval weight, so old memories are down-ranked rather than hidden
+   */
+  minWeight: number;
+  /**
+   * Hours between consolidation runs; 0 turns scheduled consolidation off
+   */
+  consolidateIntervalHours: number;
+  /**
+   * Episodic memories whose weight drops below this are archived
+   */
+  archiveBelow: number;
+  /**
+   * Episodic memories younger than this are never archived
+   */
+  archiveMinAgeDays: number;
+}
+
+export interface ConsolidationResult {
+  /**
+   * Memories folded into a near-duplicate and removed
+   */
+  merged: Array<Pick<Memory, "id" | "type">>;
+  archived: Array<Pick<Memory, "id" | "type">>;
+}
+
+export function resolveMemoryLifecycleOptions(config?: MemoryLifecycleConfig): MemoryLifecycleOptions | null {
+  if (config?.enabled === false) return null;
+  return {
+    halfLifeDays: config?.halfLifeDays ?? DEFAULT_HALF_LIFE_DAYS,
+    minWeight: config?.minWeight ?? DEFAULT_MIN_WEIGHT,
+    consolidateIntervalHours: config?.consolidateIntervalHours ?? DEFAULT_CONSOLIDATE_INTERVAL_HOURS,
+    archiveBelow: config?.archiveBelow ?? DEFAULT_ARCHIVE_BELOW,
+    archiveMinAgeDays: config?.archiveMinAgeDays ?? DEFAULT_ARCHIVE_MIN_AGE_DAYS,
+  };
+}
+
+/**
+ * Retention in [0, 1]: exponential decay since the memory was last recalled (or written).
+ * Important and frequently recalled memories have a longer half-life.
+ */
+export function memoryRetention(memory: Memory, options: MemoryLifecycleOptions, now: number = Date.now()): number {
+  if (memory.pinned) return 1;
+
+  const importance = memory.importance ?? 0.5;
+  const halfLifeDays = options.halfLifeDays * (0.5 + 2 * importance) * (1 + Math.log2(1 + (memory.accessCount ?? 0)));
+  const ageDays = Math.max(0, now - (memory.lastAccessedAt ?? memory.updatedAt)) / DAY_MS;
+  return Math.pow(0.5, ageDays / halfLifeDays);
+}
+
+/**
+ * Multiplier applied to a memory's relevance when ranking recall candidates
+ */
+export function memoryWeight(memory: Memory, options: MemoryLifecycleOptions, now: number = Date.now()): number {
+  if (memory.pinned) return 1;
+  const retention = memoryRetention(memory, options, now);
+  return (options.minWeight + (1 - options.minWeight) * retention) * (memory.confidence ?? 1);
+}
+
+/**
+ * Pick the memory a duplicate group is merged into: pinned first, then the most important, then the newest
+ */
+function pickSurvivor(group: Memory[]): Memory {
+  return group.reduce((best, memory) => {
+    if (Boolean(memory.pinned) !== Boolean(best.pinned)) return memory.pinned ? memory : best;
+    const importance = (memory.importance ?? 0.5) - (best.importance ?? 0.5);
+    if (importance !== 0) return importance > 0 ? memory : best;
+    return memory.updatedAt > best.updatedAt ? memory : best;
+  });
+}
+
+/**
+ * Merge near-duplicate semantic memories and archive stale episodic ones, in one transaction.
+ * A merged group keeps the survivor's content with the group's highest importance and confidence
+ * and its combined access count.
+ */
+export function consolidateMemories(
+  memorySystem: MemorySystem,
+  options: MemoryLifecycleOptions,
+  now: number = Date.now(),
+): ConsolidationResult {
+  return memorySystem.batch(() => {
+    const merged: ConsolidationResult["merged"] = [];
+    const semantic = memorySystem.findAll("semantic");
+    const grouped = new Set<string>();
+
+    for (const memory of semantic) {
+      if (grouped.has(memory.id)) continue;
+      const duplicates = semantic.filter(other =>
+        other.id === memory.id || (!grouped.has(other.id) && isDuplicateMemory(memory.content, other.content)));
+      // A group keeps at most one pinned memory (the survivor); other pinned duplicates stay as they are
+      const pinned = memory.pinned ? memory : duplicates.find(other => other.pinned);
+      const group = duplicates.filter(other => !other.pinned || other === pinned);
+      if (group.length < 2) continue;
+
+      for (const other of group) grouped.add(other.id);
+      const survivor = pickSurvivor(group);
+      const accessed = group.map(other => other.lastAccessedAt).filter((at): at is number => at !== undefined);
+      memorySystem.update("semantic", survivor.id, {
+        importance: Math.max(...group.map(other => other.importance ?? 0.5)),
+        confidence: Math.max(...group.map(other => other.confidence ?? 1)),
+        accessCount: group.reduce((count, other) => count + (other.accessCount ?? 0), 0),
+        ...(accessed.length > 0 && { lastAccessedAt: Math.max(...accessed) }),
+      });
+      for (const other of group) {
+        if (other.id === survivor.id) continue;
+        memorySystem.remove("semantic", other.id);
+        merged.push({ id: other.id, type: "semantic" });
+      }
+    }
+
+    const minAge = options.archiveMinAgeDays * DAY_MS;
+    const stale = memorySystem.findAll("episodic").filter(memory =>
+      !memory.pinned
+      && now - memory.createdAt >= minAge
+      && memoryWeight(memory, options, now) < options.archiveBelow);
+    memorySystem.archive("episodic", stale.map(memory => memory.id));
+
+    return { merged, archived: stale.map(memory => ({ id: memory.id, type: memory.type })) };
+  });
+}
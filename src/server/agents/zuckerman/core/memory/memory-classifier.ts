@@ -1,18 +1,47 @@
-import { generateText, Output } from "ai";
 import { z } from "zod";
-import { LLMProvider } from "@server/world/providers/llm/index.js";
-import type { MemoryType, MemoryMetadata } from "./types.js";
+import { LLMProvider, budgetedSelection, generateStructured, recordUsage } from "@server/world/providers/llm/index.js";
+import { loadConfig } from "@server/world/config/index.js";
+import type { UsageConfig } from "@server/world/config/types.js";
+import type { Memory, MemoryType, MemoryMetadata, ProspectiveDue } from "./types.js";
 import type { MemoryStore } from "./memory-store.js";
+import { parseClassifiedDue } from "./prospective.js";
 
 export interface ClassifiedMemory {
   type: MemoryType;
   content: string;
   importance: number;
+  /**
+   * When a prospective memory is due, if the event said
+   */
+  due?: ProspectiveDue;
 }
 
 export interface ClassificationResult {
   memories: ClassifiedMemory[];
   hasImportantInfo: boolean;
+  /**
+   * Memories actually written (after importance filtering and deduplication)
+   */
+  saved?: Memory[];
+}
+
+export interface MemoryClassifierOptions {
+  /**
+   * Classified memories below this importance are not saved (default: 0)
+   */
+  minImportance?: number;
+  /**
+   * Called with the memories written by classifyAndSave, e.g. to index them for search
+   */
+  onSaved?: (memories: Memory[]) => Promise<void>;
+  /**
+   * Agent the classification calls are billed to in the usage ledger
+   */
+  agentId?: string;
+  /**
+   * Budgets and prices for the classification calls; read from the config on every call when unset
+   */
+  usageConfig?: UsageConfig;
 }
 
 export type EventType = "message" | "action" | "thought" | "decision" | "experience" | "other";
@@ -24,11 +53,36 @@ export interface MemoryEvent {
   context?: string;
 }
 
+function normalizeContent(content: string): string {
+  return content.toLowerCase().replace(/[^\p{L}\p{N}\s]/gu, "").replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Check whether a memory says the same thing as an existing one:
+ * identical or contained after normalization, or nearly the same set of words
+ */
+export function isDuplicateMemory(content: string, existing: string): boolean {
+  const a = normalizeContent(content);
+  const b = normalizeContent(existing);
+  if (!a || !b) return false;
+  if (a === b || a.includes(b) || b.includes(a)) return true;
+
+  const wordsA = new Set(a.split(" "));
+  const wordsB = new Set(b.split(" "));
+  let shared = 0;
+  for (const word of wordsA) {
+    if (wordsB.has(word)) shared++;
+  }
+  return shared / (wordsA.size + wordsB.size - shared) >= 0.8;
+}
+
 export class MemoryClassifier {
   private stores: Map<MemoryType, MemoryStore>;
+  private options: MemoryClassifierOptions;
 
-  constructor(stores: Map<MemoryType, MemoryStore>) {
+  constructor(stores: Map<MemoryType, MemoryStore>, options: MemoryClassifierOptions = {}) {
     this.stores = stores;
+    this.options = options;
   }
 
   /**
@@ -42,17 +96,33 @@ export class MemoryClassifier {
         return result;
       }
 
+      const saved: Memory[] = [];
       for (const memory of result.memories) {
+        if (memory.importance < (this.options.minImportance ?? 0)) continue;
+
         const store = this.stores.get(memory.type);
-        if (store) {
-          store.insert({
-            content: memory.content,
-            metadata: event.metadata,
-          });
-        }
+        if (!store) continue;
+
+        const duplicate = store.findAll().some(existing => isDuplicateMemory(memory.content, existing.content));
+        if (duplicate) continue;
+
+        const due = memory.type === "prospective" && memory.due ? { due: memory.due, status: "pending" as const } : {};
+        const id = store.insert({
+          content: memory.content,
+          importance: memory.importance,
+          metadata: { ...event.metadata, importance: memory.importance, eventType: event.type, ...due },
+        });
+        const inserted = store.find(id);
+        if (inserted) saved.push(inserted);
+      }
+
+      if (saved.length > 0 && this.options.onSaved) {
+        await this.options.onSaved(saved).catch(err =>
+          console.warn(`[MemoryClassifier] Failed to process saved memories:`, err)
+        );
       }
 
-      return result;
+      return { ...result, saved };
     } catch (err) {
       console.warn(`[MemoryClassifier] Classification failed:`, err);
       return { memories: [], hasImportantInfo: false };
@@ -63,34 +133,60 @@ export class MemoryClassifier {
    * Classify an event into memory types without saving
    */
   async classify(event: MemoryEvent): Promise<ClassificationResult> {
-    const model = await LLMProvider.getInstance().fastCheap();
-    
+    const usageConfig = this.options.usageConfig ?? (await loadConfig()).usage;
+    const conversationId = event.metadata?.conversationId;
+    const selection = budgetedSelection({ trait: "fastCheap" }, usageConfig, {
+      agentId: this.options.agentId ?? "",
+      conversationId,
+    });
+    if (!selection) {
+      // A "pause" budget is reached; stop spending on ingestion until it resets
+      return { memories: [], hasImportantInfo: false };
+    }
+    const resolved = await LLMProvider.getInstance().resolve(selection);
+
     const schema = z.object({
       memories: z.array(z.object({
         type: z.enum(["semantic", "episodic", "procedural", "prospective", "emotional"]),
         content: z.string(),
         importance: z.number().min(0).max(1),
+        dueAt: z.string().describe("Prospective only: ISO 8601 time it is due, or empty string"),
+        recurrence: z.enum(["none", "daily", "weekly", "monthly", "yearly"]).describe("Prospective only: how a timed reminder repeats"),
+        dueWith: z.string().describe("Prospective only: person whose next conversation it is due in, or empty string"),
       })),
     });
 
     const systemPrompt = this.buildSystemPrompt(event.type);
     const userPrompt = this.buildUserPrompt(event);
 
-    const response = await generateText({
-      model,
+    const response = await generateStructured(resolved, {
       system: systemPrompt,
       messages: [
         { role: "user" as const, content: userPrompt },
       ],
-      output: Output.object({ schema }),
+      schema,
       temperature: 0.3,
     });
+    await recordUsage({
+      stage: "classifier",
+      provider: resolved.provider,
+      modelId: resolved.modelId,
+      trait: resolved.trait,
+      usage: response.totalUsage,
+      agentId: this.options.agentId,
+      conversationId,
+    }, usageConfig);
 
     const result = response.output;
     
+    const memories = result.memories.map(({ dueAt, recurrence, dueWith, ...memory }): ClassifiedMemory => {
+      const due = memory.type === "prospective" ? parseClassifiedDue({ dueAt, recurrence, dueWith }) : undefined;
+      return due ? { ...memory, due } : memory;
+    });
+
     return {
-      memories: result.memories,
-      hasImportantInfo: result.memories.length > 0,
+      memories,
+      hasImportantInfo: memories.length > 0,
     };
   }
 
@@ -108,7 +204,10 @@ Guidelines:
 - Importance: 0.7+ for critical info, 0.5-0.7 for moderately important, <0.5 for less important
 - Content should be concise and clear, preserving key details
 - If nothing is important enough, return empty array
-- Each memory should be distinct and non-redundant`;
+- Each memory should be distinct and non-redundant
+- For prospective memories, set dueAt when a time is given (resolve relative times against the current time)
+  and recurrence if it repeats, or dueWith when it should come up the next time the user talks with someone
+  ("next time I talk to Sam" -> "Sam"). Leave them empty ("none" for recurrence) otherwise`;
 
     const eventTypeGuidance: Record<EventType, string> = {
       message: "\n\nFocus: Extract memories from user messages and conversations.",
@@ -123,7 +222,7 @@ Guidelines:
   }
 
   private buildUserPrompt(event: MemoryEvent): string {
-    let prompt = `Event Type: ${event.type}\n\nContent: ${event.content}`;
+    let prompt = `Current time: ${new Date().toISOString()}\n\nEvent Type: ${event.type}\n\nContent: ${event.content}`;
     
     if (event.context) {
       prompt = `Context: ${event.context}\n\n${prompt}`;
@@ -0,0 +1,201 @@
+/**
+ * Memory Store Database
+ * One SQLite database per agent holding every memory type. WAL mode and a busy timeout let the
+ * gateway and the CLI share a homedir; writes run in IMMEDIATE transactions so batches are atomic.
+ */
+
+import { DatabaseSync } from "node:sqlite";
+import { existsSync, mkdirSync, readFileSync, renameSync } from "node:fs";
+import { dirname } from "node:path";
+import { getAgentMemoryStoreDbPath, getAgentMemoryStorePath } from "@server/world/homedir/paths.js";
+import { MEMORY_TYPES, type Memory, type MemoryType } from "./types.js";
+
+// How long a write waits for another process holding the lock
+const BUSY_TIMEOUT_MS = 5000;
+
+export const DEFAULT_IMPORTANCE = 0.5;
+
+/**
+ * Schema migrations, applied in order; PRAGMA user_version records how many have run.
+ * A migration returns the legacy files it imported, which are renamed once it commits.
+ */
+const MIGRATIONS: Array<(db: DatabaseSync, agentId: string) => string[] | void> = [
+  (db, agentId) => {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS memories (
+        id TEXT PRIMARY KEY,
+        type TEXT NOT NULL,
+        content TEXT NOT NULL,
+        metadata TEXT,
+        created_at INTEGER NOT NULL,
+        updated_at INTEGER NOT NULL
+      );
+    `);
+    db.exec(`CREATE INDEX IF NOT EXISTS idx_memories_type_updated ON memories(type, updated_at);`);
+    return importJsonStores(db, agentId);
+  },
+  (db) => {
+    // Lifecycle columns; importance used to live in metadata
+    db.exec(`
+      ALTER TABLE memories ADD COLUMN importance REAL NOT NULL DEFAULT ${DEFAULT_IMPORTANCE};
+      ALTER TABLE memories ADD COLUMN confidence REAL NOT NULL DEFAULT 1;
+      ALTER TABLE memories ADD COLUMN access_count INTEGER NOT NULL DEFAULT 0;
+      ALTER TABLE memories ADD COLUMN last_accessed_at INTEGER;
+      ALTER TABLE memories ADD COLUMN pinned INTEGER NOT NULL DEFAULT 0;
+      ALTER TABLE memories ADD COLUMN archived_at INTEGER;
+    `);
+    db.exec(`
+      UPDATE memories SET importance = json_extract(metadata, '$.importance')
+      WHERE json_type(metadata, '$.importance') IN ('real', 'integer')
+    `);
+  },
+];
+
+export const MEMORY_SCHEMA_VERSION = MIGRATIONS.length;
+
+/**
+ * Read a legacy JSON store, tolerating the trailing commas and truncated files left by interrupted writes
+ */
+function readJsonStore(path: string, type: MemoryType): Memory[] {
+  const content = readFileSync(path, "utf-8").trim();
+  if (!content) return [];
+
+  const cleaned = content.replace(/,(\s*[}\]])/g, "$1");
+  let memories: unknown;
+  try {
+    memories = (JSON.parse(cleaned) as { memories?: unknown }).memories;
+  } catch (parseError) {
+    console.warn(`[MemoryStore] JSON parse failed for ${path}, attempting recovery:`, parseError);
+    const match = cleaned.match(/"memories"\s*:\s*\[([\s\S]*?)\]/);
+    if (!match) return [];
+    try {
+      memories = JSON.parse(`[${match[1]}]`);
+    } catch {
+      console.error(`[MemoryStore] Recovery failed for ${path}, skipping it`);
+      return [];
+    }
+  }
+
+  if (!Array.isArray(memories)) return [];
+  return memories.filter((memory): memory is Memory =>
+    memory && typeof memory === "object" && memory.id && memory.content && memory.type === type);
+}
+
+/**
+ * One-time import of the per-type JSON stores. Returns the imported files, which the caller
+ * keeps as *.json.imported after the transaction commits (so a rollback leaves them in place).
+ */
+function importJsonStores(db: DatabaseSync, agentId: string): string[] {
+  const insert = db.prepare(`
+    INSERT OR IGNORE INTO memories (id, type, content, metadata, created_at, updated_at)
+    VALUES (?, ?, ?, ?, ?, ?)
+  `);
+
+  const imported: string[] = [];
+  for (const type of MEMORY_TYPES) {
+    const path = getAgentMemoryStorePath(agentId, type);
+    if (!existsSync(path)) continue;
+
+    const memories = readJsonStore(path, type);
+    for (const memory of memories) {
+      const now = Date.now();
+      insert.run(
+        memory.id,
+        type,
+        memory.content,
+        memory.metadata ? JSON.stringify(memory.metadata) : null,
+        memory.createdAt ?? now,
+        memory.updatedAt ?? memory.createdAt ?? now,
+      );
+    }
+    imported.push(path);
+    console.log(`[MemoryStore] Imported ${memories.length} ${type} memories from ${path}`);
+  }
+  return imported;
+}
+
+export class MemoryStoreDatabase {
+  readonly db: DatabaseSync;
+  private depth = 0;
+
+  constructor(readonly path: string, agentId: string) {
+    mkdirSync(dirname(path), { recursive: true });
+    this.db = new DatabaseSync(path);
+    this.db.exec(`PRAGMA busy_timeout = ${BUSY_TIMEOUT_MS}`);
+    this.db.exec("PRAGMA journal_mode = WAL");
+    this.migrate(agentId);
+  }
+
+  /**
+   * Run fn in one transaction. Nested calls join the outer transaction.
+   */
+  transaction<T>(fn: () => T): T {
+    if (this.depth > 0) {
+      this.depth++;
+      try {
+        return fn();
+      } finally {
+        this.depth--;
+      }
+    }
+
+    // IMMEDIATE takes the write lock up front, so read-modify-write batches from two processes serialize
+    this.db.exec("BEGIN IMMEDIATE");
+    this.depth = 1;
+    try {
+      const result = fn();
+      this.db.exec("COMMIT");
+      return result;
+    } catch (error) {
+      this.db.exec("ROLLBACK");
+      throw error;
+    } finally {
+      this.depth = 0;
+    }
+  }
+
+  close(): void {
+    this.db.close();
+  }
+
+  private schemaVersion(): number {
+    return (this.db.prepare("PRAGMA user_version").get() as { user_version: number }).user_version;
+  }
+
+  /**
+   * Apply pending migrations. The version is re-read under the write lock, so when the gateway and
+   * the CLI open the database at the same time only one of them migrates (and imports).
+   */
+  private migrate(agentId: string): void {
+    if (this.schemaVersion() >= MEMORY_SCHEMA_VERSION) return;
+
+    const imported = this.transaction(() => {
+      const version = this.schemaVersion();
+      if (version > MEMORY_SCHEMA_VERSION) {
+        throw new Error(`Memory store ${this.path} has schema version ${version}, newer than supported (${MEMORY_SCHEMA_VERSION})`);
+      }
+      const files: string[] = [];
+      for (let i = version; i < MEMORY_SCHEMA_VERSION; i++) {
+        files.push(...(MIGRATIONS[i](this.db, agentId) ?? []));
+      }
+      this.db.exec(`PRAGMA user_version = ${MEMORY_SCHEMA_VERSION}`);
+      return files;
+    });
+
+    for (const path of imported) {
+      renameSync(path, `${path}.imported`);
+    }
+  }
+}
+
+// One connection per agent, shared by all of its stores
+const DATABASES = new Map<string, MemoryStoreDatabase>();
+
+export function getMemoryStoreDatabase(agentId: string): MemoryStoreDatabase {
+  let database = DATABASES.get(agentId);
+  if (!database) {
+    database = new MemoryStoreDatabase(getAgentMemoryStoreDbPath(agentId), agentId);
+    DATABASES.set(agentId, database);
+  }
+  return database;
+}
@@ -4,7 +4,7 @@
  */
 
 import type { MemoryMetadata } from "./types.js";
-import type { MemoryClassifier, MemoryEvent } from "./memory-classifier.js";
+import type { ClassificationResult, MemoryClassifier, MemoryEvent } from "./memory-classifier.js";
 
 /**
  * Handle a new message event
@@ -13,8 +13,8 @@ export async function onNewMessage(
   classifier: MemoryClassifier,
   userMessage: string,
   metadata?: MemoryMetadata
-): Promise<void> {
-  await classifier.classifyAndSave({
+): Promise<ClassificationResult> {
+  return classifier.classifyAndSave({
     type: "message",
     content: userMessage,
     metadata,
@@ -28,8 +28,8 @@ export async function onAction(
   classifier: MemoryClassifier,
   action: string,
   metadata?: MemoryMetadata
-): Promise<void> {
-  await classifier.classifyAndSave({
+): Promise<ClassificationResult> {
+  return classifier.classifyAndSave({
     type: "action",
     content: action,
     metadata,
@@ -43,8 +43,8 @@ export async function onThought(
   classifier: MemoryClassifier,
   thought: string,
   metadata?: MemoryMetadata
-): Promise<void> {
-  await classifier.classifyAndSave({
+): Promise<ClassificationResult> {
+  return classifier.classifyAndSave({
     type: "thought",
     content: thought,
     metadata,
@@ -58,8 +58,8 @@ export async function onDecision(
   classifier: MemoryClassifier,
   decision: string,
   metadata?: MemoryMetadata
-): Promise<void> {
-  await classifier.classifyAndSave({
+): Promise<ClassificationResult> {
+  return classifier.classifyAndSave({
     type: "decision",
     content: decision,
     metadata,
@@ -73,8 +73,8 @@ export async function onExperience(
   classifier: MemoryClassifier,
   experience: string,
   metadata?: MemoryMetadata
-): Promise<void> {
-  await classifier.classifyAndSave({
+): Promise<ClassificationResult> {
+  return classifier.classifyAndSave({
     type: "experience",
     content: experience,
     metadata,
@@ -87,6 +87,6 @@ export async function onExperience(
 export async function onEvent(
   classifier: MemoryClassifier,
   event: MemoryEvent
-): Promise<void> {
-  await classifier.classifyAndSave(event);
+): Promise<ClassificationResult> {
+  return classifier.classifyAndSave(event);
 }
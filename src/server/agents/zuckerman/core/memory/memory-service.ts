@@ -1,19 +1,34 @@
 /**
  * Memory Service
- * Uses single MemoryStore class for all memory types, each stored in separate files
+ * Uses single MemoryStore class for all memory types, stored together in the agent's memory database
  */
 
 import { MemoryStore } from "./memory-store.js";
-import type {
-  Memory as MemoryEntry,
-  MemoryMetadata,
-  MemoryType,
-  MemoryRetrievalResult,
+import { MemoryClassifier, type MemoryClassifierOptions } from "./memory-classifier.js";
+import {
+  MEMORY_TYPES,
+  type Memory as MemoryEntry,
+  type MemoryMetadata,
+  type MemoryType,
+  type MemoryRetrievalResult,
 } from "./types.js";
 
 import type { ResolvedMemorySearchConfig } from "./config.js";
 import { initializeDatabase } from "./retrieval/db.js";
 
+// Stores are shared per agent so every MemorySystem instance sees the same memories
+const STORE_CACHE = new Map<string, MemoryStore>();
+
+function getStore(agentId: string, type: MemoryType): MemoryStore {
+  const key = `${agentId}:${type}`;
+  let store = STORE_CACHE.get(key);
+  if (!store) {
+    store = new MemoryStore(agentId, type);
+    STORE_CACHE.set(key, store);
+  }
+  return store;
+}
+
 export class MemorySystem {
   private stores: Map<MemoryType, MemoryStore>;
 
@@ -25,14 +40,14 @@ export class MemorySystem {
     this.homedir = homedir;
     this.agentId = agentId || "zuckerman";
 
-    this.stores = new Map([
-      ["semantic", new MemoryStore(this.agentId, "semantic")],
-      ["episodic", new MemoryStore(this.agentId, "episodic")],
-      ["procedural", new MemoryStore(this.agentId, "procedural")],
-      ["prospective", new MemoryStore(this.agentId, "prospective")],
-      ["emotional", new MemoryStore(this.agentId, "emotional")],
-      ["working", new MemoryStore(this.agentId, "working")],
-    ]);
+    this.stores = new Map(MEMORY_TYPES.map(type => [type, getStore(this.agentId!, type)]));
+  }
+
+  /**
+   * Create a classifier that writes classified events into this agent's stores
+   */
+  createClassifier(options?: MemoryClassifierOptions): MemoryClassifier {
+    return new MemoryClassifier(this.stores, { agentId: this.agentId, ...options });
   }
 
   /**
@@ -102,34 +117,27 @@ export class MemorySystem {
   }
 
   /**
-   * Replace all memories of a type with new contents
+   * Replace all memories of a type with new contents (one transaction)
    */
   setAll(type: MemoryType, contents: string[], metadata?: MemoryMetadata): void {
     const store = this.stores.get(type);
     if (!store) {
       throw new Error(`Memory store not found for type: ${type}`);
     }
+    store.replaceAll(contents.map(content => (metadata ? { content, metadata } : { content })));
+  }
 
-    // Clear all existing memories
-    const existing = store.findAll();
-    for (const memory of existing) {
-      store.remove(memory.id);
-    }
-    
-    // Insert new memories
-    for (const content of contents) {
-      if (metadata) {
-        store.insert({ content, metadata });
-      } else {
-        store.insert({ content });
-      }
-    }
+  /**
+   * Run several memory operations as one transaction: all of them are saved, or none
+   */
+  batch<T>(fn: () => T): T {
+    return this.stores.get("working")!.batch(fn);
   }
 
   /**
    * Update a memory
    */
-  update(type: MemoryType, id: string, updates: Partial<{ content: string; metadata?: MemoryMetadata }>): boolean {
+  update(type: MemoryType, id: string, updates: Partial<Omit<MemoryEntry, "id" | "type" | "createdAt" | "updatedAt">>): boolean {
     const store = this.stores.get(type);
     if (!store) return false;
     return store.update(id, updates);
@@ -144,6 +152,47 @@ export class MemorySystem {
     return store.remove(id);
   }
 
+  /**
+   * Find a memory by ID when its type is not known
+   */
+  findById(id: string, options?: { includeArchived?: boolean }): MemoryEntry | null {
+    for (const store of this.stores.values()) {
+      const memory = store.find(id);
+      if (memory && (options?.includeArchived || !memory.archivedAt)) return memory;
+    }
+    return null;
+  }
+
+  /**
+   * Reinforce memories that were just recalled (one transaction)
+   */
+  touch(memories: Array<Pick<MemoryEntry, "id" | "type">>): void {
+    if (memories.length === 0) return;
+    this.batch(() => {
+      for (const memory of memories) {
+        this.stores.get(memory.type)?.touch([memory.id]);
+      }
+    });
+  }
+
+  /**
+   * Pin a memory so it never decays or gets archived, or unpin it
+   */
+  pin(type: MemoryType, id: string, pinned: boolean = true): boolean {
+    const store = this.stores.get(type);
+    if (!store) return false;
+    return store.setPinned(id, pinned);
+  }
+
+  /**
+   * Archive memories: they are kept but no longer recalled or listed
+   */
+  archive(type: MemoryType, ids: string[]): number {
+    const store = this.stores.get(type);
+    if (!store) return 0;
+    return store.archive(ids);
+  }
+
   /**
    * Get memories - flexible function that can return different formats
    */
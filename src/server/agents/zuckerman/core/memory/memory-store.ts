@@ -1,64 +1,130 @@
 /**
  * Unified Memory Store
- * Single store class that saves each memory type to its own file
+ * Single store class for all memory types, backed by the agent's memory database.
+ * Every call reads and writes the database, so other processes' changes are seen immediately.
  */
 
 import { randomUUID } from "node:crypto";
-import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
-import { dirname } from "node:path";
-import { getAgentMemoryStorePath } from "@server/world/homedir/paths.js";
-import type { Memory, MemoryType } from "./types.js";
+import { DEFAULT_IMPORTANCE, getMemoryStoreDatabase, type MemoryStoreDatabase } from "./memory-database.js";
+import type { Memory, MemoryMetadata, MemoryType } from "./types.js";
+
+export type NewMemory = Omit<Memory, "id" | "type" | "createdAt" | "updatedAt" | "lastAccessedAt" | "archivedAt">;
+
+type MemoryRow = {
+  id: string;
+  type: MemoryType;
+  content: string;
+  metadata: string | null;
+  created_at: number;
+  updated_at: number;
+  importance: number;
+  confidence: number;
+  access_count: number;
+  last_accessed_at: number | null;
+  pinned: number;
+  archived_at: number | null;
+};
+
+function clamp01(value: number): number {
+  return Math.min(1, Math.max(0, value));
+}
+
+/**
+ * Importance given explicitly, else the classifier's metadata.importance, else the default
+ */
+function importanceOf(memory: Pick<Memory, "importance" | "metadata">): number {
+  const importance = memory.importance ?? memory.metadata?.importance;
+  return typeof importance === "number" ? clamp01(importance) : DEFAULT_IMPORTANCE;
+}
 
-export interface MemoryStorage {
-  memories: Memory[];
+function toMemory(row: MemoryRow): Memory {
+  return {
+    id: row.id,
+    type: row.type,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    content: row.content,
+    ...(row.metadata && { metadata: JSON.parse(row.metadata) as MemoryMetadata }),
+    importance: row.importance,
+    confidence: row.confidence,
+    accessCount: row.access_count,
+    ...(row.last_accessed_at !== null && { lastAccessedAt: row.last_accessed_at }),
+    pinned: row.pinned === 1,
+    ...(row.archived_at !== null && { archivedAt: row.archived_at }),
+  };
 }
 
 export class MemoryStore {
-  private memories = new Map<string, Memory>();
-  private storagePath: string;
+  private database: MemoryStoreDatabase;
   private memoryType: MemoryType;
-  private agentId: string;
 
-  constructor(agentId: string, memoryType: MemoryType) {
-    this.agentId = agentId;
+  constructor(agentId: string, memoryType: MemoryType, database: MemoryStoreDatabase = getMemoryStoreDatabase(agentId)) {
     this.memoryType = memoryType;
-    this.storagePath = getAgentMemoryStorePath(agentId, memoryType);
-    this.load();
+    this.database = database;
   }
 
   /**
    * Insert a new memory
    */
-  insert(memory: Omit<Memory, "id" | "type" | "createdAt" | "updatedAt">): string {
-    const id = randomUUID();
-    const now = Date.now();
-
-    const mem: Memory = {
-      id,
-      type: this.memoryType,
-      createdAt: now,
-      updatedAt: now,
-      content: memory.content,
-      ...(memory.metadata && { metadata: memory.metadata }),
-    };
-
-    this.memories.set(id, mem);
-    this.save();
+  insert(memory: NewMemory): string {
+    const [id] = this.insertMany([memory]);
     return id;
   }
 
+  /**
+   * Insert several memories in one transaction
+   */
+  insertMany(memories: NewMemory[]): string[] {
+    const insert = this.database.db.prepare(`
+      INSERT INTO memories (id, type, content, metadata, created_at, updated_at, importance, confidence, access_count, pinned)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    return this.database.transaction(() => memories.map((memory) => {
+      const id = randomUUID();
+      const now = Date.now();
+      insert.run(
+        id,
+        this.memoryType,
+        memory.content,
+        memory.metadata ? JSON.stringify(memory.metadata) : null,
+        now,
+        now,
+        importanceOf(memory),
+        clamp01(memory.confidence ?? 1),
+        memory.accessCount ?? 0,
+        memory.pinned ? 1 : 0,
+      );
+      return id;
+    }));
+  }
+
+  /**
+   * Replace all memories of this type in one transaction
+   */
+  replaceAll(memories: NewMemory[]): string[] {
+    return this.database.transaction(() => {
+      this.database.db.prepare("DELETE FROM memories WHERE type = ?").run(this.memoryType);
+      return this.insertMany(memories);
+    });
+  }
+
   /**
    * Find a memory by ID
    */
   find(id: string): Memory | null {
-    return this.memories.get(id) ?? null;
+    const row = this.database.db.prepare("SELECT * FROM memories WHERE id = ? AND type = ?").get(id, this.memoryType) as
+      MemoryRow | undefined;
+    return row ? toMemory(row) : null;
   }
 
   /**
-   * Find all memories
+   * Find all memories; archived ones only when asked for
    */
-  findAll(): Memory[] {
-    return Array.from(this.memories.values());
+  findAll(options?: { includeArchived?: boolean }): Memory[] {
+    const archived = options?.includeArchived ? "" : " AND archived_at IS NULL";
+    const rows = this.database.db.prepare(`SELECT * FROM memories WHERE type = ?${archived} ORDER BY created_at, rowid`)
+      .all(this.memoryType) as MemoryRow[];
+    return rows.map(toMemory);
   }
 
   /**
@@ -68,122 +134,109 @@ export class MemoryStore {
     types?: MemoryType[];
     limit?: number;
   }): Memory[] {
-    let results = Array.from(this.memories.values());
-
-    if (options?.types && options.types.length > 0) {
-      results = results.filter(m => options.types!.includes(m.type));
-    }
-
-    results.sort((a, b) => b.updatedAt - a.updatedAt);
-
-    if (options?.limit) {
-      results = results.slice(0, options.limit);
+    if (options?.types && options.types.length > 0 && !options.types.includes(this.memoryType)) {
+      return [];
     }
 
-    return results;
+    const rows = this.database.db.prepare(
+      "SELECT * FROM memories WHERE type = ? AND archived_at IS NULL ORDER BY updated_at DESC LIMIT ?",
+    ).all(this.memoryType, options?.limit || -1) as MemoryRow[];
+    return rows.map(toMemory);
   }
 
   /**
    * Update a memory by ID
    */
   update(id: string, updates: Partial<Omit<Memory, "id" | "createdAt">>): boolean {
-    const memory = this.memories.get(id);
-    if (!memory) {
-      return false;
-    }
+    return this.database.transaction(() => {
+      const memory = this.find(id);
+      if (!memory) {
+        return false;
+      }
 
-    const updated: Memory = {
-      ...memory,
-      ...updates,
-      updatedAt: Date.now(),
-    };
+      const updated: Memory = {
+        ...memory,
+        ...updates,
+        updatedAt: Date.now(),
+      };
 
-    this.memories.set(id, updated);
-    this.save();
-    return true;
+      this.database.db.prepare(`
+        UPDATE memories SET type = ?, content = ?, metadata = ?, updated_at = ?,
+          importance = ?, confidence = ?, access_count = ?, last_accessed_at = ?, pinned = ?, archived_at = ?
+        WHERE id = ?
+      `).run(
+        updated.type,
+        updated.content,
+        updated.metadata ? JSON.stringify(updated.metadata) : null,
+        updated.updatedAt,
+        importanceOf(updated),
+        clamp01(updated.confidence ?? 1),
+        updated.accessCount ?? 0,
+        updated.lastAccessedAt ?? null,
+        updated.pinned ? 1 : 0,
+        updated.archivedAt ?? null,
+        id,
+      );
+      return true;
+    });
   }
 
   /**
-   * Remove a memory by ID
+   * Record that memories were recalled; reinforcement slows their decay. Leaves updatedAt alone.
    */
-  remove(id: string): boolean {
-    const deleted = this.memories.delete(id);
-    if (deleted) {
-      this.save();
-    }
-    return deleted;
+  touch(ids: string[]): number {
+    const touch = this.database.db.prepare(`
+      UPDATE memories SET access_count = access_count + 1, last_accessed_at = ? WHERE id = ? AND type = ?
+    `);
+    return this.database.transaction(() => {
+      const now = Date.now();
+      return ids.reduce((touched, id) => touched + Number(touch.run(now, id, this.memoryType).changes), 0);
+    });
   }
 
   /**
-   * Load memories from file
+   * Protect a memory from decay and archiving, or release it. Pinning also restores an archived memory.
    */
-  private load(): void {
-    if (!existsSync(this.storagePath)) {
-      const dir = dirname(this.storagePath);
-      if (!existsSync(dir)) {
-        mkdirSync(dir, { recursive: true });
-      }
-      return;
-    }
-
-    try {
-      const content = readFileSync(this.storagePath, "utf-8");
-      if (!content.trim()) {
-        return;
-      }
+  setPinned(id: string, pinned: boolean): boolean {
+    const result = this.database.db.prepare(`
+      UPDATE memories SET pinned = ?, archived_at = CASE WHEN ? THEN NULL ELSE archived_at END WHERE id = ? AND type = ?
+    `).run(pinned ? 1 : 0, pinned ? 1 : 0, id, this.memoryType);
+    return Number(result.changes) > 0;
+  }
 
-      let cleanedContent = content.trim();
-      cleanedContent = cleanedContent.replace(/,(\s*[}\]])/g, "$1");
-      
-      let data: MemoryStorage;
-      try {
-        data = JSON.parse(cleanedContent);
-      } catch (parseError) {
-        console.warn(`[MemoryStore] JSON parse failed, attempting recovery:`, parseError);
-        const memoriesMatch = cleanedContent.match(/"memories"\s*:\s*\[([\s\S]*?)\]/);
-        if (memoriesMatch) {
-          try {
-            const memoriesArray = JSON.parse(`[${memoriesMatch[1]}]`);
-            data = { memories: memoriesArray };
-          } catch {
-            console.error(`[MemoryStore] Recovery failed, starting with empty store`);
-            return;
-          }
-        } else {
-          console.error(`[MemoryStore] Invalid JSON structure, starting with empty store`);
-          return;
-        }
-      }
-      
-      if (Array.isArray(data.memories)) {
-        for (const memory of data.memories) {
-          if (memory && typeof memory === "object" && memory.id && memory.content && memory.type === this.memoryType) {
-            this.memories.set(memory.id, memory);
-          }
-        }
-      }
-    } catch (error) {
-      console.warn(`[MemoryStore] Failed to load memories from ${this.storagePath}:`, error);
-    }
+  /**
+   * Archive memories so they stop being recalled; pinned memories are skipped
+   */
+  archive(ids: string[]): number {
+    const archive = this.database.db.prepare(`
+      UPDATE memories SET archived_at = ? WHERE id = ? AND type = ? AND pinned = 0 AND archived_at IS NULL
+    `);
+    return this.database.transaction(() => {
+      const now = Date.now();
+      return ids.reduce((archived, id) => archived + Number(archive.run(now, id, this.memoryType).changes), 0);
+    });
   }
 
   /**
-   * Save memories to file
+   * Remove a memory by ID
    */
-  private save(): void {
-    try {
-      const dir = dirname(this.storagePath);
-      if (!existsSync(dir)) {
-        mkdirSync(dir, { recursive: true });
-      }
+  remove(id: string): boolean {
+    return this.removeMany([id]) > 0;
+  }
 
-      const data: MemoryStorage = {
-        memories: Array.from(this.memories.values()),
-      };
+  /**
+   * Remove several memories in one transaction, returning how many existed
+   */
+  removeMany(ids: string[]): number {
+    const remove = this.database.db.prepare("DELETE FROM memories WHERE id = ? AND type = ?");
+    return this.database.transaction(() =>
+      ids.reduce((removed, id) => removed + Number(remove.run(id, this.memoryType).changes), 0));
+  }
 
-      writeFileSync(this.storagePath, JSON.stringify(data, null, 2), "utf-8");
-    } catch (error) {
-      console.error(`[MemoryStore] Failed to save memories to ${this.storagePath}:`, error);
-    }
+  /**
+   * Run several store operations (on any memory type of this agent) as one transaction
+   */
+  batch<T>(fn: () => T): T {
+    return this.database.transaction(fn);
   }
 }
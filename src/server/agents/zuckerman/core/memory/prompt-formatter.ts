@@ -1,4 +1,5 @@
 import type { Memory, MemoryRetrievalResult } from "./types.js";
+import type { RecalledMemory } from "./recall.js";
 
 /**
  * Format a single memory into text representation for prompts
@@ -18,3 +19,15 @@ export function formatMemoriesForPrompt(memoryResult: MemoryRetrievalResult): st
   const memoryParts = memoryResult.memories.map(formatMemory);
   return `\n\n## Relevant Memories\n${memoryParts.join("\n")}`;
 }
+
+/**
+ * Format recalled long-term memories, with provenance, for LLM prompts
+ */
+export function formatRecalledMemoriesForPrompt(memories: RecalledMemory[]): string {
+  if (memories.length === 0) {
+    return "";
+  }
+
+  const memoryParts = memories.map(mem => `- [${mem.type}] ${mem.content} (source: ${mem.provenance})`);
+  return `\n\n## Relevant Long-Term Memories\n${memoryParts.join("\n")}`;
+}
@@ -0,0 +1,100 @@
+/**
+ * Prospective Memory
+ * Due conditions for reminders and intentions. Time-due memories are fired by linked calendar
+ * events (calendar/reminders.ts); conversation-due memories are surfaced into working memory
+ * the next time the agent talks with the person they name.
+ */
+
+import type { MemorySystem } from "./memory-service.js";
+import type { Memory, ProspectiveDue } from "./types.js";
+
+const RECURRENCES = ["daily", "weekly", "monthly", "yearly"] as const;
+
+/**
+ * Due condition as the classifier returns it; empty strings mean "not given"
+ */
+export interface ClassifiedDue {
+  dueAt: string;
+  recurrence: "none" | (typeof RECURRENCES)[number];
+  dueWith: string;
+}
+
+/**
+ * Turn the classifier's due fields into a due condition. A parseable time wins over a person.
+ */
+export function parseClassifiedDue(raw: ClassifiedDue | undefined): ProspectiveDue | undefined {
+  if (!raw) return undefined;
+
+  const at = raw.dueAt.trim() ? Date.parse(raw.dueAt) : NaN;
+  if (!Number.isNaN(at)) {
+    const recurrence = RECURRENCES.find(type => type === raw.recurrence);
+    return recurrence ? { kind: "time", at, recurrence } : { kind: "time", at };
+  }
+
+  const person = raw.dueWith.trim();
+  return person ? { kind: "conversation", with: person } : undefined;
+}
+
+/**
+ * Prospective memories that are still waiting for their due condition
+ */
+export function getPendingProspectiveMemories(memorySystem: MemorySystem): Memory[] {
+  return memorySystem.findAll("prospective")
+    .filter(memory => memory.metadata?.due && memory.metadata.status !== "done");
+}
+
+/**
+ * Whether a conversation-due memory names this conversation. Names are the conversation's
+ * label, display name, peer and subject; matching ignores case and leading "@".
+ */
+export function matchesConversation(due: ProspectiveDue, names: string[]): boolean {
+  if (due.kind !== "conversation") return false;
+  const normalize = (value: string) => value.trim().toLowerCase().replace(/^@/, "");
+  const target = normalize(due.with);
+  if (!target) return false;
+  return names.some(name => {
+    const normalized = normalize(name);
+    return normalized === target || normalized.split(/[\s,:/]+/).includes(target);
+  });
+}
+
+/**
+ * Conversation-due memories for a conversation with these names. They are marked done,
+ * so each reminder surfaces once.
+ */
+export function takeConversationReminders(memorySystem: MemorySystem, names: string[]): Memory[] {
+  const due = getPendingProspectiveMemories(memorySystem)
+    .filter(memory => matchesConversation(memory.metadata!.due!, names));
+  if (due.length === 0) return [];
+
+  const firedAt = Date.now();
+  memorySystem.batch(() => {
+    for (const memory of due) {
+      memorySystem.update("prospective", memory.id, {
+        metadata: { ...memory.metadata, status: "done", firedAt },
+      });
+    }
+  });
+  return due;
+}
+
+/**
+ * Record that a linked calendar event fired. Repeating reminders stay pending.
+ */
+export function markProspectiveMemoryFired(memorySystem: MemorySystem, id: string): boolean {
+  const memory = memorySystem.find("prospective", id);
+  if (!memory) return false;
+
+  const due = memory.metadata?.due;
+  const repeating = due?.kind === "time" && due.recurrence !== undefined;
+  return memorySystem.update("prospective", id, {
+    metadata: { ...memory.metadata, firedAt: Date.now(), ...(!repeating && { status: "done" as const }) },
+  });
+}
+
+/**
+ * Working memory entry for a reminder that came due
+ */
+export function formatReminderEntry(memory: Memory): string {
+  return `reminder due (prospective memory ${memory.id}): ${memory.content}`;
+}
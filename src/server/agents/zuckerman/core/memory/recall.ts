@@ -0,0 +1,182 @@
+/**
+ * Memory Recall
+ * Retrieves long-term memories relevant to the current working memory, for injection into prompts
+ */
+
+import { memoryWeight, type MemoryLifecycleOptions } from "./lifecycle.js";
+import type { MemorySystem } from "./memory-service.js";
+import type { MemorySearchManager } from "./retrieval/search.js";
+import type { Memory, MemoryType } from "./types.js";
+
+export type RecallSource = "store" | "index";
+
+export interface RecalledMemory {
+  /**
+   * Memory ID for store memories, "path:startLine-endLine" for indexed chunks
+   */
+  id: string;
+  type: MemoryType | "indexed";
+  content: string;
+  score: number;
+  source: RecallSource;
+  /**
+   * Human-readable origin of the memory (store + creation time, or file and lines)
+   */
+  provenance: string;
+}
+
+export interface RecallOptions {
+  maxTokens: number;
+  maxResults: number;
+  minScore: number;
+}
+
+export interface MemoryRecallConfig {
+  enabled?: boolean;
+  maxTokens?: number;
+  maxResults?: number;
+  minScore?: number;
+}
+
+const LONG_TERM_TYPES: MemoryType[] = ["semantic", "episodic", "procedural", "prospective", "emotional"];
+const DEFAULT_MAX_TOKENS = 800;
+const DEFAULT_MAX_RESULTS = 8;
+const DEFAULT_MIN_SCORE = 0.15;
+const MAX_INDEX_QUERY_TERMS = 8;
+
+const STOPWORDS = new Set([
+  "the", "and", "for", "are", "but", "not", "you", "your", "with", "this", "that", "from",
+  "have", "has", "was", "were", "will", "what", "when", "where", "which", "who", "how",
+  "about", "into", "than", "then", "them", "they", "their", "there", "here", "can", "just",
+  "message", "user", "conversationid", "responded", "response",
+]);
+
+export function resolveRecallOptions(config?: MemoryRecallConfig): RecallOptions | null {
+  if (config?.enabled === false) return null;
+  return {
+    maxTokens: config?.maxTokens ?? DEFAULT_MAX_TOKENS,
+    maxResults: config?.maxResults ?? DEFAULT_MAX_RESULTS,
+    minScore: config?.minScore ?? DEFAULT_MIN_SCORE,
+  };
+}
+
+function extractTerms(text: string): Set<string> {
+  const terms = new Set<string>();
+  for (const word of text.toLowerCase().split(/[^\p{L}\p{N}]+/u)) {
+    if (word.length >= 3 && !STOPWORDS.has(word)) {
+      terms.add(word);
+    }
+  }
+  return terms;
+}
+
+/**
+ * Cosine similarity between the term sets of the query and a memory
+ */
+function termScore(queryTerms: Set<string>, content: string): number {
+  const memoryTerms = extractTerms(content);
+  if (queryTerms.size === 0 || memoryTerms.size === 0) return 0;
+  let matches = 0;
+  for (const term of memoryTerms) {
+    if (queryTerms.has(term)) matches++;
+  }
+  return matches / Math.sqrt(queryTerms.size * memoryTerms.size);
+}
+
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+function storeProvenance(memory: Memory): string {
+  const parts = [`${memory.type} memory`, new Date(memory.createdAt).toISOString()];
+  if (memory.metadata?.conversationId) parts.push(`conversation ${memory.metadata.conversationId}`);
+  if (typeof memory.metadata?.source === "string") parts.push(`via ${memory.metadata.source}`);
+  return parts.join(", ");
+}
+
+/**
+ * Recall long-term memories relevant to a query.
+ * Store memories are scored by term overlap; indexed chunks come from the
+ * search manager when memory search is configured. Results are merged by score
+ * and cut to fit the token budget.
+ * With lifecycle options, a store memory's relevance is weighted by its decay (see lifecycle.ts)
+ * for ranking; minScore still applies to the unweighted relevance.
+ * With a conversationId, memories and indexed chunks from other conversations are left out,
+ * so one conversation's context is never recalled into another's prompt. Memories and chunks
+ * that belong to no conversation (e.g. memory files) are shared by all.
+ */
+export async function recallMemories(params: {
+  query: string;
+  memorySystem: MemorySystem;
+  searchManager?: MemorySearchManager | null;
+  options: RecallOptions;
+  conversationId?: string;
+  lifecycle?: MemoryLifecycleOptions | null;
+}): Promise<RecalledMemory[]> {
+  const { query, memorySystem, searchManager, options, conversationId, lifecycle } = params;
+  const queryTerms = extractTerms(query);
+  if (queryTerms.size === 0) return [];
+
+  const candidates: RecalledMemory[] = [];
+  const now = Date.now();
+
+  const memories = memorySystem.getMemories({ types: LONG_TERM_TYPES, format: "full" }) as Memory[];
+  for (const memory of memories) {
+    const memoryConversationId = memory.metadata?.conversationId;
+    if (conversationId !== undefined && memoryConversationId && memoryConversationId !== conversationId) {
+      continue;
+    }
+    const relevance = termScore(queryTerms, memory.content);
+    if (relevance >= options.minScore) {
+      candidates.push({
+        id: memory.id,
+        type: memory.type,
+        content: memory.content,
+        score: lifecycle ? relevance * memoryWeight(memory, lifecycle, now) : relevance,
+        source: "store",
+        provenance: storeProvenance(memory),
+      });
+    }
+  }
+
+  if (searchManager) {
+    try {
+      const indexQuery = Array.from(queryTerms).slice(-MAX_INDEX_QUERY_TERMS).join(" ");
+      const results = await searchManager.search(indexQuery, {
+        maxResults: options.maxResults,
+        minScore: options.minScore,
+        ...(conversationId !== undefined && { conversationId, includeShared: true }),
+      });
+      for (const result of results) {
+        candidates.push({
+          id: `${result.path}:${result.startLine}-${result.endLine}`,
+          type: "indexed",
+          content: result.snippet,
+          score: result.score,
+          source: "index",
+          provenance: `${result.source} ${result.path}#L${result.startLine}-${result.endLine}`,
+        });
+      }
+    } catch (error) {
+      console.warn(`[MemoryRecall] Index search failed:`, error);
+    }
+  }
+
+  candidates.sort((a, b) => b.score - a.score);
+
+  const recalled: RecalledMemory[] = [];
+  const seen = new Set<string>();
+  let tokens = 0;
+  for (const candidate of candidates) {
+    if (recalled.length >= options.maxResults) break;
+    const key = candidate.content.trim().toLowerCase();
+    if (seen.has(key)) continue;
+    const cost = estimateTokens(candidate.content) + estimateTokens(candidate.provenance);
+    if (tokens + cost > options.maxTokens) continue;
+    seen.add(key);
+    tokens += cost;
+    recalled.push(candidate);
+  }
+
+  return recalled;
+}
@@ -7,18 +7,17 @@ import { existsSync, mkdirSync } from "node:fs";
 import { dirname } from "node:path";
 import type { ResolvedMemorySearchConfig } from "../config.js";
 import { ensureMemoryIndexSchema } from "./encoding/schema.js";
+import { loadVectorExtension, ScanVectorIndex, SqliteVecIndex, type VectorIndex } from "./vector-index.js";
 
 export type InitializeDatabaseResult = {
   db: DatabaseSync;
   ftsAvailable: boolean;
   ftsError?: string;
+  vectorIndex: VectorIndex;
+  vectorError?: string;
 };
 
-type DatabaseRegistryEntry = {
-  db: DatabaseSync;
-  ftsAvailable: boolean;
-  ftsError?: string;
-};
+type DatabaseRegistryEntry = InitializeDatabaseResult;
 
 /**
  * Shared registry for database instances per agent/workspace combination
@@ -41,11 +40,7 @@ export function getDatabase(
     return null;
   }
 
-  return {
-    db: existing.db,
-    ftsAvailable: existing.ftsAvailable,
-    ...(existing.ftsError ? { ftsError: existing.ftsError } : {}),
-  };
+  return { ...existing };
 }
 
 /**
@@ -68,7 +63,9 @@ export function initializeDatabase(
       mkdirSync(dbDir, { recursive: true });
     }
 
-    const db = new DatabaseSync(dbPath);
+    // Extensions are only needed for the sqlite-vec index
+    const vectorEnabled = config.store.vector.enabled;
+    const db = new DatabaseSync(dbPath, { allowExtension: vectorEnabled });
     
     // Enable FTS5 if available
     const ftsEnabled = config.store.vector.enabled;
@@ -83,20 +80,40 @@ export function initializeDatabase(
       console.warn(`FTS5 not available: ${ftsError || "unknown error"}, falling back to vector-only search`);
     }
 
+    // Load sqlite-vec if available, otherwise vector search scans the chunks table
+    let vectorIndex: VectorIndex = new ScanVectorIndex(db);
+    let vectorError: string | undefined;
+    if (vectorEnabled) {
+      const extension = loadVectorExtension(db, config.store.vector.extensionPath);
+      if (extension.loaded) {
+        const vecIndex = new SqliteVecIndex(db);
+        const backfilled = vecIndex.backfill();
+        if (backfilled > 0) {
+          console.log(`[Memory] Indexed ${backfilled} chunk vectors in sqlite-vec`);
+        }
+        vectorIndex = vecIndex;
+      } else {
+        vectorError = extension.error;
+        console.warn(`[Memory] sqlite-vec not available: ${vectorError}, falling back to brute-force vector search`);
+      }
+    }
+
     // Verify database is working by running a simple query
     db.prepare("SELECT 1").get();
     
-    console.log(`[Memory] Database initialized at ${dbPath}${ftsEnabled && ftsAvailable ? " (FTS5 enabled)" : ""}`);
+    const features = [ftsEnabled && ftsAvailable && "FTS5", vectorIndex.kind === "sqlite-vec" && "sqlite-vec"].filter(Boolean);
+    console.log(`[Memory] Database initialized at ${dbPath}${features.length > 0 ? ` (${features.join(", ")} enabled)` : ""}`);
     
-    const result = { db, ftsAvailable, ...(ftsError ? { ftsError } : {}) };
+    const result: InitializeDatabaseResult = {
+      db,
+      ftsAvailable,
+      ...(ftsError ? { ftsError } : {}),
+      vectorIndex,
+      ...(vectorError ? { vectorError } : {}),
+    };
     
     // Register the database for reuse
-    const registryKey = `${agentId}:${workspaceDir}`;
-    DATABASE_REGISTRY.set(registryKey, {
-      db: result.db,
-      ftsAvailable: result.ftsAvailable,
-      ...(result.ftsError ? { ftsError: result.ftsError } : {}),
-    });
+    DATABASE_REGISTRY.set(`${agentId}:${workspaceDir}`, result);
     
     return result;
   } catch (error) {
@@ -11,7 +11,7 @@ export function parseEmbedding(raw: string): number[] {
   }
 }
 
-export function cosineSimilarity(a: number[], b: number[]): number {
+export function cosineSimilarity(a: ArrayLike<number>, b: ArrayLike<number>): number {
   if (a.length === 0 || b.length === 0) return 0;
   const len = Math.min(a.length, b.length);
   let dot = 0;
@@ -27,3 +27,17 @@ export function cosineSimilarity(a: number[], b: number[]): number {
   if (normA === 0 || normB === 0) return 0;
   return dot / (Math.sqrt(normA) * Math.sqrt(normB));
 }
+
+/**
+ * Pack an embedding as little-endian float32, the layout sqlite-vec reads
+ */
+export function packEmbedding(embedding: ArrayLike<number>): Uint8Array {
+  const vector = embedding instanceof Float32Array ? embedding : Float32Array.from(embedding);
+  return new Uint8Array(vector.buffer, vector.byteOffset, vector.byteLength);
+}
+
+export function unpackEmbedding(blob: Uint8Array | null | undefined): Float32Array {
+  if (!blob || blob.byteLength === 0) return new Float32Array(0);
+  // Copy so the floats are aligned regardless of where SQLite's buffer starts
+  return new Float32Array(blob.buffer.slice(blob.byteOffset, blob.byteOffset + blob.byteLength));
+}
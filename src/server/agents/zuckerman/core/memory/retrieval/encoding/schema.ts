@@ -1,4 +1,23 @@
 import type { DatabaseSync } from "node:sqlite";
+import { packEmbedding, parseEmbedding } from "./embeddings.js";
+
+// seq is a stable integer key for the vector index; embedding is packed float32 (see packEmbedding)
+const CHUNKS_COLUMNS = `
+  seq INTEGER PRIMARY KEY,
+  id TEXT NOT NULL UNIQUE,
+  path TEXT NOT NULL,
+  source TEXT NOT NULL DEFAULT 'memory',
+  conversation_id TEXT,
+  start_line INTEGER NOT NULL,
+  end_line INTEGER NOT NULL,
+  hash TEXT NOT NULL,
+  model TEXT NOT NULL,
+  text TEXT NOT NULL,
+  embedding BLOB,
+  dims INTEGER NOT NULL DEFAULT 0,
+  updated_at INTEGER NOT NULL
+`;
+const MIGRATION_BATCH = 1000;
 
 export function ensureMemoryIndexSchema(params: {
   db: DatabaseSync;
@@ -21,20 +40,7 @@ export function ensureMemoryIndexSchema(params: {
       size INTEGER NOT NULL
     );
   `);
-  params.db.exec(`
-    CREATE TABLE IF NOT EXISTS chunks (
-      id TEXT PRIMARY KEY,
-      path TEXT NOT NULL,
-      source TEXT NOT NULL DEFAULT 'memory',
-      start_line INTEGER NOT NULL,
-      end_line INTEGER NOT NULL,
-      hash TEXT NOT NULL,
-      model TEXT NOT NULL,
-      text TEXT NOT NULL,
-      embedding TEXT NOT NULL,
-      updated_at INTEGER NOT NULL
-    );
-  `);
+  params.db.exec(`CREATE TABLE IF NOT EXISTS chunks (${CHUNKS_COLUMNS});`);
   params.db.exec(`
     CREATE TABLE IF NOT EXISTS ${params.embeddingCacheTable} (
       provider TEXT NOT NULL,
@@ -76,8 +82,11 @@ export function ensureMemoryIndexSchema(params: {
 
   ensureColumn(params.db, "files", "source", "TEXT NOT NULL DEFAULT 'memory'");
   ensureColumn(params.db, "chunks", "source", "TEXT NOT NULL DEFAULT 'memory'");
+  migrateChunkEmbeddings(params.db);
   params.db.exec(`CREATE INDEX IF NOT EXISTS idx_chunks_path ON chunks(path);`);
   params.db.exec(`CREATE INDEX IF NOT EXISTS idx_chunks_source ON chunks(source);`);
+  params.db.exec(`CREATE INDEX IF NOT EXISTS idx_chunks_conversation ON chunks(conversation_id);`);
+  params.db.exec(`CREATE INDEX IF NOT EXISTS idx_chunks_hash ON chunks(hash);`);
 
   return { ftsAvailable, ...(ftsError ? { ftsError } : {}) };
 }
@@ -92,3 +101,74 @@ function ensureColumn(
   if (rows.some((row) => row.name === column)) return;
   db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
 }
+
+/**
+ * Rebuild a chunks table from before binary embeddings: adds seq, conversation_id and dims,
+ * and packs the JSON-encoded embeddings. Runs in one transaction.
+ */
+function migrateChunkEmbeddings(db: DatabaseSync): void {
+  const columns = db.prepare("PRAGMA table_info(chunks)").all() as Array<{ name: string }>;
+  if (columns.some((column) => column.name === "seq")) return;
+
+  const started = Date.now();
+  db.exec("BEGIN");
+  try {
+    db.exec(`CREATE TABLE chunks_migrated (${CHUNKS_COLUMNS});`);
+    const insert = db.prepare(`
+      INSERT INTO chunks_migrated (id, path, source, start_line, end_line, hash, model, text, embedding, dims, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    const select = db.prepare(`
+      SELECT rowid, id, path, source, start_line, end_line, hash, model, text, embedding, updated_at
+      FROM chunks WHERE rowid > ? ORDER BY rowid LIMIT ?
+    `);
+
+    let lastRowid = 0;
+    let migrated = 0;
+    for (;;) {
+      const rows = select.all(lastRowid, MIGRATION_BATCH) as Array<{
+        rowid: number;
+        id: string;
+        path: string;
+        source: string;
+        start_line: number;
+        end_line: number;
+        hash: string;
+        model: string;
+        text: string;
+        embedding: string;
+        updated_at: number;
+      }>;
+      if (rows.length === 0) break;
+
+      for (const row of rows) {
+        const embedding = parseEmbedding(row.embedding);
+        insert.run(
+          row.id,
+          row.path,
+          row.source,
+          row.start_line,
+          row.end_line,
+          row.hash,
+          row.model,
+          row.text,
+          embedding.length > 0 ? packEmbedding(embedding) : null,
+          embedding.length,
+          row.updated_at,
+        );
+      }
+      migrated += rows.length;
+      lastRowid = rows[rows.length - 1].rowid;
+    }
+
+    db.exec("DROP TABLE chunks");
+    db.exec("ALTER TABLE chunks_migrated RENAME TO chunks");
+    db.exec("COMMIT");
+    if (migrated > 0) {
+      console.log(`[Memory] Migrated ${migrated} chunks to binary embeddings in ${Date.now() - started}ms`);
+    }
+  } catch (error) {
+    db.exec("ROLLBACK");
+    throw error;
+  }
+}
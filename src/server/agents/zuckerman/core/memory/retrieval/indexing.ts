@@ -1,26 +1,82 @@
 /**
  * Memory Indexing Service
- * Handles indexing memory files into the database for search
+ * Handles indexing the memory stores, extra paths and conversation transcripts into the database for search.
+ * Chunks are compared by hash, so a sync only embeds text that changed.
  */
 
 import { DatabaseSync } from "node:sqlite";
-import { readFileSync, existsSync, statSync } from "node:fs";
-import { createHash } from "node:crypto";
+import { readFileSync, existsSync, statSync, readdirSync } from "node:fs";
+import { basename, isAbsolute, join, relative } from "node:path";
 import * as globModule from "glob";
 const glob = globModule.glob;
-import {
-  getWorkspaceMemoryDir,
-  getWorkspaceMemoryFilePath,
-} from "@server/world/homedir/paths.js";
-import type { ResolvedMemorySearchConfig } from "../config.js";
+import type { MemorySource, ResolvedMemorySearchConfig } from "../config.js";
 import type { EmbeddingProvider } from "@server/world/providers/embeddings/index.js";
-import type { Memory } from "../types.js";
+import type { TranscriptEntry } from "@server/agents/zuckerman/conversations/types.js";
+import { MEMORY_TYPES, type Memory } from "../types.js";
+import type { MemorySystem } from "../memory-service.js";
+import { packEmbedding, unpackEmbedding } from "./encoding/embeddings.js";
+import { chunkMarkdown, hashText, type MemoryChunk } from "./encoding/chunking.js";
+import type { VectorIndex } from "./vector-index.js";
+
+// Upsert keeps seq stable, so the vector index row stays attached to the chunk
+const UPSERT_CHUNK_SQL = `
+  INSERT INTO chunks
+  (id, path, source, conversation_id, start_line, end_line, hash, model, text, embedding, dims, updated_at)
+  VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  ON CONFLICT(id) DO UPDATE SET
+    path = excluded.path, source = excluded.source, conversation_id = excluded.conversation_id,
+    start_line = excluded.start_line, end_line = excluded.end_line, hash = excluded.hash,
+    model = excluded.model, text = excluded.text, embedding = excluded.embedding,
+    dims = excluded.dims, updated_at = excluded.updated_at
+  RETURNING seq
+`;
+
+// Text files picked up from directories listed in extraPaths
+const EXTRA_PATH_PATTERN = "**/*.{md,markdown,txt}";
+
+export type MemorySyncProgress = {
+  phase: "memory" | "extraPaths" | "conversations";
+  completed: number;
+  total: number;
+  path?: string;
+};
+
+export type MemorySyncStats = {
+  files: number; // Files (re)indexed
+  embedded: number; // Chunks sent to the embedding provider
+  reused: number; // Chunks whose embedding came from the index or the embedding cache
+  removed: number; // Stale chunks deleted
+};
+
+export type MemorySyncParams = {
+  reason?: string;
+  force?: boolean; // Reindex everything and ignore the conversation delta thresholds
+  sources?: MemorySource[]; // Narrows the configured sources
+  onProgress?: (progress: MemorySyncProgress) => void;
+};
 
 export interface MemoryIndexer {
-  sync(params?: {
-    reason?: string;
-    force?: boolean;
-  }): Promise<void>;
+  sync(params?: MemorySyncParams): Promise<MemorySyncStats>;
+
+  indexMemories(memories: Memory[]): Promise<void>;
+
+  removeMemories(memories: Array<Pick<Memory, "id" | "type">>): number;
+}
+
+type ChunkRow = {
+  id: string;
+  path: string;
+  source: MemorySource;
+  conversationId: string | null;
+  startLine: number;
+  endLine: number;
+  text: string;
+  embedding: number[] | undefined;
+  updatedAt: number;
+};
+
+function emptyStats(): MemorySyncStats {
+  return { files: 0, embedded: 0, reused: 0, removed: 0 };
 }
 
 export class MemoryIndexerImpl implements MemoryIndexer {
@@ -29,6 +85,10 @@ export class MemoryIndexerImpl implements MemoryIndexer {
   private workspaceDir: string;
   private embeddingProvider: EmbeddingProvider | null;
   private ftsTable: string;
+  private vectorIndex: VectorIndex;
+  private conversationsDir: string | null;
+  private embeddingCacheTable: string;
+  private memorySystem: Pick<MemorySystem, "findAll"> | null;
 
   constructor(
     db: DatabaseSync,
@@ -36,92 +96,308 @@ export class MemoryIndexerImpl implements MemoryIndexer {
     workspaceDir: string,
     embeddingProvider: EmbeddingProvider | null,
     ftsTable: string,
+    vectorIndex: VectorIndex,
+    conversationsDir: string | null = null,
+    embeddingCacheTable = "embedding_cache",
+    memorySystem: Pick<MemorySystem, "findAll"> | null = null,
   ) {
     this.db = db;
     this.config = config;
     this.workspaceDir = workspaceDir;
     this.embeddingProvider = embeddingProvider;
     this.ftsTable = ftsTable;
+    this.vectorIndex = vectorIndex;
+    this.conversationsDir = conversationsDir;
+    this.embeddingCacheTable = embeddingCacheTable;
+    this.memorySystem = memorySystem;
   }
 
-  async sync(params?: { reason?: string; force?: boolean }): Promise<void> {
+  async sync(params?: MemorySyncParams): Promise<MemorySyncStats> {
+    const stats = emptyStats();
     if (!this.embeddingProvider) {
       console.warn("[Memory] Cannot sync: embedding provider not available");
-      return;
+      return stats;
     }
 
-    const memoryDir = getWorkspaceMemoryDir(this.workspaceDir);
-    if (!existsSync(memoryDir)) {
-      return;
+    const sources = params?.sources ?? ["memory", "conversations"];
+    if (sources.includes("memory")) {
+      await this.syncMemoryStores(params, stats);
+      await this.syncExtraPaths(params, stats);
     }
-
-    // Sync all JSON memory files
-    const memoryFiles = await glob("*.json", { cwd: memoryDir, absolute: false });
-    for (const fileName of memoryFiles) {
-      const memories = this.loadMemoriesFromFile<Memory>(fileName);
-      if (memories.length > 0) {
-        await this.syncMemoryFile(fileName, memories, params?.force);
-      }
+    if (sources.includes("conversations") && this.config.sources.includes("conversations")) {
+      await this.syncConversations(params, stats);
     }
 
     if (params?.reason) {
-      console.log(`[Memory] Indexing sync completed: ${params.reason}`);
+      console.log(
+        `[Memory] Indexing sync completed: ${params.reason} ` +
+        `(${stats.files} files, ${stats.embedded} embedded, ${stats.reused} reused, ${stats.removed} removed)`,
+      );
     }
+    return stats;
   }
 
-  private loadMemoriesFromFile<T extends Memory>(fileName: string): T[] {
-    const filePath = getWorkspaceMemoryFilePath(this.workspaceDir, fileName);
-    if (!existsSync(filePath)) {
-      return [];
+  /**
+   * Index individual memories as they are written, without a full file sync.
+   * Works without an embedding provider (full-text search only).
+   */
+  async indexMemories(memories: Memory[]): Promise<void> {
+    if (memories.length === 0) return;
+
+    const texts = memories.map(m => this.formatMemoryAsText(m));
+    const { embeddings } = await this.embedTexts(texts);
+
+    for (let i = 0; i < memories.length; i++) {
+      const memory = memories[i];
+      const text = texts[i];
+      const path = `memory/${memory.type}.json`;
+      const chunkId = `${path}:${memory.id}`;
+
+      this.writeChunk(chunkId, path, memory, 0, text, embeddings[i]);
+      this.writeFts(chunkId, path, "memory", 0, 0, text);
     }
+  }
 
-    try {
-      const content = readFileSync(filePath, "utf-8");
-      if (!content.trim()) {
-        return [];
+  /**
+   * Drop memories indexed by indexMemories (forgotten or merged away), returning the chunks removed
+   */
+  removeMemories(memories: Array<Pick<Memory, "id" | "type">>): number {
+    let removed = 0;
+    this.transaction(() => {
+      removed = this.deleteChunks(memories.map(memory => `memory/${memory.type}.json:${memory.id}`));
+    });
+    return removed;
+  }
+
+  /**
+   * Index each memory type from the agent's memory store, as the virtual file memory/<type>.json.
+   * A type is reindexed when its memories changed since the last sync.
+   */
+  private async syncMemoryStores(params: MemorySyncParams | undefined, stats: MemorySyncStats): Promise<void> {
+    if (!this.memorySystem) return;
+
+    for (let i = 0; i < MEMORY_TYPES.length; i++) {
+      const relPath = `memory/${MEMORY_TYPES[i]}.json`;
+      params?.onProgress?.({ phase: "memory", completed: i, total: MEMORY_TYPES.length, path: relPath });
+
+      const memories = this.memorySystem.findAll(MEMORY_TYPES[i]);
+      if (memories.length === 0) {
+        stats.removed += this.removeFile(relPath);
+        continue;
+      }
+      await this.syncMemoryStore(relPath, memories, params?.force, stats);
+    }
+    params?.onProgress?.({ phase: "memory", completed: MEMORY_TYPES.length, total: MEMORY_TYPES.length });
+  }
+
+  /**
+   * Index the markdown and text files listed in extraPaths (files, or directories searched recursively)
+   */
+  private async syncExtraPaths(params: MemorySyncParams | undefined, stats: MemorySyncStats): Promise<void> {
+    const files = new Set<string>();
+    for (const extraPath of this.config.extraPaths) {
+      const absPath = isAbsolute(extraPath) ? extraPath : join(this.workspaceDir, extraPath);
+      if (!existsSync(absPath)) continue;
+      if (statSync(absPath).isDirectory()) {
+        for (const file of await glob(EXTRA_PATH_PATTERN, { cwd: absPath, absolute: true, nodir: true })) {
+          files.add(file);
+        }
+      } else {
+        files.add(absPath);
       }
+    }
+
+    const indexed = new Set<string>();
+    let completed = 0;
+    for (const absPath of files) {
+      const relPath = this.toIndexPath(absPath);
+      indexed.add(relPath);
+      params?.onProgress?.({ phase: "extraPaths", completed: completed++, total: files.size, path: relPath });
+
+      const stat = statSync(absPath);
+      if (!params?.force && this.isFileUnchanged(relPath, stat.mtimeMs, stat.size)) continue;
 
-      const data: { memories?: T[] } = JSON.parse(content);
-      if (!Array.isArray(data.memories)) {
-        return [];
+      const content = readFileSync(absPath, "utf-8");
+      const chunks = chunkMarkdown(content, this.config.chunking).filter(chunk => chunk.text.trim());
+      await this.syncChunks(relPath, "memory", null, chunks, stat.mtimeMs, stats);
+      this.updateFileRecordFor(relPath, "memory", hashText(content), stat.mtimeMs, stat.size);
+      stats.files++;
+    }
+
+    // Files removed from disk or from extraPaths
+    const stale = this.db.prepare(
+      "SELECT path FROM files WHERE source = 'memory' AND path NOT LIKE 'memory/%'",
+    ).all() as Array<{ path: string }>;
+    for (const { path } of stale) {
+      if (!indexed.has(path)) {
+        stats.removed += this.removeFile(path);
       }
+    }
+    params?.onProgress?.({ phase: "extraPaths", completed: files.size, total: files.size });
+  }
 
-      return data.memories.filter(m => m.id && m.type) as T[];
-    } catch (error) {
-      console.warn(`[Memory] Failed to load memories from ${filePath}:`, error);
-      return [];
+  /**
+   * Index conversation transcripts (JSONL). A transcript is reindexed once it has grown by
+   * sync.conversations.deltaBytes or deltaMessages since the last sync; appending only
+   * changes its last chunks, so earlier chunks keep their embeddings.
+   */
+  private async syncConversations(params: MemorySyncParams | undefined, stats: MemorySyncStats): Promise<void> {
+    if (!this.conversationsDir || !existsSync(this.conversationsDir)) return;
+
+    const transcripts = readdirSync(this.conversationsDir).filter(file => file.endsWith(".jsonl"));
+    const present = new Set<string>();
+    for (let i = 0; i < transcripts.length; i++) {
+      const fileName = transcripts[i];
+      const relPath = `conversations/${fileName}`;
+      present.add(relPath);
+      params?.onProgress?.({ phase: "conversations", completed: i, total: transcripts.length, path: relPath });
+
+      const absPath = join(this.conversationsDir, fileName);
+      const stat = statSync(absPath);
+      if (!params?.force && this.isFileUnchanged(relPath, stat.mtimeMs, stat.size)) continue;
+
+      const content = readFileSync(absPath);
+      if (!params?.force && !this.hasConversationDelta(relPath, content)) continue;
+
+      const conversationId = basename(fileName, ".jsonl");
+      const chunks = chunkMarkdown(this.formatTranscript(content.toString("utf-8")), this.config.chunking)
+        .filter(chunk => chunk.text.trim());
+      await this.syncChunks(relPath, "conversations", conversationId, chunks, stat.mtimeMs, stats);
+      this.updateFileRecordFor(relPath, "conversations", hashText(content.toString("utf-8")), stat.mtimeMs, stat.size);
+      stats.files++;
+    }
+
+    const indexed = this.db.prepare("SELECT path FROM files WHERE source = 'conversations'").all() as Array<{ path: string }>;
+    for (const { path } of indexed) {
+      if (!present.has(path)) {
+        stats.removed += this.removeFile(path);
+      }
     }
+    params?.onProgress?.({ phase: "conversations", completed: transcripts.length, total: transcripts.length });
   }
 
-  private async syncMemoryFile(fileName: string, memories: Memory[], force?: boolean): Promise<void> {
-    const relPath = `memory/${fileName}`;
-    const absPath = getWorkspaceMemoryFilePath(this.workspaceDir, fileName);
+  /**
+   * Whether a transcript grew past the configured delta since it was last indexed
+   */
+  private hasConversationDelta(relPath: string, content: Buffer): boolean {
+    const existing = this.db.prepare("SELECT size FROM files WHERE path = ?").get(relPath) as { size: number } | undefined;
+    if (existing && existing.size > content.length) return true; // Rewritten or truncated
+
+    const indexedSize = existing?.size ?? 0;
+    const deltaBytes = content.length - indexedSize;
+
+    let deltaMessages = 0;
+    for (let i = indexedSize; i < content.length; i++) {
+      if (content[i] === 0x0a) deltaMessages++;
+    }
+    const { deltaBytes: minBytes, deltaMessages: minMessages } = this.config.sync.conversations;
+    return deltaBytes >= minBytes || deltaMessages >= minMessages;
+  }
 
-    // Check if file needs updating
-    if (!force && existsSync(absPath)) {
-      const stats = statSync(absPath);
-      const existing = this.db.prepare("SELECT mtime FROM files WHERE path = ?").get(relPath) as { mtime: number } | undefined;
-      if (existing?.mtime === stats.mtimeMs) {
-        return; // File unchanged
+  /**
+   * One line per transcript entry so chunk line numbers match the JSONL file;
+   * only user and assistant turns carry text
+   */
+  private formatTranscript(content: string): string {
+    return content.split("\n").map((line) => {
+      if (!line.trim()) return "";
+      try {
+        const entry = JSON.parse(line) as TranscriptEntry;
+        if ((entry.role !== "user" && entry.role !== "assistant") || !entry.content) return "";
+        return `${entry.role}: ${entry.content.replace(/\s+/g, " ").trim()}`;
+      } catch {
+        return "";
       }
+    }).join("\n");
+  }
+
+  /**
+   * Bring the chunks of one file in line with `chunks`: unchanged chunks (same hash and model) are kept,
+   * changed ones are embedded and rewritten in place, and chunks that no longer exist are deleted
+   */
+  private async syncChunks(
+    path: string,
+    source: MemorySource,
+    conversationId: string | null,
+    chunks: MemoryChunk[],
+    updatedAt: number,
+    stats: MemorySyncStats,
+  ): Promise<void> {
+    const existing = new Map(
+      (this.db.prepare("SELECT id, hash, model, dims FROM chunks WHERE path = ?").all(path) as Array<{
+        id: string; hash: string; model: string; dims: number;
+      }>).map(row => [row.id, row]),
+    );
+
+    const changed: Array<MemoryChunk & { id: string }> = [];
+    const current = new Set<string>();
+    for (const chunk of chunks) {
+      const id = `${path}:${chunk.startLine}`;
+      current.add(id);
+      const row = existing.get(id);
+      if (row && row.hash === chunk.hash && row.model === this.config.model && row.dims > 0) {
+        stats.reused++;
+        continue;
+      }
+      changed.push({ ...chunk, id });
     }
 
-    // Delete old chunks
-    this.deleteChunksForPath(relPath);
+    const { embeddings, embedded } = await this.embedTexts(changed.map(chunk => chunk.text));
+    stats.embedded += embedded;
+    stats.reused += changed.length - embedded;
 
-    // Format memories as text and generate embeddings
+    const staleIds = [...existing.keys()].filter(id => !current.has(id));
+    this.transaction(() => {
+      for (let i = 0; i < changed.length; i++) {
+        const chunk = changed[i];
+        this.writeChunkRow({
+          id: chunk.id,
+          path,
+          source,
+          conversationId,
+          startLine: chunk.startLine,
+          endLine: chunk.endLine,
+          text: chunk.text,
+          embedding: embeddings[i],
+          updatedAt,
+        });
+        this.writeFts(chunk.id, path, source, chunk.startLine, chunk.endLine, chunk.text);
+      }
+      stats.removed += this.deleteChunks(staleIds);
+    });
+  }
+
+  private async syncMemoryStore(relPath: string, memories: Memory[], force: boolean | undefined, stats: MemorySyncStats): Promise<void> {
+    const content = JSON.stringify(memories);
+    const hash = hashText(content);
+    if (!force) {
+      const existing = this.db.prepare("SELECT hash FROM files WHERE path = ?").get(relPath) as { hash: string } | undefined;
+      if (existing?.hash === hash) {
+        return; // Store unchanged
+      }
+    }
+
+    // Format memories as text and generate embeddings (before the old chunks go, so their vectors can be reused)
     const texts = memories.map(m => this.formatMemoryAsText(m));
-    const embeddings = await this.generateEmbeddings(texts);
+    const { embeddings, embedded } = await this.embedTexts(texts);
+    stats.embedded += embedded;
+    stats.reused += texts.length - embedded;
 
-    // Insert chunks
-    this.insertChunks(relPath, memories, texts, embeddings);
+    this.transaction(() => {
+      // Delete old chunks
+      this.deleteChunksForPath(relPath);
 
-    // Update file record
-    this.updateFileRecord(relPath, absPath, memories);
+      // Insert chunks
+      this.insertChunks(relPath, memories, texts, embeddings);
+    });
+
+    this.updateFileRecordFor(relPath, "memory", hash, Date.now(), content.length);
+    stats.files++;
   }
 
-  private deleteChunksForPath(path: string): void {
-    this.db.prepare("DELETE FROM chunks WHERE path = ?").run(path);
+  private deleteChunksForPath(path: string): number {
+    const removed = this.db.prepare("DELETE FROM chunks WHERE path = ? RETURNING seq").all(path) as Array<{ seq: number }>;
+    this.vectorIndex.remove(removed.map(row => row.seq));
     if (this.config.store.vector.enabled) {
       try {
         this.db.prepare(`DELETE FROM ${this.ftsTable} WHERE path = ?`).run(path);
@@ -129,6 +405,127 @@ export class MemoryIndexerImpl implements MemoryIndexer {
         // FTS table might not exist
       }
     }
+    return removed.length;
+  }
+
+  private deleteChunks(ids: string[]): number {
+    if (ids.length === 0) return 0;
+    const removeChunk = this.db.prepare("DELETE FROM chunks WHERE id = ? RETURNING seq");
+    const seqs: number[] = [];
+    for (const id of ids) {
+      const row = removeChunk.get(id) as { seq: number } | undefined;
+      if (row) seqs.push(row.seq);
+      if (this.config.store.vector.enabled) {
+        try {
+          this.db.prepare(`DELETE FROM ${this.ftsTable} WHERE id = ?`).run(id);
+        } catch {
+          // FTS table might not exist
+        }
+      }
+    }
+    this.vectorIndex.remove(seqs);
+    return seqs.length;
+  }
+
+  /**
+   * Drop a file and its chunks from the index
+   */
+  private removeFile(path: string): number {
+    const removed = this.deleteChunksForPath(path);
+    this.db.prepare("DELETE FROM files WHERE path = ?").run(path);
+    return removed;
+  }
+
+  /**
+   * Embeddings for `texts`, reusing vectors already stored for the same text (in chunks or the
+   * embedding cache) and only sending the rest to the provider. `embedded` counts provider calls.
+   */
+  private async embedTexts(texts: string[]): Promise<{ embeddings: number[][]; embedded: number }> {
+    if (!this.embeddingProvider || texts.length === 0) {
+      return { embeddings: [], embedded: 0 };
+    }
+
+    const hashes = texts.map(text => hashText(text));
+    const embeddings: number[][] = new Array(texts.length);
+    const missing: number[] = [];
+    for (let i = 0; i < texts.length; i++) {
+      const known = this.lookupEmbedding(hashes[i]);
+      if (known) {
+        embeddings[i] = known;
+      } else {
+        missing.push(i);
+      }
+    }
+    if (missing.length === 0) {
+      return { embeddings, embedded: 0 };
+    }
+
+    const generated = await this.generateEmbeddings(missing.map(i => texts[i]));
+    missing.forEach((textIndex, i) => {
+      if (generated[i]) embeddings[textIndex] = generated[i];
+    });
+    this.cacheEmbeddings(missing.map(i => hashes[i]), generated);
+    return { embeddings, embedded: generated.length > 0 ? missing.length : 0 };
+  }
+
+  private lookupEmbedding(hash: string): number[] | null {
+    const chunk = this.db.prepare(
+      "SELECT embedding FROM chunks WHERE hash = ? AND model = ? AND dims > 0 LIMIT 1",
+    ).get(hash, this.config.model) as { embedding: Uint8Array } | undefined;
+    if (chunk) {
+      return Array.from(unpackEmbedding(chunk.embedding));
+    }
+
+    if (!this.config.cache.enabled) return null;
+    const cached = this.db.prepare(`
+      SELECT embedding FROM ${this.embeddingCacheTable}
+      WHERE provider = ? AND model = ? AND provider_key = ? AND hash = ?
+    `).get(this.config.provider, this.config.model, this.providerKey(), hash) as { embedding: string } | undefined;
+    if (!cached) return null;
+
+    // Touch the entry so pruning drops the least recently used ones first
+    this.db.prepare(`
+      UPDATE ${this.embeddingCacheTable} SET updated_at = ?
+      WHERE provider = ? AND model = ? AND provider_key = ? AND hash = ?
+    `).run(Date.now(), this.config.provider, this.config.model, this.providerKey(), hash);
+    return JSON.parse(cached.embedding) as number[];
+  }
+
+  /**
+   * Store new embeddings in the cache and keep it within cache.maxEntries
+   */
+  private cacheEmbeddings(hashes: string[], embeddings: number[][]): void {
+    if (!this.config.cache.enabled || embeddings.length === 0) return;
+
+    const insert = this.db.prepare(`
+      INSERT OR REPLACE INTO ${this.embeddingCacheTable}
+      (provider, model, provider_key, hash, embedding, dims, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `);
+    const now = Date.now();
+    this.transaction(() => {
+      for (let i = 0; i < embeddings.length; i++) {
+        const embedding = embeddings[i];
+        if (!embedding) continue;
+        insert.run(this.config.provider, this.config.model, this.providerKey(), hashes[i], JSON.stringify(embedding), embedding.length, now);
+      }
+
+      const maxEntries = this.config.cache.maxEntries;
+      if (maxEntries !== undefined && maxEntries >= 0) {
+        this.db.prepare(`
+          DELETE FROM ${this.embeddingCacheTable} WHERE rowid IN (
+            SELECT rowid FROM ${this.embeddingCacheTable} ORDER BY updated_at DESC LIMIT -1 OFFSET ?
+          )
+        `).run(maxEntries);
+      }
+    });
+  }
+
+  /**
+   * Distinguishes endpoints serving the same model name (e.g. OpenAI vs. a compatible proxy)
+   */
+  private providerKey(): string {
+    return this.config.remote?.baseUrl ?? "";
   }
 
   private async generateEmbeddings(texts: string[]): Promise<number[][]> {
@@ -145,15 +542,9 @@ export class MemoryIndexerImpl implements MemoryIndexer {
   }
 
   private insertChunks(path: string, memories: Memory[], texts: string[], embeddings: number[][]): void {
-    const insertChunk = this.db.prepare(`
-      INSERT OR REPLACE INTO chunks 
-      (id, path, source, start_line, end_line, hash, model, text, embedding, updated_at)
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
-    `);
-
     const insertFTS = this.config.store.vector.enabled
       ? this.db.prepare(`
-          INSERT INTO ${this.ftsTable} 
+          INSERT INTO ${this.ftsTable}
           (id, path, source, start_line, end_line, model, text)
           VALUES (?, ?, ?, ?, ?, ?, ?)
         `)
@@ -161,23 +552,9 @@ export class MemoryIndexerImpl implements MemoryIndexer {
 
     for (let i = 0; i < memories.length; i++) {
       const text = texts[i];
-      const memory = memories[i];
-      const embedding = embeddings[i] || [];
-      const chunkId = `${path}:${memory.id}:${i}`;
-      const hash = createHash("sha256").update(text).digest("hex");
-
-      insertChunk.run(
-        chunkId,
-        path,
-        "memory",
-        i,
-        i,
-        hash,
-        this.config.model,
-        text,
-        JSON.stringify(embedding),
-        memory.updatedAt
-      );
+      // Same id as indexMemories, so removeMemories also drops chunks written by a sync
+      const chunkId = `${path}:${memories[i].id}`;
+      this.writeChunk(chunkId, path, memories[i], i, text, embeddings[i]);
 
       if (insertFTS) {
         try {
@@ -189,16 +566,92 @@ export class MemoryIndexerImpl implements MemoryIndexer {
     }
   }
 
-  private updateFileRecord(path: string, absPath: string, memories: Memory[]): void {
-    const content = JSON.stringify(memories);
-    const hash = createHash("sha256").update(content).digest("hex");
-    const mtime = existsSync(absPath) ? statSync(absPath).mtimeMs : Date.now();
-    const size = content.length;
+  /**
+   * Write one memory chunk with its packed embedding and keep the vector index in step
+   */
+  private writeChunk(chunkId: string, path: string, memory: Memory, line: number, text: string, embedding: number[] | undefined): void {
+    this.writeChunkRow({
+      id: chunkId,
+      path,
+      source: "memory",
+      conversationId: memory.metadata?.conversationId ?? null,
+      startLine: line,
+      endLine: line,
+      text,
+      embedding,
+      updatedAt: memory.updatedAt,
+    });
+  }
+
+  private writeChunkRow(row: ChunkRow): void {
+    const vector = Float32Array.from(row.embedding ?? []);
 
+    const { seq } = this.db.prepare(UPSERT_CHUNK_SQL).get(
+      row.id,
+      row.path,
+      row.source,
+      row.conversationId,
+      row.startLine,
+      row.endLine,
+      hashText(row.text),
+      this.config.model,
+      row.text,
+      vector.length > 0 ? packEmbedding(vector) : null,
+      vector.length,
+      row.updatedAt,
+    ) as { seq: number };
+
+    if (vector.length > 0) {
+      this.vectorIndex.upsert(seq, vector, row.source, row.conversationId);
+    } else {
+      this.vectorIndex.remove([seq]);
+    }
+  }
+
+  private writeFts(id: string, path: string, source: MemorySource, startLine: number, endLine: number, text: string): void {
+    if (!this.config.store.vector.enabled) return;
+    try {
+      this.db.prepare(`DELETE FROM ${this.ftsTable} WHERE id = ?`).run(id);
+      this.db.prepare(`
+        INSERT INTO ${this.ftsTable}
+        (id, path, source, start_line, end_line, model, text)
+        VALUES (?, ?, ?, ?, ?, ?, ?)
+      `).run(id, path, source, startLine, endLine, this.config.model, text);
+    } catch (error) {
+      console.warn("[Memory] FTS insert failed:", error);
+    }
+  }
+
+  private isFileUnchanged(path: string, mtime: number, size: number): boolean {
+    const existing = this.db.prepare("SELECT mtime, size FROM files WHERE path = ?").get(path) as
+      { mtime: number; size: number } | undefined;
+    return existing?.mtime === mtime && existing.size === size;
+  }
+
+  /**
+   * Paths inside the workspace are stored relative to it, others as absolute paths
+   */
+  private toIndexPath(absPath: string): string {
+    const relPath = relative(this.workspaceDir, absPath);
+    return relPath.startsWith("..") || isAbsolute(relPath) ? absPath : relPath;
+  }
+
+  private updateFileRecordFor(path: string, source: MemorySource, hash: string, mtime: number, size: number): void {
     this.db.prepare(`
       INSERT OR REPLACE INTO files (path, source, hash, mtime, size)
       VALUES (?, ?, ?, ?, ?)
-    `).run(path, "memory", hash, mtime, size);
+    `).run(path, source, hash, mtime, size);
+  }
+
+  private transaction(fn: () => void): void {
+    this.db.exec("BEGIN");
+    try {
+      fn();
+      this.db.exec("COMMIT");
+    } catch (error) {
+      this.db.exec("ROLLBACK");
+      throw error;
+    }
   }
 
   /**
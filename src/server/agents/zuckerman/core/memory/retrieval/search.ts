@@ -5,12 +5,14 @@
 
 import { DatabaseSync } from "node:sqlite";
 import { existsSync, readFileSync } from "node:fs";
-import { getWorkspaceFilePath } from "@server/world/homedir/paths.js";
+import { getAgentConversationsDir, getWorkspaceFilePath } from "@server/world/homedir/paths.js";
 import type { ResolvedMemorySearchConfig } from "../config.js";
-import { parseEmbedding, cosineSimilarity } from "./encoding/embeddings.js";
 import { getDatabase, initializeDatabase } from "./db.js";
+import { ScanVectorIndex, type VectorIndex, type VectorIndexKind, type VectorSearchFilter } from "./vector-index.js";
 import { createEmbeddingProvider, type EmbeddingProvider } from "@server/world/providers/embeddings/index.js";
-import { MemoryIndexerImpl } from "./indexing.js";
+import { MemoryIndexerImpl, type MemorySyncParams, type MemorySyncStats } from "./indexing.js";
+import { MemorySystem } from "../memory-service.js";
+import type { Memory } from "../types.js";
 
 export type MemorySearchResult = {
   path: string;
@@ -28,6 +30,9 @@ export interface MemorySearchManager {
       maxResults?: number;
       minScore?: number;
       conversationKey?: string;
+      sources?: Array<"memory" | "conversations">; // Narrows the configured sources
+      conversationId?: string; // Only chunks from this conversation
+      includeShared?: boolean; // With conversationId, also chunks that belong to no conversation
     },
   ): Promise<MemorySearchResult[]>;
 
@@ -48,12 +53,21 @@ export interface MemorySearchManager {
     dbInitialized: boolean;
     dbExists: boolean;
     dbError?: string;
+    vectorIndex: VectorIndexKind;
+    vectorError?: string;
   };
 
-  sync(params?: {
-    reason?: string;
-    force?: boolean;
-  }): Promise<void>;
+  sync(params?: MemorySyncParams): Promise<MemorySyncStats>;
+
+  /**
+   * Index newly written memories without waiting for the next sync
+   */
+  indexMemories(memories: Memory[]): Promise<void>;
+
+  /**
+   * Remove memories from the index, e.g. after they were forgotten
+   */
+  removeMemories(memories: Array<Pick<Memory, "id" | "type">>): number;
 
   close(): Promise<void>;
 }
@@ -66,6 +80,8 @@ class MemorySearchManagerImpl implements MemorySearchManager {
   private workspaceDir: string;
   private embeddingProvider: EmbeddingProvider | null;
   private indexer: MemoryIndexerImpl | null = null;
+  private vectorIndex: VectorIndex | null = null;
+  private vectorError?: string;
   private ftsTable = "fts_memory";
   private embeddingCacheTable = "embedding_cache";
 
@@ -96,6 +112,8 @@ class MemorySearchManagerImpl implements MemorySearchManager {
     }
     
     this.db = result.db;
+    this.vectorIndex = result.vectorIndex;
+    this.vectorError = result.vectorError;
     
     // Create indexer instance for syncing files to database
     this.indexer = new MemoryIndexerImpl(
@@ -103,7 +121,11 @@ class MemorySearchManagerImpl implements MemorySearchManager {
       this.config,
       this.workspaceDir,
       this.embeddingProvider,
-      this.ftsTable
+      this.ftsTable,
+      this.vectorIndex,
+      getAgentConversationsDir(agentId),
+      this.embeddingCacheTable,
+      new MemorySystem(undefined, agentId),
     );
   }
 
@@ -113,6 +135,9 @@ class MemorySearchManagerImpl implements MemorySearchManager {
       maxResults?: number;
       minScore?: number;
       conversationKey?: string;
+      sources?: Array<"memory" | "conversations">; // Narrows the configured sources
+      conversationId?: string; // Only chunks from this conversation
+      includeShared?: boolean; // With conversationId, also chunks that belong to no conversation
     },
   ): Promise<MemorySearchResult[]> {
     // Database is initialized when manager is created via getMemorySearchManager()
@@ -138,6 +163,18 @@ class MemorySearchManagerImpl implements MemorySearchManager {
 
     const maxResults = opts?.maxResults ?? this.config.query.maxResults;
     const minScore = opts?.minScore ?? this.config.query.minScore;
+    const sources = opts?.sources
+      ? this.config.sources.filter((source) => opts.sources!.includes(source))
+      : this.config.sources;
+    if (sources.length === 0) {
+      return [];
+    }
+    const filter: VectorSearchFilter = {
+      sources,
+      conversationId: opts?.conversationId,
+      includeShared: opts?.includeShared,
+    };
+    const chunkFilter = this.chunkFilterClause(filter);
 
     // Get query embedding if provider available
     let queryEmbedding: number[] | null = null;
@@ -152,27 +189,29 @@ class MemorySearchManagerImpl implements MemorySearchManager {
     const results: Array<MemorySearchResult & { vectorScore?: number; ftsScore?: number }> = [];
 
     // Vector search
-    if (queryEmbedding && this.config.query.hybrid.enabled) {
-      const chunks = this.db.prepare(`
-        SELECT id, path, source, start_line, end_line, text, embedding
-        FROM chunks
-        WHERE source IN (${this.config.sources.map(() => "?").join(",")})
-      `).all(...this.config.sources) as Array<{
-        id: string;
-        path: string;
-        source: string;
-        start_line: number;
-        end_line: number;
-        text: string;
-        embedding: string;
-      }>;
-
-      for (const chunk of chunks) {
-        const chunkEmbedding = parseEmbedding(chunk.embedding);
-        if (chunkEmbedding.length === 0) continue;
+    if (queryEmbedding && queryEmbedding.length > 0 && this.config.query.hybrid.enabled) {
+      const candidates = maxResults * this.config.query.hybrid.candidateMultiplier;
+      const matches = this.searchVectors(Float32Array.from(queryEmbedding), candidates, filter)
+        .filter((match) => match.score >= minScore);
+
+      if (matches.length > 0) {
+        const scores = new Map(matches.map((match) => [match.seq, match.score]));
+        // The ANN index may not filter every field, so the join re-applies the filter
+        const chunks = this.db.prepare(`
+          SELECT seq, path, source, start_line, end_line, text
+          FROM chunks
+          WHERE seq IN (${matches.map(() => "?").join(",")})${chunkFilter.sql}
+        `).all(...matches.map((match) => match.seq), ...chunkFilter.params) as Array<{
+          seq: number;
+          path: string;
+          source: string;
+          start_line: number;
+          end_line: number;
+          text: string;
+        }>;
 
-        const similarity = cosineSimilarity(queryEmbedding, chunkEmbedding);
-        if (similarity >= minScore) {
+        for (const chunk of chunks) {
+          const similarity = scores.get(chunk.seq) ?? 0;
           results.push({
             path: chunk.path,
             startLine: chunk.start_line,
@@ -195,9 +234,10 @@ class MemorySearchManagerImpl implements MemorySearchManager {
                  bm25(${this.ftsTable}) as rank
           FROM ${this.ftsTable}
           WHERE ${this.ftsTable} MATCH ?
+            AND id IN (SELECT id FROM chunks WHERE 1 = 1${chunkFilter.sql})
           ORDER BY rank
           LIMIT ?
-        `).all(sanitizedQuery, maxResults * this.config.query.hybrid.candidateMultiplier) as Array<{
+        `).all(sanitizedQuery, ...chunkFilter.params, maxResults * this.config.query.hybrid.candidateMultiplier) as Array<{
           id: string;
           path: string;
           source: string;
@@ -249,10 +289,9 @@ class MemorySearchManagerImpl implements MemorySearchManager {
       const chunks = this.db.prepare(`
         SELECT path, source, start_line, end_line, text
         FROM chunks
-        WHERE source IN (${this.config.sources.map(() => "?").join(",")})
-          AND text LIKE ?
+        WHERE text LIKE ?${chunkFilter.sql}
         LIMIT ?
-      `).all(...this.config.sources, `%${query}%`, maxResults * 2) as Array<{
+      `).all(`%${query}%`, ...chunkFilter.params, maxResults * 2) as Array<{
         path: string;
         source: string;
         start_line: number;
@@ -317,7 +356,13 @@ class MemorySearchManagerImpl implements MemorySearchManager {
     dbInitialized: boolean;
     dbExists: boolean;
     dbError?: string;
+    vectorIndex: VectorIndexKind;
+    vectorError?: string;
   } {
+    const vector = {
+      vectorIndex: this.vectorIndex?.kind ?? "scan",
+      ...(this.vectorError ? { vectorError: this.vectorError } : {}),
+    };
     const dbPath = this.config.store.path;
     const dbExists = existsSync(dbPath);
     
@@ -333,6 +378,7 @@ class MemorySearchManagerImpl implements MemorySearchManager {
         dbInitialized: false,
         dbExists,
         dbError: dbExists ? "Database file exists but not initialized" : "Database file does not exist",
+        ...vector,
       };
     }
 
@@ -350,6 +396,7 @@ class MemorySearchManagerImpl implements MemorySearchManager {
         sources: this.config.sources,
         dbInitialized: true,
         dbExists: true,
+        ...vector,
       };
     } catch (error) {
       const message = error instanceof Error ? error.message : String(error);
@@ -364,19 +411,33 @@ class MemorySearchManagerImpl implements MemorySearchManager {
         dbInitialized: false,
         dbExists,
         dbError: `Database query failed: ${message}`,
+        ...vector,
       };
     }
   }
 
-  async sync(params?: { reason?: string; force?: boolean }): Promise<void> {
+  async sync(params?: MemorySyncParams): Promise<MemorySyncStats> {
     // Database is initialized when manager is created via getMemorySearchManager()
     if (!this.indexer) {
       console.warn("[Memory] Cannot sync: indexer not initialized");
-      return;
+      return { files: 0, embedded: 0, reused: 0, removed: 0 };
     }
     
     // Delegate to indexing service
-    await this.indexer.sync(params);
+    return this.indexer.sync(params);
+  }
+
+  async indexMemories(memories: Memory[]): Promise<void> {
+    if (!this.indexer) {
+      console.warn("[Memory] Cannot index memories: indexer not initialized");
+      return;
+    }
+    await this.indexer.indexMemories(memories);
+  }
+
+  removeMemories(memories: Array<Pick<Memory, "id" | "type">>): number {
+    if (!this.indexer || memories.length === 0) return 0;
+    return this.indexer.removeMemories(memories);
   }
 
   async close(): Promise<void> {
@@ -386,6 +447,36 @@ class MemorySearchManagerImpl implements MemorySearchManager {
     }
   }
 
+  /**
+   * Nearest chunks from the vector index. A failing sqlite-vec query (e.g. an old extension
+   * without metadata filters) falls back to the brute-force scan for the rest of the session.
+   */
+  private searchVectors(query: Float32Array, k: number, filter: VectorSearchFilter) {
+    if (!this.vectorIndex) return [];
+    try {
+      return this.vectorIndex.search(query, k, filter);
+    } catch (error) {
+      if (this.vectorIndex.kind === "scan") throw error;
+      this.vectorError = error instanceof Error ? error.message : String(error);
+      console.warn(`[Memory] sqlite-vec search failed, falling back to brute-force search: ${this.vectorError}`);
+      this.vectorIndex = new ScanVectorIndex(this.db!);
+      return this.vectorIndex.search(query, k, filter);
+    }
+  }
+
+  /**
+   * SQL conditions (each prefixed with AND) restricting chunks to the requested sources and conversation
+   */
+  private chunkFilterClause(filter: VectorSearchFilter): { sql: string; params: string[] } {
+    const params: string[] = [...(filter.sources ?? [])];
+    let sql = filter.sources?.length ? ` AND source IN (${filter.sources.map(() => "?").join(",")})` : "";
+    if (filter.conversationId !== undefined) {
+      sql += filter.includeShared ? " AND (conversation_id = ? OR conversation_id IS NULL)" : " AND conversation_id = ?";
+      params.push(filter.conversationId);
+    }
+    return { sql, params };
+  }
+
   private extractSnippet(text: string, query: string, maxLength = 200): string {
     const queryLower = query.toLowerCase();
     const textLower = text.toLowerCase();
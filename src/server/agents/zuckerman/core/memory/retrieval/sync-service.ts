@@ -0,0 +1,206 @@
+/**
+ * Memory Sync Service
+ * Keeps an agent's memory index current in the background: watches the memory store database,
+ * extraPaths and conversation transcripts (sync.watch), and resyncs every sync.intervalMinutes.
+ */
+
+import { existsSync, mkdirSync, statSync, watch, type FSWatcher } from "node:fs";
+import { basename, dirname, isAbsolute, join } from "node:path";
+import type { MemorySource, ResolvedMemorySearchConfig } from "../config.js";
+import type { MemorySearchManager } from "./search.js";
+import type { MemorySyncParams, MemorySyncProgress, MemorySyncStats } from "./indexing.js";
+
+export type MemorySyncState = "idle" | "syncing" | "stopped";
+
+export type MemorySyncStatus = {
+  state: MemorySyncState;
+  watching: string[];
+  intervalMinutes: number;
+  progress?: MemorySyncProgress; // While syncing
+  lastSyncAt?: number;
+  lastReason?: string;
+  lastDurationMs?: number;
+  lastStats?: MemorySyncStats;
+  lastError?: string;
+};
+
+type WatchTarget = {
+  path: string;
+  source: MemorySource;
+  accepts: (fileName: string) => boolean;
+  create?: boolean; // Directories the agent writes to later are created so they can be watched now
+};
+
+const TEXT_FILE_PATTERN = /\.(md|markdown|txt)$/i;
+
+export class MemorySyncService {
+  private manager: MemorySearchManager;
+  private config: ResolvedMemorySearchConfig;
+  private workspaceDir: string;
+  private conversationsDir: string;
+  private memoryStorePath: string;
+  private watchers = new Map<string, FSWatcher>();
+  private debounceTimer: NodeJS.Timeout | null = null;
+  private intervalTimer: NodeJS.Timeout | null = null;
+  private pendingSources = new Set<MemorySource>();
+  private queue: Promise<unknown> = Promise.resolve();
+  private running = 0;
+  private started = false;
+  private progress?: MemorySyncProgress;
+  private last: Omit<MemorySyncStatus, "state" | "watching" | "intervalMinutes" | "progress"> = {};
+
+  constructor(
+    manager: MemorySearchManager,
+    config: ResolvedMemorySearchConfig,
+    paths: { workspaceDir: string; conversationsDir: string; memoryStorePath: string },
+  ) {
+    this.manager = manager;
+    this.config = config;
+    this.workspaceDir = paths.workspaceDir;
+    this.conversationsDir = paths.conversationsDir;
+    this.memoryStorePath = paths.memoryStorePath;
+  }
+
+  /**
+   * Start watching and the interval timer (per the sync config)
+   */
+  start(): void {
+    if (this.started) return;
+    this.started = true;
+
+    if (this.config.sync.watch) {
+      for (const target of this.watchTargets()) {
+        this.watchPath(target);
+      }
+    }
+
+    const intervalMinutes = this.config.sync.intervalMinutes;
+    if (intervalMinutes > 0) {
+      this.intervalTimer = setInterval(() => {
+        this.syncNow({ reason: "interval" }).catch(() => {
+          // Recorded in lastError
+        });
+      }, intervalMinutes * 60_000);
+      this.intervalTimer.unref();
+    }
+  }
+
+  stop(): void {
+    this.started = false;
+    for (const watcher of this.watchers.values()) {
+      watcher.close();
+    }
+    this.watchers.clear();
+    if (this.debounceTimer) clearTimeout(this.debounceTimer);
+    if (this.intervalTimer) clearInterval(this.intervalTimer);
+    this.debounceTimer = null;
+    this.intervalTimer = null;
+    this.pendingSources.clear();
+  }
+
+  /**
+   * Schedule a sync after sync.watchDebounceMs; requests arriving in the meantime are merged
+   */
+  requestSync(source: MemorySource): void {
+    this.pendingSources.add(source);
+    if (this.debounceTimer) clearTimeout(this.debounceTimer);
+    this.debounceTimer = setTimeout(() => {
+      this.debounceTimer = null;
+      const sources = [...this.pendingSources];
+      this.pendingSources.clear();
+      this.syncNow({ reason: "watch", sources }).catch(() => {
+        // Recorded in lastError
+      });
+    }, this.config.sync.watchDebounceMs);
+    this.debounceTimer.unref();
+  }
+
+  /**
+   * Run a sync now. Syncs never overlap: a call made during one runs after it.
+   */
+  syncNow(params?: Omit<MemorySyncParams, "onProgress">): Promise<MemorySyncStats> {
+    const run = this.queue.then(() => this.runSync(params));
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  status(): MemorySyncStatus {
+    return {
+      state: this.running > 0 ? "syncing" : this.started ? "idle" : "stopped",
+      watching: [...this.watchers.keys()],
+      intervalMinutes: this.config.sync.intervalMinutes,
+      ...(this.running > 0 && this.progress ? { progress: this.progress } : {}),
+      ...this.last,
+    };
+  }
+
+  private async runSync(params?: Omit<MemorySyncParams, "onProgress">): Promise<MemorySyncStats> {
+    const startedAt = Date.now();
+    const reason = params?.reason ?? "manual";
+    this.running++;
+    this.progress = undefined;
+    try {
+      const stats = await this.manager.sync({
+        ...params,
+        reason,
+        onProgress: (progress) => {
+          this.progress = progress;
+        },
+      });
+      this.last = { lastSyncAt: Date.now(), lastReason: reason, lastDurationMs: Date.now() - startedAt, lastStats: stats };
+      return stats;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.last = { ...this.last, lastSyncAt: Date.now(), lastReason: reason, lastDurationMs: Date.now() - startedAt, lastError: message };
+      console.warn(`[MemorySync] Sync failed (${reason}): ${message}`);
+      throw error;
+    } finally {
+      this.running--;
+      this.progress = undefined;
+    }
+  }
+
+  private watchTargets(): WatchTarget[] {
+    // Memory writes (from this process or the CLI) change the store database or its WAL file
+    const storeFiles = [basename(this.memoryStorePath), `${basename(this.memoryStorePath)}-wal`];
+    const targets: WatchTarget[] = [
+      { path: dirname(this.memoryStorePath), source: "memory", accepts: (name) => storeFiles.includes(name), create: true },
+    ];
+    for (const extraPath of this.config.extraPaths) {
+      targets.push({
+        path: isAbsolute(extraPath) ? extraPath : join(this.workspaceDir, extraPath),
+        source: "memory",
+        accepts: (name) => TEXT_FILE_PATTERN.test(name),
+      });
+    }
+    if (this.config.sources.includes("conversations")) {
+      targets.push({ path: this.conversationsDir, source: "conversations", accepts: (name) => name.endsWith(".jsonl"), create: true });
+    }
+    return targets;
+  }
+
+  private watchPath(target: WatchTarget): void {
+    if (this.watchers.has(target.path)) return;
+
+    try {
+      if (!existsSync(target.path)) {
+        if (!target.create) return;
+        mkdirSync(target.path, { recursive: true });
+      }
+      const isDirectory = statSync(target.path).isDirectory();
+      const watcher = watch(target.path, { recursive: isDirectory, persistent: false }, (_event, fileName) => {
+        // A single watched file reports its own name; directories report the changed entry
+        if (isDirectory && fileName && !target.accepts(fileName.toString())) return;
+        this.requestSync(target.source);
+      });
+      watcher.on("error", (error) => {
+        console.warn(`[MemorySync] Stopped watching ${target.path}:`, error);
+        watcher.close();
+        this.watchers.delete(target.path);
+      });
+      this.watchers.set(target.path, watcher);
+    } catch (error) {
+      console.warn(`[MemorySync] Cannot watch ${target.path}:`, error);
+    }
+  }
+}
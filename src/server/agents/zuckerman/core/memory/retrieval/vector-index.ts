@@ -0,0 +1,225 @@
+/**
+ * Vector index over chunk embeddings
+ * Uses a sqlite-vec vec0 table (approximate nearest neighbours in SQLite) when the extension loads,
+ * and falls back to scanning the packed embeddings in the chunks table otherwise.
+ */
+
+import type { DatabaseSync } from "node:sqlite";
+import { createRequire } from "node:module";
+import { cosineSimilarity, packEmbedding, unpackEmbedding } from "./encoding/embeddings.js";
+
+export type VectorIndexKind = "sqlite-vec" | "scan";
+
+export type VectorSearchFilter = {
+  sources?: string[];
+  conversationId?: string;
+  includeShared?: boolean; // With conversationId, also chunks that belong to no conversation
+};
+
+export type VectorMatch = {
+  seq: number; // chunks.seq
+  score: number; // Cosine similarity
+};
+
+export interface VectorIndex {
+  readonly kind: VectorIndexKind;
+
+  /**
+   * Add or replace the vector of a chunk
+   */
+  upsert(seq: number, embedding: Float32Array, source: string, conversationId: string | null): void;
+
+  remove(seqs: number[]): void;
+
+  /**
+   * The k chunks closest to the query, best first
+   */
+  search(query: Float32Array, k: number, filter?: VectorSearchFilter): VectorMatch[];
+}
+
+const VEC_TABLE = "chunks_vec";
+const DIMS_META_KEY = "vector_dims";
+
+/**
+ * Where the sqlite-vec loadable extension lives: the configured path, or the sqlite-vec package when installed
+ */
+function resolveSqliteVecPath(extensionPath?: string): string | null {
+  if (extensionPath) return extensionPath;
+  try {
+    const sqliteVec = createRequire(import.meta.url)("sqlite-vec") as { getLoadablePath(): string };
+    return sqliteVec.getLoadablePath();
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Load sqlite-vec into the connection (which must allow extensions)
+ */
+export function loadVectorExtension(db: DatabaseSync, extensionPath?: string): { loaded: boolean; error?: string } {
+  const path = resolveSqliteVecPath(extensionPath);
+  if (!path) {
+    return { loaded: false, error: "sqlite-vec not found (install sqlite-vec or set memorySearch.store.vector.extensionPath)" };
+  }
+  try {
+    db.loadExtension(path);
+    db.prepare("SELECT vec_version()").get();
+    return { loaded: true };
+  } catch (error) {
+    return { loaded: false, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+function filterClause(filter: VectorSearchFilter | undefined, params: unknown[]): string {
+  const clauses: string[] = [];
+  if (filter?.sources && filter.sources.length > 0) {
+    clauses.push(`source IN (${filter.sources.map(() => "?").join(",")})`);
+    params.push(...filter.sources);
+  }
+  if (filter?.conversationId !== undefined) {
+    clauses.push(filter.includeShared ? "(conversation_id = ? OR conversation_id IS NULL)" : "conversation_id = ?");
+    params.push(filter.conversationId);
+  }
+  return clauses.map(clause => ` AND ${clause}`).join("");
+}
+
+/**
+ * Brute-force cosine scan over chunks.embedding; the chunks table is the index
+ */
+export class ScanVectorIndex implements VectorIndex {
+  readonly kind = "scan" as const;
+
+  constructor(private db: DatabaseSync) {}
+
+  upsert(): void {
+    // Embeddings are read straight from the chunks table
+  }
+
+  remove(): void {
+    // Rows go away with their chunks
+  }
+
+  search(query: Float32Array, k: number, filter?: VectorSearchFilter): VectorMatch[] {
+    const params: unknown[] = [query.length];
+    const where = filterClause(filter, params);
+    const rows = this.db.prepare(
+      `SELECT seq, embedding FROM chunks WHERE dims = ?${where}`,
+    ).all(...(params as Array<string | number>)) as Array<{ seq: number; embedding: Uint8Array }>;
+
+    const matches: VectorMatch[] = [];
+    for (const row of rows) {
+      const blob = row.embedding;
+      // Read in place when SQLite's buffer is float-aligned (it usually is)
+      const vector = blob.byteOffset % 4 === 0
+        ? new Float32Array(blob.buffer, blob.byteOffset, blob.byteLength / 4)
+        : unpackEmbedding(blob);
+      matches.push({ seq: row.seq, score: cosineSimilarity(query, vector) });
+    }
+    matches.sort((a, b) => b.score - a.score);
+    return matches.slice(0, k);
+  }
+}
+
+/**
+ * sqlite-vec vec0 table keyed by chunks.seq, with source and conversation as filterable metadata.
+ * The table is created for the dimension of the first vector and rebuilt when the model's dimension changes.
+ */
+export class SqliteVecIndex implements VectorIndex {
+  readonly kind = "sqlite-vec" as const;
+  private dims: number | null;
+
+  constructor(private db: DatabaseSync) {
+    const row = db.prepare("SELECT value FROM meta WHERE key = ?").get(DIMS_META_KEY) as { value: string } | undefined;
+    this.dims = row ? Number(row.value) : null;
+  }
+
+  upsert(seq: number, embedding: Float32Array, source: string, conversationId: string | null): void {
+    if (embedding.length === 0) {
+      this.remove([seq]);
+      return;
+    }
+    this.ensureTable(embedding.length);
+    // vec0 only accepts integer rowids, and plain JS numbers bind as REAL
+    this.db.prepare(`DELETE FROM ${VEC_TABLE} WHERE rowid = ?`).run(BigInt(seq));
+    this.db.prepare(`INSERT INTO ${VEC_TABLE} (rowid, embedding, source, conversation_id) VALUES (?, ?, ?, ?)`)
+      .run(BigInt(seq), packEmbedding(embedding), source, conversationId ?? "");
+  }
+
+  remove(seqs: number[]): void {
+    if (this.dims === null || seqs.length === 0) return;
+    const remove = this.db.prepare(`DELETE FROM ${VEC_TABLE} WHERE rowid = ?`);
+    for (const seq of seqs) {
+      remove.run(BigInt(seq));
+    }
+  }
+
+  search(query: Float32Array, k: number, filter?: VectorSearchFilter): VectorMatch[] {
+    if (this.dims === null || query.length !== this.dims || k <= 0) return [];
+
+    // vec0 metadata filters take single values; several sources (or a conversation plus shared
+    // chunks) are filtered by the caller
+    const params: unknown[] = [packEmbedding(query), k];
+    let where = "";
+    if (filter?.sources?.length === 1) {
+      where += " AND source = ?";
+      params.push(filter.sources[0]);
+    }
+    if (filter?.conversationId !== undefined && !filter.includeShared) {
+      where += " AND conversation_id = ?";
+      params.push(filter.conversationId);
+    }
+
+    const rows = this.db.prepare(
+      `SELECT rowid, distance FROM ${VEC_TABLE} WHERE embedding MATCH ? AND k = ?${where} ORDER BY distance`,
+    ).all(...(params as Array<string | number | Uint8Array>)) as Array<{ rowid: number; distance: number }>;
+    return rows.map(row => ({ seq: Number(row.rowid), score: 1 - row.distance }));
+  }
+
+  /**
+   * Fill the table from chunks when it is missing vectors (new table, migrated database,
+   * or chunks written while the extension was unavailable)
+   */
+  backfill(): number {
+    const latest = this.db.prepare(
+      "SELECT dims FROM chunks WHERE dims > 0 ORDER BY updated_at DESC LIMIT 1",
+    ).get() as { dims: number } | undefined;
+    if (!latest) return 0;
+    this.ensureTable(latest.dims);
+
+    const expected = (this.db.prepare("SELECT COUNT(*) as count FROM chunks WHERE dims = ?").get(latest.dims) as { count: number }).count;
+    const indexed = (this.db.prepare(`SELECT COUNT(*) as count FROM ${VEC_TABLE}`).get() as { count: number }).count;
+    if (expected === indexed) return 0;
+
+    this.db.exec(`DELETE FROM ${VEC_TABLE}`);
+    const insert = this.db.prepare(`INSERT INTO ${VEC_TABLE} (rowid, embedding, source, conversation_id) VALUES (?, ?, ?, ?)`);
+    const rows = this.db.prepare(
+      "SELECT seq, embedding, source, conversation_id FROM chunks WHERE dims = ?",
+    ).all(latest.dims) as Array<{ seq: number; embedding: Uint8Array; source: string; conversation_id: string | null }>;
+
+    this.db.exec("BEGIN");
+    try {
+      for (const row of rows) {
+        insert.run(BigInt(row.seq), row.embedding, row.source, row.conversation_id ?? "");
+      }
+      this.db.exec("COMMIT");
+    } catch (error) {
+      this.db.exec("ROLLBACK");
+      throw error;
+    }
+    return rows.length;
+  }
+
+  private ensureTable(dims: number): void {
+    if (this.dims === dims) return;
+    this.db.exec(`DROP TABLE IF EXISTS ${VEC_TABLE}`);
+    this.db.exec(
+      `CREATE VIRTUAL TABLE ${VEC_TABLE} USING vec0(\n` +
+        `  embedding float[${dims}] distance_metric=cosine,\n` +
+        `  source text,\n` +
+        `  conversation_id text\n` +
+        `);`,
+    );
+    this.db.prepare("INSERT OR REPLACE INTO meta (key, value) VALUES (?, ?)").run(DIMS_META_KEY, String(dims));
+    this.dims = dims;
+  }
+}
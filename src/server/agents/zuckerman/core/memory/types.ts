@@ -5,12 +5,27 @@
 
 export type MemoryType = "working" | "episodic" | "semantic" | "procedural" | "prospective" | "emotional";
 
+export const MEMORY_TYPES: MemoryType[] = ["semantic", "episodic", "procedural", "prospective", "emotional", "working"];
+
 /**
  * Memory metadata - dynamic properties
  */
+/**
+ * When a prospective memory is due: at a time (optionally repeating), or the next time
+ * the agent talks with someone
+ */
+export type ProspectiveDue =
+  | { kind: "time"; at: number; recurrence?: "daily" | "weekly" | "monthly" | "yearly" }
+  | { kind: "conversation"; with: string };
+
 export interface MemoryMetadata {
   conversationId?: string;
   channelSource?: string;
+  // Prospective memories (see prospective.ts)
+  due?: ProspectiveDue;
+  calendarEventId?: string; // Calendar event that fires a time-due reminder
+  status?: "pending" | "done";
+  firedAt?: number;
   [key: string]: unknown;
 }
 
@@ -24,6 +39,16 @@ export interface Memory {
   createdAt: number;
   updatedAt: number;
   metadata?: MemoryMetadata;
+  /**
+   * Lifecycle (see lifecycle.ts): how much the memory matters (0-1), how sure we are of it (0-1),
+   * how often and when it was last recalled, and whether the user protected it from decay
+   */
+  importance?: number;
+  confidence?: number;
+  accessCount?: number;
+  lastAccessedAt?: number;
+  pinned?: boolean;
+  archivedAt?: number; // Archived memories are kept but no longer recalled
 }
 
 /**
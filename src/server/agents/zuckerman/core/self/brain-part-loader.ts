@@ -0,0 +1,166 @@
+import { readFile, readdir } from "node:fs/promises";
+import { existsSync } from "node:fs";
+import { join } from "node:path";
+import { z } from "zod";
+import type { BrainPart } from "./types.js";
+import { formatMemoryText, getCommonContext } from "./system2-brain-parts.js";
+
+export interface BrainPartLoadError {
+  file: string;
+  error: string;
+}
+
+export interface LoadedBrainParts {
+  parts: BrainPart[];
+  errors: BrainPartLoadError[];
+}
+
+const BRAIN_PART_ID = /^[a-z0-9][a-z0-9-]*$/;
+
+const brainPartFrontmatterSchema = z.object({
+  name: z.string().min(1),
+  description: z.string().min(1),
+  trait: z.enum(["fastCheap", "cheap", "fast", "highQuality", "largeContext"]).optional(),
+  temperature: z.number().min(0).max(2).optional(),
+  tools: z.array(z.string().min(1)).optional(),
+  maxIterations: z.number().int().positive().optional(),
+  maxTokens: z.number().int().positive().optional(),
+}).strict();
+
+/**
+ * Parse a scalar YAML value: numbers, booleans, quoted strings and inline `[a, b]` lists
+ */
+function parseValue(raw: string): unknown {
+  const value = raw.trim();
+  if (value.startsWith("[") && value.endsWith("]")) {
+    const inner = value.slice(1, -1).trim();
+    return inner ? inner.split(",").map(item => parseValue(item)) : [];
+  }
+  if (/^(["']).*\1$/.test(value)) return value.slice(1, -1);
+  if (value === "true" || value === "false") return value === "true";
+  if (value !== "" && !Number.isNaN(Number(value))) return Number(value);
+  return value;
+}
+
+/**
+ * Split a markdown file into its YAML frontmatter (flat keys and lists only) and body
+ */
+export function parseFrontmatter(content: string): { data: Record<string, unknown>; body: string } {
+  const match = content.match(/^---\r?\n([\s\S]*?)\r?\n---\r?\n?([\s\S]*)$/);
+  if (!match) {
+    throw new Error("Missing frontmatter (expected a leading --- block)");
+  }
+
+  const data: Record<string, unknown> = {};
+  let listKey: string | null = null;
+  for (const line of match[1].split(/\r?\n/)) {
+    if (!line.trim() || line.trim().startsWith("#")) continue;
+
+    const item = line.match(/^\s+-\s+(.*)$/);
+    if (item && listKey) {
+      (data[listKey] as unknown[]).push(parseValue(item[1]));
+      continue;
+    }
+
+    const entry = line.match(/^([A-Za-z][\w-]*):\s*(.*)$/);
+    if (!entry) {
+      throw new Error(`Invalid frontmatter line: "${line}"`);
+    }
+    const [, key, value] = entry;
+    if (value.trim() === "") {
+      data[key] = [];
+      listKey = key;
+    } else {
+      data[key] = parseValue(value);
+      listKey = null;
+    }
+  }
+
+  return { data, body: match[2].trim() };
+}
+
+/**
+ * Build a brain part from a markdown file. The body is the prompt template:
+ * `{{commonContext}}` and `{{workingMemory}}` are filled in on every run.
+ */
+export function parseBrainPart(id: string, content: string, file?: string): BrainPart {
+  if (!BRAIN_PART_ID.test(id)) {
+    throw new Error(`Invalid brain part id "${id}" (use lowercase letters, digits and dashes)`);
+  }
+
+  const { data, body } = parseFrontmatter(content);
+  const parsed = brainPartFrontmatterSchema.safeParse(data);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map(issue => `${issue.path.join(".") || "frontmatter"}: ${issue.message}`);
+    throw new Error(issues.join("; "));
+  }
+  if (!body) {
+    throw new Error("Prompt template is empty");
+  }
+
+  return {
+    id,
+    ...parsed.data,
+    file,
+    getPrompt: (workingMemory: string[]) => body
+      .replaceAll("{{commonContext}}", getCommonContext())
+      .replaceAll("{{workingMemory}}", formatMemoryText(workingMemory)),
+  };
+}
+
+/**
+ * Service for loading brain parts from markdown files in the agent's core/brain-parts directory
+ */
+export class BrainPartLoader {
+  private cache: Map<string, LoadedBrainParts> = new Map();
+
+  /**
+   * Load and validate all brain parts. Invalid files are skipped and reported in `errors`.
+   */
+  async loadBrainParts(agentDir: string): Promise<LoadedBrainParts> {
+    const cached = this.cache.get(agentDir);
+    if (cached) {
+      return cached;
+    }
+
+    const brainPartsDir = join(agentDir, "core", "brain-parts");
+    const loaded: LoadedBrainParts = { parts: [], errors: [] };
+
+    try {
+      if (existsSync(brainPartsDir)) {
+        const files = (await readdir(brainPartsDir)).filter(file => file.endsWith(".md")).sort();
+        for (const file of files) {
+          const filePath = join(brainPartsDir, file);
+          try {
+            const content = await readFile(filePath, "utf-8");
+            loaded.parts.push(parseBrainPart(file.replace(/\.md$/, ""), content, filePath));
+          } catch (err) {
+            const error = err instanceof Error ? err.message : String(err);
+            console.warn(`[BrainPartLoader] Skipping invalid brain part ${filePath}: ${error}`);
+            loaded.errors.push({ file: filePath, error });
+          }
+        }
+      }
+    } catch (err) {
+      console.warn(`[BrainPartLoader] Failed to read brain parts directory:`, err);
+    }
+
+    if (loaded.parts.length === 0) {
+      console.warn(`[BrainPartLoader] No brain parts found in ${brainPartsDir}`);
+    }
+
+    this.cache.set(agentDir, loaded);
+    return loaded;
+  }
+
+  /**
+   * Clear cache for a specific agent or all agents
+   */
+  clearCache(agentDir?: string): void {
+    if (agentDir) {
+      this.cache.delete(agentDir);
+    } else {
+      this.cache.clear();
+    }
+  }
+}
@@ -1,3 +1,9 @@
+import type { SecurityContext } from "@server/world/execution/security/types.js";
+import type { ApprovalOutcome } from "@server/world/execution/security/approval/index.js";
+import type { UsageStage } from "@server/world/providers/llm/index.js";
+import type { RecalledMemory } from "../memory/recall.js";
+import type { InputSource } from "./scheduler.js";
+
 export interface SpeakEvent {
   type: "speak";
   conversationId: string;
@@ -52,7 +58,7 @@ export interface StreamLifecycleEvent {
   type: "stream.lifecycle";
   conversationId: string;
   runId: string;
-  phase: "start" | "end" | "error";
+  phase: "start" | "end" | "error" | "cancelled";
   message?: string;
   tokensUsed?: number;
   toolsUsed?: string[];
@@ -75,6 +81,32 @@ export interface StreamToolResultEvent {
   toolResult: unknown;
 }
 
+export interface StreamToolDeniedEvent {
+  type: "stream.tool.denied";
+  conversationId: string;
+  runId: string;
+  tool: string;
+  toolArgs: Record<string, unknown>;
+  policyKind: string;
+  reason: string;
+}
+
+export interface StreamToolApprovalEvent {
+  type: "stream.tool.approval";
+  conversationId: string;
+  runId: string;
+  approvalId: string;
+  tool: string;
+  toolArgs: Record<string, unknown>; // Requested arguments, or the ones the call runs with once resolved
+  phase: "requested" | "resolved";
+  reason?: string; // requested: why the call needs approval
+  expiresAt?: number; // requested
+  outcome?: ApprovalOutcome; // resolved
+  edited?: boolean; // resolved: the user changed the arguments
+  resolvedBy?: string; // resolved
+  note?: string; // resolved
+}
+
 export interface StreamResponseEvent {
   type: "stream.response";
   conversationId: string;
@@ -91,11 +123,37 @@ export interface SelfErrorEvent {
   errorStack?: string;
 }
 
+export interface MemoryRecallEvent {
+  type: "memory.recall";
+  conversationId: string;
+  runId: string;
+  /**
+   * Prompt the memories were injected into: "council", "respond" or "brain:<brainPartId>"
+   */
+  stage: string;
+  memories: RecalledMemory[];
+}
+
+export interface UsageEvent {
+  type: "usage";
+  conversationId: string;
+  runId: string;
+  stage: UsageStage;
+  provider: string;
+  modelId: string;
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  cost: number;
+}
+
 export interface MessageEvent {
   type: "message";
   conversationId: string;
   message: string;
   runId?: string;
+  securityContext?: SecurityContext;
+  source?: InputSource; // What produced the message (default: message)
 }
 
 export type AgentEvent =
@@ -110,5 +168,9 @@ export type AgentEvent =
   | StreamLifecycleEvent
   | StreamToolCallEvent
   | StreamToolResultEvent
+  | StreamToolDeniedEvent
+  | StreamToolApprovalEvent
   | StreamResponseEvent
+  | MemoryRecallEvent
+  | UsageEvent
   | SelfErrorEvent;
@@ -0,0 +1,77 @@
+import type { ModelTrait, ZuckermanConfig } from "@server/world/config/types.js";
+import { isThinkingLevel, type ModelSelection } from "@server/world/providers/llm/index.js";
+import type { ConversationEntry } from "@server/agents/zuckerman/conversations/types.js";
+import type { BrainPart } from "./types.js";
+
+/**
+ * Per-conversation model settings, as persisted on the conversation entry
+ */
+export type ConversationModelOverrides = Pick<
+  ConversationEntry,
+  "modelOverride" | "providerOverride" | "temperatureOverride" | "thinkingLevel"
+>;
+
+/**
+ * Model defaults from agents.list (falling back to agents.defaults)
+ */
+export interface AgentModelDefaults {
+  model?: string;
+  provider?: string;
+  temperature?: number;
+}
+
+/**
+ * Which step of the Self loop is calling the model
+ */
+export type ModelStage =
+  | { kind: "council" }
+  | { kind: "brainPart"; brainPart: BrainPart }
+  | { kind: "respond" };
+
+const STAGE_TRAITS: Record<"council" | "respond", ModelTrait> = {
+  council: "fastCheap",
+  respond: "fast",
+};
+
+const DEFAULT_BRAIN_PART_TRAIT: ModelTrait = "fastCheap";
+
+export function resolveAgentModelDefaults(config: ZuckermanConfig, agentId: string): AgentModelDefaults {
+  const entry = config.agents?.list?.find((agent) => agent.id === agentId);
+  const defaults = config.agents?.defaults;
+  return {
+    model: entry?.defaultModel ?? defaults?.defaultModel,
+    provider: entry?.defaultProvider ?? defaults?.defaultProvider,
+    temperature: entry?.temperature ?? defaults?.temperature,
+  };
+}
+
+/**
+ * Decide the model for one call.
+ *
+ * Precedence: conversation overrides, then the agent's defaultModel/temperature, then the
+ * stage's trait (council and brain parts each pick their own) and brain part temperature.
+ */
+export function resolveModelSelection(
+  stage: ModelStage,
+  agentDefaults: AgentModelDefaults,
+  overrides?: ConversationModelOverrides,
+): ModelSelection {
+  const trait = stage.kind === "brainPart"
+    ? stage.brainPart.trait ?? DEFAULT_BRAIN_PART_TRAIT
+    : STAGE_TRAITS[stage.kind];
+  const stageTemperature = stage.kind === "brainPart" ? stage.brainPart.temperature : undefined;
+
+  const provider = overrides?.providerOverride ?? agentDefaults.provider;
+  // The agent's default model only makes sense on the agent's own provider
+  const agentModel = !overrides?.providerOverride || overrides.providerOverride === agentDefaults.provider
+    ? agentDefaults.model
+    : undefined;
+
+  return {
+    trait,
+    provider,
+    modelId: overrides?.modelOverride ?? agentModel,
+    temperature: overrides?.temperatureOverride ?? agentDefaults.temperature ?? stageTemperature,
+    thinkingLevel: isThinkingLevel(overrides?.thinkingLevel) ? overrides.thinkingLevel : undefined,
+  };
+}
@@ -0,0 +1,277 @@
+/**
+ * What woke the council up
+ * - message / calendar / reminder: new input from outside the agent
+ * - thought / toolResult: a brain part finished (with or without tool calls) and the council should review it
+ * - idle: nothing new arrived, but working memory still holds unfinished work
+ */
+export type InputSource = "message" | "calendar" | "reminder";
+export type WakeSource = InputSource | "thought" | "toolResult" | "idle";
+
+/**
+ * Outcome of one council wakeup
+ */
+export type CouncilDecision = "respond" | "think" | "sleep" | "idle" | "error" | "cancelled";
+
+export interface SchedulerOptions {
+  maxCallsPerMinute: number;
+  idleBackoffMinMs: number;
+  idleBackoffMaxMs: number;
+}
+
+export const DEFAULT_SCHEDULER_OPTIONS: SchedulerOptions = {
+  maxCallsPerMinute: 20,
+  idleBackoffMinMs: 5_000,
+  idleBackoffMaxMs: 5 * 60_000,
+};
+
+/**
+ * One council wakeup: all inputs queued for a conversation ("" for agent-internal work)
+ */
+export interface Wake {
+  conversationId: string;
+  sources: WakeSource[];
+  queuedAt: number;
+}
+
+export interface SchedulerMetrics {
+  wakeups: number;
+  wakeupsBySource: Partial<Record<WakeSource, number>>;
+  decisions: Partial<Record<CouncilDecision, number>>;
+  rateLimited: number; // Wakeups delayed by maxCallsPerMinute
+  callsLastMinute: number;
+  queued: Record<string, number>; // Pending inputs per conversation
+  idleBackoffMs: number | null; // Delay of the armed idle wakeup, null when none is armed
+  lastWakeAt?: number;
+  lastDecisionAt?: number;
+}
+
+const INPUT_SOURCES: WakeSource[] = ["message", "calendar", "reminder"];
+const RATE_WINDOW_MS = 60_000;
+
+/**
+ * Decides when the Self council runs. Instead of polling, the loop awaits next(), which
+ * resolves once an input is queued. Inputs are queued per conversation and served
+ * round-robin, so one busy conversation can't starve the others; inputs that arrive for a
+ * conversation while it is waiting are merged into its pending wakeup.
+ */
+export class CouncilScheduler {
+  private options: SchedulerOptions;
+  // Insertion order is the serving order: a served conversation re-queues at the back
+  private queues = new Map<string, { sources: WakeSource[]; queuedAt: number }>();
+  private callTimes: number[] = [];
+  private waiter: (() => void) | null = null;
+  private idleTimer: ReturnType<typeof setTimeout> | null = null;
+  private dueTimers = new Set<ReturnType<typeof setTimeout>>();
+  private idleBackoffMs: number;
+  private armedIdleMs: number | null = null;
+  private closed = false;
+  private metrics = {
+    wakeups: 0,
+    wakeupsBySource: {} as Partial<Record<WakeSource, number>>,
+    decisions: {} as Partial<Record<CouncilDecision, number>>,
+    rateLimited: 0,
+    lastWakeAt: undefined as number | undefined,
+    lastDecisionAt: undefined as number | undefined,
+  };
+
+  constructor(options: Partial<SchedulerOptions> = {}) {
+    this.options = { ...DEFAULT_SCHEDULER_OPTIONS, ...options };
+    this.idleBackoffMs = this.options.idleBackoffMinMs;
+  }
+
+  /**
+   * Apply config (rate limit, idle backoff) without dropping queued inputs
+   */
+  configure(options: Partial<SchedulerOptions>): void {
+    this.options = { ...this.options, ...options };
+    if (!this.idleTimer) {
+      this.idleBackoffMs = this.options.idleBackoffMinMs;
+    }
+  }
+
+  /**
+   * Queue an input for a conversation and wake the loop
+   */
+  notify(source: WakeSource, conversationId: string = ""): void {
+    if (this.closed) return;
+
+    if (INPUT_SOURCES.includes(source)) {
+      this.resetIdle();
+    }
+
+    const queue = this.queues.get(conversationId);
+    if (queue) {
+      if (!queue.sources.includes(source)) {
+        queue.sources.push(source);
+      }
+    } else {
+      this.queues.set(conversationId, { sources: [source], queuedAt: Date.now() });
+    }
+    this.wakeWaiter();
+  }
+
+  /**
+   * Queue an input at a future time (e.g. a reminder's due time). Returns a function that cancels it.
+   */
+  notifyAt(at: number, source: WakeSource, conversationId: string = ""): () => void {
+    const timer = setTimeout(() => {
+      this.dueTimers.delete(timer);
+      this.notify(source, conversationId);
+    }, Math.max(0, at - Date.now()));
+    timer.unref?.();
+    this.dueTimers.add(timer);
+
+    return () => {
+      clearTimeout(timer);
+      this.dueTimers.delete(timer);
+    };
+  }
+
+  /**
+   * Re-check unfinished work later. Each idle wakeup that ends in "sleep" doubles the
+   * delay (up to idleBackoffMaxMs); new input or any progress resets it.
+   */
+  scheduleIdle(): void {
+    if (this.closed || this.idleTimer || this.queues.size > 0) return;
+
+    const delay = this.idleBackoffMs;
+    this.armedIdleMs = delay;
+    this.idleTimer = setTimeout(() => {
+      this.idleTimer = null;
+      this.armedIdleMs = null;
+      this.idleBackoffMs = Math.min(this.idleBackoffMs * 2, this.options.idleBackoffMaxMs);
+      this.notify("idle");
+    }, delay);
+    this.idleTimer.unref?.();
+  }
+
+  /**
+   * Drop queued inputs for a conversation (e.g. after its work was cancelled)
+   */
+  discard(conversationId: string): void {
+    this.queues.delete(conversationId);
+  }
+
+  /**
+   * Wait for the next wakeup. Resolves with null once the scheduler is closed.
+   */
+  async next(): Promise<Wake | null> {
+    let delayed = false;
+
+    while (!this.closed) {
+      if (this.queues.size > 0) {
+        const delay = this.rateLimitDelay(Date.now());
+        if (delay > 0) {
+          if (!delayed) {
+            delayed = true;
+            this.metrics.rateLimited++;
+          }
+          await this.wait(delay);
+          continue;
+        }
+
+        const [conversationId, queue] = this.queues.entries().next().value!;
+        this.queues.delete(conversationId);
+        const now = Date.now();
+        this.callTimes.push(now);
+        this.metrics.wakeups++;
+        this.metrics.lastWakeAt = now;
+        for (const source of queue.sources) {
+          this.metrics.wakeupsBySource[source] = (this.metrics.wakeupsBySource[source] ?? 0) + 1;
+        }
+        return { conversationId, sources: queue.sources, queuedAt: queue.queuedAt };
+      }
+
+      await this.wait();
+    }
+
+    return null;
+  }
+
+  /**
+   * Record what the council did with a wakeup
+   */
+  recordDecision(decision: CouncilDecision): void {
+    this.metrics.decisions[decision] = (this.metrics.decisions[decision] ?? 0) + 1;
+    this.metrics.lastDecisionAt = Date.now();
+    if (decision === "respond" || decision === "think") {
+      this.resetIdle();
+    }
+  }
+
+  getMetrics(): SchedulerMetrics {
+    this.pruneCallTimes(Date.now());
+    const queued: Record<string, number> = {};
+    for (const [conversationId, queue] of this.queues) {
+      queued[conversationId] = queue.sources.length;
+    }
+
+    return {
+      ...this.metrics,
+      wakeupsBySource: { ...this.metrics.wakeupsBySource },
+      decisions: { ...this.metrics.decisions },
+      callsLastMinute: this.callTimes.length,
+      queued,
+      idleBackoffMs: this.armedIdleMs,
+    };
+  }
+
+  /**
+   * Stop scheduling: pending next() calls resolve with null
+   */
+  close(): void {
+    this.closed = true;
+    this.resetIdle();
+    for (const timer of this.dueTimers) {
+      clearTimeout(timer);
+    }
+    this.dueTimers.clear();
+    this.queues.clear();
+    this.wakeWaiter();
+  }
+
+  private resetIdle(): void {
+    if (this.idleTimer) {
+      clearTimeout(this.idleTimer);
+      this.idleTimer = null;
+    }
+    this.armedIdleMs = null;
+    this.idleBackoffMs = this.options.idleBackoffMinMs;
+  }
+
+  private pruneCallTimes(now: number): void {
+    while (this.callTimes.length > 0 && this.callTimes[0] <= now - RATE_WINDOW_MS) {
+      this.callTimes.shift();
+    }
+  }
+
+  /**
+   * How long until another council call fits in the per-minute budget
+   */
+  private rateLimitDelay(now: number): number {
+    this.pruneCallTimes(now);
+    if (this.callTimes.length < this.options.maxCallsPerMinute) {
+      return 0;
+    }
+    return this.callTimes[0] + RATE_WINDOW_MS - now;
+  }
+
+  /**
+   * Sleep until notified (or closed), or until `ms` elapses when given
+   */
+  private wait(ms?: number): Promise<void> {
+    return new Promise(resolve => {
+      const timer = ms !== undefined ? setTimeout(() => this.wakeWaiter(), ms) : null;
+      this.waiter = () => {
+        if (timer) clearTimeout(timer);
+        resolve();
+      };
+    });
+  }
+
+  private wakeWaiter(): void {
+    const waiter = this.waiter;
+    this.waiter = null;
+    waiter?.();
+  }
+}
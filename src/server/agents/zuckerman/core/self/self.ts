@@ -3,44 +3,138 @@ import { loadConfig } from "@server/world/config/index.js";
 import { resolveAgentHomedir } from "@server/world/homedir/resolver.js";
 import { MemorySystem } from "@server/agents/zuckerman/core/memory/memory-service.js";
 import { resolveMemorySearchConfig } from "@server/agents/zuckerman/core/memory/config.js";
+import { getMemorySearchManager, type MemorySearchManager } from "@server/agents/zuckerman/core/memory/retrieval/search.js";
+import { recallMemories, resolveRecallOptions, type RecallOptions } from "@server/agents/zuckerman/core/memory/recall.js";
+import { formatRecalledMemoriesForPrompt } from "@server/agents/zuckerman/core/memory/prompt-formatter.js";
+import { resolveMemoryLifecycleOptions, type MemoryLifecycleOptions } from "@server/agents/zuckerman/core/memory/lifecycle.js";
+import type { MemoryType } from "@server/agents/zuckerman/core/memory/types.js";
+import { resolveSecurityContext } from "@server/world/execution/security/policy/resolver.js";
+import type { SecurityContext } from "@server/world/execution/security/types.js";
 import type { AgentEvent, MessageEvent } from "./events.js";
-import { streamText, generateText, Output } from "ai";
-import type { Tool, LanguageModel, ModelMessage } from "ai";
+import { streamText, generateText } from "ai";
+import type { Tool, ModelMessage } from "ai";
 import { z } from "zod";
-import { LLMProvider } from "@server/world/providers/llm/index.js";
+import {
+  LLMProvider,
+  generateStructured,
+  checkBudget,
+  describeBudgetStatus,
+  downgradeSelection,
+  recordUsage,
+  type ResolvedModel,
+  type TokenUsage,
+  type UsageStage,
+} from "@server/world/providers/llm/index.js";
+import type { McpConfig, UsageConfig } from "@server/world/config/types.js";
+import { mcpClients } from "@server/world/providers/mcp/index.js";
 import { ToolRegistry } from "@server/agents/zuckerman/tools/registry.js";
+import {
+  PluginToolLoader,
+  setPluginToolEnabled,
+  type LoadedPluginTools,
+  type PluginTool,
+} from "@server/agents/zuckerman/tools/plugins/index.js";
 import { IdentityLoader } from "../identity/identity-loader.js";
 import { agentDiscovery } from "@server/agents/discovery.js";
 import { ToolExecutor } from "./tool-executor.js";
-import { SYSTEM2_BRAIN_PARTS, getBrainPart, selfCouncilPrompt, getCommunicationPrompt } from "./system2-brain-parts.js";
-import type { BrainPart, EventHandler, Action } from "./types.js";
+import { selfCouncilPrompt, getCommunicationPrompt } from "./system2-brain-parts.js";
+import { BrainPartLoader, type LoadedBrainParts } from "./brain-part-loader.js";
+import { CouncilScheduler, type CouncilDecision, type SchedulerMetrics, type Wake, type WakeSource } from "./scheduler.js";
+import { WorkingMemory, SCRATCHPAD } from "./working-memory.js";
+import type { BrainPart, EventHandler, CouncilAction } from "./types.js";
+import {
+  resolveAgentModelDefaults,
+  resolveModelSelection,
+  type AgentModelDefaults,
+  type ConversationModelOverrides,
+  type ModelStage,
+} from "./model-resolver.js";
+
+// How often a budget-paused loop checks whether it may resume
+const BUDGET_PAUSE_POLL_MS = 5000;
+
+// Model calls a brain part may make per run when its file sets no maxIterations
+export const DEFAULT_BRAIN_PART_MAX_ITERATIONS = 10;
+
+// Conversations whose council pipelines may run at the same time
+export const DEFAULT_MAX_CONCURRENT_CONVERSATIONS = 4;
+
+/**
+ * A council run in progress, so it can be cancelled
+ */
+interface ActiveRun {
+  controller: AbortController;
+  conversationId: string;
+}
+
+export interface SelfOptions {
+  /**
+   * Look up per-conversation model overrides (model, provider, temperature, thinking level)
+   */
+  getModelOverrides?: (conversationId: string) => ConversationModelOverrides | undefined;
+  /**
+   * Resolve the security context of a conversation from its type, for work that runs without
+   * a message carrying one (after a restart, or on calendar, reminder and idle wakeups)
+   */
+  resolveSecurityContext?: (conversationId: string) => Promise<SecurityContext>;
+}
 
 export class Self {
   readonly agentId: string;
   private memoryManager!: MemorySystem;
+  private workingMemory!: WorkingMemory;
   private eventHandlers: Map<string, Set<EventHandler>> = new Map();
   private toolExecutor: ToolExecutor;
   private identityLoader: IdentityLoader;
-  private llmModel!: LanguageModel;
+  private brainPartLoader: BrainPartLoader;
+  private pluginToolLoader: PluginToolLoader;
+  private scheduler: CouncilScheduler;
   private availableTools!: Record<string, Tool>;
+  private toolRegistry: ToolRegistry | null = null;
+  private builtInToolNames: string[] = [];
+  private pluginTools: LoadedPluginTools = { tools: [], errors: [] };
+  private mcpToolNames: string[] = [];
+  private mcpConfig?: McpConfig;
+  private sandboxImage?: string;
   private agentDir!: string;
   private isRunning = false;
   private coreInitialized = false;
   private processingPromise: Promise<void> | null = null;
-
-  constructor(agentId: string) {
+  private securityContexts = new Map<string, SecurityContext>();
+  private defaultSecurityContext!: SecurityContext;
+  private recallOptions: RecallOptions | null = null;
+  private lifecycleOptions: MemoryLifecycleOptions | null = null;
+  private searchManager: MemorySearchManager | null = null;
+  private agentModelDefaults: AgentModelDefaults = {};
+  private usageConfig: UsageConfig = {};
+  private runTokens = new Map<string, number>();
+  private activeRuns = new Map<string, ActiveRun>();
+  // One running pipeline per partition; wakeups that arrive meanwhile wait in deferredWakes
+  private pipelines = new Map<string, Promise<void>>();
+  private deferredWakes = new Map<string, WakeSource[]>();
+  private maxConcurrentConversations = DEFAULT_MAX_CONCURRENT_CONVERSATIONS;
+  private budgetPauseReason: string | null = null;
+  private readonly getModelOverrides?: SelfOptions["getModelOverrides"];
+  private readonly resolveConversationSecurityContext?: SelfOptions["resolveSecurityContext"];
+
+  constructor(agentId: string, options: SelfOptions = {}) {
     this.agentId = agentId;
+    this.getModelOverrides = options.getModelOverrides;
+    this.resolveConversationSecurityContext = options.resolveSecurityContext;
     this.toolExecutor = new ToolExecutor((event) => this.emit(event));
     this.identityLoader = new IdentityLoader();
+    this.brainPartLoader = new BrainPartLoader();
+    this.pluginToolLoader = new PluginToolLoader();
+    this.scheduler = new CouncilScheduler();
 
     // Register handler for incoming message events
     this.on("message", async (event: MessageEvent) => {
-      if (!this.memoryManager) return;
-      const workingMemory = this.getWorkingMemory();
-      workingMemory.push(`new message from user at conversationId: ${event.conversationId} , message: ${event.message}`);
-      this.memoryManager.setAll("working", workingMemory, {
-        conversationId: event.conversationId,
-      });
+      if (event.securityContext) {
+        this.securityContexts.set(event.conversationId, event.securityContext);
+      }
+      if (!this.workingMemory) return;
+      this.workingMemory.push(event.conversationId, `new message from user at conversationId: ${event.conversationId} , message: ${event.message}`);
+      this.scheduler.notify(event.source ?? "message", event.conversationId);
     });
   }
 
@@ -48,12 +142,32 @@ export class Self {
     const config = await loadConfig();
     const homedir = resolveAgentHomedir(config, this.agentId);
     this.memoryManager = new MemorySystem(homedir, this.agentId);
+    this.workingMemory = new WorkingMemory(this.memoryManager);
+    this.defaultSecurityContext = resolveSecurityContext(config.security, "", "main", this.agentId);
+    this.recallOptions = resolveRecallOptions(config.agent?.memoryRecall);
+    this.lifecycleOptions = resolveMemoryLifecycleOptions(config.agent?.memoryLifecycle);
+    this.agentModelDefaults = resolveAgentModelDefaults(config, this.agentId);
+    this.usageConfig = config.usage ?? {};
+    this.mcpConfig = config.mcp;
+    this.sandboxImage = config.security?.sandbox?.docker?.image;
+    const { maxConcurrentConversations, ...schedulerOptions } = config.agent?.scheduler ?? {};
+    this.scheduler.configure(schedulerOptions);
+    this.maxConcurrentConversations = Math.max(1, maxConcurrentConversations ?? DEFAULT_MAX_CONCURRENT_CONVERSATIONS);
 
     const memorySearchConfig = config.agent?.memorySearch;
     if (memorySearchConfig) {
       const resolvedConfig = resolveMemorySearchConfig(memorySearchConfig, this.agentId);
       if (resolvedConfig) {
         await this.memoryManager.initializeDatabase(resolvedConfig, this.agentId);
+        const { manager, error } = await getMemorySearchManager({
+          config: resolvedConfig,
+          workspaceDir: homedir,
+          agentId: this.agentId,
+        });
+        if (error) {
+          console.warn(`[Self] Memory search unavailable, recall will use memory stores only:`, error);
+        }
+        this.searchManager = manager;
       }
     }
   }
@@ -76,67 +190,352 @@ export class Self {
    */
   async stop(): Promise<void> {
     this.isRunning = false;
+    this.scheduler.close();
+    this.cancel({}, "Agent stopped");
     if (this.processingPromise) {
       await this.processingPromise;
     }
   }
 
   /**
-   * Get working memory as string array
+   * Abort in-flight work: a council run by id, every run for a conversation, or (with an
+   * empty target) everything. Cancelling a conversation also clears its working memory
+   * partition so the council doesn't pick the work up again.
+   * Returns the ids of the runs that were aborted.
+   */
+  cancel(target: { runId?: string; conversationId?: string }, reason: string = "Cancelled by user"): string[] {
+    const all = !target.runId && !target.conversationId;
+    const cancelled: string[] = [];
+    for (const [runId, run] of this.activeRuns) {
+      if (all || runId === target.runId || (target.conversationId && run.conversationId === target.conversationId)) {
+        run.controller.abort(new Error(reason));
+        cancelled.push(runId);
+      }
+    }
+
+    const conversationId = target.conversationId;
+    if (conversationId && this.workingMemory) {
+      if (this.workingMemory.get(conversationId).length > 0 || cancelled.length > 0) {
+        this.workingMemory.set(conversationId, [
+          `work for conversationId: ${conversationId} was cancelled by the user (${reason}); do not respond there until a new message arrives`,
+        ]);
+      }
+      this.scheduler.discard(conversationId);
+      this.deferredWakes.delete(conversationId);
+    }
+
+    return cancelled;
+  }
+
+  /**
+   * Add an entry to a conversation's working memory, e.g. a reminder that came due
+   */
+  addToWorkingMemory(conversationId: string, entry: string): void {
+    this.workingMemory.push(conversationId, entry);
+  }
+
+  /**
+   * Working memory visible to one partition's prompts: its own entries plus the shared
+   * scratchpad. Other conversations' partitions are never included.
+   */
+  private getPromptMemory(conversationId: string): string[] {
+    const memory = this.workingMemory.get(conversationId);
+    if (!conversationId) {
+      return memory;
+    }
+    const scratchpad = this.workingMemory.get(SCRATCHPAD).map(entry => `[scratchpad] ${entry}`);
+    return [...scratchpad, ...memory];
+  }
+
+  /**
+   * Recall long-term memories relevant to a partition's working memory and format them
+   * for a prompt. Recalled memories are reported as a memory.recall event, and store
+   * memories are reinforced so they decay more slowly.
+   */
+  private async recallForPrompt(stage: string, runId: string, conversationId: string = ""): Promise<string> {
+    if (!this.recallOptions) return "";
+
+    try {
+      const memories = await recallMemories({
+        query: this.getPromptMemory(conversationId).join("\n"),
+        memorySystem: this.memoryManager,
+        searchManager: this.searchManager,
+        options: this.recallOptions,
+        conversationId,
+        lifecycle: this.lifecycleOptions,
+      });
+      if (memories.length === 0) return "";
+
+      this.memoryManager.touch(memories
+        .filter(memory => memory.source === "store")
+        .map(memory => ({ id: memory.id, type: memory.type as MemoryType })));
+
+      await this.emit({
+        type: "memory.recall",
+        conversationId,
+        runId,
+        stage,
+        memories,
+      });
+      return formatRecalledMemoriesForPrompt(memories);
+    } catch (error) {
+      console.warn(`[Self] Memory recall failed:`, error);
+      return "";
+    }
+  }
+
+  /**
+   * Security context for tool calls made on behalf of a conversation.
+   * Calls without a conversation (scratchpad work) run under the default main-conversation
+   * context, never under whichever conversation happened to send the last message.
+   * A conversation with no context from a message yet gets one resolved from its type.
+   */
+  private async getSecurityContext(conversationId: string): Promise<SecurityContext> {
+    const known = this.securityContexts.get(conversationId);
+    if (known) return known;
+    if (!conversationId || !this.resolveConversationSecurityContext) return this.defaultSecurityContext;
+
+    const resolved = await this.resolveConversationSecurityContext(conversationId);
+    this.securityContexts.set(conversationId, resolved);
+    return resolved;
+  }
+
+  /**
+   * Drop the state kept for a deleted conversation
+   */
+  forgetConversation(conversationId: string): void {
+    this.securityContexts.delete(conversationId);
+  }
+
+  /**
+   * Resolve the model for one call. Scratchpad calls have no conversation of their own,
+   * so they use the agent's defaults and only the global and agent budgets apply.
+   * Once a budget with onExceeded "downgrade" is spent, calls fall back to a cheaper trait.
+   */
+  private async resolveModel(stage: ModelStage, conversationId: string = SCRATCHPAD): Promise<ResolvedModel> {
+    const overrides = conversationId ? this.getModelOverrides?.(conversationId) : undefined;
+    let selection = resolveModelSelection(stage, this.agentModelDefaults, overrides);
+
+    const budget = checkBudget(this.usageConfig, { agentId: this.agentId, conversationId });
+    if (budget.exceeded && budget.action === "downgrade") {
+      selection = downgradeSelection(selection);
+    }
+    return LLMProvider.getInstance().resolve(selection);
+  }
+
+  /**
+   * Write one call's token usage to the ledger and report it to the conversation
    */
-  private getWorkingMemory(): string[] {
-    return this.memoryManager.getMemories({ type: "working", format: "content" }) as string[];
+  private async meter(
+    stage: UsageStage,
+    resolved: ResolvedModel,
+    usage: TokenUsage | undefined,
+    runId: string,
+    conversationId: string = "",
+    brainPart?: string,
+  ): Promise<void> {
+    const record = await recordUsage({
+      stage,
+      provider: resolved.provider,
+      modelId: resolved.modelId,
+      trait: resolved.trait,
+      usage,
+      agentId: this.agentId,
+      conversationId,
+      runId,
+      brainPart,
+    }, this.usageConfig);
+    if (!record) return;
+
+    this.runTokens.set(runId, (this.runTokens.get(runId) ?? 0) + record.totalTokens);
+    await this.emit({
+      type: "usage",
+      conversationId: record.conversationId ?? "",
+      runId,
+      stage,
+      provider: record.provider,
+      modelId: record.modelId,
+      inputTokens: record.inputTokens,
+      outputTokens: record.outputTokens,
+      totalTokens: record.totalTokens,
+      cost: record.cost,
+    });
+  }
+
+  /**
+   * Whether a spent global or agent budget (with onExceeded "pause") should hold the autonomous loop.
+   * Conversation budgets only hold their own conversation (see selfCouncil).
+   */
+  private isPausedByBudget(): boolean {
+    const budget = checkBudget(this.usageConfig, { agentId: this.agentId });
+    const paused = budget.exceeded && budget.action === "pause";
+
+    if (paused && !this.budgetPauseReason) {
+      this.budgetPauseReason = describeBudgetStatus(budget);
+      console.warn(`[Self] Pausing agent "${this.agentId}": ${this.budgetPauseReason}`);
+    } else if (!paused && this.budgetPauseReason) {
+      console.log(`[Self] Resuming agent "${this.agentId}" (was paused: ${this.budgetPauseReason})`);
+      this.budgetPauseReason = null;
+    }
+    return paused;
+  }
+
+  private isConversationPausedByBudget(conversationId: string): boolean {
+    const budget = checkBudget(this.usageConfig, { agentId: this.agentId, conversationId });
+    return budget.exceeded && budget.action === "pause" && budget.scope === "conversation";
   }
 
   /**
-   * Background processing loop that runs continuously on working memory
+   * Background processing loop: dispatches scheduler wakeups to per-conversation pipelines,
+   * running up to maxConcurrentConversations of them at once
    */
   private async processLoop(): Promise<void> {
     while (this.isRunning) {
       if (!this.coreInitialized) {
         await this.initializeCore();
         this.coreInitialized = true;
+        // Pick up work left in working memory by a previous run
+        if (this.workingMemory && !this.workingMemory.isEmpty()) {
+          this.scheduler.notify("idle");
+        }
+      }
+
+      if (this.isPausedByBudget()) {
+        await new Promise(resolve => setTimeout(resolve, BUDGET_PAUSE_POLL_MS));
+        continue;
       }
 
-      await this.selfCouncil();
-      await new Promise(resolve => setTimeout(resolve, 1000));
+      if (this.pipelines.size >= this.maxConcurrentConversations) {
+        await Promise.race(this.pipelines.values());
+        continue;
+      }
+
+      const wake = await this.scheduler.next();
+      if (!wake) {
+        break;
+      }
+      this.dispatch(wake);
     }
+
+    await Promise.all(this.pipelines.values());
   }
 
   /**
-   * Process working memory
+   * Start the council pipeline for a wakeup's partition. A partition runs one pipeline at a
+   * time: wakeups for a busy partition are held back and re-queued once it finishes.
    */
-  private async selfCouncil(): Promise<void> {
-    const runId = randomUUID();
-    let conversationId = "";
-    
-    try {
-      const workingMemory = this.getWorkingMemory();
-      if (workingMemory.length === 0) {
-        return;
-      }
+  private dispatch(wake: Wake): void {
+    const { conversationId } = wake;
 
-      const { action, conversationId: actionConversationId, updatedMemories, brainPart: suggestedBrainPart } = await this.decideAction();
-      conversationId = actionConversationId || "";
+    if (this.pipelines.has(conversationId)) {
+      const deferred = this.deferredWakes.get(conversationId) ?? [];
+      for (const source of wake.sources) {
+        if (!deferred.includes(source)) deferred.push(source);
+      }
+      this.deferredWakes.set(conversationId, deferred);
+      return;
+    }
 
-      if (action === "think") {
-        this.memoryManager.setAll("working", updatedMemories || []);
+    // An idle wakeup re-checks every partition that still holds work
+    if (!conversationId && wake.sources.includes("idle")) {
+      for (const id of this.workingMemory.conversations()) {
+        this.scheduler.notify("idle", id);
+      }
+    }
 
-        if (!suggestedBrainPart?.trim()) {
-          throw new Error(`Council decided to "think" but did not provide a brainPart. Available brain parts: ${SYSTEM2_BRAIN_PARTS.map(bp => bp.id).join(", ")}`);
+    const pipeline = this.selfCouncil(wake)
+      .then(decision => this.scheduler.recordDecision(decision))
+      .finally(() => {
+        this.pipelines.delete(conversationId);
+        const deferred = this.deferredWakes.get(conversationId) ?? [];
+        this.deferredWakes.delete(conversationId);
+        for (const source of deferred) {
+          this.scheduler.notify(source, conversationId);
+        }
+        if (!this.workingMemory.isEmpty()) {
+          this.scheduler.scheduleIdle();
         }
+      });
+    this.pipelines.set(conversationId, pipeline);
+  }
+
+  /**
+   * Scheduler metrics (wakeups, decisions, queues) for the health snapshot
+   */
+  getSchedulerMetrics(): SchedulerMetrics {
+    return this.scheduler.getMetrics();
+  }
 
-        const brainPart = getBrainPart(suggestedBrainPart);
-        if (!brainPart) {
-          throw new Error(`Council provided invalid brainPart: "${suggestedBrainPart}". Available brain parts: ${SYSTEM2_BRAIN_PARTS.map(bp => bp.id).join(", ")}`);
+  /**
+   * Queue a wakeup for a future time, e.g. when a reminder falls due. Returns a cancel function.
+   */
+  wakeAt(at: number, source: "calendar" | "reminder", conversationId: string = ""): () => void {
+    return this.scheduler.notifyAt(at, source, conversationId);
+  }
+
+  /**
+   * Run the council over one working memory partition and carry out the actions it
+   * schedules: think actions run in parallel, then the response (if any) is generated.
+   */
+  private async selfCouncil(wake: Wake): Promise<CouncilDecision> {
+    const runId = randomUUID();
+    const { conversationId } = wake;
+    const run: ActiveRun = { controller: new AbortController(), conversationId };
+    const abortSignal = run.controller.signal;
+    
+    try {
+      if (this.workingMemory.get(conversationId).length === 0) {
+        return "idle";
+      }
+      // A spent conversation budget holds just this conversation; idle wakeups retry it later
+      if (conversationId && this.isConversationPausedByBudget(conversationId)) {
+        return "idle";
+      }
+      // Picks up plugin tools again after clearCache
+      await this.loadTools();
+
+      this.activeRuns.set(runId, run);
+      const { actions, updatedMemories } = await this.decideAction(runId, wake, abortSignal);
+      this.workingMemory.set(conversationId, updatedMemories);
+
+      const { parts } = await this.getBrainParts();
+      const brainParts = actions
+        .filter(action => action.type === "think")
+        .map(action => {
+          const brainPart = parts.find(bp => bp.id === action.brainPart.trim());
+          if (!brainPart) {
+            throw new Error(`Council provided invalid brainPart: "${action.brainPart}". Available brain parts: ${parts.map(bp => bp.id).join(", ")}`);
+          }
+          return brainPart;
+        });
+      const respond = actions.find(action => action.type === "respond");
+      if (respond && !conversationId) {
+        console.warn(`[Self] Ignoring "respond" scheduled from the scratchpad: ${respond.explanation}`);
+      }
+      const shouldRespond = Boolean(respond && conversationId);
+
+      let toolCalls = 0;
+      if (brainParts.length > 0) {
+        const results = await Promise.all(
+          brainParts.map(brainPart => this.runBrainPart(brainPart, runId, conversationId, abortSignal))
+        );
+        for (const result of results) {
+          toolCalls += result.toolCalls;
+          await this.emit({
+            type: "think",
+            conversationId,
+            thought: result.thought,
+            runId,
+          });
         }
+        this.workingMemory.set(conversationId, [
+          ...this.workingMemory.get(conversationId),
+          ...results.map(result => result.thought),
+        ]);
+      }
 
-        const result = await this.runBrainPart(brainPart, runId);
-        const updatedWorkingMemory = this.getWorkingMemory();
-        updatedWorkingMemory.push(result);
-        this.memoryManager.setAll("working", updatedWorkingMemory);
-      } else if (action === "respond") {
-        const response = await this.generateResponse(runId, conversationId);
+      if (shouldRespond) {
+        const response = await this.generateResponse(runId, conversationId, abortSignal);
 
         await this.emit({
           type: "stream.response",
@@ -153,24 +552,50 @@ export class Self {
           runId
         });
 
-        const finalMemories = [...(updatedMemories || []), `responded to conversationId: ${conversationId} with response: ${response}`];
-        this.memoryManager.setAll("working", finalMemories);
-      } else if (action === "sleep") {
-        this.memoryManager.setAll("working", updatedMemories || []);
-        const sleepTime = Math.random() * 4000 + 1000;
-        await new Promise(resolve => setTimeout(resolve, sleepTime));
+        await this.emit({
+          type: "stream.lifecycle",
+          conversationId,
+          runId,
+          phase: "end",
+          tokensUsed: this.runTokens.get(runId) ?? 0,
+        });
+
+        this.workingMemory.push(conversationId, `responded to conversationId: ${conversationId} with response: ${response}`);
+        return "respond";
+      }
+
+      if (brainParts.length > 0) {
+        // The council reviews the brain parts' output on its next wakeup
+        this.scheduler.notify(toolCalls > 0 ? "toolResult" : "thought", conversationId);
+        return "think";
       }
+      return "sleep";
     } catch (error) {
+      if (abortSignal.aborted) {
+        const reason = abortSignal.reason instanceof Error ? abortSignal.reason.message : "Cancelled";
+        console.log(`[Self] Run ${runId} cancelled: ${reason}`);
+        await this.emit({
+          type: "stream.lifecycle",
+          conversationId,
+          runId,
+          phase: "cancelled",
+          message: reason,
+          tokensUsed: this.runTokens.get(runId) ?? 0,
+        });
+        return "cancelled";
+      }
+
       console.error(`[Self] Error in selfCouncil:`, error);
-      if (this.memoryManager) {
-        const workingMemory = this.getWorkingMemory();
+      if (this.workingMemory) {
         const timestamp = new Date().toISOString();
         const errorMessage = error instanceof Error ? error.message : String(error);
         const errorStack = error instanceof Error && error.stack ? ` | stack: ${error.stack}` : "";
-        const errorEntry = `[ERROR] selfCouncil: ${errorMessage}${errorStack} | timestamp: ${timestamp}`;
-        workingMemory.push(errorEntry);
-        this.memoryManager.setAll("working", workingMemory);
+        this.workingMemory.push(conversationId, `[ERROR] selfCouncil: ${errorMessage}${errorStack} | timestamp: ${timestamp}`);
       }
+      return "error";
+    } finally {
+      this.runTokens.delete(runId);
+      this.activeRuns.delete(runId);
     }
   }
 
@@ -178,113 +603,255 @@ export class Self {
   // Decision & Processing
   // ============================================================================
 
-  private async decideAction(): Promise<{ action: Action; conversationId: string; updatedMemories?: string[]; brainPart?: string }> {
-    const workingMemory = this.getWorkingMemory();
-    const prompt = selfCouncilPrompt(workingMemory);
+  private async decideAction(runId: string, wake: Wake, abortSignal?: AbortSignal): Promise<{ actions: CouncilAction[]; updatedMemories: string[] }> {
+    const { conversationId } = wake;
+    const { parts } = await this.getBrainParts();
+    const partition = {
+      conversationId,
+      memory: this.workingMemory.get(conversationId),
+      scratchpad: conversationId ? this.workingMemory.get(SCRATCHPAD) : [],
+    };
+    const focus = `\n\n## Current Focus\nYou were woken up by ${wake.sources.join(", ")}.`;
+    const prompt = selfCouncilPrompt(partition, parts) + focus + await this.recallForPrompt("council", runId, conversationId);
 
     const selfCouncilSchema = z.object({
-      respond: z.object({
-        needed: z.boolean().describe("Whether response is needed"),
-        conversationId: z.string().describe("The conversationId to respond to"),
-        explanation: z.string().describe("Brief explanation of what to respond to or why responding"),
-      }).describe("Response action details"),
-      think: z.object({
-        needed: z.boolean().describe("Whether thinking is needed"),
-        brainPart: z.string().describe("Which brain part to use (empty string if not specified)"),
-      }).describe("Thinking action details"),
-      memory: z.array(z.string()).describe("Updated working memory array"),
+      actions: z.array(z.object({
+        type: z.enum(["think", "respond"]).describe("Action to take"),
+        brainPart: z.string().describe("Which brain part to use for \"think\" (empty string for \"respond\")"),
+        explanation: z.string().describe("Brief explanation of why this action is needed"),
+      })).describe("Actions to run now (empty when nothing needs doing)"),
+      memory: z.array(z.string()).describe("Updated working memory array for this partition"),
     });
 
     const system = await this.identityLoader.getSystemPrompt(this.agentDir);
+    const resolved = await this.resolveModel({ kind: "council" }, conversationId);
 
-    const result = await generateText({
-      model: this.llmModel,
+    // Models without native structured output get the schema in the prompt instead
+    const result = await generateStructured(resolved, {
       system,
       messages: [
         { role: "user" as const, content: prompt },
       ],
-      output: Output.object({ schema: selfCouncilSchema }),
+      schema: selfCouncilSchema,
+      abortSignal,
     });
-
-    const output = result.output;
-
-    let action: Action = "sleep";
-    let conversationId = "";
-    let brainPart: string | undefined;
-
-    if (output.respond?.needed) {
-      action = "respond";
-      conversationId = output.respond.conversationId || "";
-    } else if (output.think?.needed) {
-      action = "think";
-      brainPart = output.think.brainPart;
-    }
+    await this.meter("council", resolved, result.totalUsage, runId, conversationId);
 
     return {
-      action,
-      conversationId,
-      updatedMemories: output.memory,
-      brainPart
+      actions: result.output.actions,
+      updatedMemories: result.output.memory,
     };
   }
 
   private async runBrainPart(
     brainPart: BrainPart,
-    runId: string
-  ): Promise<string> {
-    const workingMemory = this.getWorkingMemory();
-    const prompt = brainPart.getPrompt(workingMemory);
+    runId: string,
+    conversationId: string,
+    abortSignal?: AbortSignal
+  ): Promise<{ thought: string; toolCalls: number }> {
+    const prompt = brainPart.getPrompt(this.getPromptMemory(conversationId)) + await this.recallForPrompt(`brain:${brainPart.id}`, runId, conversationId);
     const initialUserMessage: ModelMessage = { role: "user" as const, content: prompt };
-    const tools = (brainPart.toolsAllowed ?? true) ? this.availableTools : undefined;
-    
     const systemPrompt = await this.identityLoader.getSystemPrompt(this.agentDir);
+    const resolved = await this.resolveModel({ kind: "brainPart", brainPart }, conversationId);
+    const tools = resolved.capabilities.toolCalling ? this.getBrainPartTools(brainPart) : undefined;
+    const maxIterations = brainPart.maxIterations ?? DEFAULT_BRAIN_PART_MAX_ITERATIONS;
 
     let messagesHistory: ModelMessage[] = [initialUserMessage];
+    let tokensUsed = 0;
+    let toolCallCount = 0;
+    let lastContent = "";
 
-    while (true) {
+    for (let iteration = 1; ; iteration++) {
+      abortSignal?.throwIfAborted();
       const result = await generateText({
-        model: this.llmModel,
+        model: resolved.model,
+        temperature: resolved.temperature,
+        providerOptions: resolved.providerOptions,
         system: systemPrompt,
         messages: messagesHistory,
         tools: tools,
+        abortSignal,
       });
+      await this.meter("brainPart", resolved, result.totalUsage, runId, conversationId, brainPart.id);
+      tokensUsed += result.totalUsage?.totalTokens ?? 0;
 
       const content = result.text;
       const toolCalls = result.toolCalls;
+      if (content.trim()) {
+        lastContent = content;
+      }
 
       if (toolCalls?.length) {
+        toolCallCount += toolCalls.length;
         const { assistantMsg, toolResultMsgs } = await this.toolExecutor.executeToolCalls(
           toolCalls,
           content,
-          this.availableTools,
+          tools ?? {},
           messagesHistory,
-          "",
-          runId
+          conversationId,
+          runId,
+          await this.getSecurityContext(conversationId),
+          abortSignal
         );
         messagesHistory.push(assistantMsg, ...toolResultMsgs);
-        continue;
+      } else if (content.trim()) {
+        messagesHistory.push({ role: "assistant" as const, content });
+        return { thought: content, toolCalls: toolCallCount };
       }
 
-      if (content.trim()) {
-        messagesHistory.push({ role: "assistant" as const, content });
-        return content;
+      if (brainPart.maxTokens !== undefined && tokensUsed >= brainPart.maxTokens) {
+        return { thought: this.brainPartLimitResult(brainPart, `token limit reached (${tokensUsed} of ${brainPart.maxTokens} tokens)`, lastContent), toolCalls: toolCallCount };
+      }
+      if (iteration >= maxIterations) {
+        return { thought: this.brainPartLimitResult(brainPart, `iteration limit reached (${maxIterations} iterations)`, lastContent), toolCalls: toolCallCount };
       }
     }
   }
 
-  private async generateResponse(runId: string, conversationId: string = ""): Promise<string> {
-    const workingMemory = this.getWorkingMemory();
-    const communicationPrompt = getCommunicationPrompt(workingMemory);
+  /**
+   * Tools a brain part may call: all tools unless its file lists them
+   */
+  private getBrainPartTools(brainPart: BrainPart): Record<string, Tool> | undefined {
+    if (!brainPart.tools) {
+      return this.availableTools;
+    }
+    if (brainPart.tools.length === 0) {
+      return undefined;
+    }
+
+    const tools: Record<string, Tool> = {};
+    for (const name of brainPart.tools) {
+      if (this.availableTools[name]) {
+        tools[name] = this.availableTools[name];
+      } else {
+        console.warn(`[Self] Brain part "${brainPart.id}" allows unknown tool "${name}"`);
+      }
+    }
+    return tools;
+  }
+
+  /**
+   * Result handed back to the council when a brain part stops before finishing
+   */
+  private brainPartLimitResult(brainPart: BrainPart, reason: string, lastContent: string): string {
+    console.warn(`[Self] ${brainPart.name} stopped: ${reason}`);
+    const progress = lastContent.trim() ? ` Last output: ${lastContent.trim()}` : "";
+    return `[${brainPart.id}] ${reason} before the ${brainPart.name} finished; its work is incomplete.${progress} Decide whether to continue with another brain part, change approach, or respond with what is known.`;
+  }
+
+  /**
+   * Brain parts loaded from the agent's core/brain-parts directory (cached until clearCache)
+   */
+  async getBrainParts(): Promise<LoadedBrainParts> {
+    const agentDir = this.agentDir ?? agentDiscovery.getMetadata(this.agentId)?.agentDir;
+    if (!agentDir) {
+      return { parts: [], errors: [] };
+    }
+    return this.brainPartLoader.loadBrainParts(agentDir);
+  }
+
+  /**
+   * Built-in tool names and the plugin tools from the agent's plugins directory (including disabled ones)
+   */
+  async getTools(): Promise<{ builtIn: string[]; plugins: LoadedPluginTools; mcp: string[] }> {
+    await this.loadTools();
+    return { builtIn: this.builtInToolNames, plugins: this.pluginTools, mcp: this.mcpToolNames };
+  }
+
+  /**
+   * The tools this agent's runs get, keyed by name
+   */
+  async getToolSet(): Promise<Record<string, Tool>> {
+    await this.loadTools();
+    return this.availableTools;
+  }
+
+  /**
+   * Enable or disable a plugin tool. The choice is saved in its manifest and applies from the next LLM call.
+   */
+  async setPluginToolEnabled(name: string, enabled: boolean): Promise<PluginTool> {
+    const registry = await this.loadTools();
+    const pluginTool = this.pluginTools.tools.find(candidate => candidate.name === name);
+    if (!pluginTool) {
+      throw new Error(this.builtInToolNames.includes(name)
+        ? `"${name}" is a built-in tool; restrict it with the security tool policy instead`
+        : `Unknown plugin tool "${name}"`);
+    }
+
+    await setPluginToolEnabled(pluginTool.manifestFile, enabled);
+    pluginTool.enabled = enabled;
+    if (enabled) {
+      registry.register(name, pluginTool.tool);
+    } else {
+      registry.unregister(name);
+    }
+    this.availableTools = Object.fromEntries(registry.getToolsMap());
+    return pluginTool;
+  }
+
+  /**
+   * Drop cached prompt, brain part and plugin tool files so edits are picked up on the next run
+   */
+  clearCache(): void {
+    this.identityLoader.clearCache();
+    this.brainPartLoader.clearCache();
+    this.pluginToolLoader.clearCache();
+    this.toolRegistry = null;
+  }
+
+  /**
+   * Register the built-in tools, the enabled plugin tools and the tools of configured MCP servers (cached until clearCache)
+   */
+  private async loadTools(): Promise<ToolRegistry> {
+    if (this.toolRegistry) {
+      return this.toolRegistry;
+    }
+
+    const registry = new ToolRegistry(this.agentId);
+    this.builtInToolNames = Array.from(registry.getToolsMap().keys());
+
+    const agentDir = this.agentDir ?? agentDiscovery.getMetadata(this.agentId)?.agentDir;
+    this.pluginTools = agentDir
+      ? await this.pluginToolLoader.loadPluginTools(agentDir, this.agentId, this.builtInToolNames)
+      : { tools: [], errors: [] };
+    for (const pluginTool of this.pluginTools.tools) {
+      if (pluginTool.enabled) {
+        registry.register(pluginTool.name, pluginTool.tool);
+      }
+    }
+
+    const mcpTools = await mcpClients.getTools(this.mcpConfig, { sandboxImage: this.sandboxImage });
+    this.mcpToolNames = [];
+    for (const [name, mcpTool] of Object.entries(mcpTools)) {
+      if (registry.get(name)) {
+        console.warn(`[Self] Skipping MCP tool "${name}": the name is already taken`);
+        continue;
+      }
+      registry.register(name, mcpTool);
+      this.mcpToolNames.push(name);
+    }
+
+    this.toolRegistry = registry;
+    this.availableTools = Object.fromEntries(registry.getToolsMap());
+    return registry;
+  }
+
+  private async generateResponse(runId: string, conversationId: string = "", abortSignal?: AbortSignal): Promise<string> {
+    const communicationPrompt = getCommunicationPrompt(this.getPromptMemory(conversationId)) + await this.recallForPrompt("respond", runId, conversationId);
     const systemPrompt = await this.identityLoader.getSystemPrompt(this.agentDir);
     const systemContent = `${systemPrompt}\n\n---\n\n${communicationPrompt}`.trim();
 
     const initialMessage: ModelMessage = { role: "user" as const, content: "Generate response based on working memory." };
+    const resolved = await this.resolveModel({ kind: "respond" }, conversationId);
     
     const streamResult = await streamText({
-      model: this.llmModel,
+      model: resolved.model,
+      temperature: resolved.temperature,
+      providerOptions: resolved.providerOptions,
       system: systemContent,
       messages: [initialMessage],
-      tools: this.availableTools,
+      tools: resolved.capabilities.toolCalling ? this.availableTools : undefined,
+      abortSignal,
     });
 
     let content = "";
@@ -298,6 +865,10 @@ export class Self {
       });
     }
 
+    // An aborted stream just ends; don't treat the partial text as a response
+    abortSignal?.throwIfAborted();
+    await this.meter("respond", resolved, await streamResult.totalUsage, runId, conversationId);
+
     const toolCalls = await streamResult.toolCalls;
     if (toolCalls?.length) {
       const { assistantMsg, toolResultMsgs } = await this.toolExecutor.executeToolCalls(
@@ -306,7 +877,9 @@ export class Self {
         this.availableTools,
         [initialMessage],
         conversationId,
-        runId
+        runId,
+        await this.getSecurityContext(conversationId),
+        abortSignal
       );
       const toolResults = toolResultMsgs.map(m =>
         typeof m.content === "string" ? m.content : JSON.stringify(m.content)
@@ -325,10 +898,8 @@ export class Self {
     const metadata = agentDiscovery.getMetadata(this.agentId)!;
     
     this.agentDir = metadata.agentDir;
-    this.llmModel = await LLMProvider.getInstance().fastCheap();
     
-    const toolRegistry = new ToolRegistry();
-    this.availableTools = Object.fromEntries(toolRegistry.getToolsMap());
+    await this.loadTools();
   }
 
 
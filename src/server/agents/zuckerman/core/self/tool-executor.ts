@@ -1,5 +1,15 @@
 import type { Tool, ModelMessage } from "ai";
 import type { AgentEvent } from "./events.js";
+import type { SecurityContext } from "@server/world/execution/security/types.js";
+import { findApprovalRule, describeApprovalRule } from "@server/world/execution/security/policy/index.js";
+import { toolApprovals, type ToolApprovalResolution } from "@server/world/execution/security/approval/index.js";
+import {
+  checkToolCallPolicy,
+  formatPolicyDenial,
+  formatApprovalDenial,
+  type PolicyDenial,
+  type ToolExecutionContext,
+} from "@server/agents/zuckerman/tools/policy.js";
 
 export interface ToolCall {
   toolCallId: string;
@@ -18,7 +28,12 @@ export class ToolExecutor {
   ) {}
 
   /**
-   * Execute tool calls and return assistant message with tool calls + tool result messages
+   * Execute tool calls and return assistant message with tool calls + tool result messages.
+   * Every call is checked against the security context before it runs; denied calls are
+   * returned to the model as structured policy errors. Calls matching an approval rule wait
+   * for a human decision and run with the approved (possibly edited) arguments. The abort
+   * signal is handed to each tool so long-running work (processes, browser actions, batch
+   * sub-calls) stops on cancel.
    */
   async executeToolCalls(
     toolCalls: ToolCall[],
@@ -26,7 +41,9 @@ export class ToolExecutor {
     availableTools: Record<string, Tool>,
     contextMessages: ModelMessage[],
     conversationId: string,
-    runId: string
+    runId: string,
+    securityContext: SecurityContext,
+    abortSignal?: AbortSignal
   ): Promise<ExecuteToolCallsResult> {
     console.log(`[ToolExecutor] Tool calls: ${toolCalls.map(t => t.toolName).join(", ")}`);
     
@@ -45,18 +62,76 @@ export class ToolExecutor {
         : toolCallParts,
     };
     
+    const emitDenied = async (toolName: string, toolArgs: Record<string, unknown>, denial: PolicyDenial) => {
+      await this.emitEvent({
+        type: "stream.tool.denied",
+        conversationId,
+        runId,
+        tool: toolName,
+        toolArgs,
+        policyKind: denial.kind,
+        reason: denial.reason,
+      });
+    };
+
+    const executionContext: ToolExecutionContext = {
+      securityContext,
+      onPolicyDenied: emitDenied,
+      requestApproval: (toolName, toolArgs, reason) =>
+        this.awaitApproval(toolName, toolArgs, reason, conversationId, runId, securityContext, abortSignal),
+    };
+
     // Execute tools and create result messages
     const toolResultMsgs: ModelMessage[] = await Promise.all(
       toolCalls.map(async (toolCall): Promise<ModelMessage> => {
+        let toolArgs = typeof toolCall.input === "object" && toolCall.input !== null && !Array.isArray(toolCall.input)
+          ? toolCall.input as Record<string, unknown>
+          : {};
+        let input = toolCall.input;
+
+        if (abortSignal?.aborted) {
+          return this.createToolResultMessage(toolCall, "Error: Cancelled");
+        }
+
         await this.emitEvent({
           type: "stream.tool.call",
           conversationId,
           runId,
           tool: toolCall.toolName,
-          toolArgs: typeof toolCall.input === "object" && toolCall.input !== null && !Array.isArray(toolCall.input)
-            ? toolCall.input as Record<string, unknown>
-            : {},
+          toolArgs,
         });
+
+        const denial = checkToolCallPolicy(toolCall.toolName, toolArgs, securityContext);
+        if (denial) {
+          await emitDenied(toolCall.toolName, toolArgs, denial);
+          return this.createToolResultMessage(toolCall, formatPolicyDenial(toolCall.toolName, denial));
+        }
+
+        const approvalRule = findApprovalRule(toolCall.toolName, toolArgs, securityContext.approvalPolicy);
+        if (approvalRule) {
+          const resolution = await this.awaitApproval(
+            toolCall.toolName,
+            toolArgs,
+            describeApprovalRule(toolCall.toolName, approvalRule),
+            conversationId,
+            runId,
+            securityContext,
+            abortSignal
+          );
+          if (resolution.outcome !== "approved") {
+            return this.createToolResultMessage(toolCall, formatApprovalDenial(toolCall.toolName, resolution));
+          }
+          if (resolution.edited) {
+            // Edited arguments go through the security policy like the original ones
+            const editedDenial = checkToolCallPolicy(toolCall.toolName, resolution.toolArgs, securityContext);
+            if (editedDenial) {
+              await emitDenied(toolCall.toolName, resolution.toolArgs, editedDenial);
+              return this.createToolResultMessage(toolCall, formatPolicyDenial(toolCall.toolName, editedDenial));
+            }
+            toolArgs = resolution.toolArgs;
+            input = resolution.toolArgs;
+          }
+        }
         
         const tool = availableTools[toolCall.toolName];
         if (!tool?.execute) {
@@ -72,9 +147,11 @@ export class ToolExecutor {
         }
         
         try {
-          const result = await tool.execute(toolCall.input, {
+          const result = await tool.execute(input, {
             toolCallId: toolCall.toolCallId,
             messages: contextMessages,
+            abortSignal,
+            experimental_context: executionContext,
           });
           const output = typeof result === "string" ? result : JSON.stringify(result);
           await this.emitEvent({
@@ -102,6 +179,59 @@ export class ToolExecutor {
     return { assistantMsg, toolResultMsgs };
   }
 
+  /**
+   * Pause a tool call until it is approved, denied or edited (from the app, the CLI or the
+   * originating chat), reporting both the request and the decision as events
+   */
+  private async awaitApproval(
+    toolName: string,
+    toolArgs: Record<string, unknown>,
+    reason: string,
+    conversationId: string,
+    runId: string,
+    securityContext: SecurityContext,
+    abortSignal?: AbortSignal
+  ): Promise<ToolApprovalResolution> {
+    const { request, decision } = toolApprovals.request({
+      agentId: securityContext.agentId,
+      conversationId,
+      runId,
+      toolName,
+      toolArgs,
+      reason,
+      timeoutMs: securityContext.approvalPolicy!.timeoutMs,
+    }, abortSignal);
+
+    console.log(`[ToolExecutor] Waiting for approval ${request.id}: ${toolName}`);
+    await this.emitEvent({
+      type: "stream.tool.approval",
+      conversationId,
+      runId,
+      approvalId: request.id,
+      tool: toolName,
+      toolArgs,
+      phase: "requested",
+      reason,
+      expiresAt: request.expiresAt,
+    });
+
+    const resolution = await decision;
+    await this.emitEvent({
+      type: "stream.tool.approval",
+      conversationId,
+      runId,
+      approvalId: request.id,
+      tool: toolName,
+      toolArgs: resolution.toolArgs,
+      phase: "resolved",
+      outcome: resolution.outcome,
+      edited: resolution.edited,
+      resolvedBy: resolution.resolvedBy,
+      note: resolution.note,
+    });
+    return resolution;
+  }
+
   /**
    * Create a tool result message from a tool call and output
    */
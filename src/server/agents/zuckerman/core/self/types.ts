@@ -1,14 +1,31 @@
 import type { AgentEvent } from "./events.js";
+import type { ModelTrait } from "@server/world/config/types.js";
 
+/**
+ * A brain part loaded from core/brain-parts/<id>.md in the agent directory
+ */
 export interface BrainPart {
   id: string;
   name: string;
-  maxIterations?: number;
-  toolsAllowed?: boolean;
+  description: string; // Shown to the council when it picks a brain part
+  maxIterations?: number; // Model calls per run (default: DEFAULT_BRAIN_PART_MAX_ITERATIONS)
+  maxTokens?: number; // Total tokens per run, across all iterations
+  tools?: string[]; // Allowed tool names (all tools when omitted, none when empty)
   temperature?: number;
+  trait?: ModelTrait; // Model trait used when no agent/conversation model is set (default: fastCheap)
+  file?: string;
   getPrompt: (workingMemory: string[]) => string;
 }
 
 export type EventHandler<T extends AgentEvent = AgentEvent> = (event: T) => void | Promise<void>;
 
-export type Action = "respond" | "sleep" | "think";
+export type Action = "respond" | "think";
+
+/**
+ * One action scheduled by the council for the partition it is reviewing
+ */
+export interface CouncilAction {
+  type: Action;
+  brainPart: string; // Brain part id for "think", empty for "respond"
+  explanation: string;
+}
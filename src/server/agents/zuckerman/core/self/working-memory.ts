@@ -0,0 +1,74 @@
+import type { MemorySystem } from "../memory/memory-service.js";
+import type { Memory } from "../memory/types.js";
+
+// Partition of entries that belong to no conversation
+export const SCRATCHPAD = "";
+
+// The scratchpad is shared by every conversation's prompts, so it stays small
+export const MAX_SCRATCHPAD_ENTRIES = 10;
+
+function partitionOf(memory: Memory): string {
+  return memory.metadata?.conversationId ?? SCRATCHPAD;
+}
+
+/**
+ * Working memory partitioned by conversation. Entries are stored in the "working" memory
+ * store tagged with their conversationId; untagged entries form a global scratchpad.
+ * A conversation's pipeline only ever reads its own partition plus the scratchpad.
+ */
+export class WorkingMemory {
+  constructor(private readonly memorySystem: MemorySystem) {}
+
+  /**
+   * Entries of one partition (SCRATCHPAD for the global scratchpad)
+   */
+  get(conversationId: string): string[] {
+    return this.memorySystem.findAll("working")
+      .filter(memory => partitionOf(memory) === conversationId)
+      .map(memory => memory.content);
+  }
+
+  /**
+   * Replace one partition, leaving all others untouched
+   */
+  set(conversationId: string, entries: string[]): void {
+    this.memorySystem.batch(() => {
+      for (const memory of this.memorySystem.findAll("working")) {
+        if (partitionOf(memory) === conversationId) {
+          this.memorySystem.remove("working", memory.id);
+        }
+      }
+
+      const kept = conversationId === SCRATCHPAD ? entries.slice(-MAX_SCRATCHPAD_ENTRIES) : entries;
+      for (const entry of kept) {
+        this.memorySystem.insert("working", entry, conversationId ? { conversationId } : undefined);
+      }
+    });
+  }
+
+  push(conversationId: string, entry: string): void {
+    this.set(conversationId, [...this.get(conversationId), entry]);
+  }
+
+  clear(conversationId: string): void {
+    this.set(conversationId, []);
+  }
+
+  /**
+   * Conversations that have entries (the scratchpad is not included)
+   */
+  conversations(): string[] {
+    const ids = new Set<string>();
+    for (const memory of this.memorySystem.findAll("working")) {
+      const conversationId = partitionOf(memory);
+      if (conversationId !== SCRATCHPAD) {
+        ids.add(conversationId);
+      }
+    }
+    return Array.from(ids);
+  }
+
+  isEmpty(): boolean {
+    return this.memorySystem.findAll("working").length === 0;
+  }
+}
@@ -1,2 +1,9 @@
-export { runSleepModeIfNeeded } from "./runner.js";
-export type { SleepConfig } from "./runner.js";
+export { runSleepModeIfNeeded, getSleepStatus, resolveSleepConfig, shouldSleep } from "./runner.js";
+export { SLEEP_STRATEGIES, getSleepStrategy } from "./strategies.js";
+export type {
+  SleepConfig,
+  CompressionStrategy,
+  SleepPlan,
+  SleepRunResult,
+  SleepStatus,
+} from "./types.js";
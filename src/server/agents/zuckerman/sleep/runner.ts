@@ -1,156 +1,225 @@
 import type { ConversationManager } from "../conversations/manager.js";
-import { deriveConversationKey } from "../conversations/manager.js";
-import { loadConversationStore } from "../conversations/store.js";
 import type { ConversationEntry } from "../conversations/types.js";
 import type { ZuckermanConfig } from "@server/world/config/types.js";
 import { MemorySystem } from "../core/memory/memory-service.js";
-import type { MemoryType, Memory } from "../core/memory/types.js";
-import { generateText, Output } from "ai";
-import { z } from "zod";
-import { LLMProvider } from "@server/world/providers/llm/index.js";
-
-export interface SleepConfig {
-  enabled: boolean;
-  cooldownMinutes: number;
-  minMessagesToSleep: number;
-}
+import { checkBudget, describeBudgetStatus } from "@server/world/providers/llm/index.js";
+import { getSleepStrategy } from "./strategies.js";
+import type { CompressionStrategy, SleepConfig, SleepRunResult, SleepStatus } from "./types.js";
 
+const DEFAULT_THRESHOLD = 0.8;
 const DEFAULT_COOLDOWN_MINUTES = 5;
 const DEFAULT_MIN_MESSAGES_TO_SLEEP = 10;
+const DEFAULT_KEEP_RECENT_MESSAGES = 10;
+const DEFAULT_COMPRESSION_STRATEGY: CompressionStrategy = "hybrid";
+const DEFAULT_CONTEXT_WINDOW_TOKENS = 128_000;
 
-function resolveSleepConfig(cfg?: {
-  sleep?: { enabled?: boolean; cooldownMinutes?: number; minMessagesToSleep?: number };
-  memoryFlush?: { enabled?: boolean };
-}): SleepConfig | null {
+export function resolveSleepConfig(cfg?: ZuckermanConfig["agent"]): SleepConfig | null {
   const sleepCfg = cfg?.sleep;
   const memoryFlushCfg = cfg?.memoryFlush;
-  
+
   if (sleepCfg?.enabled === false || (memoryFlushCfg?.enabled === false && !sleepCfg)) {
     return null;
   }
-  
+
   const enabled = sleepCfg?.enabled ?? memoryFlushCfg?.enabled ?? true;
   if (!enabled) return null;
-  
+
   const normalizeInt = (v: unknown): number | null => {
     if (typeof v !== "number" || !Number.isFinite(v)) return null;
     const int = Math.floor(v);
     return int >= 0 ? int : null;
   };
-  
+
+  const threshold = typeof sleepCfg?.threshold === "number" && sleepCfg.threshold > 0 && sleepCfg.threshold <= 1
+    ? sleepCfg.threshold
+    : DEFAULT_THRESHOLD;
+
   return {
     enabled,
+    threshold,
     cooldownMinutes: normalizeInt(sleepCfg?.cooldownMinutes) ?? DEFAULT_COOLDOWN_MINUTES,
     minMessagesToSleep: normalizeInt(sleepCfg?.minMessagesToSleep) ?? DEFAULT_MIN_MESSAGES_TO_SLEEP,
+    keepRecentMessages: normalizeInt(sleepCfg?.keepRecentMessages) ?? DEFAULT_KEEP_RECENT_MESSAGES,
+    compressionStrategy: sleepCfg?.compressionStrategy ?? DEFAULT_COMPRESSION_STRATEGY,
+    contextWindowTokens: normalizeInt(cfg?.contextTokens) || DEFAULT_CONTEXT_WINDOW_TOKENS,
+    systemPrompt: sleepCfg?.systemPrompt ?? memoryFlushCfg?.systemPrompt,
   };
 }
 
-function shouldSleep(params: {
-  entry?: Pick<ConversationEntry, "totalTokens" | "sleepCount" | "sleepAt">;
+/**
+ * Check whether a conversation should sleep: it must have crossed the context
+ * threshold, have enough messages, and be outside the cooldown window.
+ * Returns the reason when it should not.
+ */
+export function shouldSleep(params: {
+  entry?: Pick<ConversationEntry, "contextTokens" | "sleepAt">;
   config: SleepConfig;
   conversationMessageCount?: number;
-}): boolean {
-  const totalTokens = params.entry?.totalTokens;
-  if (!totalTokens || totalTokens <= 0) return false;
-  
+  now?: number;
+}): { sleep: boolean; reason?: string } {
+  const contextTokens = params.entry?.contextTokens ?? 0;
+  const thresholdTokens = Math.floor(params.config.contextWindowTokens * params.config.threshold);
+  if (contextTokens < thresholdTokens) {
+    return { sleep: false, reason: `Context at ${contextTokens} tokens, below threshold of ${thresholdTokens}` };
+  }
+
   if (params.conversationMessageCount !== undefined) {
     if (params.conversationMessageCount < params.config.minMessagesToSleep) {
-      return false;
+      return { sleep: false, reason: `Fewer than ${params.config.minMessagesToSleep} messages` };
     }
   }
 
   const lastSleepAt = params.entry?.sleepAt;
   if (lastSleepAt) {
     const cooldownMs = params.config.cooldownMinutes * 60 * 1000;
-    if (Date.now() - lastSleepAt < cooldownMs) {
-      return false;
+    if ((params.now ?? Date.now()) - lastSleepAt < cooldownMs) {
+      return { sleep: false, reason: "Cooldown since last sleep has not elapsed" };
     }
   }
-  
-  return true;
+
+  return { sleep: true };
+}
+
+/**
+ * Describe the sleep state of a conversation
+ */
+export function getSleepStatus(params: {
+  config: ZuckermanConfig;
+  conversationManager: ConversationManager;
+  conversationId: string;
+  running?: boolean;
+}): SleepStatus | undefined {
+  const { config, conversationManager, conversationId } = params;
+  const conversation = conversationManager.getConversation(conversationId);
+  if (!conversation) return undefined;
+
+  const sleepConfig = resolveSleepConfig(config.agent);
+  const entry = conversationManager.getConversationEntry(conversationId);
+
+  return {
+    conversationId,
+    enabled: !!sleepConfig,
+    strategy: sleepConfig?.compressionStrategy,
+    contextTokens: entry?.contextTokens ?? 0,
+    thresholdTokens: sleepConfig ? Math.floor(sleepConfig.contextWindowTokens * sleepConfig.threshold) : undefined,
+    messageCount: conversation.messages.length,
+    activeMessageCount: conversation.messages.filter(m => !m.ignore).length,
+    sleepCount: entry?.sleepCount ?? 0,
+    sleepAt: entry?.sleepAt,
+    nextEligibleAt: sleepConfig && entry?.sleepAt
+      ? entry.sleepAt + sleepConfig.cooldownMinutes * 60 * 1000
+      : undefined,
+    running: params.running ?? false,
+  };
 }
 
+/**
+ * Run sleep mode for a conversation when it crossed the configured context threshold
+ * (or unconditionally with `force`): consolidate older messages with the configured
+ * compression strategy, write the results to episodic/semantic memory, and move the
+ * consolidated messages out of the active context.
+ */
 export async function runSleepModeIfNeeded(params: {
   config: ZuckermanConfig;
   conversationManager: ConversationManager;
   conversationId: string;
   agentId: string;
   homedir: string;
-}): Promise<ConversationEntry | undefined> {
+  force?: boolean;
+  strategy?: CompressionStrategy;
+}): Promise<SleepRunResult> {
   const { config, conversationManager, conversationId, agentId, homedir } = params;
-
-  const sleepConfig = resolveSleepConfig({
-    sleep: config.agent?.sleep,
-    memoryFlush: config.agent?.memoryFlush,
+  const skipped = (reason: string): SleepRunResult => ({
+    conversationId,
+    ran: false,
+    reason,
+    messagesConsolidated: 0,
+    memoriesCreated: 0,
   });
 
-  if (!sleepConfig) return undefined;
+  const sleepConfig = resolveSleepConfig(config.agent);
+  if (!sleepConfig) return skipped("Sleep mode is disabled");
 
   const conversation = conversationManager.getConversation(conversationId);
-  if (!conversation) return undefined;
+  if (!conversation) return skipped("Conversation not found");
 
-  const conversationKey = deriveConversationKey(agentId, conversation.conversation.type, conversation.conversation.label);
-  const storePath = conversationManager.getStorePath();
-  const store = loadConversationStore(storePath);
-  const entry = store[conversationKey];
-
-  if (!shouldSleep({
-    entry,
-    config: sleepConfig,
-    conversationMessageCount: conversation.messages?.length,
-  })) {
-    return entry;
+  const entry = conversationManager.getConversationEntry(conversationId);
+  const activeMessages = conversation.messages.filter(m => !m.ignore);
+
+  if (!params.force) {
+    const check = shouldSleep({
+      entry,
+      config: sleepConfig,
+      conversationMessageCount: activeMessages.length,
+    });
+    if (!check.sleep) return skipped(check.reason ?? "Not needed");
   }
 
-  try {
-    const memoryManager = new MemorySystem(homedir, agentId);
-    const allMemories = memoryManager.getMemories({ format: "full" }) as Memory[];
-    
-    if (allMemories.length > 0) {
-      const model = await LLMProvider.getInstance().fastCheap();
-      const memoryList = allMemories.map(m => `- [${m.id}] ${m.type}: ${m.content}`).join("\n");
-      
-      const response = await generateText({
-        model,
-        system: `Review all memories and determine which ones are still relevant and should be kept. Remove outdated, redundant, or irrelevant memories. Return only the IDs of memories to keep.`,
-        messages: [
-          { role: "user" as const, content: `Memories:\n${memoryList}\n\nWhich memory IDs should be kept?` },
-        ],
-        output: Output.object({ schema: z.object({ keepIds: z.array(z.string()) }) }),
-        temperature: 0.3,
-      });
-      
-      // Remove memories that are not in the keep list
-      const keepIds = new Set(response.output.keepIds);
-      const allMemoryTypes: MemoryType[] = [
-        "semantic",
-        "episodic",
-        "procedural",
-        "prospective",
-        "emotional",
-        "working",
-      ];
-      
-      for (const type of allMemoryTypes) {
-        const memories = memoryManager.getMemories({ type, format: "full" }) as Memory[];
-        for (const memory of memories) {
-          if (!keepIds.has(memory.id)) {
-            memoryManager.remove(type, memory.id);
-          }
-        }
-      }
-    }
+  const candidates = activeMessages.slice(0, Math.max(0, activeMessages.length - sleepConfig.keepRecentMessages));
+  if (candidates.length === 0) {
+    return skipped(`Nothing to consolidate outside the ${sleepConfig.keepRecentMessages} most recent messages`);
+  }
+
+  const strategy = params.strategy ?? sleepConfig.compressionStrategy;
+  const contextTokensBefore = entry?.contextTokens;
 
-    const updatedEntry = await conversationManager.updateConversationEntry(conversationId, (current) => ({
-      sleepCount: (current.sleepCount ?? 0) + 1,
-      sleepAt: Date.now(),
-      memoryFlushCount: (current.memoryFlushCount ?? 0) + 1,
-      memoryFlushAt: Date.now(),
-    }));
-
-    return updatedEntry || entry;
-  } catch (err) {
-    console.warn(`[SleepMode] Sleep mode run failed:`, err);
-    return entry;
+  // Every strategy but the sliding window consolidates with a model call
+  const budget = checkBudget(config.usage, { agentId, conversationId });
+  if (strategy !== "sliding-window" && budget.exceeded && budget.action === "pause") {
+    return skipped(`Paused: ${describeBudgetStatus(budget)}`);
   }
+
+  const plan = await getSleepStrategy(strategy)({
+    messages: candidates,
+    previousSummary: entry?.sleepSummary,
+    systemPrompt: sleepConfig.systemPrompt,
+    agentId,
+    conversationId,
+    usageConfig: config.usage ?? {},
+  });
+
+  const memorySystem = new MemorySystem(homedir, agentId);
+  const seen = new Set<string>();
+  let memoriesCreated = 0;
+  for (const memory of plan.memories) {
+    const key = `${memory.type}:${memory.content.trim().toLowerCase()}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+    memorySystem.insert(memory.type, memory.content, {
+      conversationId,
+      source: "sleep",
+      strategy,
+    });
+    memoriesCreated++;
+  }
+
+  if (plan.summary) {
+    await conversationManager.addMessage(conversationId, "system", `[Sleep summary] ${plan.summary}`);
+  }
+
+  await conversationManager.compactConversation(conversationId, {
+    compactedBefore: plan.compactedBefore,
+    retained: plan.retained,
+    strategy,
+    summary: plan.summary,
+  });
+
+  const sleepAt = Date.now();
+  const updatedEntry = await conversationManager.updateConversationEntry(conversationId, (current) => ({
+    sleepCount: (current.sleepCount ?? 0) + 1,
+    sleepAt,
+  }));
+
+  const retained = new Set(plan.retained);
+  return {
+    conversationId,
+    ran: true,
+    strategy,
+    messagesConsolidated: candidates.filter(m => m.timestamp < plan.compactedBefore && !retained.has(m.timestamp)).length,
+    memoriesCreated,
+    contextTokensBefore,
+    contextTokensAfter: updatedEntry?.contextTokens,
+    sleepCount: updatedEntry?.sleepCount,
+    sleepAt,
+  };
 }
@@ -0,0 +1,214 @@
+import { z } from "zod";
+import { LLMProvider, budgetedSelection, generateStructured, recordUsage } from "@server/world/providers/llm/index.js";
+import type { ConversationMessage } from "../conversations/types.js";
+import type {
+  CompressionStrategy,
+  ConsolidatedMemory,
+  SleepStrategy,
+  SleepStrategyInput,
+} from "./types.js";
+
+const IMPORTANCE_THRESHOLD = 0.7;
+const MAX_EXCERPT_CHARS = 2000;
+
+const DEFAULT_SYSTEM_PROMPT = `You consolidate an agent's conversation history into long-term memory, the way sleep consolidates the day's experiences.
+Preserve decisions, commitments, facts about the user and the world, and anything the agent will need later. Drop small talk and repetition.`;
+
+function messageText(message: ConversationMessage): string {
+  if (typeof message.content === "string") return message.content;
+  return message.content
+    .map(part => part.type === "text" ? part.text : `[${part.type}: ${part.toolName}]`)
+    .join(" ");
+}
+
+function formatTranscript(messages: ConversationMessage[]): string {
+  return messages.map((m, i) => `[${i}] ${m.role}: ${messageText(m)}`).join("\n");
+}
+
+function lastTimestamp(messages: ConversationMessage[]): number {
+  return messages[messages.length - 1].timestamp;
+}
+
+function factsToMemories(facts: string[]): ConsolidatedMemory[] {
+  return facts
+    .map(fact => fact.trim())
+    .filter(Boolean)
+    .map(content => ({ type: "semantic" as const, content }));
+}
+
+async function consolidate<T>(input: SleepStrategyInput, instruction: string, schema: z.ZodType<T>): Promise<T> {
+  const selection = budgetedSelection({ trait: "fastCheap" }, input.usageConfig, {
+    agentId: input.agentId ?? "",
+    conversationId: input.conversationId,
+  });
+  if (!selection) {
+    throw new Error("Sleep consolidation is paused: usage budget reached");
+  }
+  const resolved = await LLMProvider.getInstance().resolve(selection);
+  const previous = input.previousSummary ? `Summary of earlier conversation:\n${input.previousSummary}\n\n` : "";
+
+  const response = await generateStructured(resolved, {
+    system: input.systemPrompt || DEFAULT_SYSTEM_PROMPT,
+    messages: [
+      { role: "user" as const, content: `${previous}Conversation:\n${formatTranscript(input.messages)}\n\n${instruction}` },
+    ],
+    schema,
+    temperature: 0.3,
+  });
+  await recordUsage({
+    stage: "sleep",
+    provider: resolved.provider,
+    modelId: resolved.modelId,
+    trait: resolved.trait,
+    usage: response.totalUsage,
+    agentId: input.agentId,
+    conversationId: input.conversationId,
+  }, input.usageConfig);
+
+  return response.output;
+}
+
+/**
+ * Drop everything outside the recent window; the dropped span is kept verbatim as an episodic excerpt
+ */
+export const slidingWindow: SleepStrategy = async ({ messages }) => {
+  let excerpt = messages
+    .filter(m => m.role === "user" || m.role === "assistant")
+    .map(m => `${m.role}: ${messageText(m)}`)
+    .join("\n");
+  if (excerpt.length > MAX_EXCERPT_CHARS) {
+    excerpt = `...${excerpt.slice(-MAX_EXCERPT_CHARS)}`;
+  }
+
+  const from = new Date(messages[0].timestamp).toISOString();
+  const to = new Date(lastTimestamp(messages)).toISOString();
+
+  return {
+    compactedBefore: lastTimestamp(messages) + 1,
+    retained: [],
+    memories: excerpt ? [{ type: "episodic", content: `Conversation from ${from} to ${to}:\n${excerpt}` }] : [],
+  };
+};
+
+/**
+ * Fold the dropped span into a running summary that stays in context
+ */
+export const progressiveSummary: SleepStrategy = async (input) => {
+  const output = await consolidate(
+    input,
+    "Write an updated summary covering the earlier summary and this conversation, and list durable facts worth remembering.",
+    z.object({
+      summary: z.string().describe("Updated running summary of the conversation so far"),
+      facts: z.array(z.string()).describe("Durable facts, preferences or knowledge"),
+    }),
+  );
+
+  return {
+    compactedBefore: lastTimestamp(input.messages) + 1,
+    retained: [],
+    summary: output.summary,
+    memories: [
+      { type: "episodic" as const, content: output.summary },
+      ...factsToMemories(output.facts),
+    ].filter(m => m.content.trim()),
+  };
+};
+
+/**
+ * Keep the messages the model rates as important in context and drop the rest
+ */
+export const importanceBased: SleepStrategy = async (input) => {
+  const output = await consolidate(
+    input,
+    "Rate the importance of each message by its [index] (0-1, 0.7+ means it must stay in context) and list durable facts worth remembering.",
+    z.object({
+      messages: z.array(z.object({
+        index: z.number().int(),
+        importance: z.number().min(0).max(1),
+      })),
+      facts: z.array(z.string()),
+    }),
+  );
+
+  const important = output.messages
+    .filter(m => m.importance >= IMPORTANCE_THRESHOLD && input.messages[m.index])
+    .map(m => input.messages[m.index]);
+
+  const memories: ConsolidatedMemory[] = factsToMemories(output.facts);
+  if (important.length > 0) {
+    memories.unshift({
+      type: "episodic",
+      content: `Key moments:\n${important.map(m => `${m.role}: ${messageText(m)}`).join("\n")}`,
+    });
+  }
+
+  return {
+    compactedBefore: lastTimestamp(input.messages) + 1,
+    retained: important.map(m => m.timestamp),
+    memories,
+  };
+};
+
+/**
+ * Split the dropped span into topical chunks and store one episodic memory per chunk
+ */
+export const semanticChunks: SleepStrategy = async (input) => {
+  const output = await consolidate(
+    input,
+    "Group the conversation into contiguous topical chunks. For each chunk give its topic, a short summary and durable facts.",
+    z.object({
+      chunks: z.array(z.object({
+        topic: z.string(),
+        summary: z.string(),
+        facts: z.array(z.string()),
+      })),
+    }),
+  );
+
+  const memories: ConsolidatedMemory[] = [];
+  for (const chunk of output.chunks) {
+    memories.push({ type: "episodic", content: `${chunk.topic}: ${chunk.summary}` });
+    memories.push(...factsToMemories(chunk.facts));
+  }
+
+  return {
+    compactedBefore: lastTimestamp(input.messages) + 1,
+    retained: [],
+    summary: output.chunks.length > 0
+      ? `Earlier topics: ${output.chunks.map(c => c.topic).join("; ")}`
+      : undefined,
+    memories,
+  };
+};
+
+/**
+ * Running summary plus importance-based retention
+ */
+export const hybrid: SleepStrategy = async (input) => {
+  const [summaryPlan, importancePlan] = await Promise.all([
+    progressiveSummary(input),
+    importanceBased(input),
+  ]);
+
+  return {
+    compactedBefore: summaryPlan.compactedBefore,
+    retained: importancePlan.retained,
+    summary: summaryPlan.summary,
+    memories: [
+      ...summaryPlan.memories,
+      ...importancePlan.memories.filter(m => m.type === "semantic"),
+    ],
+  };
+};
+
+export const SLEEP_STRATEGIES: Record<CompressionStrategy, SleepStrategy> = {
+  "sliding-window": slidingWindow,
+  "progressive-summary": progressiveSummary,
+  "importance-based": importanceBased,
+  "semantic-chunks": semanticChunks,
+  "hybrid": hybrid,
+};
+
+export function getSleepStrategy(name: CompressionStrategy): SleepStrategy {
+  return SLEEP_STRATEGIES[name] ?? slidingWindow;
+}
@@ -0,0 +1,87 @@
+import type { ConversationMessage } from "../conversations/types.js";
+import type { UsageConfig } from "@server/world/config/types.js";
+
+export type CompressionStrategy =
+  | "sliding-window"
+  | "progressive-summary"
+  | "importance-based"
+  | "semantic-chunks"
+  | "hybrid";
+
+export interface SleepConfig {
+  enabled: boolean;
+  threshold: number;
+  cooldownMinutes: number;
+  minMessagesToSleep: number;
+  keepRecentMessages: number;
+  compressionStrategy: CompressionStrategy;
+  contextWindowTokens: number;
+  systemPrompt?: string;
+}
+
+/**
+ * Memory produced by consolidating part of a conversation
+ */
+export interface ConsolidatedMemory {
+  type: "episodic" | "semantic";
+  content: string;
+}
+
+/**
+ * Result of running a compression strategy over a conversation.
+ * Messages older than `compactedBefore` leave the active context, except
+ * those whose timestamps are listed in `retained`.
+ */
+export interface SleepPlan {
+  compactedBefore: number;
+  retained: number[];
+  summary?: string;
+  memories: ConsolidatedMemory[];
+}
+
+export interface SleepStrategyInput {
+  /**
+   * Active messages eligible for consolidation (oldest first, recent messages excluded)
+   */
+  messages: ConversationMessage[];
+  previousSummary?: string;
+  systemPrompt?: string;
+  /**
+   * Attribution for the usage ledger
+   */
+  agentId?: string;
+  conversationId?: string;
+  /**
+   * Budgets and prices for consolidation calls
+   */
+  usageConfig?: UsageConfig;
+}
+
+export type SleepStrategy = (input: SleepStrategyInput) => Promise<SleepPlan>;
+
+export interface SleepRunResult {
+  conversationId: string;
+  ran: boolean;
+  reason?: string;
+  strategy?: CompressionStrategy;
+  messagesConsolidated: number;
+  memoriesCreated: number;
+  contextTokensBefore?: number;
+  contextTokensAfter?: number;
+  sleepCount?: number;
+  sleepAt?: number;
+}
+
+export interface SleepStatus {
+  conversationId: string;
+  enabled: boolean;
+  strategy?: CompressionStrategy;
+  contextTokens: number;
+  thresholdTokens?: number;
+  messageCount: number;
+  activeMessageCount: number;
+  sleepCount: number;
+  sleepAt?: number;
+  nextEligibleAt?: number;
+  running: boolean;
+}
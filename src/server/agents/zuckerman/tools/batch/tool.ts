@@ -1,6 +1,7 @@
 import { tool, zodSchema } from "@ai-sdk/provider-utils";
 import { z } from "zod";
 import type { Tool } from "ai";
+import type { ToolExecutionOptions } from "@ai-sdk/provider-utils";
 
 /**
  * Maximum number of tools allowed in a single batch execution
@@ -16,7 +17,7 @@ const DISALLOWED_TOOLS = new Set(["batch"]);
  * Context passed to batch tool for executing nested tools
  */
 export interface BatchExecutionContext {
-  executeTool: (toolName: string, params: Record<string, unknown>) => Promise<string>;
+  executeTool: (toolName: string, params: Record<string, unknown>, options: ToolExecutionOptions) => Promise<string>;
   getAvailableTools: () => string[];
 }
 
@@ -50,7 +51,7 @@ export function createBatchTool(context: BatchExecutionContext): Tool {
   const aiTool = tool<BatchToolInput, string>({
     description: `Execute multiple tools in parallel for improved performance. Use this when you need to perform multiple independent operations (e.g., reading multiple files, searching multiple directories, running multiple commands). Can execute up to ${MAX_BATCH_SIZE} tools concurrently. Tools are executed in parallel using Promise.all(), providing 5-10x speedup for multi-step tasks.`,
     inputSchema: zodSchema(batchToolInputSchema),
-    execute: async (params) => {
+    execute: async (params, options) => {
       const startTime = Date.now();
       
       if (!params.tool_calls?.length) {
@@ -69,12 +70,16 @@ export function createBatchTool(context: BatchExecutionContext): Tool {
         const start = Date.now();
         const { tool: toolName, parameters } = call;
 
+        if (options.abortSignal?.aborted) {
+          return { tool: toolName, success: false, error: "Cancelled", executionTime: 0 };
+        }
+
         if (DISALLOWED_TOOLS.has(toolName) || !availableTools.includes(toolName)) {
           return { tool: toolName, success: false, error: DISALLOWED_TOOLS.has(toolName) ? `Tool '${toolName}' is not allowed in batch` : `Tool '${toolName}' not found`, executionTime: Date.now() - start };
         }
 
         try {
-          const result = await context.executeTool(toolName, parameters);
+          const result = await context.executeTool(toolName, parameters, options);
           const isError = result.startsWith("Error:");
           return { tool: toolName, success: !isError, result: isError ? undefined : result, error: isError ? result : undefined, executionTime: Date.now() - start };
         } catch (error) {
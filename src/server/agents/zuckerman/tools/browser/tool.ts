@@ -88,403 +88,426 @@ const browserToolInputSchema = z.object({
 
 type BrowserToolInput = z.infer<typeof browserToolInputSchema>;
 
-export const browserTool = tool<BrowserToolInput, string>({
-  description: `Control Chrome/Chromium browser. Navigate, take snapshots, interact with pages, manage tabs, cookies, storage, and more.
+async function runBrowserAction(params: BrowserToolInput): Promise<string> {
+  try {
+    const { action } = params;
+    const agentId = "default";
+
+    // Handle browser lifecycle actions first
+    if (action === "close") {
+      await browserManager.close();
+      return JSON.stringify({ success: true, result: { message: "Browser closed successfully" } });
+    }
 
-Actions:
-- navigate: Navigate to URL
-- snapshot: Take page snapshot (ai/aria format)
-- screenshot: Take screenshot
-- tabs: List/open/focus/close tabs
-- act: Perform actions (click, type, press, hover, scroll, drag, select, fill, resize, wait, evaluate)
-- cookies: Get/set/clear cookies
-- storage: Get/set/clear localStorage/sessionStorage
-- emulation: Set offline, headers, credentials, geolocation, media, timezone, locale, device
-- debug: Get console messages, errors, network requests
-- files: Handle uploads, dialogs, downloads
-- status: Get browser status
-- start/stop: Control browser lifecycle
+    if (action === "stop") {
+      await browserManager.close();
+      return JSON.stringify({ success: true, result: { message: "Browser stopped successfully" } });
+    }
 
-Snapshots use ref-based element identification (e.g., "e12") for stable element references.`,
-  inputSchema: zodSchema(browserToolInputSchema),
-  execute: async (params) => {
-    try {
-      const { action } = params;
-      const agentId = "default";
-
-      // Handle browser lifecycle actions first
-      if (action === "close") {
-        await browserManager.close();
-        return JSON.stringify({ success: true, result: { message: "Browser closed successfully" } });
-      }
+    if (action === "start" || action === "status") {
+      const status = await browserManager.getStatus();
+      return JSON.stringify({ success: true, result: status });
+    }
+
+    // Get page for other actions
+    const page = await browserManager.getPage(params.targetId);
+
+    // Setup debug listeners (idempotent - only sets up once per page)
+    setupDebugListeners(page);
 
-      if (action === "stop") {
-        await browserManager.close();
-        return JSON.stringify({ success: true, result: { message: "Browser stopped successfully" } });
+    switch (action) {
+      case "navigate": {
+        if (!params.url) {
+          return JSON.stringify({ success: false, error: "url is required for navigate action" });
+        }
+        await page.goto(params.url, { waitUntil: "domcontentloaded", timeout: 30000 });
+        const tab = await browserManager.getTab(params.targetId);
+        return JSON.stringify({
+          success: true,
+          result: { url: page.url(), title: await page.title().catch(() => "") },
+        });
       }
 
-      if (action === "start" || action === "status") {
-        const status = await browserManager.getStatus();
-        return JSON.stringify({ success: true, result: status });
+      case "snapshot": {
+        const format = params.format || "ai";
+        const options = {
+          format,
+          selector: params.selector,
+          frame: params.frame,
+          interactive: params.interactive,
+          compact: params.compact,
+          depth: params.depth,
+          maxChars: params.maxChars || 200,
+          limit: params.limit,
+          labels: params.labels,
+          refs: params.refs,
+          mode: params.mode,
+          interactiveOnly: params.interactive === true,
+        };
+
+        const { path, result, preview } = await takeSnapshot(page, options, agentId);
+        const stats = statSync(path);
+
+        return JSON.stringify({
+          success: true,
+          result: {
+            format: options.format,
+            path,
+            url: page.url(),
+            title: await page.title().catch(() => ""),
+            stats: result.stats,
+            refs: result.refs,
+            fileSize: { bytes: stats.size, kb: (stats.size / 1024).toFixed(2) },
+            preview,
+            message: `Snapshot saved to: ${path}`,
+          },
+        });
       }
 
-      // Get page for other actions
-      const page = await browserManager.getPage(params.targetId);
+      case "screenshot": {
+        const fullPage = params.fullPage === true;
 
-      // Setup debug listeners (idempotent - only sets up once per page)
-      setupDebugListeners(page);
+        let buffer: Buffer;
+        if (params.ref) {
+          const { resolveElement } = await import("./utils.js");
+          const { locator } = await resolveElement(page, params.ref);
+          buffer = await locator.screenshot({ type: "png" });
+        } else {
+          buffer = await page.screenshot({ fullPage, type: "png" });
+        }
 
-      switch (action) {
-        case "navigate": {
-          if (!params.url) {
-            return JSON.stringify({ success: false, error: "url is required for navigate action" });
-          }
-          await page.goto(params.url, { waitUntil: "domcontentloaded", timeout: 30000 });
-          const tab = await browserManager.getTab(params.targetId);
-          return JSON.stringify({
-            success: true,
-            result: { url: page.url(), title: await page.title().catch(() => "") },
-          });
+        const workspaceDir = getAgentWorkspaceDir(agentId);
+        const screenshotsDir = getWorkspaceScreenshotsDir(workspaceDir);
+        if (!existsSync(screenshotsDir)) {
+          mkdirSync(screenshotsDir, { recursive: true });
+        }
+
+        const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
+        const urlSlug = page.url().replace(/[^a-zA-Z0-9]/g, "-").substring(0, 50);
+        const filename = `screenshot-${timestamp}-${urlSlug}.png`;
+        const finalPath = params.savePath || getWorkspaceScreenshotPath(workspaceDir, filename);
+
+        const dir = dirname(finalPath);
+        if (!existsSync(dir)) {
+          mkdirSync(dir, { recursive: true });
         }
 
-        case "snapshot": {
-          const format = params.format || "ai";
-          const options = {
-            format,
-            selector: params.selector,
-            frame: params.frame,
-            interactive: params.interactive,
-            compact: params.compact,
-            depth: params.depth,
-            maxChars: params.maxChars || 200,
-            limit: params.limit,
-            labels: params.labels,
-            refs: params.refs,
-            mode: params.mode,
-            interactiveOnly: params.interactive === true,
-          };
-
-          const { path, result, preview } = await takeSnapshot(page, options, agentId);
-          const stats = statSync(path);
+        writeFileSync(finalPath, buffer);
+
+        return JSON.stringify({
+          success: true,
+          result: { path: finalPath, url: page.url(), fullPage },
+        });
+      }
 
+      case "tabs": {
+        const tabAction = params.tabAction as string | undefined;
+        const targetId = params.targetId as string | undefined;
+        const url = params.url as string | undefined;
+
+        if (!params.tabAction || params.tabAction === "list") {
+          const tabs = await browserManager.listTabs();
           return JSON.stringify({
             success: true,
             result: {
-              format: options.format,
-              path,
-              url: page.url(),
-              title: await page.title().catch(() => ""),
-              stats: result.stats,
-              refs: result.refs,
-              fileSize: { bytes: stats.size, kb: (stats.size / 1024).toFixed(2) },
-              preview,
-              message: `Snapshot saved to: ${path}`,
+              tabs: tabs.map((t) => ({
+                targetId: t.targetId,
+                url: t.url,
+                title: t.title,
+              })),
             },
           });
         }
 
-        case "screenshot": {
-          const fullPage = params.fullPage === true;
-
-          let buffer: Buffer;
-          if (params.ref) {
-            const { resolveElement } = await import("./utils.js");
-            const { locator } = await resolveElement(page, params.ref);
-            buffer = await locator.screenshot({ type: "png" });
-          } else {
-            buffer = await page.screenshot({ fullPage, type: "png" });
-          }
-
-          const workspaceDir = getAgentWorkspaceDir(agentId);
-          const screenshotsDir = getWorkspaceScreenshotsDir(workspaceDir);
-          if (!existsSync(screenshotsDir)) {
-            mkdirSync(screenshotsDir, { recursive: true });
-          }
-
-          const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
-          const urlSlug = page.url().replace(/[^a-zA-Z0-9]/g, "-").substring(0, 50);
-          const filename = `screenshot-${timestamp}-${urlSlug}.png`;
-          const finalPath = params.savePath || getWorkspaceScreenshotPath(workspaceDir, filename);
-
-          const dir = dirname(finalPath);
-          if (!existsSync(dir)) {
-            mkdirSync(dir, { recursive: true });
+        if (params.tabAction === "open") {
+          if (!params.url) {
+            return JSON.stringify({ success: false, error: "url is required to open tab" });
           }
-
-          writeFileSync(finalPath, buffer);
-
+          const tab = await browserManager.createTab(params.url);
           return JSON.stringify({
             success: true,
-            result: { path: finalPath, url: page.url(), fullPage },
+            result: {
+              targetId: tab.targetId,
+              url: tab.url,
+              title: tab.title,
+            },
           });
         }
 
-        case "tabs": {
-          const tabAction = params.tabAction as string | undefined;
-          const targetId = params.targetId as string | undefined;
-          const url = params.url as string | undefined;
-
-          if (!params.tabAction || params.tabAction === "list") {
-            const tabs = await browserManager.listTabs();
-            return JSON.stringify({
-              success: true,
-              result: {
-                tabs: tabs.map((t) => ({
-                  targetId: t.targetId,
-                  url: t.url,
-                  title: t.title,
-                })),
-              },
-            });
+        if (params.tabAction === "focus") {
+          if (!params.targetId) {
+            return JSON.stringify({ success: false, error: "targetId is required to focus tab" });
           }
+          await browserManager.focusTab(params.targetId);
+          return JSON.stringify({ success: true, result: { targetId: params.targetId } });
+        }
 
-          if (params.tabAction === "open") {
-            if (!params.url) {
-              return JSON.stringify({ success: false, error: "url is required to open tab" });
-            }
-            const tab = await browserManager.createTab(params.url);
-            return JSON.stringify({
-              success: true,
-              result: {
-                targetId: tab.targetId,
-                url: tab.url,
-                title: tab.title,
-              },
-            });
+        if (params.tabAction === "close") {
+          if (!params.targetId) {
+            return JSON.stringify({ success: false, error: "targetId is required to close tab" });
           }
+          await browserManager.closeTab(params.targetId);
+          return JSON.stringify({ success: true, result: { targetId: params.targetId } });
+        }
 
-          if (params.tabAction === "focus") {
-            if (!params.targetId) {
-              return JSON.stringify({ success: false, error: "targetId is required to focus tab" });
-            }
-            await browserManager.focusTab(params.targetId);
-            return JSON.stringify({ success: true, result: { targetId: params.targetId } });
-          }
+        return JSON.stringify({ success: false, error: `Unknown tab action: ${params.tabAction}` });
+      }
 
-          if (params.tabAction === "close") {
-            if (!params.targetId) {
-              return JSON.stringify({ success: false, error: "targetId is required to close tab" });
-            }
-            await browserManager.closeTab(params.targetId);
-            return JSON.stringify({ success: true, result: { targetId: params.targetId } });
+      case "act": {
+        if (!params.request || !(params.request as any).kind) {
+          const suggestions: string[] = [];
+          if (params.url) {
+            suggestions.push("Use action='navigate' with url parameter to navigate to a page");
+          }
+          if (params.interactive !== undefined) {
+            suggestions.push("Use action='snapshot' with interactive parameter to take a page snapshot");
           }
+          const suggestionText = suggestions.length > 0 
+            ? `\n\nDid you mean to:\n${suggestions.map(s => `- ${s}`).join("\n")}`
+            : "";
+          return JSON.stringify({ 
+            success: false, 
+            error: `request object with kind is required for act action. The request must be an object with a 'kind' property (e.g., 'click', 'type', 'press', 'hover', 'scrollIntoView', 'drag', 'select', 'fill', 'resize', 'wait', 'evaluate').${suggestionText}\n\nExample: { action: "act", request: { kind: "click", ref: "e12" } }` 
+          });
+        }
 
-          return JSON.stringify({ success: false, error: `Unknown tab action: ${params.tabAction}` });
+        const request = params.request as ActionRequest;
+        const error = validateActionRequest(request);
+        if (error) {
+          return JSON.stringify({ success: false, error });
         }
 
-        case "act": {
-          if (!params.request || !(params.request as any).kind) {
-            const suggestions: string[] = [];
-            if (params.url) {
-              suggestions.push("Use action='navigate' with url parameter to navigate to a page");
-            }
-            if (params.interactive !== undefined) {
-              suggestions.push("Use action='snapshot' with interactive parameter to take a page snapshot");
-            }
-            const suggestionText = suggestions.length > 0 
-              ? `\n\nDid you mean to:\n${suggestions.map(s => `- ${s}`).join("\n")}`
-              : "";
-            return JSON.stringify({ 
-              success: false, 
-              error: `request object with kind is required for act action. The request must be an object with a 'kind' property (e.g., 'click', 'type', 'press', 'hover', 'scrollIntoView', 'drag', 'select', 'fill', 'resize', 'wait', 'evaluate').${suggestionText}\n\nExample: { action: "act", request: { kind: "click", ref: "e12" } }` 
-            });
-          }
+        const actionResult = await executeAction(page, request);
+        const tab = await browserManager.getTab(params.targetId);
+
+        return JSON.stringify({
+          success: true,
+          result: {
+            ...(typeof actionResult === "object" && actionResult !== null ? actionResult : { value: actionResult }),
+            targetId: tab.targetId,
+            url: tab.url,
+          },
+        });
+      }
 
-          const request = params.request as ActionRequest;
-          const error = validateActionRequest(request);
-          if (error) {
-            return JSON.stringify({ success: false, error });
+      case "cookies": {
+        if (params.cookie) {
+          if ((params.cookie as any).clear) {
+            await clearCookies(page);
+          } else {
+            await setCookie(page, params.cookie as any);
           }
+          return JSON.stringify({ success: true, result: { ok: true } });
+        }
+        const cookies = await getCookies(page);
+        return JSON.stringify({ success: true, result: { cookies } });
+      }
 
-          const actionResult = await executeAction(page, request);
-          const tab = await browserManager.getTab(params.targetId);
+      case "storage": {
+        const kind = params.storageKind || "local";
 
-          return JSON.stringify({
-            success: true,
-            result: {
-              ...(typeof actionResult === "object" && actionResult !== null ? actionResult : { value: actionResult }),
-              targetId: tab.targetId,
-              url: tab.url,
-            },
-          });
+        if (params.value !== undefined) {
+          if (!params.key) {
+            return JSON.stringify({ success: false, error: "key is required to set storage" });
+          }
+          await setStorage(page, kind, params.key, params.value);
+          return JSON.stringify({ success: true, result: { ok: true } });
         }
 
-        case "cookies": {
-          if (params.cookie) {
-            if ((params.cookie as any).clear) {
-              await clearCookies(page);
-            } else {
-              await setCookie(page, params.cookie as any);
-            }
-            return JSON.stringify({ success: true, result: { ok: true } });
-          }
-          const cookies = await getCookies(page);
-          return JSON.stringify({ success: true, result: { cookies } });
+        if (params.key === "clear") {
+          await clearStorage(page, kind);
+          return JSON.stringify({ success: true, result: { ok: true } });
         }
 
-        case "storage": {
-          const kind = params.storageKind || "local";
+        const storage = await getStorage(page, kind, params.key);
+        return JSON.stringify({ success: true, result: { [kind]: storage } });
+      }
 
-          if (params.value !== undefined) {
-            if (!params.key) {
-              return JSON.stringify({ success: false, error: "key is required to set storage" });
-            }
-            await setStorage(page, kind, params.key, params.value);
-            return JSON.stringify({ success: true, result: { ok: true } });
-          }
+      case "emulation": {
+        if (params.offline !== undefined) {
+          await setOffline(page, params.offline);
+        }
+        if (params.headers) {
+          await setExtraHeaders(page, params.headers as Record<string, string>);
+        }
+        if (params.credentials) {
+          await setHttpCredentials(page, params.credentials as any);
+        }
+        if (params.geolocation) {
+          await setGeolocation(page, params.geolocation as any);
+        }
+        if (params.media) {
+          await emulateMedia(page, params.media as any);
+        }
+        if (params.timezoneId) {
+          await setTimezone(page, params.timezoneId);
+        }
+        if (params.locale) {
+          await setLocale(page, params.locale);
+        }
+        if (params.device) {
+          await emulateDevice(page, params.device);
+        }
+        return JSON.stringify({ success: true, result: { ok: true } });
+      }
 
-          if (params.key === "clear") {
-            await clearStorage(page, kind);
-            return JSON.stringify({ success: true, result: { ok: true } });
-          }
+      case "debug": {
+        const debugType = params.debugType;
+        const level = params.level;
+        const filter = params.filter;
+        const clear = params.clear === true;
 
-          const storage = await getStorage(page, kind, params.key);
-          return JSON.stringify({ success: true, result: { [kind]: storage } });
+        if (debugType === "console" || !debugType) {
+          const messages = getConsoleMessages(level);
+          return JSON.stringify({ success: true, result: { messages } });
         }
 
-        case "emulation": {
-          if (params.offline !== undefined) {
-            await setOffline(page, params.offline);
-          }
-          if (params.headers) {
-            await setExtraHeaders(page, params.headers as Record<string, string>);
-          }
-          if (params.credentials) {
-            await setHttpCredentials(page, params.credentials as any);
-          }
-          if (params.geolocation) {
-            await setGeolocation(page, params.geolocation as any);
-          }
-          if (params.media) {
-            await emulateMedia(page, params.media as any);
-          }
-          if (params.timezoneId) {
-            await setTimezone(page, params.timezoneId);
-          }
-          if (params.locale) {
-            await setLocale(page, params.locale);
-          }
-          if (params.device) {
-            await emulateDevice(page, params.device);
-          }
-          return JSON.stringify({ success: true, result: { ok: true } });
+        if (debugType === "errors") {
+          const errors = getPageErrors(clear);
+          return JSON.stringify({ success: true, result: { errors } });
         }
 
-        case "debug": {
-          const debugType = params.debugType;
-          const level = params.level;
-          const filter = params.filter;
-          const clear = params.clear === true;
+        if (debugType === "requests") {
+          const requests = getNetworkRequests(filter, clear);
+          return JSON.stringify({ success: true, result: { requests } });
+        }
 
-          if (debugType === "console" || !debugType) {
-            const messages = getConsoleMessages(level);
-            return JSON.stringify({ success: true, result: { messages } });
-          }
+        return JSON.stringify({ success: false, error: `Unknown debug type: ${debugType}. Use: console, errors, requests` });
+      }
 
-          if (debugType === "errors") {
-            const errors = getPageErrors(clear);
-            return JSON.stringify({ success: true, result: { errors } });
-          }
+      case "files": {
+        const fileAction = params.fileAction;
 
-          if (debugType === "requests") {
-            const requests = getNetworkRequests(filter, clear);
-            return JSON.stringify({ success: true, result: { requests } });
+        if (fileAction === "upload" || params.paths) {
+          if (!params.paths || params.paths.length === 0) {
+            return JSON.stringify({ success: false, error: "paths array required for upload" });
           }
+          await handleFileUpload(
+            page,
+            params.paths,
+            params.ref,
+            params.selector,
+            params.timeoutMs,
+          );
+          return JSON.stringify({ success: true, result: { ok: true } });
+        }
 
-          return JSON.stringify({ success: false, error: `Unknown debug type: ${debugType}. Use: console, errors, requests` });
+        if (fileAction === "dialog" || params.accept !== undefined) {
+          await handleDialog(
+            page,
+            params.accept ?? false,
+            params.promptText,
+            params.timeoutMs,
+          );
+          return JSON.stringify({ success: true, result: { ok: true } });
         }
 
-        case "files": {
-          const fileAction = params.fileAction;
-
-          if (fileAction === "upload" || params.paths) {
-            if (!params.paths || params.paths.length === 0) {
-              return JSON.stringify({ success: false, error: "paths array required for upload" });
-            }
-            await handleFileUpload(
-              page,
-              params.paths,
-              params.ref,
-              params.selector,
-              params.timeoutMs,
-            );
-            return JSON.stringify({ success: true, result: { ok: true } });
+        if (fileAction === "download") {
+          if (!params.ref && !params.selector) {
+            return JSON.stringify({ success: false, error: "ref or selector required for download" });
           }
-
-          if (fileAction === "dialog" || params.accept !== undefined) {
-            await handleDialog(
-              page,
-              params.accept ?? false,
-              params.promptText,
-              params.timeoutMs,
-            );
-            return JSON.stringify({ success: true, result: { ok: true } });
-          }
-
-          if (fileAction === "download") {
-            if (!params.ref && !params.selector) {
-              return JSON.stringify({ success: false, error: "ref or selector required for download" });
-            }
-            if (!params.savePath) {
-              return JSON.stringify({ success: false, error: "savePath required for download" });
-            }
-            const result = await downloadFile(
-              page,
-              params.ref as string | number,
-              params.selector!,
-              params.savePath,
-              params.timeoutMs,
-            );
-            return JSON.stringify({ success: true, result });
+          if (!params.savePath) {
+            return JSON.stringify({ success: false, error: "savePath required for download" });
           }
+          const result = await downloadFile(
+            page,
+            params.ref as string | number,
+            params.selector!,
+            params.savePath,
+            params.timeoutMs,
+          );
+          return JSON.stringify({ success: true, result });
+        }
 
-          if (fileAction === "wait-download") {
-            const result = await waitForDownload(
-              page,
-              params.savePath,
-              params.timeoutMs,
-            );
-            return JSON.stringify({ success: true, result });
-          }
+        if (fileAction === "wait-download") {
+          const result = await waitForDownload(
+            page,
+            params.savePath,
+            params.timeoutMs,
+          );
+          return JSON.stringify({ success: true, result });
+        }
 
-          if (fileAction === "response-body") {
-            if (!params.url) {
-              return JSON.stringify({ success: false, error: "url required for response-body" });
-            }
-            const result = await getResponseBody(
-              page,
-              params.url,
-              params.timeoutMs,
-            );
-            return JSON.stringify({ success: true, result });
+        if (fileAction === "response-body") {
+          if (!params.url) {
+            return JSON.stringify({ success: false, error: "url required for response-body" });
           }
+          const result = await getResponseBody(
+            page,
+            params.url,
+            params.timeoutMs,
+          );
+          return JSON.stringify({ success: true, result });
+        }
 
-          if (fileAction === "highlight") {
-            if (!params.ref && !params.selector) {
-              return JSON.stringify({ success: false, error: "ref or selector required for highlight" });
-            }
-            await highlightElement(
-              page,
-              params.ref as string | number,
-              params.selector,
-            );
-            return JSON.stringify({ success: true, result: { ok: true } });
+        if (fileAction === "highlight") {
+          if (!params.ref && !params.selector) {
+            return JSON.stringify({ success: false, error: "ref or selector required for highlight" });
           }
-
-          return JSON.stringify({ success: false, error: `Unknown file action: ${fileAction}. Use: upload, dialog, download, wait-download, response-body, highlight` });
+          await highlightElement(
+            page,
+            params.ref as string | number,
+            params.selector,
+          );
+          return JSON.stringify({ success: true, result: { ok: true } });
         }
 
-        default:
-          return JSON.stringify({
-            success: false,
-            error: `Unknown action: ${action}. Supported: navigate, snapshot, screenshot, tabs, act, cookies, storage, emulation, debug, files, status, start, stop, close`,
-          });
+        return JSON.stringify({ success: false, error: `Unknown file action: ${fileAction}. Use: upload, dialog, download, wait-download, response-body, highlight` });
       }
-    } catch (err) {
-      return JSON.stringify({
-        success: false,
-        error: err instanceof Error ? err.message : "Unknown error",
-      });
+
+      default:
+        return JSON.stringify({
+          success: false,
+          error: `Unknown action: ${action}. Supported: navigate, snapshot, screenshot, tabs, act, cookies, storage, emulation, debug, files, status, start, stop, close`,
+        });
+    }
+  } catch (err) {
+    return JSON.stringify({
+      success: false,
+      error: err instanceof Error ? err.message : "Unknown error",
+    });
+  }
+}
+
+export const browserTool = tool<BrowserToolInput, string>({
+  description: `Control Chrome/Chromium browser. Navigate, take snapshots, interact with pages, manage tabs, cookies, storage, and more.
+
+Actions:
+- navigate: Navigate to URL
+- snapshot: Take page snapshot (ai/aria format)
+- screenshot: Take screenshot
+- tabs: List/open/focus/close tabs
+- act: Perform actions (click, type, press, hover, scroll, drag, select, fill, resize, wait, evaluate)
+- cookies: Get/set/clear cookies
+- storage: Get/set/clear localStorage/sessionStorage
+- emulation: Set offline, headers, credentials, geolocation, media, timezone, locale, device
+- debug: Get console messages, errors, network requests
+- files: Handle uploads, dialogs, downloads
+- status: Get browser status
+- start/stop: Control browser lifecycle
+
+Snapshots use ref-based element identification (e.g., "e12") for stable element references.`,
+  inputSchema: zodSchema(browserToolInputSchema),
+  execute: async (params, options) => {
+    const signal = options.abortSignal;
+    if (signal?.aborted) {
+      return JSON.stringify({ success: false, error: "Cancelled" });
     }
+    if (!signal) {
+      return runBrowserAction(params);
+    }
+
+    // Playwright calls take no AbortSignal: stop page loading and return without waiting for the action
+    return Promise.race([
+      runBrowserAction(params),
+      new Promise<string>((resolve) => {
+        signal.addEventListener("abort", () => {
+          browserManager.getPage(params.targetId)
+            .then(page => page.evaluate(() => window.stop()))
+            .catch(() => {});
+          resolve(JSON.stringify({ success: false, error: "Cancelled" }));
+        }, { once: true });
+      }),
+    ]);
   },
 });
@@ -0,0 +1,2 @@
+export { createMemoryTools } from "./tool.js";
+export type { MemoryToolDeps } from "./tool.js";
@@ -0,0 +1,237 @@
+import path from "node:path";
+import { tool, zodSchema, type ToolExecutionOptions } from "@ai-sdk/provider-utils";
+import { z } from "zod";
+import { loadConfig } from "@server/world/config/index.js";
+import { resolveAgentHomedir } from "@server/world/homedir/resolver.js";
+import { MemorySystem } from "@server/agents/zuckerman/core/memory/memory-service.js";
+import { resolveMemorySearchConfig } from "@server/agents/zuckerman/core/memory/config.js";
+import { getMemorySearchManager, type MemorySearchManager } from "@server/agents/zuckerman/core/memory/retrieval/search.js";
+import { recallMemories } from "@server/agents/zuckerman/core/memory/recall.js";
+import type { MemoryType } from "@server/agents/zuckerman/core/memory/types.js";
+import { getToolSecurityContext } from "../policy.js";
+
+const MEMORY_TYPES: MemoryType[] = ["semantic", "episodic", "procedural", "prospective", "emotional", "working"];
+const DEFAULT_MAX_RESULTS = 6;
+const DEFAULT_MIN_SCORE = 0.15;
+
+export interface MemoryToolDeps {
+  getMemorySystem: () => Promise<MemorySystem>;
+  getSearchManager: () => Promise<MemorySearchManager | null>;
+}
+
+function createDefaultDeps(agentId: string): MemoryToolDeps {
+  return {
+    getMemorySystem: async () => {
+      const config = await loadConfig();
+      return new MemorySystem(resolveAgentHomedir(config, agentId), agentId);
+    },
+    getSearchManager: async () => {
+      const config = await loadConfig();
+      const memorySearchConfig = config.agent?.memorySearch;
+      if (!memorySearchConfig) return null;
+      const resolvedConfig = resolveMemorySearchConfig(memorySearchConfig, agentId);
+      if (!resolvedConfig) return null;
+      const { manager } = await getMemorySearchManager({
+        config: resolvedConfig,
+        workspaceDir: resolveAgentHomedir(config, agentId),
+        agentId,
+      });
+      return manager;
+    },
+  };
+}
+
+const memorySearchInputSchema = z.object({
+  query: z.string().describe("What to look for in long-term memory"),
+  maxResults: z.number().int().min(1).max(50).optional().describe("Maximum number of results (default: 6)"),
+  minScore: z.number().min(0).max(1).optional().describe("Minimum relevance score between 0 and 1 (default: 0.15)"),
+  sources: z.array(z.enum(["store", "memory", "conversations"])).optional()
+    .describe("Where to search: 'store' (classified memories), 'memory' (indexed memory files), 'conversations' (indexed transcripts). Default: all"),
+  types: z.array(z.enum(["semantic", "episodic", "procedural", "prospective", "emotional"])).optional()
+    .describe("Only return store memories of these types"),
+});
+
+type MemorySearchInput = z.infer<typeof memorySearchInputSchema>;
+
+const memoryGetInputSchema = z.object({
+  id: z.string().optional().describe("Memory ID (from a memory_search citation like memory:semantic/<id>)"),
+  type: z.enum(["semantic", "episodic", "procedural", "prospective", "emotional", "working"]).optional()
+    .describe("Memory type, speeds up lookup by ID"),
+  path: z.string().optional().describe("Indexed file path relative to the memory workspace (from a citation like path#L3-L8)"),
+  from: z.number().int().min(1).optional().describe("First line to read (1-based, for path)"),
+  lines: z.number().int().min(1).optional().describe("Number of lines to read (for path)"),
+});
+
+type MemoryGetInput = z.infer<typeof memoryGetInputSchema>;
+
+interface SearchHit {
+  citation: string;
+  score: number;
+  snippet: string;
+  source: "store" | "memory" | "conversations";
+  type?: string;
+  id?: string;
+  path?: string;
+  startLine?: number;
+  endLine?: number;
+  createdAt?: number;
+}
+
+/**
+ * Conversation a call's memory access is limited to. The main conversation (and calls without
+ * a conversation) see everything; group and channel conversations only see their own memories
+ * and transcripts plus those that belong to no conversation.
+ */
+function resolveMemoryScope(options: ToolExecutionOptions): string | undefined {
+  const securityContext = getToolSecurityContext(options);
+  if (!securityContext || securityContext.conversationType === "main") return undefined;
+  return securityContext.conversationId;
+}
+
+/**
+ * Create the memory_search and memory_get tools for an agent
+ */
+export function createMemoryTools(agentId: string, deps: MemoryToolDeps = createDefaultDeps(agentId)) {
+  const memorySearchTool = tool<MemorySearchInput, string>({
+    description:
+      "Search your long-term memory (facts, past events, learned procedures, plans, indexed notes and past conversations). " +
+      "Returns snippets with relevance scores and citations. Quote the citation when telling the user where something came from, " +
+      "and use memory_get with a citation to read the full entry.",
+    inputSchema: zodSchema(memorySearchInputSchema),
+    execute: async (params, options) => {
+      try {
+        const scope = resolveMemoryScope(options);
+        const maxResults = params.maxResults ?? DEFAULT_MAX_RESULTS;
+        const minScore = params.minScore ?? DEFAULT_MIN_SCORE;
+        const sources = new Set(params.sources ?? ["store", "memory", "conversations"]);
+        const hits: SearchHit[] = [];
+
+        if (sources.has("store")) {
+          const memorySystem = await deps.getMemorySystem();
+          const recalled = await recallMemories({
+            query: params.query,
+            memorySystem,
+            options: { maxResults: maxResults * 2, minScore, maxTokens: Number.POSITIVE_INFINITY },
+            conversationId: scope,
+          });
+          for (const memory of recalled) {
+            if (params.types && !(params.types as string[]).includes(memory.type)) continue;
+            const stored = memorySystem.find(memory.type as MemoryType, memory.id);
+            hits.push({
+              citation: `memory:${memory.type}/${memory.id}`,
+              score: memory.score,
+              snippet: memory.content,
+              source: "store",
+              type: memory.type,
+              id: memory.id,
+              createdAt: stored?.createdAt,
+            });
+          }
+        }
+
+        if (sources.has("memory") || sources.has("conversations")) {
+          const manager = await deps.getSearchManager();
+          if (manager) {
+            const results = await manager.search(params.query, {
+              maxResults,
+              minScore,
+              sources: (["memory", "conversations"] as const).filter(source => sources.has(source)),
+              ...(scope !== undefined && { conversationId: scope, includeShared: true }),
+            });
+            for (const result of results) {
+              if (!sources.has(result.source)) continue;
+              hits.push({
+                citation: `${result.path}#L${result.startLine}-L${result.endLine}`,
+                score: result.score,
+                snippet: result.snippet,
+                source: result.source,
+                path: result.path,
+                startLine: result.startLine,
+                endLine: result.endLine,
+              });
+            }
+          }
+        }
+
+        hits.sort((a, b) => b.score - a.score);
+        const results = hits.slice(0, maxResults).map(hit => ({ ...hit, score: Math.round(hit.score * 1000) / 1000 }));
+
+        return JSON.stringify({
+          success: true,
+          query: params.query,
+          results,
+          ...(results.length === 0 && { message: "No matching memories found" }),
+        });
+      } catch (error) {
+        return JSON.stringify({
+          success: false,
+          error: error instanceof Error ? error.message : "Memory search failed",
+        });
+      }
+    },
+  });
+
+  const memoryGetTool = tool<MemoryGetInput, string>({
+    description:
+      "Read a specific memory from long-term memory, either by memory ID (citation memory:<type>/<id>) " +
+      "or by indexed file path with an optional line range (citation path#L<from>-L<to>).",
+    inputSchema: zodSchema(memoryGetInputSchema),
+    execute: async (params, options) => {
+      try {
+        const scope = resolveMemoryScope(options);
+        if (params.id) {
+          const memorySystem = await deps.getMemorySystem();
+          const types = params.type ? [params.type] : MEMORY_TYPES;
+          for (const type of types) {
+            const memory = memorySystem.find(type, params.id);
+            const conversationId = memory?.metadata?.conversationId;
+            if (memory && (scope === undefined || !conversationId || conversationId === scope)) {
+              return JSON.stringify({
+                success: true,
+                citation: `memory:${memory.type}/${memory.id}`,
+                memory,
+              });
+            }
+          }
+          return JSON.stringify({ success: false, error: `Memory "${params.id}" not found` });
+        }
+
+        if (params.path) {
+          const manager = await deps.getSearchManager();
+          if (!manager) {
+            return JSON.stringify({ success: false, error: "Memory search is not configured, file reads are unavailable" });
+          }
+
+          // Only files inside the memory workspace can be read
+          const { workspaceDir } = manager.status();
+          const relative = path.relative(workspaceDir, path.resolve(workspaceDir, params.path));
+          if (relative.startsWith("..") || path.isAbsolute(relative)) {
+            return JSON.stringify({ success: false, error: `Path "${params.path}" is outside the memory workspace` });
+          }
+          if (scope !== undefined && path.dirname(relative) === "conversations" && path.basename(relative, ".jsonl") !== scope) {
+            return JSON.stringify({ success: false, error: `Path "${params.path}" is another conversation's transcript` });
+          }
+
+          const file = await manager.readFile({ relPath: relative, from: params.from, lines: params.lines });
+          const from = params.from ?? 1;
+          const to = from + file.text.split("\n").length - 1;
+          return JSON.stringify({
+            success: true,
+            citation: `${file.path}#L${from}-L${to}`,
+            path: file.path,
+            text: file.text,
+          });
+        }
+
+        return JSON.stringify({ success: false, error: "Provide either id or path" });
+      } catch (error) {
+        return JSON.stringify({
+          success: false,
+          error: error instanceof Error ? error.message : "Failed to read memory",
+        });
+      }
+    },
+  });
+
+  return { memorySearchTool, memoryGetTool };
+}
@@ -0,0 +1,240 @@
+import { execFile } from "node:child_process";
+import { promisify } from "node:util";
+import type { MousePlatform, MouseButton } from "./platform.js";
+
+const execFileAsync = promisify(execFile);
+
+export type LinuxInputBackend = "xdotool" | "ydotool";
+
+/**
+ * Pick the input backend for the current session.
+ * Wayland compositors block XTest, so Wayland sessions go through uinput (ydotool).
+ * ZUCKERMAN_INPUT_BACKEND overrides detection, e.g. to use xdotool over XWayland.
+ */
+export function detectLinuxBackend(env: NodeJS.ProcessEnv = process.env): LinuxInputBackend {
+  const override = env.ZUCKERMAN_INPUT_BACKEND;
+  if (override === "xdotool" || override === "ydotool") {
+    return override;
+  }
+  if (env.WAYLAND_DISPLAY || env.XDG_SESSION_TYPE === "wayland") {
+    return "ydotool";
+  }
+  if (env.DISPLAY) {
+    return "xdotool";
+  }
+  throw new Error(
+    "No graphical session found (neither DISPLAY nor WAYLAND_DISPLAY is set).\n\n" +
+    "On a headless machine, start a virtual display first:\n" +
+    "  Xvfb :99 -screen 0 1920x1080x24 &\n" +
+    "  export DISPLAY=:99"
+  );
+}
+
+const INSTALL_HINTS: Record<string, string> = {
+  xdotool: "sudo apt install xdotool",
+  ydotool: "sudo apt install ydotool (and run ydotoold with access to /dev/uinput)",
+  scrot: "sudo apt install scrot",
+  import: "sudo apt install imagemagick",
+  grim: "sudo apt install grim",
+};
+
+/**
+ * Run a helper binary without a shell, so typed text is never interpreted
+ */
+async function run(command: string, args: string[]): Promise<string> {
+  try {
+    const { stdout } = await execFileAsync(command, args, { timeout: 30000 });
+    return stdout;
+  } catch (error: unknown) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      throw new Error(
+        `'${command}' is required for desktop control on Linux but was not found.\n\n` +
+        `Install it with: ${INSTALL_HINTS[command] ?? command}`
+      );
+    }
+    throw error;
+  }
+}
+
+// ============================================================================
+// X11 (xdotool, which drives XTest)
+// ============================================================================
+
+const X11_BUTTONS: Record<MouseButton, string> = { left: "1", middle: "2", right: "3" };
+
+/**
+ * Linux mouse/keyboard control on X11 (including Xvfb) using xdotool
+ */
+export const x11Platform: MousePlatform = {
+  async moveTo(x: number, y: number): Promise<void> {
+    await run("xdotool", ["mousemove", String(Math.round(x)), String(Math.round(y))]);
+  },
+
+  async getPosition(): Promise<{ x: number; y: number }> {
+    const stdout = await run("xdotool", ["getmouselocation", "--shell"]);
+    const x = stdout.match(/^X=(\d+)/m);
+    const y = stdout.match(/^Y=(\d+)/m);
+    if (!x || !y) {
+      throw new Error(`Unexpected xdotool output: ${stdout.trim()}`);
+    }
+    return { x: parseInt(x[1], 10), y: parseInt(y[1], 10) };
+  },
+
+  async click(x: number, y: number, button: MouseButton, clicks: number): Promise<void> {
+    await run("xdotool", [
+      "mousemove", String(Math.round(x)), String(Math.round(y)),
+      "click", "--repeat", String(clicks), "--delay", "100", X11_BUTTONS[button],
+    ]);
+  },
+
+  async scroll(x: number, y: number): Promise<void> {
+    // Wheel buttons: 4 = up, 5 = down, 6 = left, 7 = right
+    if (y !== 0) {
+      await run("xdotool", ["click", "--repeat", String(Math.abs(Math.round(y))), y > 0 ? "5" : "4"]);
+    }
+    if (x !== 0) {
+      await run("xdotool", ["click", "--repeat", String(Math.abs(Math.round(x))), x > 0 ? "7" : "6"]);
+    }
+  },
+
+  async drag(startX: number, startY: number, endX: number, endY: number, button: MouseButton, duration: number): Promise<void> {
+    await run("xdotool", [
+      "mousemove", String(Math.round(startX)), String(Math.round(startY)),
+      "mousedown", X11_BUTTONS[button],
+      "sleep", String(duration),
+      "mousemove", String(Math.round(endX)), String(Math.round(endY)),
+      "mouseup", X11_BUTTONS[button],
+    ]);
+  },
+
+  async typeText(text: string): Promise<void> {
+    await run("xdotool", ["type", "--delay", "12", "--", text]);
+  },
+
+  async pressKeys(keys: string): Promise<void> {
+    // xdotool understands combos like "ctrl+shift+t" and keysym names like "Return"
+    await run("xdotool", ["key", "--", ...keys.split(/\s+/).filter(Boolean)]);
+  },
+
+  async getScreenSize(): Promise<{ width: number; height: number }> {
+    const stdout = await run("xdotool", ["getdisplaygeometry"]);
+    const [width, height] = stdout.trim().split(/\s+/).map((n) => parseInt(n, 10));
+    return { width, height };
+  },
+
+  async screenshot(path: string): Promise<void> {
+    try {
+      await run("scrot", ["--overwrite", path]);
+    } catch {
+      await run("import", ["-window", "root", path]);
+    }
+  },
+};
+
+// ============================================================================
+// Wayland (ydotool, which writes to /dev/uinput)
+// ============================================================================
+
+// ydotool click codes: low bits select the button, 0x40 = down, 0x80 = up
+const UINPUT_BUTTONS: Record<MouseButton, number> = { left: 0x00, right: 0x01, middle: 0x02 };
+
+// Linux input event codes (linux/input-event-codes.h) for key names ydotool can't resolve itself
+const KEY_CODES: Record<string, number> = {
+  esc: 1, escape: 1, backspace: 14, tab: 15, enter: 28, return: 28, space: 57,
+  ctrl: 29, control: 29, shift: 42, alt: 56, super: 125, meta: 125, win: 125,
+  capslock: 58, home: 102, up: 103, pageup: 104, left: 105, right: 106,
+  end: 107, down: 108, pagedown: 109, insert: 110, delete: 111,
+  minus: 12, equal: 13, comma: 51, period: 52, slash: 53, semicolon: 39,
+  f1: 59, f2: 60, f3: 61, f4: 62, f5: 63, f6: 64, f7: 65, f8: 66, f9: 67, f10: 68, f11: 87, f12: 88,
+};
+const LETTER_ROWS = ["qwertyuiop", "asdfghjkl", "zxcvbnm"];
+const LETTER_ROW_START = [16, 30, 44];
+LETTER_ROWS.forEach((row, i) => {
+  [...row].forEach((letter, j) => {
+    KEY_CODES[letter] = LETTER_ROW_START[i] + j;
+  });
+});
+[..."1234567890"].forEach((digit, i) => {
+  KEY_CODES[digit] = 2 + i;
+});
+
+/**
+ * Translate "ctrl+shift+t" into ydotool's press/release sequence ("29:1 42:1 20:1 20:0 42:0 29:0")
+ */
+export function toUinputKeySequence(combo: string): string[] {
+  const codes = combo.split("+").map((name) => {
+    const code = KEY_CODES[name.trim().toLowerCase()];
+    if (code === undefined) {
+      throw new Error(`Unknown key "${name}" for ydotool`);
+    }
+    return code;
+  });
+  return [...codes.map((c) => `${c}:1`), ...[...codes].reverse().map((c) => `${c}:0`)];
+}
+
+// uinput is write-only, so remember where we last put the pointer
+let lastWaylandPosition = { x: 0, y: 0 };
+
+/**
+ * Linux mouse/keyboard control on Wayland using ydotool.
+ * Pointer position can't be read back through uinput; getPosition returns the last position set by this tool.
+ */
+export const waylandPlatform: MousePlatform = {
+  async moveTo(x: number, y: number): Promise<void> {
+    await run("ydotool", ["mousemove", "--absolute", "-x", String(Math.round(x)), "-y", String(Math.round(y))]);
+    lastWaylandPosition = { x: Math.round(x), y: Math.round(y) };
+  },
+
+  async getPosition(): Promise<{ x: number; y: number }> {
+    return { ...lastWaylandPosition };
+  },
+
+  async click(x: number, y: number, button: MouseButton, clicks: number): Promise<void> {
+    await this.moveTo(x, y);
+    const code = (0xc0 | UINPUT_BUTTONS[button]).toString(16);
+    await run("ydotool", ["click", "--repeat", String(clicks), "--next-delay", "100", `0x${code}`]);
+  },
+
+  async scroll(x: number, y: number): Promise<void> {
+    // REL_WHEEL is positive when scrolling up, the opposite of our convention
+    await run("ydotool", ["mousemove", "--wheel", "-x", String(Math.round(x)), "-y", String(-Math.round(y))]);
+  },
+
+  async drag(startX: number, startY: number, endX: number, endY: number, button: MouseButton, duration: number): Promise<void> {
+    const code = UINPUT_BUTTONS[button];
+    await this.moveTo(startX, startY);
+    await run("ydotool", ["click", `0x${(0x40 | code).toString(16)}`]);
+    await new Promise(resolve => setTimeout(resolve, duration * 1000));
+    await this.moveTo(endX, endY);
+    await run("ydotool", ["click", `0x${(0x80 | code).toString(16)}`]);
+  },
+
+  async typeText(text: string): Promise<void> {
+    await run("ydotool", ["type", "--", text]);
+  },
+
+  async pressKeys(keys: string): Promise<void> {
+    for (const combo of keys.split(/\s+/).filter(Boolean)) {
+      await run("ydotool", ["key", ...toUinputKeySequence(combo)]);
+    }
+  },
+
+  async getScreenSize(): Promise<{ width: number; height: number }> {
+    // Wayland has no portable query; XWayland reports the combined output size
+    if (process.env.DISPLAY) {
+      return x11Platform.getScreenSize!();
+    }
+    throw new Error("Screen size is not available on Wayland without XWayland (DISPLAY)");
+  },
+
+  async screenshot(path: string): Promise<void> {
+    await run("grim", [path]);
+  },
+};
+
+/**
+ * Linux mouse control: X11 via xdotool/XTest, Wayland via ydotool/uinput
+ */
+export function getLinuxPlatform(): MousePlatform {
+  return detectLinuxBackend() === "ydotool" ? waylandPlatform : x11Platform;
+}
@@ -1,3 +1,5 @@
+export type MouseButton = "left" | "right" | "middle";
+
 /**
  * Platform-specific mouse control interface
  */
@@ -26,4 +28,24 @@ export interface MousePlatform {
    * Drag from start to end position
    */
   drag(startX: number, startY: number, endX: number, endY: number, button: "left" | "right" | "middle", duration: number): Promise<void>;
+
+  /**
+   * Type text at the keyboard focus (optional, not every platform supports it)
+   */
+  typeText?(text: string): Promise<void>;
+
+  /**
+   * Press key combos, space separated (e.g. "ctrl+l Return")
+   */
+  pressKeys?(keys: string): Promise<void>;
+
+  /**
+   * Get the screen size in pixels
+   */
+  getScreenSize?(): Promise<{ width: number; height: number }>;
+
+  /**
+   * Capture the whole screen as PNG to path
+   */
+  screenshot?(path: string): Promise<void>;
 }
@@ -1,8 +1,12 @@
 import { tool, zodSchema } from "@ai-sdk/provider-utils";
 import { z } from "zod";
+import { dirname } from "node:path";
+import { existsSync, mkdirSync } from "node:fs";
+import { getAgentWorkspaceDir, getWorkspaceScreenshotPath } from "@server/world/homedir/paths.js";
 import type { MousePlatform } from "./platform.js";
 import { macPlatform } from "./mac.js";
 import { windowsPlatform } from "./windows.js";
+import { getLinuxPlatform } from "./linux.js";
 
 /**
  * Get platform-specific mouse implementation
@@ -12,13 +16,15 @@ function getPlatform(): MousePlatform {
     return macPlatform;
   } else if (process.platform === "win32") {
     return windowsPlatform;
+  } else if (process.platform === "linux") {
+    return getLinuxPlatform();
   } else {
     throw new Error(`Unsupported platform: ${process.platform}`);
   }
 }
 
 const mouseToolInputSchema = z.object({
-  action: z.enum(["move", "click", "scroll", "getPosition", "drag"]).describe("Action to perform: move, click, scroll, getPosition, or drag"),
+  action: z.enum(["move", "click", "scroll", "getPosition", "drag", "type", "key", "screenSize", "screenshot"]).describe("Action to perform: move, click, scroll, getPosition, drag, type (keyboard text), key (key combos), screenSize, or screenshot"),
   x: z.number().optional().describe("X coordinate for move/click actions (absolute screen position)"),
   y: z.number().optional().describe("Y coordinate for move/click actions (absolute screen position)"),
   relativeX: z.number().optional().describe("Relative X movement (positive = right, negative = left)"),
@@ -28,22 +34,25 @@ const mouseToolInputSchema = z.object({
   scrollX: z.number().optional().describe("Horizontal scroll amount (positive = right, negative = left)"),
   scrollY: z.number().optional().describe("Vertical scroll amount (positive = down, negative = up)"),
   duration: z.number().optional().describe("Duration in seconds for drag action (for smooth dragging)"),
+  text: z.string().optional().describe("Text to type at the keyboard focus (for type action)"),
+  keys: z.string().optional().describe("Key combos to press, space separated, e.g. \"ctrl+l\" or \"ctrl+a Delete\" (for key action)"),
+  savePath: z.string().optional().describe("Where to save the PNG (for screenshot action). Default: workspace screenshots directory"),
 });
 
 type MouseToolInput = z.infer<typeof mouseToolInputSchema>;
 
 export const mouseTool = tool<MouseToolInput, string>({
-  description: "Control the computer mouse - move cursor, click buttons, scroll, and get current position. Works on macOS and Windows using Python. Can move mouse to absolute coordinates or relative positions, perform clicks (left, right, middle), scroll vertically/horizontally, and detect current mouse position including human movements. Automatically installs required Python packages (pyobjc on macOS) if missing.",
+  description: "Control the computer mouse - move cursor, click buttons, scroll, and get current position. Works on macOS and Windows using Python, and on Linux via xdotool (X11/Xvfb) or ydotool (Wayland). Can move mouse to absolute coordinates or relative positions, perform clicks (left, right, middle), scroll vertically/horizontally, and detect current mouse position including human movements. On Linux it can also type text, press key combos, report the screen size and capture screenshots. Automatically installs required Python packages (pyobjc on macOS) if missing.",
   inputSchema: zodSchema(mouseToolInputSchema),
   execute: async (params) => {
     try {
       const { action } = params;
 
-      // Check platform - support macOS and Windows
-      if (process.platform !== "darwin" && process.platform !== "win32") {
+      // Check platform - support macOS, Windows and Linux
+      if (process.platform !== "darwin" && process.platform !== "win32" && process.platform !== "linux") {
         return JSON.stringify({
           success: false,
-          error: `Mouse tool is currently only supported on macOS and Windows. Detected platform: ${process.platform}`,
+          error: `Mouse tool is currently only supported on macOS, Windows and Linux. Detected platform: ${process.platform}`,
         });
       }
 
@@ -214,6 +223,91 @@ export const mouseTool = tool<MouseToolInput, string>({
           });
         }
 
+        case "type": {
+          if (!params.text) {
+            return JSON.stringify({
+              success: false,
+              error: "text is required for type action",
+            });
+          }
+          if (!platform.typeText) {
+            return unsupported(action);
+          }
+
+          await platform.typeText(params.text);
+
+          return JSON.stringify({
+            success: true,
+            result: {
+              action: "typed",
+              length: params.text.length,
+            },
+          });
+        }
+
+        case "key": {
+          if (!params.keys) {
+            return JSON.stringify({
+              success: false,
+              error: "keys is required for key action",
+            });
+          }
+          if (!platform.pressKeys) {
+            return unsupported(action);
+          }
+
+          await platform.pressKeys(params.keys);
+
+          return JSON.stringify({
+            success: true,
+            result: {
+              action: "pressed",
+              keys: params.keys,
+            },
+          });
+        }
+
+        case "screenSize": {
+          if (!platform.getScreenSize) {
+            return unsupported(action);
+          }
+
+          const size = await platform.getScreenSize();
+
+          return JSON.stringify({
+            success: true,
+            result: {
+              action: "screenSize",
+              width: size.width,
+              height: size.height,
+            },
+          });
+        }
+
+        case "screenshot": {
+          if (!platform.screenshot) {
+            return unsupported(action);
+          }
+
+          const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
+          const finalPath = params.savePath
+            || getWorkspaceScreenshotPath(getAgentWorkspaceDir("default"), `desktop-${timestamp}.png`);
+          const dir = dirname(finalPath);
+          if (!existsSync(dir)) {
+            mkdirSync(dir, { recursive: true });
+          }
+
+          await platform.screenshot(finalPath);
+
+          return JSON.stringify({
+            success: true,
+            result: {
+              action: "screenshot",
+              path: finalPath,
+            },
+          });
+        }
+
         default:
           return JSON.stringify({
             success: false,
@@ -228,3 +322,10 @@ export const mouseTool = tool<MouseToolInput, string>({
     }
   },
 });
+
+function unsupported(action: string): string {
+  return JSON.stringify({
+    success: false,
+    error: `Action "${action}" is not supported on ${process.platform}`,
+  });
+}
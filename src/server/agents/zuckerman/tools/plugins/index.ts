@@ -0,0 +1,9 @@
+export { PluginToolLoader, parsePluginTool, setPluginToolEnabled, PLUGIN_MANIFEST } from "./loader.js";
+export type {
+  PluginTool,
+  PluginToolKind,
+  PluginToolContext,
+  PluginToolLoadError,
+  LoadedPluginTools,
+  PluginToolManifest,
+} from "./loader.js";
@@ -0,0 +1,315 @@
+import { readFile, readdir, stat, writeFile } from "node:fs/promises";
+import { existsSync } from "node:fs";
+import { join, resolve, sep } from "node:path";
+import { pathToFileURL } from "node:url";
+import { tool, zodSchema, jsonSchema, type Schema, type Tool } from "@ai-sdk/provider-utils";
+import { z } from "zod";
+import { executeProcess } from "@server/world/execution/process/index.js";
+import { getToolSecurityContext } from "../policy.js";
+
+export type PluginToolKind = "module" | "script";
+
+/**
+ * A tool defined by files in the agent's plugins directory
+ */
+export interface PluginTool {
+  name: string;
+  description: string;
+  kind: PluginToolKind;
+  enabled: boolean;
+  dir: string;
+  manifestFile: string;
+  tool: Tool;
+}
+
+export interface PluginToolLoadError {
+  file: string;
+  error: string;
+}
+
+export interface LoadedPluginTools {
+  tools: PluginTool[];
+  errors: PluginToolLoadError[];
+}
+
+/**
+ * What an ESM plugin module gets besides the tool input
+ */
+export interface PluginToolContext {
+  agentId: string;
+  conversationId?: string;
+  toolDir: string;
+  abortSignal?: AbortSignal;
+}
+
+export const PLUGIN_MANIFEST = "tool.json";
+
+const TOOL_NAME = /^[a-z][a-z0-9_]*$/;
+const DEFAULT_SCRIPT_TIMEOUT_MS = 30000;
+
+const scriptArgSchema = z.object({
+  type: z.enum(["string", "number", "boolean"]),
+  description: z.string().optional(),
+  required: z.boolean().optional(),
+}).strict();
+
+const manifestSchema = z.object({
+  name: z.string().regex(TOOL_NAME, "use lowercase letters, digits and underscores").optional(),
+  description: z.string().min(1),
+  enabled: z.boolean().optional(),
+  module: z.string().min(1).optional(), // ESM file exporting execute(input, context)
+  script: z.string().min(1).optional(), // Executable run with the arguments in its environment
+  inputSchema: z.record(z.string(), z.unknown()).optional(), // JSON Schema for module tools
+  args: z.record(z.string().regex(TOOL_NAME), scriptArgSchema).optional(), // Declared arguments for script tools
+  timeout: z.number().int().positive().optional(), // Script timeout in milliseconds
+}).strict()
+  .refine(manifest => Boolean(manifest.module) !== Boolean(manifest.script), {
+    message: "Set exactly one of \"module\" or \"script\"",
+  })
+  .refine(manifest => !manifest.args || manifest.script, {
+    message: "\"args\" only applies to script tools (module tools use \"inputSchema\")",
+  });
+
+export type PluginToolManifest = z.infer<typeof manifestSchema>;
+
+/**
+ * Resolve a file named in the manifest, refusing paths that leave the tool directory
+ */
+function resolveToolFile(toolDir: string, file: string): string {
+  const resolved = resolve(toolDir, file);
+  if (!resolved.startsWith(resolve(toolDir) + sep)) {
+    throw new Error(`"${file}" is outside the tool directory`);
+  }
+  if (!existsSync(resolved)) {
+    throw new Error(`"${file}" does not exist`);
+  }
+  return resolved;
+}
+
+function isZodSchema(value: unknown): value is z.ZodType {
+  return typeof value === "object" && value !== null && typeof (value as z.ZodType).safeParse === "function";
+}
+
+async function buildModuleTool(
+  manifest: PluginToolManifest,
+  toolDir: string,
+  agentId: string,
+): Promise<Tool> {
+  const modulePath = resolveToolFile(toolDir, manifest.module!);
+  // Version the import by mtime so hot reloads pick up edits instead of the cached module
+  const { mtimeMs } = await stat(modulePath);
+  const mod = await import(`${pathToFileURL(modulePath).href}?v=${Math.floor(mtimeMs)}`);
+
+  const execute = mod.execute ?? mod.default?.execute;
+  if (typeof execute !== "function") {
+    throw new Error(`"${manifest.module}" must export an execute(input, context) function`);
+  }
+
+  const exportedSchema = mod.inputSchema ?? mod.default?.inputSchema;
+  let inputSchema: Schema<Record<string, unknown>>;
+  if (isZodSchema(exportedSchema)) {
+    inputSchema = zodSchema(exportedSchema as z.ZodType<Record<string, unknown>>);
+  } else if (manifest.inputSchema) {
+    inputSchema = jsonSchema<Record<string, unknown>>(manifest.inputSchema);
+  } else {
+    throw new Error(`Module tools need an "inputSchema": a zod schema exported by the module or a JSON Schema in ${PLUGIN_MANIFEST}`);
+  }
+
+  return tool<Record<string, unknown>, string>({
+    description: manifest.description,
+    inputSchema,
+    execute: async (input, options) => {
+      const context: PluginToolContext = {
+        agentId,
+        conversationId: getToolSecurityContext(options)?.conversationId,
+        toolDir,
+        abortSignal: options.abortSignal,
+      };
+      try {
+        const result = await execute(input, context);
+        return typeof result === "string" ? result : JSON.stringify(result ?? null);
+      } catch (err) {
+        return JSON.stringify({
+          success: false,
+          error: err instanceof Error ? err.message : String(err),
+        });
+      }
+    },
+  });
+}
+
+function scriptInputSchema(args: NonNullable<PluginToolManifest["args"]>) {
+  const shape: Record<string, z.ZodType> = {};
+  for (const [name, arg] of Object.entries(args)) {
+    const base = arg.type === "number" ? z.number() : arg.type === "boolean" ? z.boolean() : z.string();
+    const described = arg.description ? base.describe(arg.description) : base;
+    shape[name] = arg.required ? described : described.optional();
+  }
+  return z.object(shape);
+}
+
+function buildScriptTool(manifest: PluginToolManifest, toolDir: string): Tool {
+  const scriptPath = resolveToolFile(toolDir, manifest.script!);
+  const inputSchema = scriptInputSchema(manifest.args ?? {});
+
+  return tool<Record<string, unknown>, string>({
+    description: manifest.description,
+    inputSchema: zodSchema(inputSchema),
+    execute: async (input, options) => {
+      const securityContext = getToolSecurityContext(options);
+
+      // Arguments travel in the environment, never through the shell command line
+      const env: Record<string, string> = { TOOL_INPUT: JSON.stringify(input) };
+      for (const [name, value] of Object.entries(input)) {
+        if (value !== undefined) env[`TOOL_ARG_${name.toUpperCase()}`] = String(value);
+      }
+
+      try {
+        const result = await executeProcess({
+          command: `'${scriptPath.replace(/'/g, "'\\''")}'`,
+          cwd: toolDir,
+          env,
+          signal: options.abortSignal,
+          securityContext: {
+            executionPolicy: {
+              ...securityContext?.executionPolicy,
+              timeout: manifest.timeout ?? DEFAULT_SCRIPT_TIMEOUT_MS,
+            },
+            sandboxContainerName: securityContext?.sandboxContainerName,
+          },
+        });
+
+        return JSON.stringify({
+          success: result.exitCode === 0,
+          stdout: result.stdout,
+          stderr: result.stderr,
+          exitCode: result.exitCode,
+          error: result.exitCode !== 0 ? `Script exited with code ${result.exitCode}` : undefined,
+        });
+      } catch (err) {
+        return JSON.stringify({
+          success: false,
+          error: err instanceof Error ? err.message : "Unknown error",
+        });
+      }
+    },
+  });
+}
+
+/**
+ * Validate a manifest and build the tool it describes
+ */
+export async function parsePluginTool(
+  toolDir: string,
+  content: string,
+  agentId: string,
+  manifestFile: string = join(toolDir, PLUGIN_MANIFEST),
+): Promise<PluginTool> {
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch (err) {
+    throw new Error(`Invalid JSON: ${err instanceof Error ? err.message : String(err)}`);
+  }
+
+  const parsed = manifestSchema.safeParse(data);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map(issue => `${issue.path.join(".") || "manifest"}: ${issue.message}`);
+    throw new Error(issues.join("; "));
+  }
+
+  const manifest = parsed.data;
+  const name = manifest.name ?? toolDir.split(sep).pop()!;
+  if (!TOOL_NAME.test(name)) {
+    throw new Error(`Invalid tool name "${name}" (use lowercase letters, digits and underscores, or set "name")`);
+  }
+
+  const kind: PluginToolKind = manifest.module ? "module" : "script";
+  return {
+    name,
+    description: manifest.description,
+    kind,
+    enabled: manifest.enabled ?? true,
+    dir: toolDir,
+    manifestFile,
+    tool: kind === "module"
+      ? await buildModuleTool(manifest, toolDir, agentId)
+      : buildScriptTool(manifest, toolDir),
+  };
+}
+
+/**
+ * Turn a plugin tool on or off by rewriting the `enabled` flag in its manifest
+ */
+export async function setPluginToolEnabled(manifestFile: string, enabled: boolean): Promise<void> {
+  const manifest = JSON.parse(await readFile(manifestFile, "utf-8"));
+  manifest.enabled = enabled;
+  await writeFile(manifestFile, JSON.stringify(manifest, null, 2) + "\n", "utf-8");
+}
+
+/**
+ * Service for loading tools from `<agentDir>/plugins/<tool>/tool.json`
+ */
+export class PluginToolLoader {
+  private cache: Map<string, LoadedPluginTools> = new Map();
+
+  /**
+   * Discover and validate all plugin tools. Invalid tools, and tools whose name is
+   * already taken (by a built-in tool or an earlier plugin), are skipped and reported in `errors`.
+   */
+  async loadPluginTools(agentDir: string, agentId: string, reservedNames: string[] = []): Promise<LoadedPluginTools> {
+    const cached = this.cache.get(agentDir);
+    if (cached) {
+      return cached;
+    }
+
+    const pluginsDir = join(agentDir, "plugins");
+    const loaded: LoadedPluginTools = { tools: [], errors: [] };
+    const taken = new Set(reservedNames);
+
+    try {
+      if (existsSync(pluginsDir)) {
+        const entries = (await readdir(pluginsDir, { withFileTypes: true }))
+          .filter(entry => entry.isDirectory() && !entry.name.startsWith("."))
+          .map(entry => entry.name)
+          .sort();
+
+        for (const entry of entries) {
+          const toolDir = join(pluginsDir, entry);
+          const manifestFile = join(toolDir, PLUGIN_MANIFEST);
+          if (!existsSync(manifestFile)) continue;
+
+          try {
+            const content = await readFile(manifestFile, "utf-8");
+            const pluginTool = await parsePluginTool(toolDir, content, agentId, manifestFile);
+            if (taken.has(pluginTool.name)) {
+              throw new Error(`Tool name "${pluginTool.name}" is already taken`);
+            }
+            taken.add(pluginTool.name);
+            loaded.tools.push(pluginTool);
+          } catch (err) {
+            const error = err instanceof Error ? err.message : String(err);
+            console.warn(`[PluginToolLoader] Skipping invalid tool ${manifestFile}: ${error}`);
+            loaded.errors.push({ file: manifestFile, error });
+          }
+        }
+      }
+    } catch (err) {
+      console.warn(`[PluginToolLoader] Failed to read plugins directory:`, err);
+    }
+
+    this.cache.set(agentDir, loaded);
+    return loaded;
+  }
+
+  /**
+   * Clear cache for a specific agent or all agents
+   */
+  clearCache(agentDir?: string): void {
+    if (agentDir) {
+      this.cache.delete(agentDir);
+    } else {
+      this.cache.clear();
+    }
+  }
+}
@@ -0,0 +1,154 @@
+import path from "node:path";
+import type { ToolExecutionOptions } from "@ai-sdk/provider-utils";
+import type { SecurityContext } from "@server/world/execution/security/types.js";
+import type { ToolApprovalResolution } from "@server/world/execution/security/approval/index.js";
+import {
+  isToolAllowed,
+  isCommandAllowed,
+  isPathAllowed,
+} from "@server/world/execution/security/policy/index.js";
+
+export type PolicyDenialKind = "tool" | "command" | "path" | "workspace";
+
+export interface PolicyDenial {
+  kind: PolicyDenialKind;
+  reason: string;
+}
+
+/**
+ * Context passed to tools through `experimental_context` of the AI SDK execution options
+ */
+export interface ToolExecutionContext {
+  securityContext?: SecurityContext;
+  /**
+   * Called when a nested call (e.g. inside batch) is denied by policy, so the
+   * denial ends up in the same event stream as top-level denials
+   */
+  onPolicyDenied?: (toolName: string, toolArgs: Record<string, unknown>, denial: PolicyDenial) => Promise<void>;
+  /**
+   * Ask a human to approve a nested call the approval policy flags. Without it,
+   * such calls are rejected instead of running unapproved.
+   */
+  requestApproval?: (toolName: string, toolArgs: Record<string, unknown>, reason: string) => Promise<ToolApprovalResolution>;
+}
+
+export function getToolExecutionContext(options?: Pick<ToolExecutionOptions, "experimental_context">): ToolExecutionContext {
+  const context = options?.experimental_context;
+  if (!context || typeof context !== "object") {
+    return {};
+  }
+  return context as ToolExecutionContext;
+}
+
+export function getToolSecurityContext(options?: Pick<ToolExecutionOptions, "experimental_context">): SecurityContext | undefined {
+  return getToolExecutionContext(options).securityContext;
+}
+
+function resolveToolPath(filePath: string): string {
+  return filePath.startsWith("~")
+    ? filePath.replace("~", process.env.HOME || "")
+    : path.resolve(filePath);
+}
+
+function checkPath(filePath: string, securityContext: SecurityContext): PolicyDenial | null {
+  const check = isPathAllowed(resolveToolPath(filePath), securityContext.executionPolicy);
+  return check.allowed ? null : { kind: "path", reason: check.reason ?? `Path "${filePath}" is not allowed` };
+}
+
+/**
+ * Check a single tool call against the resolved security context.
+ * Returns null when the call may proceed.
+ */
+export function checkToolCallPolicy(
+  toolName: string,
+  input: Record<string, unknown>,
+  securityContext: SecurityContext,
+): PolicyDenial | null {
+  if (!isToolAllowed(toolName, securityContext.toolPolicy)) {
+    return {
+      kind: "tool",
+      reason: `Tool "${toolName}" is not allowed for ${securityContext.conversationType} conversations`,
+    };
+  }
+
+  switch (toolName) {
+    case "terminal": {
+      const command = typeof input.command === "string" ? input.command : "";
+      const args = Array.isArray(input.args) ? input.args.map(String) : [];
+      const fullCommand = [command, ...args].join(" ").trim();
+      const commandCheck = isCommandAllowed(fullCommand, securityContext.executionPolicy);
+      if (!commandCheck.allowed) {
+        return { kind: "command", reason: commandCheck.reason ?? `Command "${fullCommand}" is not allowed` };
+      }
+      if (typeof input.cwd === "string" && input.cwd) {
+        return checkPath(input.cwd, securityContext);
+      }
+      return null;
+    }
+
+    case "multiedit": {
+      // multiedit writes on the host, so a sandboxed conversation may only use it with rw workspace access
+      if (securityContext.isSandboxed && securityContext.workspaceAccess !== "rw") {
+        return {
+          kind: "workspace",
+          reason: `Workspace access is "${securityContext.workspaceAccess}" for this conversation, file edits are not allowed`,
+        };
+      }
+      if (typeof input.filePath === "string") {
+        return checkPath(input.filePath, securityContext);
+      }
+      return null;
+    }
+
+    case "browser": {
+      const paths = [
+        ...(typeof input.savePath === "string" ? [input.savePath] : []),
+        ...(Array.isArray(input.paths) ? input.paths.filter((p): p is string => typeof p === "string") : []),
+      ];
+      for (const filePath of paths) {
+        const denial = checkPath(filePath, securityContext);
+        if (denial) return denial;
+      }
+      return null;
+    }
+
+    default:
+      return null;
+  }
+}
+
+/**
+ * Format a policy denial as the structured result returned to the model
+ */
+export function formatPolicyDenial(toolName: string, denial: PolicyDenial): string {
+  return JSON.stringify({
+    success: false,
+    error: `Policy denied: ${denial.reason}`,
+    policy: {
+      tool: toolName,
+      kind: denial.kind,
+      reason: denial.reason,
+    },
+  });
+}
+
+/**
+ * Format a call that was not approved as the structured result returned to the model
+ */
+export function formatApprovalDenial(toolName: string, resolution: ToolApprovalResolution): string {
+  const reasons: Record<string, string> = {
+    denied: "The user denied this call",
+    timeout: "No one approved this call in time",
+    cancelled: "The run was cancelled while waiting for approval",
+  };
+  return JSON.stringify({
+    success: false,
+    error: `Approval ${resolution.outcome}: ${reasons[resolution.outcome]}${resolution.note ? ` (${resolution.note})` : ""}`,
+    approval: {
+      tool: toolName,
+      outcome: resolution.outcome,
+      resolvedBy: resolution.resolvedBy,
+      note: resolution.note,
+    },
+  });
+}
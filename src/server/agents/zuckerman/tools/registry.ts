@@ -8,11 +8,14 @@ import { channelTool } from "./channels/index.js";
 import { textToSpeechTool } from "./voice/texttospeech/index.js";
 import { speechToTextTool } from "./voice/speechtotext/index.js";
 import { mouseTool } from "./mouse/index.js";
+import { createMemoryTools } from "./memory/index.js";
+import { findApprovalRule, describeApprovalRule } from "@server/world/execution/security/policy/index.js";
+import { checkToolCallPolicy, formatApprovalDenial, formatPolicyDenial, getToolExecutionContext } from "./policy.js";
 
 export class ToolRegistry {
   private tools = new Map<string, Tool>();
 
-  constructor() {
+  constructor(agentId: string = "zuckerman") {
     // Register default tools
     this.register("terminal", terminalTool);
     this.register("browser", browserTool);
@@ -22,14 +25,53 @@ export class ToolRegistry {
     this.register("texttospeech", textToSpeechTool);
     this.register("speechtotext", speechToTextTool);
     this.register("mouse", mouseTool);
+
+    const { memorySearchTool, memoryGetTool } = createMemoryTools(agentId);
+    this.register("memory_search", memorySearchTool);
+    this.register("memory_get", memoryGetTool);
     
     // Register batch tool
     this.register("batch", createBatchTool({
-      executeTool: async (toolName, params) => {
+      executeTool: async (toolName, params, options) => {
         const tool = this.get(toolName);
         if (!tool?.execute) return `Error: Tool "${toolName}" not found`;
+
+        // Sub-calls go through the same policy and approval flow as top-level calls
+        const { securityContext, onPolicyDenied, requestApproval } = getToolExecutionContext(options);
+        if (securityContext) {
+          const denial = checkToolCallPolicy(toolName, params, securityContext);
+          if (denial) {
+            await onPolicyDenied?.(toolName, params, denial);
+            return `Error: ${formatPolicyDenial(toolName, denial)}`;
+          }
+
+          const approvalRule = findApprovalRule(toolName, params, securityContext.approvalPolicy);
+          if (approvalRule) {
+            if (!requestApproval) {
+              return `Error: Tool "${toolName}" requires approval and cannot run inside batch here`;
+            }
+            const resolution = await requestApproval(toolName, params, describeApprovalRule(toolName, approvalRule));
+            if (resolution.outcome !== "approved") {
+              return `Error: ${formatApprovalDenial(toolName, resolution)}`;
+            }
+            if (resolution.edited) {
+              const editedDenial = checkToolCallPolicy(toolName, resolution.toolArgs, securityContext);
+              if (editedDenial) {
+                await onPolicyDenied?.(toolName, resolution.toolArgs, editedDenial);
+                return `Error: ${formatPolicyDenial(toolName, editedDenial)}`;
+              }
+              params = resolution.toolArgs;
+            }
+          }
+        }
+
         try {
-          const result = await tool.execute(params, { toolCallId: "", messages: [] });
+          const result = await tool.execute(params, {
+            toolCallId: options.toolCallId,
+            messages: options.messages,
+            abortSignal: options.abortSignal,
+            experimental_context: options.experimental_context,
+          });
           return typeof result === "string" ? result : JSON.stringify(result);
         } catch (error) {
           return `Error: ${error instanceof Error ? error.message : String(error)}`;
@@ -43,6 +85,10 @@ export class ToolRegistry {
     this.tools.set(name, tool);
   }
 
+  unregister(name: string): void {
+    this.tools.delete(name);
+  }
+
   get(name: string): Tool | undefined {
     return this.tools.get(name);
   }
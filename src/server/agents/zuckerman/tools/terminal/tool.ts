@@ -1,6 +1,7 @@
 import { executeProcess } from "@server/world/execution/process/index.js";
 import { tool, zodSchema } from "@ai-sdk/provider-utils";
 import { z } from "zod";
+import { getToolSecurityContext } from "../policy.js";
 
 const terminalToolInputSchema = z.object({
   command: z.string().describe("The shell command to execute. Can be a simple command or a full shell command with arguments, pipes, redirects, etc. If a required tool isn't available, install it first (e.g., 'brew install imagemagick', 'brew install wget', etc.)."),
@@ -14,18 +15,27 @@ type TerminalToolInput = z.infer<typeof terminalToolInputSchema>;
 export const terminalTool = tool<TerminalToolInput, string>({
   description: "Execute any shell command with full control over the computer. This is your primary tool for system operations - use it for everything: file operations (grep, find, ls, cat, etc.), package management (brew, apt, npm, etc.), process management, network operations, text processing, and any other command-line task. You have complete terminal access - use it to accomplish any task that requires system-level operations. Install tools, run scripts, search files, manipulate data, and control the system as needed.",
   inputSchema: zodSchema(terminalToolInputSchema),
-  execute: async (params) => {
+  execute: async (params, options) => {
     try {
-      const { command, args, cwd, timeout } = params;
+      const { command, args, cwd } = params;
+      const securityContext = getToolSecurityContext(options);
+      // The requested timeout may shorten the policy's timeout, never extend it
+      const policyTimeout = securityContext?.executionPolicy?.timeout;
+      const timeout = params.timeout !== undefined && params.timeout > 0
+        ? policyTimeout ? Math.min(params.timeout, policyTimeout) : params.timeout
+        : policyTimeout;
 
       const result = await executeProcess({
         command,
         args: args ? args.map(String) : undefined,
         cwd: cwd,
+        signal: options.abortSignal,
         securityContext: {
           executionPolicy: {
-            timeout,
+            ...securityContext?.executionPolicy,
+            ...(timeout !== undefined && { timeout }),
           },
+          sandboxContainerName: securityContext?.sandboxContainerName,
         },
       });
 
@@ -34,6 +34,19 @@ export type GatewayRequest = Static<typeof GatewayRequest>;
 export type GatewayResponse = Static<typeof GatewayResponse>;
 export type GatewayEvent = Static<typeof GatewayEvent>;
 
+// Council scheduler metrics of a loaded agent
+export const SchedulerMetricsSnapshot = Type.Object({
+  wakeups: Type.Number(),
+  wakeupsBySource: Type.Record(Type.String(), Type.Number()),
+  decisions: Type.Record(Type.String(), Type.Number()),
+  rateLimited: Type.Number(),
+  callsLastMinute: Type.Number(),
+  queued: Type.Record(Type.String(), Type.Number()),
+  idleBackoffMs: Type.Union([Type.Number(), Type.Null()]),
+  lastWakeAt: Type.Optional(Type.Number()),
+  lastDecisionAt: Type.Optional(Type.Number()),
+});
+
 // Health check response
 export const HealthSnapshot = Type.Object({
   ts: Type.Number(),
@@ -44,6 +57,9 @@ export const HealthSnapshot = Type.Object({
     Type.Literal("degraded"),
     Type.Literal("unhealthy"),
   ]),
+  agents: Type.Optional(Type.Record(Type.String(), Type.Object({
+    scheduler: SchedulerMetricsSnapshot,
+  }))),
 });
 
 export type HealthSnapshot = Static<typeof HealthSnapshot>;
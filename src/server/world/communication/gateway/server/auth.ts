@@ -0,0 +1,58 @@
+import type { ZuckermanConfig } from "@server/world/config/index.js";
+import { saveConfig } from "@server/world/config/index.js";
+import { getGatewayTokenPath } from "@server/world/homedir/paths.js";
+import {
+  createAuthManager,
+  saveGatewayToken,
+  type GatewayAuthManager,
+} from "@server/world/execution/security/auth/index.js";
+
+const DEFAULT_REQUESTS_PER_MINUTE = 600;
+
+export function isLoopbackHost(host: string): boolean {
+  return host === "localhost" || host === "::1" || host.startsWith("127.");
+}
+
+/**
+ * Build the gateway auth manager from config.
+ *
+ * Auth defaults to on whenever the gateway listens beyond loopback. If it is on and no tokens
+ * are configured yet, an admin token is generated, saved to config and stored for the local CLI.
+ */
+export async function createGatewayAuth(config: ZuckermanConfig, host: string): Promise<GatewayAuthManager> {
+  const gatewaySecurity = config.security?.gateway;
+  const enabled = gatewaySecurity?.auth?.enabled ?? !isLoopbackHost(host);
+
+  const authManager = createAuthManager({
+    enabled,
+    tokens: gatewaySecurity?.auth?.tokens,
+    rateLimit: {
+      requestsPerMinute: gatewaySecurity?.rateLimit?.requestsPerMinute ?? DEFAULT_REQUESTS_PER_MINUTE,
+    },
+  });
+
+  if (enabled && !gatewaySecurity?.auth?.tokens?.length) {
+    const token = authManager.generateToken("admin", "local");
+    config.security = {
+      ...config.security,
+      gateway: {
+        ...gatewaySecurity,
+        auth: {
+          ...gatewaySecurity?.auth,
+          tokens: [{ token, scope: "admin", name: "local" }],
+        },
+      },
+    };
+    await saveConfig(config);
+    saveGatewayToken(token);
+    console.log(`[Gateway] Generated admin token, stored at ${getGatewayTokenPath()}`);
+  }
+
+  if (enabled) {
+    console.log(`[Gateway] Authentication enabled`);
+  } else if (!isLoopbackHost(host)) {
+    console.warn(`[Gateway] Authentication is disabled while listening on ${host}`);
+  }
+
+  return authManager;
+}
@@ -3,6 +3,14 @@ import type { WebSocket } from "ws";
 import type { GatewayWsClient, GatewayRequestHandlers } from "./types.js";
 import { GatewayRequest, GatewayResponse, GatewayEvent } from "../protocol/schema.js";
 import { Value } from "@sinclair/typebox/value";
+import {
+  createAuthManager,
+  resolveMethodScope,
+  hasScope,
+  type GatewayAuthManager,
+} from "@server/world/execution/security/auth/index.js";
+
+const HANDSHAKE_TIMEOUT_MS = 10_000;
 
 export function handleConnection(
   socket: WebSocket,
@@ -10,6 +18,8 @@ export function handleConnection(
   handlers: GatewayRequestHandlers,
   onConnect: (client: GatewayWsClient) => void,
   onDisconnect: (client: GatewayWsClient) => void,
+  authManager: GatewayAuthManager = createAuthManager(),
+  remoteAddress?: string,
 ): GatewayWsClient {
   const clientId = randomUUID();
   const connectedAt = Date.now();
@@ -19,8 +29,14 @@ export function handleConnection(
     socket,
     connectedAt,
     lastActivity: Date.now(),
+    remoteAddress,
   };
 
+  // Without auth every connection is implicitly an admin
+  if (!authManager.isEnabled()) {
+    client.auth = { clientId, scope: "admin" };
+  }
+
   // Check if this socket is already in the clients set (shouldn't happen, but safety check)
   const existingClient = Array.from(clients).find(c => c.socket === socket);
   if (existingClient) {
@@ -37,14 +53,24 @@ export function handleConnection(
   sendEvent(socket, {
     type: "event",
     event: "connect.challenge",
-    payload: { nonce: connectNonce, ts: Date.now() },
+    payload: { nonce: connectNonce, ts: Date.now(), auth: authManager.isEnabled() },
   });
 
+  // Drop sockets that never complete the handshake
+  const handshakeTimer = client.auth
+    ? undefined
+    : setTimeout(() => {
+        if (!client.auth) {
+          console.warn(`[Gateway] Client ${clientId} did not authenticate in time`);
+          socket.close(1008, "Authentication timeout");
+        }
+      }, HANDSHAKE_TIMEOUT_MS);
+
   socket.on("message", (data: Buffer) => {
     client.lastActivity = Date.now();
     try {
       const message = JSON.parse(data.toString());
-      handleMessage(client, message, handlers);
+      handleMessage(client, message, handlers, authManager, connectNonce);
     } catch (err) {
       sendResponse(socket, {
         id: randomUUID(),
@@ -58,6 +84,9 @@ export function handleConnection(
   });
 
   socket.on("close", (code, reason) => {
+    if (handshakeTimer) {
+      clearTimeout(handshakeTimer);
+    }
     const wasRemoved = clients.delete(client);
     if (wasRemoved) {
       onDisconnect(client);
@@ -76,6 +105,8 @@ function handleMessage(
   client: GatewayWsClient,
   message: unknown,
   handlers: GatewayRequestHandlers,
+  authManager: GatewayAuthManager,
+  connectNonce: string,
 ): void {
   // Validate request schema
   if (!Value.Check(GatewayRequest, message)) {
@@ -91,6 +122,53 @@ function handleMessage(
   }
 
   const request = message as GatewayRequest;
+
+  // Rate limit per token (or per remote address before the handshake)
+  const rateLimitKey = client.auth?.clientId ?? client.remoteAddress ?? client.id;
+  const rateLimit = authManager.checkRateLimit(rateLimitKey);
+  if (!rateLimit.allowed) {
+    const retryAfterMs = Math.max(0, (rateLimit.resetAt ?? Date.now()) - Date.now());
+    sendResponse(client.socket, {
+      id: request.id,
+      ok: false,
+      error: {
+        code: "RATE_LIMITED",
+        message: `Too many requests, retry in ${Math.ceil(retryAfterMs / 1000)}s`,
+      },
+    });
+    return;
+  }
+
+  if (request.method === "connect") {
+    handleConnect(client, request, authManager, connectNonce);
+    return;
+  }
+
+  if (!client.auth) {
+    sendResponse(client.socket, {
+      id: request.id,
+      ok: false,
+      error: {
+        code: "UNAUTHORIZED",
+        message: "Answer connect.challenge with a \"connect\" request first",
+      },
+    });
+    return;
+  }
+
+  const requiredScope = resolveMethodScope(request.method);
+  if (!hasScope(client.auth.scope, requiredScope)) {
+    sendResponse(client.socket, {
+      id: request.id,
+      ok: false,
+      error: {
+        code: "FORBIDDEN",
+        message: `Method ${request.method} requires "${requiredScope}" scope (token has "${client.auth.scope}")`,
+      },
+    });
+    return;
+  }
+
   const handler = handlers[request.method];
 
   if (!handler) {
@@ -141,6 +219,43 @@ function handleMessage(
   }
 }
 
+/**
+ * Complete the connect.challenge handshake
+ */
+function handleConnect(
+  client: GatewayWsClient,
+  request: GatewayRequest,
+  authManager: GatewayAuthManager,
+  connectNonce: string,
+): void {
+  const params = request.params ?? {};
+  const result = authManager.verifyChallenge(connectNonce, {
+    token: typeof params.token === "string" ? params.token : undefined,
+    signature: typeof params.signature === "string" ? params.signature : undefined,
+    apiKey: typeof params.apiKey === "string" ? params.apiKey : undefined,
+  });
+
+  if (!result.authenticated || !result.scope) {
+    console.warn(`[Gateway] Authentication failed for client ${client.id}${client.remoteAddress ? ` (${client.remoteAddress})` : ""}`);
+    sendResponse(client.socket, {
+      id: request.id,
+      ok: false,
+      error: {
+        code: "UNAUTHORIZED",
+        message: result.reason ?? "Authentication failed",
+      },
+    });
+    return;
+  }
+
+  client.auth = { clientId: result.clientId ?? client.id, scope: result.scope };
+  sendResponse(client.socket, {
+    id: request.id,
+    ok: true,
+    result: { clientId: client.id, scope: result.scope },
+  });
+}
+
 function sendResponse(socket: WebSocket, response: Omit<GatewayResponse, "type">): void {
   try {
     const fullResponse: GatewayResponse = {
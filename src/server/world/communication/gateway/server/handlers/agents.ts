@@ -9,6 +9,7 @@ import { sendEvent } from "../connection.js";
 import { writeFile } from "node:fs/promises";
 import { join } from "node:path";
 import type { AgentEvent } from "@server/agents/zuckerman/core/self/events.js";
+import { parseModelOverrides } from "./conversations.js";
 
 export function createAgentHandlers(
   agentFactory: AgentRuntimeFactory,
@@ -151,6 +152,19 @@ export function createAgentHandlers(
 
         // Note: Runtime now handles persisting user message internally
 
+        // Persist model settings sent with the run as conversation overrides
+        if (runtime.setModelOverrides && (model?.id || temperature !== undefined || thinkingLevel !== undefined)) {
+          const { overrides, error } = parseModelOverrides({ model: model?.id, temperature, thinkingLevel });
+          if (!overrides) {
+            respond(false, undefined, {
+              code: "INVALID_REQUEST",
+              message: error ?? "Invalid model overrides",
+            });
+            return;
+          }
+          await runtime.setModelOverrides(actualConversationId, overrides);
+        }
+
         // Setup event listener to forward agent events to client
         const eventHandler = async (event: AgentEvent) => {
           try {
@@ -178,12 +192,15 @@ export function createAgentHandlers(
           unsubscribers.push((runtime as any).on("stream.lifecycle", eventHandler));
           unsubscribers.push((runtime as any).on("stream.tool.call", eventHandler));
           unsubscribers.push((runtime as any).on("stream.tool.result", eventHandler));
+          unsubscribers.push((runtime as any).on("stream.tool.denied", eventHandler));
+          unsubscribers.push((runtime as any).on("stream.tool.approval", eventHandler));
         }
 
         // Run agent (use actualConversationId)
         const result = await runtime.run({
           conversationId: actualConversationId,
           message,
+          securityContext,
         });
 
         // Unsubscribe from events
@@ -215,6 +232,55 @@ export function createAgentHandlers(
       }
     },
 
+    "agent.cancel": async ({ respond, params }) => {
+      const runId = params?.runId as string | undefined;
+      const conversationId = params?.conversationId as string | undefined;
+      const reason = params?.reason as string | undefined;
+
+      let agentId = params?.agentId as string | undefined;
+      if (!agentId) {
+        const config = await loadConfig();
+        const agents = config.agents?.list || [];
+        const defaultAgent = agents.find(a => a.default) || agents[0];
+        agentId = defaultAgent?.id || "zuckerman";
+      }
+
+      if (!runId && !conversationId) {
+        respond(false, undefined, {
+          code: "INVALID_REQUEST",
+          message: "Missing runId or conversationId",
+        });
+        return;
+      }
+
+      try {
+        const runtime = await agentFactory.getRuntime(agentId);
+        if (!runtime) {
+          respond(false, undefined, {
+            code: "AGENT_NOT_FOUND",
+            message: `Agent "${agentId}" not found`,
+          });
+          return;
+        }
+
+        if (!runtime.cancel) {
+          respond(false, undefined, {
+            code: "AGENT_ERROR",
+            message: `Agent "${agentId}" doesn't support cancellation`,
+          });
+          return;
+        }
+
+        const result = await runtime.cancel({ runId, conversationId }, reason);
+        respond(true, result);
+      } catch (err) {
+        respond(false, undefined, {
+          code: "AGENT_ERROR",
+          message: err instanceof Error ? err.message : "Failed to cancel agent run",
+        });
+      }
+    },
+
     "agent.prompts": async ({ respond, params }) => {
       const agentId = (params?.agentId as string | undefined) || null;
 
@@ -269,6 +335,37 @@ export function createAgentHandlers(
       }
     },
 
+    "agent.brainParts": async ({ respond, params }) => {
+      const agentId = params?.agentId as string | undefined;
+
+      if (!agentId) {
+        respond(false, undefined, {
+          code: "INVALID_REQUEST",
+          message: "Missing agentId",
+        });
+        return;
+      }
+
+      try {
+        const runtime = await agentFactory.getRuntime(agentId);
+        if (!runtime?.listBrainParts) {
+          respond(false, undefined, {
+            code: "AGENT_NOT_FOUND",
+            message: `Agent "${agentId}" not found or doesn't support brain parts`,
+          });
+          return;
+        }
+
+        const { brainParts, errors } = await runtime.listBrainParts();
+        respond(true, { agentId, brainParts, errors });
+      } catch (err) {
+        respond(false, undefined, {
+          code: "ERROR",
+          message: err instanceof Error ? err.message : "Failed to list brain parts",
+        });
+      }
+    },
+
     "agent.savePrompt": async ({ respond, params }) => {
       const agentId = params?.agentId as string | undefined;
       const fileName = params?.fileName as string | undefined;
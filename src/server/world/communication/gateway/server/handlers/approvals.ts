@@ -0,0 +1,80 @@
+import type { GatewayRequestHandlers } from "../types.js";
+import { toolApprovals, type ApprovalDecision } from "@server/world/execution/security/approval/index.js";
+
+const DECISIONS: ApprovalDecision[] = ["approve", "deny", "edit"];
+
+export function createApprovalHandlers(
+  broadcastEvent?: (event: { type: "event"; event: string; payload?: unknown }) => void,
+): Partial<GatewayRequestHandlers> {
+  // Every connected client (app, CLI) hears about requests and decisions, whichever agent made them
+  if (broadcastEvent) {
+    toolApprovals.onRequested((request) => {
+      broadcastEvent({
+        type: "event",
+        event: "tool.approval.requested",
+        payload: request,
+      });
+    });
+    toolApprovals.onResolved((request, resolution) => {
+      broadcastEvent({
+        type: "event",
+        event: "tool.approval.resolved",
+        payload: { ...request, ...resolution, id: request.id },
+      });
+    });
+  }
+
+  return {
+    "tool.approvals.list": async ({ respond, params }) => {
+      respond(true, {
+        approvals: toolApprovals.list({
+          agentId: params?.agentId as string | undefined,
+          conversationId: params?.conversationId as string | undefined,
+        }),
+      });
+    },
+
+    "tool.approval.resolve": async ({ respond, params, client }) => {
+      const id = params?.id as string | undefined;
+      const decision = params?.decision as ApprovalDecision | undefined;
+      const toolArgs = params?.toolArgs as Record<string, unknown> | undefined;
+      const note = params?.note as string | undefined;
+
+      if (!id) {
+        respond(false, undefined, {
+          code: "INVALID_REQUEST",
+          message: "Missing id",
+        });
+        return;
+      }
+
+      if (!decision || !DECISIONS.includes(decision)) {
+        respond(false, undefined, {
+          code: "INVALID_REQUEST",
+          message: `Invalid decision. Expected one of: ${DECISIONS.join(", ")}`,
+        });
+        return;
+      }
+
+      if (decision === "edit" && (!toolArgs || typeof toolArgs !== "object" || Array.isArray(toolArgs))) {
+        respond(false, undefined, {
+          code: "INVALID_REQUEST",
+          message: "Editing a tool call requires toolArgs as an object",
+        });
+        return;
+      }
+
+      const resolvedBy = (params?.resolvedBy as string | undefined) || client.auth?.clientId || "gateway";
+      const request = toolApprovals.resolve(id, { decision, toolArgs, note, resolvedBy });
+      if (!request) {
+        respond(false, undefined, {
+          code: "NOT_FOUND",
+          message: `No pending approval "${id}" (it may have been decided or expired)`,
+        });
+        return;
+      }
+
+      respond(true, { id, decision, toolName: request.toolName, conversationId: request.conversationId });
+    },
+  };
+}
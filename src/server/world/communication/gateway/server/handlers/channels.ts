@@ -1,10 +1,11 @@
-import type { GatewayRequestHandlers } from "../types.js";
+import type { GatewayRequestHandler, GatewayRequestHandlers } from "../types.js";
 import { ChannelRegistry } from "@server/world/communication/messengers/channels/index.js";
 import { SimpleRouter } from "@server/world/communication/routing/index.js";
 import { AgentRuntimeFactory } from "@server/world/runtime/agents/index.js";
 import { loadConfig, saveConfig } from "@server/world/config/index.js";
 import { initializeChannels } from "@server/world/communication/messengers/channels/factory.js";
 import { WhatsAppChannel } from "@server/world/communication/messengers/channels/whatsapp.js";
+import { SignalChannel } from "@server/world/communication/messengers/channels/signal.js";
 
 export function createChannelHandlers(
   channelRegistry: ChannelRegistry,
@@ -12,6 +13,135 @@ export function createChannelHandlers(
   agentFactory: AgentRuntimeFactory,
   broadcastEvent?: (event: { type: "event"; event: string; payload?: unknown }) => void,
 ): Partial<GatewayRequestHandlers> {
+  const reloadChannels = async (): Promise<void> => {
+    // Reload config and reinitialize channels
+    const config = await loadConfig();
+    
+    // Stop all existing channels
+    await channelRegistry.stopAll();
+    
+    // Clear registry
+    channelRegistry.clear();
+    
+    // Reinitialize channels from updated config
+    const newChannels = await initializeChannels(
+      config,
+      router,
+      agentFactory,
+      broadcastEvent,
+    );
+    
+    // Copy new channels to existing registry
+    for (const channel of newChannels.list()) {
+      const channelConfig = newChannels.getConfig(channel.id);
+      if (channelConfig) {
+        channelRegistry.register(channel, channelConfig);
+      }
+    }
+    
+    // Start enabled channels
+    await channelRegistry.startAll();
+  };
+
+  const broadcastSignalEvent = (event: string, payload: Record<string, unknown>) => {
+    if (broadcastEvent) {
+      broadcastEvent({
+        type: "event",
+        event: `channel.signal.${event}`,
+        payload: { ...payload, channelId: "signal", ts: Date.now() },
+      });
+    }
+  };
+
+  /**
+   * Signal accounts are either linked to an existing phone (QR code, the default)
+   * or registered as a new primary number with an SMS/voice verification code.
+   */
+  const loginSignal = async (
+    params: Record<string, unknown>,
+    respond: Parameters<GatewayRequestHandler>[0]["respond"],
+  ): Promise<void> => {
+    const mode = (params.mode as "link" | "register" | "verify" | undefined) ?? "link";
+    const account = params.account as string | undefined;
+
+    const config = await loadConfig();
+    if (!config.channels) {
+      config.channels = {};
+    }
+    if (!config.channels.signal) {
+      config.channels.signal = {
+        enabled: false,
+        dmPolicy: "pairing",
+        allowFrom: [],
+      };
+    }
+    const signalConfig = config.channels.signal;
+
+    const signalChannel = new SignalChannel(
+      { ...signalConfig, enabled: true },
+      (status) => broadcastSignalEvent("status", status),
+    );
+
+    const enableAccount = async (linkedAccount: string) => {
+      signalConfig.enabled = true;
+      signalConfig.account = linkedAccount;
+      await saveConfig(config);
+      await reloadChannels();
+      broadcastSignalEvent("connection", { connected: true, account: linkedAccount });
+    };
+
+    if (mode === "register" || mode === "verify") {
+      if (!account) {
+        respond(false, undefined, {
+          code: "INVALID_REQUEST",
+          message: "Missing account (phone number in E.164 format)",
+        });
+        return;
+      }
+
+      if (mode === "register") {
+        await signalChannel.register(account, {
+          voice: params.voice === true,
+          captcha: params.captcha as string | undefined,
+        });
+        respond(true, {
+          event: "verification_pending",
+          message: "Verification code sent. Call channels.login with mode \"verify\" and verificationCode",
+        });
+        return;
+      }
+
+      const verificationCode = params.verificationCode as string | undefined;
+      if (!verificationCode) {
+        respond(false, undefined, {
+          code: "INVALID_REQUEST",
+          message: "Missing verificationCode",
+        });
+        return;
+      }
+      await signalChannel.verify(account, verificationCode, params.pin as string | undefined);
+      await enableAccount(account);
+      respond(true, { event: "connected", account });
+      return;
+    }
+
+    // Linking waits for the QR code to be scanned, so finish it in the background
+    signalChannel.link(params.deviceName as string | undefined).then(async ({ account: linkedAccount }) => {
+      if (linkedAccount) {
+        await enableAccount(linkedAccount);
+      }
+    }).catch((err) => {
+      console.error("[Gateway] Failed to link Signal account:", err);
+      const errorMessage = err instanceof Error ? err.message : String(err);
+      broadcastSignalEvent("connection", { connected: false, error: errorMessage });
+    });
+
+    respond(true, {
+      event: "qr_pending",
+      message: "QR code will be sent via channel.signal.status event",
+    });
+  };
+
   return {
     "channels.list": async ({ respond }) => {
       try {
@@ -95,34 +225,7 @@ export function createChannelHandlers(
 
     "channels.reload": async ({ respond }) => {
       try {
-        // Reload config and reinitialize channels
-        const config = await loadConfig();
-        
-        // Stop all existing channels
-        await channelRegistry.stopAll();
-        
-        // Clear registry
-        channelRegistry.clear();
-        
-        // Reinitialize channels from updated config
-        const newChannels = await initializeChannels(
-          config,
-          router,
-          agentFactory,
-          broadcastEvent,
-        );
-        
-        // Copy new channels to existing registry
-        for (const channel of newChannels.list()) {
-          const channelConfig = newChannels.getConfig(channel.id);
-          if (channelConfig) {
-            channelRegistry.register(channel, channelConfig);
-          }
-        }
-        
-        // Start enabled channels
-        await channelRegistry.startAll();
-        
+        await reloadChannels();
         respond(true, { reloaded: true });
       } catch (err) {
         respond(false, undefined, {
@@ -145,6 +248,11 @@ export function createChannelHandlers(
           return;
         }
 
+        if (channelId === "signal") {
+          await loginSignal(params ?? {}, respond);
+          return;
+        }
+
         if (channelId !== "whatsapp") {
           respond(false, undefined, {
             code: "NOT_SUPPORTED",
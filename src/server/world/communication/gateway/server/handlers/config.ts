@@ -1,5 +1,12 @@
 import type { GatewayRequestHandlers } from "../types.js";
 import { loadConfig, saveConfig } from "@server/world/config/index.js";
+import {
+  LLMProvider,
+  listConfiguredProviders,
+  listProviderModels,
+  providerConfigError,
+  resolveProviderSettings,
+} from "@server/world/providers/llm/index.js";
 import deepmerge from "deepmerge";
 
 export interface LLMModel {
@@ -52,22 +59,6 @@ function removeNestedValue(obj: any, path: string[]): void {
   delete current[path[path.length - 1]];
 }
 
-/**
- * Extract date from model ID if it contains a date pattern (e.g., claude-3-5-sonnet-20241022)
- */
-function extractDateFromId(id: string): string | undefined {
-  // Try to find YYYYMMDD pattern in the ID
-  const dateMatch = id.match(/(\d{8})/);
-  if (dateMatch) {
-    const dateStr = dateMatch[1];
-    const year = dateStr.substring(0, 4);
-    const month = dateStr.substring(4, 6);
-    const day = dateStr.substring(6, 8);
-    return `${year}-${month}-${day}T00:00:00Z`;
-  }
-  return undefined;
-}
-
 export function createConfigHandlers(): Partial<GatewayRequestHandlers> {
   return {
     "config.update": async ({ respond, params }) => {
@@ -90,6 +81,8 @@ export function createConfigHandlers(): Partial<GatewayRequestHandlers> {
           "llm.openrouter.defaultModel",
           "llm.anthropic.defaultModel",
           "llm.openai.defaultModel",
+          "llm.gemini.defaultModel",
+          "llm.azure.defaultModel",
         ];
         
         // Apply replacements BEFORE any merging to prevent corruption
@@ -108,6 +101,8 @@ export function createConfigHandlers(): Partial<GatewayRequestHandlers> {
         // Deep merge remaining updates into config using deepmerge
         const updated = deepmerge(config, updates);
         await saveConfig(updated as any);
+        // Pick up new or changed LLM providers on the next model call
+        LLMProvider.getInstance().clearCache();
         
         respond(true, { updated: true });
       } catch (err) {
@@ -133,233 +128,52 @@ export function createConfigHandlers(): Partial<GatewayRequestHandlers> {
     "llm.models": async ({ respond, params }) => {
       try {
         const provider = params?.provider as string | undefined;
-        if (!provider) {
-          respond(false, undefined, {
-            code: "INVALID_REQUEST",
-            message: "Missing provider parameter",
-          });
-          return;
-        }
-
-        // Fetch models from Anthropic API
-        if (provider === "anthropic") {
-          const config = await loadConfig();
-          const apiKey = config.llm?.anthropic?.apiKey || process.env.ANTHROPIC_API_KEY;
-
-          if (!apiKey) {
-            respond(false, undefined, {
-              code: "MISSING_API_KEY",
-              message: "Anthropic API key is required to fetch models",
-            });
-            return;
-          }
-
-          try {
-            const response = await fetch("https://api.anthropic.com/v1/models", {
-              headers: {
-                "x-api-key": apiKey,
-                "anthropic-version": "2023-06-01",
-              },
-            });
+        const config = await loadConfig();
 
-            if (!response.ok) {
-              throw new Error(`Anthropic API error: ${response.status}`);
+        // Without a provider: the live model list of every configured provider
+        if (!provider) {
+          const providers = await Promise.all(listConfiguredProviders(config.llm).map(async (settings) => {
+            try {
+              return { provider: settings.name, type: settings.type, models: await listProviderModels(settings) };
+            } catch (err) {
+              return {
+                provider: settings.name,
+                type: settings.type,
+                models: [],
+                error: err instanceof Error ? err.message : "Failed to fetch models",
+              };
             }
-
-            const data = (await response.json()) as {
-              data?: Array<{
-                id: string;
-                display_name?: string;
-                created_at?: string;
-              }>;
-            };
-
-            const models =
-              data.data
-                ?.filter((model) => {
-                  // Filter out non-text models (TTS, image generation, etc.)
-                  const id = model.id.toLowerCase();
-                  return !id.includes("tts") && !id.includes("audio") && !id.includes("whisper");
-                })
-                .map((model) => ({
-                  id: model.id,
-                  name: model.display_name || model.id,
-                  createdAt: model.created_at || extractDateFromId(model.id),
-                }))
-                .sort((a, b) => {
-                  // Sort by date descending (newest first)
-                  const dateA = a.createdAt ? new Date(a.createdAt).getTime() : 0;
-                  const dateB = b.createdAt ? new Date(b.createdAt).getTime() : 0;
-                  return dateB - dateA;
-                }) || [];
-
-            respond(true, { models });
-          } catch (err) {
-            respond(false, undefined, {
-              code: "FETCH_ERROR",
-              message: err instanceof Error ? err.message : "Failed to fetch models from Anthropic",
-            });
-          }
+          }));
+          respond(true, { providers });
           return;
         }
 
-        // Fetch models from OpenAI API
-        if (provider === "openai") {
-          const config = await loadConfig();
-          const apiKey = config.llm?.openai?.apiKey || process.env.OPENAI_API_KEY;
-
-          if (!apiKey) {
-            respond(false, undefined, {
-              code: "MISSING_API_KEY",
-              message: "OpenAI API key is required to fetch models",
-            });
-            return;
-          }
-
-          try {
-            const response = await fetch("https://api.openai.com/v1/models", {
-              headers: {
-                Authorization: `Bearer ${apiKey}`,
-              },
-            });
-
-            if (!response.ok) {
-              throw new Error(`OpenAI API error: ${response.status}`);
-            }
-
-            const data = (await response.json()) as {
-              data?: Array<{
-                id: string;
-                created?: number;
-              }>;
-            };
-
-            // Filter to only include chat models (gpt-* models)
-            const models =
-              data.data
-                ?.filter((model) => model.id.startsWith("gpt-"))
-                .map((model) => ({
-                  id: model.id,
-                  name: model.id.replace("gpt-", "GPT-").replace(/-/g, " "),
-                  createdAt: model.created ? new Date(model.created * 1000).toISOString() : extractDateFromId(model.id),
-                }))
-                .sort((a, b) => {
-                  // Sort by date descending (newest first)
-                  const dateA = a.createdAt ? new Date(a.createdAt).getTime() : 0;
-                  const dateB = b.createdAt ? new Date(b.createdAt).getTime() : 0;
-                  return dateB - dateA;
-                }) || [];
-
-            respond(true, { models });
-          } catch (err) {
-            respond(false, undefined, {
-              code: "FETCH_ERROR",
-              message: err instanceof Error ? err.message : "Failed to fetch models from OpenAI",
-            });
-          }
+        const settings = resolveProviderSettings(config.llm, provider);
+        if (!settings) {
+          respond(false, undefined, {
+            code: "INVALID_PROVIDER",
+            message: `Unknown provider: ${provider}`,
+          });
           return;
         }
 
-        // Fetch models from OpenRouter API
-        if (provider === "openrouter") {
-          const config = await loadConfig();
-          const apiKey = config.llm?.openrouter?.apiKey || process.env.OPENROUTER_API_KEY;
-
-          if (!apiKey) {
-            respond(false, undefined, {
-              code: "MISSING_API_KEY",
-              message: "OpenRouter API key is required to fetch models",
-            });
-            return;
-          }
-
-          const apiUrl = "https://openrouter.ai/api/v1/models";
-
-          try {
-            const response = await fetch(apiUrl, {
-              headers: {
-                Authorization: `Bearer ${apiKey}`,
-              },
-            });
-
-            if (!response.ok) {
-              throw new Error(`OpenRouter API error: ${response.status}`);
-            }
-
-            const data = (await response.json()) as {
-              data?: Array<{
-                id: string;
-                name?: string;
-                description?: string;
-                created?: number;
-                context_length?: number;
-                architecture?: {
-                  modality?: string;
-                  tokenizer?: string;
-                  instruct_type?: string;
-                };
-                top_provider?: {
-                  max_completion_tokens?: number;
-                };
-                per_request_limits?: {
-                  prompt_tokens?: string;
-                  completion_tokens?: string;
-                };
-              }>;
-            };
-
-            const models =
-              data.data
-                ?.filter((model) => {
-                  // Filter out non-text models
-                  const id = model.id.toLowerCase();
-                  const description = (model.description || "").toLowerCase();
-                  
-                  // Exclude TTS, audio, image generation, and other non-text models
-                  if (
-                    id.includes("tts") ||
-                    id.includes("audio") ||
-                    id.includes("whisper") ||
-                    id.includes("image") ||
-                    id.includes("vision") && !id.includes("text") ||
-                    description.includes("text-to-speech") ||
-                    description.includes("image generation") ||
-                    description.includes("audio generation")
-                  ) {
-                    return false;
-                  }
-                  
-                  // Include models that are clearly text-based
-                  // Most chat/completion models don't have explicit modality, so we include by default
-                  // and filter out the known non-text ones above
-                  return true;
-                })
-                .map((model) => ({
-                  id: model.id,
-                  name: model.name || model.id,
-                  createdAt: model.created ? new Date(model.created * 1000).toISOString() : extractDateFromId(model.id),
-                }))
-                .sort((a, b) => {
-                  // Sort by date descending (newest first)
-                  const dateA = a.createdAt ? new Date(a.createdAt).getTime() : 0;
-                  const dateB = b.createdAt ? new Date(b.createdAt).getTime() : 0;
-                  return dateB - dateA;
-                }) || [];
-
-            respond(true, { models });
-          } catch (err) {
-            respond(false, undefined, {
-              code: "FETCH_ERROR",
-              message: err instanceof Error ? err.message : "Failed to fetch models from OpenRouter",
-            });
-          }
+        const configError = providerConfigError(settings);
+        if (configError) {
+          respond(false, undefined, {
+            code: settings.apiKey ? "INVALID_CONFIG" : "MISSING_API_KEY",
+            message: configError,
+          });
           return;
         }
 
-        respond(false, undefined, {
-          code: "INVALID_PROVIDER",
-          message: `Unknown provider: ${provider}`,
-        });
+        try {
+          respond(true, { models: await listProviderModels(settings) });
+        } catch (err) {
+          respond(false, undefined, {
+            code: "FETCH_ERROR",
+            message: err instanceof Error ? err.message : `Failed to fetch models from ${provider}`,
+          });
+        }
       } catch (err) {
         respond(false, undefined, {
           code: "ERROR",
@@ -1,8 +1,46 @@
 import type { GatewayRequestHandlers } from "../types.js";
-import type { AgentRuntime } from "@server/world/runtime/agents/types.js";
+import type { AgentRuntime, ModelOverrides } from "@server/world/runtime/agents/types.js";
 import type { ConversationState, Conversation } from "@server/agents/zuckerman/conversations/types.js";
 import type { AgentRuntimeFactory } from "@server/world/runtime/agents/index.js";
 import { loadConfig } from "@server/world/config/index.js";
+import { isThinkingLevel, BUILT_IN_PROVIDERS, listProviderNames } from "@server/world/providers/llm/index.js";
+
+/**
+ * Validate model override params; undefined leaves a field unchanged, null clears it.
+ * providers lists the names a provider override may use (built-ins plus llm.providers).
+ */
+export function parseModelOverrides(
+  params: Record<string, unknown> | undefined,
+  providers: readonly string[] = BUILT_IN_PROVIDERS,
+): { overrides?: ModelOverrides; error?: string } {
+  const overrides: ModelOverrides = {};
+  const { model, provider, temperature, thinkingLevel } = params ?? {};
+
+  if (model !== undefined) {
+    if (model !== null && (typeof model !== "string" || !model.trim())) return { error: "model must be a non-empty string or null" };
+    overrides.model = model === null ? null : model.trim();
+  }
+  if (provider !== undefined) {
+    if (provider !== null && (typeof provider !== "string" || !providers.includes(provider))) {
+      return { error: `provider must be one of: ${providers.join(", ")}` };
+    }
+    overrides.provider = provider;
+  }
+  if (temperature !== undefined) {
+    if (temperature !== null && (typeof temperature !== "number" || temperature < 0 || temperature > 2)) {
+      return { error: "temperature must be a number between 0 and 2, or null" };
+    }
+    overrides.temperature = temperature;
+  }
+  if (thinkingLevel !== undefined) {
+    if (thinkingLevel !== null && !isThinkingLevel(thinkingLevel)) {
+      return { error: "thinkingLevel must be one of: off, minimal, low, medium, high, xhigh" };
+    }
+    overrides.thinkingLevel = thinkingLevel;
+  }
+
+  return { overrides };
+}
 
 /**
  * Find conversation across all agents using runtime methods
@@ -103,7 +141,58 @@ export function createConversationHandlers(agentFactory: AgentRuntimeFactory): P
         return;
       }
 
-      respond(true, { conversation: result.state });
+      respond(true, {
+        conversation: result.state,
+        overrides: result.runtime.getModelOverrides?.(id),
+      });
+    },
+
+    "conversations.setOverrides": async ({ respond, params }) => {
+      const id = params?.id as string | undefined;
+      if (!id) {
+        respond(false, undefined, {
+          code: "INVALID_REQUEST",
+          message: "Missing conversation id",
+        });
+        return;
+      }
+
+      const config = await loadConfig();
+      const { overrides, error } = parseModelOverrides(params, listProviderNames(config.llm));
+      if (!overrides) {
+        respond(false, undefined, {
+          code: "INVALID_REQUEST",
+          message: error ?? "Invalid overrides",
+        });
+        return;
+      }
+
+      const result = await findConversationAcrossAgents(agentFactory, id);
+      if (!result) {
+        respond(false, undefined, {
+          code: "NOT_FOUND",
+          message: `Conversation ${id} not found`,
+        });
+        return;
+      }
+
+      if (!result.runtime.setModelOverrides) {
+        respond(false, undefined, {
+          code: "AGENT_ERROR",
+          message: `Agent "${result.runtime.agentId}" does not support model overrides`,
+        });
+        return;
+      }
+
+      try {
+        const updated = await result.runtime.setModelOverrides(id, overrides);
+        respond(true, { conversationId: id, overrides: updated });
+      } catch (err) {
+        respond(false, undefined, {
+          code: "ERROR",
+          message: err instanceof Error ? err.message : "Failed to set overrides",
+        });
+      }
     },
 
     "conversations.delete": async ({ respond, params }) => {
@@ -1,10 +1,11 @@
 import type { GatewayRequestHandlers } from "../types.js";
 import type { HealthSnapshot } from "@server/world/communication/gateway/protocol/schema.js";
+import type { AgentRuntimeFactory } from "@server/world/runtime/agents/index.js";
 
 const startTime = Date.now();
 const VERSION = "0.1.0";
 
-export function createHealthHandlers(): Partial<GatewayRequestHandlers> {
+export function createHealthHandlers(agentFactory?: AgentRuntimeFactory): Partial<GatewayRequestHandlers> {
   return {
     health: async ({ respond, params }) => {
       const wantsProbe = params?.probe === true;
@@ -16,6 +17,18 @@ export function createHealthHandlers(): Partial<GatewayRequestHandlers> {
         status: "healthy",
       };
 
+      // Scheduler metrics of agents that are already loaded
+      const agents: NonNullable<HealthSnapshot["agents"]> = {};
+      for (const [agentId, runtime] of agentFactory?.getLoadedRuntimes() ?? []) {
+        const scheduler = runtime.getSchedulerMetrics?.();
+        if (scheduler) {
+          agents[agentId] = { scheduler };
+        }
+      }
+      if (Object.keys(agents).length > 0) {
+        health.agents = agents;
+      }
+
       respond(true, health);
     },
 
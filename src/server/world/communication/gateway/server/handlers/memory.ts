@@ -4,6 +4,7 @@ import { loadConfig } from "@server/world/config/index.js";
 import { resolveAgentHomedir } from "@server/world/communication/routing/resolver.js";
 import { MemorySystem } from "@server/agents/zuckerman/core/memory/memory-service.js";
 import type { MemoryType, Memory } from "@server/agents/zuckerman/core/memory/types.js";
+import { linkProspectiveMemory, unlinkProspectiveMemory } from "@server/agents/zuckerman/calendar/reminders.js";
 
 export function createMemoryHandlers(
   agentFactory: AgentRuntimeFactory,
@@ -105,9 +106,14 @@ export function createMemoryHandlers(
         const memorySystem = new MemorySystem(homedir, agentId);
 
         const id = memorySystem.insert(type, content, metadata);
-        const memory = memorySystem.find(type, id);
 
-        respond(true, { memory });
+        // Prospective memories with a due time get a calendar event
+        const created = memorySystem.find(type, id);
+        if (created && type === "prospective" && created.metadata?.due?.kind === "time") {
+          await linkProspectiveMemory(memorySystem, created, agentId);
+        }
+
+        respond(true, { memory: memorySystem.find(type, id) });
       } catch (err) {
         respond(false, undefined, {
           code: "ERROR",
@@ -163,6 +169,193 @@ export function createMemoryHandlers(
       }
     },
 
+    "memory.optOut": async ({ respond, params }) => {
+      try {
+        const agentId = params?.agentId as string | undefined;
+        const conversationId = params?.conversationId as string | undefined;
+        const optOut = params?.optOut !== false;
+
+        if (!agentId || !conversationId) {
+          respond(false, undefined, {
+            code: "INVALID_REQUEST",
+            message: "Missing agentId or conversationId",
+          });
+          return;
+        }
+
+        const runtime = await agentFactory.getRuntime(agentId);
+        if (!runtime?.setMemoryOptOut) {
+          respond(false, undefined, {
+            code: "AGENT_ERROR",
+            message: `Agent "${agentId}" does not support memory opt-out`,
+          });
+          return;
+        }
+
+        if (!runtime.getConversation?.(conversationId)) {
+          respond(false, undefined, {
+            code: "NOT_FOUND",
+            message: "Conversation not found",
+          });
+          return;
+        }
+
+        await runtime.setMemoryOptOut(conversationId, optOut);
+        respond(true, { conversationId, optOut });
+      } catch (err) {
+        respond(false, undefined, {
+          code: "ERROR",
+          message: err instanceof Error ? err.message : "Failed to update memory opt-out",
+        });
+      }
+    },
+
+    "memory.status": async ({ respond, params }) => {
+      try {
+        const agentId = (params?.agentId as string | undefined) || "zuckerman";
+
+        const runtime = await agentFactory.getRuntime(agentId);
+        if (!runtime) {
+          respond(false, undefined, {
+            code: "AGENT_NOT_FOUND",
+            message: `Agent "${agentId}" not found`,
+          });
+          return;
+        }
+
+        const status = runtime.getMemoryStatus?.();
+        if (!status) {
+          respond(false, undefined, {
+            code: "NOT_ENABLED",
+            message: `Memory search is not enabled for agent "${agentId}"`,
+          });
+          return;
+        }
+
+        respond(true, { agentId, ...status });
+      } catch (err) {
+        respond(false, undefined, {
+          code: "ERROR",
+          message: err instanceof Error ? err.message : "Failed to get memory status",
+        });
+      }
+    },
+
+    "memory.sync": async ({ respond, params }) => {
+      try {
+        const agentId = (params?.agentId as string | undefined) || "zuckerman";
+        const force = params?.force === true;
+
+        const runtime = await agentFactory.getRuntime(agentId);
+        if (!runtime) {
+          respond(false, undefined, {
+            code: "AGENT_NOT_FOUND",
+            message: `Agent "${agentId}" not found`,
+          });
+          return;
+        }
+
+        if (!runtime.syncMemory || !runtime.getMemoryStatus?.()) {
+          respond(false, undefined, {
+            code: "NOT_ENABLED",
+            message: `Memory search is not enabled for agent "${agentId}"`,
+          });
+          return;
+        }
+
+        const stats = await runtime.syncMemory({ force });
+        respond(true, { agentId, stats, ...runtime.getMemoryStatus() });
+      } catch (err) {
+        respond(false, undefined, {
+          code: "ERROR",
+          message: err instanceof Error ? err.message : "Memory sync failed",
+        });
+      }
+    },
+
+    "memory.pin": async ({ respond, params }) => {
+      try {
+        const agentId = params?.agentId as string | undefined;
+        const id = params?.id as string | undefined;
+        const pinned = params?.pinned !== false;
+
+        if (!agentId || !id) {
+          respond(false, undefined, {
+            code: "INVALID_REQUEST",
+            message: "Missing agentId or id",
+          });
+          return;
+        }
+
+        const config = await loadConfig();
+        const homedir = resolveAgentHomedir(config, agentId);
+        const memorySystem = new MemorySystem(homedir, agentId);
+
+        // Pinning restores archived memories, so look those up too
+        const type = (params?.type as MemoryType | undefined)
+          ?? memorySystem.findById(id, { includeArchived: true })?.type;
+        if (!type || !memorySystem.pin(type, id, pinned)) {
+          respond(false, undefined, {
+            code: "NOT_FOUND",
+            message: "Memory not found",
+          });
+          return;
+        }
+
+        respond(true, { memory: memorySystem.find(type, id) });
+      } catch (err) {
+        respond(false, undefined, {
+          code: "ERROR",
+          message: err instanceof Error ? err.message : "Failed to pin memory",
+        });
+      }
+    },
+
+    "memory.forget": async ({ respond, params }) => {
+      try {
+        const agentId = params?.agentId as string | undefined;
+        const id = params?.id as string | undefined;
+
+        if (!agentId || !id) {
+          respond(false, undefined, {
+            code: "INVALID_REQUEST",
+            message: "Missing agentId or id",
+          });
+          return;
+        }
+
+        const runtime = await agentFactory.getRuntime(agentId);
+        if (!runtime?.forgetMemory) {
+          respond(false, undefined, {
+            code: "AGENT_ERROR",
+            message: `Agent "${agentId}" does not support forgetting memories`,
+          });
+          return;
+        }
+
+        const config = await loadConfig();
+        const homedir = resolveAgentHomedir(config, agentId);
+        const memorySystem = new MemorySystem(homedir, agentId);
+
+        const type = (params?.type as MemoryType | undefined)
+          ?? memorySystem.findById(id, { includeArchived: true })?.type;
+        if (!type || !await runtime.forgetMemory(type, id)) {
+          respond(false, undefined, {
+            code: "NOT_FOUND",
+            message: "Memory not found",
+          });
+          return;
+        }
+
+        respond(true, { id, type, forgotten: true });
+      } catch (err) {
+        respond(false, undefined, {
+          code: "ERROR",
+          message: err instanceof Error ? err.message : "Failed to forget memory",
+        });
+      }
+    },
+
     "memory.delete": async ({ respond, params }) => {
       try {
         const agentId = params?.agentId as string | undefined;
@@ -181,6 +374,11 @@ export function createMemoryHandlers(
         const homedir = resolveAgentHomedir(config, agentId);
         const memorySystem = new MemorySystem(homedir, agentId);
 
+        const memory = memorySystem.find(type, id);
+        if (memory?.type === "prospective") {
+          await unlinkProspectiveMemory(memory, agentId);
+        }
+
         const success = memorySystem.remove(type, id);
         if (!success) {
           respond(false, undefined, {
@@ -0,0 +1,119 @@
+import type { GatewayRequestHandlers } from "../types.js";
+import type { ChannelRegistry } from "@server/world/communication/messengers/channels/index.js";
+import { getPairingStore, PAIRING_APPROVED_MESSAGE } from "@server/world/communication/messengers/pairing/index.js";
+
+export function createPairingHandlers(
+  channelRegistry: ChannelRegistry | null,
+  broadcastEvent?: (event: { type: "event"; event: string; payload?: unknown }) => void,
+): Partial<GatewayRequestHandlers> {
+  const store = getPairingStore();
+
+  return {
+    "channels.pairing.list": async ({ respond, params }) => {
+      try {
+        const channelId = params?.channelId as string | undefined;
+        respond(true, {
+          pending: store.listPending(channelId),
+          approved: store.listApproved(channelId),
+        });
+      } catch (err) {
+        respond(false, undefined, {
+          code: "ERROR",
+          message: err instanceof Error ? err.message : "Failed to list pairing requests",
+        });
+      }
+    },
+
+    "channels.pairing.approve": async ({ respond, params }) => {
+      const code = params?.code as string | undefined;
+      if (!code) {
+        respond(false, undefined, {
+          code: "INVALID_REQUEST",
+          message: "Missing code",
+        });
+        return;
+      }
+
+      try {
+        const peer = store.approve(code, params?.channelId as string | undefined);
+        if (!peer) {
+          respond(false, undefined, {
+            code: "NOT_FOUND",
+            message: `Pairing code "${code}" not found or expired`,
+          });
+          return;
+        }
+
+        // Let the sender know they can start chatting (best effort)
+        const channel = channelRegistry?.get(peer.channelId);
+        if (channel?.isConnected()) {
+          channel.send(PAIRING_APPROVED_MESSAGE, peer.replyTo ?? peer.senderId).catch((err) => {
+            console.warn(`[Gateway] Failed to notify paired peer on ${peer.channelId}:`, err);
+          });
+        }
+
+        broadcastEvent?.({
+          type: "event",
+          event: "channel.pairing.approved",
+          payload: { ...peer, ts: Date.now() },
+        });
+        respond(true, { approved: peer });
+      } catch (err) {
+        respond(false, undefined, {
+          code: "ERROR",
+          message: err instanceof Error ? err.message : "Failed to approve pairing",
+        });
+      }
+    },
+
+    "channels.pairing.reject": async ({ respond, params }) => {
+      const code = params?.code as string | undefined;
+      if (!code) {
+        respond(false, undefined, {
+          code: "INVALID_REQUEST",
+          message: "Missing code",
+        });
+        return;
+      }
+
+      try {
+        const request = store.reject(code, params?.channelId as string | undefined);
+        if (!request) {
+          respond(false, undefined, {
+            code: "NOT_FOUND",
+            message: `Pairing code "${code}" not found or expired`,
+          });
+          return;
+        }
+        respond(true, { rejected: request });
+      } catch (err) {
+        respond(false, undefined, {
+          code: "ERROR",
+          message: err instanceof Error ? err.message : "Failed to reject pairing",
+        });
+      }
+    },
+
+    "channels.pairing.revoke": async ({ respond, params }) => {
+      const channelId = params?.channelId as string | undefined;
+      const senderId = params?.senderId as string | undefined;
+      if (!channelId || !senderId) {
+        respond(false, undefined, {
+          code: "INVALID_REQUEST",
+          message: "Missing channelId or senderId",
+        });
+        return;
+      }
+
+      try {
+        const revoked = store.revoke(channelId, senderId);
+        respond(true, { channelId, senderId, revoked });
+      } catch (err) {
+        respond(false, undefined, {
+          code: "ERROR",
+          message: err instanceof Error ? err.message : "Failed to revoke pairing",
+        });
+      }
+    },
+  };
+}
@@ -0,0 +1,115 @@
+import type { GatewayRequestHandlers } from "../types.js";
+import type { AgentRuntimeFactory } from "@server/world/runtime/agents/index.js";
+import type { CompressionStrategy, SleepStatus } from "@server/agents/zuckerman/sleep/types.js";
+
+const STRATEGIES: CompressionStrategy[] = [
+  "sliding-window",
+  "progressive-summary",
+  "importance-based",
+  "semantic-chunks",
+  "hybrid",
+];
+
+export function createSleepHandlers(agentFactory: AgentRuntimeFactory): Partial<GatewayRequestHandlers> {
+  return {
+    "sleep.run": async ({ respond, params }) => {
+      const agentId = (params?.agentId as string | undefined) || "zuckerman";
+      const conversationId = params?.conversationId as string | undefined;
+      const force = params?.force !== false;
+      const strategy = params?.strategy as CompressionStrategy | undefined;
+
+      if (!conversationId) {
+        respond(false, undefined, {
+          code: "INVALID_REQUEST",
+          message: "Missing conversationId",
+        });
+        return;
+      }
+
+      if (strategy && !STRATEGIES.includes(strategy)) {
+        respond(false, undefined, {
+          code: "INVALID_REQUEST",
+          message: `Unknown strategy "${strategy}". Expected one of: ${STRATEGIES.join(", ")}`,
+        });
+        return;
+      }
+
+      const runtime = await agentFactory.getRuntime(agentId);
+      if (!runtime) {
+        respond(false, undefined, {
+          code: "AGENT_NOT_FOUND",
+          message: `Agent "${agentId}" not found`,
+        });
+        return;
+      }
+
+      if (!runtime.runSleep) {
+        respond(false, undefined, {
+          code: "AGENT_ERROR",
+          message: `Agent "${agentId}" does not support sleep mode`,
+        });
+        return;
+      }
+
+      try {
+        const result = await runtime.runSleep(conversationId, { force, strategy });
+        respond(true, { result });
+      } catch (err) {
+        respond(false, undefined, {
+          code: "ERROR",
+          message: err instanceof Error ? err.message : "Sleep mode run failed",
+        });
+      }
+    },
+
+    "sleep.status": async ({ respond, params }) => {
+      const agentId = (params?.agentId as string | undefined) || "zuckerman";
+      const conversationId = params?.conversationId as string | undefined;
+
+      const runtime = await agentFactory.getRuntime(agentId);
+      if (!runtime) {
+        respond(false, undefined, {
+          code: "AGENT_NOT_FOUND",
+          message: `Agent "${agentId}" not found`,
+        });
+        return;
+      }
+
+      if (!runtime.getSleepStatus) {
+        respond(false, undefined, {
+          code: "AGENT_ERROR",
+          message: `Agent "${agentId}" does not support sleep mode`,
+        });
+        return;
+      }
+
+      try {
+        if (conversationId) {
+          const status = await runtime.getSleepStatus(conversationId);
+          if (!status) {
+            respond(false, undefined, {
+              code: "NOT_FOUND",
+              message: `Conversation "${conversationId}" not found`,
+            });
+            return;
+          }
+          respond(true, { status });
+          return;
+        }
+
+        // No conversation given: report every conversation of the agent
+        const statuses: SleepStatus[] = [];
+        for (const conversation of runtime.listConversations?.() ?? []) {
+          const status = await runtime.getSleepStatus(conversation.id);
+          if (status) statuses.push(status);
+        }
+        respond(true, { statuses });
+      } catch (err) {
+        respond(false, undefined, {
+          code: "ERROR",
+          message: err instanceof Error ? err.message : "Failed to get sleep status",
+        });
+      }
+    },
+  };
+}
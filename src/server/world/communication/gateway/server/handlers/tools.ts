@@ -0,0 +1,70 @@
+import type { GatewayRequestHandlers } from "../types.js";
+import type { AgentRuntimeFactory } from "@server/world/runtime/agents/index.js";
+
+export function createToolHandlers(agentFactory: AgentRuntimeFactory): Partial<GatewayRequestHandlers> {
+  return {
+    "tools.list": async ({ respond, params }) => {
+      const agentId = (params?.agentId as string | undefined) || "zuckerman";
+
+      try {
+        const runtime = await agentFactory.getRuntime(agentId);
+        if (!runtime?.listTools) {
+          respond(false, undefined, {
+            code: "AGENT_NOT_FOUND",
+            message: `Agent "${agentId}" not found or doesn't support tool listing`,
+          });
+          return;
+        }
+
+        const { tools, errors } = await runtime.listTools();
+        respond(true, { agentId, tools, errors });
+      } catch (err) {
+        respond(false, undefined, {
+          code: "ERROR",
+          message: err instanceof Error ? err.message : "Failed to list tools",
+        });
+      }
+    },
+
+    "tools.toggle": async ({ respond, params }) => {
+      const agentId = (params?.agentId as string | undefined) || "zuckerman";
+      const name = params?.name as string | undefined;
+      const enabled = params?.enabled;
+
+      if (!name) {
+        respond(false, undefined, {
+          code: "INVALID_REQUEST",
+          message: "Missing name",
+        });
+        return;
+      }
+
+      if (typeof enabled !== "boolean") {
+        respond(false, undefined, {
+          code: "INVALID_REQUEST",
+          message: "Missing enabled (expected true or false)",
+        });
+        return;
+      }
+
+      try {
+        const runtime = await agentFactory.getRuntime(agentId);
+        if (!runtime?.setToolEnabled) {
+          respond(false, undefined, {
+            code: "AGENT_NOT_FOUND",
+            message: `Agent "${agentId}" not found or doesn't support toggling tools`,
+          });
+          return;
+        }
+
+        const tool = await runtime.setToolEnabled(name, enabled);
+        respond(true, { agentId, tool });
+      } catch (err) {
+        respond(false, undefined, {
+          code: "ERROR",
+          message: err instanceof Error ? err.message : "Failed to toggle tool",
+        });
+      }
+    },
+  };
+}
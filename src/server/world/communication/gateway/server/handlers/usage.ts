@@ -0,0 +1,48 @@
+import type { GatewayRequestHandlers } from "../types.js";
+import { loadConfig } from "@server/world/config/index.js";
+import { checkBudget, periodStart, summarizeUsage } from "@server/world/providers/llm/index.js";
+import type { BudgetPeriod, UsageQuery } from "@server/world/providers/llm/index.js";
+
+const PERIODS: BudgetPeriod[] = ["daily", "monthly"];
+
+export function createUsageHandlers(): Partial<GatewayRequestHandlers> {
+  return {
+    "usage.summary": async ({ respond, params }) => {
+      try {
+        const period = params?.period as BudgetPeriod | undefined;
+        if (period && !PERIODS.includes(period)) {
+          respond(false, undefined, {
+            code: "INVALID_REQUEST",
+            message: `Unknown period "${period}". Expected one of: ${PERIODS.join(", ")}`,
+          });
+          return;
+        }
+
+        const query: UsageQuery = {
+          from: period ? periodStart(period) : params?.from as number | undefined,
+          to: params?.to as number | undefined,
+          agentId: params?.agentId as string | undefined,
+          conversationId: params?.conversationId as string | undefined,
+        };
+
+        const config = await loadConfig();
+        const summary = summarizeUsage(query);
+        const budget = checkBudget(config.usage, {
+          agentId: query.agentId ?? "",
+          conversationId: query.conversationId,
+        });
+
+        respond(true, {
+          summary,
+          budgets: config.usage?.budgets ?? null,
+          budget,
+        });
+      } catch (err) {
+        respond(false, undefined, {
+          code: "ERROR",
+          message: err instanceof Error ? err.message : "Failed to summarize usage",
+        });
+      }
+    },
+  };
+}
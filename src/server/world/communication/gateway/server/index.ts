@@ -3,8 +3,11 @@ import { createServer } from "node:http";
 import type { GatewayWsClient, GatewayRequestHandlers, GatewayServer } from "./types.js";
 export type { GatewayServer } from "./types.js";
 import { handleConnection } from "./connection.js";
+import { createGatewayAuth } from "./auth.js";
 import { createCoreHandlers } from "./methods.js";
 import { watchForReload, getWatchPaths } from "./reload.js";
+import { createMcpHttpHandler } from "./mcp.js";
+import { mcpClients } from "@server/world/providers/mcp/index.js";
 import { initializeChannels } from "@server/world/communication/messengers/channels/factory.js";
 import { loadConfig } from "@server/world/config/index.js";
 import { AgentRuntimeFactory } from "@server/world/runtime/agents/index.js";
@@ -19,8 +22,14 @@ export interface GatewayServerOptions {
 export async function startGatewayServer(
   options: GatewayServerOptions = {},
 ): Promise<GatewayServer> {
+  // Load config first: the bind address decides whether auth is on by default
+  const config = await loadConfig();
   const port = options.port ?? 18789;
-  const host = options.host ?? "127.0.0.1";
+  const host = options.host ?? config.gateway?.host ?? (config.gateway?.bind === "lan" ? "0.0.0.0" : "127.0.0.1");
+
+  const authManager = await createGatewayAuth(config, host);
+  const rateLimitCleanup = setInterval(() => authManager.cleanupRateLimits(), 60_000);
+  rateLimitCleanup.unref();
 
   const httpServer = createServer();
   const wss = new WebSocketServer({ server: httpServer });
@@ -30,6 +39,7 @@ export async function startGatewayServer(
   // Function to broadcast events to all connected clients
   const broadcastEvent = (event: { type: "event"; event: string; payload?: unknown }) => {
     clients.forEach((client) => {
+      if (!client.auth) return; // Events are only for clients that completed the handshake
       try {
         client.socket.send(JSON.stringify(event));
       } catch (err) {
@@ -38,8 +48,7 @@ export async function startGatewayServer(
     });
   };
   
-  // Load config and set API keys as environment variables for providers
-  const config = await loadConfig();
+  // Set API keys as environment variables for providers
   if (config.llm?.anthropic?.apiKey) {
     process.env.ANTHROPIC_API_KEY = config.llm.anthropic.apiKey;
   }
@@ -85,6 +94,25 @@ export async function startGatewayServer(
     broadcastEvent,
   });
 
+  // Plain HTTP requests: the MCP endpoint, everything else is 404 (clients use the WebSocket)
+  const mcpHandler = createMcpHttpHandler({ agentFactory, authManager });
+  httpServer.on("request", (req, res) => {
+    mcpHandler(req, res)
+      .then((handled) => {
+        if (!handled) {
+          res.writeHead(404);
+          res.end();
+        }
+      })
+      .catch((err) => {
+        console.error(`[Gateway] HTTP request failed:`, err);
+        if (!res.headersSent) {
+          res.writeHead(500);
+        }
+        res.end();
+      });
+  });
+
   // Track connections (logging is handled in handleConnection)
   const onConnect = (client: GatewayWsClient) => {
     // Can add additional logic here if needed
@@ -94,8 +122,8 @@ export async function startGatewayServer(
     // Can add additional logic here if needed
   };
 
-  wss.on("connection", (socket) => {
-    handleConnection(socket, clients, handlers, onConnect, onDisconnect);
+  wss.on("connection", (socket, req) => {
+    handleConnection(socket, clients, handlers, onConnect, onDisconnect, authManager, req.socket.remoteAddress);
   });
 
   // Setup hot reload watcher
@@ -124,6 +152,7 @@ export async function startGatewayServer(
       payload: { path, ts: Date.now() },
     };
     clients.forEach((client) => {
+      if (!client.auth) return;
       try {
         client.socket.send(JSON.stringify(event));
       } catch (err) {
@@ -145,8 +174,10 @@ export async function startGatewayServer(
           console.log(`[Gateway] Closing server${reason ? `: ${reason}` : ""}`);
           
           // Stop channels and watcher first
+          clearInterval(rateLimitCleanup);
           await channelRegistry.stopAll();
           await reloadWatcher.stop();
+          await mcpClients.closeAll();
           
           // Forcefully close all WebSocket connections
           const closePromises: Promise<void>[] = [];
@@ -0,0 +1,347 @@
+import type { IncomingMessage, ServerResponse } from "node:http";
+import { randomUUID } from "node:crypto";
+import { asSchema } from "@ai-sdk/provider-utils";
+import type { AgentRuntimeFactory } from "@server/world/runtime/agents/index.js";
+import type { AgentRunParams, AgentRuntime } from "@server/world/runtime/agents/types.js";
+import type { StreamLifecycleEvent, WriteEvent } from "@server/agents/zuckerman/core/self/events.js";
+import type { ZuckermanConfig } from "@server/world/config/types.js";
+import type { GatewayAuthManager } from "@server/world/execution/security/auth/gateway-auth.js";
+import type { SecurityContext } from "@server/world/execution/security/types.js";
+import { loadConfig } from "@server/world/config/index.js";
+import { hasScope } from "@server/world/execution/security/auth/scopes.js";
+import { resolveSecurityContext } from "@server/world/execution/security/context/index.js";
+import { resolveAgentHomedir } from "@server/world/homedir/resolver.js";
+import { findApprovalRule, describeApprovalRule } from "@server/world/execution/security/policy/approval-policy.js";
+import { toolApprovals, type ToolApprovalResolution } from "@server/world/execution/security/approval/index.js";
+import { checkToolCallPolicy, formatPolicyDenial, type ToolExecutionContext } from "@server/agents/zuckerman/tools/policy.js";
+import { activityRecorder } from "@server/agents/zuckerman/activity/index.js";
+import {
+  McpServer,
+  MCP_TOOL_PREFIX,
+  JSON_RPC_PARSE_ERROR,
+  isMcpToolAllowed,
+  type JsonRpcMessage,
+  type JsonRpcResponse,
+  type McpServerTool,
+  type McpToolResult,
+} from "@server/world/providers/mcp/index.js";
+
+export const MCP_PATH = "/mcp";
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+const SEND_MESSAGE_TOOL = "send_message";
+// send_message gives up waiting after this long (a reply may wait on tool approvals)
+const REPLY_TIMEOUT_MS = 15 * 60 * 1000;
+
+interface McpHttpDeps {
+  agentFactory: AgentRuntimeFactory;
+  authManager: GatewayAuthManager;
+}
+
+function errorResult(text: string): McpToolResult {
+  return { content: [{ type: "text", text }], isError: true };
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+async function readBody(req: IncomingMessage): Promise<string> {
+  let size = 0;
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > MAX_BODY_BYTES) {
+      throw new Error("Request body too large");
+    }
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks).toString("utf-8");
+}
+
+function resolveAgentId(config: ZuckermanConfig): string {
+  if (config.mcp?.server?.agentId) return config.mcp.server.agentId;
+  const agents = config.agents?.list || [];
+  const defaultAgent = agents.find(a => a.default) || agents[0];
+  return defaultAgent?.id || "zuckerman";
+}
+
+/**
+ * Ask a human to approve a tool call, recording the request and the decision as activity
+ */
+async function requestApproval(
+  agentId: string,
+  runId: string,
+  toolName: string,
+  args: Record<string, unknown>,
+  reason: string,
+  securityContext: SecurityContext,
+): Promise<ToolApprovalResolution> {
+  const { request, decision } = toolApprovals.request({
+    agentId,
+    conversationId: securityContext.conversationId,
+    runId,
+    toolName,
+    toolArgs: args,
+    reason: `${reason} (called over MCP)`,
+    timeoutMs: securityContext.approvalPolicy!.timeoutMs,
+  });
+  await activityRecorder.recordToolApprovalRequested(agentId, securityContext.conversationId, runId, request.id, toolName, args, request.reason);
+
+  const resolution = await decision;
+  await activityRecorder.recordToolApprovalResolved(agentId, securityContext.conversationId, runId, request.id, toolName, resolution);
+  return resolution;
+}
+
+/**
+ * Ask a human before running a tool the approval policy flags. Resolves to the arguments
+ * to run with, or an error result when the call was not approved.
+ */
+async function awaitApproval(
+  agentId: string,
+  runId: string,
+  toolName: string,
+  args: Record<string, unknown>,
+  securityContext: SecurityContext,
+): Promise<{ args: Record<string, unknown> } | { denied: McpToolResult }> {
+  const rule = findApprovalRule(toolName, args, securityContext.approvalPolicy);
+  if (!rule || !securityContext.approvalPolicy) {
+    return { args };
+  }
+
+  const resolution = await requestApproval(agentId, runId, toolName, args, describeApprovalRule(toolName, rule), securityContext);
+  if (resolution.outcome !== "approved") {
+    return { denied: errorResult(`Tool call "${toolName}" was ${resolution.outcome}${resolution.note ? `: ${resolution.note}` : ""}`) };
+  }
+  return { args: resolution.toolArgs };
+}
+
+/**
+ * Run a message and wait for the agent's reply. Runs return before the reply exists (Self
+ * answers from its own loop), so the reply is the conversation's next assistant write.
+ * Listeners are attached before the run starts, so a fast reply is not missed.
+ */
+async function runAndWaitForReply(runtime: AgentRuntime, params: AgentRunParams): Promise<{ runId: string; response: string }> {
+  if (!runtime.on) {
+    return runtime.run(params);
+  }
+
+  const unsubscribers: Array<() => void> = [];
+  let timer: NodeJS.Timeout | undefined;
+  const reply = new Promise<string>((resolve, reject) => {
+    unsubscribers.push(runtime.on!<WriteEvent>("write", (event) => {
+      if (event.conversationId === params.conversationId && event.role === "assistant" && event.content.trim()) {
+        resolve(event.content);
+      }
+    }));
+    unsubscribers.push(runtime.on!<StreamLifecycleEvent>("stream.lifecycle", (event) => {
+      if (event.conversationId === params.conversationId && (event.phase === "error" || event.phase === "cancelled")) {
+        const detail = event.error ?? event.message;
+        reject(new Error(`Agent run ${event.phase}${detail ? `: ${detail}` : ""}`));
+      }
+    }));
+    timer = setTimeout(() => reject(new Error(`No reply within ${REPLY_TIMEOUT_MS / 60_000} minutes`)), REPLY_TIMEOUT_MS);
+  });
+  // Settled but unused when run() fails or already returned the response
+  reply.catch(() => undefined);
+
+  try {
+    const result = await runtime.run(params);
+    return { runId: result.runId, response: result.response || await reply };
+  } finally {
+    clearTimeout(timer);
+    unsubscribers.forEach(unsubscribe => unsubscribe());
+  }
+}
+
+/**
+ * The agent's tools (minus tools it gets from other MCP servers) plus send_message, as MCP tools
+ */
+async function getAgentMcpTools(
+  agentFactory: AgentRuntimeFactory,
+  config: ZuckermanConfig,
+  clientId: string,
+): Promise<McpServerTool[]> {
+  const agentId = resolveAgentId(config);
+  const runtime = await agentFactory.getRuntime(agentId);
+  if (!runtime) {
+    throw new Error(`Agent "${agentId}" not found`);
+  }
+
+  const conversationType = config.mcp?.server?.conversationType ?? "channel";
+  const homedir = resolveAgentHomedir(config, agentId);
+  // Resolved per call so listing tools never starts a sandbox
+  const resolveContext = (conversationId: string) =>
+    resolveSecurityContext(config.security, conversationId, conversationType, agentId, homedir);
+  const filter = config.mcp?.server?.tools;
+  const tools: McpServerTool[] = [];
+
+  const toolSet = runtime.getToolSet ? await runtime.getToolSet() : {};
+  for (const [name, agentTool] of Object.entries(toolSet)) {
+    if (name.startsWith(MCP_TOOL_PREFIX) || !agentTool.execute || !isMcpToolAllowed(name, filter)) continue;
+
+    const inputSchema = await asSchema(agentTool.inputSchema).jsonSchema;
+    tools.push({
+      name,
+      description: agentTool.description,
+      inputSchema: inputSchema as Record<string, unknown>,
+      call: async (args) => {
+        const runId = randomUUID();
+        const securityContext = await resolveContext(`mcp:${clientId}`);
+        const denial = checkToolCallPolicy(name, args, securityContext);
+        if (denial) {
+          await activityRecorder.recordToolDenied(agentId, securityContext.conversationId, runId, name, args, denial.kind, denial.reason);
+          return errorResult(formatPolicyDenial(name, denial));
+        }
+
+        const approval = await awaitApproval(agentId, runId, name, args, securityContext);
+        if ("denied" in approval) {
+          return approval.denied;
+        }
+        const editedDenial = approval.args !== args ? checkToolCallPolicy(name, approval.args, securityContext) : null;
+        if (editedDenial) {
+          return errorResult(formatPolicyDenial(name, editedDenial));
+        }
+
+        // Nested calls (batch) are checked and approved the same way
+        const executionContext: ToolExecutionContext = {
+          securityContext,
+          onPolicyDenied: (toolName, toolArgs, nestedDenial) =>
+            activityRecorder.recordToolDenied(agentId, securityContext.conversationId, runId, toolName, toolArgs, nestedDenial.kind, nestedDenial.reason),
+          requestApproval: (toolName, toolArgs, reason) =>
+            requestApproval(agentId, runId, toolName, toolArgs, reason, securityContext),
+        };
+        await activityRecorder.recordToolCall(agentId, securityContext.conversationId, runId, name, approval.args);
+        const output = await agentTool.execute!(approval.args, {
+          toolCallId: randomUUID(),
+          messages: [],
+          experimental_context: executionContext,
+        });
+        return { content: [{ type: "text", text: typeof output === "string" ? output : JSON.stringify(output) }] };
+      },
+    });
+  }
+
+  if (isMcpToolAllowed(SEND_MESSAGE_TOOL, filter)) {
+    tools.push({
+      name: SEND_MESSAGE_TOOL,
+      description: `Send a message to the agent "${agentId}" and wait for its reply. Pass the returned conversationId to continue the same conversation.`,
+      inputSchema: {
+        type: "object",
+        properties: {
+          message: { type: "string", description: "Message for the agent" },
+          conversationId: { type: "string", description: "Conversation to continue (default: this client's MCP conversation)" },
+        },
+        required: ["message"],
+      },
+      call: async (args) => {
+        const message = typeof args.message === "string" ? args.message : "";
+        if (!message) {
+          return errorResult("message is required");
+        }
+
+        let conversationId = typeof args.conversationId === "string" ? args.conversationId : undefined;
+        if (conversationId) {
+          if (!runtime.getConversation?.(conversationId)) {
+            return errorResult(`Conversation "${conversationId}" not found`);
+          }
+        } else {
+          conversationId = runtime.getOrCreateConversationByKey?.(`mcp:${clientId}`, conversationType, `MCP ${clientId}`).id;
+          if (!conversationId) {
+            return errorResult(`Agent "${agentId}" cannot create conversations`);
+          }
+        }
+
+        let result: { runId: string; response: string };
+        try {
+          result = await runAndWaitForReply(runtime, {
+            conversationId,
+            message,
+            securityContext: await resolveContext(conversationId),
+          });
+        } catch (err) {
+          return errorResult(err instanceof Error ? err.message : String(err));
+        }
+        return {
+          content: [{ type: "text", text: result.response }],
+          structuredContent: { conversationId, runId: result.runId, response: result.response },
+        };
+      },
+    });
+  }
+
+  return tools;
+}
+
+/**
+ * Serves the agent over MCP's Streamable HTTP transport at POST /mcp (JSON responses, no sessions).
+ * Clients authenticate like gateway clients, with a bearer token or API key that has write scope.
+ * Returns false for requests on other paths.
+ */
+export function createMcpHttpHandler(deps: McpHttpDeps): (req: IncomingMessage, res: ServerResponse) => Promise<boolean> {
+  const { agentFactory, authManager } = deps;
+
+  return async (req, res) => {
+    const path = (req.url ?? "/").split("?")[0];
+    if (path !== MCP_PATH) {
+      return false;
+    }
+
+    const config = await loadConfig();
+    if (!config.mcp?.server?.enabled) {
+      sendJson(res, 404, { error: "MCP server is disabled (set mcp.server.enabled)" });
+      return true;
+    }
+
+    const apiKey = req.headers["x-api-key"];
+    const auth = authManager.authenticate(req.headers.authorization, typeof apiKey === "string" ? apiKey : undefined);
+    if (!auth.authenticated || !auth.scope) {
+      sendJson(res, 401, { error: auth.reason ?? "Authentication required" });
+      return true;
+    }
+    if (!hasScope(auth.scope, "write")) {
+      sendJson(res, 403, { error: "MCP access needs a token with write scope" });
+      return true;
+    }
+    const clientId = auth.clientId ?? "local";
+    if (!authManager.checkRateLimit(clientId).allowed) {
+      sendJson(res, 429, { error: "Rate limit exceeded" });
+      return true;
+    }
+
+    if (req.method !== "POST") {
+      // No server-initiated stream and no sessions to end
+      res.writeHead(405, { Allow: "POST" });
+      res.end();
+      return true;
+    }
+
+    let payload: JsonRpcMessage | JsonRpcMessage[];
+    try {
+      payload = JSON.parse(await readBody(req));
+    } catch (err) {
+      sendJson(res, 400, {
+        jsonrpc: "2.0",
+        id: null,
+        error: { code: JSON_RPC_PARSE_ERROR, message: err instanceof Error ? err.message : "Parse error" },
+      });
+      return true;
+    }
+
+    const server = new McpServer(
+      { name: "zuckerman", version: "0.1.0" },
+      () => getAgentMcpTools(agentFactory, config, clientId),
+    );
+    const messages = Array.isArray(payload) ? payload : [payload];
+    const responses = (await Promise.all(messages.map(message => server.handle(message))))
+      .filter((response): response is JsonRpcResponse => response !== null);
+
+    if (responses.length === 0) {
+      res.writeHead(202);
+      res.end();
+    } else {
+      sendJson(res, 200, Array.isArray(payload) ? responses : responses[0]);
+    }
+    return true;
+  };
+}
@@ -10,6 +10,11 @@ import { createConfigHandlers } from "./handlers/config.js";
 import { createTextToSpeechHandlers } from "./handlers/text-to-speech.js";
 import { createActivityHandlers } from "./handlers/activities.js";
 import { createMemoryHandlers } from "./handlers/memory.js";
+import { createSleepHandlers } from "./handlers/sleep.js";
+import { createPairingHandlers } from "./handlers/pairing.js";
+import { createUsageHandlers } from "./handlers/usage.js";
+import { createApprovalHandlers } from "./handlers/approvals.js";
+import { createToolHandlers } from "./handlers/tools.js";
 
 export interface CoreHandlersDeps {
   agentFactory: AgentRuntimeFactory;
@@ -21,7 +26,7 @@ export interface CoreHandlersDeps {
 export function createCoreHandlers(deps: CoreHandlersDeps): GatewayRequestHandlers {
   const { agentFactory, router, channelRegistry, broadcastEvent } = deps;
   
-  const healthHandlers = createHealthHandlers();
+  const healthHandlers = createHealthHandlers(agentFactory);
   const conversationHandlers = createConversationHandlers(agentFactory);
   const agentHandlers = createAgentHandlers(agentFactory);
   const channelHandlers = channelRegistry 
@@ -31,6 +36,11 @@ export function createCoreHandlers(deps: CoreHandlersDeps): GatewayRequestHandle
   const textToSpeechHandlers = createTextToSpeechHandlers();
   const activityHandlers = createActivityHandlers();
   const memoryHandlers = createMemoryHandlers(agentFactory);
+  const sleepHandlers = createSleepHandlers(agentFactory);
+  const pairingHandlers = createPairingHandlers(channelRegistry, broadcastEvent);
+  const usageHandlers = createUsageHandlers();
+  const approvalHandlers = createApprovalHandlers(broadcastEvent);
+  const toolHandlers = createToolHandlers(agentFactory);
 
   // Combine all handlers, filtering out undefined values
   const handlers: GatewayRequestHandlers = {};
@@ -75,5 +85,25 @@ export function createCoreHandlers(deps: CoreHandlersDeps): GatewayRequestHandle
     if (handler) handlers[key] = handler;
   }
 
+  for (const [key, handler] of Object.entries(sleepHandlers)) {
+    if (handler) handlers[key] = handler;
+  }
+
+  for (const [key, handler] of Object.entries(pairingHandlers)) {
+    if (handler) handlers[key] = handler;
+  }
+
+  for (const [key, handler] of Object.entries(usageHandlers)) {
+    if (handler) handlers[key] = handler;
+  }
+
+  for (const [key, handler] of Object.entries(approvalHandlers)) {
+    if (handler) handlers[key] = handler;
+  }
+
+  for (const [key, handler] of Object.entries(toolHandlers)) {
+    if (handler) handlers[key] = handler;
+  }
+
   return handlers;
 }
@@ -1,11 +1,17 @@
 import type { WebSocket } from "ws";
 import type { GatewayRequest, GatewayResponse } from "../protocol/schema.js";
+import type { GatewayScope } from "@server/world/execution/security/types.js";
 
 export interface GatewayWsClient {
   id: string;
   socket: WebSocket;
   connectedAt: number;
   lastActivity: number;
+  remoteAddress?: string;
+  auth?: {
+    clientId: string; // Token name/fingerprint, shared by every connection using the same token
+    scope: GatewayScope;
+  };
 }
 
 export interface GatewayRequestContext {
@@ -0,0 +1,56 @@
+import type { Channel, ChannelMessage } from "./types.js";
+import { loadConfig } from "@server/world/config/index.js";
+import { toolApprovals, parseApprovalReply } from "@server/world/execution/security/approval/index.js";
+import { isApprovalSender } from "@server/world/execution/security/policy/index.js";
+
+/**
+ * Treat a chat message as a decision on one of the conversation's pending tool approvals.
+ * Only configured approvers (security.approval.approvers) can decide; they are matched by the
+ * person who sent the message (metadata.fromId), not the chat it was sent in. Returns false when
+ * the message is not an approval reply (or nothing is pending), so it goes to the agent as usual.
+ */
+export async function handleApprovalReply(
+  channel: Channel,
+  message: ChannelMessage,
+  agentId: string,
+  conversationId: string,
+  channelId: string,
+): Promise<boolean> {
+  const reply = parseApprovalReply(message.content);
+  if (!reply) return false;
+
+  const pending = toolApprovals.list({ agentId, conversationId });
+  if (pending.length === 0) return false;
+
+  const from = message.from;
+  const senderId = typeof message.metadata?.fromId === "string" ? message.metadata.fromId : "";
+  const config = await loadConfig();
+  if (!senderId || !isApprovalSender(config.security?.approval, channelId, senderId)) {
+    await channel.send("You are not allowed to approve tool calls here.", from);
+    return true;
+  }
+
+  const request = reply.id
+    ? pending.find(approval => approval.id === reply.id)
+    : pending.length === 1 ? pending[0] : undefined;
+  if (!request) {
+    const ids = pending.map(approval => `${approval.id} (${approval.toolName})`).join(", ");
+    await channel.send(
+      reply.id
+        ? `No pending approval "${reply.id}" here. Pending: ${ids}`
+        : `Several approvals are pending: ${ids}. Reply with the id, e.g. "approve ${pending[0].id}".`,
+      from,
+    );
+    return true;
+  }
+
+  toolApprovals.resolve(request.id, {
+    decision: reply.decision,
+    toolArgs: reply.toolArgs,
+    note: reply.note,
+    resolvedBy: `${channelId}:${senderId}`,
+  });
+  const confirmations = { approve: "✅ Approved", deny: "🚫 Denied", edit: "✏️ Approved with edited arguments" };
+  await channel.send(`${confirmations[reply.decision]}: ${request.toolName} [${request.id}]`, from);
+  return true;
+}
@@ -1,6 +1,7 @@
 import { Client, GatewayIntentBits, Events, Message, TextChannel, DMChannel } from "discord.js";
 import type { Channel, ChannelMessage } from "./types.js";
 import type { DiscordConfig } from "@server/world/config/types.js";
+import { checkDmAccess, formatPairingPrompt } from "../pairing/index.js";
 
 enum ChannelState {
   IDLE = "idle",
@@ -144,15 +145,23 @@ export class DiscordChannel implements Channel {
         return;
       }
 
-      if (this.config.dm.policy === "allowlist" && this.config.dm.allowFrom) {
-        const userId = message.author.id;
-        const isAllowed = this.config.dm.allowFrom.includes("*") || 
-                         this.config.dm.allowFrom.includes(userId);
-        
-        if (!isAllowed) {
-          console.log(`[Discord] Message from ${userId} blocked (not in allowlist)`);
-          return;
+      const userId = message.author.id;
+      const allowFrom = this.config.dm.allowFrom ?? [];
+      const access = checkDmAccess({
+        channelId: this.id,
+        policy: this.config.dm.policy,
+        senderId: userId,
+        senderName: message.author.username,
+        replyTo: message.channel.id,
+        allowlisted: allowFrom.includes("*") || allowFrom.includes(userId),
+      });
+
+      if (!access.allowed) {
+        if (access.reason === "pairing_required" && access.isNew) {
+          await message.reply(formatPairingPrompt(access.code));
         }
+        console.log(`[Discord] Message from ${userId} blocked (${access.reason})`);
+        return;
       }
     }
 
@@ -13,6 +13,8 @@ import { formatMessageWithChannelSource } from "./envelope.js";
 import { loadConfig } from "@server/world/config/index.js";
 import { resolveSecurityContext } from "@server/world/execution/security/context/index.js";
 import { activityRecorder } from "@server/agents/zuckerman/activity/index.js";
+import { DeliveryService } from "../delivery/index.js";
+import { handleApprovalReply } from "./approval-reply.js";
 
 /**
  * Initialize and register all configured channels
@@ -25,10 +27,25 @@ export async function initializeChannels(
 ): Promise<ChannelRegistry> {
   const registry = new ChannelRegistry();
 
+  // Replies are produced asynchronously by the agent loop; delivery routes them back
+  const delivery = new DeliveryService(registry);
+  agentFactory.onRuntimeCreated((runtime) => delivery.attach(runtime));
+
+  // channels.defaults.dmPolicy applies to channels that don't set their own
+  const defaultDmPolicy = config.channels?.defaults?.dmPolicy;
+  const withDmPolicy = <T extends { dmPolicy?: "open" | "pairing" | "allowlist" }>(channelConfig: T): T => ({
+    ...channelConfig,
+    dmPolicy: channelConfig.dmPolicy ?? defaultDmPolicy,
+  });
+  const withDmSubPolicy = <T extends { dm?: { enabled?: boolean; policy?: "open" | "pairing" | "allowlist" } }>(channelConfig: T): T =>
+    defaultDmPolicy
+      ? { ...channelConfig, dm: { enabled: true, ...channelConfig.dm, policy: channelConfig.dm?.policy ?? defaultDmPolicy } }
+      : channelConfig;
+
   // Initialize WhatsApp if enabled
   if (config.channels?.whatsapp?.enabled) {
     const whatsappChannel = new WhatsAppChannel(
-      config.channels.whatsapp,
+      withDmPolicy(config.channels.whatsapp),
       (status) => {
         // Broadcast status to all connected gateway clients
         if (broadcastEvent) {
@@ -49,6 +66,11 @@ export async function initializeChannels(
           accountId: "default",
         });
 
+        // Replies to a pending tool approval decide it instead of reaching the agent
+        if (await handleApprovalReply(whatsappChannel, message, route.agentId, route.conversationId, "whatsapp")) {
+          return;
+        }
+
         // Get agent runtime
         const runtime = await agentFactory.getRuntime(route.agentId);
         if (!runtime) {
@@ -85,20 +107,21 @@ export async function initializeChannels(
           route.homedir,
         );
 
-        const result = await runtime.run({
+        delivery.attach(runtime);
+        await runtime.run({
           conversationId: route.conversationId,
           message: formattedMessage,
+          securityContext,
           channelMetadata: {
             channel: "whatsapp",
             to: message.from,
             accountId: "default",
+            threadId: message.metadata?.threadId as string | number | undefined,
           },
         });
 
-        // Note: Runtime now handles persisting assistant response and all messages
-
-        // Send reply back through channel
-        await whatsappChannel.send(result.response, message.from);
+        // Note: Runtime handles persisting messages; the reply is sent by the delivery service
+        // once the agent writes it
       } catch (error) {
         console.error("[Channels] Error processing message:", error);
       }
@@ -151,6 +174,11 @@ export async function initializeChannels(
           accountId: "default",
         });
 
+        // Replies to a pending tool approval decide it instead of reaching the agent
+        if (await handleApprovalReply(channel, message, route.agentId, route.conversationId, channelId)) {
+          return;
+        }
+
         // Get agent runtime
         const runtime = await agentFactory.getRuntime(route.agentId);
         if (!runtime) {
@@ -196,29 +224,21 @@ export async function initializeChannels(
           route.homedir,
         );
 
-        const result = await runtime.run({
+        delivery.attach(runtime);
+        await runtime.run({
           conversationId: route.conversationId,
           message: formattedMessage,
+          securityContext,
           channelMetadata: {
             channel: channelId,
             to: message.from,
             accountId: "default",
+            threadId: message.metadata?.threadId as string | number | undefined,
           },
         });
 
-        // Note: Runtime now handles persisting assistant response and all messages
-
-        // Send reply back through channel
-        await channel.send(result.response, message.from);
-        
-        // Record outgoing channel message
-        await activityRecorder.recordChannelMessageOutgoing(
-          route.agentId,
-          route.conversationId,
-          channelId,
-          message.from,
-          result.response,
-        );
+        // Note: Runtime handles persisting messages; the reply is sent (and recorded as
+        // channel.message.outgoing) by the delivery service once the agent writes it
       } catch (error) {
         console.error("[Channels] Error processing message:", error);
       }
@@ -228,7 +248,7 @@ export async function initializeChannels(
   // Initialize Telegram if enabled
   if (config.channels?.telegram?.enabled) {
     const telegramChannel = new TelegramChannel(
-      config.channels.telegram,
+      withDmPolicy(config.channels.telegram),
       (status) => {
         // Broadcast status to all connected gateway clients
         if (broadcastEvent) {
@@ -255,7 +275,7 @@ export async function initializeChannels(
   // Initialize Discord if enabled
   if (config.channels?.discord?.enabled) {
     const discordChannel = new DiscordChannel(
-      config.channels.discord,
+      withDmSubPolicy(config.channels.discord),
       (status) => {
         // Broadcast status to all connected gateway clients
         if (broadcastEvent) {
@@ -280,7 +300,7 @@ export async function initializeChannels(
   // Initialize Signal if enabled
   if (config.channels?.signal?.enabled) {
     const signalChannel = new SignalChannel(
-      config.channels.signal,
+      withDmPolicy(config.channels.signal),
       (status) => {
         // Broadcast status to all connected gateway clients
         if (broadcastEvent) {
@@ -304,7 +324,7 @@ export async function initializeChannels(
 
   // Initialize Slack if enabled
   if (config.channels?.slack?.enabled) {
-    const slackChannel = new SlackChannel(config.channels.slack);
+    const slackChannel = new SlackChannel(withDmSubPolicy(config.channels.slack));
     await setupChannelRouting(slackChannel, "slack", "slack");
     
     registry.register(slackChannel, {
@@ -3,5 +3,6 @@ export * from "./registry.js";
 export * from "./whatsapp.js";
 export * from "./telegram.js";
 export * from "./discord.js";
+export * from "./signal.js";
 export * from "./slack.js";
 export * from "./factory.js";
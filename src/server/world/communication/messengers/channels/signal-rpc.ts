@@ -0,0 +1,186 @@
+import { createConnection, type Socket } from "node:net";
+
+export interface SignalRpcEndpoint {
+  socketPath?: string;
+  host?: string;
+  port?: number;
+}
+
+export interface SignalRpcError {
+  code: number;
+  message: string;
+  data?: unknown;
+}
+
+interface PendingRequest {
+  resolve: (result: unknown) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+}
+
+const DEFAULT_REQUEST_TIMEOUT_MS = 30000;
+
+/**
+ * Minimal JSON-RPC 2.0 client for a signal-cli daemon (`signal-cli daemon --socket` or `--tcp`).
+ * Messages are newline-delimited JSON objects in both directions; notifications
+ * (such as incoming "receive" envelopes) are dispatched to the notification handler.
+ */
+export class SignalRpcClient {
+  private socket: Socket | null = null;
+  private buffer = "";
+  private nextId = 1;
+  private pending = new Map<string, PendingRequest>();
+  private notificationHandler?: (method: string, params: unknown) => void;
+  private closeHandler?: (error?: Error) => void;
+
+  constructor(
+    private readonly endpoint: SignalRpcEndpoint,
+    private readonly requestTimeoutMs: number = DEFAULT_REQUEST_TIMEOUT_MS,
+  ) {}
+
+  onNotification(handler: (method: string, params: unknown) => void): void {
+    this.notificationHandler = handler;
+  }
+
+  onClose(handler: (error?: Error) => void): void {
+    this.closeHandler = handler;
+  }
+
+  isConnected(): boolean {
+    return this.socket !== null && !this.socket.destroyed;
+  }
+
+  async connect(): Promise<void> {
+    if (this.isConnected()) {
+      return;
+    }
+
+    await new Promise<void>((resolve, reject) => {
+      const socket = this.endpoint.socketPath
+        ? createConnection({ path: this.endpoint.socketPath })
+        : createConnection({ host: this.endpoint.host ?? "127.0.0.1", port: this.endpoint.port ?? 7583 });
+
+      const onConnectError = (error: Error) => {
+        socket.destroy();
+        reject(error);
+      };
+
+      socket.once("error", onConnectError);
+      socket.once("connect", () => {
+        socket.off("error", onConnectError);
+        socket.setEncoding("utf8");
+        socket.on("data", (chunk: string) => this.handleData(chunk));
+        socket.on("error", (error) => this.handleClose(error));
+        socket.on("close", () => this.handleClose());
+        this.socket = socket;
+        resolve();
+      });
+    });
+  }
+
+  close(): void {
+    const socket = this.socket;
+    this.socket = null;
+    socket?.destroy();
+    this.rejectPending(new Error("Signal RPC connection closed"));
+  }
+
+  /**
+   * Call a signal-cli JSON-RPC method and wait for its result
+   */
+  async request<T = unknown>(
+    method: string,
+    params?: Record<string, unknown>,
+    timeoutMs: number = this.requestTimeoutMs,
+  ): Promise<T> {
+    if (!this.socket || this.socket.destroyed) {
+      throw new Error("Signal RPC is not connected");
+    }
+
+    const id = String(this.nextId++);
+    const payload = JSON.stringify({ jsonrpc: "2.0", id, method, ...(params && { params }) });
+
+    return new Promise<T>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(id);
+        reject(new Error(`Signal RPC request "${method}" timed out`));
+      }, timeoutMs);
+
+      this.pending.set(id, { resolve: resolve as (result: unknown) => void, reject, timer });
+      this.socket!.write(`${payload}\n`);
+    });
+  }
+
+  private handleData(chunk: string): void {
+    this.buffer += chunk;
+    let newline = this.buffer.indexOf("\n");
+    while (newline !== -1) {
+      const line = this.buffer.slice(0, newline).trim();
+      this.buffer = this.buffer.slice(newline + 1);
+      if (line) {
+        this.handleLine(line);
+      }
+      newline = this.buffer.indexOf("\n");
+    }
+  }
+
+  private handleLine(line: string): void {
+    let message: {
+      id?: string | number | null;
+      method?: string;
+      params?: unknown;
+      result?: unknown;
+      error?: SignalRpcError;
+    };
+    try {
+      message = JSON.parse(line);
+    } catch {
+      console.warn("[Signal] Ignoring malformed JSON-RPC line");
+      return;
+    }
+
+    if (message.method) {
+      try {
+        this.notificationHandler?.(message.method, message.params);
+      } catch (error) {
+        console.error("[Signal] Error in notification handler:", error);
+      }
+      return;
+    }
+
+    if (message.id === undefined || message.id === null) {
+      return;
+    }
+
+    const pending = this.pending.get(String(message.id));
+    if (!pending) {
+      return;
+    }
+    this.pending.delete(String(message.id));
+    clearTimeout(pending.timer);
+
+    if (message.error) {
+      pending.reject(new Error(`Signal RPC error ${message.error.code}: ${message.error.message}`));
+    } else {
+      pending.resolve(message.result);
+    }
+  }
+
+  private handleClose(error?: Error): void {
+    if (!this.socket) {
+      return;
+    }
+    this.socket = null;
+    this.buffer = "";
+    this.rejectPending(error ?? new Error("Signal RPC connection closed"));
+    this.closeHandler?.(error);
+  }
+
+  private rejectPending(error: Error): void {
+    for (const pending of this.pending.values()) {
+      clearTimeout(pending.timer);
+      pending.reject(error);
+    }
+    this.pending.clear();
+  }
+}
@@ -1,5 +1,10 @@
+import { existsSync } from "node:fs";
+import { join } from "node:path";
+import { homedir } from "node:os";
 import type { Channel, ChannelMessage } from "./types.js";
 import type { SignalConfig } from "@server/world/config/types.js";
+import { SignalRpcClient } from "./signal-rpc.js";
+import { checkDmAccess, formatPairingPrompt } from "../pairing/index.js";
 
 enum ChannelState {
   IDLE = "idle",
@@ -8,26 +13,57 @@ enum ChannelState {
   STOPPING = "stopping",
 }
 
+const GROUP_PREFIX = "group:";
+const RECONNECT_BASE_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 30000;
+const LINK_TIMEOUT_MS = 5 * 60 * 1000;
+
+interface SignalAttachment {
+  id?: string;
+  contentType?: string;
+  filename?: string;
+  size?: number;
+}
+
+interface SignalEnvelope {
+  source?: string;
+  sourceNumber?: string | null;
+  sourceUuid?: string;
+  sourceName?: string;
+  timestamp?: number;
+  dataMessage?: {
+    timestamp?: number;
+    message?: string | null;
+    attachments?: SignalAttachment[];
+    mentions?: Array<{ number?: string | null; uuid?: string }>;
+    groupInfo?: { groupId: string; type?: string };
+  };
+}
+
+type SignalStatus = {
+  status: "connected" | "connecting" | "disconnected" | "waiting_for_scan";
+  qr?: string | null;
+};
+
 /**
  * Signal Channel Implementation
- * 
- * Note: Signal integration typically requires signal-cli or similar tools.
- * This is a basic implementation that can be extended with actual Signal protocol support.
- * For production use, you would need to integrate with signal-cli or use Signal's official APIs.
+ *
+ * Talks to a signal-cli daemon over JSON-RPC (`signal-cli daemon --socket <path>` or
+ * `--tcp <host:port>`). Group conversations are addressed as "group:<groupId>",
+ * direct messages by phone number or UUID.
  */
 export class SignalChannel implements Channel {
   id: string = "signal";
   type = "signal" as const;
   private config: SignalConfig;
+  private rpc: SignalRpcClient | null = null;
   private messageHandlers: Array<(message: ChannelMessage) => void> = [];
   private state: ChannelState = ChannelState.IDLE;
-  private statusCallback?: (status: {
-    status: "connected" | "connecting" | "disconnected";
-  }) => void;
+  private reconnectTimeout: NodeJS.Timeout | null = null;
+  private reconnectAttempts = 0;
+  private statusCallback?: (status: SignalStatus) => void;
 
-  constructor(config: SignalConfig, statusCallback?: (status: {
-    status: "connected" | "connecting" | "disconnected";
-  }) => void) {
+  constructor(config: SignalConfig, statusCallback?: (status: SignalStatus) => void) {
     this.config = config;
     this.statusCallback = statusCallback;
   }
@@ -51,13 +87,18 @@ export class SignalChannel implements Channel {
     this.state = ChannelState.CONNECTING;
     this.notifyStatus("connecting");
 
-    // Signal integration requires signal-cli or similar
-    // This is a placeholder implementation
-    console.log("[Signal] Signal channel requires signal-cli setup. Please configure signal-cli separately.");
-    
-    // For now, mark as connected if enabled (actual implementation would connect to signal-cli)
-    this.state = ChannelState.CONNECTED;
-    this.notifyStatus("connected");
+    try {
+      await this.connect();
+      this.state = ChannelState.CONNECTED;
+      this.reconnectAttempts = 0;
+      console.log("[Signal] Connected to signal-cli daemon");
+      this.notifyStatus("connected");
+    } catch (error) {
+      // The daemon may come up after the gateway; keep retrying instead of giving up on Signal
+      console.warn("[Signal] Failed to connect to signal-cli daemon, retrying:", error instanceof Error ? error.message : error);
+      this.rpc = null;
+      this.scheduleReconnect();
+    }
   }
 
   async stop(): Promise<void> {
@@ -66,18 +107,119 @@ export class SignalChannel implements Channel {
     }
 
     this.state = ChannelState.STOPPING;
+
+    if (this.reconnectTimeout) {
+      clearTimeout(this.reconnectTimeout);
+      this.reconnectTimeout = null;
+    }
+
+    this.rpc?.close();
+    this.rpc = null;
+
     this.state = ChannelState.IDLE;
     this.notifyStatus("disconnected");
   }
 
   async send(message: string, to: string): Promise<void> {
-    if (this.state !== ChannelState.CONNECTED) {
+    if (this.state !== ChannelState.CONNECTED || !this.rpc) {
       throw new Error("Signal channel is not connected");
     }
 
-    // Placeholder - actual implementation would use signal-cli
-    console.log(`[Signal] Would send message to ${to}: ${message}`);
-    throw new Error("Signal integration requires signal-cli setup. Please configure signal-cli to enable message sending.");
+    // MEDIA:<path> lines are sent as attachments, the rest as the message body
+    const attachments: string[] = [];
+    const textLines: string[] = [];
+    for (const line of message.split("\n")) {
+      if (line.startsWith("MEDIA:")) {
+        const mediaPath = this.resolveLocalPath(line.substring(6).trim());
+        if (mediaPath && existsSync(mediaPath)) {
+          attachments.push(mediaPath);
+        } else {
+          console.warn(`[Signal] Media file not found: ${mediaPath}`);
+        }
+        continue;
+      }
+      textLines.push(line);
+    }
+
+    const text = textLines.join("\n").trim();
+    if (!text && attachments.length === 0) {
+      return;
+    }
+
+    try {
+      await this.rpc.request("send", {
+        ...this.accountParams(),
+        ...this.recipientParams(to),
+        message: text,
+        ...(attachments.length > 0 && { attachments }),
+      });
+    } catch (error) {
+      console.error(`[Signal] Failed to send message to ${to}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Show (or clear) the typing indicator in a conversation
+   */
+  async sendTyping(to: string, typing: boolean = true): Promise<void> {
+    if (this.state !== ChannelState.CONNECTED || !this.rpc) {
+      return;
+    }
+
+    try {
+      await this.rpc.request("sendTyping", {
+        ...this.accountParams(),
+        ...this.recipientParams(to),
+        ...(!typing && { stop: true }),
+      });
+    } catch (error) {
+      console.warn(`[Signal] Failed to send typing indicator to ${to}:`, error);
+    }
+  }
+
+  /**
+   * Link signal-cli as a secondary device of an existing Signal account.
+   * The device link URI is reported as a QR code through the status callback;
+   * resolves with the linked account number once the code is scanned.
+   */
+  async link(deviceName: string = this.config.deviceName ?? "Zuckerman"): Promise<{ account?: string }> {
+    const result = await this.withRpc(async (rpc) => {
+      const { deviceLinkUri } = await rpc.request<{ deviceLinkUri: string }>("startLink");
+      this.notifyStatus("waiting_for_scan", deviceLinkUri);
+
+      return rpc.request<{ number?: string } | undefined>(
+        "finishLink",
+        { deviceLinkUri, deviceName },
+        LINK_TIMEOUT_MS,
+      );
+    });
+
+    const account = result?.number;
+    if (account) {
+      this.config.account = account;
+    }
+    this.notifyStatus(this.isConnected() ? "connected" : "disconnected", null);
+    return { account };
+  }
+
+  /**
+   * Register a phone number as a new primary Signal account (sends an SMS or voice code)
+   */
+  async register(account: string, options: { voice?: boolean; captcha?: string } = {}): Promise<void> {
+    await this.withRpc((rpc) => rpc.request("register", {
+      account,
+      ...(options.voice && { voice: true }),
+      ...(options.captcha && { captcha: options.captcha }),
+    }));
+  }
+
+  /**
+   * Complete registration with the verification code received by SMS or voice
+   */
+  async verify(account: string, verificationCode: string, pin?: string): Promise<void> {
+    await this.withRpc((rpc) => rpc.request("verify", { account, verificationCode, ...(pin && { pin }) }));
+    this.config.account = account;
   }
 
   onMessage(handler: (message: ChannelMessage) => void): void {
@@ -85,12 +227,228 @@ export class SignalChannel implements Channel {
   }
 
   isConnected(): boolean {
-    return this.state === ChannelState.CONNECTED;
+    return this.state === ChannelState.CONNECTED && this.rpc !== null;
+  }
+
+  private async connect(): Promise<void> {
+    const rpc = new SignalRpcClient({
+      socketPath: this.config.socketPath,
+      host: this.config.host,
+      port: this.config.port,
+    });
+    rpc.onNotification((method, params) => {
+      if (method === "receive") {
+        this.handleReceive(params as { envelope?: SignalEnvelope; account?: string });
+      }
+    });
+    rpc.onClose((error) => this.handleConnectionLost(error));
+    await rpc.connect();
+    this.rpc = rpc;
+  }
+
+  /**
+   * Run against the channel's connection, or a temporary one when the channel
+   * isn't started (linking and registration happen before there is an account)
+   */
+  private async withRpc<T>(fn: (rpc: SignalRpcClient) => Promise<T>): Promise<T> {
+    if (this.isConnected()) {
+      return fn(this.rpc!);
+    }
+
+    const rpc = new SignalRpcClient({
+      socketPath: this.config.socketPath,
+      host: this.config.host,
+      port: this.config.port,
+    });
+    await rpc.connect();
+    try {
+      return await fn(rpc);
+    } finally {
+      rpc.close();
+    }
+  }
+
+  private handleConnectionLost(error?: Error): void {
+    this.rpc = null;
+    if (this.state !== ChannelState.CONNECTED && this.state !== ChannelState.CONNECTING) {
+      return;
+    }
+
+    console.warn("[Signal] Lost connection to signal-cli daemon", error?.message ?? "");
+    this.state = ChannelState.CONNECTING;
+    this.notifyStatus("connecting");
+    this.scheduleReconnect();
+  }
+
+  private scheduleReconnect(): void {
+    if (this.reconnectTimeout) {
+      return;
+    }
+
+    const delay = Math.min(RECONNECT_BASE_DELAY_MS * 2 ** this.reconnectAttempts, RECONNECT_MAX_DELAY_MS);
+    this.reconnectAttempts++;
+    this.reconnectTimeout = setTimeout(async () => {
+      this.reconnectTimeout = null;
+      if (this.state !== ChannelState.CONNECTING) {
+        return;
+      }
+      try {
+        await this.connect();
+        this.state = ChannelState.CONNECTED;
+        this.reconnectAttempts = 0;
+        console.log("[Signal] Reconnected to signal-cli daemon");
+        this.notifyStatus("connected");
+      } catch {
+        this.scheduleReconnect();
+      }
+    }, delay);
+  }
+
+  private handleReceive(params: { envelope?: SignalEnvelope; account?: string }): void {
+    const envelope = params?.envelope;
+    const data = envelope?.dataMessage;
+    if (!envelope || !data) {
+      // Receipts, typing and sync messages are not conversation input
+      return;
+    }
+
+    // In multi-account daemons, only handle messages for our account
+    if (this.config.account && params.account && params.account !== this.config.account) {
+      return;
+    }
+
+    const fromId = envelope.sourceNumber || envelope.sourceUuid || envelope.source || "";
+    if (!fromId) {
+      return;
+    }
+
+    const groupId = data.groupInfo?.groupId;
+    const isGroup = !!groupId;
+    const chatId = isGroup ? `${GROUP_PREFIX}${groupId}` : fromId;
+
+    // Check DM policy (allowlist or pairing)
+    if (!isGroup) {
+      const allowFrom = this.config.allowFrom ?? [];
+      const access = checkDmAccess({
+        channelId: this.id,
+        policy: this.config.dmPolicy,
+        senderId: fromId,
+        senderName: envelope.sourceName,
+        replyTo: chatId,
+        allowlisted: allowFrom.includes("*") ||
+                     allowFrom.includes(fromId) ||
+                     (!!envelope.sourceUuid && allowFrom.includes(envelope.sourceUuid)),
+      });
+
+      if (!access.allowed) {
+        if (access.reason === "pairing_required" && access.isNew) {
+          void this.send(formatPairingPrompt(access.code), chatId).catch(() => {});
+        }
+        console.log(`[Signal] Message from ${fromId} blocked (${access.reason})`);
+        return;
+      }
+    }
+
+    // Check group policy
+    if (isGroup && this.config.groupPolicy === "allowlist") {
+      const groupConfig = this.config.groups?.[groupId];
+      if (!groupConfig && !this.config.groups?.["*"]) {
+        console.log(`[Signal] Message from group ${groupId} blocked (not in allowlist)`);
+        return;
+      }
+    }
+
+    // Check mention requirement for groups
+    if (isGroup) {
+      const groupConfig = this.config.groups?.[groupId] || this.config.groups?.["*"];
+      if (groupConfig?.requireMention) {
+        const account = this.config.account;
+        const mentioned = !!account && (data.mentions ?? []).some((mention) => mention.number === account);
+        if (!mentioned) {
+          return;
+        }
+      }
+    }
+
+    const attachments = (data.attachments ?? []).map((attachment) => ({
+      id: attachment.id,
+      contentType: attachment.contentType,
+      filename: attachment.filename,
+      size: attachment.size,
+      path: attachment.id ? join(this.getAttachmentsDir(), attachment.id) : undefined,
+    }));
+
+    const text = data.message?.trim() ?? "";
+    const attachmentSummary = attachments
+      .map((attachment) => `[Attachment: ${attachment.filename || attachment.contentType || "file"}${attachment.path ? ` at ${attachment.path}` : ""}]`)
+      .join("\n");
+    const content = [text, attachmentSummary].filter(Boolean).join("\n");
+    if (!content) {
+      return;
+    }
+
+    const timestamp = data.timestamp ?? envelope.timestamp ?? Date.now();
+    const channelMessage: ChannelMessage = {
+      id: `${fromId}:${timestamp}`,
+      channelId: this.id,
+      from: chatId,
+      content,
+      timestamp,
+      metadata: {
+        peerId: chatId,
+        peerKind: isGroup ? "group" : "dm",
+        isGroup,
+        fromId,
+        fromUuid: envelope.sourceUuid,
+        senderName: envelope.sourceName,
+        groupId,
+        ...(attachments.length > 0 && { attachments }),
+      },
+    };
+
+    // Let the sender know a reply is on its way
+    void this.sendTyping(chatId, true);
+
+    // Notify all handlers
+    for (const handler of this.messageHandlers) {
+      try {
+        handler(channelMessage);
+      } catch (error) {
+        console.error("[Signal] Error in message handler:", error);
+      }
+    }
+  }
+
+  private recipientParams(to: string): Record<string, unknown> {
+    if (to.startsWith(GROUP_PREFIX)) {
+      return { groupId: to.substring(GROUP_PREFIX.length) };
+    }
+    return { recipient: [to] };
+  }
+
+  private accountParams(): Record<string, unknown> {
+    return this.config.account ? { account: this.config.account } : {};
+  }
+
+  private getAttachmentsDir(): string {
+    return this.config.attachmentsDir
+      ? this.resolveLocalPath(this.config.attachmentsDir)
+      : join(homedir(), ".local", "share", "signal-cli", "attachments");
+  }
+
+  private resolveLocalPath(path: string): string {
+    if (path.startsWith("~")) {
+      return path.replace("~", homedir());
+    }
+    if (!path.startsWith("/")) {
+      return join(homedir(), path);
+    }
+    return path;
   }
 
-  private notifyStatus(status: "connected" | "connecting" | "disconnected"): void {
+  private notifyStatus(status: SignalStatus["status"], qr?: string | null): void {
     if (this.statusCallback) {
-      this.statusCallback({ status });
+      this.statusCallback({ status, ...(qr !== undefined && { qr }) });
     }
   }
 }
@@ -1,6 +1,7 @@
 import { App, LogLevel } from "@slack/bolt";
-import type { Channel, ChannelMessage } from "./types.js";
+import type { Channel, ChannelMessage, ChannelSendOptions } from "./types.js";
 import type { SlackConfig } from "@server/world/config/types.js";
+import { checkDmAccess, formatPairingPrompt } from "../pairing/index.js";
 
 export class SlackChannel implements Channel {
   id: string = "slack";
@@ -60,7 +61,7 @@ export class SlackChannel implements Channel {
     this.isRunning = false;
   }
 
-  async send(message: string, to: string): Promise<void> {
+  async send(message: string, to: string, options?: ChannelSendOptions): Promise<void> {
     if (!this.app || !this.isRunning) {
       throw new Error("Slack channel is not connected");
     }
@@ -69,6 +70,7 @@ export class SlackChannel implements Channel {
       await this.app.client.chat.postMessage({
         channel: to,
         text: message,
+        ...(options?.threadId !== undefined && { thread_ts: String(options.threadId) }),
       });
     } catch (error) {
       console.error(`[Slack] Failed to send message to ${to}:`, error);
@@ -105,14 +107,22 @@ export class SlackChannel implements Channel {
         return;
       }
 
-      if (this.config.dm.allowFrom) {
-        const isAllowed = this.config.dm.allowFrom.includes("*") || 
-                         this.config.dm.allowFrom.includes(userId);
-        
-        if (!isAllowed) {
-          console.log(`[Slack] Message from ${userId} blocked (not in allowlist)`);
-          return;
+      // Without an explicit policy, a configured allowFrom acts as an allowlist
+      const allowFrom = this.config.dm.allowFrom ?? [];
+      const access = checkDmAccess({
+        channelId: this.id,
+        policy: this.config.dm.policy ?? (this.config.dm.allowFrom ? "allowlist" : "open"),
+        senderId: userId,
+        replyTo: channelId,
+        allowlisted: allowFrom.includes("*") || allowFrom.includes(userId),
+      });
+
+      if (!access.allowed) {
+        if (access.reason === "pairing_required" && access.isNew) {
+          await client.chat.postMessage({ channel: channelId, text: formatPairingPrompt(access.code) });
         }
+        console.log(`[Slack] Message from ${userId} blocked (${access.reason})`);
+        return;
       }
     }
 
@@ -164,6 +174,7 @@ export class SlackChannel implements Channel {
         fromId: userId,
         channelName,
         channelType,
+        threadId: message.thread_ts,
       },
     };
 
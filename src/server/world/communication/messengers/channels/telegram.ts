@@ -1,6 +1,7 @@
 import { Bot, Context, InputFile } from "grammy";
-import type { Channel, ChannelMessage } from "./types.js";
+import type { Channel, ChannelMessage, ChannelSendOptions } from "./types.js";
 import type { TelegramConfig } from "@server/world/config/types.js";
+import { checkDmAccess, formatPairingPrompt } from "../pairing/index.js";
 import { readFileSync, existsSync } from "node:fs";
 import { join, dirname } from "node:path";
 import { homedir } from "node:os";
@@ -127,11 +128,14 @@ export class TelegramChannel implements Channel {
     this.notifyStatus("disconnected");
   }
 
-  async send(message: string, to: string): Promise<void> {
+  async send(message: string, to: string, options?: ChannelSendOptions): Promise<void> {
     if (this.state !== ChannelState.CONNECTED || !this.bot) {
       throw new Error("Telegram channel is not connected");
     }
 
+    // Replies in a forum topic go back to that topic
+    const thread = options?.threadId !== undefined ? { message_thread_id: Number(options.threadId) } : {};
+
     try {
       // Parse MEDIA: paths and markdown image links from the message
       const mediaPaths: string[] = [];
@@ -210,20 +214,22 @@ export class TelegramChannel implements Channel {
             // Send as photo
             const file = new InputFile(resolvedPath);
             await this.bot.api.sendPhoto(Number(to), file, {
+              ...thread,
               caption: mediaPaths.length === 1 && textContent ? textContent : undefined,
             });
           } else if (isAudio && hasAudioAsVoice && ext === "opus") {
             // Send as voice message (for opus files with audio_as_voice tag)
             const file = new InputFile(resolvedPath);
-            await this.bot.api.sendVoice(Number(to), file);
+            await this.bot.api.sendVoice(Number(to), file, thread);
           } else if (isAudio) {
             // Send as audio file
             const file = new InputFile(resolvedPath);
-            await this.bot.api.sendAudio(Number(to), file);
+            await this.bot.api.sendAudio(Number(to), file, thread);
           } else {
             // Send as document
             const file = new InputFile(resolvedPath);
             await this.bot.api.sendDocument(Number(to), file, {
+              ...thread,
               caption: mediaPaths.length === 1 && textContent ? textContent : undefined,
             });
           }
@@ -235,7 +241,7 @@ export class TelegramChannel implements Channel {
 
       // Send text message if there's text content and no media, or if there are multiple media files
       if (textContent && (mediaPaths.length === 0 || mediaPaths.length > 1)) {
-        await this.bot.api.sendMessage(Number(to), textContent);
+        await this.bot.api.sendMessage(Number(to), textContent, thread);
       }
     } catch (error) {
       console.error(`[Telegram] Failed to send message to ${to}:`, error);
@@ -286,13 +292,23 @@ export class TelegramChannel implements Channel {
     const chatId = chat.id.toString();
     const isGroup = chat.type === "group" || chat.type === "supergroup";
 
-    // Check allowlist for DMs
-    if (!isGroup && this.config.dmPolicy === "allowlist" && this.config.allowFrom) {
-      const isAllowed = this.config.allowFrom.includes("*") || 
-                       this.config.allowFrom.includes(fromId);
-      
-      if (!isAllowed) {
-        console.log(`[Telegram] Message from ${fromId} blocked (not in allowlist)`);
+    // Check DM policy (allowlist or pairing)
+    if (!isGroup) {
+      const allowFrom = this.config.allowFrom ?? [];
+      const access = checkDmAccess({
+        channelId: this.id,
+        policy: this.config.dmPolicy,
+        senderId: fromId,
+        senderName: message.from?.username,
+        replyTo: chatId,
+        allowlisted: allowFrom.includes("*") || allowFrom.includes(fromId),
+      });
+
+      if (!access.allowed) {
+        if (access.reason === "pairing_required" && access.isNew) {
+          await this.bot!.api.sendMessage(Number(chatId), formatPairingPrompt(access.code));
+        }
+        console.log(`[Telegram] Message from ${fromId} blocked (${access.reason})`);
         return;
       }
     }
@@ -339,6 +355,7 @@ export class TelegramChannel implements Channel {
         fromId,
         fromUsername: message.from?.username,
         chatTitle: isGroup ? chat.title : undefined,
+        threadId: message.is_topic_message ? message.message_thread_id : undefined,
       },
     };
 
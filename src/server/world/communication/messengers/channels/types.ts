@@ -17,10 +17,17 @@ export interface ChannelMessage {
   metadata?: Record<string, unknown>;
 }
 
+export interface ChannelSendOptions {
+  /**
+   * Thread or topic to reply in, on channels that have them (Telegram topics, Slack threads)
+   */
+  threadId?: string | number;
+}
+
 export interface Channel {
   id: ChannelId;
   type: ChannelType;
-  send(message: string, to: string): Promise<void>;
+  send(message: string, to: string, options?: ChannelSendOptions): Promise<void>;
   onMessage(handler: (message: ChannelMessage) => void): void;
   start(): Promise<void>;
   stop(): Promise<void>;
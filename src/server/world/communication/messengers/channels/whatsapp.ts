@@ -12,6 +12,7 @@ import type { Channel, ChannelMessage } from "./types.js";
 import type { WhatsAppConfig } from "@server/world/config/types.js";
 import { existsSync, mkdirSync, rmSync } from "node:fs";
 import { getWhatsAppAuthDir } from "@server/world/homedir/paths.js";
+import { checkDmAccess, formatPairingPrompt } from "../pairing/index.js";
 import pino from "pino";
 import qrcodeTerminal from "qrcode-terminal";
 
@@ -606,18 +607,38 @@ export class WhatsAppChannel implements Channel {
       return;
     }
 
-    // Check allowlist if configured
-    if (this.config.dmPolicy === "allowlist" && this.config.allowFrom) {
-      const senderId = this.extractPhoneNumber(from);
-      const isAllowed = this.config.allowFrom.includes("*") || 
-                       this.config.allowFrom.some(allowed => 
-                         senderId.includes(allowed.replace(/[^0-9]/g, ""))
-                       );
-      
-      if (!isAllowed) {
+    const isGroup = from.includes("@g.us");
+    const senderId = this.extractPhoneNumber(from);
+    const allowFrom = this.config.allowFrom ?? [];
+    const isAllowed = allowFrom.includes("*") || 
+                     allowFrom.some(allowed => 
+                       senderId.includes(allowed.replace(/[^0-9]/g, ""))
+                     );
+
+    if (isGroup) {
+      // Check allowlist if configured
+      if (this.config.dmPolicy === "allowlist" && this.config.allowFrom && !isAllowed) {
         console.log(`[WhatsApp] Message from ${from} blocked (not in allowlist)`);
         return;
       }
+    } else {
+      // Check DM policy (allowlist or pairing)
+      const access = checkDmAccess({
+        channelId: this.id,
+        policy: this.config.dmPolicy,
+        senderId,
+        senderName: message.pushName,
+        replyTo: from,
+        allowlisted: isAllowed,
+      });
+
+      if (!access.allowed) {
+        if (access.reason === "pairing_required" && access.isNew && this.socket) {
+          await this.socket.sendMessage(from, { text: formatPairingPrompt(access.code) });
+        }
+        console.log(`[WhatsApp] Message from ${from} blocked (${access.reason})`);
+        return;
+      }
     }
 
     const channelMessage: ChannelMessage = {
@@ -628,9 +649,10 @@ export class WhatsAppChannel implements Channel {
       timestamp: message.messageTimestamp ? message.messageTimestamp * 1000 : Date.now(),
       metadata: {
         peerId: from,
-        peerKind: from.includes("@g.us") ? "group" : "dm",
+        peerKind: isGroup ? "group" : "dm",
         messageId: message.key.id,
-        isGroup: from.includes("@g.us"),
+        isGroup,
+        fromId: isGroup ? message.key.participant : from,
       },
     };
 
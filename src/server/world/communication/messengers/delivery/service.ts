@@ -0,0 +1,142 @@
+import type { ChannelRegistry } from "../channels/registry.js";
+import type { AgentRuntime, DeliveryContext } from "@server/world/runtime/agents/types.js";
+import type { StreamToolApprovalEvent, WriteEvent } from "@server/agents/zuckerman/core/self/events.js";
+import { activityRecorder } from "@server/agents/zuckerman/activity/index.js";
+import type { DeliveryOptions, DeliveryResult } from "./types.js";
+
+const DEFAULT_MAX_ATTEMPTS = 3;
+const DEFAULT_RETRY_DELAY_MS = 1000;
+
+/**
+ * Routes assistant replies back to the channel a conversation came from.
+ *
+ * Agent runs return before the reply exists (Self answers from its own loop),
+ * so delivery listens for the assistant "write" event and uses the delivery
+ * context the runtime remembered when the channel message arrived. Tool calls
+ * waiting for approval are announced in the same chat, where the user can
+ * answer them.
+ */
+export class DeliveryService {
+  private attached = new WeakSet<AgentRuntime>();
+  private readonly maxAttempts: number;
+  private readonly retryDelayMs: number;
+
+  constructor(
+    private readonly channelRegistry: ChannelRegistry,
+    options: DeliveryOptions = {},
+  ) {
+    this.maxAttempts = Math.max(1, options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS);
+    this.retryDelayMs = options.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS;
+  }
+
+  /**
+   * Start delivering replies produced by a runtime (idempotent per runtime instance)
+   */
+  attach(runtime: AgentRuntime): void {
+    if (this.attached.has(runtime) || !runtime.on) {
+      return;
+    }
+    this.attached.add(runtime);
+
+    runtime.on<WriteEvent>("write", (event) => {
+      if (event.role !== "assistant" || !event.content.trim() || !event.conversationId) {
+        return;
+      }
+
+      const deliveryContext = runtime.getDeliveryContext?.(event.conversationId);
+      if (!deliveryContext?.channel || !deliveryContext.to) {
+        return;
+      }
+
+      // Deliver in the background so retries never block the agent loop
+      void this.deliver(runtime.agentId, event.conversationId, deliveryContext, event.content);
+    });
+
+    runtime.on<StreamToolApprovalEvent>("stream.tool.approval", (event) => {
+      if (event.phase !== "requested" || !event.conversationId) {
+        return;
+      }
+
+      const deliveryContext = runtime.getDeliveryContext?.(event.conversationId);
+      if (!deliveryContext?.channel || !deliveryContext.to) {
+        return;
+      }
+
+      void this.deliver(runtime.agentId, event.conversationId, deliveryContext, formatApprovalPrompt(event));
+    });
+  }
+
+  /**
+   * Send a reply through the conversation's channel, retrying with backoff
+   */
+  async deliver(
+    agentId: string,
+    conversationId: string,
+    deliveryContext: DeliveryContext,
+    content: string,
+  ): Promise<DeliveryResult> {
+    const channelId = deliveryContext.channel;
+    const to = deliveryContext.to;
+    if (!channelId || !to) {
+      return { delivered: false, attempts: 0, error: "Delivery context is missing channel or recipient" };
+    }
+
+    let lastError = "";
+    let attempts = 0;
+    let delivered = false;
+    while (!delivered && attempts < this.maxAttempts) {
+      attempts++;
+      try {
+        const channel = this.channelRegistry.get(channelId);
+        if (!channel) {
+          throw new Error(`Channel "${channelId}" is not registered`);
+        }
+        if (!channel.isConnected()) {
+          throw new Error(`Channel "${channelId}" is not connected`);
+        }
+
+        if (deliveryContext.threadId !== undefined) {
+          await channel.send(content, to, { threadId: deliveryContext.threadId });
+        } else {
+          await channel.send(content, to);
+        }
+        delivered = true;
+      } catch (err) {
+        lastError = err instanceof Error ? err.message : String(err);
+        if (attempts < this.maxAttempts) {
+          console.warn(`[Delivery] Attempt ${attempts}/${this.maxAttempts} to ${channelId}:${to} failed: ${lastError}`);
+          await new Promise((resolve) => setTimeout(resolve, this.retryDelayMs * 2 ** (attempts - 1)));
+        }
+      }
+    }
+
+    if (!delivered) {
+      console.error(`[Delivery] Giving up on reply for conversation ${conversationId} via ${channelId}: ${lastError}`);
+      return { delivered: false, attempts, error: lastError };
+    }
+
+    // Recorded once the reply is out; a recording failure must not send it again
+    try {
+      await activityRecorder.recordChannelMessageOutgoing(agentId, conversationId, channelId, to, content);
+    } catch (err) {
+      console.warn(`[Delivery] Failed to record outgoing reply for conversation ${conversationId}:`, err);
+    }
+    return { delivered: true, attempts };
+  }
+}
+
+const MAX_PROMPT_ARGS_LENGTH = 500;
+
+/**
+ * Chat message asking the user to decide on a paused tool call
+ */
+function formatApprovalPrompt(event: StreamToolApprovalEvent): string {
+  const args = JSON.stringify(event.toolArgs, null, 2);
+  const shownArgs = args.length > MAX_PROMPT_ARGS_LENGTH ? `${args.slice(0, MAX_PROMPT_ARGS_LENGTH)}…` : args;
+  return [
+    `⚠️ Approval needed [${event.approvalId}]: ${event.tool}`,
+    shownArgs,
+    event.reason ? `Why: ${event.reason}` : "",
+    `Reply "approve ${event.approvalId}", "deny ${event.approvalId} <reason>" or "edit ${event.approvalId} {new arguments as JSON}".`,
+  ].filter(Boolean).join("\n");
+}
@@ -0,0 +1,16 @@
+export interface DeliveryOptions {
+  /**
+   * Attempts per reply before giving up (default: 3)
+   */
+  maxAttempts?: number;
+  /**
+   * Delay before the first retry, doubled on each further retry (default: 1000ms)
+   */
+  retryDelayMs?: number;
+}
+
+export interface DeliveryResult {
+  delivered: boolean;
+  attempts: number;
+  error?: string;
+}
@@ -0,0 +1,56 @@
+import type { DmAccessDecision, DmPolicy } from "./types.js";
+import { getPairingStore, type PairingStore } from "./store.js";
+
+/**
+ * Decide whether a direct message may reach the agent.
+ *
+ * - "open": everyone
+ * - "allowlist": config allowFrom plus peers approved through pairing
+ * - "pairing": same as allowlist, but unknown senders get a one-time code the owner can approve
+ *
+ * `allowlisted` is the channel's own allowFrom match, since each channel normalizes sender IDs differently.
+ */
+export function checkDmAccess(params: {
+  channelId: string;
+  policy?: DmPolicy;
+  senderId: string;
+  senderName?: string;
+  replyTo?: string;
+  allowlisted: boolean;
+  store?: PairingStore;
+}): DmAccessDecision {
+  const policy = params.policy ?? "open";
+  if (policy === "open" || params.allowlisted) {
+    return { allowed: true };
+  }
+
+  const store = params.store ?? getPairingStore();
+  if (store.isApproved(params.channelId, params.senderId)) {
+    return { allowed: true };
+  }
+
+  if (policy === "allowlist") {
+    return { allowed: false, reason: "not_allowlisted" };
+  }
+
+  const { request, isNew } = store.requestPairing(params.channelId, params.senderId, {
+    senderName: params.senderName,
+    replyTo: params.replyTo,
+  });
+  return { allowed: false, reason: "pairing_required", code: request.code, isNew };
+}
+
+/**
+ * Reply sent to an unknown sender when a pairing code is issued
+ */
+export function formatPairingPrompt(code: string): string {
+  return [
+    "👋 I don't know you yet. Ask my owner to approve this pairing code:",
+    "",
+    code,
+    "",
+    `(zuckerman channels pair approve ${code})`,
+  ].join("\n");
+}
+
+export const PAIRING_APPROVED_MESSAGE = "✅ You're paired. Send a message to start chatting.";
@@ -0,0 +1,184 @@
+import { existsSync, mkdirSync, readdirSync, readFileSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { randomInt } from "node:crypto";
+import { getPairingDir } from "@server/world/homedir/paths.js";
+import type { ApprovedPeer, ChannelPairingState, PairingRequest } from "./types.js";
+
+// No 0/O/1/I so codes can be read out loud and typed back
+const CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+const CODE_LENGTH = 6;
+const CODE_TTL_MS = 60 * 60 * 1000;
+const MAX_PENDING_PER_CHANNEL = 20;
+
+/**
+ * File-backed pairing requests and approved peers, one JSON file per channel.
+ *
+ * State is re-read on every call so approvals made by another process
+ * (the CLI while the gateway is running) take effect immediately.
+ */
+export class PairingStore {
+  constructor(private readonly dir: string = getPairingDir()) {}
+
+  /**
+   * Whether a sender has been approved on a channel
+   */
+  isApproved(channelId: string, senderId: string): boolean {
+    return this.load(channelId).approved.some((peer) => peer.senderId === senderId);
+  }
+
+  /**
+   * Get the pending pairing request for a sender, creating one with a fresh code if needed
+   */
+  requestPairing(
+    channelId: string,
+    senderId: string,
+    details: { senderName?: string; replyTo?: string } = {},
+  ): { request: PairingRequest; isNew: boolean } {
+    const state = this.load(channelId);
+    const existing = state.pending.find((request) => request.senderId === senderId);
+    if (existing) {
+      return { request: existing, isNew: false };
+    }
+
+    const now = Date.now();
+    const request: PairingRequest = {
+      code: this.generateCode(),
+      channelId,
+      senderId,
+      senderName: details.senderName,
+      replyTo: details.replyTo,
+      createdAt: now,
+      expiresAt: now + CODE_TTL_MS,
+    };
+
+    // Oldest requests make room when a channel is flooded by unknown senders
+    state.pending = [...state.pending, request].slice(-MAX_PENDING_PER_CHANNEL);
+    this.save(channelId, state);
+    return { request, isNew: true };
+  }
+
+  /**
+   * Approve a pending pairing code. Returns the approved peer, or null if the code is unknown or expired.
+   */
+  approve(code: string, channelId?: string): ApprovedPeer | null {
+    const normalized = code.trim().toUpperCase();
+    for (const id of channelId ? [channelId] : this.listChannels()) {
+      const state = this.load(id);
+      const request = state.pending.find((pending) => pending.code === normalized);
+      if (!request) {
+        continue;
+      }
+
+      const peer: ApprovedPeer = {
+        channelId: id,
+        senderId: request.senderId,
+        senderName: request.senderName,
+        replyTo: request.replyTo,
+        approvedAt: Date.now(),
+      };
+      state.pending = state.pending.filter((pending) => pending !== request);
+      state.approved = [...state.approved.filter((approved) => approved.senderId !== peer.senderId), peer];
+      this.save(id, state);
+      return peer;
+    }
+    return null;
+  }
+
+  /**
+   * Drop a pending pairing code without approving it
+   */
+  reject(code: string, channelId?: string): PairingRequest | null {
+    const normalized = code.trim().toUpperCase();
+    for (const id of channelId ? [channelId] : this.listChannels()) {
+      const state = this.load(id);
+      const request = state.pending.find((pending) => pending.code === normalized);
+      if (request) {
+        state.pending = state.pending.filter((pending) => pending !== request);
+        this.save(id, state);
+        return request;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Remove a previously approved peer
+   */
+  revoke(channelId: string, senderId: string): boolean {
+    const state = this.load(channelId);
+    const approved = state.approved.filter((peer) => peer.senderId !== senderId);
+    if (approved.length === state.approved.length) {
+      return false;
+    }
+    state.approved = approved;
+    this.save(channelId, state);
+    return true;
+  }
+
+  listPending(channelId?: string): PairingRequest[] {
+    return (channelId ? [channelId] : this.listChannels()).flatMap((id) => this.load(id).pending);
+  }
+
+  listApproved(channelId?: string): ApprovedPeer[] {
+    return (channelId ? [channelId] : this.listChannels()).flatMap((id) => this.load(id).approved);
+  }
+
+  private listChannels(): string[] {
+    if (!existsSync(this.dir)) {
+      return [];
+    }
+    return readdirSync(this.dir)
+      .filter((file) => file.endsWith(".json"))
+      .map((file) => file.slice(0, -".json".length));
+  }
+
+  private load(channelId: string): ChannelPairingState {
+    const file = this.getFile(channelId);
+    let state: ChannelPairingState = { pending: [], approved: [] };
+    if (existsSync(file)) {
+      try {
+        const data = JSON.parse(readFileSync(file, "utf-8")) as Partial<ChannelPairingState>;
+        state = { pending: data.pending ?? [], approved: data.approved ?? [] };
+      } catch (error) {
+        console.error(`[Pairing] Failed to load pairing state for ${channelId}:`, error);
+      }
+    }
+
+    // Expired codes are dropped lazily
+    const now = Date.now();
+    state.pending = state.pending.filter((request) => request.expiresAt > now);
+    return state;
+  }
+
+  private save(channelId: string, state: ChannelPairingState): void {
+    if (!existsSync(this.dir)) {
+      mkdirSync(this.dir, { recursive: true });
+    }
+    writeFileSync(this.getFile(channelId), JSON.stringify(state, null, 2), { encoding: "utf-8", mode: 0o600 });
+  }
+
+  private getFile(channelId: string): string {
+    return join(this.dir, `${channelId.replace(/[^a-zA-Z0-9_-]/g, "_")}.json`);
+  }
+
+  private generateCode(): string {
+    const taken = new Set(this.listPending().map((request) => request.code));
+    let code = "";
+    do {
+      code = Array.from({ length: CODE_LENGTH }, () => CODE_ALPHABET[randomInt(CODE_ALPHABET.length)]).join("");
+    } while (taken.has(code));
+    return code;
+  }
+}
+
+let defaultStore: PairingStore | null = null;
+
+/**
+ * Shared pairing store under ~/.zuckerman/credentials/pairing
+ */
+export function getPairingStore(): PairingStore {
+  if (!defaultStore) {
+    defaultStore = new PairingStore();
+  }
+  return defaultStore;
+}
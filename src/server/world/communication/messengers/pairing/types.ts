@@ -0,0 +1,32 @@
+export type DmPolicy = "open" | "pairing" | "allowlist";
+
+export interface PairingRequest {
+  code: string;
+  channelId: string;
+  senderId: string;
+  senderName?: string;
+  replyTo?: string; // Address to send the approval notice to, when it differs from senderId
+  createdAt: number;
+  expiresAt: number;
+}
+
+export interface ApprovedPeer {
+  channelId: string;
+  senderId: string;
+  senderName?: string;
+  replyTo?: string;
+  approvedAt: number;
+}
+
+/**
+ * Persisted pairing state for one channel
+ */
+export interface ChannelPairingState {
+  pending: PairingRequest[];
+  approved: ApprovedPeer[];
+}
+
+export type DmAccessDecision =
+  | { allowed: true }
+  | { allowed: false; reason: "not_allowlisted" }
+  | { allowed: false; reason: "pairing_required"; code: string; isNew: boolean };
@@ -10,7 +10,7 @@ export interface AgentEntry {
   name?: string;
   homedir?: string;
   defaultModel?: string;
-  defaultProvider?: "anthropic" | "openai" | "openrouter";
+  defaultProvider?: string; // Built-in provider or a key of llm.providers
   temperature?: number;
 }
 
@@ -33,7 +33,7 @@ export interface AgentsConfig {
   defaults?: {
     homedir?: string;
     defaultModel?: string;
-    defaultProvider?: "anthropic" | "openai" | "openrouter";
+    defaultProvider?: string;
     temperature?: number;
     timeoutSeconds?: number; // Agent runtime timeout (default: 600s)
   };
@@ -87,14 +87,23 @@ export interface SlackConfig {
   channels?: Record<string, { allow?: boolean; requireMention?: boolean }>;
   dm?: {
     enabled?: boolean;
+    policy?: "open" | "pairing" | "allowlist";
     allowFrom?: string[];
   };
 }
 
 export interface SignalConfig {
   enabled?: boolean;
+  account?: string; // Phone number registered or linked in signal-cli (E.164)
+  socketPath?: string; // signal-cli daemon Unix socket (preferred over TCP when set)
+  host?: string; // signal-cli daemon TCP host (default: 127.0.0.1)
+  port?: number; // signal-cli daemon TCP port (default: 7583)
+  attachmentsDir?: string; // Where signal-cli stores received attachments
+  deviceName?: string; // Device name shown in Signal when linking
   dmPolicy?: "open" | "pairing" | "allowlist";
   allowFrom?: string[];
+  groupPolicy?: "open" | "allowlist";
+  groups?: Record<string, { requireMention?: boolean }>;
 }
 
 export interface IMessageConfig {
@@ -117,21 +126,85 @@ export interface ChannelsConfig {
 
 export type ModelTrait = "fastCheap" | "cheap" | "fast" | "highQuality" | "largeContext";
 
+/**
+ * API flavour of an LLM provider. Ollama, llama.cpp server, vLLM and LM Studio are "openai-compatible".
+ */
+export type LLMProviderType = "anthropic" | "openai" | "openrouter" | "gemini" | "azure" | "openai-compatible";
+
+export interface ModelCapabilities {
+  toolCalling: boolean;
+  structuredOutput: boolean; // Native JSON schema output (Output.object)
+  vision: boolean;
+  contextWindow?: number; // Tokens
+}
+
+export interface LLMProviderConfig {
+  type?: LLMProviderType; // llm.providers only; default: inferred from the key, else "openai-compatible"
+  apiKey?: string;
+  baseUrl?: string; // Required for azure (https://<resource>.openai.azure.com/openai/v1) and unknown compatible servers
+  headers?: Record<string, string>;
+  defaultModel?: string; // Also used for traits that have no mapping
+  traits?: Partial<Record<ModelTrait, string>>;
+  capabilities?: Record<string, Partial<ModelCapabilities>>; // Keyed by model id or wildcard ("*" for all)
+}
+
 export interface LLMConfig {
-  anthropic?: {
-    apiKey?: string;
-    defaultModel?: string;
-    traits?: Record<ModelTrait, string>;
+  anthropic?: LLMProviderConfig;
+  openai?: LLMProviderConfig;
+  openrouter?: LLMProviderConfig;
+  gemini?: LLMProviderConfig;
+  azure?: LLMProviderConfig; // Model ids are deployment names
+  providers?: Record<string, LLMProviderConfig>; // Extra (usually local) providers, keyed by name
+}
+
+export interface ModelPrice {
+  input: number; // USD per 1M input tokens
+  output: number; // USD per 1M output tokens
+}
+
+export interface UsageBudgetLimits {
+  daily?: number; // USD per UTC day
+  monthly?: number; // USD per UTC month
+}
+
+export interface UsageConfig {
+  prices?: Record<string, ModelPrice>; // Keyed by model id, merged over the built-in price table
+  budgets?: UsageBudgetLimits & {
+    agents?: Record<string, UsageBudgetLimits>; // Per-agent limits
+    conversation?: UsageBudgetLimits; // Applied to each conversation
+    onExceeded?: "pause" | "downgrade"; // Default: pause
   };
-  openai?: {
-    apiKey?: string;
-    defaultModel?: string;
-    traits?: Record<ModelTrait, string>;
+}
+
+export interface McpServerConfig {
+  enabled?: boolean; // Default: true
+  command?: string; // stdio transport: executable that speaks MCP on stdin/stdout
+  args?: string[];
+  env?: Record<string, string>;
+  cwd?: string;
+  url?: string; // Streamable HTTP transport endpoint
+  headers?: Record<string, string>; // Sent with every HTTP request (e.g. Authorization)
+  tools?: {
+    allow?: string[]; // MCP tool names or wildcards; empty means all
+    deny?: string[];
   };
-  openrouter?: {
-    apiKey?: string;
-    defaultModel?: string;
-    traits?: Record<ModelTrait, string>;
+  sandbox?: boolean | { // Run a stdio server in a throwaway Docker container
+    image?: string; // Default: security.sandbox.docker.image
+    network?: string; // Default: "none"
+  };
+  timeoutMs?: number; // Per request (default: 60000)
+}
+
+export interface McpConfig {
+  servers?: Record<string, McpServerConfig>; // MCP servers whose tools are given to agents, keyed by name
+  server?: { // Serve the agent's tools over MCP from the gateway (POST /mcp)
+    enabled?: boolean; // Default: false
+    agentId?: string; // Default: the default agent
+    conversationType?: "main" | "group" | "channel"; // Security policy applied to MCP calls (default: channel)
+    tools?: {
+      allow?: string[];
+      deny?: string[];
+    };
   };
 }
 
@@ -219,13 +292,24 @@ export interface SecurityConfig {
   };
   gateway?: {
     auth?: {
-      enabled?: boolean;
-      tokens?: string[];
+      enabled?: boolean; // Defaults to true when the gateway binds beyond loopback
+      tokens?: Array<string | { token: string; scope?: "read" | "write" | "admin"; name?: string }>;
     };
     rateLimit?: {
       requestsPerMinute?: number;
     };
   };
+  approval?: {
+    enabled?: boolean;
+    rules?: Array<{
+      tool: string;
+      args?: Record<string, string>;
+      conversationTypes?: Array<"main" | "group" | "channel">;
+      action?: "require" | "skip";
+    }>;
+    timeoutMs?: number;
+    approvers?: string[]; // Chat senders who may decide approvals, as "<channel>:<sender id>"
+  };
 }
 
 export interface TextToSpeechConfig {
@@ -282,6 +366,30 @@ export interface AgentConfig {
     softThresholdTokens?: number;
   };
   memorySearch?: unknown; // Memory search config (defined in memory/config.ts)
+  memoryIngestion?: {
+    enabled?: boolean; // Classify conversation events into long-term memory. Default: true
+    minImportance?: number; // Default: 0.5
+  };
+  scheduler?: {
+    maxCallsPerMinute?: number; // Council calls per minute across all conversations. Default: 20
+    idleBackoffMinMs?: number; // First re-check of unfinished work when no input arrives. Default: 5000
+    idleBackoffMaxMs?: number; // Idle re-checks back off up to this delay. Default: 300000
+    maxConcurrentConversations?: number; // Conversation pipelines running at once. Default: 4
+  };
+  memoryRecall?: {
+    enabled?: boolean; // Default: true
+    maxTokens?: number; // Token budget for recalled memories per prompt. Default: 800
+    maxResults?: number; // Default: 8
+    minScore?: number; // Default: 0.15
+  };
+  memoryLifecycle?: {
+    enabled?: boolean; // Decay recall scores and consolidate memories. Default: true
+    halfLifeDays?: number; // Half-life of an unreinforced memory of default importance. Default: 30
+    minWeight?: number; // Floor of the decay weight applied to recall scores. Default: 0.3
+    consolidateIntervalHours?: number; // 0 disables scheduled consolidation. Default: 24
+    archiveBelow?: number; // Archive episodic memories whose decay weight falls below this. Default: 0.35
+    archiveMinAgeDays?: number; // Never archive episodic memories younger than this. Default: 30
+  };
   contextTokens?: number;
 }
 
@@ -292,6 +400,8 @@ export interface ZuckermanConfig {
   routing?: RoutingConfig; // Agent routing bindings
   channels?: ChannelsConfig; // Messaging channels config
   llm?: LLMConfig;
+  usage?: UsageConfig; // Token usage pricing and budgets
   security?: SecurityConfig;
+  mcp?: McpConfig; // Model Context Protocol servers and the gateway's MCP endpoint
   textToSpeech?: TextToSpeechConfig;
 }
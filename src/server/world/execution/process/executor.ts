@@ -6,7 +6,11 @@ import { executeInSandbox } from "../security/sandbox/manager.js";
 import type { SandboxContext } from "../security/types.js";
 
 export async function executeProcess(options: ProcessOptions): Promise<ProcessResult> {
-  const { command, args = [], cwd, env, securityContext } = options;
+  const { command, args = [], cwd, env, signal, securityContext } = options;
+
+  if (signal?.aborted) {
+    throw new Error("Command cancelled");
+  }
 
   // Check command security if policy provided
   if (securityContext?.executionPolicy) {
@@ -45,12 +49,27 @@ export async function executeProcess(options: ProcessOptions): Promise<ProcessRe
       };
 
       const timeout = securityContext.executionPolicy?.timeout ?? 30000;
-      const result = await Promise.race([
-        executeInSandbox(sandbox, command, args, { cwd, env }),
-        new Promise<ProcessResult>((_, reject) =>
-          setTimeout(() => reject(new Error("Command timeout")), timeout),
-        ),
-      ]);
+      // Aborted once the command settles, is cancelled or times out, which kills the docker exec client
+      const exec = new AbortController();
+      let timeoutId: NodeJS.Timeout | undefined;
+      let onAbort: (() => void) | undefined;
+      let result: ProcessResult;
+      try {
+        result = await Promise.race([
+          executeInSandbox(sandbox, command, args, { cwd, env, signal: exec.signal }),
+          new Promise<ProcessResult>((_, reject) => {
+            timeoutId = setTimeout(() => reject(new Error("Command timeout")), timeout);
+          }),
+          new Promise<ProcessResult>((_, reject) => {
+            onAbort = () => reject(new Error("Command cancelled"));
+            signal?.addEventListener("abort", onAbort, { once: true });
+          }),
+        ]);
+      } finally {
+        clearTimeout(timeoutId);
+        if (onAbort) signal?.removeEventListener("abort", onAbort);
+        exec.abort();
+      }
 
       // Check output size limit
       const maxOutput = securityContext.executionPolicy?.maxOutput ?? 10485760; // 10MB
@@ -116,6 +135,16 @@ export async function executeProcess(options: ProcessOptions): Promise<ProcessRe
     let stderr = "";
     let timeoutId: NodeJS.Timeout | null = null;
 
+    const onAbort = () => {
+      proc.kill("SIGTERM");
+      // Escalate if the process ignores SIGTERM
+      setTimeout(() => {
+        if (proc.exitCode === null && proc.signalCode === null) proc.kill("SIGKILL");
+      }, 2000).unref();
+      reject(new Error("Command cancelled"));
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+
     if (timeout > 0) {
       timeoutId = setTimeout(() => {
         proc.kill("SIGTERM");
@@ -149,6 +178,7 @@ export async function executeProcess(options: ProcessOptions): Promise<ProcessRe
       if (timeoutId) {
         clearTimeout(timeoutId);
       }
+      signal?.removeEventListener("abort", onAbort);
       resolve({
         stdout: stdout.slice(0, maxOutput),
         stderr: stderr.slice(0, maxOutput),
@@ -160,6 +190,7 @@ export async function executeProcess(options: ProcessOptions): Promise<ProcessRe
       if (timeoutId) {
         clearTimeout(timeoutId);
       }
+      signal?.removeEventListener("abort", onAbort);
       reject(err);
     });
   });
@@ -3,6 +3,7 @@ export interface ProcessOptions {
   args?: string[];
   cwd?: string;
   env?: Record<string, string>;
+  signal?: AbortSignal; // Kills the process (or abandons the sandbox call) when aborted
   securityContext?: {
     executionPolicy?: {
       allowlist?: string[];
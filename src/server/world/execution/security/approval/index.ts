@@ -0,0 +1 @@
+export * from "./manager.js";
@@ -0,0 +1,235 @@
+import { randomBytes } from "node:crypto";
+
+export type ApprovalDecision = "approve" | "deny" | "edit";
+export type ApprovalOutcome = "approved" | "denied" | "timeout" | "cancelled";
+
+/**
+ * A tool call paused until a human decides on it
+ */
+export interface ToolApprovalRequest {
+  id: string; // Short hex id, easy to type in a chat reply
+  agentId: string;
+  conversationId: string;
+  runId: string;
+  toolName: string;
+  toolArgs: Record<string, unknown>;
+  reason: string;
+  requestedAt: number;
+  expiresAt: number;
+}
+
+export interface ToolApprovalResolution {
+  outcome: ApprovalOutcome;
+  toolArgs: Record<string, unknown>; // Arguments to run with (the edited ones when the user changed them)
+  edited: boolean;
+  resolvedBy?: string; // Who decided: "app", "cli", "<channel>:<sender>", or "system" for timeouts
+  note?: string;
+  resolvedAt: number;
+}
+
+export interface ResolveApprovalParams {
+  decision: ApprovalDecision;
+  toolArgs?: Record<string, unknown>; // Required for "edit"
+  note?: string;
+  resolvedBy?: string;
+}
+
+export type ApprovalRequestedListener = (request: ToolApprovalRequest) => void;
+export type ApprovalResolvedListener = (request: ToolApprovalRequest, resolution: ToolApprovalResolution) => void;
+
+interface PendingApproval {
+  request: ToolApprovalRequest;
+  settle: (resolution: ToolApprovalResolution) => void;
+  cleanup: () => void;
+}
+
+/**
+ * Holds tool calls that wait for approval. The tool executor opens a request and awaits its
+ * decision; the gateway, CLI and chat channels resolve it. Requests that nobody answers are
+ * denied when they expire, and requests whose run is cancelled end as "cancelled".
+ */
+export class ToolApprovalManager {
+  private pending = new Map<string, PendingApproval>();
+  private requestedListeners = new Set<ApprovalRequestedListener>();
+  private resolvedListeners = new Set<ApprovalResolvedListener>();
+
+  /**
+   * Open an approval request. `decision` resolves once the request is approved, denied,
+   * edited, expires, or the abort signal fires.
+   */
+  request(
+    params: Omit<ToolApprovalRequest, "id" | "requestedAt" | "expiresAt"> & { timeoutMs: number },
+    abortSignal?: AbortSignal,
+  ): { request: ToolApprovalRequest; decision: Promise<ToolApprovalResolution> } {
+    const { timeoutMs, ...details } = params;
+    const now = Date.now();
+    const request: ToolApprovalRequest = {
+      ...details,
+      id: this.createId(),
+      requestedAt: now,
+      expiresAt: now + timeoutMs,
+    };
+
+    const decision = new Promise<ToolApprovalResolution>((resolve) => {
+      const timer = setTimeout(() => {
+        this.finish(request.id, { outcome: "timeout", note: "No decision before the request expired", resolvedBy: "system" });
+      }, timeoutMs);
+      timer.unref?.();
+
+      const onAbort = () => {
+        this.finish(request.id, { outcome: "cancelled", note: "The agent run was cancelled", resolvedBy: "system" });
+      };
+      abortSignal?.addEventListener("abort", onAbort, { once: true });
+
+      this.pending.set(request.id, {
+        request,
+        settle: resolve,
+        cleanup: () => {
+          clearTimeout(timer);
+          abortSignal?.removeEventListener("abort", onAbort);
+        },
+      });
+    });
+
+    for (const listener of this.requestedListeners) {
+      this.notify(() => listener(request));
+    }
+    if (abortSignal?.aborted) {
+      this.finish(request.id, { outcome: "cancelled", note: "The agent run was cancelled", resolvedBy: "system" });
+    }
+
+    return { request, decision };
+  }
+
+  /**
+   * Decide on a pending request. Returns the request, or null when it is unknown or already decided.
+   */
+  resolve(id: string, params: ResolveApprovalParams): ToolApprovalRequest | null {
+    const pending = this.pending.get(id);
+    if (!pending) {
+      return null;
+    }
+    if (params.decision === "edit" && !params.toolArgs) {
+      throw new Error("Editing a tool call requires the new toolArgs");
+    }
+
+    this.finish(id, {
+      outcome: params.decision === "deny" ? "denied" : "approved",
+      toolArgs: params.decision === "edit" ? params.toolArgs : undefined,
+      note: params.note,
+      resolvedBy: params.resolvedBy,
+    });
+    return pending.request;
+  }
+
+  get(id: string): ToolApprovalRequest | undefined {
+    return this.pending.get(id)?.request;
+  }
+
+  /**
+   * Pending requests, oldest first
+   */
+  list(filter: { agentId?: string; conversationId?: string } = {}): ToolApprovalRequest[] {
+    return Array.from(this.pending.values())
+      .map(pending => pending.request)
+      .filter(request =>
+        (!filter.agentId || request.agentId === filter.agentId) &&
+        (!filter.conversationId || request.conversationId === filter.conversationId)
+      );
+  }
+
+  onRequested(listener: ApprovalRequestedListener): () => void {
+    this.requestedListeners.add(listener);
+    return () => this.requestedListeners.delete(listener);
+  }
+
+  onResolved(listener: ApprovalResolvedListener): () => void {
+    this.resolvedListeners.add(listener);
+    return () => this.resolvedListeners.delete(listener);
+  }
+
+  private finish(
+    id: string,
+    result: { outcome: ApprovalOutcome; toolArgs?: Record<string, unknown>; note?: string; resolvedBy?: string },
+  ): void {
+    const pending = this.pending.get(id);
+    if (!pending) return;
+    this.pending.delete(id);
+    pending.cleanup();
+
+    const resolution: ToolApprovalResolution = {
+      outcome: result.outcome,
+      toolArgs: result.toolArgs ?? pending.request.toolArgs,
+      edited: result.toolArgs !== undefined,
+      resolvedBy: result.resolvedBy,
+      note: result.note,
+      resolvedAt: Date.now(),
+    };
+    pending.settle(resolution);
+    for (const listener of this.resolvedListeners) {
+      this.notify(() => listener(pending.request, resolution));
+    }
+  }
+
+  private notify(callback: () => void): void {
+    try {
+      callback();
+    } catch (err) {
+      console.warn(`[Approvals] Listener failed:`, err);
+    }
+  }
+
+  private createId(): string {
+    let id: string;
+    do {
+      id = randomBytes(3).toString("hex");
+    } while (this.pending.has(id));
+    return id;
+  }
+}
+
+/**
+ * A decision typed into a chat: "approve", "deny <reason>", "edit <id> {json}", or a bare "yes"/"no".
+ * The id is optional when the conversation has a single pending request.
+ */
+export interface ApprovalReply {
+  decision: ApprovalDecision;
+  id?: string;
+  toolArgs?: Record<string, unknown>;
+  note?: string;
+}
+
+const REPLY_PATTERN = /^\/?(approve|deny|edit)\b(?:\s+([0-9a-f]{6})\b)?\s*([\s\S]*)$/i;
+
+/**
+ * Parse a chat message as an approval decision. Returns null for ordinary messages.
+ */
+export function parseApprovalReply(text: string): ApprovalReply | null {
+  const trimmed = text.trim();
+  const bare = trimmed.toLowerCase().replace(/[.!]+$/, "");
+  if (bare === "yes") return { decision: "approve" };
+  if (bare === "no") return { decision: "deny" };
+
+  const match = trimmed.match(REPLY_PATTERN);
+  if (!match) return null;
+
+  const decision = match[1].toLowerCase() as ApprovalDecision;
+  const id = match[2]?.toLowerCase();
+  const rest = match[3].trim();
+
+  if (decision === "edit") {
+    try {
+      const toolArgs = JSON.parse(rest);
+      if (!toolArgs || typeof toolArgs !== "object" || Array.isArray(toolArgs)) return null;
+      return { decision, id, toolArgs };
+    } catch {
+      return null;
+    }
+  }
+  return { decision, id, ...(rest && { note: rest }) };
+}
+
+/**
+ * Approvals shared by the agents, the gateway and the channels of this process
+ */
+export const toolApprovals = new ToolApprovalManager();
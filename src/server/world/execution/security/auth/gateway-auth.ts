@@ -1,12 +1,29 @@
-import type { GatewayAuthConfig } from "../types.js";
-import { randomBytes, createHash } from "node:crypto";
+import type { GatewayAuthConfig, GatewayScope, GatewayTokenEntry } from "../types.js";
+import { randomBytes, createHash, createHmac, timingSafeEqual } from "node:crypto";
 
 export interface AuthResult {
   authenticated: boolean;
   clientId?: string;
+  scope?: GatewayScope;
   reason?: string;
 }
 
+/**
+ * Credentials a client presents to answer the gateway's connect.challenge
+ */
+export interface ChallengeResponse {
+  token?: string; // Raw token (fine on loopback)
+  signature?: string; // HMAC-SHA256(token, nonce), base64url - keeps the token off the wire
+  apiKey?: string;
+}
+
+/**
+ * Sign a connect.challenge nonce with a gateway token
+ */
+export function signGatewayChallenge(token: string, nonce: string): string {
+  return createHmac("sha256", token).update(nonce).digest("base64url");
+}
+
 export interface RateLimitState {
   requests: number;
   resetAt: number;
@@ -17,34 +34,41 @@ export interface RateLimitState {
  */
 export class GatewayAuthManager {
   private config: GatewayAuthConfig;
-  private tokens: Set<string>;
+  private tokens = new Map<string, GatewayTokenEntry>();
   private apiKeys: Set<string>;
   private rateLimitMap = new Map<string, RateLimitState>();
 
   constructor(config: GatewayAuthConfig = {}) {
     this.config = config;
-    this.tokens = new Set(config.tokens ?? []);
+    for (const entry of config.tokens ?? []) {
+      this.addToken(entry);
+    }
     this.apiKeys = new Set(config.apiKeys ?? []);
   }
 
+  isEnabled(): boolean {
+    return this.config.enabled === true;
+  }
+
   /**
    * Authenticate a client
    */
   authenticate(authHeader?: string, apiKey?: string): AuthResult {
     if (!this.config.enabled) {
-      return { authenticated: true };
+      return { authenticated: true, scope: "admin" };
     }
 
     // Check API key
     if (apiKey && this.apiKeys.has(apiKey)) {
-      return { authenticated: true };
+      return { authenticated: true, clientId: "api-key", scope: "admin" };
     }
 
     // Check token from Authorization header
     if (authHeader) {
       const token = this.extractToken(authHeader);
-      if (token && this.tokens.has(token)) {
-        return { authenticated: true };
+      const entry = token ? this.tokens.get(token) : undefined;
+      if (entry) {
+        return this.tokenResult(entry);
       }
     }
 
@@ -54,6 +78,41 @@ export class GatewayAuthManager {
     };
   }
 
+  /**
+   * Verify a client's answer to the connect.challenge nonce
+   */
+  verifyChallenge(nonce: string, response: ChallengeResponse): AuthResult {
+    if (!this.config.enabled) {
+      return { authenticated: true, scope: "admin" };
+    }
+
+    if (response.apiKey && this.apiKeys.has(response.apiKey)) {
+      return { authenticated: true, clientId: "api-key", scope: "admin" };
+    }
+
+    if (response.token) {
+      const entry = this.tokens.get(response.token);
+      if (entry) {
+        return this.tokenResult(entry);
+      }
+    }
+
+    if (response.signature) {
+      const provided = Buffer.from(response.signature);
+      for (const entry of this.tokens.values()) {
+        const expected = Buffer.from(signGatewayChallenge(entry.token, nonce));
+        if (expected.length === provided.length && timingSafeEqual(expected, provided)) {
+          return this.tokenResult(entry);
+        }
+      }
+    }
+
+    return {
+      authenticated: false,
+      reason: "Invalid gateway token",
+    };
+  }
+
   /**
    * Check rate limit
    */
@@ -87,10 +146,11 @@ export class GatewayAuthManager {
   }
 
   /**
-   * Add a token
+   * Add a token (plain strings get admin scope)
    */
-  addToken(token: string): void {
-    this.tokens.add(token);
+  addToken(token: string | GatewayTokenEntry): void {
+    const entry = typeof token === "string" ? { token } : token;
+    this.tokens.set(entry.token, entry);
   }
 
   /**
@@ -117,12 +177,20 @@ export class GatewayAuthManager {
   /**
    * Generate a new token
    */
-  generateToken(): string {
+  generateToken(scope: GatewayScope = "admin", name?: string): string {
     const token = `zk_${randomBytes(32).toString("base64url")}`;
-    this.tokens.add(token);
+    this.addToken({ token, scope, name });
     return token;
   }
 
+  private tokenResult(entry: GatewayTokenEntry): AuthResult {
+    return {
+      authenticated: true,
+      clientId: entry.name ?? `token:${createHash("sha256").update(entry.token).digest("hex").slice(0, 8)}`,
+      scope: entry.scope ?? "admin",
+    };
+  }
+
   /**
    * Extract token from Authorization header
    */
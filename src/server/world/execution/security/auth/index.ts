@@ -1 +1,3 @@
 export * from "./gateway-auth.js";
+export * from "./scopes.js";
+export * from "./token-store.js";
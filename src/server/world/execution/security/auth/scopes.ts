@@ -0,0 +1,71 @@
+import type { GatewayScope } from "../types.js";
+
+const SCOPE_RANK: Record<GatewayScope, number> = {
+  read: 0,
+  write: 1,
+  admin: 2,
+};
+
+/**
+ * Methods that change gateway-wide state (config, channel accounts, pairing, agent prompts, tool switches).
+ * config.get is admin too: the config holds the gateway tokens and provider API keys.
+ */
+const ADMIN_METHODS = new Set([
+  "config.get",
+  "config.update",
+  "channels.login",
+  "channels.start",
+  "channels.stop",
+  "channels.reload",
+  "channels.pairing.approve",
+  "channels.pairing.reject",
+  "channels.pairing.revoke",
+  "agent.savePrompt",
+  "agent.reload",
+  "tools.toggle",
+  "text-to-speech.enable",
+  "text-to-speech.disable",
+  "text-to-speech.setProvider",
+]);
+
+const READ_METHODS = new Set(["health", "ping", "methods"]);
+
+const READ_ACTIONS = new Set([
+  "list",
+  "get",
+  "status",
+  "count",
+  "range",
+  "prompts",
+  "brainParts",
+  "discover",
+  "models",
+  "providers",
+  "summary",
+]);
+
+/**
+ * Minimum scope a token needs to call a gateway method.
+ * Unknown methods default to "write" so new handlers are never readable by read-only tokens by accident.
+ */
+export function resolveMethodScope(method: string): GatewayScope {
+  if (ADMIN_METHODS.has(method)) {
+    return "admin";
+  }
+  if (READ_METHODS.has(method)) {
+    return "read";
+  }
+  const action = method.slice(method.lastIndexOf(".") + 1);
+  return READ_ACTIONS.has(action) ? "read" : "write";
+}
+
+/**
+ * Check whether a granted scope covers the required one
+ */
+export function hasScope(granted: GatewayScope, required: GatewayScope): boolean {
+  return SCOPE_RANK[granted] >= SCOPE_RANK[required];
+}
+
+export function isGatewayScope(value: unknown): value is GatewayScope {
+  return typeof value === "string" && value in SCOPE_RANK;
+}
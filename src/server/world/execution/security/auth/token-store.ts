@@ -0,0 +1,23 @@
+import { existsSync, mkdirSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { dirname } from "node:path";
+import { getGatewayTokenPath } from "@server/world/homedir/paths.js";
+
+/**
+ * Read the locally stored gateway token, if any
+ */
+export function loadGatewayToken(path: string = getGatewayTokenPath()): string | undefined {
+  if (!existsSync(path)) {
+    return undefined;
+  }
+  const token = readFileSync(path, "utf-8").trim();
+  return token || undefined;
+}
+
+export function saveGatewayToken(token: string, path: string = getGatewayTokenPath()): void {
+  mkdirSync(dirname(path), { recursive: true });
+  writeFileSync(path, `${token}\n`, { encoding: "utf-8", mode: 0o600 });
+}
+
+export function clearGatewayToken(path: string = getGatewayTokenPath()): void {
+  rmSync(path, { force: true });
+}
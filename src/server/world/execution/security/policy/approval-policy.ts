@@ -0,0 +1,99 @@
+import type { ApprovalPolicy, ToolApprovalConfig, ToolApprovalRule } from "../types.js";
+import type { ConversationType } from "@server/agents/zuckerman/conversations/types.js";
+import { matchesToolPattern } from "./tool-policy.js";
+
+/**
+ * Tools that run commands or rewrite files, approved by default once approvals are enabled
+ */
+const DEFAULT_APPROVAL_RULES: ToolApprovalRule[] = [
+  { tool: "terminal" },
+  { tool: "multiedit" },
+];
+
+const DEFAULT_APPROVAL_TIMEOUT_MS = 10 * 60 * 1000;
+
+/**
+ * Resolve the approval rules for a conversation type.
+ * Returns undefined when approvals are disabled or no rule applies to the conversation type.
+ */
+export function resolveApprovalPolicy(
+  config: ToolApprovalConfig | undefined,
+  conversationType: ConversationType,
+): ApprovalPolicy | undefined {
+  if (!config?.enabled) {
+    return undefined;
+  }
+
+  const rules = (config.rules ?? DEFAULT_APPROVAL_RULES).filter((rule) =>
+    !rule.conversationTypes || rule.conversationTypes.includes(conversationType),
+  );
+  if (rules.length === 0) {
+    return undefined;
+  }
+
+  return {
+    rules,
+    timeoutMs: config.timeoutMs ?? DEFAULT_APPROVAL_TIMEOUT_MS,
+  };
+}
+
+/**
+ * Whether a chat sender may approve, deny or edit tool calls. Only the configured
+ * approvers can, so anyone else in a group (or an open DM) can't approve the agent's calls.
+ */
+export function isApprovalSender(
+  config: ToolApprovalConfig | undefined,
+  channelId: string,
+  senderId: string,
+): boolean {
+  return config?.approvers?.includes(`${channelId}:${senderId}`) ?? false;
+}
+
+function argumentText(value: unknown): string {
+  if (typeof value === "string") return value;
+  if (value === undefined) return "";
+  return JSON.stringify(value);
+}
+
+function matchesArgs(args: Record<string, string> | undefined, input: Record<string, unknown>): boolean {
+  if (!args) return true;
+  return Object.entries(args).every(([name, pattern]) => {
+    try {
+      return new RegExp(pattern, "i").test(argumentText(input[name]));
+    } catch {
+      console.warn(`[Security] Invalid approval rule pattern for argument "${name}": ${pattern}`);
+      return false;
+    }
+  });
+}
+
+/**
+ * Find the rule that requires approval for a tool call.
+ * Returns null when the call may run without asking (no rule matches, or a "skip" rule matches first).
+ */
+export function findApprovalRule(
+  toolName: string,
+  input: Record<string, unknown>,
+  policy: ApprovalPolicy | undefined,
+): ToolApprovalRule | null {
+  if (!policy) {
+    return null;
+  }
+
+  for (const rule of policy.rules) {
+    if (matchesToolPattern(toolName, rule.tool) && matchesArgs(rule.args, input)) {
+      return rule.action === "skip" ? null : rule;
+    }
+  }
+  return null;
+}
+
+/**
+ * Human-readable reason shown with an approval request
+ */
+export function describeApprovalRule(toolName: string, rule: ToolApprovalRule): string {
+  const args = rule.args ? Object.keys(rule.args) : [];
+  return args.length > 0
+    ? `"${toolName}" calls matching ${args.map(name => `${name} /${rule.args![name]}/`).join(", ")} need approval`
+    : `"${toolName}" calls need approval`;
+}
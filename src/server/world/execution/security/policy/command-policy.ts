@@ -41,7 +41,7 @@ export function isCommandAllowed(
 
   // Check denylist first
   for (const pattern of denylist) {
-    if (matchesPattern(cmd, pattern.toLowerCase())) {
+    if (splitCommandSegments(cmd).some((segment) => matchesCommand(segment, pattern.toLowerCase()))) {
       return {
         allowed: false,
         reason: `Command "${command}" is blocked by denylist pattern "${pattern}"`,
@@ -51,13 +51,10 @@ export function isCommandAllowed(
 
   // If allowlist exists, only allow listed commands
   if (policy.allowlist && policy.allowlist.length > 0) {
-    let found = false;
-    for (const pattern of policy.allowlist) {
-      if (matchesPattern(cmd, pattern.toLowerCase())) {
-        found = true;
-        break;
-      }
-    }
+    const allowlist = policy.allowlist.map((pattern) => pattern.toLowerCase());
+    const found = splitCommandSegments(cmd).every((segment) =>
+      allowlist.some((pattern) => matchesCommand(segment, pattern)),
+    );
     if (!found) {
       return {
         allowed: false,
@@ -124,6 +121,33 @@ export function isPathAllowed(
   return { allowed: true };
 }
 
+/**
+ * Split a shell command into the commands it runs: chained ones (&&, ||, ;, |, newlines),
+ * backgrounded ones (&, but not the & of redirects like 2>&1 or &>) and the ones nested in
+ * subshells and command substitutions ("( … )", "$( … )", backticks)
+ */
+function splitCommandSegments(command: string): string[] {
+  return command
+    .split(/&&|\|\||(?<![<>])&(?!>)|[;|\n]|\$\(|[`()]/)
+    .map((segment) => segment.trim())
+    .filter(Boolean);
+}
+
+/**
+ * A command matches a pattern if the full command, its executable,
+ * or its leading words match (so "sudo" also catches "sudo reboot")
+ */
+function matchesCommand(command: string, pattern: string): boolean {
+  if (matchesPattern(command, pattern)) {
+    return true;
+  }
+  const executable = command.split(/\s+/)[0] ?? "";
+  if (matchesPattern(executable, pattern)) {
+    return true;
+  }
+  return command.startsWith(`${pattern} `);
+}
+
 function matchesPattern(value: string, pattern: string): boolean {
   if (pattern === "*") {
     return true;
@@ -1,3 +1,4 @@
 export * from "./resolver.js";
 export * from "./tool-policy.js";
 export * from "./command-policy.js";
+export * from "./approval-policy.js";
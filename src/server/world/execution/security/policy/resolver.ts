@@ -7,6 +7,7 @@ import type {
   WorkspaceAccess,
 } from "../types.js";
 import type { ConversationType } from "@server/agents/zuckerman/conversations/types.js";
+import { resolveApprovalPolicy } from "./approval-policy.js";
 
 /**
  * Resolve security context for a conversation
@@ -29,6 +30,9 @@ export function resolveSecurityContext(
   // Resolve workspace access
   const workspaceAccess = resolveWorkspaceAccess(config, conversationType, isSandboxed);
 
+  // Resolve which tool calls wait for a human decision
+  const approvalPolicy = resolveApprovalPolicy(config?.approval, conversationType);
+
   return {
     conversationId,
     conversationType,
@@ -37,6 +41,7 @@ export function resolveSecurityContext(
     toolPolicy,
     executionPolicy,
     workspaceAccess,
+    ...(approvalPolicy && { approvalPolicy }),
   };
 }
 
@@ -11,6 +11,7 @@ const TOOL_GROUPS: Record<string, string[]> = {
   "group:ui": ["browser", "canvas"],
   "group:automation": ["cron", "gateway"],
   "group:messaging": ["message"],
+  "group:mcp": ["mcp_*"], // Tools from configured MCP servers
 };
 
 /**
@@ -98,6 +99,14 @@ export function isToolAllowed(
   return true;
 }
 
+/**
+ * Check if a tool name matches a tool name, wildcard or group pattern
+ */
+export function matchesToolPattern(toolName: string, pattern: string): boolean {
+  const name = toolName.toLowerCase();
+  return expandToolList([pattern]).some((tool) => matchesPattern(name, tool.toLowerCase()));
+}
+
 function matchesPattern(value: string, pattern: string): boolean {
   if (pattern === "*") {
     return true;
@@ -12,11 +12,13 @@ export const AGENT_WORKSPACE_MOUNT = "/agent-workspace";
  */
 export function execDocker(
   args: string[],
-  opts?: { allowFailure?: boolean },
+  opts?: { allowFailure?: boolean; signal?: AbortSignal },
 ): Promise<{ stdout: string; stderr: string; code: number }> {
   return new Promise((resolve, reject) => {
+    // Aborting the signal kills the docker client
     const child = spawn("docker", args, {
       stdio: ["ignore", "pipe", "pipe"],
+      signal: opts?.signal,
     });
 
     let stdout = "";
@@ -265,6 +267,7 @@ export async function execInContainer(
     cwd?: string;
     env?: Record<string, string>;
     input?: string;
+    signal?: AbortSignal;
   },
 ): Promise<{ stdout: string; stderr: string; exitCode: number }> {
   const execArgs = ["exec", "-i"];
@@ -281,7 +284,7 @@ export async function execInContainer(
 
   execArgs.push(containerName, command, ...args);
 
-  return execDocker(execArgs, { allowFailure: true }).then((result) => ({
+  return execDocker(execArgs, { allowFailure: true, signal: options?.signal }).then((result) => ({
     stdout: result.stdout,
     stderr: result.stderr,
     exitCode: result.code,
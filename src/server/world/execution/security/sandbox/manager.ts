@@ -179,6 +179,7 @@ export async function executeInSandbox(
     cwd?: string;
     env?: Record<string, string>;
     input?: string;
+    signal?: AbortSignal;
   },
 ): Promise<{ stdout: string; stderr: string; exitCode: number }> {
   // Ensure container is running
@@ -61,15 +61,51 @@ export interface ExecutionSecurity {
   blockedPaths?: string[];
 }
 
+/**
+ * When a tool call has to wait for a human decision before it runs
+ */
+export interface ToolApprovalRule {
+  tool: string; // Tool name, wildcard or group (e.g. "terminal", "browser*", "group:runtime")
+  args?: Record<string, string>; // Argument name -> regex (case-insensitive); all must match
+  conversationTypes?: ConversationType[]; // Default: every conversation type
+  action?: "require" | "skip"; // "skip" exempts matching calls from later rules. Default: "require"
+}
+
+export interface ToolApprovalConfig {
+  enabled?: boolean;
+  rules?: ToolApprovalRule[]; // First matching rule wins. Default: terminal and multiedit
+  timeoutMs?: number; // Unanswered requests are denied after this long. Default: 600000 (10 minutes)
+  approvers?: string[]; // Chat senders who may decide approvals, as "<channel>:<sender id>" (e.g. "telegram:12345"), the person and not the chat. Default: none, only the app and CLI
+}
+
+/**
+ * Approval rules that apply to one conversation
+ */
+export interface ApprovalPolicy {
+  rules: ToolApprovalRule[];
+  timeoutMs: number;
+}
+
 export interface ConversationSecurity {
   sandbox?: boolean;
   tools?: ToolPolicy;
   execution?: ExecutionSecurity;
 }
 
+/**
+ * Gateway token scopes, from least to most privileged
+ */
+export type GatewayScope = "read" | "write" | "admin";
+
+export interface GatewayTokenEntry {
+  token: string;
+  scope?: GatewayScope; // Defaults to "admin"
+  name?: string;
+}
+
 export interface GatewayAuthConfig {
   enabled?: boolean;
-  tokens?: string[];
+  tokens?: Array<string | GatewayTokenEntry>; // Plain strings are admin tokens
   apiKeys?: string[];
   rateLimit?: {
     requestsPerMinute?: number;
@@ -94,6 +130,7 @@ export interface SecurityConfig {
   };
   gateway?: GatewayAuthConfig;
   secrets?: SecretConfig;
+  approval?: ToolApprovalConfig;
 }
 
 export interface SecurityContext {
@@ -105,6 +142,7 @@ export interface SecurityContext {
   executionPolicy: ExecutionSecurity;
   workspaceAccess: WorkspaceAccess;
   sandboxContainerName?: string;
+  approvalPolicy?: ApprovalPolicy; // Unset when approvals are off
 }
 
 export interface SandboxContext {
@@ -44,6 +44,14 @@ export function getActivityFilePath(date: string): string {
   return join(getActivitiesDir(), `${date}.jsonl`);
 }
 
+export function getUsageDir(): string {
+  return join(getBaseDir(), "usage");
+}
+
+export function getUsageFilePath(date: string): string {
+  return join(getUsageDir(), `${date}.jsonl`);
+}
+
 export function getCredentialsDir(): string {
   return join(getBaseDir(), "credentials");
 }
@@ -52,6 +60,17 @@ export function getWhatsAppAuthDir(): string {
   return join(getCredentialsDir(), "whatsapp");
 }
 
+export function getPairingDir(): string {
+  return join(getCredentialsDir(), "pairing");
+}
+
+/**
+ * Token the local CLI presents to the gateway
+ */
+export function getGatewayTokenPath(): string {
+  return join(getCredentialsDir(), "gateway-token");
+}
+
 export function getSecretsDir(): string {
   return join(getBaseDir(), "secrets");
 }
@@ -126,6 +145,10 @@ export function getAgentMemoryStorePath(agentId: string, storeName: string): str
   return join(getAgentMemoryStoresDir(agentId), `${storeName}.json`);
 }
 
+export function getAgentMemoryStoreDbPath(agentId: string): string {
+  return join(getAgentMemoryStoresDir(agentId), "memories.sqlite");
+}
+
 export function getAgentWorkspaceDir(agentId: string): string {
   return join(getAgentDir(agentId), "workspace");
 }
@@ -1,3 +1,4 @@
 export * from "./llm/index.js";
 export * from "./tts/index.js";
 export * from "./embeddings/index.js";
+export * from "./mcp/index.js";
@@ -1,3 +1,17 @@
 // Main entry point - public API
-export { LLMProvider } from "./llm-provider.js";
+export { LLMProvider, type ModelSelection, type ResolvedModel } from "./llm-provider.js";
+export { thinkingProviderOptions, isThinkingLevel } from "./thinking.js";
+export { generateStructured, extractJsonObject, type StructuredGenerateOptions } from "./structured.js";
+export {
+  BUILT_IN_PROVIDERS,
+  listProviderNames,
+  listConfiguredProviders,
+  listProviderModels,
+  resolveProviderSettings,
+  resolveModelCapabilities,
+  providerConfigError,
+  type LLMProviderSettings,
+  type LLMModelInfo,
+} from "./registry.js";
 export * from "./types.js";
+export * from "./usage/index.js";
@@ -1,8 +1,41 @@
-import type { ZuckermanConfig, ModelTrait } from "@server/world/config/types.js";
+import type { ZuckermanConfig, ModelTrait, ModelCapabilities } from "@server/world/config/types.js";
 import { loadConfig } from "@server/world/config/index.js";
-import { createOpenAI } from "@ai-sdk/openai";
-import { createAnthropic } from "@ai-sdk/anthropic";
 import type { LanguageModel } from "ai";
+import type { ThinkingLevel } from "@server/world/runtime/agents/types.js";
+import { thinkingProviderOptions } from "./thinking.js";
+import {
+  createLanguageModel,
+  listConfiguredProviders,
+  listProviderNames,
+  providerConfigError,
+  resolveModelCapabilities,
+  resolveProviderSettings,
+  type LLMProviderSettings,
+} from "./registry.js";
+
+/**
+ * What a caller wants from a model call. Explicit provider/model win over the trait.
+ */
+export interface ModelSelection {
+  trait: ModelTrait;
+  provider?: string;
+  modelId?: string;
+  temperature?: number;
+  thinkingLevel?: ThinkingLevel;
+}
+
+/**
+ * A model ready to pass to generateText/streamText
+ */
+export interface ResolvedModel {
+  model: LanguageModel;
+  provider: string;
+  modelId: string;
+  trait: ModelTrait;
+  temperature?: number;
+  providerOptions?: Record<string, Record<string, any>>;
+  capabilities: ModelCapabilities;
+}
 
 /**
  * Main LLM Provider - unified entry point for LLM provider and model selection
@@ -35,55 +68,39 @@ export class LLMProvider {
     LLMProvider.instance = null;
   }
 
-  /**
-   * Select provider based on configuration
-   */
-  private async selectProvider(): Promise<{ name: string; apiKey: string }> {
+  private async getConfig(): Promise<ZuckermanConfig> {
     if (!this.config) {
       this.config = await loadConfig();
     }
-    const config = this.config;
-    // Check environment variables first, then config
-    const anthropicKey = process.env.ANTHROPIC_API_KEY || config.llm?.anthropic?.apiKey;
-    const openaiKey = process.env.OPENAI_API_KEY || config.llm?.openai?.apiKey;
-    const openrouterKey = process.env.OPENROUTER_API_KEY || config.llm?.openrouter?.apiKey;
-
-    // Determine provider: use config default, or auto-detect from available keys
-    const providerName = config.agents?.defaults?.defaultProvider || 
-      (openrouterKey ? "openrouter" :
-       anthropicKey ? "anthropic" :
-       openaiKey ? "openai" : null);
-
-    let provider: { name: string; apiKey: string } | undefined;
-
-    if (providerName === "anthropic" && anthropicKey) {
-      provider = { name: "anthropic", apiKey: anthropicKey };
-    } else if (providerName === "openai" && openaiKey) {
-      provider = { name: "openai", apiKey: openaiKey };
-    } else if (providerName === "openrouter" && openrouterKey) {
-      provider = { name: "openrouter", apiKey: openrouterKey };
-    }
+    return this.config;
+  }
 
-    // Fallback: try any available provider in priority order
-    if (!provider) {
-      if (openrouterKey) {
-        provider = { name: "openrouter", apiKey: openrouterKey };
-      } else if (anthropicKey) {
-        provider = { name: "anthropic", apiKey: anthropicKey };
-      } else if (openaiKey) {
-        provider = { name: "openai", apiKey: openaiKey };
+  /**
+   * Select provider based on configuration (or the explicitly requested one)
+   */
+  private async selectProvider(preferred?: string): Promise<LLMProviderSettings> {
+    const config = await this.getConfig();
+
+    if (preferred) {
+      const settings = resolveProviderSettings(config.llm, preferred);
+      if (!settings) {
+        throw new Error(`Unknown provider: ${preferred}`);
       }
+      const error = providerConfigError(settings);
+      if (error) {
+        throw new Error(`${error}, but it was requested`);
+      }
+      return settings;
     }
 
+    // Use the config default when it is ready, else the first configured provider
+    const available = listConfiguredProviders(config.llm);
+    const defaultName = config.agents?.defaults?.defaultProvider;
+    const provider = available.find(settings => settings.name === defaultName) ?? available[0];
+
     if (!provider) {
-      const availableKeys = [
-        openrouterKey && "OPENROUTER_API_KEY",
-        anthropicKey && "ANTHROPIC_API_KEY",
-        openaiKey && "OPENAI_API_KEY",
-      ].filter(Boolean);
-      
       throw new Error(
-        `No LLM provider available. Set ANTHROPIC_API_KEY, OPENAI_API_KEY, or OPENROUTER_API_KEY environment variable, or configure in .zuckerman/config.json.${availableKeys.length > 0 ? ` Found keys: ${availableKeys.join(", ")}` : ""}`
+        `No LLM provider available. Set ANTHROPIC_API_KEY, OPENAI_API_KEY, OPENROUTER_API_KEY or GEMINI_API_KEY environment variable, or configure a provider under "llm" in .zuckerman/config.json.`
       );
     }
 
@@ -91,85 +108,38 @@ export class LLMProvider {
   }
 
   /**
-   * Select model by trait from config
+   * Select model by trait from config; the provider's defaultModel covers unmapped traits
    */
-  private async selectModelByTrait(
-    providerName: string,
+  private selectModelByTrait(
+    provider: LLMProviderSettings,
     trait: ModelTrait
-  ): Promise<string> {
-    if (!this.config) {
-      this.config = await loadConfig();
-    }
-    const config = this.config;
-    const llmConfig = config.llm;
-    if (!llmConfig) {
-      throw new Error(`LLM config not found. Please configure LLM settings in config file.`);
-    }
-
-    // Type-safe access based on provider name
-    let configTraits: Record<ModelTrait, string> | undefined;
-    if (providerName === "anthropic") {
-      configTraits = llmConfig.anthropic?.traits;
-    } else if (providerName === "openai") {
-      configTraits = llmConfig.openai?.traits;
-    } else if (providerName === "openrouter") {
-      configTraits = llmConfig.openrouter?.traits;
-    }
-    
-    if (configTraits && configTraits[trait]) {
-      return configTraits[trait];
+  ): string {
+    const modelId = provider.traits?.[trait] ?? provider.defaultModel;
+    if (modelId) {
+      return modelId;
     }
 
     throw new Error(
-      `No trait mapping found for provider "${providerName}" and trait "${trait}". Please configure trait mappings in config file.`
+      `No trait mapping found for provider "${provider.name}" and trait "${trait}". Please configure trait mappings (or a defaultModel) in config file.`
     );
   }
 
   /**
-   * Create LanguageModel from provider and model ID
+   * Names of every provider a selection may use, configured or not
    */
-  private createModel(
-    providerName: string,
-    modelId: string,
-    apiKey: string,
-    options?: { baseUrl?: string; customHeaders?: () => HeadersInit }
-  ): LanguageModel {
-    // Convert HeadersInit to Record<string, string>
-    const convertHeaders = (headers?: HeadersInit): Record<string, string> | undefined => {
-      if (!headers) return undefined;
-      if (typeof headers === "object" && !Array.isArray(headers)) {
-        const result: Record<string, string> = {};
-        for (const [key, value] of Object.entries(headers)) {
-          result[key] = String(value);
-        }
-        return result;
-      }
-      return undefined;
-    };
+  async listProviderNames(): Promise<string[]> {
+    return listProviderNames((await this.getConfig()).llm);
+  }
 
-    if (providerName === "openai") {
-      const provider = createOpenAI({
-        apiKey,
-        baseURL: options?.baseUrl,
-        headers: options?.customHeaders ? convertHeaders(options.customHeaders()) : undefined,
-      });
-      return provider(modelId);
-    } else if (providerName === "anthropic") {
-      const provider = createAnthropic({
-        apiKey,
-      });
-      return provider(modelId);
-    } else if (providerName === "openrouter") {
-      // OpenRouter uses OpenAI-compatible API
-      const provider = createOpenAI({
-        apiKey,
-        baseURL: options?.baseUrl || "https://openrouter.ai/api/v1",
-        headers: options?.customHeaders ? convertHeaders(options.customHeaders()) : undefined,
-      });
-      return provider(modelId);
-    } else {
+  /**
+   * Capabilities of a model, so callers can skip features it lacks
+   */
+  async getCapabilities(providerName: string, modelId: string): Promise<ModelCapabilities> {
+    const settings = resolveProviderSettings((await this.getConfig()).llm, providerName);
+    if (!settings) {
       throw new Error(`Unknown provider: ${providerName}`);
     }
+    return resolveModelCapabilities(settings, modelId);
   }
 
   /**
@@ -178,22 +148,28 @@ export class LLMProvider {
   private async selectByTrait(
     trait: ModelTrait
   ): Promise<LanguageModel> {
-    const provider = await this.selectProvider();
-    const modelId = await this.selectModelByTrait(provider.name, trait);
-    
-    // Extract options for OpenRouter
-    let options: { baseUrl?: string; customHeaders?: () => HeadersInit } | undefined;
-    if (provider.name === "openrouter") {
-      options = {
-        baseUrl: "https://openrouter.ai/api/v1",
-        customHeaders: () => ({
-          "HTTP-Referer": process.env.OPENROUTER_HTTP_REFERER || "https://github.com/zuckerman",
-          "X-Title": process.env.OPENROUTER_X_TITLE || "Zuckerman",
-        }),
-      };
-    }
-    
-    return this.createModel(provider.name, modelId, provider.apiKey, options);
+    return (await this.resolve({ trait })).model;
+  }
+
+  /**
+   * Resolve a model for one call: explicit provider/model first, then the trait mapping.
+   * Thinking levels are translated into the provider's reasoning options.
+   */
+  async resolve(selection: ModelSelection): Promise<ResolvedModel> {
+    const provider = await this.selectProvider(selection.provider);
+    const modelId = selection.modelId ?? this.selectModelByTrait(provider, selection.trait);
+
+    const providerOptions = thinkingProviderOptions(provider.type, selection.thinkingLevel);
+    return {
+      model: createLanguageModel(provider, modelId),
+      provider: provider.name,
+      modelId,
+      trait: selection.trait,
+      // Anthropic rejects a custom temperature while extended thinking is on
+      temperature: provider.type === "anthropic" && providerOptions ? undefined : selection.temperature,
+      providerOptions,
+      capabilities: resolveModelCapabilities(provider, modelId),
+    };
   }
 
   /**
@@ -232,9 +208,9 @@ export class LLMProvider {
   }
 
   /**
-   * Clear provider cache (no-op now, kept for compatibility)
+   * Drop the cached config so provider changes apply to the next call
    */
   clearCache(): void {
-    // No-op: no caching needed with AI SDK
+    this.config = null;
   }
 }
@@ -0,0 +1,324 @@
+import { createOpenAI } from "@ai-sdk/openai";
+import { createAnthropic } from "@ai-sdk/anthropic";
+import type { LanguageModel } from "ai";
+import type {
+  LLMConfig,
+  LLMProviderConfig,
+  LLMProviderType,
+  ModelCapabilities,
+} from "@server/world/config/types.js";
+
+/**
+ * A provider's config with its name, type, and API key/base URL filled in from env vars and presets
+ */
+export interface LLMProviderSettings extends LLMProviderConfig {
+  name: string;
+  type: LLMProviderType;
+}
+
+export interface LLMModelInfo {
+  id: string;
+  name: string;
+  createdAt?: string;
+  contextWindow?: number;
+}
+
+interface LLMProviderDefinition {
+  apiKeyEnv: string[]; // Checked before the config's apiKey
+  baseUrlEnv?: string;
+  requiresApiKey: boolean;
+  capabilities: ModelCapabilities;
+  createModel(settings: LLMProviderSettings, modelId: string): LanguageModel;
+  listModels(settings: LLMProviderSettings): Promise<LLMModelInfo[]>;
+}
+
+// Built-in providers in auto-detect priority order
+export const BUILT_IN_PROVIDERS = ["openrouter", "anthropic", "openai", "gemini", "azure"] as const;
+
+// Default endpoints of common local servers, so `llm.providers.ollama: {}` is enough
+const LOCAL_BASE_URLS: Record<string, string> = {
+  ollama: "http://localhost:11434/v1",
+  lmstudio: "http://localhost:1234/v1",
+  llamacpp: "http://localhost:8080/v1",
+  vllm: "http://localhost:8000/v1",
+};
+
+const OPENROUTER_BASE_URL = "https://openrouter.ai/api/v1";
+const GEMINI_BASE_URL = "https://generativelanguage.googleapis.com/v1beta";
+
+// Local servers don't all honour json_schema response formats, so structured output falls back to prompting
+const COMPATIBLE_CAPABILITIES: ModelCapabilities = { toolCalling: true, structuredOutput: false, vision: false };
+const VISION_MODEL_PATTERN = /(gpt-4o|gpt-4\.1|gpt-5|claude|gemini|vision|llava|pixtral|-vl\b|-vl-|bakllava|moondream)/i;
+
+/**
+ * Extract date from model ID if it contains a date pattern (e.g., claude-3-5-sonnet-20241022)
+ */
+function extractDateFromId(id: string): string | undefined {
+  const dateMatch = id.match(/(\d{4})(\d{2})(\d{2})/);
+  return dateMatch ? `${dateMatch[1]}-${dateMatch[2]}-${dateMatch[3]}T00:00:00Z` : undefined;
+}
+
+function newestFirst(a: LLMModelInfo, b: LLMModelInfo): number {
+  const dateA = a.createdAt ? new Date(a.createdAt).getTime() : 0;
+  const dateB = b.createdAt ? new Date(b.createdAt).getTime() : 0;
+  return dateB - dateA;
+}
+
+async function fetchJson<T>(url: string, headers: Record<string, string>, label: string): Promise<T> {
+  const response = await fetch(url, { headers, signal: AbortSignal.timeout(15000) });
+  if (!response.ok) {
+    throw new Error(`${label} API error: ${response.status}`);
+  }
+  return await response.json() as T;
+}
+
+function authHeaders(settings: LLMProviderSettings): Record<string, string> {
+  return {
+    ...(settings.apiKey && { Authorization: `Bearer ${settings.apiKey}` }),
+    ...settings.headers,
+  };
+}
+
+/**
+ * GET <baseUrl>/models on an OpenAI-style API. vLLM and OpenRouter add context sizes.
+ */
+async function listOpenAIStyleModels(settings: LLMProviderSettings, label: string): Promise<LLMModelInfo[]> {
+  const data = await fetchJson<{
+    data?: Array<{ id: string; name?: string; created?: number; context_length?: number; max_model_len?: number }>;
+  }>(`${settings.baseUrl!.replace(/\/$/, "")}/models`, authHeaders(settings), label);
+
+  return (data.data ?? []).map((model) => ({
+    id: model.id,
+    name: model.name || model.id,
+    createdAt: model.created ? new Date(model.created * 1000).toISOString() : extractDateFromId(model.id),
+    contextWindow: model.context_length ?? model.max_model_len,
+  }));
+}
+
+const DEFINITIONS: Record<LLMProviderType, LLMProviderDefinition> = {
+  anthropic: {
+    apiKeyEnv: ["ANTHROPIC_API_KEY"],
+    requiresApiKey: true,
+    capabilities: { toolCalling: true, structuredOutput: true, vision: true, contextWindow: 200000 },
+    createModel: (settings, modelId) =>
+      createAnthropic({ apiKey: settings.apiKey, baseURL: settings.baseUrl, headers: settings.headers })(modelId),
+    listModels: async (settings) => {
+      const data = await fetchJson<{ data?: Array<{ id: string; display_name?: string; created_at?: string }> }>(
+        `${settings.baseUrl ?? "https://api.anthropic.com/v1"}/models`,
+        { "x-api-key": settings.apiKey!, "anthropic-version": "2023-06-01" },
+        "Anthropic",
+      );
+      return (data.data ?? [])
+        // Filter out non-text models (TTS, image generation, etc.)
+        .filter((model) => !/tts|audio|whisper/i.test(model.id))
+        .map((model) => ({
+          id: model.id,
+          name: model.display_name || model.id,
+          createdAt: model.created_at || extractDateFromId(model.id),
+        }))
+        .sort(newestFirst);
+    },
+  },
+
+  openai: {
+    apiKeyEnv: ["OPENAI_API_KEY"],
+    requiresApiKey: true,
+    capabilities: { toolCalling: true, structuredOutput: true, vision: true, contextWindow: 128000 },
+    createModel: (settings, modelId) =>
+      createOpenAI({ apiKey: settings.apiKey, baseURL: settings.baseUrl, headers: settings.headers })(modelId),
+    listModels: async (settings) => {
+      const models = await listOpenAIStyleModels({ ...settings, baseUrl: settings.baseUrl ?? "https://api.openai.com/v1" }, "OpenAI");
+      // Only chat models
+      return models
+        .filter((model) => model.id.startsWith("gpt-"))
+        .map((model) => ({ ...model, name: model.id.replace("gpt-", "GPT-").replace(/-/g, " ") }))
+        .sort(newestFirst);
+    },
+  },
+
+  openrouter: {
+    apiKeyEnv: ["OPENROUTER_API_KEY"],
+    requiresApiKey: true,
+    capabilities: { toolCalling: true, structuredOutput: true, vision: false },
+    // OpenRouter uses OpenAI-compatible API
+    createModel: (settings, modelId) =>
+      createOpenAI({
+        apiKey: settings.apiKey,
+        baseURL: settings.baseUrl ?? OPENROUTER_BASE_URL,
+        headers: {
+          "HTTP-Referer": process.env.OPENROUTER_HTTP_REFERER || "https://github.com/zuckerman",
+          "X-Title": process.env.OPENROUTER_X_TITLE || "Zuckerman",
+          ...settings.headers,
+        },
+      })(modelId),
+    listModels: async (settings) => {
+      const models = await listOpenAIStyleModels({ ...settings, baseUrl: settings.baseUrl ?? OPENROUTER_BASE_URL }, "OpenRouter");
+      // Exclude TTS, audio, image generation, and other non-text models
+      return models
+        .filter((model) => !/tts|audio|whisper|image/i.test(model.id))
+        .sort(newestFirst);
+    },
+  },
+
+  gemini: {
+    apiKeyEnv: ["GEMINI_API_KEY", "GOOGLE_GENERATIVE_AI_API_KEY"],
+    requiresApiKey: true,
+    capabilities: { toolCalling: true, structuredOutput: true, vision: true, contextWindow: 1048576 },
+    // Gemini's OpenAI-compatible chat completions endpoint
+    createModel: (settings, modelId) =>
+      createOpenAI({
+        apiKey: settings.apiKey,
+        baseURL: `${settings.baseUrl ?? GEMINI_BASE_URL}/openai`,
+        headers: settings.headers,
+      }).chat(modelId),
+    listModels: async (settings) => {
+      const data = await fetchJson<{
+        models?: Array<{ name: string; displayName?: string; inputTokenLimit?: number; supportedGenerationMethods?: string[] }>;
+      }>(`${settings.baseUrl ?? GEMINI_BASE_URL}/models?pageSize=1000`, { "x-goog-api-key": settings.apiKey!, ...settings.headers }, "Gemini");
+
+      return (data.models ?? [])
+        .filter((model) => model.supportedGenerationMethods?.includes("generateContent"))
+        .map((model) => ({
+          id: model.name.replace(/^models\//, ""),
+          name: model.displayName || model.name,
+          contextWindow: model.inputTokenLimit,
+        }));
+    },
+  },
+
+  azure: {
+    apiKeyEnv: ["AZURE_OPENAI_API_KEY"],
+    baseUrlEnv: "AZURE_OPENAI_BASE_URL",
+    requiresApiKey: true,
+    capabilities: { toolCalling: true, structuredOutput: true, vision: true, contextWindow: 128000 },
+    // Azure's v1 API; the model id is the deployment name
+    createModel: (settings, modelId) =>
+      createOpenAI({
+        apiKey: settings.apiKey,
+        baseURL: settings.baseUrl,
+        headers: { "api-key": settings.apiKey!, ...settings.headers },
+      }).chat(modelId),
+    listModels: (settings) =>
+      listOpenAIStyleModels({ ...settings, headers: { "api-key": settings.apiKey!, ...settings.headers } }, "Azure OpenAI"),
+  },
+
+  "openai-compatible": {
+    apiKeyEnv: [],
+    requiresApiKey: false,
+    capabilities: COMPATIBLE_CAPABILITIES,
+    createModel: (settings, modelId) =>
+      createOpenAI({
+        // Local servers usually ignore the key, but the SDK insists on one
+        apiKey: settings.apiKey ?? "not-needed",
+        baseURL: settings.baseUrl,
+        headers: settings.headers,
+      }).chat(modelId),
+    listModels: (settings) => listOpenAIStyleModels(settings, settings.name),
+  },
+};
+
+function isBuiltIn(name: string): name is typeof BUILT_IN_PROVIDERS[number] {
+  return (BUILT_IN_PROVIDERS as readonly string[]).includes(name);
+}
+
+/**
+ * Every provider name a selection may use: the built-ins plus llm.providers
+ */
+export function listProviderNames(llm: LLMConfig | undefined): string[] {
+  return [...BUILT_IN_PROVIDERS, ...Object.keys(llm?.providers ?? {}).filter((name) => !isBuiltIn(name))];
+}
+
+/**
+ * Settings of a provider by name, or null when there is no such provider
+ */
+export function resolveProviderSettings(llm: LLMConfig | undefined, name: string): LLMProviderSettings | null {
+  let config: LLMProviderConfig;
+  let type: LLMProviderType;
+  if (isBuiltIn(name)) {
+    config = llm?.[name] ?? {};
+    type = name;
+  } else if (llm?.providers?.[name]) {
+    config = llm.providers[name];
+    type = config.type ?? "openai-compatible";
+  } else {
+    return null;
+  }
+
+  const definition = DEFINITIONS[type];
+  const envKey = definition.apiKeyEnv.map((key) => process.env[key]).find(Boolean);
+  const envBaseUrl = definition.baseUrlEnv ? process.env[definition.baseUrlEnv] : undefined;
+  return {
+    ...config,
+    name,
+    type,
+    apiKey: envKey || config.apiKey,
+    baseUrl: config.baseUrl || envBaseUrl || (type === "openai-compatible" ? LOCAL_BASE_URLS[name] : undefined),
+  };
+}
+
+/**
+ * Why a provider can't be used yet, or null when it is ready
+ */
+export function providerConfigError(settings: LLMProviderSettings): string | null {
+  const definition = DEFINITIONS[settings.type];
+  if (definition.requiresApiKey && !settings.apiKey) {
+    const env = definition.apiKeyEnv.length > 0 ? ` (set ${definition.apiKeyEnv[0]} or llm.${settings.name}.apiKey)` : "";
+    return `Provider "${settings.name}" has no API key configured${env}`;
+  }
+  if ((settings.type === "azure" || settings.type === "openai-compatible") && !settings.baseUrl) {
+    return `Provider "${settings.name}" needs a baseUrl`;
+  }
+  return null;
+}
+
+/**
+ * Providers that are ready to use, in auto-detect order
+ */
+export function listConfiguredProviders(llm: LLMConfig | undefined): LLMProviderSettings[] {
+  return listProviderNames(llm)
+    .map((name) => resolveProviderSettings(llm, name))
+    .filter((settings): settings is LLMProviderSettings => settings !== null && providerConfigError(settings) === null);
+}
+
+export function createLanguageModel(settings: LLMProviderSettings, modelId: string): LanguageModel {
+  return DEFINITIONS[settings.type].createModel(settings, modelId);
+}
+
+/**
+ * Live model list from the provider's API
+ */
+export async function listProviderModels(settings: LLMProviderSettings): Promise<LLMModelInfo[]> {
+  const error = providerConfigError(settings);
+  if (error) {
+    throw new Error(error);
+  }
+  return DEFINITIONS[settings.type].listModels(settings);
+}
+
+function matchesModel(modelId: string, pattern: string): boolean {
+  if (!pattern.includes("*")) {
+    return pattern === modelId;
+  }
+  const escaped = pattern.split("*").map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"));
+  return new RegExp(`^${escaped.join(".*")}$`).test(modelId);
+}
+
+/**
+ * What a model can do: the provider's defaults, then the config's capability overrides
+ * (wildcard entries first, so an exact model id wins).
+ */
+export function resolveModelCapabilities(settings: LLMProviderSettings, modelId: string): ModelCapabilities {
+  const defaults = DEFINITIONS[settings.type].capabilities;
+  const capabilities: ModelCapabilities = {
+    ...defaults,
+    vision: defaults.vision || VISION_MODEL_PATTERN.test(modelId),
+  };
+
+  const overrides = Object.entries(settings.capabilities ?? {})
+    .filter(([pattern]) => matchesModel(modelId, pattern))
+    .sort(([a], [b]) => Number(!a.includes("*")) - Number(!b.includes("*")));
+  for (const [, override] of overrides) {
+    Object.assign(capabilities, override);
+  }
+  return capabilities;
+}
@@ -0,0 +1,53 @@
+import { generateText, Output, type ModelMessage } from "ai";
+import { zodSchema } from "@ai-sdk/provider-utils";
+import type { z } from "zod";
+import type { ResolvedModel } from "./llm-provider.js";
+
+export interface StructuredGenerateOptions<T> {
+  system?: string;
+  messages: ModelMessage[];
+  schema: z.ZodType<T>;
+  temperature?: number;
+  abortSignal?: AbortSignal;
+}
+
+/**
+ * Pull the JSON object out of a model reply that may wrap it in prose or a code fence
+ */
+export function extractJsonObject(text: string): unknown {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/);
+  const candidate = fenced ? fenced[1] : text;
+  const start = candidate.indexOf("{");
+  const end = candidate.lastIndexOf("}");
+  if (start === -1 || end <= start) {
+    throw new Error("Model reply contains no JSON object");
+  }
+  return JSON.parse(candidate.slice(start, end + 1));
+}
+
+/**
+ * generateText with a typed result. Models with native structured output use Output.object;
+ * the others get the JSON schema in the prompt and their reply is parsed and validated.
+ */
+export async function generateStructured<T>(resolved: ResolvedModel, options: StructuredGenerateOptions<T>) {
+  const common = {
+    model: resolved.model,
+    temperature: options.temperature ?? resolved.temperature,
+    providerOptions: resolved.providerOptions,
+    system: options.system,
+    abortSignal: options.abortSignal,
+  };
+
+  if (resolved.capabilities.structuredOutput) {
+    const result = await generateText({ ...common, messages: options.messages, output: Output.object({ schema: options.schema }) });
+    return { output: result.output, totalUsage: result.totalUsage };
+  }
+
+  const jsonSchema = await zodSchema(options.schema).jsonSchema;
+  const instruction = `Reply with only a JSON object (no prose, no code fence) that matches this JSON schema:\n${JSON.stringify(jsonSchema)}`;
+  const result = await generateText({
+    ...common,
+    messages: [...options.messages, { role: "user" as const, content: instruction }],
+  });
+  return { output: options.schema.parse(extractJsonObject(result.text)), totalUsage: result.totalUsage };
+}
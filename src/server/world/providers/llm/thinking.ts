@@ -0,0 +1,49 @@
+import type { ThinkingLevel } from "@server/world/runtime/agents/types.js";
+
+type ProviderOptions = Record<string, Record<string, any>>;
+
+const THINKING_LEVELS: ThinkingLevel[] = ["off", "minimal", "low", "medium", "high", "xhigh"];
+
+// Anthropic extended thinking budgets (budget must be >= 1024)
+const ANTHROPIC_BUDGETS: Record<Exclude<ThinkingLevel, "off">, number> = {
+  minimal: 1024,
+  low: 4096,
+  medium: 10000,
+  high: 20000,
+  xhigh: 32000,
+};
+
+// OpenAI-style reasoning effort (also understood by OpenRouter, Gemini and Azure)
+const REASONING_EFFORT: Record<Exclude<ThinkingLevel, "off">, string> = {
+  minimal: "minimal",
+  low: "low",
+  medium: "medium",
+  high: "high",
+  xhigh: "high",
+};
+
+export function isThinkingLevel(value: unknown): value is ThinkingLevel {
+  return typeof value === "string" && THINKING_LEVELS.includes(value as ThinkingLevel);
+}
+
+/**
+ * Map a thinking level to the provider's reasoning options.
+ * Returns undefined when the level is off/unset so the provider uses its defaults.
+ */
+export function thinkingProviderOptions(
+  providerType: string,
+  level: ThinkingLevel | undefined,
+): ProviderOptions | undefined {
+  if (!level || level === "off") {
+    return undefined;
+  }
+
+  if (providerType === "anthropic") {
+    return { anthropic: { thinking: { type: "enabled", budgetTokens: ANTHROPIC_BUDGETS[level] } } };
+  }
+  if (["openai", "openrouter", "gemini", "azure"].includes(providerType)) {
+    // These go through the OpenAI SDK provider, so they read the "openai" key
+    return { openai: { reasoningEffort: REASONING_EFFORT[level] } };
+  }
+  return undefined;
+}
@@ -0,0 +1,83 @@
+import type { ModelTrait, UsageBudgetLimits, UsageConfig } from "@server/world/config/types.js";
+import type { ModelSelection } from "../llm-provider.js";
+import { getSpend, periodStart } from "./ledger.js";
+import type { BudgetPeriod, BudgetScope, BudgetStatus, UsageQuery } from "./types.js";
+
+// Cheaper trait to fall back to once a budget is spent
+const DOWNGRADED_TRAITS: Record<ModelTrait, ModelTrait> = {
+  highQuality: "cheap",
+  largeContext: "cheap",
+  fast: "fastCheap",
+  cheap: "fastCheap",
+  fastCheap: "fastCheap",
+};
+
+/**
+ * Check the global, agent and conversation budgets (in that order) against the ledger.
+ * Returns the first limit that has been reached.
+ */
+export function checkBudget(
+  config: UsageConfig | undefined,
+  scope: { agentId: string; conversationId?: string },
+  now: number = Date.now(),
+): BudgetStatus {
+  const budgets = config?.budgets;
+  if (!budgets) {
+    return { exceeded: false };
+  }
+
+  const checks: Array<{ scope: BudgetScope; limits?: UsageBudgetLimits; query: UsageQuery }> = [
+    { scope: "global", limits: budgets, query: {} },
+    { scope: "agent", limits: budgets.agents?.[scope.agentId], query: { agentId: scope.agentId } },
+  ];
+  if (scope.conversationId) {
+    checks.push({ scope: "conversation", limits: budgets.conversation, query: { conversationId: scope.conversationId } });
+  }
+
+  for (const check of checks) {
+    for (const period of ["daily", "monthly"] as BudgetPeriod[]) {
+      const limit = check.limits?.[period];
+      if (limit === undefined) continue;
+
+      const spent = getSpend({ ...check.query, from: periodStart(period, now), to: now });
+      if (spent >= limit) {
+        return { exceeded: true, action: budgets.onExceeded ?? "pause", scope: check.scope, period, limit, spent };
+      }
+    }
+  }
+
+  return { exceeded: false };
+}
+
+/**
+ * Swap a selection for a cheaper one: a cheaper trait, no pinned model and no extended thinking
+ */
+export function downgradeSelection(selection: ModelSelection): ModelSelection {
+  return {
+    ...selection,
+    trait: DOWNGRADED_TRAITS[selection.trait],
+    modelId: undefined,
+    thinkingLevel: undefined,
+  };
+}
+
+/**
+ * Apply the budgets to a background model call (memory classification, sleep consolidation):
+ * null when a "pause" budget is reached, the downgraded selection under "downgrade"
+ */
+export function budgetedSelection(
+  selection: ModelSelection,
+  config: UsageConfig | undefined,
+  scope: { agentId: string; conversationId?: string },
+): ModelSelection | null {
+  const budget = checkBudget(config, scope);
+  if (!budget.exceeded) return selection;
+  return budget.action === "downgrade" ? downgradeSelection(selection) : null;
+}
+
+export function describeBudgetStatus(status: BudgetStatus): string {
+  if (!status.exceeded) {
+    return "within budget";
+  }
+  return `${status.scope} ${status.period} budget reached ($${status.spent.toFixed(4)} of $${status.limit})`;
+}
@@ -0,0 +1,4 @@
+export * from "./types.js";
+export * from "./pricing.js";
+export * from "./ledger.js";
+export * from "./budget.js";
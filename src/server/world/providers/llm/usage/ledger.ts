@@ -0,0 +1,201 @@
+import { randomUUID } from "node:crypto";
+import { existsSync, readFileSync, writeFileSync, mkdirSync } from "node:fs";
+import { dirname } from "node:path";
+import type { ModelTrait, UsageConfig } from "@server/world/config/types.js";
+import { loadConfig } from "@server/world/config/index.js";
+import { getUsageFilePath } from "@server/world/homedir/paths.js";
+import { computeCost, resolveModelPrice } from "./pricing.js";
+import type { TokenUsage, UsageQuery, UsageRecord, UsageStage, UsageSummary, UsageTotals } from "./types.js";
+
+// Records per UTC date, loaded lazily and kept in sync with appends from this process
+const recordsByDate = new Map<string, UsageRecord[]>();
+const unpricedModels = new Set<string>();
+
+function getDateString(timestamp: number): string {
+  return new Date(timestamp).toISOString().split("T")[0];
+}
+
+function getDateRange(from: number, to: number): string[] {
+  const dates: string[] = [];
+  const current = new Date(from);
+  current.setUTCHours(0, 0, 0, 0);
+  while (current.getTime() <= to) {
+    dates.push(getDateString(current.getTime()));
+    current.setUTCDate(current.getUTCDate() + 1);
+  }
+  return dates;
+}
+
+function loadRecords(date: string): UsageRecord[] {
+  const cached = recordsByDate.get(date);
+  if (cached) {
+    return cached;
+  }
+
+  const filePath = getUsageFilePath(date);
+  let records: UsageRecord[] = [];
+  if (existsSync(filePath)) {
+    try {
+      records = readFileSync(filePath, "utf-8")
+        .split("\n")
+        .filter(line => line.trim())
+        .map(line => JSON.parse(line) as UsageRecord);
+    } catch (error) {
+      console.warn(`[Usage] Failed to load usage from ${filePath}:`, error);
+    }
+  }
+  recordsByDate.set(date, records);
+  return records;
+}
+
+/**
+ * Start of the current UTC day or month
+ */
+export function periodStart(period: "daily" | "monthly", now: number = Date.now()): number {
+  const date = new Date(now);
+  if (period === "monthly") {
+    return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1);
+  }
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+}
+
+/**
+ * Append a record to the ledger (one JSONL file per UTC day)
+ */
+export function appendUsageRecord(record: UsageRecord): void {
+  const date = getDateString(record.timestamp);
+  const records = loadRecords(date);
+  const filePath = getUsageFilePath(date);
+  mkdirSync(dirname(filePath), { recursive: true });
+  writeFileSync(filePath, JSON.stringify(record) + "\n", { flag: "a" });
+  records.push(record);
+}
+
+/**
+ * Meter one LLM call: price it and write it to the ledger.
+ * Never throws - metering must not break the call it describes.
+ */
+export async function recordUsage(
+  input: {
+    stage: UsageStage;
+    provider: string;
+    modelId: string;
+    trait?: ModelTrait;
+    usage: TokenUsage | undefined;
+    agentId?: string;
+    conversationId?: string;
+    runId?: string;
+    brainPart?: string;
+  },
+  config?: UsageConfig,
+): Promise<UsageRecord | undefined> {
+  try {
+    const usageConfig = config ?? (await loadConfig()).usage;
+    const inputTokens = input.usage?.inputTokens ?? 0;
+    const outputTokens = input.usage?.outputTokens ?? 0;
+    const price = resolveModelPrice(input.modelId, usageConfig);
+    if (!price && !unpricedModels.has(input.modelId)) {
+      unpricedModels.add(input.modelId);
+      console.warn(`[Usage] No price for model "${input.modelId}", recording its calls at $0. Add it to usage.prices in config.`);
+    }
+
+    const record: UsageRecord = {
+      id: randomUUID(),
+      timestamp: Date.now(),
+      agentId: input.agentId,
+      conversationId: input.conversationId || undefined,
+      runId: input.runId,
+      stage: input.stage,
+      brainPart: input.brainPart,
+      provider: input.provider,
+      modelId: input.modelId,
+      trait: input.trait,
+      inputTokens,
+      outputTokens,
+      totalTokens: input.usage?.totalTokens ?? inputTokens + outputTokens,
+      cost: price ? computeCost({ inputTokens, outputTokens }, price) : 0,
+      priced: Boolean(price),
+    };
+    appendUsageRecord(record);
+    return record;
+  } catch (error) {
+    console.warn(`[Usage] Failed to record ${input.stage} usage:`, error);
+    return undefined;
+  }
+}
+
+/**
+ * Query ledger records (oldest first)
+ */
+export function queryUsage(query: UsageQuery = {}): UsageRecord[] {
+  const to = query.to ?? Date.now();
+  const from = query.from ?? periodStart("monthly", to);
+
+  return getDateRange(from, to)
+    .flatMap(date => loadRecords(date))
+    .filter(record =>
+      record.timestamp >= from &&
+      record.timestamp <= to &&
+      (!query.agentId || record.agentId === query.agentId) &&
+      (!query.conversationId || record.conversationId === query.conversationId)
+    );
+}
+
+/**
+ * Total cost (USD) of the records matching a query
+ */
+export function getSpend(query: UsageQuery): number {
+  return queryUsage(query).reduce((sum, record) => sum + record.cost, 0);
+}
+
+function emptyTotals(): UsageTotals {
+  return { calls: 0, inputTokens: 0, outputTokens: 0, totalTokens: 0, cost: 0 };
+}
+
+function accumulate(totals: UsageTotals, record: UsageRecord): void {
+  totals.calls++;
+  totals.inputTokens += record.inputTokens;
+  totals.outputTokens += record.outputTokens;
+  totals.totalTokens += record.totalTokens;
+  totals.cost += record.cost;
+}
+
+function addTo(groups: Record<string, UsageTotals>, key: string, record: UsageRecord): void {
+  accumulate(groups[key] ??= emptyTotals(), record);
+}
+
+/**
+ * Aggregate usage by agent, conversation, model and stage
+ */
+export function summarizeUsage(query: UsageQuery = {}): UsageSummary {
+  const to = query.to ?? Date.now();
+  const from = query.from ?? periodStart("monthly", to);
+  const summary: UsageSummary = {
+    from,
+    to,
+    totals: emptyTotals(),
+    byAgent: {},
+    byConversation: {},
+    byModel: {},
+    byStage: {},
+  };
+
+  for (const record of queryUsage({ ...query, from, to })) {
+    accumulate(summary.totals, record);
+    addTo(summary.byAgent, record.agentId ?? "unknown", record);
+    if (record.conversationId) {
+      addTo(summary.byConversation, record.conversationId, record);
+    }
+    addTo(summary.byModel, `${record.provider}/${record.modelId}`, record);
+    addTo(summary.byStage, record.stage, record);
+  }
+
+  return summary;
+}
+
+/**
+ * Drop cached ledger files (for tests)
+ */
+export function clearUsageCache(): void {
+  recordsByDate.clear();
+}
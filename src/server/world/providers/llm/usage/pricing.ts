@@ -0,0 +1,35 @@
+import type { ModelPrice, UsageConfig } from "@server/world/config/types.js";
+import type { TokenUsage } from "./types.js";
+
+/**
+ * Built-in prices (USD per 1M tokens) for the models in the default trait mappings.
+ * Override or extend them with usage.prices in config.
+ */
+export const DEFAULT_MODEL_PRICES: Record<string, ModelPrice> = {
+  "claude-opus-4-6": { input: 5, output: 25 },
+  "claude-sonnet-4-5": { input: 3, output: 15 },
+  "claude-haiku-4-5": { input: 1, output: 5 },
+  "gpt-5.2": { input: 1.75, output: 14 },
+  "gpt-4o": { input: 2.5, output: 10 },
+  "gpt-4o-mini": { input: 0.15, output: 0.6 },
+  "deepseek/deepseek-chat": { input: 0.3, output: 1.2 },
+};
+
+/**
+ * Look up a model's price. OpenRouter ids ("anthropic/claude-opus-4-6") fall back to the bare model id.
+ */
+export function resolveModelPrice(modelId: string, config?: UsageConfig): ModelPrice | undefined {
+  const prices = { ...DEFAULT_MODEL_PRICES, ...config?.prices };
+  if (prices[modelId]) {
+    return prices[modelId];
+  }
+  const bare = modelId.includes("/") ? modelId.slice(modelId.indexOf("/") + 1) : undefined;
+  return bare ? prices[bare] : undefined;
+}
+
+/**
+ * Cost of one call in USD
+ */
+export function computeCost(usage: TokenUsage, price: ModelPrice): number {
+  return ((usage.inputTokens ?? 0) * price.input + (usage.outputTokens ?? 0) * price.output) / 1_000_000;
+}
@@ -0,0 +1,75 @@
+import type { ModelTrait } from "@server/world/config/types.js";
+
+/**
+ * Which kind of LLM call consumed the tokens
+ */
+export type UsageStage = "council" | "brainPart" | "respond" | "sleep" | "classifier";
+
+/**
+ * Token counts as reported by generateText/streamText (any field may be missing)
+ */
+export interface TokenUsage {
+  inputTokens?: number;
+  outputTokens?: number;
+  totalTokens?: number;
+}
+
+/**
+ * One metered LLM call, as stored in the usage ledger
+ */
+export interface UsageRecord {
+  id: string;
+  timestamp: number;
+  agentId?: string;
+  conversationId?: string;
+  runId?: string;
+  stage: UsageStage;
+  brainPart?: string;
+  provider: string;
+  modelId: string;
+  trait?: ModelTrait;
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  cost: number; // USD; 0 when the model has no price
+  priced: boolean;
+}
+
+export interface UsageQuery {
+  from?: number; // Start timestamp (ms), default: start of the current UTC month
+  to?: number; // End timestamp (ms), default: now
+  agentId?: string;
+  conversationId?: string;
+}
+
+export interface UsageTotals {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  cost: number;
+}
+
+export interface UsageSummary {
+  from: number;
+  to: number;
+  totals: UsageTotals;
+  byAgent: Record<string, UsageTotals>;
+  byConversation: Record<string, UsageTotals>;
+  byModel: Record<string, UsageTotals>;
+  byStage: Record<string, UsageTotals>;
+}
+
+export type BudgetScope = "global" | "agent" | "conversation";
+export type BudgetPeriod = "daily" | "monthly";
+
+export type BudgetStatus =
+  | { exceeded: false }
+  | {
+      exceeded: true;
+      action: "pause" | "downgrade";
+      scope: BudgetScope;
+      period: BudgetPeriod;
+      limit: number;
+      spent: number;
+    };
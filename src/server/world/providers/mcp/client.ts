@@ -0,0 +1,205 @@
+import {
+  MCP_PROTOCOL_VERSION,
+  JSON_RPC_METHOD_NOT_FOUND,
+  isJsonRpcRequest,
+  type JsonRpcId,
+  type JsonRpcMessage,
+  type JsonRpcResponse,
+  type McpServerInfo,
+  type McpToolDefinition,
+  type McpToolResult,
+  type McpTransport,
+} from "./types.js";
+import { HttpTransport } from "./transport.js";
+
+interface PendingRequest {
+  resolve: (result: unknown) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+  cleanup: () => void;
+}
+
+const DEFAULT_REQUEST_TIMEOUT_MS = 60000;
+const CLIENT_INFO: McpServerInfo = { name: "zuckerman", version: "0.1.0" };
+
+/**
+ * Minimal MCP client: the initialize handshake, tool listing and tool calls over any transport.
+ * Requests the server sends us (other than ping) are answered with "method not found".
+ */
+export class McpClient {
+  private nextId = 1;
+  private pending = new Map<string, PendingRequest>();
+  private connected = false;
+  private toolsChangedHandler?: () => void;
+  private closeHandler?: (error?: Error) => void;
+  serverInfo?: McpServerInfo;
+  protocolVersion?: string;
+
+  constructor(
+    private readonly transport: McpTransport,
+    private readonly requestTimeoutMs: number = DEFAULT_REQUEST_TIMEOUT_MS,
+  ) {
+    transport.onMessage((message) => this.handleMessage(message));
+    transport.onClose((error) => this.handleClose(error));
+  }
+
+  onToolsChanged(handler: () => void): void {
+    this.toolsChangedHandler = handler;
+  }
+
+  onClose(handler: (error?: Error) => void): void {
+    this.closeHandler = handler;
+  }
+
+  isConnected(): boolean {
+    return this.connected;
+  }
+
+  async connect(): Promise<void> {
+    await this.transport.start();
+    this.connected = true;
+
+    try {
+      const result = await this.request<{ protocolVersion: string; serverInfo?: McpServerInfo }>("initialize", {
+        protocolVersion: MCP_PROTOCOL_VERSION,
+        capabilities: {},
+        clientInfo: CLIENT_INFO,
+      });
+      this.protocolVersion = result.protocolVersion;
+      this.serverInfo = result.serverInfo;
+      if (this.transport instanceof HttpTransport) {
+        this.transport.setProtocolVersion(result.protocolVersion);
+      }
+      await this.transport.send({ jsonrpc: "2.0", method: "notifications/initialized" });
+    } catch (error) {
+      await this.close();
+      throw error;
+    }
+  }
+
+  async close(): Promise<void> {
+    this.connected = false;
+    await this.transport.close();
+    this.rejectPending(new Error("MCP connection closed"));
+  }
+
+  /**
+   * All tools the server offers (follows pagination cursors)
+   */
+  async listTools(): Promise<McpToolDefinition[]> {
+    const tools: McpToolDefinition[] = [];
+    let cursor: string | undefined;
+    do {
+      const result = await this.request<{ tools: McpToolDefinition[]; nextCursor?: string }>(
+        "tools/list",
+        cursor ? { cursor } : undefined,
+      );
+      tools.push(...(result.tools ?? []));
+      cursor = result.nextCursor;
+    } while (cursor);
+    return tools;
+  }
+
+  async callTool(name: string, args: Record<string, unknown>, abortSignal?: AbortSignal): Promise<McpToolResult> {
+    return this.request<McpToolResult>("tools/call", { name, arguments: args }, abortSignal);
+  }
+
+  /**
+   * Send a request and wait for its result. Aborting sends notifications/cancelled to the server.
+   */
+  async request<T = unknown>(method: string, params?: Record<string, unknown>, abortSignal?: AbortSignal): Promise<T> {
+    if (!this.connected) {
+      throw new Error("MCP client is not connected");
+    }
+    if (abortSignal?.aborted) {
+      throw new Error(`MCP request "${method}" cancelled`);
+    }
+
+    const id = this.nextId++;
+    const key = String(id);
+
+    const result = new Promise<T>((resolve, reject) => {
+      const onAbort = () => {
+        this.settle(key, new Error(`MCP request "${method}" cancelled`));
+        void this.transport.send({
+          jsonrpc: "2.0",
+          method: "notifications/cancelled",
+          params: { requestId: id, reason: "Cancelled by client" },
+        }).catch(() => undefined);
+      };
+      abortSignal?.addEventListener("abort", onAbort, { once: true });
+
+      const timer = setTimeout(() => {
+        this.settle(key, new Error(`MCP request "${method}" timed out after ${this.requestTimeoutMs}ms`));
+      }, this.requestTimeoutMs);
+
+      this.pending.set(key, {
+        resolve: resolve as (result: unknown) => void,
+        reject,
+        timer,
+        cleanup: () => abortSignal?.removeEventListener("abort", onAbort),
+      });
+    });
+
+    try {
+      await this.transport.send({ jsonrpc: "2.0", id, method, ...(params && { params }) });
+    } catch (error) {
+      this.settle(key, error instanceof Error ? error : new Error(String(error)));
+    }
+    return result;
+  }
+
+  private handleMessage(message: JsonRpcMessage): void {
+    if (isJsonRpcRequest(message)) {
+      this.answerServerRequest(message.id, message.method);
+      return;
+    }
+    if ("method" in message) {
+      if (message.method === "notifications/tools/list_changed") {
+        this.toolsChangedHandler?.();
+      }
+      return;
+    }
+
+    const response = message as JsonRpcResponse;
+    if (response.id === null || response.id === undefined) return;
+    if (response.error) {
+      this.settle(String(response.id), new Error(`MCP error ${response.error.code}: ${response.error.message}`));
+    } else {
+      this.settle(String(response.id), undefined, response.result);
+    }
+  }
+
+  private answerServerRequest(id: JsonRpcId, method: string): void {
+    const response: JsonRpcResponse = method === "ping"
+      ? { jsonrpc: "2.0", id, result: {} }
+      : { jsonrpc: "2.0", id, error: { code: JSON_RPC_METHOD_NOT_FOUND, message: `Client does not support "${method}"` } };
+    void this.transport.send(response).catch(() => undefined);
+  }
+
+  private settle(key: string, error?: Error, result?: unknown): void {
+    const pending = this.pending.get(key);
+    if (!pending) return;
+    this.pending.delete(key);
+    clearTimeout(pending.timer);
+    pending.cleanup();
+    if (error) {
+      pending.reject(error);
+    } else {
+      pending.resolve(result);
+    }
+  }
+
+  private handleClose(error?: Error): void {
+    if (!this.connected) return;
+    this.connected = false;
+    this.rejectPending(error ?? new Error("MCP connection closed"));
+    this.closeHandler?.(error);
+  }
+
+  private rejectPending(error: Error): void {
+    for (const key of Array.from(this.pending.keys())) {
+      this.settle(key, error);
+    }
+  }
+}
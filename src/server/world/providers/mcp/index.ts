@@ -0,0 +1,13 @@
+export { McpClient } from "./client.js";
+export { StdioTransport, HttpTransport } from "./transport.js";
+export {
+  McpClientManager,
+  mcpClients,
+  mcpToolName,
+  isMcpToolAllowed,
+  formatMcpToolResult,
+  MCP_TOOL_PREFIX,
+  type McpServerStatus,
+} from "./manager.js";
+export { McpServer, type McpServerTool } from "./server.js";
+export * from "./types.js";
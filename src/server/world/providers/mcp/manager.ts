@@ -0,0 +1,230 @@
+import { tool, jsonSchema, type Tool } from "@ai-sdk/provider-utils";
+import type { McpConfig, McpServerConfig } from "@server/world/config/types.js";
+import { matchesToolPattern } from "@server/world/execution/security/policy/tool-policy.js";
+import { DEFAULT_IMAGE } from "@server/world/execution/security/sandbox/docker.js";
+import { McpClient } from "./client.js";
+import { StdioTransport, HttpTransport } from "./transport.js";
+import type { McpToolDefinition, McpToolResult, McpTransport } from "./types.js";
+
+export const MCP_TOOL_PREFIX = "mcp_";
+
+export interface McpServerStatus {
+  name: string;
+  transport: "stdio" | "http";
+  connected: boolean;
+  sandboxed: boolean;
+  tools: string[]; // Agent-facing tool names
+  error?: string;
+}
+
+interface McpConnection {
+  key: string; // Serialized server config; a change reconnects
+  config: McpServerConfig;
+  client: McpClient | null;
+  tools: McpToolDefinition[];
+  error?: string;
+  connecting?: Promise<void>;
+}
+
+/**
+ * Agent-facing name of an MCP tool: mcp_<server>_<tool>, limited to the characters and length models accept
+ */
+export function mcpToolName(serverName: string, toolName: string): string {
+  return `${MCP_TOOL_PREFIX}${serverName}_${toolName}`.replace(/[^a-zA-Z0-9_-]/g, "_").slice(0, 64);
+}
+
+/**
+ * Whether a server's allow/deny lists let an MCP tool through (deny wins)
+ */
+export function isMcpToolAllowed(toolName: string, filter: McpServerConfig["tools"]): boolean {
+  if (filter?.deny?.some(pattern => matchesToolPattern(toolName, pattern))) {
+    return false;
+  }
+  if (filter?.allow && filter.allow.length > 0) {
+    return filter.allow.some(pattern => matchesToolPattern(toolName, pattern));
+  }
+  return true;
+}
+
+/**
+ * Render an MCP tool result as the text a model reads
+ */
+export function formatMcpToolResult(result: McpToolResult): string {
+  const parts = (result.content ?? []).map((item) => {
+    switch (item.type) {
+      case "text":
+        return item.text;
+      case "image":
+      case "audio":
+        return `[${item.type}: ${item.mimeType}]`;
+      case "resource_link":
+        return `[resource: ${item.uri}]`;
+      case "resource":
+        return item.resource.text ?? `[resource: ${item.resource.uri}]`;
+      default:
+        return JSON.stringify(item);
+    }
+  });
+  if (parts.length === 0 && result.structuredContent) {
+    parts.push(JSON.stringify(result.structuredContent));
+  }
+
+  const text = parts.join("\n");
+  return result.isError ? JSON.stringify({ success: false, error: text || "MCP tool failed" }) : text;
+}
+
+function createTransport(name: string, config: McpServerConfig, sandboxImage?: string): McpTransport {
+  if (config.url) {
+    if (config.sandbox) {
+      console.warn(`[MCP] Server "${name}" uses HTTP; "sandbox" only applies to stdio servers`);
+    }
+    return new HttpTransport(config.url, config.headers);
+  }
+  if (!config.command) {
+    throw new Error(`MCP server "${name}" needs either "command" (stdio) or "url" (HTTP)`);
+  }
+
+  if (config.sandbox) {
+    const sandbox = typeof config.sandbox === "object" ? config.sandbox : {};
+    const envArgs = Object.entries(config.env ?? {}).flatMap(([key, value]) => ["-e", `${key}=${value}`]);
+    return new StdioTransport("docker", [
+      "run", "-i", "--rm",
+      "--network", sandbox.network ?? "none",
+      ...envArgs,
+      sandbox.image ?? sandboxImage ?? DEFAULT_IMAGE,
+      config.command,
+      ...(config.args ?? []),
+    ]);
+  }
+  return new StdioTransport(config.command, config.args, { env: config.env, cwd: config.cwd });
+}
+
+/**
+ * Keeps connections to the configured MCP servers and turns their tools into AI SDK tools.
+ * Servers connect lazily on the first getTools() and are shared by every agent in the process;
+ * a server that fails to connect is reported in status() and retried on the next call.
+ */
+export class McpClientManager {
+  private connections = new Map<string, McpConnection>();
+  private sandboxImage?: string;
+
+  /**
+   * Tools from all enabled servers, keyed by agent-facing name
+   */
+  async getTools(config: McpConfig | undefined, options: { sandboxImage?: string } = {}): Promise<Record<string, Tool>> {
+    this.sandboxImage = options.sandboxImage;
+    await this.sync(config?.servers ?? {});
+
+    const tools: Record<string, Tool> = {};
+    for (const [serverName, connection] of this.connections) {
+      if (!connection.client?.isConnected()) continue;
+      for (const definition of connection.tools) {
+        if (!isMcpToolAllowed(definition.name, connection.config.tools)) continue;
+        tools[mcpToolName(serverName, definition.name)] = this.createTool(serverName, definition);
+      }
+    }
+    return tools;
+  }
+
+  status(): McpServerStatus[] {
+    return Array.from(this.connections.entries()).map(([name, connection]) => ({
+      name,
+      transport: connection.config.url ? "http" : "stdio",
+      connected: connection.client?.isConnected() ?? false,
+      sandboxed: Boolean(connection.config.sandbox) && !connection.config.url,
+      tools: connection.tools
+        .filter(definition => isMcpToolAllowed(definition.name, connection.config.tools))
+        .map(definition => mcpToolName(name, definition.name)),
+      ...(connection.error && { error: connection.error }),
+    }));
+  }
+
+  async closeAll(): Promise<void> {
+    const connections = Array.from(this.connections.values());
+    this.connections.clear();
+    await Promise.all(connections.map(connection => connection.client?.close().catch(() => undefined)));
+  }
+
+  /**
+   * Connect new or changed servers, drop removed ones, and retry failed ones
+   */
+  private async sync(servers: Record<string, McpServerConfig>): Promise<void> {
+    const wanted = Object.entries(servers).filter(([, server]) => server.enabled !== false);
+    const wantedNames = new Set(wanted.map(([name]) => name));
+
+    for (const [name, connection] of Array.from(this.connections)) {
+      if (!wantedNames.has(name)) {
+        this.connections.delete(name);
+        await connection.client?.close().catch(() => undefined);
+      }
+    }
+
+    await Promise.all(wanted.map(async ([name, server]) => {
+      const key = JSON.stringify(server);
+      let connection = this.connections.get(name);
+      if (connection && connection.key !== key) {
+        await connection.client?.close().catch(() => undefined);
+        connection = undefined;
+      }
+      if (!connection) {
+        connection = { key, config: server, client: null, tools: [] };
+        this.connections.set(name, connection);
+      }
+      if (!connection.client?.isConnected()) {
+        connection.connecting ??= this.connect(name, connection).finally(() => {
+          connection!.connecting = undefined;
+        });
+        await connection.connecting;
+      }
+    }));
+  }
+
+  private async connect(name: string, connection: McpConnection): Promise<void> {
+    try {
+      const client = new McpClient(createTransport(name, connection.config, this.sandboxImage), connection.config.timeoutMs);
+      client.onClose((error) => {
+        connection.error = error?.message ?? "Connection closed";
+        console.warn(`[MCP] Server "${name}" disconnected: ${connection.error}`);
+      });
+      client.onToolsChanged(() => {
+        client.listTools()
+          .then((tools) => { connection.tools = tools; })
+          .catch((error) => console.warn(`[MCP] Failed to refresh tools of "${name}":`, error));
+      });
+
+      await client.connect();
+      connection.tools = await client.listTools();
+      connection.client = client;
+      connection.error = undefined;
+      console.log(`[MCP] Connected to "${name}" (${connection.tools.length} tools)`);
+    } catch (error) {
+      connection.client = null;
+      connection.tools = [];
+      connection.error = error instanceof Error ? error.message : String(error);
+      console.warn(`[MCP] Failed to connect to "${name}": ${connection.error}`);
+    }
+  }
+
+  private createTool(serverName: string, definition: McpToolDefinition): Tool {
+    return tool<Record<string, unknown>, string>({
+      description: `${definition.description ?? definition.title ?? definition.name} (MCP server "${serverName}")`,
+      inputSchema: jsonSchema<Record<string, unknown>>({ type: "object", ...definition.inputSchema }),
+      execute: async (input, options) => {
+        const client = this.connections.get(serverName)?.client;
+        if (!client?.isConnected()) {
+          return JSON.stringify({ success: false, error: `MCP server "${serverName}" is not connected` });
+        }
+        try {
+          return formatMcpToolResult(await client.callTool(definition.name, input, options.abortSignal));
+        } catch (error) {
+          return JSON.stringify({ success: false, error: error instanceof Error ? error.message : String(error) });
+        }
+      },
+    });
+  }
+}
+
+/**
+ * MCP connections shared by the agents of this process
+ */
+export const mcpClients = new McpClientManager();
@@ -0,0 +1,105 @@
+import {
+  MCP_PROTOCOL_VERSION,
+  SUPPORTED_PROTOCOL_VERSIONS,
+  JSON_RPC_INVALID_PARAMS,
+  JSON_RPC_INVALID_REQUEST,
+  JSON_RPC_METHOD_NOT_FOUND,
+  JSON_RPC_INTERNAL_ERROR,
+  isJsonRpcRequest,
+  type JsonRpcMessage,
+  type JsonRpcResponse,
+  type McpServerInfo,
+  type McpToolDefinition,
+  type McpToolResult,
+} from "./types.js";
+
+/**
+ * A tool offered by an MCP server
+ */
+export interface McpServerTool extends McpToolDefinition {
+  call(args: Record<string, unknown>): Promise<McpToolResult>;
+}
+
+/**
+ * Transport-independent MCP server: answers initialize, ping, tools/list and tools/call.
+ * The tool list is fetched per request so it always reflects the agent's current tools.
+ */
+export class McpServer {
+  constructor(
+    private readonly info: McpServerInfo,
+    private readonly getTools: () => Promise<McpServerTool[]>,
+  ) {}
+
+  /**
+   * Handle one incoming message. Returns the response, or null for notifications and responses.
+   */
+  async handle(message: JsonRpcMessage): Promise<JsonRpcResponse | null> {
+    if (!message || typeof message !== "object" || (message as { jsonrpc?: string }).jsonrpc !== "2.0") {
+      return { jsonrpc: "2.0", id: null, error: { code: JSON_RPC_INVALID_REQUEST, message: "Invalid JSON-RPC message" } };
+    }
+    if (!isJsonRpcRequest(message)) {
+      return null;
+    }
+
+    const { id, method, params = {} } = message;
+    try {
+      switch (method) {
+        case "initialize": {
+          const requested = typeof params.protocolVersion === "string" ? params.protocolVersion : undefined;
+          return {
+            jsonrpc: "2.0",
+            id,
+            result: {
+              protocolVersion: requested && SUPPORTED_PROTOCOL_VERSIONS.includes(requested) ? requested : MCP_PROTOCOL_VERSION,
+              capabilities: { tools: { listChanged: false } },
+              serverInfo: this.info,
+            },
+          };
+        }
+
+        case "ping":
+          return { jsonrpc: "2.0", id, result: {} };
+
+        case "tools/list": {
+          const tools = await this.getTools();
+          return {
+            jsonrpc: "2.0",
+            id,
+            result: { tools: tools.map(({ name, title, description, inputSchema }) => ({ name, title, description, inputSchema })) },
+          };
+        }
+
+        case "tools/call": {
+          const name = params.name;
+          const args = params.arguments ?? {};
+          if (typeof name !== "string" || typeof args !== "object" || Array.isArray(args)) {
+            return { jsonrpc: "2.0", id, error: { code: JSON_RPC_INVALID_PARAMS, message: "tools/call needs a name and an arguments object" } };
+          }
+          const tool = (await this.getTools()).find(candidate => candidate.name === name);
+          if (!tool) {
+            return { jsonrpc: "2.0", id, error: { code: JSON_RPC_INVALID_PARAMS, message: `Unknown tool "${name}"` } };
+          }
+          try {
+            return { jsonrpc: "2.0", id, result: await tool.call(args as Record<string, unknown>) };
+          } catch (error) {
+            // Tool failures are results the caller's model can read, not protocol errors
+            return {
+              jsonrpc: "2.0",
+              id,
+              result: { content: [{ type: "text", text: error instanceof Error ? error.message : String(error) }], isError: true },
+            };
+          }
+        }
+
+        default:
+          return { jsonrpc: "2.0", id, error: { code: JSON_RPC_METHOD_NOT_FOUND, message: `Method "${method}" not found` } };
+      }
+    } catch (error) {
+      return {
+        jsonrpc: "2.0",
+        id,
+        error: { code: JSON_RPC_INTERNAL_ERROR, message: error instanceof Error ? error.message : String(error) },
+      };
+    }
+  }
+}
@@ -0,0 +1,243 @@
+import { spawn, type ChildProcess } from "node:child_process";
+import type { JsonRpcMessage, McpTransport } from "./types.js";
+
+const MAX_STDERR_CHARS = 4000;
+
+/**
+ * Talks to an MCP server started as a child process: newline-delimited JSON-RPC on stdin/stdout.
+ * stderr is kept (tail only) so a server that dies on startup reports why.
+ */
+export class StdioTransport implements McpTransport {
+  private process: ChildProcess | null = null;
+  private buffer = "";
+  private stderr = "";
+  private messageHandler?: (message: JsonRpcMessage) => void;
+  private closeHandler?: (error?: Error) => void;
+
+  constructor(
+    private readonly command: string,
+    private readonly args: string[] = [],
+    private readonly options: { env?: Record<string, string>; cwd?: string } = {},
+  ) {}
+
+  onMessage(handler: (message: JsonRpcMessage) => void): void {
+    this.messageHandler = handler;
+  }
+
+  onClose(handler: (error?: Error) => void): void {
+    this.closeHandler = handler;
+  }
+
+  async start(): Promise<void> {
+    await new Promise<void>((resolve, reject) => {
+      const child = spawn(this.command, this.args, {
+        cwd: this.options.cwd,
+        env: { ...process.env, ...this.options.env },
+        stdio: ["pipe", "pipe", "pipe"],
+      });
+
+      child.once("error", (error) => {
+        if (!this.process) {
+          reject(error);
+        } else {
+          this.handleClose(error);
+        }
+      });
+      child.once("spawn", () => {
+        this.process = child;
+        resolve();
+      });
+
+      child.stdout?.setEncoding("utf8");
+      child.stdout?.on("data", (chunk: string) => this.handleData(chunk));
+      child.stderr?.setEncoding("utf8");
+      child.stderr?.on("data", (chunk: string) => {
+        this.stderr = (this.stderr + chunk).slice(-MAX_STDERR_CHARS);
+      });
+      child.once("exit", (code, signal) => {
+        const reason = signal ? `signal ${signal}` : `code ${code}`;
+        const detail = this.stderr.trim() ? `: ${this.stderr.trim()}` : "";
+        this.handleClose(new Error(`MCP server exited with ${reason}${detail}`));
+      });
+    });
+  }
+
+  async send(message: JsonRpcMessage): Promise<void> {
+    const stdin = this.process?.stdin;
+    if (!stdin || stdin.destroyed) {
+      throw new Error("MCP server process is not running");
+    }
+    stdin.write(`${JSON.stringify(message)}\n`);
+  }
+
+  async close(): Promise<void> {
+    const child = this.process;
+    if (!child) return;
+    this.process = null;
+    child.stdin?.end();
+    child.kill("SIGTERM");
+    // Escalate if the server ignores SIGTERM
+    setTimeout(() => {
+      if (child.exitCode === null && child.signalCode === null) child.kill("SIGKILL");
+    }, 2000).unref();
+  }
+
+  private handleData(chunk: string): void {
+    this.buffer += chunk;
+    let newline = this.buffer.indexOf("\n");
+    while (newline !== -1) {
+      const line = this.buffer.slice(0, newline).trim();
+      this.buffer = this.buffer.slice(newline + 1);
+      if (line) {
+        this.handleLine(line);
+      }
+      newline = this.buffer.indexOf("\n");
+    }
+  }
+
+  private handleLine(line: string): void {
+    let message: JsonRpcMessage;
+    try {
+      message = JSON.parse(line);
+    } catch {
+      console.warn("[MCP] Ignoring malformed JSON-RPC line from server");
+      return;
+    }
+    this.messageHandler?.(message);
+  }
+
+  private handleClose(error?: Error): void {
+    if (!this.process) return;
+    this.process = null;
+    this.buffer = "";
+    this.closeHandler?.(error);
+  }
+}
+
+/**
+ * Talks to an MCP server over Streamable HTTP: every message is a POST, answered with JSON
+ * or a server-sent event stream. The server's session id is echoed on later requests.
+ */
+export class HttpTransport implements McpTransport {
+  private sessionId?: string;
+  private protocolVersion?: string;
+  private closed = false;
+  private controller = new AbortController();
+  private messageHandler?: (message: JsonRpcMessage) => void;
+  private closeHandler?: (error?: Error) => void;
+
+  constructor(
+    private readonly url: string,
+    private readonly headers: Record<string, string> = {},
+  ) {}
+
+  onMessage(handler: (message: JsonRpcMessage) => void): void {
+    this.messageHandler = handler;
+  }
+
+  onClose(handler: (error?: Error) => void): void {
+    this.closeHandler = handler;
+  }
+
+  setProtocolVersion(version: string): void {
+    this.protocolVersion = version;
+  }
+
+  async start(): Promise<void> {
+    // Nothing to open: the first POST (initialize) starts the session
+  }
+
+  async send(message: JsonRpcMessage): Promise<void> {
+    if (this.closed) {
+      throw new Error("MCP HTTP transport is closed");
+    }
+
+    const response = await fetch(this.url, {
+      method: "POST",
+      headers: this.requestHeaders({
+        "Content-Type": "application/json",
+        Accept: "application/json, text/event-stream",
+      }),
+      body: JSON.stringify(message),
+      signal: this.controller.signal,
+    });
+
+    const sessionId = response.headers.get("mcp-session-id");
+    if (sessionId) {
+      this.sessionId = sessionId;
+    }
+
+    if (!response.ok) {
+      const body = await response.text().catch(() => "");
+      throw new Error(`MCP server responded with HTTP ${response.status}${body ? `: ${body.slice(0, 200)}` : ""}`);
+    }
+    if (response.status === 202 || !response.body) {
+      return; // Accepted notification or response
+    }
+
+    const contentType = response.headers.get("content-type") ?? "";
+    if (contentType.includes("text/event-stream")) {
+      // Read the stream in the background; the response arrives as one of its events
+      void this.readEventStream(response).catch((error) => {
+        if (!this.closed) console.warn("[MCP] Event stream failed:", error);
+      });
+    } else if (contentType.includes("application/json")) {
+      const payload = await response.json() as JsonRpcMessage | JsonRpcMessage[];
+      for (const item of Array.isArray(payload) ? payload : [payload]) {
+        this.messageHandler?.(item);
+      }
+    }
+  }
+
+  async close(): Promise<void> {
+    if (this.closed) return;
+    this.closed = true;
+    this.controller.abort();
+    if (this.sessionId) {
+      // Best effort: tell the server the session is over
+      await fetch(this.url, { method: "DELETE", headers: this.requestHeaders({}) }).catch(() => undefined);
+    }
+    this.closeHandler?.();
+  }
+
+  private requestHeaders(extra: Record<string, string>): Record<string, string> {
+    return {
+      ...this.headers,
+      ...extra,
+      ...(this.sessionId && { "Mcp-Session-Id": this.sessionId }),
+      ...(this.protocolVersion && { "MCP-Protocol-Version": this.protocolVersion }),
+    };
+  }
+
+  private async readEventStream(response: Response): Promise<void> {
+    const decoder = new TextDecoder();
+    let buffer = "";
+    for await (const chunk of response.body as unknown as AsyncIterable<Uint8Array>) {
+      buffer += decoder.decode(chunk, { stream: true }).replace(/\r\n/g, "\n");
+      let boundary = buffer.indexOf("\n\n");
+      while (boundary !== -1) {
+        this.handleEvent(buffer.slice(0, boundary));
+        buffer = buffer.slice(boundary + 2);
+        boundary = buffer.indexOf("\n\n");
+      }
+    }
+    if (buffer.trim()) {
+      this.handleEvent(buffer);
+    }
+  }
+
+  private handleEvent(event: string): void {
+    const data = event
+      .split("\n")
+      .filter(line => line.startsWith("data:"))
+      .map(line => line.slice(5).trimStart())
+      .join("\n");
+    if (!data) return;
+
+    try {
+      this.messageHandler?.(JSON.parse(data));
+    } catch {
+      console.warn("[MCP] Ignoring malformed event from server");
+    }
+  }
+}
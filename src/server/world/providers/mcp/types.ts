@@ -0,0 +1,86 @@
+/**
+ * Model Context Protocol message types (the subset used by the client and the gateway's server)
+ */
+
+export const MCP_PROTOCOL_VERSION = "2025-06-18";
+export const SUPPORTED_PROTOCOL_VERSIONS = [MCP_PROTOCOL_VERSION, "2025-03-26", "2024-11-05"];
+
+export type JsonRpcId = string | number;
+
+export interface JsonRpcRequest {
+  jsonrpc: "2.0";
+  id: JsonRpcId;
+  method: string;
+  params?: Record<string, unknown>;
+}
+
+export interface JsonRpcNotification {
+  jsonrpc: "2.0";
+  method: string;
+  params?: Record<string, unknown>;
+}
+
+export interface JsonRpcError {
+  code: number;
+  message: string;
+  data?: unknown;
+}
+
+export interface JsonRpcResponse {
+  jsonrpc: "2.0";
+  id: JsonRpcId | null;
+  result?: unknown;
+  error?: JsonRpcError;
+}
+
+export type JsonRpcMessage = JsonRpcRequest | JsonRpcNotification | JsonRpcResponse;
+
+export const JSON_RPC_PARSE_ERROR = -32700;
+export const JSON_RPC_INVALID_REQUEST = -32600;
+export const JSON_RPC_METHOD_NOT_FOUND = -32601;
+export const JSON_RPC_INVALID_PARAMS = -32602;
+export const JSON_RPC_INTERNAL_ERROR = -32603;
+
+export interface McpToolDefinition {
+  name: string;
+  title?: string;
+  description?: string;
+  inputSchema: Record<string, unknown>; // JSON Schema (type: "object")
+}
+
+export type McpContent =
+  | { type: "text"; text: string }
+  | { type: "image"; data: string; mimeType: string }
+  | { type: "audio"; data: string; mimeType: string }
+  | { type: "resource_link"; uri: string; name?: string }
+  | { type: "resource"; resource: { uri: string; text?: string; mimeType?: string } };
+
+export interface McpToolResult {
+  content: McpContent[];
+  structuredContent?: Record<string, unknown>;
+  isError?: boolean;
+}
+
+export interface McpServerInfo {
+  name: string;
+  version: string;
+}
+
+/**
+ * Carries JSON-RPC messages between client and server
+ */
+export interface McpTransport {
+  start(): Promise<void>;
+  send(message: JsonRpcMessage): Promise<void>;
+  onMessage(handler: (message: JsonRpcMessage) => void): void;
+  onClose(handler: (error?: Error) => void): void;
+  close(): Promise<void>;
+}
+
+export function isJsonRpcRequest(message: JsonRpcMessage): message is JsonRpcRequest {
+  return "method" in message && "id" in message && message.id !== undefined && message.id !== null;
+}
+
+export function isJsonRpcNotification(message: JsonRpcMessage): message is JsonRpcNotification {
+  return "method" in message && !("id" in message && message.id !== undefined && message.id !== null);
+}
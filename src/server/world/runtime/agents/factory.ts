@@ -33,12 +33,29 @@ function isValidRuntimeClass(cls: unknown): cls is new (agentId: string) => Agen
 export class AgentRuntimeFactory {
   private runtimes = new Map<string, AgentRuntime>();
   private loadErrors = new Map<string, string>();
+  private createdListeners = new Set<(runtime: AgentRuntime) => void>();
 
   constructor(_options?: AgentRuntimeFactoryOptions) {
     // No initialization needed - agents are imported via registry
   }
 
 
+  /**
+   * Register a listener called whenever a new runtime instance is created
+   * (including re-creation after a cache clear)
+   */
+  onRuntimeCreated(listener: (runtime: AgentRuntime) => void): () => void {
+    this.createdListeners.add(listener);
+    return () => this.createdListeners.delete(listener);
+  }
+
+  /**
+   * Runtimes that are currently loaded, by agent ID (does not load any)
+   */
+  getLoadedRuntimes(): Array<[string, AgentRuntime]> {
+    return Array.from(this.runtimes.entries());
+  }
+
   /**
    * Get or create an agent runtime
    * Handles all retry logic internally - callers should just call this once
@@ -127,6 +144,14 @@ export class AgentRuntimeFactory {
       if (runtime.initialize) {
         await runtime.initialize();
       }
+
+      for (const listener of this.createdListeners) {
+        try {
+          listener(runtime);
+        } catch (err) {
+          console.error(`[AgentFactory] Runtime listener failed for agent "${agentId}":`, err);
+        }
+      }
       
       return runtime;
     } catch (err) {
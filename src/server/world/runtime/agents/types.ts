@@ -1,8 +1,26 @@
 import type { ConversationId, ConversationState, Conversation, ConversationKey, ConversationType, ConversationLabel, ConversationMessage } from "@server/agents/zuckerman/conversations/types.js";
+import type { Tool } from "ai";
 import type { SecurityContext } from "@server/world/execution/security/types.js";
+import type { AgentEvent } from "@server/agents/zuckerman/core/self/events.js";
+import type { InputSource, SchedulerMetrics } from "@server/agents/zuckerman/core/self/scheduler.js";
+import type { CompressionStrategy, SleepRunResult, SleepStatus } from "@server/agents/zuckerman/sleep/types.js";
+import type { MemorySearchManager } from "@server/agents/zuckerman/core/memory/retrieval/search.js";
+import type { MemorySyncStats } from "@server/agents/zuckerman/core/memory/retrieval/indexing.js";
+import type { MemorySyncStatus } from "@server/agents/zuckerman/core/memory/retrieval/sync-service.js";
+import type { MemoryType } from "@server/agents/zuckerman/core/memory/types.js";
 
 export type ThinkingLevel = "off" | "minimal" | "low" | "medium" | "high" | "xhigh";
 
+/**
+ * Per-conversation model settings. `null` clears an override.
+ */
+export interface ModelOverrides {
+  model?: string | null;
+  provider?: string | null;
+  temperature?: number | null;
+  thinkingLevel?: ThinkingLevel | null;
+}
+
 export interface AgentRunParams {
   runId?: string;
   conversationId: ConversationId;
@@ -14,13 +32,32 @@ export interface AgentRunParams {
     channel?: string;
     to?: string;
     accountId?: string;
+    threadId?: string | number;
   };
+  /**
+   * Resolved security context for this conversation (optional, resolved by the runtime when omitted)
+   */
+  securityContext?: SecurityContext;
+  /**
+   * What produced the message, e.g. "calendar" for scheduled turns (default: message)
+   */
+  source?: InputSource;
   /**
    * Conversation messages (optional, provided by agent service)
    */
   conversationMessages?: ConversationMessage[];
 }
 
+/**
+ * Where replies for a conversation should be delivered (mirrors ConversationEntry.deliveryContext)
+ */
+export interface DeliveryContext {
+  channel?: string;
+  to?: string;
+  accountId?: string;
+  threadId?: string | number;
+}
+
 export interface AgentRunResult {
   response: string;
   runId: string;
@@ -28,6 +65,55 @@ export interface AgentRunResult {
   toolsUsed?: string[];
 }
 
+/**
+ * What to cancel: a run (as returned by run(), or a council run id), or all work for a conversation
+ */
+export interface CancelTarget {
+  runId?: string;
+  conversationId?: ConversationId;
+}
+
+export interface CancelResult {
+  cancelled: string[]; // Ids of the runs that were aborted
+  conversationId?: ConversationId;
+}
+
+export interface BrainPartInfo {
+  id: string;
+  name: string;
+  description: string;
+  trait?: string;
+  temperature?: number;
+  tools?: string[];
+  maxIterations: number;
+  maxTokens?: number;
+  file?: string;
+}
+
+export interface BrainPartList {
+  brainParts: BrainPartInfo[];
+  errors: Array<{ file: string; error: string }>; // Files that failed validation and were skipped
+}
+
+export interface ToolInfo {
+  name: string;
+  source: "builtin" | "plugin" | "mcp";
+  description?: string;
+  kind?: "module" | "script"; // Plugin tools only
+  enabled: boolean;
+  file?: string; // Plugin manifest
+}
+
+export interface ToolList {
+  tools: ToolInfo[];
+  errors: Array<{ file: string; error: string }>; // Plugin manifests that failed validation and were skipped
+}
+
+export interface MemoryStatus {
+  index: ReturnType<MemorySearchManager["status"]>;
+  sync: MemorySyncStatus | null; // null when the background sync is not running
+}
+
 /**
  * Agent runtime interface - all agent runtimes must implement this
  * Includes conversation management methods for world code to use
@@ -48,11 +134,94 @@ export interface AgentRuntime {
    */
   run(params: AgentRunParams): Promise<AgentRunResult>;
 
+  /**
+   * Register an event handler (replies are produced asynchronously by the agent loop)
+   */
+  on?<T extends AgentEvent>(eventType: T["type"], handler: (event: T) => void | Promise<void>): () => void;
+
+  /**
+   * Get the delivery context remembered for a conversation (set when a channel message arrives)
+   */
+  getDeliveryContext?(conversationId: ConversationId): DeliveryContext | undefined;
+
+  /**
+   * Run sleep mode (memory consolidation) for a conversation
+   */
+  runSleep?(
+    conversationId: ConversationId,
+    options?: { force?: boolean; strategy?: CompressionStrategy },
+  ): Promise<SleepRunResult>;
+
+  /**
+   * Get sleep mode status for a conversation
+   */
+  getSleepStatus?(conversationId: ConversationId): Promise<SleepStatus | undefined>;
+
+  /**
+   * Memory index counts and background sync state (undefined when memory search is off)
+   */
+  getMemoryStatus?(): MemoryStatus | undefined;
+
+  /**
+   * Sync the memory index now; force reindexes everything
+   */
+  syncMemory?(options?: { force?: boolean }): Promise<MemorySyncStats>;
+
+  /**
+   * Erase a memory from the store and the search index; false when it does not exist
+   */
+  forgetMemory?(type: MemoryType, id: string): Promise<boolean>;
+
+  /**
+   * Opt a conversation out of (or back into) automatic memory writing
+   */
+  setMemoryOptOut?(conversationId: ConversationId, optOut: boolean): Promise<void>;
+
+  /**
+   * Set (or clear, with null) model overrides for a conversation
+   */
+  setModelOverrides?(conversationId: ConversationId, overrides: ModelOverrides): Promise<ModelOverrides>;
+
+  /**
+   * Get the model overrides stored for a conversation
+   */
+  getModelOverrides?(conversationId: ConversationId): ModelOverrides;
+
+  /**
+   * Abort in-flight work (LLM calls, tool calls, processes) for a run or conversation
+   */
+  cancel?(target: CancelTarget, reason?: string): Promise<CancelResult>;
+
   /**
    * Load agent prompts (for inspection/debugging)
    */
   loadPrompts?(): Promise<unknown>;
 
+  /**
+   * Council scheduler metrics (wakeups, decisions, queued inputs) for health reporting
+   */
+  getSchedulerMetrics?(): SchedulerMetrics;
+
+  /**
+   * List the agent's brain parts as loaded from disk, with files that failed validation
+   */
+  listBrainParts?(): Promise<BrainPartList>;
+
+  /**
+   * List built-in and plugin tools, with plugin manifests that failed validation
+   */
+  listTools?(): Promise<ToolList>;
+
+  /**
+   * Enable or disable a plugin tool
+   */
+  setToolEnabled?(name: string, enabled: boolean): Promise<ToolInfo>;
+
+  /**
+   * The tools the agent's runs get, keyed by name (used to serve them over MCP)
+   */
+  getToolSet?(): Promise<Record<string, Tool>>;
+
   /**
    * Clear caches (for hot reload)
    */
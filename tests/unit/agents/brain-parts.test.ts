@@ -0,0 +1,38 @@
+import { describe, it, expect } from "vitest";
+import { join } from "node:path";
+import { BrainPartLoader, parseBrainPart } from "@server/agents/zuckerman/core/self/brain-part-loader.js";
+
+describe("Brain parts", () => {
+  it("should load and validate the agent's brain part files", async () => {
+    const { parts, errors } = await new BrainPartLoader().loadBrainParts(join(process.cwd(), "src/server/agents/zuckerman"));
+
+    expect(errors).toEqual([]);
+    expect(parts.map(part => part.id)).toContain("execution");
+    expect(parts.find(part => part.id === "prediction")).toMatchObject({ tools: [], trait: "highQuality" });
+  });
+
+  it("should fill the prompt template with working memory", () => {
+    const part = parseBrainPart("focus", [
+      "---",
+      "name: Focus Module",
+      "description: Focus on one thing",
+      "tools:",
+      "  - browser",
+      "  - terminal",
+      "maxIterations: 4",
+      "---",
+      "Focus.{{workingMemory}}",
+    ].join("\n"));
+
+    expect(part).toMatchObject({ id: "focus", tools: ["browser", "terminal"], maxIterations: 4 });
+    expect(part.getPrompt(["check the logs"])).toBe("Focus.\n\nWorking Memory (available context):\n1. check the logs");
+  });
+
+  it("should reject files with invalid or unknown settings", () => {
+    expect(() => parseBrainPart("bad", "---\nname: Bad\ndescription: Bad\nmaxIterations: 0\n---\nBody"))
+      .toThrow("maxIterations");
+    expect(() => parseBrainPart("bad", "---\nname: Bad\ndescription: Bad\ntoolsAllowed: false\n---\nBody"))
+      .toThrow("toolsAllowed");
+    expect(() => parseBrainPart("bad", "No frontmatter")).toThrow("Missing frontmatter");
+  });
+});
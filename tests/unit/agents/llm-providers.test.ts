@@ -0,0 +1,103 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import {
+  extractJsonObject,
+  listConfiguredProviders,
+  listProviderModels,
+  listProviderNames,
+  resolveModelCapabilities,
+  resolveProviderSettings,
+  thinkingProviderOptions,
+} from "@server/world/providers/llm/index.js";
+import { parseModelOverrides } from "@server/world/communication/gateway/server/handlers/conversations.js";
+import type { LLMConfig } from "@server/world/config/types.js";
+
+describe("LLM provider registry", () => {
+  beforeEach(() => {
+    for (const key of ["ANTHROPIC_API_KEY", "OPENAI_API_KEY", "OPENROUTER_API_KEY", "GEMINI_API_KEY", "GOOGLE_GENERATIVE_AI_API_KEY", "AZURE_OPENAI_API_KEY", "AZURE_OPENAI_BASE_URL"]) {
+      vi.stubEnv(key, "");
+    }
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("should resolve built-in, preset and custom providers", () => {
+    vi.stubEnv("GEMINI_API_KEY", "env-key");
+    const llm: LLMConfig = {
+      anthropic: { apiKey: "sk-ant" },
+      azure: { apiKey: "az-key" },
+      providers: {
+        ollama: { defaultModel: "llama3.2" },
+        gpu: { baseUrl: "http://gpu-box:8000/v1", capabilities: { "*": { structuredOutput: true } } },
+      },
+    };
+
+    expect(listProviderNames(llm)).toEqual(["openrouter", "anthropic", "openai", "gemini", "azure", "ollama", "gpu"]);
+    expect(resolveProviderSettings(llm, "gemini")).toMatchObject({ type: "gemini", apiKey: "env-key" });
+    expect(resolveProviderSettings(llm, "ollama")).toMatchObject({ type: "openai-compatible", baseUrl: "http://localhost:11434/v1" });
+    expect(resolveProviderSettings(llm, "missing")).toBeNull();
+
+    // Azure has a key but no endpoint, so it is not usable yet
+    expect(listConfiguredProviders(llm).map((settings) => settings.name)).toEqual(["anthropic", "gemini", "ollama", "gpu"]);
+  });
+
+  it("should describe model capabilities with config overrides", () => {
+    const ollama = resolveProviderSettings({
+      providers: {
+        ollama: { capabilities: { "qwen*": { structuredOutput: true, contextWindow: 32768 }, "qwen3:0.6b": { toolCalling: false } } },
+      },
+    }, "ollama")!;
+
+    expect(resolveModelCapabilities(ollama, "llama3.2")).toEqual({ toolCalling: true, structuredOutput: false, vision: false });
+    expect(resolveModelCapabilities(ollama, "llava:13b").vision).toBe(true);
+    expect(resolveModelCapabilities(ollama, "qwen3:0.6b")).toEqual({
+      toolCalling: false,
+      structuredOutput: true,
+      vision: false,
+      contextWindow: 32768,
+    });
+    expect(resolveModelCapabilities(resolveProviderSettings({}, "anthropic")!, "claude-sonnet-4-5").structuredOutput).toBe(true);
+    expect(thinkingProviderOptions("gemini", "low")).toEqual({ openai: { reasoningEffort: "low" } });
+    expect(thinkingProviderOptions("openai-compatible", "low")).toBeUndefined();
+  });
+
+  it("should list models from an OpenAI-compatible server", async () => {
+    let authorization: string | undefined;
+    const server: Server = createServer((req, res) => {
+      authorization = req.headers.authorization;
+      res.writeHead(req.url === "/v1/models" ? 200 : 404, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ data: [{ id: "meta-llama/Llama-3.1-8B-Instruct", created: 1700000000, max_model_len: 131072 }] }));
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+
+    try {
+      const { port } = server.address() as AddressInfo;
+      const vllm = resolveProviderSettings({ providers: { vllm: { baseUrl: `http://127.0.0.1:${port}/v1`, apiKey: "token" } } }, "vllm")!;
+      const models = await listProviderModels(vllm);
+
+      expect(models).toEqual([{
+        id: "meta-llama/Llama-3.1-8B-Instruct",
+        name: "meta-llama/Llama-3.1-8B-Instruct",
+        createdAt: new Date(1700000000 * 1000).toISOString(),
+        contextWindow: 131072,
+      }]);
+      expect(authorization).toBe("Bearer token");
+    } finally {
+      await new Promise((resolve) => server.close(resolve));
+    }
+  });
+
+  it("should parse JSON replies from models without structured output", () => {
+    expect(extractJsonObject("Sure!\n```json\n{\"actions\": [], \"memory\": [\"a\"]}\n```")).toEqual({ actions: [], memory: ["a"] });
+    expect(() => extractJsonObject("no json here")).toThrow("no JSON object");
+  });
+
+  it("should accept overrides naming a configured provider", () => {
+    expect(parseModelOverrides({ provider: "ollama" }).error).toContain("provider must be one of");
+    expect(parseModelOverrides({ provider: "ollama" }, listProviderNames({ providers: { ollama: {} } })).overrides)
+      .toEqual({ provider: "ollama" });
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, it, expect, vi } from "vitest";
+import { MemoryClassifier, isDuplicateMemory } from "@server/agents/zuckerman/core/memory/memory-classifier.js";
+import type { MemoryStore } from "@server/agents/zuckerman/core/memory/memory-store.js";
+import type { Memory, MemoryType } from "@server/agents/zuckerman/core/memory/types.js";
+
+function createStore(type: MemoryType, initial: string[] = []) {
+  const memories = new Map<string, Memory>();
+  for (const content of initial) {
+    const id = String(memories.size + 1);
+    memories.set(id, { id, type, content, createdAt: 0, updatedAt: 0 });
+  }
+  return {
+    findAll: () => Array.from(memories.values()),
+    find: (id: string) => memories.get(id) ?? null,
+    insert: ({ content, metadata }: { content: string; metadata?: Memory["metadata"] }) => {
+      const id = String(memories.size + 1);
+      memories.set(id, { id, type, content, metadata, createdAt: 1, updatedAt: 1 });
+      return id;
+    },
+  } as unknown as MemoryStore;
+}
+
+describe("Memory ingestion", () => {
+  it("should detect duplicate memories", () => {
+    expect(isDuplicateMemory("User's name is Dana.", "user's name is dana")).toBe(true);
+    expect(isDuplicateMemory("Dana works at Acme as a backend engineer", "Dana works at Acme as backend engineer")).toBe(true);
+    expect(isDuplicateMemory("Dana likes tea", "The deploy failed on Friday")).toBe(false);
+  });
+
+  it("should save classified memories above the importance threshold and skip duplicates", async () => {
+    const semantic = createStore("semantic", ["User's name is Dana"]);
+    const episodic = createStore("episodic");
+    const onSaved = vi.fn().mockResolvedValue(undefined);
+    const classifier = new MemoryClassifier(
+      new Map<MemoryType, MemoryStore>([["semantic", semantic], ["episodic", episodic]]),
+      { minImportance: 0.5, onSaved },
+    );
+    vi.spyOn(classifier, "classify").mockResolvedValue({
+      hasImportantInfo: true,
+      memories: [
+        { type: "semantic", content: "User's name is Dana.", importance: 0.9 },
+        { type: "semantic", content: "User prefers short answers", importance: 0.8 },
+        { type: "episodic", content: "User said hello", importance: 0.2 },
+      ],
+    });
+
+    const result = await classifier.classifyAndSave({
+      type: "message",
+      content: "Hi, I'm Dana, keep it short",
+      metadata: { conversationId: "c1" },
+    });
+
+    expect(result.saved?.map(m => m.content)).toEqual(["User prefers short answers"]);
+    expect(result.saved?.[0].metadata).toMatchObject({ conversationId: "c1", importance: 0.8 });
+    expect(episodic.findAll()).toHaveLength(0);
+    expect(onSaved).toHaveBeenCalledWith(result.saved);
+  });
+});
@@ -0,0 +1,131 @@
+import { describe, it, expect, beforeAll, beforeEach, afterEach, vi } from "vitest";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { memoryWeight, resolveMemoryLifecycleOptions } from "@server/agents/zuckerman/core/memory/lifecycle.js";
+import { recallMemories, resolveRecallOptions } from "@server/agents/zuckerman/core/memory/recall.js";
+import type { MemorySystem } from "@server/agents/zuckerman/core/memory/memory-service.js";
+import type { Memory } from "@server/agents/zuckerman/core/memory/types.js";
+
+// node:sqlite needs Node 22.5+
+const sqlite = await import("node:sqlite").catch(() => null);
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = 1_000 * DAY_MS;
+
+function memory(id: string, content: string, overrides: Partial<Memory> = {}): Memory {
+  return { id, type: "semantic", content, createdAt: 0, updatedAt: NOW, ...overrides };
+}
+
+describe("Memory decay", () => {
+  const options = resolveMemoryLifecycleOptions()!;
+
+  it("should lower the weight of old memories unless reinforced, important or pinned", () => {
+    const fresh = memoryWeight(memory("a", "x"), options, NOW);
+    const old = memoryWeight(memory("b", "x", { updatedAt: NOW - 120 * DAY_MS }), options, NOW);
+    const recalled = memoryWeight(memory("c", "x", { updatedAt: NOW - 120 * DAY_MS, lastAccessedAt: NOW - DAY_MS }), options, NOW);
+    const important = memoryWeight(memory("d", "x", { updatedAt: NOW - 120 * DAY_MS, importance: 1 }), options, NOW);
+    const pinned = memoryWeight(memory("e", "x", { updatedAt: 0, pinned: true }), options, NOW);
+
+    expect(fresh).toBeCloseTo(1);
+    expect(old).toBeLessThan(fresh);
+    expect(old).toBeGreaterThanOrEqual(options.minWeight);
+    expect(recalled).toBeGreaterThan(old);
+    expect(important).toBeGreaterThan(old);
+    expect(pinned).toBe(1);
+  });
+
+  it("should rank equally relevant memories by decay when recalling", async () => {
+    vi.useFakeTimers({ now: NOW });
+    try {
+      const memories = [
+        memory("stale", "Dana drinks green tea", { updatedAt: NOW - 200 * DAY_MS }),
+        memory("recent", "Green tea: Dana drinks it", { updatedAt: NOW - DAY_MS }),
+      ];
+      const memorySystem = { getMemories: () => memories } as unknown as MemorySystem;
+
+      const recalled = await recallMemories({
+        query: "what does Dana drink, green tea?",
+        memorySystem,
+        options: resolveRecallOptions()!,
+        lifecycle: options,
+      });
+      expect(recalled.map(m => m.id)).toEqual(["recent", "stale"]);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
+
+describe.skipIf(!sqlite)("Memory consolidation", () => {
+  let lifecycle: typeof import("@server/agents/zuckerman/core/memory/lifecycle.js");
+  let service: typeof import("@server/agents/zuckerman/core/memory/memory-service.js");
+  let home: string;
+  let agentCount = 0;
+
+  beforeAll(async () => {
+    lifecycle = await import("@server/agents/zuckerman/core/memory/lifecycle.js");
+    service = await import("@server/agents/zuckerman/core/memory/memory-service.js");
+  });
+
+  beforeEach(() => {
+    home = mkdtempSync(join(tmpdir(), "zuckerman-lifecycle-"));
+    vi.stubEnv("HOME", home);
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    rmSync(home, { recursive: true, force: true });
+  });
+
+  // Stores are cached per agent, so each test gets its own agent
+  const createMemorySystem = () => new service.MemorySystem(home, `agent-${++agentCount}`);
+
+  it("should merge near-duplicate semantic memories into the pinned one", () => {
+    const memorySystem = createMemorySystem();
+    const kept = memorySystem.insert("semantic", "Dana prefers green tea in the morning");
+    const duplicate = memorySystem.insert("semantic", "dana prefers green tea in the morning!");
+    const other = memorySystem.insert("semantic", "Dana works at the billing team");
+    memorySystem.pin("semantic", kept);
+    memorySystem.touch([{ id: kept, type: "semantic" }, { id: duplicate, type: "semantic" }]);
+
+    const result = lifecycle.consolidateMemories(memorySystem, lifecycle.resolveMemoryLifecycleOptions()!);
+
+    expect(result.merged).toEqual([{ id: duplicate, type: "semantic" }]);
+    expect(memorySystem.findAll("semantic").map(m => m.id)).toEqual([kept, other]);
+    expect(memorySystem.find("semantic", kept)).toMatchObject({ pinned: true, accessCount: 2 });
+  });
+
+  it("should never merge away a pinned memory", () => {
+    const memorySystem = createMemorySystem();
+    const first = memorySystem.insert("semantic", "Dana prefers green tea in the morning");
+    const second = memorySystem.insert("semantic", "dana prefers green tea in the morning!");
+    const duplicate = memorySystem.insert("semantic", "Dana prefers green tea in the morning.");
+    memorySystem.pin("semantic", first);
+    memorySystem.pin("semantic", second);
+
+    const result = lifecycle.consolidateMemories(memorySystem, lifecycle.resolveMemoryLifecycleOptions()!);
+
+    expect(result.merged).toEqual([{ id: duplicate, type: "semantic" }]);
+    expect(memorySystem.findAll("semantic").map(m => m.id)).toEqual([first, second]);
+  });
+
+  it("should archive stale episodic memories but keep pinned ones", () => {
+    const memorySystem = createMemorySystem();
+    const stale = memorySystem.insert("episodic", "Deployed the billing service");
+    const pinned = memorySystem.insert("episodic", "Dana's wedding day");
+    memorySystem.pin("episodic", pinned);
+
+    const options = lifecycle.resolveMemoryLifecycleOptions()!;
+    const result = lifecycle.consolidateMemories(memorySystem, options, Date.now() + 2 * 365 * DAY_MS);
+
+    expect(result.archived).toEqual([{ id: stale, type: "episodic" }]);
+    expect(memorySystem.findAll("episodic").map(m => m.id)).toEqual([pinned]);
+    expect(memorySystem.findById(stale)).toBeNull();
+    expect(memorySystem.findById(stale, { includeArchived: true })?.archivedAt).toBeDefined();
+
+    // Pinning brings an archived memory back
+    memorySystem.pin("episodic", stale);
+    expect(memorySystem.findAll("episodic")).toHaveLength(2);
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, it, expect } from "vitest";
+import { recallMemories, resolveRecallOptions } from "@server/agents/zuckerman/core/memory/recall.js";
+import { formatRecalledMemoriesForPrompt } from "@server/agents/zuckerman/core/memory/prompt-formatter.js";
+import type { MemorySystem } from "@server/agents/zuckerman/core/memory/memory-service.js";
+import type { MemorySearchManager } from "@server/agents/zuckerman/core/memory/retrieval/search.js";
+import type { Memory } from "@server/agents/zuckerman/core/memory/types.js";
+
+function memory(id: string, type: Memory["type"], content: string): Memory {
+  return { id, type, content, createdAt: 0, updatedAt: 0, metadata: { conversationId: "c1" } };
+}
+
+function createMemorySystem(memories: Memory[]): MemorySystem {
+  return { getMemories: () => memories } as unknown as MemorySystem;
+}
+
+describe("Memory recall", () => {
+  const options = resolveRecallOptions()!;
+
+  it("should rank store memories by overlap with the query", async () => {
+    const memorySystem = createMemorySystem([
+      memory("m1", "semantic", "Dana prefers green tea in the morning"),
+      memory("m2", "episodic", "Deployed the billing service on Friday"),
+    ]);
+
+    const recalled = await recallMemories({ query: "what tea does Dana like", memorySystem, options });
+
+    expect(recalled.map(m => m.id)).toEqual(["m1"]);
+    expect(recalled[0].provenance).toContain("semantic memory");
+    expect(recalled[0].provenance).toContain("conversation c1");
+  });
+
+  it("should merge indexed search results with provenance", async () => {
+    const searchManager = {
+      search: async () => [
+        { path: "memory/notes.md", startLine: 3, endLine: 5, score: 0.9, snippet: "Tea order: sencha", source: "memory" },
+      ],
+    } as unknown as MemorySearchManager;
+
+    const recalled = await recallMemories({
+      query: "tea order",
+      memorySystem: createMemorySystem([]),
+      searchManager,
+      options,
+    });
+
+    expect(recalled[0]).toMatchObject({ source: "index", id: "memory/notes.md:3-5" });
+    expect(formatRecalledMemoriesForPrompt(recalled)).toContain("memory/notes.md#L3-5");
+  });
+
+  it("should stay within the token budget", async () => {
+    const long = "project alpha ".repeat(200);
+    const memorySystem = createMemorySystem([
+      memory("m1", "semantic", long),
+      memory("m2", "semantic", "project alpha launches in May"),
+    ]);
+
+    const recalled = await recallMemories({
+      query: "project alpha",
+      memorySystem,
+      options: { ...options, maxTokens: 100 },
+    });
+
+    expect(recalled.map(m => m.id)).toEqual(["m2"]);
+  });
+
+  it("should not recall memories from other conversations", async () => {
+    const memorySystem = createMemorySystem([
+      memory("m1", "episodic", "Dana asked about the Lisbon hotel"),
+      { ...memory("m2", "episodic", "Dana booked the Lisbon flight"), metadata: { conversationId: "c2" } },
+      { ...memory("m3", "semantic", "Dana lives in Lisbon"), metadata: { conversationId: "c2" } },
+      { ...memory("m4", "semantic", "Dana visits Lisbon every spring"), metadata: {} },
+    ]);
+
+    const recalled = await recallMemories({ query: "Dana Lisbon", memorySystem, options, conversationId: "c1" });
+
+    expect(recalled.map(m => m.id).sort()).toEqual(["m1", "m4"]);
+  });
+
+  it("should only search this conversation's and shared indexed chunks", async () => {
+    const chunks = [
+      { path: "conversations/c1.jsonl", conversationId: "c1", snippet: "Lisbon hotel is near the river" },
+      { path: "conversations/c2.jsonl", conversationId: "c2", snippet: "Lisbon flight leaves at noon" },
+      { path: "memory/notes.md", conversationId: null, snippet: "Lisbon trips are in spring" },
+    ];
+    const searchManager = {
+      search: async (_query: string, opts?: { conversationId?: string; includeShared?: boolean }) => chunks
+        .filter(chunk => opts?.conversationId === undefined
+          || chunk.conversationId === opts.conversationId
+          || (opts.includeShared && chunk.conversationId === null))
+        .map(chunk => ({ ...chunk, startLine: 1, endLine: 1, score: 0.8, source: "conversations" })),
+    } as unknown as MemorySearchManager;
+
+    const recalled = await recallMemories({
+      query: "Lisbon",
+      memorySystem: createMemorySystem([]),
+      searchManager,
+      options,
+      conversationId: "c1",
+    });
+
+    expect(recalled.map(m => m.id)).toEqual(["conversations/c1.jsonl:1-1", "memory/notes.md:1-1"]);
+  });
+
+  it("should be disabled by config", () => {
+    expect(resolveRecallOptions({ enabled: false })).toBeNull();
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, it, expect, beforeAll, beforeEach, afterEach, vi } from "vitest";
+import { existsSync, mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+// node:sqlite needs Node 22.5+
+const sqlite = await import("node:sqlite").catch(() => null);
+
+type Modules = {
+  database: typeof import("@server/agents/zuckerman/core/memory/memory-database.js");
+  store: typeof import("@server/agents/zuckerman/core/memory/memory-store.js");
+  paths: typeof import("@server/world/homedir/paths.js");
+};
+
+describe.skipIf(!sqlite)("SQLite memory store", () => {
+  let modules: Modules;
+  let home: string;
+  const opened: Array<{ close(): void }> = [];
+
+  beforeAll(async () => {
+    modules = {
+      database: await import("@server/agents/zuckerman/core/memory/memory-database.js"),
+      store: await import("@server/agents/zuckerman/core/memory/memory-store.js"),
+      paths: await import("@server/world/homedir/paths.js"),
+    };
+  });
+
+  beforeEach(() => {
+    home = mkdtempSync(join(tmpdir(), "zuckerman-store-"));
+    vi.stubEnv("HOME", home);
+  });
+
+  afterEach(() => {
+    for (const database of opened.splice(0)) database.close();
+    vi.unstubAllEnvs();
+    rmSync(home, { recursive: true, force: true });
+  });
+
+  function openDatabase(agentId = "agent") {
+    const database = new modules.database.MemoryStoreDatabase(modules.paths.getAgentMemoryStoreDbPath(agentId), agentId);
+    opened.push(database);
+    return database;
+  }
+
+  it("should import existing JSON stores once", () => {
+    mkdirSync(modules.paths.getAgentMemoryStoresDir("agent"), { recursive: true });
+    const semanticPath = modules.paths.getAgentMemoryStorePath("agent", "semantic");
+    // Trailing comma left by an interrupted write
+    writeFileSync(semanticPath, JSON.stringify({
+      memories: [{ id: "m1", type: "semantic", content: "Likes tea", createdAt: 1, updatedAt: 2, metadata: { importance: 0.9 } }],
+    }).replace("}]}", "},]}"));
+
+    const database = openDatabase();
+    const semantic = new modules.store.MemoryStore("agent", "semantic", database);
+    expect(semantic.findAll()).toEqual([{
+      id: "m1", type: "semantic", content: "Likes tea", createdAt: 1, updatedAt: 2, metadata: { importance: 0.9 },
+      importance: 0.9, confidence: 1, accessCount: 0, pinned: false,
+    }]);
+    expect(existsSync(semanticPath)).toBe(false);
+    expect(existsSync(`${semanticPath}.imported`)).toBe(true);
+
+    const version = database.db.prepare("PRAGMA user_version").get() as { user_version: number };
+    expect(version.user_version).toBe(modules.database.MEMORY_SCHEMA_VERSION);
+  });
+
+  it("should keep JSON stores in place when the migration rolls back", () => {
+    mkdirSync(modules.paths.getAgentMemoryStoresDir("agent"), { recursive: true });
+    const semanticPath = modules.paths.getAgentMemoryStorePath("agent", "semantic");
+    writeFileSync(semanticPath, JSON.stringify({ memories: [{ id: "m1", type: "semantic", content: "Likes tea" }] }));
+    // A column the lifecycle migration adds already exists, so that migration fails after the import ran
+    const existing = new sqlite!.DatabaseSync(modules.paths.getAgentMemoryStoreDbPath("agent"));
+    existing.exec("CREATE TABLE memories (id TEXT PRIMARY KEY, type TEXT NOT NULL, content TEXT NOT NULL, metadata TEXT, created_at INTEGER NOT NULL, updated_at INTEGER NOT NULL, pinned INTEGER)");
+    existing.close();
+
+    expect(() => openDatabase()).toThrow();
+    expect(existsSync(semanticPath)).toBe(true);
+    expect(existsSync(`${semanticPath}.imported`)).toBe(false);
+  });
+
+  it("should replace and batch atomically", () => {
+    const database = openDatabase();
+    const working = new modules.store.MemoryStore("agent", "working", database);
+    working.insertMany([{ content: "a" }, { content: "b" }]);
+
+    working.replaceAll([{ content: "c" }, { content: "d", metadata: { conversationId: "conv-1" } }]);
+    expect(working.findAll().map(memory => memory.content)).toEqual(["c", "d"]);
+
+    expect(() => working.batch(() => {
+      working.removeMany(working.findAll().map(memory => memory.id));
+      working.insert({ content: "e" });
+      throw new Error("crash mid-batch");
+    })).toThrow("crash mid-batch");
+    expect(working.findAll().map(memory => memory.content)).toEqual(["c", "d"]);
+  });
+
+  it("should share writes between connections to the same homedir", () => {
+    const gateway = new modules.store.MemoryStore("agent", "semantic", openDatabase());
+    const cli = new modules.store.MemoryStore("agent", "semantic", openDatabase());
+
+    const id = gateway.insert({ content: "Birthday is in May" });
+    expect(cli.find(id)?.content).toBe("Birthday is in May");
+
+    expect(cli.update(id, { content: "Birthday is on May 3" })).toBe(true);
+    expect(gateway.find(id)?.content).toBe("Birthday is on May 3");
+    expect(gateway.remove(id)).toBe(true);
+    expect(cli.findAll()).toEqual([]);
+  });
+});
@@ -0,0 +1,168 @@
+import { describe, it, expect, beforeAll, beforeEach, afterEach } from "vitest";
+import { appendFileSync, mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { DatabaseSync } from "node:sqlite";
+import type { EmbeddingProvider } from "@server/world/providers/embeddings/index.js";
+import type { MemorySearchConfig } from "@server/agents/zuckerman/core/memory/config.js";
+import type { Memory, MemoryType } from "@server/agents/zuckerman/core/memory/types.js";
+
+// node:sqlite needs Node 22.5+
+const sqlite = await import("node:sqlite").catch(() => null);
+
+type Modules = {
+  config: typeof import("@server/agents/zuckerman/core/memory/config.js");
+  schema: typeof import("@server/agents/zuckerman/core/memory/retrieval/encoding/schema.js");
+  indexing: typeof import("@server/agents/zuckerman/core/memory/retrieval/indexing.js");
+  vectorIndex: typeof import("@server/agents/zuckerman/core/memory/retrieval/vector-index.js");
+};
+
+/**
+ * Deterministic embeddings that record every text sent to the "provider"
+ */
+class CountingEmbeddingProvider implements EmbeddingProvider {
+  embedded: string[] = [];
+
+  async getEmbedding(text: string): Promise<number[]> {
+    const [embedding] = await this.getEmbeddings([text]);
+    return embedding;
+  }
+
+  async getEmbeddings(texts: string[]): Promise<number[][]> {
+    this.embedded.push(...texts);
+    return texts.map((text) => [text.length, 1]);
+  }
+}
+
+function transcriptLine(role: "user" | "assistant", content: string): string {
+  return JSON.stringify({ id: content, role, content, timestamp: 0 }) + "\n";
+}
+
+describe.skipIf(!sqlite)("Memory index sync", () => {
+  let modules: Modules;
+  let dir: string;
+  let workspaceDir: string;
+  let conversationsDir: string;
+  let db: DatabaseSync;
+  let provider: CountingEmbeddingProvider;
+
+  beforeAll(async () => {
+    modules = {
+      config: await import("@server/agents/zuckerman/core/memory/config.js"),
+      schema: await import("@server/agents/zuckerman/core/memory/retrieval/encoding/schema.js"),
+      indexing: await import("@server/agents/zuckerman/core/memory/retrieval/indexing.js"),
+      vectorIndex: await import("@server/agents/zuckerman/core/memory/retrieval/vector-index.js"),
+    };
+  });
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "zuckerman-sync-"));
+    workspaceDir = join(dir, "workspace");
+    conversationsDir = join(dir, "conversations");
+    mkdirSync(workspaceDir, { recursive: true });
+    mkdirSync(conversationsDir, { recursive: true });
+    db = new sqlite!.DatabaseSync(join(dir, "memory.sqlite"));
+    modules.schema.ensureMemoryIndexSchema({ db, embeddingCacheTable: "embedding_cache", ftsTable: "fts_memory", ftsEnabled: false });
+    provider = new CountingEmbeddingProvider();
+  });
+
+  afterEach(() => {
+    db.close();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  function createIndexer(overrides: MemorySearchConfig = {}, stores: Partial<Record<MemoryType, Memory[]>> = {}) {
+    const config = modules.config.resolveMemorySearchConfig({
+      provider: "openai",
+      sources: ["memory", "conversations"],
+      store: { path: join(dir, "memory.sqlite"), vector: { enabled: false } },
+      chunking: { tokens: 8, overlap: 0 },
+      ...overrides,
+    }, "test")!;
+    return new modules.indexing.MemoryIndexerImpl(
+      db, config, workspaceDir, provider, "fts_memory", new modules.vectorIndex.ScanVectorIndex(db), conversationsDir,
+      "embedding_cache", { findAll: (type: MemoryType) => stores[type] ?? [] },
+    );
+  }
+
+  const chunkCount = (source: string) =>
+    (db.prepare("SELECT COUNT(*) as count FROM chunks WHERE source = ?").get(source) as { count: number }).count;
+
+  it("should index transcripts once the message delta is crossed", async () => {
+    const indexer = createIndexer({ sync: { conversations: { deltaMessages: 3, deltaBytes: 1_000_000 } } });
+    const transcript = join(conversationsDir, "conv-1.jsonl");
+    writeFileSync(transcript, transcriptLine("user", "I adopted a cat named Miso") + transcriptLine("assistant", "Congrats on Miso"));
+
+    expect((await indexer.sync()).files).toBe(0);
+    expect(chunkCount("conversations")).toBe(0);
+
+    appendFileSync(transcript, transcriptLine("user", "She likes tuna"));
+    const stats = await indexer.sync();
+    expect(stats.files).toBe(1);
+    expect(chunkCount("conversations")).toBeGreaterThan(0);
+    const conversationIds = db.prepare("SELECT DISTINCT conversation_id FROM chunks WHERE source = 'conversations'").all();
+    expect(conversationIds).toEqual([{ conversation_id: "conv-1" }]);
+
+    // Appending only re-embeds the tail of the transcript
+    const embeddedBefore = provider.embedded.length;
+    appendFileSync(transcript, transcriptLine("assistant", "Noted") + transcriptLine("user", "And salmon") + transcriptLine("assistant", "Got it"));
+    const next = await indexer.sync();
+    expect(next.embedded).toBeLessThan(chunkCount("conversations"));
+    expect(next.reused).toBeGreaterThan(0);
+    expect(provider.embedded.length - embeddedBefore).toBe(next.embedded);
+  });
+
+  it("should index the memory stores and follow their changes", async () => {
+    const memory = (id: string, content: string): Memory => ({ id, type: "semantic", content, createdAt: 1, updatedAt: 1 });
+    const stores: Partial<Record<MemoryType, Memory[]>> = { semantic: [memory("m1", "Likes tea"), memory("m2", "Lives in Oslo")] };
+    const indexer = createIndexer({ sources: ["memory"] }, stores);
+
+    expect(await indexer.sync()).toMatchObject({ files: 1, embedded: 2 });
+    expect(db.prepare("SELECT path FROM files").all()).toEqual([{ path: "memory/semantic.json" }]);
+    expect((await indexer.sync()).files).toBe(0);
+
+    stores.semantic = [memory("m1", "Likes tea"), memory("m2", "Lives in Bergen")];
+    expect(await indexer.sync()).toMatchObject({ files: 1, embedded: 1, reused: 1 });
+
+    expect(indexer.removeMemories([{ id: "m1", type: "semantic" }])).toBe(1);
+    stores.semantic = [];
+    expect((await indexer.sync()).removed).toBe(1);
+    expect(chunkCount("memory")).toBe(0);
+  });
+
+  it("should only re-embed changed chunks of extra paths", async () => {
+    const notesDir = join(workspaceDir, "notes");
+    mkdirSync(notesDir);
+    writeFileSync(join(notesDir, "garden.md"), "Tomatoes need sun\n\nWater basil daily\n");
+    const indexer = createIndexer({ extraPaths: ["notes"] });
+
+    const first = await indexer.sync({ force: true });
+    expect(first.embedded).toBe(2);
+    expect(db.prepare("SELECT path FROM files WHERE source = 'memory'").all()).toEqual([{ path: join("notes", "garden.md") }]);
+
+    writeFileSync(join(notesDir, "garden.md"), "Tomatoes need sun\n\nWater basil weekly\n");
+    const second = await indexer.sync({ force: true });
+    expect(second).toMatchObject({ files: 1, embedded: 1, reused: 1 });
+
+    rmSync(join(notesDir, "garden.md"));
+    const third = await indexer.sync();
+    expect(third.removed).toBe(2);
+    expect(chunkCount("memory")).toBe(0);
+  });
+
+  it("should reuse cached embeddings and honour cache.maxEntries", async () => {
+    const indexer = createIndexer({ extraPaths: ["a.md"], cache: { enabled: true, maxEntries: 2 } });
+    writeFileSync(join(workspaceDir, "a.md"), "alpha alpha alpha\n\nbravo bravo bravo\n\ncharlie charlie\n");
+    await indexer.sync();
+
+    const cached = (db.prepare("SELECT COUNT(*) as count FROM embedding_cache").get() as { count: number }).count;
+    expect(cached).toBe(2);
+
+    // Dropping the chunks leaves the cache to serve the recent texts
+    db.exec("DELETE FROM chunks; DELETE FROM files;");
+    const embeddedBefore = provider.embedded.length;
+    const stats = await indexer.sync();
+    expect(stats.embedded).toBe(1);
+    expect(provider.embedded.length - embeddedBefore).toBe(1);
+  });
+});
@@ -0,0 +1,124 @@
+import { describe, it, expect, vi } from "vitest";
+import { createMemoryTools, type MemoryToolDeps } from "@server/agents/zuckerman/tools/memory/index.js";
+import { checkToolCallPolicy } from "@server/agents/zuckerman/tools/policy.js";
+import { resolveSecurityContext } from "@server/world/execution/security/policy/resolver.js";
+import type { MemorySystem } from "@server/agents/zuckerman/core/memory/memory-service.js";
+import type { MemorySearchManager } from "@server/agents/zuckerman/core/memory/retrieval/search.js";
+import type { Memory } from "@server/agents/zuckerman/core/memory/types.js";
+
+// node:sqlite is not needed here; the tools get their stores and search manager injected
+vi.mock("@server/agents/zuckerman/core/memory/retrieval/search.js", () => ({ getMemorySearchManager: vi.fn() }));
+vi.mock("@server/agents/zuckerman/core/memory/memory-service.js", () => ({ MemorySystem: vi.fn() }));
+
+const memories: Memory[] = [
+  { id: "m1", type: "semantic", content: "Dana prefers green tea", createdAt: 1, updatedAt: 1 },
+  { id: "m2", type: "episodic", content: "Dana ordered tea for the team offsite", createdAt: 2, updatedAt: 2 },
+  {
+    id: "m3", type: "semantic", content: "Dana's tea budget is private", createdAt: 3, updatedAt: 3,
+    metadata: { conversationId: "c1" },
+  },
+];
+
+const memorySystem = {
+  getMemories: () => memories,
+  find: (type: string, id: string) => memories.find(m => m.type === type && m.id === id) ?? null,
+} as unknown as MemorySystem;
+
+const chunks = [
+  { path: "memory/notes.md", startLine: 3, endLine: 4, score: 0.95, snippet: "Tea: sencha", source: "memory" },
+  {
+    path: "conversations/c1.jsonl", startLine: 10, endLine: 12, score: 0.9, snippet: "we talked tea", source: "conversations",
+    conversationId: "c1",
+  },
+];
+
+const searchManager = {
+  search: async (_query: string, opts: { conversationId?: string; includeShared?: boolean } = {}) =>
+    chunks
+      .filter(chunk => opts.conversationId === undefined
+        || chunk.conversationId === opts.conversationId
+        || (opts.includeShared && chunk.conversationId === undefined))
+      .map(({ conversationId: _, ...result }) => result),
+  status: () => ({ workspaceDir: "/tmp/zuckerman-memory" }),
+  readFile: async ({ relPath }: { relPath: string }) => ({ path: relPath, text: "line 3\nline 4" }),
+} as unknown as MemorySearchManager;
+
+const deps: MemoryToolDeps = {
+  getMemorySystem: async () => memorySystem,
+  getSearchManager: async () => searchManager,
+};
+
+const options = { toolCallId: "t1", messages: [] };
+
+describe("Memory tools", () => {
+  const { memorySearchTool, memoryGetTool } = createMemoryTools("zuckerman", deps);
+
+  it("should search stores and the index with citations", async () => {
+    const result = JSON.parse(await memorySearchTool.execute!({ query: "Dana tea" }, options) as string);
+
+    expect(result.success).toBe(true);
+    const citations = result.results.map((r: { citation: string }) => r.citation);
+    expect(citations).toContain("memory/notes.md#L3-L4");
+    expect(citations).toContain("memory:semantic/m1");
+  });
+
+  it("should filter by source and type", async () => {
+    const result = JSON.parse(await memorySearchTool.execute!(
+      { query: "Dana tea", sources: ["store"], types: ["episodic"] },
+      options,
+    ) as string);
+
+    expect(result.results.map((r: { id: string }) => r.id)).toEqual(["m2"]);
+  });
+
+  it("should get a memory by id", async () => {
+    const result = JSON.parse(await memoryGetTool.execute!({ id: "m1" }, options) as string);
+
+    expect(result.memory.content).toBe("Dana prefers green tea");
+    expect(result.citation).toBe("memory:semantic/m1");
+  });
+
+  it("should read indexed files but not outside the workspace", async () => {
+    const ok = JSON.parse(await memoryGetTool.execute!({ path: "memory/notes.md", from: 3, lines: 2 }, options) as string);
+    const escaped = JSON.parse(await memoryGetTool.execute!({ path: "../../etc/passwd" }, options) as string);
+
+    expect(ok.citation).toBe("memory/notes.md#L3-L4");
+    expect(escaped.success).toBe(false);
+  });
+
+  it("should keep a group conversation to its own and shared memories", async () => {
+    const groupOptions = {
+      ...options,
+      experimental_context: { securityContext: resolveSecurityContext({}, "g1", "group", "zuckerman") },
+    };
+
+    const search = JSON.parse(await memorySearchTool.execute!({ query: "Dana tea" }, groupOptions) as string);
+    const memory = JSON.parse(await memoryGetTool.execute!({ id: "m3" }, groupOptions) as string);
+    const transcript = JSON.parse(await memoryGetTool.execute!({ path: "conversations/c1.jsonl" }, groupOptions) as string);
+
+    const citations = search.results.map((r: { citation: string }) => r.citation);
+    expect(citations).toContain("memory/notes.md#L3-L4");
+    expect(citations).toContain("memory:semantic/m1");
+    expect(citations).not.toContain("memory:semantic/m3");
+    expect(citations.some((c: string) => c.startsWith("conversations/c1.jsonl"))).toBe(false);
+    expect(memory.success).toBe(false);
+    expect(transcript.success).toBe(false);
+  });
+
+  it("should let the main conversation search every conversation", async () => {
+    const mainOptions = {
+      ...options,
+      experimental_context: { securityContext: resolveSecurityContext({}, "c2", "main", "zuckerman") },
+    };
+
+    const search = JSON.parse(await memorySearchTool.execute!({ query: "Dana tea" }, mainOptions) as string);
+
+    expect(search.results.map((r: { citation: string }) => r.citation)).toContain("memory:semantic/m3");
+  });
+
+  it("should be covered by the memory tool group", () => {
+    const context = resolveSecurityContext({ tools: { deny: ["group:memory"] } }, "c1", "main", "zuckerman");
+
+    expect(checkToolCallPolicy("memory_search", { query: "x" }, context)?.kind).toBe("tool");
+  });
+});
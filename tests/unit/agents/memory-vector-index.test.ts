@@ -0,0 +1,148 @@
+import { describe, it, expect, beforeAll, afterEach } from "vitest";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { DatabaseSync } from "node:sqlite";
+
+// node:sqlite needs Node 22.5+
+const sqlite = await import("node:sqlite").catch(() => null);
+
+type Modules = {
+  schema: typeof import("@server/agents/zuckerman/core/memory/retrieval/encoding/schema.js");
+  embeddings: typeof import("@server/agents/zuckerman/core/memory/retrieval/encoding/embeddings.js");
+  vectorIndex: typeof import("@server/agents/zuckerman/core/memory/retrieval/vector-index.js");
+};
+
+const BENCH_CHUNKS = 100_000;
+const BENCH_DIMS = 64;
+
+function randomVector(dims: number, seed: number): Float32Array {
+  // Small deterministic PRNG so runs are comparable
+  let state = seed;
+  const vector = new Float32Array(dims);
+  for (let i = 0; i < dims; i++) {
+    state = (state * 1103515245 + 12345) % 2147483648;
+    vector[i] = state / 2147483648 - 0.5;
+  }
+  return vector;
+}
+
+describe.skipIf(!sqlite)("Memory vector index", () => {
+  let modules: Modules;
+  let dir: string;
+  let db: DatabaseSync;
+
+  beforeAll(async () => {
+    modules = {
+      schema: await import("@server/agents/zuckerman/core/memory/retrieval/encoding/schema.js"),
+      embeddings: await import("@server/agents/zuckerman/core/memory/retrieval/encoding/embeddings.js"),
+      vectorIndex: await import("@server/agents/zuckerman/core/memory/retrieval/vector-index.js"),
+    };
+  });
+
+  function openDatabase(): DatabaseSync {
+    dir = mkdtempSync(join(tmpdir(), "zuckerman-vec-"));
+    db = new sqlite!.DatabaseSync(join(dir, "memory.sqlite"), { allowExtension: true });
+    return db;
+  }
+
+  function ensureSchema(database: DatabaseSync): void {
+    modules.schema.ensureMemoryIndexSchema({ db: database, embeddingCacheTable: "embedding_cache", ftsTable: "fts_memory", ftsEnabled: false });
+  }
+
+  function insertChunk(database: DatabaseSync, id: string, vector: Float32Array, source = "memory", conversationId: string | null = null): void {
+    database.prepare(`
+      INSERT INTO chunks (id, path, source, conversation_id, start_line, end_line, hash, model, text, embedding, dims, updated_at)
+      VALUES (?, 'memory/semantic.json', ?, ?, 0, 0, '', 'test', ?, ?, ?, 0)
+    `).run(id, source, conversationId, id, modules.embeddings.packEmbedding(vector), vector.length);
+  }
+
+  afterEach(() => {
+    db?.close();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should migrate JSON embeddings to packed vectors", () => {
+    const database = openDatabase();
+    database.exec(`
+      CREATE TABLE chunks (
+        id TEXT PRIMARY KEY, path TEXT NOT NULL, start_line INTEGER NOT NULL, end_line INTEGER NOT NULL,
+        hash TEXT NOT NULL, model TEXT NOT NULL, text TEXT NOT NULL, embedding TEXT NOT NULL, updated_at INTEGER NOT NULL
+      );
+    `);
+    database.prepare("INSERT INTO chunks VALUES ('a', 'memory/semantic.json', 0, 0, 'h', 'm', 'likes tea', '[0.5,0.25]', 1)").run();
+    database.prepare("INSERT INTO chunks VALUES ('b', 'memory/semantic.json', 1, 1, 'h', 'm', 'no vector', '[]', 2)").run();
+
+    ensureSchema(database);
+
+    const rows = database.prepare("SELECT id, source, embedding, dims FROM chunks ORDER BY seq").all() as Array<{
+      id: string; source: string; embedding: Uint8Array | null; dims: number;
+    }>;
+    expect(rows.map(row => [row.id, row.source, row.dims])).toEqual([["a", "memory", 2], ["b", "memory", 0]]);
+    expect(Array.from(modules.embeddings.unpackEmbedding(rows[0].embedding))).toEqual([0.5, 0.25]);
+    expect(rows[1].embedding).toBeNull();
+  });
+
+  it("should filter results by source and conversation", () => {
+    const database = openDatabase();
+    ensureSchema(database);
+    const chunks: Array<[string, number[], string, string | null]> = [
+      ["tea", [1, 0], "memory", "conv-1"],
+      ["coffee", [0.9, 0.1], "memory", "conv-2"],
+      ["transcript", [1, 0.05], "conversations", "conv-1"],
+      ["notes", [0.8, 0.2], "memory", null],
+    ];
+    for (const [id, vector, source, conversationId] of chunks) {
+      insertChunk(database, id, Float32Array.from(vector), source, conversationId);
+    }
+
+    const indexes: Array<InstanceType<Modules["vectorIndex"]["ScanVectorIndex"]> | InstanceType<Modules["vectorIndex"]["SqliteVecIndex"]>> = [
+      new modules.vectorIndex.ScanVectorIndex(database),
+    ];
+    if (modules.vectorIndex.loadVectorExtension(database, process.env.SQLITE_VEC_PATH).loaded) {
+      const vec = new modules.vectorIndex.SqliteVecIndex(database);
+      vec.backfill();
+      indexes.push(vec);
+    }
+
+    const ids = (matches: Array<{ seq: number }>) => matches.map(match =>
+      (database.prepare("SELECT id FROM chunks WHERE seq = ?").get(match.seq) as { id: string }).id);
+    const query = Float32Array.from([1, 0]);
+    for (const index of indexes) {
+      expect(ids(index.search(query, 10))).toEqual(["tea", "transcript", "coffee", "notes"]);
+      expect(ids(index.search(query, 10, { sources: ["memory"] }))).toEqual(["tea", "coffee", "notes"]);
+      expect(ids(index.search(query, 10, { conversationId: "conv-1" }))).toEqual(["tea", "transcript"]);
+      expect(index.search(query, 1)[0].score).toBeCloseTo(1);
+    }
+    // sqlite-vec leaves conversation-plus-shared filtering to the chunks join
+    expect(ids(indexes[0].search(query, 10, { conversationId: "conv-1", includeShared: true })))
+      .toEqual(["tea", "transcript", "notes"]);
+  });
+
+  // Slow (inserts 100k chunks); run with MEMORY_VECTOR_BENCH=1. Vitest reports the test's duration.
+  it.runIf(process.env.MEMORY_VECTOR_BENCH)(`should find the nearest chunk among ${BENCH_CHUNKS / 1000}k chunks`, () => {
+    const database = openDatabase();
+    ensureSchema(database);
+
+    database.exec("BEGIN");
+    for (let i = 0; i < BENCH_CHUNKS; i++) {
+      insertChunk(database, `chunk-${i}`, randomVector(BENCH_DIMS, i + 1), i % 2 === 0 ? "memory" : "conversations");
+    }
+    database.exec("COMMIT");
+
+    const indexes: Array<InstanceType<Modules["vectorIndex"]["ScanVectorIndex"]> | InstanceType<Modules["vectorIndex"]["SqliteVecIndex"]>> = [
+      new modules.vectorIndex.ScanVectorIndex(database),
+    ];
+    if (modules.vectorIndex.loadVectorExtension(database, process.env.SQLITE_VEC_PATH).loaded) {
+      const vec = new modules.vectorIndex.SqliteVecIndex(database);
+      vec.backfill();
+      indexes.push(vec);
+    }
+
+    const target = randomVector(BENCH_DIMS, 4242);
+    const targetSeq = (database.prepare("SELECT seq FROM chunks WHERE id = 'chunk-4241'").get() as { seq: number }).seq;
+    for (const index of indexes) {
+      expect(index.search(target, 10)[0].seq).toBe(targetSeq);
+    }
+  }, 180_000);
+});
@@ -0,0 +1,52 @@
+import { describe, it, expect } from "vitest";
+import {
+  resolveAgentModelDefaults,
+  resolveModelSelection,
+} from "@server/agents/zuckerman/core/self/model-resolver.js";
+import { parseBrainPart } from "@server/agents/zuckerman/core/self/brain-part-loader.js";
+import { thinkingProviderOptions } from "@server/world/providers/llm/index.js";
+
+describe("Model resolution", () => {
+  const planning = parseBrainPart("planning", "---\nname: Planning\ndescription: Plan\ntrait: highQuality\ntemperature: 0.5\n---\nPlan.");
+
+  it("should fall back to stage traits and brain part temperature", () => {
+    expect(resolveModelSelection({ kind: "council" }, {})).toMatchObject({ trait: "fastCheap", modelId: undefined });
+    expect(resolveModelSelection({ kind: "brainPart", brainPart: planning }, {}))
+      .toMatchObject({ trait: "highQuality", temperature: planning.temperature });
+  });
+
+  it("should prefer conversation overrides over agent defaults", () => {
+    const agentDefaults = resolveAgentModelDefaults({
+      agents: {
+        list: [{ id: "zuckerman", defaultModel: "claude-sonnet-4-5", defaultProvider: "anthropic", temperature: 0.2 }],
+      },
+    }, "zuckerman");
+
+    expect(resolveModelSelection({ kind: "brainPart", brainPart: planning }, agentDefaults))
+      .toMatchObject({ provider: "anthropic", modelId: "claude-sonnet-4-5", temperature: 0.2 });
+
+    expect(resolveModelSelection({ kind: "respond" }, agentDefaults, {
+      modelOverride: "gpt-5.2",
+      providerOverride: "openai",
+      temperatureOverride: 1,
+      thinkingLevel: "high",
+    })).toEqual({ trait: "fast", provider: "openai", modelId: "gpt-5.2", temperature: 1, thinkingLevel: "high" });
+  });
+
+  it("should not carry the agent's model over to another provider", () => {
+    const selection = resolveModelSelection(
+      { kind: "council" },
+      { model: "claude-sonnet-4-5", provider: "anthropic" },
+      { providerOverride: "openrouter" },
+    );
+
+    expect(selection).toMatchObject({ provider: "openrouter", modelId: undefined, trait: "fastCheap" });
+  });
+
+  it("should map thinking levels to provider reasoning options", () => {
+    expect(thinkingProviderOptions("anthropic", "medium"))
+      .toEqual({ anthropic: { thinking: { type: "enabled", budgetTokens: 10000 } } });
+    expect(thinkingProviderOptions("openai", "xhigh")).toEqual({ openai: { reasoningEffort: "high" } });
+    expect(thinkingProviderOptions("openrouter", "off")).toBeUndefined();
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { spawn, spawnSync, type ChildProcess } from "node:child_process";
+import {
+  detectLinuxBackend,
+  toUinputKeySequence,
+  x11Platform,
+} from "@server/agents/zuckerman/tools/mouse/linux.js";
+
+const hasBinary = (name: string) => spawnSync("which", [name]).status === 0;
+const canRunXvfb = process.platform === "linux" && hasBinary("Xvfb") && hasBinary("xdotool");
+
+describe("Linux mouse platform", () => {
+  it("should pick the backend from the session type", () => {
+    expect(detectLinuxBackend({ DISPLAY: ":0" })).toBe("xdotool");
+    expect(detectLinuxBackend({ DISPLAY: ":0", WAYLAND_DISPLAY: "wayland-0" })).toBe("ydotool");
+    expect(detectLinuxBackend({ WAYLAND_DISPLAY: "wayland-0", ZUCKERMAN_INPUT_BACKEND: "xdotool" })).toBe("xdotool");
+    expect(() => detectLinuxBackend({})).toThrow(/Xvfb/);
+  });
+
+  it("should translate key combos into uinput press/release codes", () => {
+    expect(toUinputKeySequence("ctrl+shift+t")).toEqual(["29:1", "42:1", "20:1", "20:0", "42:0", "29:0"]);
+    expect(toUinputKeySequence("Return")).toEqual(["28:1", "28:0"]);
+    expect(() => toUinputKeySequence("hyper+x")).toThrow(/Unknown key/);
+  });
+});
+
+describe.skipIf(!canRunXvfb)("Linux mouse platform under Xvfb", () => {
+  const display = ":97";
+  let xvfb: ChildProcess;
+  let previousDisplay: string | undefined;
+
+  beforeAll(async () => {
+    xvfb = spawn("Xvfb", [display, "-screen", "0", "1024x768x24"], { stdio: "ignore" });
+    previousDisplay = process.env.DISPLAY;
+    process.env.DISPLAY = display;
+    await new Promise((resolve) => setTimeout(resolve, 500));
+  });
+
+  afterAll(() => {
+    xvfb?.kill();
+    process.env.DISPLAY = previousDisplay;
+  });
+
+  it("should report the virtual screen size", async () => {
+    expect(await x11Platform.getScreenSize!()).toEqual({ width: 1024, height: 768 });
+  });
+
+  it("should move the pointer and read it back", async () => {
+    await x11Platform.moveTo(200, 150);
+    expect(await x11Platform.getPosition()).toEqual({ x: 200, y: 150 });
+
+    await x11Platform.click(320, 240, "left", 1);
+    expect(await x11Platform.getPosition()).toEqual({ x: 320, y: 240 });
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { mkdtemp, mkdir, writeFile, readFile, rm, chmod } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { PluginToolLoader, setPluginToolEnabled } from "@server/agents/zuckerman/tools/plugins/index.js";
+
+async function addTool(agentDir: string, dir: string, manifest: Record<string, unknown>, files: Record<string, string> = {}) {
+  const toolDir = join(agentDir, "plugins", dir);
+  await mkdir(toolDir, { recursive: true });
+  await writeFile(join(toolDir, "tool.json"), JSON.stringify(manifest));
+  for (const [file, content] of Object.entries(files)) {
+    await writeFile(join(toolDir, file), content);
+  }
+  return toolDir;
+}
+
+describe("Plugin tools", () => {
+  let agentDir: string;
+
+  beforeAll(async () => {
+    agentDir = await mkdtemp(join(tmpdir(), "zuckerman-plugins-"));
+    await addTool(agentDir, "greet", {
+      description: "Greet someone",
+      module: "index.mjs",
+      inputSchema: { type: "object", properties: { who: { type: "string" } }, required: ["who"] },
+    }, {
+      "index.mjs": "export async function execute(input, context) { return { greeting: `hello ${input.who}`, agentId: context.agentId }; }",
+    });
+    const scriptDir = await addTool(agentDir, "shout", {
+      description: "Shout a word",
+      script: "run.sh",
+      args: { word: { type: "string", required: true } },
+    }, {
+      "run.sh": "#!/bin/sh\necho \"$TOOL_ARG_WORD!\"\n",
+    });
+    await chmod(join(scriptDir, "run.sh"), 0o755);
+    await addTool(agentDir, "terminal", { description: "Shadows a built-in", script: "run.sh" }, { "run.sh": "" });
+    await addTool(agentDir, "broken", { description: "No entry point" });
+  });
+
+  afterAll(async () => {
+    await rm(agentDir, { recursive: true, force: true });
+  });
+
+  it("should load module and script tools and report invalid ones", async () => {
+    const { tools, errors } = await new PluginToolLoader().loadPluginTools(agentDir, "zuckerman", ["terminal"]);
+
+    expect(tools.map(t => [t.name, t.kind, t.enabled])).toEqual([["greet", "module", true], ["shout", "script", true]]);
+    expect(errors.map(e => e.error).join("\n")).toMatch(/exactly one of "module" or "script"[\s\S]*already taken/);
+  });
+
+  it("should execute plugin tools", async () => {
+    const { tools } = await new PluginToolLoader().loadPluginTools(agentDir, "zuckerman", ["terminal"]);
+    const options = { toolCallId: "t1", messages: [] };
+
+    const greeting = await tools[0].tool.execute!({ who: "ada" }, options);
+    expect(JSON.parse(greeting as string)).toEqual({ greeting: "hello ada", agentId: "zuckerman" });
+
+    const shout = await tools[1].tool.execute!({ word: "hey" }, options);
+    expect(JSON.parse(shout as string)).toMatchObject({ success: true, stdout: "hey!\n" });
+  });
+
+  it("should save the enabled flag in the manifest", async () => {
+    const manifestFile = join(agentDir, "plugins", "greet", "tool.json");
+    await setPluginToolEnabled(manifestFile, false);
+
+    expect(JSON.parse(await readFile(manifestFile, "utf-8")).enabled).toBe(false);
+    const { tools } = await new PluginToolLoader().loadPluginTools(agentDir, "zuckerman");
+    expect(tools.find(t => t.name === "greet")?.enabled).toBe(false);
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, it, expect, beforeAll, afterAll, vi } from "vitest";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { matchesConversation, parseClassifiedDue } from "@server/agents/zuckerman/core/memory/prospective.js";
+import type { Memory } from "@server/agents/zuckerman/core/memory/types.js";
+
+// node:sqlite needs Node 22.5+
+const sqlite = await import("node:sqlite").catch(() => null);
+
+// The calendar and memory stores live under HOME
+const home = mkdtempSync(join(tmpdir(), "zuckerman-prospective-"));
+vi.stubEnv("HOME", home);
+
+afterAll(() => {
+  vi.unstubAllEnvs();
+  rmSync(home, { recursive: true, force: true });
+});
+
+describe("Prospective memory due conditions", () => {
+  it("should parse classifier output into a due condition", () => {
+    expect(parseClassifiedDue({ dueAt: "2026-05-01T09:00:00Z", recurrence: "weekly", dueWith: "" }))
+      .toEqual({ kind: "time", at: Date.parse("2026-05-01T09:00:00Z"), recurrence: "weekly" });
+    expect(parseClassifiedDue({ dueAt: "", recurrence: "none", dueWith: "Sam" }))
+      .toEqual({ kind: "conversation", with: "Sam" });
+    expect(parseClassifiedDue({ dueAt: "someday", recurrence: "none", dueWith: "" })).toBeUndefined();
+  });
+
+  it("should match conversations by name", () => {
+    const due = { kind: "conversation" as const, with: "@Sam" };
+    expect(matchesConversation(due, ["telegram: sam"])).toBe(true);
+    expect(matchesConversation(due, ["Samantha"])).toBe(false);
+    expect(matchesConversation({ kind: "time", at: 0 }, ["sam"])).toBe(false);
+  });
+});
+
+// The memory store and the calendar executor need node:sqlite
+describe.skipIf(!sqlite)("Prospective memory reminders", () => {
+  let prospective: typeof import("@server/agents/zuckerman/core/memory/prospective.js");
+  let service: typeof import("@server/agents/zuckerman/core/memory/memory-service.js");
+
+  beforeAll(async () => {
+    prospective = await import("@server/agents/zuckerman/core/memory/prospective.js");
+    service = await import("@server/agents/zuckerman/core/memory/memory-service.js");
+  });
+
+  it("should surface conversation reminders once", () => {
+    const memorySystem = new service.MemorySystem(home, "reminders-conversation");
+    const id = memorySystem.insert("prospective", "Ask Sam about the lease", { due: { kind: "conversation", with: "Sam" }, status: "pending" });
+
+    expect(prospective.takeConversationReminders(memorySystem, ["Alex"])).toEqual([]);
+    expect(prospective.takeConversationReminders(memorySystem, ["Sam"]).map(m => m.id)).toEqual([id]);
+    expect(prospective.takeConversationReminders(memorySystem, ["Sam"])).toEqual([]);
+    expect(memorySystem.find("prospective", id)?.metadata).toMatchObject({ status: "done" });
+  });
+
+  it("should keep repeating reminders pending after they fire", () => {
+    const memorySystem = new service.MemorySystem(home, "reminders-fired");
+    const once = memorySystem.insert("prospective", "Call the dentist", { due: { kind: "time", at: 0 }, status: "pending" });
+    const weekly = memorySystem.insert("prospective", "Water the plants", { due: { kind: "time", at: 0, recurrence: "weekly" }, status: "pending" });
+
+    prospective.markProspectiveMemoryFired(memorySystem, once);
+    prospective.markProspectiveMemoryFired(memorySystem, weekly);
+
+    expect(prospective.getPendingProspectiveMemories(memorySystem).map(m => m.id)).toEqual([weekly]);
+    expect(memorySystem.find("prospective", weekly)?.metadata?.firedAt).toBeDefined();
+  });
+
+  it("should build a calendar event that reminds on the memory's channel", async () => {
+    const { buildReminderEvent } = await import("@server/agents/zuckerman/calendar/reminders.js");
+    const memory: Memory = {
+      id: "m1",
+      type: "prospective",
+      content: "Renew the passport",
+      createdAt: 0,
+      updatedAt: 0,
+      metadata: { conversationId: "c1", due: { kind: "time", at: 1_000 } },
+    };
+
+    const event = buildReminderEvent(memory, "agent", { channel: "telegram", to: "42" }, 5_000)!;
+    expect(event).toMatchObject({ id: "reminder-m1", memoryId: "m1", startTime: 6_000, recurrence: { type: "none" } });
+    expect(event.action).toMatchObject({ type: "agentTurn", agentId: "agent", conversationIdSource: "c1", context: { channel: "telegram", to: "42" } });
+    expect(buildReminderEvent({ ...memory, metadata: { due: { kind: "conversation", with: "Sam" } } }, "agent")).toBeNull();
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { CouncilScheduler } from "@server/agents/zuckerman/core/self/scheduler.js";
+
+describe("Council scheduler", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should merge inputs per conversation and serve conversations round-robin", async () => {
+    const scheduler = new CouncilScheduler();
+    scheduler.notify("message", "chatty");
+    scheduler.notify("message", "quiet");
+    scheduler.notify("message", "chatty");
+    scheduler.notify("calendar", "chatty");
+
+    expect(await scheduler.next()).toMatchObject({ conversationId: "chatty", sources: ["message", "calendar"] });
+    scheduler.notify("message", "chatty");
+    expect(await scheduler.next()).toMatchObject({ conversationId: "quiet" });
+    expect(await scheduler.next()).toMatchObject({ conversationId: "chatty" });
+    expect(scheduler.getMetrics()).toMatchObject({ wakeups: 3, wakeupsBySource: { message: 3, calendar: 1 } });
+  });
+
+  it("should wait for input and resolve with null once closed", async () => {
+    const scheduler = new CouncilScheduler();
+    const pending = scheduler.next();
+    setTimeout(() => scheduler.notify("message", "c1"), 10);
+    expect(await pending).toMatchObject({ conversationId: "c1" });
+
+    const waiting = scheduler.next();
+    scheduler.close();
+    expect(await waiting).toBeNull();
+  });
+
+  it("should hold wakeups over the per-minute limit", async () => {
+    vi.useFakeTimers();
+    const scheduler = new CouncilScheduler({ maxCallsPerMinute: 1 });
+    scheduler.notify("message", "c1");
+    await scheduler.next();
+
+    scheduler.notify("message", "c2");
+    let woke = false;
+    const held = scheduler.next().then(wake => { woke = true; return wake; });
+    await vi.advanceTimersByTimeAsync(30_000);
+    expect(woke).toBe(false);
+
+    await vi.advanceTimersByTimeAsync(30_000);
+    expect(await held).toMatchObject({ conversationId: "c2" });
+    expect(scheduler.getMetrics().rateLimited).toBe(1);
+  });
+
+  it("should back off idle wakeups until new input arrives", async () => {
+    vi.useFakeTimers();
+    const scheduler = new CouncilScheduler({ idleBackoffMinMs: 1000, idleBackoffMaxMs: 3000 });
+
+    scheduler.scheduleIdle();
+    expect(scheduler.getMetrics().idleBackoffMs).toBe(1000);
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(await scheduler.next()).toMatchObject({ sources: ["idle"] });
+
+    scheduler.recordDecision("sleep");
+    scheduler.scheduleIdle();
+    expect(scheduler.getMetrics().idleBackoffMs).toBe(2000);
+
+    scheduler.notify("message", "c1");
+    expect(scheduler.getMetrics().idleBackoffMs).toBeNull();
+    await scheduler.next();
+    scheduler.scheduleIdle();
+    expect(scheduler.getMetrics().idleBackoffMs).toBe(1000);
+    scheduler.close();
+  });
+});
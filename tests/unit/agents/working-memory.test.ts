@@ -0,0 +1,65 @@
+import { describe, it, expect } from "vitest";
+import { WorkingMemory, SCRATCHPAD, MAX_SCRATCHPAD_ENTRIES } from "@server/agents/zuckerman/core/self/working-memory.js";
+import { selfCouncilPrompt } from "@server/agents/zuckerman/core/self/system2-brain-parts.js";
+import type { MemorySystem } from "@server/agents/zuckerman/core/memory/memory-service.js";
+import type { Memory, MemoryMetadata } from "@server/agents/zuckerman/core/memory/types.js";
+
+function createMemorySystem(): MemorySystem {
+  let memories: Memory[] = [];
+  let nextId = 0;
+  return {
+    batch: <T>(fn: () => T) => fn(),
+    findAll: () => [...memories],
+    insert: (_type: string, content: string, metadata?: MemoryMetadata) => {
+      const id = `m${nextId++}`;
+      memories.push({ id, type: "working", content, createdAt: 0, updatedAt: 0, metadata });
+      return id;
+    },
+    remove: (_type: string, id: string) => {
+      const before = memories.length;
+      memories = memories.filter(memory => memory.id !== id);
+      return memories.length !== before;
+    },
+  } as unknown as MemorySystem;
+}
+
+describe("Working memory partitions", () => {
+  it("should keep each conversation's entries separate", () => {
+    const workingMemory = new WorkingMemory(createMemorySystem());
+    workingMemory.push("c1", "c1 asked for the weather");
+    workingMemory.push("c2", "c2 asked for a recipe");
+
+    workingMemory.set("c1", ["c1 weather checked"]);
+
+    expect(workingMemory.get("c1")).toEqual(["c1 weather checked"]);
+    expect(workingMemory.get("c2")).toEqual(["c2 asked for a recipe"]);
+    expect(workingMemory.conversations().sort()).toEqual(["c1", "c2"]);
+  });
+
+  it("should cap the shared scratchpad", () => {
+    const workingMemory = new WorkingMemory(createMemorySystem());
+    const entries = Array.from({ length: MAX_SCRATCHPAD_ENTRIES + 5 }, (_, i) => `note ${i}`);
+
+    workingMemory.set(SCRATCHPAD, entries);
+
+    expect(workingMemory.get(SCRATCHPAD)).toEqual(entries.slice(-MAX_SCRATCHPAD_ENTRIES));
+    expect(workingMemory.conversations()).toEqual([]);
+  });
+
+  it("should only show a conversation's own partition and the scratchpad to its council", () => {
+    const workingMemory = new WorkingMemory(createMemorySystem());
+    workingMemory.push("c1", "c1 secret: the door code is 4821");
+    workingMemory.push("c2", "c2 asked what time it is");
+    workingMemory.push(SCRATCHPAD, "calendar sync finished");
+
+    const prompt = selfCouncilPrompt({
+      conversationId: "c2",
+      memory: workingMemory.get("c2"),
+      scratchpad: workingMemory.get(SCRATCHPAD),
+    }, []);
+
+    expect(prompt).toContain("c2 asked what time it is");
+    expect(prompt).toContain("calendar sync finished");
+    expect(prompt).not.toContain("4821");
+  });
+});
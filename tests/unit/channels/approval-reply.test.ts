@@ -0,0 +1,75 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { handleApprovalReply } from "@server/world/communication/messengers/channels/approval-reply.js";
+import { toolApprovals } from "@server/world/execution/security/approval/index.js";
+import type { Channel, ChannelMessage } from "@server/world/communication/messengers/channels/types.js";
+
+vi.mock("@server/world/config/index.js", () => ({
+  loadConfig: vi.fn().mockResolvedValue({
+    security: { approval: { enabled: true, approvers: ["telegram:-1001", "telegram:111"] } },
+  }),
+}));
+
+function createChannel(): Channel {
+  return {
+    id: "telegram",
+    type: "telegram",
+    send: vi.fn().mockResolvedValue(undefined),
+    onMessage: vi.fn(),
+    start: vi.fn(),
+    stop: vi.fn(),
+    isConnected: () => true,
+  };
+}
+
+function groupMessage(fromId: string): ChannelMessage {
+  return {
+    id: "m1",
+    channelId: "telegram",
+    from: "-1001",
+    content: "approve",
+    timestamp: Date.now(),
+    metadata: { isGroup: true, fromId },
+  };
+}
+
+describe("handleApprovalReply", () => {
+  const requests: string[] = [];
+
+  afterEach(() => {
+    for (const id of requests.splice(0)) toolApprovals.resolve(id, { decision: "deny" });
+  });
+
+  function requestApproval() {
+    const { request, decision } = toolApprovals.request({
+      agentId: "zuckerman",
+      conversationId: "c1",
+      runId: "r1",
+      toolName: "terminal",
+      toolArgs: { command: "ls" },
+      reason: "Runs shell commands",
+      timeoutMs: 60_000,
+    });
+    requests.push(request.id);
+    return { request, decision };
+  }
+
+  it("should reject a non-approver replying in a listed group", async () => {
+    const { request } = requestApproval();
+    const channel = createChannel();
+
+    const handled = await handleApprovalReply(channel, groupMessage("222"), "zuckerman", "c1", "telegram");
+
+    expect(handled).toBe(true);
+    expect(channel.send).toHaveBeenCalledWith("You are not allowed to approve tool calls here.", "-1001");
+    expect(toolApprovals.get(request.id)).toBeDefined();
+  });
+
+  it("should let a listed sender approve from a group", async () => {
+    const { decision } = requestApproval();
+    const channel = createChannel();
+
+    await handleApprovalReply(channel, groupMessage("111"), "zuckerman", "c1", "telegram");
+
+    await expect(decision).resolves.toMatchObject({ outcome: "approved", resolvedBy: "telegram:111" });
+  });
+});
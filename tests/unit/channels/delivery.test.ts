@@ -0,0 +1,114 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { DeliveryService } from "@server/world/communication/messengers/delivery/index.js";
+import { activityRecorder } from "@server/agents/zuckerman/activity/index.js";
+import { ChannelRegistry } from "@server/world/communication/messengers/channels/registry.js";
+import type { Channel } from "@server/world/communication/messengers/channels/types.js";
+import type { AgentRuntime } from "@server/world/runtime/agents/types.js";
+
+vi.mock("@server/agents/zuckerman/activity/index.js", () => ({
+  activityRecorder: {
+    recordChannelMessageOutgoing: vi.fn().mockResolvedValue(undefined),
+  },
+}));
+
+function createChannel(send: Channel["send"]): Channel {
+  return {
+    id: "telegram",
+    type: "telegram",
+    send,
+    onMessage: vi.fn(),
+    start: vi.fn(),
+    stop: vi.fn(),
+    isConnected: () => true,
+  };
+}
+
+function createRuntime() {
+  const handlers = new Map<string, (event: any) => void | Promise<void>>();
+  const runtime = {
+    agentId: "zuckerman",
+    run: vi.fn(),
+    on: (type: string, handler: (event: any) => void) => {
+      handlers.set(type, handler);
+      return () => handlers.delete(type);
+    },
+    getDeliveryContext: (conversationId: string) =>
+      conversationId === "c1" ? { channel: "telegram", to: "42" } : undefined,
+  } as unknown as AgentRuntime;
+  return { runtime, emit: (event: any) => handlers.get(event.type)?.(event) };
+}
+
+describe("DeliveryService", () => {
+  let registry: ChannelRegistry;
+
+  beforeEach(() => {
+    registry = new ChannelRegistry();
+  });
+
+  it("should deliver assistant writes to the remembered channel", async () => {
+    const send = vi.fn().mockResolvedValue(undefined);
+    registry.register(createChannel(send), { id: "telegram", type: "telegram", enabled: true });
+    const delivery = new DeliveryService(registry, { retryDelayMs: 0 });
+    const { runtime, emit } = createRuntime();
+
+    delivery.attach(runtime);
+    await emit({ type: "write", conversationId: "c1", role: "assistant", content: "hello" });
+    await vi.waitFor(() => expect(send).toHaveBeenCalledWith("hello", "42"));
+  });
+
+  it("should ignore conversations without a delivery context", async () => {
+    const send = vi.fn().mockResolvedValue(undefined);
+    registry.register(createChannel(send), { id: "telegram", type: "telegram", enabled: true });
+    const delivery = new DeliveryService(registry, { retryDelayMs: 0 });
+    const { runtime, emit } = createRuntime();
+
+    delivery.attach(runtime);
+    await emit({ type: "write", conversationId: "c2", role: "assistant", content: "hello" });
+    expect(send).not.toHaveBeenCalled();
+  });
+
+  it("should retry failed sends", async () => {
+    const send = vi.fn()
+      .mockRejectedValueOnce(new Error("network"))
+      .mockResolvedValueOnce(undefined);
+    registry.register(createChannel(send), { id: "telegram", type: "telegram", enabled: true });
+    const delivery = new DeliveryService(registry, { retryDelayMs: 0 });
+
+    const result = await delivery.deliver("zuckerman", "c1", { channel: "telegram", to: "42" }, "hi");
+
+    expect(result).toEqual({ delivered: true, attempts: 2 });
+  });
+
+  it("should reply in the conversation's thread", async () => {
+    const send = vi.fn().mockResolvedValue(undefined);
+    registry.register(createChannel(send), { id: "telegram", type: "telegram", enabled: true });
+    const delivery = new DeliveryService(registry, { retryDelayMs: 0 });
+
+    await delivery.deliver("zuckerman", "c1", { channel: "telegram", to: "42", threadId: 7 }, "hi");
+
+    expect(send).toHaveBeenCalledWith("hi", "42", { threadId: 7 });
+  });
+
+  it("should not resend when recording the reply fails", async () => {
+    const send = vi.fn().mockResolvedValue(undefined);
+    registry.register(createChannel(send), { id: "telegram", type: "telegram", enabled: true });
+    vi.mocked(activityRecorder.recordChannelMessageOutgoing).mockRejectedValueOnce(new Error("disk full"));
+    const delivery = new DeliveryService(registry, { retryDelayMs: 0 });
+
+    const result = await delivery.deliver("zuckerman", "c1", { channel: "telegram", to: "42" }, "hi");
+
+    expect(result).toEqual({ delivered: true, attempts: 1 });
+    expect(send).toHaveBeenCalledTimes(1);
+  });
+
+  it("should give up after max attempts", async () => {
+    const send = vi.fn().mockRejectedValue(new Error("down"));
+    registry.register(createChannel(send), { id: "telegram", type: "telegram", enabled: true });
+    const delivery = new DeliveryService(registry, { maxAttempts: 2, retryDelayMs: 0 });
+
+    const result = await delivery.deliver("zuckerman", "c1", { channel: "telegram", to: "42" }, "hi");
+
+    expect(result.delivered).toBe(false);
+    expect(send).toHaveBeenCalledTimes(2);
+  });
+});
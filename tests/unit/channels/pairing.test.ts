@@ -0,0 +1,67 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, rmSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { PairingStore, checkDmAccess } from "@server/world/communication/messengers/pairing/index.js";
+
+describe("Pairing", () => {
+  let dir: string;
+  let store: PairingStore;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "zuckerman-pairing-"));
+    store = new PairingStore(dir);
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should issue one code per unknown sender and approve it", () => {
+    const first = checkDmAccess({ channelId: "telegram", policy: "pairing", senderId: "42", allowlisted: false, store });
+    const second = checkDmAccess({ channelId: "telegram", policy: "pairing", senderId: "42", allowlisted: false, store });
+
+    expect(first).toMatchObject({ allowed: false, reason: "pairing_required", isNew: true });
+    expect(second).toMatchObject({ allowed: false, reason: "pairing_required", isNew: false });
+    if (first.allowed || first.reason !== "pairing_required") throw new Error("expected pairing");
+
+    const peer = new PairingStore(dir).approve(first.code.toLowerCase());
+
+    expect(peer).toMatchObject({ channelId: "telegram", senderId: "42" });
+    expect(checkDmAccess({ channelId: "telegram", policy: "pairing", senderId: "42", allowlisted: false, store }))
+      .toEqual({ allowed: true });
+    expect(store.listPending()).toHaveLength(0);
+  });
+
+  it("should merge approved peers into the allowlist without issuing codes", () => {
+    const { request } = store.requestPairing("signal", "+15551234567");
+    store.approve(request.code, "signal");
+
+    expect(checkDmAccess({ channelId: "signal", policy: "allowlist", senderId: "+15551234567", allowlisted: false, store }))
+      .toEqual({ allowed: true });
+    expect(checkDmAccess({ channelId: "signal", policy: "allowlist", senderId: "+15550000000", allowlisted: false, store }))
+      .toEqual({ allowed: false, reason: "not_allowlisted" });
+    expect(store.listPending("signal")).toHaveLength(0);
+  });
+
+  it("should keep approvals per channel and support revoking", () => {
+    const { request } = store.requestPairing("discord", "user-1");
+    store.approve(request.code);
+
+    expect(store.isApproved("discord", "user-1")).toBe(true);
+    expect(store.isApproved("slack", "user-1")).toBe(false);
+
+    expect(store.revoke("discord", "user-1")).toBe(true);
+    expect(store.isApproved("discord", "user-1")).toBe(false);
+  });
+
+  it("should leave open channels and config allowlists untouched", () => {
+    expect(checkDmAccess({ channelId: "whatsapp", policy: "open", senderId: "1", allowlisted: false, store }))
+      .toEqual({ allowed: true });
+    expect(checkDmAccess({ channelId: "whatsapp", senderId: "1", allowlisted: false, store }))
+      .toEqual({ allowed: true });
+    expect(checkDmAccess({ channelId: "whatsapp", policy: "pairing", senderId: "1", allowlisted: true, store }))
+      .toEqual({ allowed: true });
+    expect(store.listPending()).toHaveLength(0);
+  });
+});
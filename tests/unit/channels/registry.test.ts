@@ -4,6 +4,7 @@ import { TelegramChannel } from "@server/world/communication/messengers/channels
 import { DiscordChannel } from "@server/world/communication/messengers/channels/discord.js";
 import { SignalChannel } from "@server/world/communication/messengers/channels/signal.js";
 import type { TelegramConfig, DiscordConfig, SignalConfig } from "@server/world/config/types.js";
+import { FakeSignalDaemon } from "../helpers/signal-daemon.js";
 
 describe("ChannelRegistry", () => {
   let registry: ChannelRegistry;
@@ -178,7 +179,8 @@ describe("ChannelRegistry", () => {
 
   describe("stopAll", () => {
     it("should stop all registered channels", async () => {
-      const signalConfig: SignalConfig = { enabled: true };
+      const daemon = new FakeSignalDaemon();
+      const signalConfig: SignalConfig = { enabled: true, host: "127.0.0.1", port: await daemon.listen() };
       const channel = new SignalChannel(signalConfig);
 
       registry.register(channel, {
@@ -189,10 +191,12 @@ describe("ChannelRegistry", () => {
       });
 
       // Start first
-      await channel.start();
+      await registry.start("signal");
 
       // Should not throw
       await expect(registry.stopAll()).resolves.not.toThrow();
+      expect(channel.isConnected()).toBe(false);
+      await daemon.close();
     });
   });
 
@@ -1,131 +1,207 @@
-import { describe, it, expect, beforeEach, vi } from "vitest";
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
 import { SignalChannel } from "@server/world/communication/messengers/channels/signal.js";
+import type { ChannelMessage } from "@server/world/communication/messengers/channels/types.js";
 import type { SignalConfig } from "@server/world/config/types.js";
+import { FakeSignalDaemon } from "../helpers/signal-daemon.js";
+
+async function waitFor(check: () => boolean): Promise<void> {
+  for (let i = 0; i < 100 && !check(); i++) {
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+}
 
 describe("SignalChannel", () => {
+  let daemon: FakeSignalDaemon;
   let channel: SignalChannel;
   let config: SignalConfig;
-  let connectionCallback: ReturnType<typeof vi.fn>;
+  let statusCallback: ReturnType<typeof vi.fn>;
 
-  beforeEach(() => {
+  beforeEach(async () => {
+    daemon = new FakeSignalDaemon();
+    const port = await daemon.listen();
     config = {
       enabled: true,
+      account: "+15550000000",
+      host: "127.0.0.1",
+      port,
     };
-    connectionCallback = vi.fn();
-    channel = new SignalChannel(config, connectionCallback);
+    statusCallback = vi.fn();
+    channel = new SignalChannel(config, statusCallback);
   });
 
-  describe("constructor", () => {
-    it("should create channel with config", () => {
-      expect(channel.id).toBe("signal");
-      expect(channel.type).toBe("signal");
-    });
-
-    it("should accept connection callback", () => {
-      const callback = vi.fn();
-      const ch = new SignalChannel(config, callback);
-      expect(ch).toBeDefined();
-    });
+  afterEach(async () => {
+    await channel.stop();
+    await daemon.close();
   });
 
   describe("start", () => {
-    it("should not start if already running", async () => {
-      await channel.start();
-      const initialCallCount = connectionCallback.mock.calls.length;
-      
+    it("should connect to the signal-cli daemon", async () => {
       await channel.start();
-      
-      // Should not call callback again
-      expect(connectionCallback.mock.calls.length).toBeGreaterThanOrEqual(initialCallCount);
+
+      expect(channel.isConnected()).toBe(true);
+      expect(statusCallback).toHaveBeenCalledWith({ status: "connecting" });
+      expect(statusCallback).toHaveBeenCalledWith({ status: "connected" });
     });
 
     it("should not start if disabled", async () => {
-      const disabledConfig: SignalConfig = { enabled: false };
-      const disabledChannel = new SignalChannel(disabledConfig);
-      
+      const disabledChannel = new SignalChannel({ ...config, enabled: false });
+
       await disabledChannel.start();
-      
+
       expect(disabledChannel.isConnected()).toBe(false);
     });
 
-    it("should mark as running when enabled", async () => {
-      await channel.start();
-      
-      expect(channel.isConnected()).toBe(true);
-      expect(connectionCallback).toHaveBeenCalledWith(true);
+    it("should keep retrying until the daemon is reachable", async () => {
+      await daemon.close();
+      const unreachable = new SignalChannel(config, statusCallback);
+
+      await unreachable.start();
+      expect(unreachable.isConnected()).toBe(false);
+      expect(statusCallback).toHaveBeenLastCalledWith({ status: "connecting" });
+
+      const restarted = new FakeSignalDaemon();
+      await restarted.listen(config.port);
+      try {
+        await vi.waitFor(() => expect(unreachable.isConnected()).toBe(true), { timeout: 3000 });
+        expect(statusCallback).toHaveBeenLastCalledWith({ status: "connected" });
+      } finally {
+        await unreachable.stop();
+        await restarted.close();
+      }
     });
   });
 
   describe("stop", () => {
-    it("should stop the channel", async () => {
+    it("should disconnect the channel", async () => {
       await channel.start();
-      expect(channel.isConnected()).toBe(true);
-      
       await channel.stop();
-      
-      expect(channel.isConnected()).toBe(false);
-      expect(connectionCallback).toHaveBeenCalledWith(false);
-    });
 
-    it("should call connection callback on stop", async () => {
-      await channel.start();
-      connectionCallback.mockClear();
-      
-      await channel.stop();
-      
-      expect(connectionCallback).toHaveBeenCalledWith(false);
+      expect(channel.isConnected()).toBe(false);
+      expect(statusCallback).toHaveBeenLastCalledWith({ status: "disconnected" });
     });
   });
 
   describe("send", () => {
     it("should throw if not connected", async () => {
-      await expect(channel.send("test", "1234567890")).rejects.toThrow(
-        "Signal channel is not connected"
-      );
+      await expect(channel.send("test", "+15551234567")).rejects.toThrow("Signal channel is not connected");
     });
 
-    it("should throw error about signal-cli requirement", async () => {
+    it("should send direct messages to a recipient", async () => {
       await channel.start();
-      
-      await expect(channel.send("test message", "1234567890")).rejects.toThrow(
-        "Signal integration requires signal-cli setup"
-      );
+      await channel.send("hello", "+15551234567");
+
+      expect(daemon.requestsFor("send")[0].params).toEqual({
+        account: "+15550000000",
+        recipient: ["+15551234567"],
+        message: "hello",
+      });
     });
-  });
 
-  describe("onMessage", () => {
-    it("should register message handler", () => {
-      const handler = vi.fn();
-      channel.onMessage(handler);
-      
-      expect(channel).toBeDefined();
+    it("should send group messages by group id", async () => {
+      await channel.start();
+      await channel.send("hi all", "group:abc123==");
+
+      expect(daemon.requestsFor("send")[0].params).toMatchObject({ groupId: "abc123==", message: "hi all" });
     });
 
-    it("should register multiple handlers", () => {
-      const handler1 = vi.fn();
-      const handler2 = vi.fn();
-      
-      channel.onMessage(handler1);
-      channel.onMessage(handler2);
-      
-      expect(channel).toBeDefined();
+    it("should surface daemon errors", async () => {
+      daemon.results.send = new Error("Unregistered user");
+      await channel.start();
+
+      await expect(channel.send("hello", "+15551234567")).rejects.toThrow("Unregistered user");
     });
   });
 
-  describe("isConnected", () => {
-    it("should return false when not started", () => {
-      expect(channel.isConnected()).toBe(false);
+  describe("receive", () => {
+    it("should deliver direct messages with attachments and show typing", async () => {
+      const messages: ChannelMessage[] = [];
+      channel.onMessage((message) => messages.push(message));
+      await channel.start();
+
+      daemon.receive({
+        sourceNumber: "+15551234567",
+        sourceUuid: "uuid-1",
+        sourceName: "Dana",
+        timestamp: 1700000000000,
+        dataMessage: {
+          timestamp: 1700000000000,
+          message: "look at this",
+          attachments: [{ id: "att1", contentType: "image/png", filename: "photo.png", size: 10 }],
+        },
+      });
+      await waitFor(() => messages.length > 0 && daemon.requestsFor("sendTyping").length > 0);
+
+      expect(messages[0]).toMatchObject({
+        channelId: "signal",
+        from: "+15551234567",
+        metadata: { isGroup: false, fromId: "+15551234567", senderName: "Dana" },
+      });
+      expect(messages[0].content).toContain("look at this");
+      expect(messages[0].content).toContain("photo.png");
+      expect((messages[0].metadata?.attachments as Array<{ path: string }>)[0].path).toContain("att1");
+      expect(daemon.requestsFor("sendTyping")[0].params).toMatchObject({ recipient: ["+15551234567"] });
     });
 
-    it("should return true when started", async () => {
+    it("should address group messages to the group", async () => {
+      const messages: ChannelMessage[] = [];
+      channel.onMessage((message) => messages.push(message));
       await channel.start();
-      expect(channel.isConnected()).toBe(true);
+
+      daemon.receive({
+        sourceNumber: "+15551234567",
+        dataMessage: { timestamp: 1, message: "hey", groupInfo: { groupId: "abc123==", type: "DELIVER" } },
+      });
+      await waitFor(() => messages.length > 0);
+
+      expect(messages[0].from).toBe("group:abc123==");
+      expect(messages[0].metadata).toMatchObject({ isGroup: true, peerKind: "group", groupId: "abc123==" });
+    });
+
+    it("should block direct messages outside the allowlist", async () => {
+      const allowlisted = new SignalChannel({ ...config, dmPolicy: "allowlist", allowFrom: ["+15559999999"] });
+      const handler = vi.fn();
+      allowlisted.onMessage(handler);
+      await allowlisted.start();
+
+      daemon.receive({ sourceNumber: "+15551234567", dataMessage: { timestamp: 1, message: "hi" } });
+      daemon.receive({ sourceNumber: "+15559999999", dataMessage: { timestamp: 2, message: "hi" } });
+      await waitFor(() => handler.mock.calls.length > 0);
+      await allowlisted.stop();
+
+      expect(handler).toHaveBeenCalledTimes(1);
+      expect(handler.mock.calls[0][0].from).toBe("+15559999999");
     });
 
-    it("should return false after stop", async () => {
+    it("should ignore receipts and messages for other accounts", async () => {
+      const handler = vi.fn();
+      channel.onMessage(handler);
       await channel.start();
-      await channel.stop();
-      expect(channel.isConnected()).toBe(false);
+
+      daemon.receive({ sourceNumber: "+15551234567", receiptMessage: { isDelivery: true } });
+      daemon.receive({ sourceNumber: "+15551234567", dataMessage: { timestamp: 1, message: "hi" } }, "+15558888888");
+      await channel.send("ping", "+15551234567");
+
+      expect(handler).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("link", () => {
+    it("should report the device link URI as a QR code and store the account", async () => {
+      daemon.results.startLink = { deviceLinkUri: "sgnl://linkdevice?uuid=x&pub_key=y" };
+      daemon.results.finishLink = { number: "+15557777777" };
+      const unlinked = new SignalChannel({ ...config, account: undefined }, statusCallback);
+
+      const result = await unlinked.link("Test Device");
+
+      expect(result.account).toBe("+15557777777");
+      expect(statusCallback).toHaveBeenCalledWith({
+        status: "waiting_for_scan",
+        qr: "sgnl://linkdevice?uuid=x&pub_key=y",
+      });
+      expect(daemon.requestsFor("finishLink")[0].params).toEqual({
+        deviceLinkUri: "sgnl://linkdevice?uuid=x&pub_key=y",
+        deviceName: "Test Device",
+      });
     });
   });
 });
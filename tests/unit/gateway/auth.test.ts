@@ -0,0 +1,61 @@
+import { describe, it, expect } from "vitest";
+import {
+  GatewayAuthManager,
+  signGatewayChallenge,
+  resolveMethodScope,
+  hasScope,
+} from "@server/world/execution/security/auth/index.js";
+
+describe("Gateway Auth", () => {
+  const nonce = "nonce-123";
+
+  it("should accept a signed challenge and report the token's scope", () => {
+    const auth = new GatewayAuthManager({
+      enabled: true,
+      tokens: ["zk_admin", { token: "zk_viewer", scope: "read", name: "dashboard" }],
+    });
+
+    expect(auth.verifyChallenge(nonce, { signature: signGatewayChallenge("zk_viewer", nonce) }))
+      .toMatchObject({ authenticated: true, clientId: "dashboard", scope: "read" });
+    expect(auth.verifyChallenge(nonce, { token: "zk_admin" }))
+      .toMatchObject({ authenticated: true, scope: "admin" });
+  });
+
+  it("should reject wrong tokens and signatures for another nonce", () => {
+    const auth = new GatewayAuthManager({ enabled: true, tokens: ["zk_admin"] });
+
+    expect(auth.verifyChallenge(nonce, { token: "zk_wrong" }).authenticated).toBe(false);
+    expect(auth.verifyChallenge(nonce, { signature: signGatewayChallenge("zk_admin", "other") }).authenticated).toBe(false);
+    expect(auth.verifyChallenge(nonce, {}).authenticated).toBe(false);
+  });
+
+  it("should treat every client as admin when auth is disabled", () => {
+    const auth = new GatewayAuthManager();
+
+    expect(auth.isEnabled()).toBe(false);
+    expect(auth.verifyChallenge(nonce, {})).toEqual({ authenticated: true, scope: "admin" });
+  });
+
+  it("should rate limit per client", () => {
+    const auth = new GatewayAuthManager({ rateLimit: { requestsPerMinute: 2 } });
+
+    expect(auth.checkRateLimit("a").allowed).toBe(true);
+    expect(auth.checkRateLimit("a").allowed).toBe(true);
+    expect(auth.checkRateLimit("a").allowed).toBe(false);
+    expect(auth.checkRateLimit("b").allowed).toBe(true);
+  });
+
+  it("should map methods to scopes", () => {
+    expect(resolveMethodScope("conversations.list")).toBe("read");
+    expect(resolveMethodScope("health")).toBe("read");
+    expect(resolveMethodScope("agent.run")).toBe("write");
+    expect(resolveMethodScope("config.update")).toBe("admin");
+    expect(resolveMethodScope("config.get")).toBe("admin");
+    expect(resolveMethodScope("tools.toggle")).toBe("admin");
+    expect(resolveMethodScope("channels.pairing.approve")).toBe("admin");
+
+    expect(hasScope("write", "read")).toBe(true);
+    expect(hasScope("read", "write")).toBe(false);
+    expect(hasScope("write", "admin")).toBe(false);
+  });
+});
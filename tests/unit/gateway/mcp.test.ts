@@ -0,0 +1,158 @@
+import { describe, it, expect, afterAll, vi } from "vitest";
+import { createServer, type Server } from "node:http";
+import { join } from "node:path";
+import {
+  McpClient,
+  McpClientManager,
+  McpServer,
+  StdioTransport,
+  HttpTransport,
+} from "@server/world/providers/mcp/index.js";
+import { createMcpHttpHandler } from "@server/world/communication/gateway/server/mcp.js";
+import type { AgentRuntimeFactory } from "@server/world/runtime/agents/index.js";
+import type { GatewayAuthManager } from "@server/world/execution/security/auth/gateway-auth.js";
+
+vi.mock("@server/world/config/index.js", () => ({
+  loadConfig: vi.fn().mockResolvedValue({
+    mcp: { server: { enabled: true } },
+    agents: { list: [{ id: "zuckerman", homedir: "/tmp/zuckerman-mcp-test" }] },
+  }),
+}));
+vi.mock("@server/world/execution/security/context/index.js", () => ({
+  resolveSecurityContext: vi.fn().mockResolvedValue({ conversationId: "mcp:tester" }),
+}));
+
+const STUB_SERVER = join(process.cwd(), "tests/unit/helpers/mcp-stub-server.mjs");
+const toolOptions = { toolCallId: "t1", messages: [] };
+
+describe("MCP client", () => {
+  const manager = new McpClientManager();
+
+  afterAll(async () => {
+    await manager.closeAll();
+  });
+
+  it("should list and call tools of a stdio server", async () => {
+    const client = new McpClient(new StdioTransport(process.execPath, [STUB_SERVER]));
+    await client.connect();
+
+    expect(client.serverInfo?.name).toBe("stub");
+    expect((await client.listTools()).map(tool => tool.name)).toEqual(["echo", "add", "fail"]);
+    expect(await client.callTool("add", { a: 2, b: 3 })).toEqual({ content: [{ type: "text", text: "5" }] });
+    await expect(client.request("resources/list")).rejects.toThrow("-32601");
+
+    await client.close();
+  });
+
+  it("should expose allowed server tools as agent tools", async () => {
+    const tools = await manager.getTools({
+      servers: {
+        stub: { command: process.execPath, args: [STUB_SERVER], tools: { deny: ["add"] } },
+        missing: { command: join(process.cwd(), "does-not-exist") },
+      },
+    });
+
+    expect(Object.keys(tools)).toEqual(["mcp_stub_echo", "mcp_stub_fail"]);
+    expect(await tools.mcp_stub_echo.execute!({ text: "hi" }, toolOptions)).toBe("hi");
+    expect(JSON.parse(await tools.mcp_stub_fail.execute!({}, toolOptions) as string)).toEqual({ success: false, error: "it broke" });
+
+    const status = manager.status();
+    expect(status.find(server => server.name === "stub")).toMatchObject({ connected: true, tools: ["mcp_stub_echo", "mcp_stub_fail"] });
+    expect(status.find(server => server.name === "missing")?.error).toBeTruthy();
+  });
+});
+
+describe("MCP server", () => {
+  const server = new McpServer({ name: "zuckerman", version: "0.1.0" }, async () => [
+    {
+      name: "greet",
+      description: "Greet someone",
+      inputSchema: { type: "object", properties: { who: { type: "string" } } },
+      call: async (args) => ({ content: [{ type: "text", text: `hello ${args.who}` }] }),
+    },
+  ]);
+  let httpServer: Server;
+
+  afterAll(async () => {
+    await new Promise(resolve => httpServer?.close(resolve));
+  });
+
+  it("should answer protocol requests", async () => {
+    const init = await server.handle({ jsonrpc: "2.0", id: 1, method: "initialize", params: { protocolVersion: "2025-03-26" } });
+    expect(init?.result).toMatchObject({ protocolVersion: "2025-03-26", serverInfo: { name: "zuckerman" } });
+    expect(await server.handle({ jsonrpc: "2.0", method: "notifications/initialized" })).toBeNull();
+    expect((await server.handle({ jsonrpc: "2.0", id: 2, method: "tools/call", params: { name: "nope" } }))?.error?.code).toBe(-32602);
+  });
+
+  it("should serve tools to an HTTP client", async () => {
+    httpServer = createServer(async (req, res) => {
+      let body = "";
+      for await (const chunk of req) body += chunk;
+      const response = await server.handle(JSON.parse(body));
+      if (!response) {
+        res.writeHead(202).end();
+        return;
+      }
+      res.writeHead(200, { "Content-Type": "application/json" }).end(JSON.stringify(response));
+    });
+    await new Promise<void>(resolve => httpServer.listen(0, "127.0.0.1", resolve));
+    const { port } = httpServer.address() as { port: number };
+
+    const client = new McpClient(new HttpTransport(`http://127.0.0.1:${port}/mcp`));
+    await client.connect();
+
+    expect((await client.listTools()).map(tool => tool.name)).toEqual(["greet"]);
+    expect(await client.callTool("greet", { who: "ada" })).toEqual({ content: [{ type: "text", text: "hello ada" }] });
+    await client.close();
+  });
+});
+
+describe("MCP gateway endpoint", () => {
+  let httpServer: Server;
+
+  afterAll(async () => {
+    await new Promise(resolve => httpServer?.close(resolve));
+  });
+
+  it("should return the agent's reply from send_message", async () => {
+    const handlers = new Map<string, (event: any) => void>();
+    const runtime = {
+      agentId: "zuckerman",
+      getToolSet: async () => ({}),
+      getConversation: () => undefined,
+      getOrCreateConversationByKey: () => ({ id: "conv-1" }),
+      on: (type: string, handler: (event: any) => void) => {
+        handlers.set(type, handler);
+        return () => handlers.delete(type);
+      },
+      // Like the real runtime: run() returns before the reply, which arrives as a write event
+      run: vi.fn(async ({ conversationId }: { conversationId: string }) => {
+        setTimeout(() => handlers.get("write")?.({ type: "write", conversationId, role: "assistant", content: "pong" }), 10);
+        return { runId: "run-1", response: "" };
+      }),
+    };
+    const handler = createMcpHttpHandler({
+      agentFactory: { getRuntime: async () => runtime } as unknown as AgentRuntimeFactory,
+      authManager: {
+        authenticate: () => ({ authenticated: true, scope: "write", clientId: "tester" }),
+        checkRateLimit: () => ({ allowed: true }),
+      } as unknown as GatewayAuthManager,
+    });
+    httpServer = createServer((req, res) => {
+      void handler(req, res);
+    });
+    await new Promise<void>(resolve => httpServer.listen(0, "127.0.0.1", resolve));
+    const { port } = httpServer.address() as { port: number };
+
+    const client = new McpClient(new HttpTransport(`http://127.0.0.1:${port}/mcp`));
+    await client.connect();
+    const result = await client.callTool("send_message", { message: "ping" });
+
+    expect(result).toMatchObject({
+      content: [{ type: "text", text: "pong" }],
+      structuredContent: { conversationId: "conv-1", runId: "run-1", response: "pong" },
+    });
+    expect(handlers.size).toBe(0);
+    await client.close();
+  });
+});
@@ -0,0 +1,35 @@
+// Minimal MCP server over stdio for tests: "echo" and "add" tools, newline-delimited JSON-RPC
+import { createInterface } from "node:readline";
+
+const tools = [
+  { name: "echo", description: "Echo text back", inputSchema: { type: "object", properties: { text: { type: "string" } }, required: ["text"] } },
+  { name: "add", description: "Add two numbers", inputSchema: { type: "object", properties: { a: { type: "number" }, b: { type: "number" } } } },
+  { name: "fail", description: "Always fails", inputSchema: { type: "object", properties: {} } },
+];
+
+function reply(id, result) {
+  process.stdout.write(JSON.stringify({ jsonrpc: "2.0", id, result }) + "\n");
+}
+
+createInterface({ input: process.stdin }).on("line", (line) => {
+  const message = JSON.parse(line);
+  if (message.id === undefined) return;
+
+  switch (message.method) {
+    case "initialize":
+      return reply(message.id, { protocolVersion: message.params.protocolVersion, capabilities: { tools: {} }, serverInfo: { name: "stub", version: "1.0.0" } });
+    case "tools/list":
+      // Two pages, to exercise cursors
+      return message.params?.cursor
+        ? reply(message.id, { tools: tools.slice(2) })
+        : reply(message.id, { tools: tools.slice(0, 2), nextCursor: "page-2" });
+    case "tools/call": {
+      const { name, arguments: args } = message.params;
+      if (name === "echo") return reply(message.id, { content: [{ type: "text", text: args.text }] });
+      if (name === "add") return reply(message.id, { content: [{ type: "text", text: String(args.a + args.b) }] });
+      return reply(message.id, { content: [{ type: "text", text: "it broke" }], isError: true });
+    }
+    default:
+      process.stdout.write(JSON.stringify({ jsonrpc: "2.0", id: message.id, error: { code: -32601, message: "Method not found" } }) + "\n");
+  }
+});
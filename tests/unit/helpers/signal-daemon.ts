@@ -0,0 +1,64 @@
+import { createServer, type Server, type Socket } from "node:net";
+import type { AddressInfo } from "node:net";
+
+interface RpcRequest {
+  id: string;
+  method: string;
+  params?: Record<string, any>;
+}
+
+/**
+ * Fake signal-cli daemon speaking newline-delimited JSON-RPC over TCP
+ */
+export class FakeSignalDaemon {
+  requests: RpcRequest[] = [];
+  results: Record<string, unknown> = {};
+  private server: Server;
+  private sockets: Socket[] = [];
+
+  constructor() {
+    this.server = createServer((socket) => {
+      this.sockets.push(socket);
+      let buffer = "";
+      socket.setEncoding("utf8");
+      socket.on("data", (chunk: string) => {
+        buffer += chunk;
+        let newline = buffer.indexOf("\n");
+        while (newline !== -1) {
+          const request = JSON.parse(buffer.slice(0, newline)) as RpcRequest;
+          buffer = buffer.slice(newline + 1);
+          this.requests.push(request);
+          const result = this.results[request.method];
+          const response = result instanceof Error
+            ? { jsonrpc: "2.0", id: request.id, error: { code: -1, message: result.message } }
+            : { jsonrpc: "2.0", id: request.id, result: result ?? {} };
+          socket.write(`${JSON.stringify(response)}\n`);
+          newline = buffer.indexOf("\n");
+        }
+      });
+    });
+  }
+
+  async listen(port = 0): Promise<number> {
+    await new Promise<void>((resolve) => this.server.listen(port, "127.0.0.1", resolve));
+    return (this.server.address() as AddressInfo).port;
+  }
+
+  receive(envelope: Record<string, unknown>, account = "+15550000000"): void {
+    const notification = { jsonrpc: "2.0", method: "receive", params: { envelope, account } };
+    for (const socket of this.sockets) {
+      socket.write(`${JSON.stringify(notification)}\n`);
+    }
+  }
+
+  requestsFor(method: string): RpcRequest[] {
+    return this.requests.filter((request) => request.method === method);
+  }
+
+  async close(): Promise<void> {
+    for (const socket of this.sockets) {
+      socket.destroy();
+    }
+    await new Promise<void>((resolve) => this.server.close(() => resolve()));
+  }
+}
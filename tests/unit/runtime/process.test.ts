@@ -1,5 +1,10 @@
-import { describe, it, expect } from "vitest";
-import { executeProcess } from "@world/execution/process/index.js";
+import { describe, it, expect, vi } from "vitest";
+import { executeProcess } from "@server/world/execution/process/index.js";
+import { executeInSandbox } from "@server/world/execution/security/sandbox/manager.js";
+
+vi.mock("@server/world/execution/security/sandbox/manager.js", () => ({
+  executeInSandbox: vi.fn(),
+}));
 
 describe("Process Executor", () => {
   it("should execute a simple command", async () => {
@@ -43,4 +48,46 @@ describe("Process Executor", () => {
     // The env var is set, even if not used in this simple command
     expect(result.stdout.trim()).toBe("hello");
   });
+
+  it("should kill the process when its signal aborts", async () => {
+    const controller = new AbortController();
+    const started = Date.now();
+    setTimeout(() => controller.abort(), 100);
+
+    await expect(executeProcess({
+      command: "sleep",
+      args: ["10"],
+      signal: controller.signal,
+    })).rejects.toThrow("Command cancelled");
+    expect(Date.now() - started).toBeLessThan(5000);
+  });
+
+  it("should kill the sandboxed process when its signal aborts", async () => {
+    let execSignal: AbortSignal | undefined;
+    vi.mocked(executeInSandbox).mockImplementation((_sandbox, _command, _args, options) => {
+      execSignal = options?.signal;
+      return new Promise(() => {});
+    });
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 100);
+
+    const result = await executeProcess({
+      command: "sleep",
+      args: ["10"],
+      signal: controller.signal,
+      securityContext: {
+        conversationId: "c1",
+        conversationType: "main",
+        agentId: "zuckerman",
+        isSandboxed: true,
+        toolPolicy: {},
+        executionPolicy: {},
+        workspaceAccess: "rw",
+        sandboxContainerName: "sandbox",
+      },
+    });
+
+    expect(result).toMatchObject({ exitCode: 1, stderr: "Command cancelled" });
+    expect(execSignal?.aborted).toBe(true);
+  });
 });